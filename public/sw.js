@@ -0,0 +1,105 @@
+// Service worker: offline app shell + dataset.
+//
+// - Precache: the built shell and the Cesium static files under /cesium. The build (see the
+//   `precacheManifest` plugin in vite.config.ts) writes the file list and a content hash into
+//   PRECACHE below, so every deploy changes this file and installs a fresh cache; old ones are
+//   dropped on activate.
+// - Navigations: network first, falling back to the cached index.html.
+// - Dataset files: stale-while-revalidate, so the app starts from the last copy and the next
+//   visit gets the refreshed one. Requests that ask to revalidate go to the network first and
+//   only fall back to the cached copy offline. The manifest, patches and shards revalidate
+//   through the app's own IndexedDB cache and are left to the network.
+
+const PRECACHE = /* precache-manifest */ { version: 'dev', urls: [] };
+const PRECACHE_PREFIX = 'globecam-precache-';
+const PRECACHE_NAME = `${PRECACHE_PREFIX}${PRECACHE.version}`;
+const DATA_CACHE = 'globecam-data-v1';
+const DATA_PATHS = ['/camera_data.min.v2.json', '/camera_data.v2.bin'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(PRECACHE_NAME);
+      await cache.addAll(PRECACHE.urls);
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(
+        keys.filter((key) => key.startsWith(PRECACHE_PREFIX) && key !== PRECACHE_NAME).map((key) => caches.delete(key))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+async function handleNavigation(request) {
+  try {
+    return await fetch(request);
+  } catch (e) {
+    const shell = await caches.match('/index.html', { cacheName: PRECACHE_NAME });
+    if (shell) return shell;
+    throw e;
+  }
+}
+
+// The manifest-driven download (sync.ts `fetchFull`) asks for a revalidated copy and checks its
+// hash against the manifest; answering it from the cache while online would hand it the previous
+// version.
+function wantsFreshResponse(request) {
+  return request.cache === 'no-cache' || request.cache === 'no-store' || request.headers.has('If-None-Match');
+}
+
+async function staleWhileRevalidate(event) {
+  const cache = await caches.open(DATA_CACHE);
+  const key = new URL(event.request.url).pathname;
+  const refresh = fetch(event.request).then((res) => {
+    if (res.ok && res.status === 200) return cache.put(key, res.clone()).then(() => res);
+    return res;
+  });
+  if (wantsFreshResponse(event.request)) {
+    try {
+      return await refresh;
+    } catch (e) {
+      // Offline: the last copy still beats no dataset (IndexedDB may be memory-only here).
+      const cached = await cache.match(key);
+      if (cached) return cached;
+      throw e;
+    }
+  }
+  const cached = await cache.match(key);
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request, { cacheName: PRECACHE_NAME, ignoreSearch: true });
+  return cached || fetch(request);
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+  if (DATA_PATHS.includes(url.pathname)) {
+    event.respondWith(staleWhileRevalidate(event));
+    return;
+  }
+  if (url.pathname.startsWith('/assets/') || url.pathname.startsWith('/cesium/')) {
+    event.respondWith(cacheFirst(request));
+  }
+});
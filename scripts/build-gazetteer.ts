@@ -0,0 +1,68 @@
+// Regenerate the bundled reverse-geocoding gazetteer (src/lib/cameraData/gazetteer.data.ts).
+//
+// Usage: pnpm data:gazetteer [--min-population <n>]
+//
+// Places come from GeoNames (CC BY 4.0) via the `all-the-cities` package (cities1000 with
+// population) and admin-1 names from the `cities.json` package. Only places with at least
+// --min-population inhabitants (default 15000) are kept, plus capitals and admin-1 seats so
+// sparsely populated regions still have a name; neighbourhoods and historical places are dropped.
+
+import { writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { parseArgs } from 'node:util';
+
+interface GeoNamesCity {
+  name: string;
+  country: string;
+  featureCode: string;
+  adminCode: string;
+  population: number;
+  loc: { coordinates: [number, number] };
+}
+
+const { values: opts } = parseArgs({
+  options: {
+    'min-population': { type: 'string', default: '15000' },
+    out: { type: 'string', default: 'src/lib/cameraData/gazetteer.data.ts' },
+  },
+});
+
+const minPopulation = Number(opts['min-population']) || 0;
+const ALWAYS_KEPT = new Set(['PPLC', 'PPLA']);
+// Sections of a city, historical, abandoned and destroyed places.
+const EXCLUDED = new Set(['PPLX', 'PPLH', 'PPLQ', 'PPLW', 'PPLCH']);
+
+const require = createRequire(import.meta.url);
+const cities = require('all-the-cities') as GeoNamesCity[];
+const admin1 = require('cities.json/admin1.json') as { code: string; name: string }[];
+
+const admin1Names = new Map(admin1.map((a) => [a.code, a.name]));
+const clean = (s: string) => s.replace(/[\t\n]/g, ' ').trim();
+
+const kept = cities
+  .filter((c) => c.name && c.country && !EXCLUDED.has(c.featureCode))
+  .filter((c) => c.population >= minPopulation || ALWAYS_KEPT.has(c.featureCode))
+  .map((c) => ({
+    name: clean(c.name),
+    region: `${c.country}\t${clean(admin1Names.get(`${c.country}.${c.adminCode}`) ?? '')}`,
+    lat: Math.round(c.loc.coordinates[1] * 100),
+    lon: Math.round(c.loc.coordinates[0] * 100),
+  }))
+  .sort((a, b) => (a.region < b.region ? -1 : a.region > b.region ? 1 : a.lat - b.lat || a.lon - b.lon));
+
+const regions = Array.from(new Set(kept.map((p) => p.region)));
+const regionIndex = new Map(regions.map((r, i) => [r, i]));
+const places = kept.map((p) => `${p.name}\t${p.lat}\t${p.lon}\t${regionIndex.get(p.region)}`);
+
+const source = `// Generated by \`pnpm data:gazetteer\` from GeoNames (https://www.geonames.org, CC BY 4.0).
+// Do not edit by hand. Format: see \`parseGazetteer\` in ./gazetteer.ts.
+
+/** \`countryCode<TAB>admin-1 name\` per line (the name is empty when GeoNames has none). */
+export const GAZETTEER_REGIONS = ${JSON.stringify(regions.join('\n'))};
+
+/** \`name<TAB>latitude × 100<TAB>longitude × 100<TAB>region line\` per line. */
+export const GAZETTEER_PLACES = ${JSON.stringify(places.join('\n'))};
+`;
+
+writeFileSync(opts.out, source);
+console.log(`Wrote ${opts.out} (${places.length} places in ${regions.length} regions, ${(source.length / 1024).toFixed(0)} KB)`);
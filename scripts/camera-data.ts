@@ -0,0 +1,388 @@
+// Offline CLI between the raw scrape and the published dataset.
+//
+// Usage:
+//   pnpm data <command> <input...> [options]
+//
+// Commands:
+//   report    print counts per source/country, rejected rows, duplicate groups and ID collisions
+//   validate  same report; exits non-zero on ID collisions (and on rejected rows with --strict)
+//   build     write the minified dataset (+ manifest and patch) from the accepted rows
+//
+// Inputs are JSON arrays of raw rows or CSV files with a header row (columns named like the
+// JSON fields). Rows go through the same validation, ID derivation and dedup as the app.
+//
+// Options:
+//   --out <file>         dataset to write (default src/data/camera_data.min.v2.json; `.bin` = binary)
+//   --manifest <file>    manifest to update (default public/camera_data.manifest.json)
+//   --patches <dir>      where patch files go (default public/patches)
+//   --aliases <file>     camera ID alias table to update (default public/camera_data.aliases.json)
+//   --no-manifest        only write the dataset
+//   --strict             validate: rejected rows are errors too
+//   --json               print the report as JSON
+//   --limit <n>          examples listed per report section (default 10)
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import type { CameraData, LocationFlag } from '@/types/camera';
+import {
+  deriveCameraIdAliases,
+  mergeCameraIdAliases,
+  parseCameraIdAliasTable,
+  type CameraIdAliasTable,
+} from '@/lib/cameraData/aliases';
+import { getCountryName } from '@/lib/cameraData/countries';
+import { dedupeCameras } from '@/lib/cameraData/dedup';
+import { computeCameraId } from '@/lib/cameraData/ids';
+import { flagSharedCoordinates, LOCATION_FLAG_LABELS } from '@/lib/cameraData/locationQuality';
+import { parseDatasetManifest, type DatasetManifest } from '@/lib/cameraData/manifest';
+import { normalizeCameraRows } from '@/lib/cameraData/normalize';
+import { applyDatasetPatch, createDatasetPatch } from '@/lib/cameraData/patch';
+import { datasetFormatForFile, decodeDatasetPayload, encodeDatasetPayload, type DatasetPayload } from '@/lib/cameraData/payload';
+import type { CameraDataLoadReport, RawCameraRow } from '@/lib/cameraData/schema';
+import { parseCsvObjects } from './lib/csv';
+
+const { values: opts, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    out: { type: 'string', default: 'src/data/camera_data.min.v2.json' },
+    manifest: { type: 'string', default: 'public/camera_data.manifest.json' },
+    patches: { type: 'string', default: 'public/patches' },
+    aliases: { type: 'string', default: 'public/camera_data.aliases.json' },
+    'no-manifest': { type: 'boolean', default: false },
+    strict: { type: 'boolean', default: false },
+    json: { type: 'boolean', default: false },
+    limit: { type: 'string', default: '10' },
+  },
+});
+
+const [command, ...inputs] = positionals;
+const limit = Math.max(0, Number(opts.limit) || 0);
+
+if (!['report', 'validate', 'build'].includes(command) || inputs.length === 0) {
+  console.error('Usage: pnpm data <report|validate|build> <input.json|input.csv...> [options]');
+  process.exit(2);
+}
+
+function readInput(file: string): unknown[] {
+  const text = readFileSync(file, 'utf8');
+  if (file.toLowerCase().endsWith('.csv')) return parseCsvObjects(text);
+  const json: unknown = JSON.parse(text);
+  if (!Array.isArray(json)) throw new Error(`${file}: camera data JSON is not an array`);
+  return json;
+}
+
+/** The row as published: known fields only, numeric coordinates, no empty values. */
+function cleanRow(input: unknown, cam: CameraData): Partial<RawCameraRow> {
+  const raw = input as Record<string, unknown>;
+  const text = (key: keyof RawCameraRow) =>
+    typeof raw[key] === 'string' && (raw[key] as string).trim() ? (raw[key] as string).trim() : undefined;
+  // URLs stay byte-for-byte: camera IDs hash them.
+  const url = (key: 'image_url' | 'page_url') => (typeof raw[key] === 'string' && raw[key] ? (raw[key] as string) : undefined);
+  return {
+    latitude: cam.latitude,
+    longitude: cam.longitude,
+    country: text('country'),
+    city: text('city'),
+    region: text('region'),
+    manufacturer: text('manufacturer'),
+    image_url: url('image_url'),
+    page_url: url('page_url'),
+    source: text('source'),
+  };
+}
+
+interface IdCollision {
+  id: string;
+  /** Input row indexes sharing the ID; the first one is kept. */
+  indexes: number[];
+}
+
+interface DatasetAnalysis {
+  inputs: { file: string; rows: number }[];
+  report: CameraDataLoadReport;
+  /** Accepted rows with unique IDs, cleaned, in input order. */
+  rows: Partial<RawCameraRow>[];
+  cameras: CameraData[];
+  /** Rows whose ID (and content) repeats an earlier row. */
+  repeats: number;
+  collisions: IdCollision[];
+  duplicateGroups: { key: string; ids: string[]; sources: string[] }[];
+  /** Cameras (after dedup) per location quality flag. */
+  locationFlags: [string, number][];
+}
+
+function analyze(files: string[]): DatasetAnalysis {
+  const inputRows: unknown[] = [];
+  const inputsInfo = files.map((file) => {
+    const rows = readInput(file);
+    for (const row of rows) inputRows.push(row);
+    return { file, rows: rows.length };
+  });
+
+  const { cameras: accepted, report } = normalizeCameraRows(inputRows);
+  const rejected = new Set(report.rejected.map((r) => r.index));
+  const acceptedIndexes = inputRows.map((_, i) => i).filter((i) => !rejected.has(i));
+
+  const firstById = new Map<string, { index: number; json: string }>();
+  const collisionsById = new Map<string, number[]>();
+  const rows: Partial<RawCameraRow>[] = [];
+  const cameras: CameraData[] = [];
+  let repeats = 0;
+
+  accepted.forEach((cam, k) => {
+    const index = acceptedIndexes[k];
+    const row = cleanRow(inputRows[index], cam);
+    const json = JSON.stringify(row);
+    const first = firstById.get(cam.id);
+    if (first) {
+      if (first.json === json) {
+        repeats += 1;
+      } else {
+        const list = collisionsById.get(cam.id) ?? [first.index];
+        list.push(index);
+        collisionsById.set(cam.id, list);
+      }
+      return;
+    }
+    firstById.set(cam.id, { index, json });
+    rows.push(row);
+    cameras.push(cam);
+  });
+
+  const deduped = dedupeCameras(cameras);
+  const duplicateGroups = deduped.cameras
+    .filter((cam) => (cam.sources?.length ?? 0) > 1)
+    .map((cam) => ({
+      key: cam.network_key ?? '',
+      ids: cam.sources.map((s) => s.id),
+      sources: cam.sources.map((s) => s.source ?? 'unknown'),
+    }));
+
+  const located = flagSharedCoordinates(deduped.cameras);
+
+  return {
+    inputs: inputsInfo,
+    report,
+    rows,
+    cameras,
+    repeats,
+    collisions: Array.from(collisionsById, ([id, indexes]) => ({ id, indexes })),
+    duplicateGroups,
+    locationFlags: countBy(located.flatMap((cam) => cam.location_quality?.flags ?? []), (flag) => flag),
+  };
+}
+
+function countBy<T>(items: readonly T[], key: (item: T) => string): [string, number][] {
+  const counts = new Map<string, number>();
+  for (const item of items) counts.set(key(item), (counts.get(key(item)) ?? 0) + 1);
+  return Array.from(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+function buildReport(a: DatasetAnalysis) {
+  return {
+    inputs: a.inputs,
+    rows: {
+      total: a.report.total,
+      accepted: a.report.accepted,
+      rejected: a.report.rejected.length,
+      repaired: a.report.repaired.length,
+      repeated: a.repeats,
+      published: a.rows.length,
+    },
+    rejectedByReason: a.report.rejectedByReason,
+    repairedByReason: a.report.repairedByReason,
+    rejected: a.report.rejected,
+    bySource: Object.fromEntries(countBy(a.cameras, (c) => c.source ?? 'unknown')),
+    byCountry: Object.fromEntries(countBy(a.cameras, (c) => c.country_code ?? '??')),
+    duplicateGroups: a.duplicateGroups,
+    locationFlags: Object.fromEntries(a.locationFlags),
+    idCollisions: a.collisions,
+  };
+}
+
+function printReport(a: DatasetAnalysis) {
+  const r = buildReport(a);
+  const reasons = (counts: Partial<Record<string, number>>) =>
+    Object.entries(counts)
+      .map(([reason, n]) => `${reason}=${n}`)
+      .join(', ') || 'none';
+  const section = (title: string) => console.log(`\n${title}`);
+  const more = (total: number) => {
+    if (total > limit) console.log(`  … ${total - limit} more`);
+  };
+
+  for (const input of r.inputs) console.log(`${input.file}: ${input.rows} rows`);
+  console.log(
+    `Rows: ${r.rows.total} total, ${r.rows.accepted} accepted, ${r.rows.rejected} rejected, ` +
+      `${r.rows.repaired} repaired, ${r.rows.repeated} repeated, ${r.rows.published} published`
+  );
+  console.log(`Rejected: ${reasons(r.rejectedByReason)}`);
+  console.log(`Repaired: ${reasons(r.repairedByReason)}`);
+
+  section(`By source (${Object.keys(r.bySource).length})`);
+  for (const [source, n] of Object.entries(r.bySource)) console.log(`  ${source.padEnd(24)} ${n}`);
+
+  const countries = Object.entries(r.byCountry);
+  section(`By country (${countries.length})`);
+  for (const [code, n] of countries.slice(0, limit)) {
+    console.log(`  ${code}  ${getCountryName(code).padEnd(32)} ${n}`);
+  }
+  more(countries.length);
+
+  section(`Rejected rows (${r.rejected.length})`);
+  for (const row of r.rejected.slice(0, limit)) {
+    console.log(`  #${row.index} ${row.reason}${row.detail ? `: ${row.detail}` : ''}`);
+  }
+  more(r.rejected.length);
+
+  section(`Duplicate groups (${r.duplicateGroups.length}, ${r.duplicateGroups.reduce((n, g) => n + g.ids.length - 1, 0)} rows merged by the app)`);
+  for (const group of r.duplicateGroups.slice(0, limit)) {
+    console.log(`  ${group.key}: ${group.ids.map((id, i) => `${id} (${group.sources[i]})`).join(', ')}`);
+  }
+  more(r.duplicateGroups.length);
+
+  section('Location quality (cameras after dedup)');
+  if (a.locationFlags.length === 0) console.log('  no suspicious locations');
+  for (const [flag, n] of a.locationFlags) {
+    console.log(`  ${LOCATION_FLAG_LABELS[flag as LocationFlag].padEnd(24)} ${n}`);
+  }
+
+  section(`ID collisions (${r.idCollisions.length})`);
+  for (const c of r.idCollisions.slice(0, limit)) {
+    console.log(`  ${c.id}: rows ${c.indexes.map((i) => `#${i}`).join(', ')} (kept #${c.indexes[0]})`);
+  }
+  more(r.idCollisions.length);
+}
+
+const sha256 = (payload: DatasetPayload) =>
+  createHash('sha256')
+    .update(payload.format === 'binary' ? new Uint8Array(payload.bytes) : payload.text)
+    .digest('hex');
+
+function writePayload(file: string, payload: DatasetPayload) {
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, payload.format === 'binary' ? new Uint8Array(payload.bytes) : payload.text);
+}
+
+function readPayload(file: string): DatasetPayload | null {
+  if (!existsSync(file)) return null;
+  const buf = readFileSync(file);
+  return datasetFormatForFile(file) === 'binary'
+    ? { format: 'binary', bytes: buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength) as ArrayBuffer }
+    : { format: 'json', text: buf.toString('utf8') };
+}
+
+const manifestRef = (file: string) => path.relative(path.dirname(opts.manifest), file).split(path.sep).join('/');
+
+/**
+ * Carry the alias table forward: IDs that disappeared since the previous dataset are matched to
+ * new rows, and existing entries are re-pointed (or dropped) so every alias targets a current ID.
+ */
+function updateAliasTable(manifest: DatasetManifest | null, previousRows: unknown[] | null, rows: unknown[], version: number) {
+  const existingFile = manifest?.aliases ? path.join(path.dirname(opts.manifest), manifest.aliases) : null;
+  const existing = existingFile && existsSync(existingFile)
+    ? parseCameraIdAliasTable(JSON.parse(readFileSync(existingFile, 'utf8'))).aliases
+    : {};
+  const derived = previousRows ? deriveCameraIdAliases(previousRows, rows) : new Map<string, string>();
+  const currentIds = new Set(rows.map((row, index) => computeCameraId(row as Partial<RawCameraRow>, index)));
+  const merged = mergeCameraIdAliases(new Map(Object.entries(existing)), derived, currentIds);
+  if (merged.size === 0 && !existingFile) return { file: null, derived: 0, total: 0 };
+
+  const table: CameraIdAliasTable = {
+    version,
+    aliases: Object.fromEntries([...merged].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))),
+  };
+  mkdirSync(path.dirname(opts.aliases), { recursive: true });
+  writeFileSync(opts.aliases, `${JSON.stringify(table)}\n`);
+  return { file: manifestRef(opts.aliases), derived: derived.size, total: merged.size };
+}
+
+// With --json the report owns stdout.
+const log = (message: string) => (opts.json ? console.error(message) : console.log(message));
+
+function build(a: DatasetAnalysis) {
+  const out = opts.out;
+  const format = datasetFormatForFile(out);
+
+  if (opts['no-manifest']) {
+    writePayload(out, encodeDatasetPayload(a.rows, format));
+    log(`Wrote ${out} (${a.rows.length} rows)`);
+    return;
+  }
+
+  const manifest: DatasetManifest | null = existsSync(opts.manifest)
+    ? parseDatasetManifest(JSON.parse(readFileSync(opts.manifest, 'utf8')))
+    : null;
+  const previous = readPayload(out);
+  const base =
+    manifest && previous && datasetFormatForFile(manifest.file) === format && sha256(previous) === manifest.hash
+      ? decodeDatasetPayload(previous)
+      : null;
+
+  const version = manifest ? manifest.version + 1 : 1;
+  // Publish in canonical patch order so patched caches hash identically to this file.
+  const patch = base ? createDatasetPatch(base, a.rows, manifest.version, version) : null;
+  const rows = patch ? applyDatasetPatch(base, patch) : a.rows;
+
+  const payload = encodeDatasetPayload(rows, format);
+  const hash = sha256(payload);
+  if (manifest && hash === manifest.hash) {
+    log(`${out} is unchanged (v${manifest.version})`);
+    return;
+  }
+
+  const next: DatasetManifest = {
+    version,
+    hash,
+    file: path.basename(out),
+    patches: manifest?.patches ?? [],
+    shards: manifest?.shards ?? [],
+    aliases: manifest?.aliases ?? null,
+  };
+  let patchNote = manifest ? ', no patch (previous dataset missing or not the manifest version)' : '';
+  if (patch) {
+    const patchFile = path.join(opts.patches, `v${patch.from}-v${patch.to}.json`);
+    mkdirSync(opts.patches, { recursive: true });
+    writeFileSync(patchFile, JSON.stringify(patch));
+    const ref = manifestRef(patchFile);
+    next.patches = [...next.patches.filter((p) => p.from !== patch.from), { from: patch.from, to: patch.to, file: ref }];
+    patchNote = `, patch ${ref} (+${patch.add.length} -${patch.remove.length} ~${patch.update.length})`;
+  }
+
+  // Even a previous file that doesn't match the manifest still holds the IDs users have stored.
+  const aliases = updateAliasTable(manifest, base ?? (previous ? decodeDatasetPayload(previous) : null), rows, version);
+  next.aliases = aliases.file ?? next.aliases;
+
+  writePayload(out, payload);
+  mkdirSync(path.dirname(opts.manifest), { recursive: true });
+  writeFileSync(opts.manifest, `${JSON.stringify(next, null, 2)}\n`);
+  log(`Wrote ${out} (${rows.length} rows) and ${opts.manifest} v${next.version}${patchNote}`);
+  if (aliases.file) log(`Wrote ${opts.aliases} (${aliases.total} aliases, ${aliases.derived} new)`);
+  if (next.shards.length > 0) log('The manifest lists shards; run `pnpm data:shard` to refresh them.');
+}
+
+const analysis = analyze(inputs);
+
+if (opts.json) {
+  console.log(JSON.stringify(buildReport(analysis), null, 2));
+} else {
+  printReport(analysis);
+}
+
+if (command === 'build') {
+  log('');
+  build(analysis);
+}
+
+if (command === 'validate') {
+  const errors: string[] = [];
+  if (analysis.collisions.length > 0) errors.push(`${analysis.collisions.length} ID collisions`);
+  if (opts.strict && analysis.report.rejected.length > 0) errors.push(`${analysis.report.rejected.length} rejected rows`);
+  if (errors.length > 0) {
+    console.error(`\nValidation failed: ${errors.join(', ')}`);
+    process.exit(1);
+  }
+  console.log('\nValidation passed');
+}
@@ -0,0 +1,58 @@
+// Encode the JSON camera dataset into the columnar binary format and verify the round trip.
+//
+// Usage: pnpm data:encode [input.json] [output.bin]
+// Defaults: src/data/camera_data.min.v2.json -> src/data/camera_data.v2.bin
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { isDeepStrictEqual } from 'node:util';
+import { gzipSync } from 'node:zlib';
+import { decodeCameraDataBinary, encodeCameraDataBinary } from '@/lib/cameraData/binary';
+import { normalizeCameraRows } from '@/lib/cameraData/normalize';
+
+const input = process.argv[2] ?? 'src/data/camera_data.min.v2.json';
+const output = process.argv[3] ?? 'src/data/camera_data.v2.bin';
+
+// Best of a few runs, so JIT warm-up doesn't dominate the comparison.
+function timed<T>(fn: () => T, runs = 5): [T, number] {
+  let result: T;
+  let best = Number.POSITIVE_INFINITY;
+  for (let i = 0; i < runs; i++) {
+    const start = performance.now();
+    result = fn();
+    best = Math.min(best, performance.now() - start);
+  }
+  return [result, best];
+}
+
+const text = readFileSync(input, 'utf8');
+const [rows, jsonParseMs] = timed(() => JSON.parse(text) as unknown);
+if (!Array.isArray(rows)) {
+  console.error(`${input}: camera data JSON is not an array`);
+  process.exit(1);
+}
+
+const bytes = encodeCameraDataBinary(rows);
+writeFileSync(output, bytes);
+
+const [fromJson, jsonLoadMs] = timed(() => normalizeCameraRows(JSON.parse(text) as unknown[]).cameras);
+const [fromBinary, binaryLoadMs] = timed(() => normalizeCameraRows(decodeCameraDataBinary(bytes)).cameras);
+const [, binaryDecodeMs] = timed(() => decodeCameraDataBinary(bytes));
+
+const mismatch = fromJson.findIndex((cam, i) => !isDeepStrictEqual(cam, fromBinary[i]));
+if (fromJson.length !== fromBinary.length || mismatch !== -1) {
+  console.error(`Round trip mismatch: ${fromJson.length} cameras from JSON, ${fromBinary.length} from binary`);
+  if (mismatch !== -1) console.error('First differing camera:', fromJson[mismatch], fromBinary[mismatch]);
+  process.exit(1);
+}
+
+const kb = (n: number) => `${(n / 1024).toFixed(1)} KiB`;
+const gzipped = (b: Uint8Array | string) => kb(gzipSync(b).byteLength);
+console.log(
+  `${input}: ${rows.length} rows, ${kb(Buffer.byteLength(text))} (${gzipped(text)} gzip), ` +
+    `parse ${jsonParseMs.toFixed(1)} ms, parse+normalize ${jsonLoadMs.toFixed(1)} ms`
+);
+console.log(
+  `${output}: ${kb(bytes.byteLength)} (${gzipped(bytes)} gzip), ` +
+    `decode ${binaryDecodeMs.toFixed(1)} ms, decode+normalize ${binaryLoadMs.toFixed(1)} ms`
+);
+console.log(`Verified: both formats normalize to the same ${fromJson.length} cameras.`);
@@ -0,0 +1,63 @@
+// Minimal RFC 4180 CSV reader for raw scrape exports: quoted fields, doubled quotes,
+// embedded newlines, CRLF. The first record is the header; every record becomes an object
+// keyed by header name (empty cells are left out, like missing JSON fields).
+
+export function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  for (; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === ',') {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (quoted) throw new Error('Unterminated quoted CSV field');
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  // Blank lines parse as a single empty field.
+  return records.filter((r) => r.length > 1 || r[0] !== '');
+}
+
+export function parseCsvObjects(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsvRecords(text);
+  if (!header) return [];
+  const keys = header.map((h) => h.trim());
+  return rows.map((cells) => {
+    const obj: Record<string, string> = {};
+    keys.forEach((key, col) => {
+      const value = cells[col];
+      if (key && value !== undefined && value !== '') obj[key] = value;
+    });
+    return obj;
+  });
+}
@@ -0,0 +1,53 @@
+// Split the camera dataset into per-continent shards and list them in the manifest.
+//
+// Usage: pnpm data:shard [input.json] [--binary]
+// Defaults: src/data/camera_data.min.v2.json -> public/shards/<continent>.json
+//
+// The manifest (public/camera_data.manifest.json) keeps its version, full file and patches;
+// only `shards` is replaced. Without a manifest a new one (version 1) is created for the input.
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { parseDatasetManifest, type DatasetManifest, type DatasetShardRef } from '@/lib/cameraData/manifest';
+import { encodeDatasetPayload } from '@/lib/cameraData/payload';
+import { createDatasetShards } from '@/lib/cameraData/shards';
+
+const args = process.argv.slice(2);
+const binary = args.includes('--binary');
+const input = args.find((a) => !a.startsWith('--')) ?? 'src/data/camera_data.min.v2.json';
+
+const PUBLIC_DIR = 'public';
+const SHARD_DIR = 'shards';
+const MANIFEST_PATH = path.join(PUBLIC_DIR, 'camera_data.manifest.json');
+
+const sha256 = (data: string | Uint8Array) => createHash('sha256').update(data).digest('hex');
+const slug = (key: string) => key.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const text = readFileSync(input, 'utf8');
+const rows: unknown = JSON.parse(text);
+if (!Array.isArray(rows)) {
+  console.error(`${input}: camera data JSON is not an array`);
+  process.exit(1);
+}
+
+// Shards are rewritten from scratch so continents that disappeared don't linger.
+rmSync(path.join(PUBLIC_DIR, SHARD_DIR), { recursive: true, force: true });
+mkdirSync(path.join(PUBLIC_DIR, SHARD_DIR), { recursive: true });
+
+const shards: DatasetShardRef[] = createDatasetShards(rows).map((shard) => {
+  const file = `${SHARD_DIR}/${slug(shard.key)}.${binary ? 'bin' : 'json'}`;
+  const payload = encodeDatasetPayload(shard.rows, binary ? 'binary' : 'json');
+  const data = payload.format === 'binary' ? new Uint8Array(payload.bytes) : payload.text;
+  writeFileSync(path.join(PUBLIC_DIR, file), data);
+  console.log(`${file}: ${shard.rows.length} rows`);
+  return { key: shard.key, file, hash: sha256(data), count: shard.rows.length, bbox: shard.bbox };
+});
+
+const manifest: DatasetManifest = existsSync(MANIFEST_PATH)
+  ? parseDatasetManifest(JSON.parse(readFileSync(MANIFEST_PATH, 'utf8')))
+  : { version: 1, hash: sha256(text), file: path.basename(input), patches: [], shards: [], aliases: null };
+manifest.shards = shards;
+
+writeFileSync(MANIFEST_PATH, `${JSON.stringify(manifest, null, 2)}\n`);
+console.log(`${MANIFEST_PATH}: v${manifest.version}, ${shards.length} shards, ${rows.length} rows`);
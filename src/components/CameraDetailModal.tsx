@@ -1,6 +1,8 @@
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, ExternalLink, MapPin, Building2, Radio, Calendar, Star, Link as LinkIcon, Network, Shield, Copy } from 'lucide-react';
-import { CameraData } from '@/types/camera';
+import { X, ExternalLink, MapPin, MapPinCheck, Building2, Radio, Calendar, Star, Link as LinkIcon, Network, Shield, Copy, Clock, Globe2, Route } from 'lucide-react';
+import { CameraData, InferredField } from '@/types/camera';
+import { formatLocalTime, formatUtcOffset, getProviderAdapter, LOCATION_FLAG_LABELS } from '@/lib/cameraData';
+import { haversineKm } from '@/lib/geo';
 
 interface CameraDetailModalProps {
   camera: CameraData | null;
@@ -11,24 +13,11 @@ interface CameraDetailModalProps {
   isFavorite?: boolean;
   onCopyShareLink?: () => void;
   onDidCopy?: (label: string) => void;
+  /** Current time, ticked by the page; drives the camera's local clock. */
+  now?: Date;
 }
 
-function haversineKm(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
-  const toRad = (deg: number) => (deg * Math.PI) / 180;
-  const R = 6371;
-  const dLat = toRad(b.lat - a.lat);
-  const dLon = toRad(b.lon - a.lon);
-  const lat1 = toRad(a.lat);
-  const lat2 = toRad(b.lat);
-
-  const sinDLat = Math.sin(dLat / 2);
-  const sinDLon = Math.sin(dLon / 2);
-  const h = sinDLat * sinDLat + Math.cos(lat1) * Math.cos(lat2) * sinDLon * sinDLon;
-  const c = 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
-  return R * c;
-}
-
-export function CameraDetailModal({ camera, allCameras, onClose, onSelectCamera, onToggleFavorite, isFavorite, onCopyShareLink, onDidCopy }: CameraDetailModalProps) {
+export function CameraDetailModal({ camera, allCameras, onClose, onSelectCamera, onToggleFavorite, isFavorite, onCopyShareLink, onDidCopy, now }: CameraDetailModalProps) {
   if (!camera) return null;
 
   const relatedCameras = (() => {
@@ -47,7 +36,7 @@ export function CameraDetailModal({ camera, allCameras, onClose, onSelectCamera,
 
     return allCameras
       .filter((c) => c.id !== camera.id)
-      .filter((c) => c.country === camera.country)
+      .filter((c) => (c.country_code ?? c.country) === (camera.country_code ?? camera.country))
       .filter((c) => round3(c.latitude) === latKey && round3(c.longitude) === lonKey)
       .slice(0, 6);
   })();
@@ -61,6 +50,17 @@ export function CameraDetailModal({ camera, allCameras, onClose, onSelectCamera,
   const canShowNetwork = !!camera.network_key;
   const canShowSource = typeof camera.source === 'string' && camera.source.trim().length > 0;
   const accessLabel = camera.access_level === 'restricted' ? 'Restricted' : 'Public';
+  const provider = getProviderAdapter(camera.provider);
+  const mergedSources = camera.sources && camera.sources.length > 1 ? camera.sources : null;
+  const localTime = camera.timezone ? formatLocalTime(now ?? new Date(), camera.timezone) : null;
+  const utcOffset = camera.timezone ? formatUtcOffset(now ?? new Date(), camera.timezone) : null;
+  const isInferred = (field: InferredField) => camera.inferred_fields?.includes(field) ?? false;
+  const locationFlags = camera.location_quality?.flags ?? [];
+  const lastLocation = camera.previous_locations?.[camera.previous_locations.length - 1];
+  const movedLabel = lastLocation
+    ? `${haversineKm(lastLocation, { lat: camera.latitude, lon: camera.longitude }).toFixed(1)} km from previous position`
+    : null;
+  const locationLabel = locationFlags.length > 0 ? locationFlags.map((f) => LOCATION_FLAG_LABELS[f]).join(', ') : 'Verified';
 
   return (
     <AnimatePresence>
@@ -120,8 +120,9 @@ export function CameraDetailModal({ camera, allCameras, onClose, onSelectCamera,
               
               {/* Title */}
               <div className="absolute bottom-0 left-0 right-0 p-4">
-                <h2 className="font-mono text-lg font-medium text-foreground text-glow">
+                <h2 className="font-mono text-lg font-medium text-foreground text-glow flex items-center gap-2">
                   {camera.city}
+                  {isInferred('city') && <InferredBadge />}
                 </h2>
                 <p className="font-mono text-xs text-muted-foreground uppercase tracking-wider">
                   Camera ID: {camera.id || 'CAM-UNKNOWN'}
@@ -137,6 +138,7 @@ export function CameraDetailModal({ camera, allCameras, onClose, onSelectCamera,
                   icon={<MapPin className="w-3.5 h-3.5" />}
                   label="Region"
                   value={camera.region}
+                  inferred={isInferred('region')}
                 />
                 <InfoItem 
                   icon={<Building2 className="w-3.5 h-3.5" />}
@@ -160,6 +162,14 @@ export function CameraDetailModal({ camera, allCameras, onClose, onSelectCamera,
                     value={camera.source as string}
                   />
                 )}
+                {provider && (
+                  <InfoItem
+                    icon={<ExternalLink className="w-3.5 h-3.5" />}
+                    label="Provider"
+                    value={provider.attribution.name}
+                    href={provider.attribution.url}
+                  />
+                )}
                 {canShowNetwork && (
                   <InfoItem
                     icon={<Network className="w-3.5 h-3.5" />}
@@ -172,6 +182,34 @@ export function CameraDetailModal({ camera, allCameras, onClose, onSelectCamera,
                   label="Access"
                   value={accessLabel}
                 />
+                {camera.location_quality && (
+                  <InfoItem
+                    icon={<MapPinCheck className="w-3.5 h-3.5" />}
+                    label="Location"
+                    value={locationLabel}
+                  />
+                )}
+                {movedLabel && (
+                  <InfoItem
+                    icon={<Route className="w-3.5 h-3.5" />}
+                    label="Moved"
+                    value={movedLabel}
+                  />
+                )}
+                {localTime && (
+                  <InfoItem
+                    icon={<Clock className="w-3.5 h-3.5" />}
+                    label="Local time"
+                    value={utcOffset ? `${localTime} ${utcOffset}` : localTime}
+                  />
+                )}
+                {camera.timezone && (
+                  <InfoItem
+                    icon={<Globe2 className="w-3.5 h-3.5" />}
+                    label="Time zone"
+                    value={camera.timezone}
+                  />
+                )}
               </div>
               
               {/* Coordinates */}
@@ -234,6 +272,37 @@ export function CameraDetailModal({ camera, allCameras, onClose, onSelectCamera,
                 </div>
               </div>
 
+              {/* Provenance of cross-source duplicates merged into this camera */}
+              {mergedSources && (
+                <div className="p-3 bg-secondary/30 rounded-sm border border-border/50">
+                  <div className="flex items-center justify-between gap-3 mb-2">
+                    <span className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">
+                      Listed by
+                    </span>
+                    <span className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">
+                      {mergedSources.length.toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="space-y-1">
+                    {mergedSources.map((src) => (
+                      <a
+                        key={src.id}
+                        href={src.page_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="w-full flex items-center justify-between gap-3 px-2 py-1.5 rounded-sm hover:bg-secondary/50 transition-colors"
+                      >
+                        <span className="font-mono text-xs text-foreground truncate">{src.source || 'unknown'}</span>
+                        <span className="shrink-0 flex items-center gap-1 font-mono text-[10px] uppercase tracking-wider text-muted-foreground">
+                          {src.access_level === 'restricted' ? 'Restricted' : 'Public'}
+                          <ExternalLink className="w-3 h-3" />
+                        </span>
+                      </a>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Related cameras */}
               {relatedSection && (
                 <div className="p-3 bg-secondary/30 rounded-sm border border-border/50">
@@ -322,19 +391,45 @@ interface InfoItemProps {
   icon: React.ReactNode;
   label: string;
   value: string;
+  href?: string;
+  /** The value was filled from the nearest known place rather than the dataset. */
+  inferred?: boolean;
+}
+
+function InferredBadge() {
+  return (
+    <span
+      className="font-mono text-[9px] font-normal uppercase tracking-wider px-1 py-px rounded-sm border border-yellow-400/40 text-yellow-400"
+      title="Not in the dataset; inferred from the nearest place in GeoNames (geonames.org, CC BY 4.0)"
+    >
+      inferred
+    </span>
+  );
 }
 
-function InfoItem({ icon, label, value }: InfoItemProps) {
+function InfoItem({ icon, label, value, href, inferred }: InfoItemProps) {
   return (
     <div className="flex items-start gap-2">
       <div className="text-muted-foreground mt-0.5">{icon}</div>
       <div className="flex-1 min-w-0">
-        <span className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground block">
+        <span className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground flex items-center gap-1.5">
           {label}
+          {inferred && <InferredBadge />}
         </span>
-        <span className="font-mono text-sm text-foreground truncate block">
-          {value}
-        </span>
+        {href ? (
+          <a
+            href={href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-mono text-sm text-foreground hover:text-accent truncate block transition-colors"
+          >
+            {value}
+          </a>
+        ) : (
+          <span className="font-mono text-sm text-foreground truncate block">
+            {value}
+          </span>
+        )}
       </div>
     </div>
   );
@@ -1,5 +1,6 @@
 import { forwardRef, useEffect, useImperativeHandle, useMemo, useRef } from 'react';
 import {
+  ArcType,
   BoundingSphere,
   Cartesian2,
   Cartesian3,
@@ -7,11 +8,14 @@ import {
   Color,
   Ellipsoid,
   GeoJsonDataSource,
+  ImageryLayer,
   Ion,
   Math as CesiumMath,
   PointPrimitiveCollection,
+  PolylineDashMaterialProperty,
   ScreenSpaceEventHandler,
   ScreenSpaceEventType,
+  SingleTileImageryProvider,
   UrlTemplateImageryProvider,
   SceneMode,
   WebMercatorProjection,
@@ -20,6 +24,7 @@ import {
   createWorldTerrainAsync,
 } from 'cesium';
 import type { CameraData } from '@/types/camera';
+import { getSolarElevation, getSubsolarPoint, SUNRISE_ELEVATION } from '@/lib/solar';
 
 interface CesiumGlobeProps {
   cameras: CameraData[];
@@ -32,6 +37,8 @@ interface CesiumGlobeProps {
   cloudsOpacity?: number;
   showCountryBorders?: boolean;
   showNavigationControls?: boolean;
+  /** Shade the night side of the Earth (refreshed every minute). */
+  showDayNight?: boolean;
   viewMode?: 'globe' | 'map';
   onReadyChange?: (ready: boolean) => void;
 }
@@ -42,6 +49,63 @@ export interface CesiumGlobeRef {
   rotateByDegrees: (degrees: number) => void;
   getNavigationState: () => { headingDegrees: number; pitchDegrees: number } | null;
   getViewer: () => Viewer | null;
+  /** Fly to look straight down on a point from `heightMeters` above it. */
+  flyTo: (latitude: number, longitude: number, heightMeters?: number) => void;
+}
+
+const NIGHT_OVERLAY_WIDTH = 720;
+const NIGHT_OVERLAY_HEIGHT = 360;
+const NIGHT_OVERLAY_MAX_ALPHA = 0.55;
+const NIGHT_OVERLAY_REFRESH_MS = 60_000;
+// Full darkness once the sun is this far below the horizon (astronomical dusk is -18°).
+const NIGHT_FULL_ELEVATION = -12;
+
+/**
+ * Equirectangular night mask for `date`: transparent where the sun is up, fading through twilight
+ * to `NIGHT_OVERLAY_MAX_ALPHA` at `NIGHT_FULL_ELEVATION`, with the terminator drawn as a thin line
+ * at `SUNRISE_ELEVATION` (where the Daylight filter switches). Returned as a PNG data URL.
+ */
+function renderNightOverlay(date: Date): string | null {
+  const canvas = document.createElement('canvas');
+  canvas.width = NIGHT_OVERLAY_WIDTH;
+  canvas.height = NIGHT_OVERLAY_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const subsolar = getSubsolarPoint(date);
+  const image = ctx.createImageData(NIGHT_OVERLAY_WIDTH, NIGHT_OVERLAY_HEIGHT);
+  const { data } = image;
+  const above = new Float32Array(NIGHT_OVERLAY_WIDTH);
+  for (let y = 0; y < NIGHT_OVERLAY_HEIGHT; y++) {
+    const lat = 90 - ((y + 0.5) / NIGHT_OVERLAY_HEIGHT) * 180;
+    let previousInRow = 0;
+    for (let x = 0; x < NIGHT_OVERLAY_WIDTH; x++) {
+      const lon = ((x + 0.5) / NIGHT_OVERLAY_WIDTH) * 360 - 180;
+      const elevation = getSolarElevation(lat, lon, subsolar);
+      const isDay = elevation > SUNRISE_ELEVATION;
+      // Against the pixel above and the one to the left, so the line shows wherever it runs.
+      const crossesHorizon =
+        (y > 0 && above[x] > SUNRISE_ELEVATION !== isDay) || (x > 0 && previousInRow > SUNRISE_ELEVATION !== isDay);
+      above[x] = elevation;
+      previousInRow = elevation;
+
+      const i = (y * NIGHT_OVERLAY_WIDTH + x) * 4;
+      if (crossesHorizon) {
+        data[i] = 255;
+        data[i + 1] = 196;
+        data[i + 2] = 92;
+        data[i + 3] = 140;
+        continue;
+      }
+      const darkness = Math.max(0, Math.min(1, elevation / NIGHT_FULL_ELEVATION));
+      data[i] = 2;
+      data[i + 1] = 6;
+      data[i + 2] = 23;
+      data[i + 3] = Math.round(darkness * NIGHT_OVERLAY_MAX_ALPHA * 255);
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png');
 }
 
 export const CesiumGlobe = forwardRef<CesiumGlobeRef, CesiumGlobeProps>(function CesiumGlobe(
@@ -56,6 +120,7 @@ export const CesiumGlobe = forwardRef<CesiumGlobeRef, CesiumGlobeProps>(function
     cloudsOpacity = 0.55,
     showCountryBorders = false,
     showNavigationControls = false,
+    showDayNight = false,
     viewMode = 'globe',
     onReadyChange,
   }: CesiumGlobeProps,
@@ -135,6 +200,19 @@ export const CesiumGlobe = forwardRef<CesiumGlobeRef, CesiumGlobeProps>(function
         }
       },
       getViewer: () => viewerRef.current,
+      flyTo: (latitude: number, longitude: number, heightMeters = 50_000) => {
+        const v = viewerRef.current;
+        if (!v) return;
+        try {
+          v.camera.flyTo({
+            destination: Cartesian3.fromDegrees(longitude, latitude, heightMeters),
+            orientation: { heading: 0, pitch: CesiumMath.toRadians(-90), roll: 0 },
+            duration: 2,
+          });
+        } catch {
+          // ignore
+        }
+      },
     }),
     [viewMode]
   );
@@ -665,6 +743,45 @@ export const CesiumGlobe = forwardRef<CesiumGlobeRef, CesiumGlobeProps>(function
     v.scene.requestRender();
   }, [cloudsEnabled, cloudsOpacity]);
 
+  // Day/night shading: a single-tile imagery layer re-rendered every minute. The new layer is added
+  // before the old one is removed so the overlay doesn't flicker.
+  useEffect(() => {
+    const v = viewerRef.current;
+    if (!v || !showDayNight) return;
+
+    let layer: ImageryLayer | null = null;
+    const refresh = () => {
+      if (v.isDestroyed()) return;
+      const url = renderNightOverlay(new Date());
+      if (!url) return;
+      try {
+        const next = v.imageryLayers.addImageryProvider(
+          new SingleTileImageryProvider({ url, tileWidth: NIGHT_OVERLAY_WIDTH, tileHeight: NIGHT_OVERLAY_HEIGHT })
+        );
+        if (layer) v.imageryLayers.remove(layer, true);
+        layer = next;
+        v.scene.requestRender();
+      } catch (e) {
+        console.error('Failed to update day/night overlay', e);
+      }
+    };
+
+    refresh();
+    const id = window.setInterval(refresh, NIGHT_OVERLAY_REFRESH_MS);
+    return () => {
+      window.clearInterval(id);
+      if (layer && !v.isDestroyed()) {
+        try {
+          v.imageryLayers.remove(layer, true);
+          v.scene.requestRender();
+        } catch {
+          // ignore
+        }
+      }
+      layer = null;
+    };
+  }, [showDayNight]);
+
   const markerData = useMemo(() => {
     return cameras
       .filter((c) => Number.isFinite(c.latitude) && Number.isFinite(c.longitude))
@@ -703,6 +820,49 @@ export const CesiumGlobe = forwardRef<CesiumGlobeRef, CesiumGlobeProps>(function
     v.scene.requestRender();
   }, [markerData, markerSize]);
 
+  // Dashed path from the selected camera's earlier positions (oldest first) to where it is now.
+  useEffect(() => {
+    const v = viewerRef.current;
+    if (!v || selectedCameraId == null) return;
+    const selected = cameras.find((c) => c.id === selectedCameraId);
+    const previous = selected?.previous_locations;
+    if (!previous || previous.length === 0) return;
+
+    const entities = [
+      v.entities.add({
+        polyline: {
+          positions: Cartesian3.fromDegreesArray([
+            ...previous.flatMap((p) => [p.lon, p.lat]),
+            selected.longitude,
+            selected.latitude,
+          ]),
+          width: 2,
+          arcType: ArcType.GEODESIC,
+          material: new PolylineDashMaterialProperty({ color: Color.ORANGE, dashLength: 12 }),
+        },
+      }),
+      ...previous.map((p) =>
+        v.entities.add({
+          position: Cartesian3.fromDegrees(p.lon, p.lat, 50),
+          point: {
+            pixelSize: 6 * markerSize,
+            color: Color.ORANGE.withAlpha(0.35),
+            outlineColor: Color.ORANGE,
+            outlineWidth: 1,
+            disableDepthTestDistance: Number.POSITIVE_INFINITY,
+          },
+        })
+      ),
+    ];
+    v.scene.requestRender();
+
+    return () => {
+      if (v.isDestroyed()) return;
+      for (const entity of entities) v.entities.remove(entity);
+      v.scene.requestRender();
+    };
+  }, [cameras, markerSize, selectedCameraId]);
+
   useEffect(() => {
     const v = viewerRef.current;
     if (!v) return;
@@ -1,37 +1,86 @@
-import { useState, useEffect, useMemo } from 'react';
+import {
+  forwardRef, useState, useEffect, useId, useImperativeHandle, useLayoutEffect, useMemo, useRef,
+  type KeyboardEvent as ReactKeyboardEvent, type ReactNode, type RefObject,
+} from 'react';
 import { motion } from 'framer-motion';
+import { useVirtualizer } from '@tanstack/react-virtual';
 import {
   Search, X, MapPin, Grid, List, Filter,
-  ChevronRight, Circle, Activity, Globe, LayoutGrid
+  ChevronRight, Circle, Activity, Globe, LayoutGrid, Clock, Navigation
 } from 'lucide-react';
 import { CameraData } from '@/types/camera';
+import { formatLocalTime, formatUtcOffset } from '@/lib/cameraData';
+import {
+  addSearchTerms,
+  applyFacets,
+  COORDINATE_FORMAT_LABELS,
+  EMPTY_SEARCH_QUERY,
+  FACET_FIELDS,
+  FACET_LABELS,
+  facetSearchTerms,
+  findNearestCameras,
+  formatCoordinates,
+  isEmptySearchQuery,
+  parseCoordinates,
+  parseSearchQuery,
+  searchCameras,
+  serializeSearchQuery,
+  type FacetField,
+  type FacetSelection,
+  type SearchTerm,
+} from '@/lib/search';
+import { SearchFacet } from '@/components/SearchFacets';
+import { SearchSuggestions } from '@/components/SearchSuggestions';
+import { useSearchAutocomplete } from '@/hooks/use-search-autocomplete';
 import { cn } from '@/lib/utils';
 
 interface CommandSearchProps {
   cameras: CameraData[];
+  /** Search text in the query language of `parseSearchQuery`; shared with the globe filter. */
+  query: string;
+  onQueryChange: (query: string) => void;
   isOpen: boolean;
   onClose: () => void;
   onSelectCamera: (camera: CameraData) => void;
   onSelectRegion?: (region: string) => void;
+  /** Move the globe to a location typed or pasted as coordinates. */
+  onFlyToLocation?: (latitude: number, longitude: number) => void;
+  /** Where short plus codes are resolved (usually the centre of the view). */
+  referencePoint?: { lat: number; lon: number } | null;
+  /** Current time, ticked by the page; results show each camera's local time. */
+  now?: Date;
 }
 
 export function CommandSearch({
   cameras,
+  query,
+  onQueryChange,
   isOpen,
   onClose,
   onSelectCamera,
+  onFlyToLocation,
+  referencePoint,
+  now,
 }: CommandSearchProps) {
-  const [query, setQuery] = useState('');
   const [selectedContinent, setSelectedContinent] = useState<string | null>('All Cameras');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [shouldRender, setShouldRender] = useState(false);
+  const [activeCamera, setActiveCamera] = useState<CameraData | null>(null);
+  const [facets, setFacets] = useState<FacetSelection>({});
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  const resultsScrollRef = useRef<HTMLDivElement | null>(null);
+  const resultsGridRef = useRef<VirtualCameraGridRef | null>(null);
+  const resultsId = useId();
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const autocomplete = useSearchAutocomplete({ cameras, query, onQueryChange, inputRef });
 
   // Reset state when opening
   useEffect(() => {
     if (isOpen) {
       setShouldRender(true);
-      setQuery('');
       setSelectedContinent('All Cameras');
+      setActiveCamera(null);
+      setFacets({});
     }
   }, [isOpen]);
 
@@ -51,10 +100,23 @@ export function CommandSearch({
     return () => window.removeEventListener('keydown', handleEscape);
   }, [isOpen, onClose]);
 
+  const parsedQuery = useMemo(() => parseSearchQuery(query), [query]);
+  // Resolved against the reference point as of the last edit: the view keeps moving underneath
+  // (auto-rotate), and re-resolving would rebuild the results and shift the scroll position.
+  const referencePointRef = useRef(referencePoint);
+  referencePointRef.current = referencePoint;
+  const coordinates = useMemo(() => parseCoordinates(query, referencePointRef.current), [query]);
+
+  const flyToCoordinates = () => {
+    if (!coordinates) return;
+    onFlyToLocation?.(coordinates.latitude, coordinates.longitude);
+    onClose();
+  };
+
   // Derive stats and filters
-  const { filteredCameras, continents } = useMemo(() => {
+  const { filteredCameras, continents, stats, distances, facetCounts } = useMemo(() => {
     if (!shouldRender) {
-      return { filteredCameras: [], continents: [] as string[], stats: { 'All Cameras': cameras.length } };
+      return { filteredCameras: [], continents: [] as string[], stats: { 'All Cameras': cameras.length }, distances: null, facetCounts: null };
     }
 
     const uniqueContinents = new Set(cameras.map(c => c.continent).filter(Boolean));
@@ -68,34 +130,102 @@ export function CommandSearch({
 
     const sortedContinents = Array.from(uniqueContinents).sort();
 
-    let filtered = cameras;
+    // Search ranks the whole dataset (best match first); a location lists the nearest cameras
+    // first; no query keeps dataset order
+    let filtered: CameraData[];
+    let distances: Map<CameraData, number> | null = null;
+    if (coordinates) {
+      const nearby = findNearestCameras(cameras, { lat: coordinates.latitude, lon: coordinates.longitude });
+      filtered = nearby.map((n) => n.camera);
+      distances = new Map(nearby.map((n) => [n.camera, n.distanceKm]));
+    } else {
+      filtered = isEmptySearchQuery(parsedQuery)
+        ? cameras
+        : searchCameras(cameras, parsedQuery).map((result) => result.camera);
+    }
 
     // Filter by Continent
     if (selectedContinent && selectedContinent !== 'All Cameras') {
       filtered = filtered.filter(cam => cam.continent === selectedContinent);
     }
 
-    // Filter by Search
-    const lowerQuery = query.toLowerCase().trim();
-    if (lowerQuery) {
-      const tokens = lowerQuery.split(/\s+/).filter(Boolean);
-      filtered = filtered.filter(cam => {
-        const text = [
-          cam.city,
-          cam.country,
-          cam.region,
-          cam.manufacturer,
-          cam.id
-        ].filter(Boolean).join(' ').toLowerCase();
-        return tokens.every(token => text.includes(token));
-      });
-    }
+    // Facets count within the query and continent, each ignoring its own selection
+    const { matches, counts } = applyFacets(filtered, facets);
 
-    return { filteredCameras: filtered, continents: sortedContinents, stats };
-  }, [cameras, query, selectedContinent, shouldRender]);
+    return { filteredCameras: matches, continents: sortedContinents, stats, distances, facetCounts: counts };
+  }, [cameras, coordinates, facets, parsedQuery, selectedContinent, shouldRender]);
 
   const isInteractive = isOpen && shouldRender;
 
+  const toggleFacet = (field: FacetField, value: string) => {
+    setFacets((prev) => {
+      const selected = prev[field] ?? [];
+      const next = selected.includes(value) ? selected.filter((v) => v !== value) : [...selected, value];
+      return { ...prev, [field]: next };
+    });
+  };
+
+  const filterTerms: SearchTerm[] = [
+    ...(selectedContinent && selectedContinent !== 'All Cameras'
+      ? [{ field: 'continent' as const, values: [selectedContinent], negated: false }]
+      : []),
+    ...facetSearchTerms(facets),
+  ];
+
+  // The globe filters by the shared query, so applying = folding the continent and facets into it.
+  // A location isn't a filter: the facets replace it.
+  const applyFiltersToGlobe = () => {
+    onQueryChange(serializeSearchQuery(addSearchTerms(coordinates ? EMPTY_SEARCH_QUERY : parsedQuery, filterTerms)));
+    setSelectedContinent('All Cameras');
+    setFacets({});
+    onClose();
+  };
+
+  const clearFilters = () => {
+    setSelectedContinent('All Cameras');
+    setFacets({});
+  };
+
+  const openCamera = (camera: CameraData) => {
+    onSelectCamera(camera);
+    onClose();
+  };
+
+  // Tab and Shift+Tab cycle through the window (query, view buttons, continent tabs, results)
+  // instead of escaping to the page behind it.
+  const handleWindowKeyDown = (e: ReactKeyboardEvent<HTMLDivElement>) => {
+    if (e.key !== 'Tab' || e.defaultPrevented) return;
+    const focusable = Array.from(
+      e.currentTarget.querySelectorAll<HTMLElement>('button, input, [tabindex]')
+    ).filter((el) => el.tabIndex >= 0 && !el.hasAttribute('disabled') && el.offsetParent !== null);
+    if (focusable.length === 0) return;
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (e.shiftKey && document.activeElement === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  // Vertical tablist: arrows, Home and End move between continents and select them.
+  const handleContinentKeyDown = (e: ReactKeyboardEvent<HTMLDivElement>) => {
+    const tabs = Array.from(e.currentTarget.querySelectorAll<HTMLElement>('[role="tab"]'));
+    const current = tabs.indexOf(document.activeElement as HTMLElement);
+    if (current < 0) return;
+    let next: number;
+    if (e.key === 'ArrowDown') next = (current + 1) % tabs.length;
+    else if (e.key === 'ArrowUp') next = (current - 1 + tabs.length) % tabs.length;
+    else if (e.key === 'Home') next = 0;
+    else if (e.key === 'End') next = tabs.length - 1;
+    else return;
+    e.preventDefault();
+    tabs[next].focus();
+    tabs[next].click();
+  };
+
   return (
     <div
       className={cn(
@@ -126,6 +256,10 @@ export function CommandSearch({
               : { opacity: 0, scale: 0.98, y: 12 }
           }
           transition={{ duration: 0.18, ease: 'easeOut' }}
+          role="dialog"
+          aria-modal="true"
+          aria-label="Browse cameras"
+          onKeyDown={isInteractive ? handleWindowKeyDown : undefined}
           className={cn(
             'w-full max-w-[1600px] h-full max-h-[90vh] bg-[#0a0a0a]/90 backdrop-blur-md border border-white/10 rounded-xl shadow-2xl flex flex-col overflow-hidden pointer-events-auto',
             isInteractive ? 'pointer-events-auto' : 'pointer-events-none',
@@ -151,6 +285,7 @@ export function CommandSearch({
                   </div>
                   <button
                     onClick={onClose}
+                    aria-label="Close"
                     className="p-2 hover:bg-white/10 rounded-full transition-colors"
                   >
                     <X className="w-6 h-6 text-muted-foreground" />
@@ -159,26 +294,57 @@ export function CommandSearch({
 
                 {/* SEARCH BAR & TOOLBAR */}
                 <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:gap-4">
-                  <div className="w-full sm:w-auto flex items-center justify-center gap-2 px-4 py-2 bg-secondary/30 border border-white/10 rounded-lg text-sm font-mono text-muted-foreground hover:text-white cursor-pointer transition-colors">
+                  <button
+                    type="button"
+                    onClick={() => setFiltersOpen((open) => !open)}
+                    aria-expanded={filtersOpen}
+                    className="md:cursor-default w-full sm:w-auto flex items-center justify-center gap-2 px-4 py-2 bg-secondary/30 border border-white/10 rounded-lg text-sm font-mono text-muted-foreground hover:text-white cursor-pointer transition-colors"
+                  >
                     <Filter className="w-4 h-4" />
                     <span>Filters</span>
-                  </div>
+                    {filterTerms.length > 0 && (
+                      <span className="text-[10px] bg-white/10 text-white px-1.5 py-0.5 rounded">{filterTerms.length}</span>
+                    )}
+                  </button>
 
                   <div className="flex-1 relative group">
                     <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground group-focus-within:text-white transition-colors" />
                     <input
+                      ref={inputRef}
                       type="text"
                       value={query}
-                      onChange={(e) => setQuery(e.target.value)}
-                      placeholder="Search cameras around the world..."
+                      onChange={(e) => onQueryChange(e.target.value)}
+                      {...autocomplete.inputProps}
+                      onKeyDown={(e) => {
+                        if (autocomplete.handleKeyDown(e)) return;
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          if (coordinates) flyToCoordinates();
+                          else if (filteredCameras.length > 0) openCamera(activeCamera && filteredCameras.includes(activeCamera) ? activeCamera : filteredCameras[0]);
+                        } else if (e.key === 'ArrowDown' && filteredCameras.length > 0) {
+                          e.preventDefault();
+                          resultsGridRef.current?.focusActive();
+                        }
+                      }}
+                      aria-label="Search cameras"
+                      placeholder='Search cameras or a location, e.g. tokyo, country:jp -mfr:axis, "new york" OR city:boston, 48.8584, 2.2945'
                       className="w-full bg-secondary/20 border border-white/10 rounded-lg py-3 pl-11 pr-4 text-sm text-white placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-white/20 focus:bg-secondary/30 transition-all"
                       autoFocus
                     />
+                    <SearchSuggestions
+                      id={autocomplete.listboxId}
+                      suggestions={autocomplete.suggestions}
+                      activeIndex={autocomplete.activeIndex}
+                      onActiveIndexChange={autocomplete.setActiveIndex}
+                      onAccept={autocomplete.accept}
+                    />
                   </div>
 
                   <div className="self-end sm:self-auto flex items-center gap-1 bg-secondary/20 p-1 rounded-lg border border-white/5">
                     <button
                       onClick={() => setViewMode('grid')}
+                      aria-label="Grid view"
+                      aria-pressed={viewMode === 'grid'}
                       className={cn(
                         "p-2 rounded-md transition-all",
                         viewMode === 'grid' ? "bg-white/10 text-white shadow-sm" : "text-muted-foreground hover:text-white"
@@ -188,6 +354,8 @@ export function CommandSearch({
                     </button>
                     <button
                       onClick={() => setViewMode('list')}
+                      aria-label="List view"
+                      aria-pressed={viewMode === 'list'}
                       className={cn(
                         "p-2 rounded-md transition-all",
                         viewMode === 'list' ? "bg-white/10 text-white shadow-sm" : "text-muted-foreground hover:text-white"
@@ -202,13 +370,39 @@ export function CommandSearch({
               {/* MAIN CONTENT AREA */}
               <div className="flex-1 flex overflow-hidden">
                 {/* SIDEBAR FILTERS */}
-                <div className="w-64 flex-none border-r border-border/40 overflow-y-auto p-4 hidden md:block">
+                <div className={cn('w-64 flex-none border-r border-border/40 overflow-y-auto p-4', filtersOpen ? 'block' : 'hidden md:block')}>
                   <div className="space-y-6">
+                    {filterTerms.length > 0 && (
+                      <div className="flex items-center gap-2">
+                        <button
+                          type="button"
+                          onClick={applyFiltersToGlobe}
+                          className="flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-md border border-white/10 bg-white/10 text-sm text-white hover:bg-white/15 transition-colors"
+                        >
+                          <Globe className="w-3.5 h-3.5" />
+                          Apply to globe
+                        </button>
+                        <button
+                          type="button"
+                          onClick={clearFilters}
+                          className="px-3 py-2 rounded-md text-sm text-muted-foreground hover:text-white hover:bg-white/5 transition-colors"
+                        >
+                          Clear
+                        </button>
+                      </div>
+                    )}
+
                     <div>
-                      <h3 className="text-xs font-mono uppercase tracking-wider text-muted-foreground mb-3 px-2">
+                      <h3 id={`${resultsId}-regions`} className="text-xs font-mono uppercase tracking-wider text-muted-foreground mb-3 px-2">
                         Regions
                       </h3>
-                      <div className="space-y-1">
+                      <div
+                        role="tablist"
+                        aria-orientation="vertical"
+                        aria-labelledby={`${resultsId}-regions`}
+                        onKeyDown={handleContinentKeyDown}
+                        className="space-y-1"
+                      >
                         <SidebarItem
                           label="All Cameras"
                           count={cameras.length}
@@ -220,7 +414,7 @@ export function CommandSearch({
                           <SidebarItem
                             key={continent}
                             label={continent}
-                            count={cameras.filter(c => c.continent === continent).length}
+                            count={stats[continent] ?? 0}
                             isActive={selectedContinent === continent}
                             onClick={() => setSelectedContinent(continent)}
                             icon={<Activity className="w-3.5 h-3.5" />}
@@ -228,36 +422,75 @@ export function CommandSearch({
                         ))}
                       </div>
                     </div>
+
+                    {facetCounts && FACET_FIELDS.map((field) => (
+                      <SearchFacet
+                        key={field}
+                        field={field}
+                        label={FACET_LABELS[field]}
+                        values={facetCounts[field]}
+                        selected={facets[field] ?? []}
+                        onToggle={toggleFacet}
+                      />
+                    ))}
                   </div>
                 </div>
 
                 {/* RESULTS GRID */}
-                <div className="flex-1 overflow-y-auto p-4 sm:p-6 md:p-8">
+                <div ref={resultsScrollRef} className="relative flex-1 overflow-y-auto p-4 sm:p-6 md:p-8">
+                  {coordinates && (
+                    <div className="mb-4 flex flex-wrap items-center justify-between gap-3 px-4 py-3 rounded-lg border border-white/10 bg-secondary/20">
+                      <div className="flex items-center gap-3 min-w-0">
+                        <MapPin className="w-4 h-4 flex-none text-accent" />
+                        <div className="min-w-0">
+                          <div className="text-sm font-mono text-white truncate">
+                            {formatCoordinates(coordinates.latitude, coordinates.longitude)}
+                          </div>
+                          <div className="text-[11px] font-mono text-muted-foreground">
+                            {COORDINATE_FORMAT_LABELS[coordinates.format]} • nearest cameras first
+                          </div>
+                        </div>
+                      </div>
+                      {onFlyToLocation && (
+                        <button
+                          onClick={flyToCoordinates}
+                          className="flex items-center gap-2 px-3 py-1.5 rounded-md border border-white/10 bg-white/5 text-sm text-white hover:bg-white/10 transition-colors"
+                        >
+                          <Navigation className="w-3.5 h-3.5" />
+                          Fly there
+                        </button>
+                      )}
+                    </div>
+                  )}
+
                   <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
                     <h2 className="text-lg font-light text-white">
-                      {selectedContinent} <span className="text-muted-foreground text-sm ml-2">{filteredCameras.length} results</span>
+                      {selectedContinent} <span className="text-muted-foreground text-sm ml-2">{filteredCameras.length.toLocaleString()} results</span>
                     </h2>
                   </div>
 
                   {filteredCameras.length > 0 ? (
-                    <div className={cn(
-                      "grid gap-4 md:gap-6",
-                      viewMode === 'grid'
-                        ? "grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5"
-                        : "grid-cols-1"
-                    )}>
-                      {filteredCameras.slice(0, 100).map((camera) => (
+                    <VirtualCameraGrid
+                      ref={resultsGridRef}
+                      id={resultsId}
+                      label={`${selectedContinent} cameras`}
+                      cameras={filteredCameras}
+                      viewMode={viewMode}
+                      scrollRef={resultsScrollRef}
+                      activeCamera={activeCamera}
+                      onActiveCameraChange={setActiveCamera}
+                      onOpenCamera={openCamera}
+                      renderCamera={(camera) => (
                         <CameraCard
                           key={camera.id}
                           camera={camera}
                           viewMode={viewMode}
-                          onClick={() => {
-                            onSelectCamera(camera);
-                            onClose();
-                          }}
+                          now={now}
+                          distanceKm={distances?.get(camera)}
+                          onClick={() => openCamera(camera)}
                         />
-                      ))}
-                    </div>
+                      )}
+                    />
                   ) : (
                     <div className="flex flex-col items-center justify-center h-64 text-muted-foreground">
                       <Search className="w-12 h-12 mb-4 opacity-20" />
@@ -274,10 +507,254 @@ export function CommandSearch({
 
 // Helper Components
 
+const RESULT_GAP_PX = 16;
+const GRID_MIN_CARD_WIDTH_PX = 260;
+const GRID_MAX_COLUMNS = 5;
+// Row heights before measurement: the list row is a fixed-size thumbnail, grid cards are a 16:9
+// thumbnail plus the text block.
+const LIST_ROW_ESTIMATE_PX = 98;
+const GRID_CARD_TEXT_ESTIMATE_PX = 130;
+
+export interface VirtualCameraGridRef {
+  /** Move focus to the active result, scrolling it into view first. */
+  focusActive: () => void;
+}
+
+/**
+ * Only the rows in (and near) the viewport are mounted, so tens of thousands of results scroll
+ * smoothly. Rows are measured after render; when the results change, the first visible camera
+ * stays in view if it's still among them, otherwise the list goes back to the top.
+ *
+ * Keyboard: one result is tabbable at a time (roving focus). Arrows move between results,
+ * PageUp/PageDown by a screenful, Home/End to the start/end of the row (Ctrl+Home/End, or plain
+ * Home/End in the list, to the first/last result), Enter or Space opens it. Exposed as an ARIA
+ * `grid` in grid view and a `listbox` in list view.
+ */
+const VirtualCameraGrid = forwardRef<
+  VirtualCameraGridRef,
+  {
+    id?: string;
+    label: string;
+    cameras: CameraData[];
+    viewMode: 'grid' | 'list';
+    scrollRef: RefObject<HTMLDivElement>;
+    /** The result that takes focus; the first one when null or no longer among the results. */
+    activeCamera: CameraData | null;
+    onActiveCameraChange: (camera: CameraData) => void;
+    onOpenCamera: (camera: CameraData) => void;
+    renderCamera: (camera: CameraData) => ReactNode;
+  }
+>(function VirtualCameraGrid(
+  { id, label, cameras, viewMode, scrollRef, activeCamera, onActiveCameraChange, onOpenCamera, renderCamera },
+  ref
+) {
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const cellIdPrefix = useId();
+  const [width, setWidth] = useState(0);
+  const [scrollMargin, setScrollMargin] = useState(0);
+
+  useLayoutEffect(() => {
+    const el = listRef.current;
+    if (!el) return;
+    setWidth(el.clientWidth);
+    const ro = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  // Whatever sits above the grid in the scroll container (headers, the location card) offsets it;
+  // that changes with the results (a location query adds a card) and with the width (wrapping).
+  useLayoutEffect(() => {
+    if (listRef.current) setScrollMargin(listRef.current.offsetTop);
+  }, [cameras, width]);
+
+  const columns =
+    viewMode === 'list'
+      ? 1
+      : Math.max(1, Math.min(GRID_MAX_COLUMNS, Math.floor((width + RESULT_GAP_PX) / (GRID_MIN_CARD_WIDTH_PX + RESULT_GAP_PX))));
+  const cardWidth = (width - RESULT_GAP_PX * (columns - 1)) / columns;
+  const rowCount = Math.ceil(cameras.length / columns);
+
+  const virtualizer = useVirtualizer({
+    count: rowCount,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => (viewMode === 'list' ? LIST_ROW_ESTIMATE_PX : (cardWidth * 9) / 16 + GRID_CARD_TEXT_ESTIMATE_PX),
+    gap: RESULT_GAP_PX,
+    overscan: 3,
+    scrollMargin,
+  });
+
+  useLayoutEffect(() => {
+    virtualizer.measure();
+  }, [virtualizer, columns, viewMode]);
+
+  // The camera at the top of the viewport, tracked between renders.
+  const anchorRef = useRef<CameraData | null>(null);
+  const layoutRef = useRef({ cameras, columns });
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const onScroll = () => {
+      const row = el.scrollTop > 0 ? virtualizer.getVirtualItemForOffset(el.scrollTop) : undefined;
+      anchorRef.current = row ? layoutRef.current.cameras[row.index * layoutRef.current.columns] ?? null : null;
+    };
+    el.addEventListener('scroll', onScroll, { passive: true });
+    return () => el.removeEventListener('scroll', onScroll);
+  }, [scrollRef, virtualizer]);
+
+  useLayoutEffect(() => {
+    const prev = layoutRef.current;
+    layoutRef.current = { cameras, columns };
+    if (prev.cameras === cameras && prev.columns === columns) return;
+    const index = anchorRef.current ? cameras.indexOf(anchorRef.current) : -1;
+    if (index > 0) {
+      virtualizer.scrollToIndex(Math.floor(index / columns), { align: 'start' });
+    } else {
+      anchorRef.current = null;
+      scrollRef.current?.scrollTo({ top: 0 });
+    }
+  }, [cameras, columns, scrollRef, virtualizer]);
+
+  const activeIndex = useMemo(() => Math.max(0, activeCamera ? cameras.indexOf(activeCamera) : 0), [activeCamera, cameras]);
+  const cellId = (index: number) => `${cellIdPrefix}-result-${index}`;
+
+  // The target cell may not be mounted yet (virtualized); focus it once its row renders.
+  const pendingFocusRef = useRef<number | null>(null);
+  const virtualRows = virtualizer.getVirtualItems();
+  useEffect(() => {
+    const index = pendingFocusRef.current;
+    if (index === null) return;
+    const el = document.getElementById(cellId(index));
+    if (!el) return;
+    pendingFocusRef.current = null;
+    el.focus({ preventScroll: true });
+  });
+
+  const focusIndex = (index: number) => {
+    if (cameras.length === 0) return;
+    const next = Math.max(0, Math.min(cameras.length - 1, index));
+    onActiveCameraChange(cameras[next]);
+    pendingFocusRef.current = next;
+    virtualizer.scrollToIndex(Math.floor(next / columns), { align: 'auto' });
+    document.getElementById(cellId(next))?.focus({ preventScroll: true });
+  };
+
+  useImperativeHandle(ref, () => ({ focusActive: () => focusIndex(activeIndex) }));
+
+  const rowsPerPage = () => {
+    const viewport = scrollRef.current?.clientHeight ?? 0;
+    const rowSize = virtualRows[0]?.size ?? LIST_ROW_ESTIMATE_PX;
+    return Math.max(1, Math.floor(viewport / (rowSize + RESULT_GAP_PX)));
+  };
+
+  const handleKeyDown = (e: ReactKeyboardEvent<HTMLDivElement>) => {
+    const rowStart = activeIndex - (activeIndex % columns);
+    const toEdge = viewMode === 'list' || e.ctrlKey || e.metaKey;
+    let next: number | null = null;
+    switch (e.key) {
+      case 'ArrowRight':
+        if (viewMode === 'grid') next = activeIndex + 1;
+        break;
+      case 'ArrowLeft':
+        if (viewMode === 'grid') next = activeIndex - 1;
+        break;
+      case 'ArrowDown':
+        next = activeIndex + columns;
+        break;
+      case 'ArrowUp':
+        next = activeIndex - columns;
+        break;
+      case 'PageDown':
+        next = activeIndex + columns * rowsPerPage();
+        break;
+      case 'PageUp':
+        next = activeIndex - columns * rowsPerPage();
+        break;
+      case 'Home':
+        next = toEdge ? 0 : rowStart;
+        break;
+      case 'End':
+        next = toEdge ? cameras.length - 1 : rowStart + columns - 1;
+        break;
+      case 'Enter':
+      case ' ':
+        e.preventDefault();
+        if (cameras[activeIndex]) onOpenCamera(cameras[activeIndex]);
+        return;
+      default:
+        return;
+    }
+    if (next === null) return;
+    e.preventDefault();
+    // Up from the top row and down from the last one stay put rather than wrapping.
+    if ((e.key === 'ArrowDown' && next >= cameras.length && Math.floor(activeIndex / columns) === rowCount - 1) || (e.key === 'ArrowUp' && next < 0)) return;
+    focusIndex(next);
+  };
+
+  const isGrid = viewMode === 'grid';
+
+  return (
+    <div
+      id={id}
+      ref={listRef}
+      role={isGrid ? 'grid' : 'listbox'}
+      aria-label={label}
+      aria-rowcount={isGrid ? rowCount : undefined}
+      aria-colcount={isGrid ? columns : undefined}
+      onKeyDown={handleKeyDown}
+      className="relative w-full"
+      style={{ height: virtualizer.getTotalSize() - scrollMargin }}
+    >
+      {virtualRows.map((row) => (
+        <div
+          key={row.key}
+          data-index={row.index}
+          ref={virtualizer.measureElement}
+          role={isGrid ? 'row' : 'presentation'}
+          aria-rowindex={isGrid ? row.index + 1 : undefined}
+          className="absolute left-0 top-0 w-full grid"
+          style={{
+            transform: `translateY(${row.start - scrollMargin}px)`,
+            gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+            gap: RESULT_GAP_PX,
+          }}
+        >
+          {cameras.slice(row.index * columns, (row.index + 1) * columns).map((camera, column) => {
+            const index = row.index * columns + column;
+            const isActive = index === activeIndex;
+            return (
+              <div
+                key={camera.id ?? index}
+                id={cellId(index)}
+                role={isGrid ? 'gridcell' : 'option'}
+                aria-colindex={isGrid ? column + 1 : undefined}
+                aria-selected={isActive}
+                aria-setsize={isGrid ? undefined : cameras.length}
+                aria-posinset={isGrid ? undefined : index + 1}
+                aria-label={[camera.city, camera.country].filter(Boolean).join(', ')}
+                tabIndex={isActive ? 0 : -1}
+                onFocus={() => {
+                  if (!isActive) onActiveCameraChange(camera);
+                }}
+                className="rounded-xl outline-none focus-visible:ring-2 focus-visible:ring-white/40"
+              >
+                {renderCamera(camera)}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+});
+
 function SidebarItem({ label, count, isActive, onClick, icon }: any) {
   return (
     <button
       onClick={onClick}
+      role="tab"
+      aria-selected={isActive}
+      tabIndex={isActive ? 0 : -1}
       className={cn(
         "w-full flex items-center justify-between px-3 py-2 rounded-md text-sm transition-all group",
         isActive
@@ -298,13 +775,25 @@ function SidebarItem({ label, count, isActive, onClick, icon }: any) {
   );
 }
 
-function CameraCard({ camera, onClick, viewMode }: { camera: CameraData, onClick: () => void, viewMode: 'grid' | 'list' }) {
+function CameraLocalTime({ camera, now }: { camera: CameraData, now?: Date }) {
+  if (!camera.timezone) return null;
+  const date = now ?? new Date();
+  const time = formatLocalTime(date, camera.timezone, { seconds: false });
+  if (!time) return null;
+  const offset = formatUtcOffset(date, camera.timezone);
+  return (
+    <span className="flex items-center gap-1" title={camera.timezone}>
+      <Clock className="w-3 h-3 flex-none" /> {time}{offset ? ` ${offset}` : ''}
+    </span>
+  );
+}
+
+function CameraCard({ camera, onClick, viewMode, now, distanceKm }: { camera: CameraData, onClick: () => void, viewMode: 'grid' | 'list', now?: Date, distanceKm?: number }) {
   const [imageError, setImageError] = useState(false);
 
   if (viewMode === 'list') {
     return (
       <motion.div
-        layoutId={camera.id}
         whileHover={{ scale: 1.01, backgroundColor: 'rgba(255,255,255,0.03)' }}
         onClick={onClick}
         className="group flex gap-4 p-3 rounded-lg border border-white/5 bg-secondary/10 hover:border-white/20 cursor-pointer transition-colors"
@@ -327,6 +816,18 @@ function CameraCard({ camera, onClick, viewMode }: { camera: CameraData, onClick
             <span className="flex items-center gap-1"><MapPin className="w-3 h-3" /> {camera.region}</span>
             <span className="w-1 h-1 rounded-full bg-white/20" />
             <span>{camera.manufacturer}</span>
+            {distanceKm !== undefined && (
+              <>
+                <span className="w-1 h-1 rounded-full bg-white/20" />
+                <span>{distanceKm.toFixed(1)} km</span>
+              </>
+            )}
+            {camera.timezone && (
+              <>
+                <span className="w-1 h-1 rounded-full bg-white/20" />
+                <CameraLocalTime camera={camera} now={now} />
+              </>
+            )}
           </div>
         </div>
       </motion.div>
@@ -335,7 +836,6 @@ function CameraCard({ camera, onClick, viewMode }: { camera: CameraData, onClick
 
   return (
     <motion.div
-      layoutId={camera.id}
       initial={{ opacity: 0, y: 10 }}
       animate={{ opacity: 1, y: 0 }}
       whileHover={{ y: -4, transition: { duration: 0.2 } }}
@@ -361,8 +861,15 @@ function CameraCard({ camera, onClick, viewMode }: { camera: CameraData, onClick
             <span className="w-1.5 h-1.5 rounded-full bg-white animate-pulse" /> Live
           </div>
 
-          <div className="bg-black/60 backdrop-blur-md px-1.5 py-1 rounded text-[10px] font-mono text-white/80 border border-white/10">
-            JPG
+          <div className="flex items-center gap-1">
+            {distanceKm !== undefined && (
+              <div className="bg-black/60 backdrop-blur-md px-1.5 py-1 rounded text-[10px] font-mono text-white/80 border border-white/10">
+                {distanceKm.toFixed(1)} km
+              </div>
+            )}
+            <div className="bg-black/60 backdrop-blur-md px-1.5 py-1 rounded text-[10px] font-mono text-white/80 border border-white/10">
+              JPG
+            </div>
           </div>
         </div>
       </div>
@@ -379,6 +886,12 @@ function CameraCard({ camera, onClick, viewMode }: { camera: CameraData, onClick
             <span className="truncate">{camera.region || camera.continent}</span>
           </div>
 
+          {camera.timezone && (
+            <div className="flex items-center gap-2 text-[11px] text-muted-foreground font-mono truncate">
+              <CameraLocalTime camera={camera} now={now} />
+            </div>
+          )}
+
           <div className="flex items-center gap-2 text-[10px] text-muted-foreground/60 font-mono pt-2 border-t border-white/5 mt-2">
             <Activity className="w-3 h-3 flex-none" />
             <span className="truncate">ID: {camera.id} • {camera.manufacturer}</span>
@@ -0,0 +1,58 @@
+import { motion } from 'framer-motion';
+import { Sun, X } from 'lucide-react';
+import { DAYLIGHT_FILTERS, type DaylightFilter as DaylightFilterValue } from '@/lib/solar';
+import { cn } from '@/lib/utils';
+
+interface DaylightFilterProps {
+  value: DaylightFilterValue;
+  /** Cameras matching each option right now. */
+  counts: Record<DaylightFilterValue, number>;
+  onChange: (value: DaylightFilterValue) => void;
+  className?: string;
+}
+
+export function DaylightFilter({ value, counts, onChange, className }: DaylightFilterProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6, delay: 0.6 }}
+      className={cn('hud-panel corner-accents', className)}
+    >
+      <div className="border-b border-panel-border px-4 py-2 flex items-center justify-between">
+        <span className="font-mono text-[10px] uppercase tracking-widest text-white/80 flex items-center gap-2">
+          <Sun className="w-3 h-3" />
+          Daylight
+        </span>
+        {value !== 'all' && (
+          <button
+            onClick={() => onChange('all')}
+            className="p-2 -m-2 text-white/60 hover:text-white transition-colors"
+            aria-label="Clear daylight filter"
+          >
+            <X className="w-4 h-4 md:w-3 md:h-3" />
+          </button>
+        )}
+      </div>
+
+      <div className="p-3 space-y-1.5">
+        {DAYLIGHT_FILTERS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => onChange(option.value)}
+            title={option.description}
+            className={cn(
+              'w-full px-3 py-2.5 md:py-1.5 rounded-sm transition-all text-left font-mono text-xs flex items-center justify-between gap-2',
+              value === option.value
+                ? 'bg-accent/20 text-accent border border-accent/30'
+                : 'text-white/80 hover:text-white hover:bg-secondary/30'
+            )}
+          >
+            <span>{option.label}</span>
+            <span className="text-[10px] text-white/50">{counts[option.value].toLocaleString()}</span>
+          </button>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
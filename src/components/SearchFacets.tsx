@@ -0,0 +1,79 @@
+import { useId, useState } from 'react';
+import { Check } from 'lucide-react';
+import type { FacetField, FacetValue } from '@/lib/search';
+import { cn } from '@/lib/utils';
+
+/** Values listed before "Show all". */
+const FACET_COLLAPSED_LIMIT = 8;
+
+interface SearchFacetProps {
+  field: FacetField;
+  label: string;
+  values: FacetValue[];
+  selected: string[];
+  onToggle: (field: FacetField, value: string) => void;
+}
+
+/** One facet of the search window: its values with live counts, any number of them selectable. */
+export function SearchFacet({ field, label, values, selected, onToggle }: SearchFacetProps) {
+  const [expanded, setExpanded] = useState(false);
+  const headingId = useId();
+  if (values.length === 0) return null;
+
+  // Selected values stay visible when collapsed, even if they've dropped out of the top ones.
+  const visible = expanded
+    ? values
+    : values.filter((v, i) => i < FACET_COLLAPSED_LIMIT || selected.includes(v.value));
+
+  return (
+    <div>
+      <h3 id={headingId} className="text-xs font-mono uppercase tracking-wider text-muted-foreground mb-3 px-2 flex items-center justify-between">
+        <span>{label}</span>
+        {selected.length > 0 && <span className="text-accent normal-case">{selected.length} selected</span>}
+      </h3>
+      <div role="group" aria-labelledby={headingId} className="space-y-0.5">
+        {visible.map((v) => {
+          const isSelected = selected.includes(v.value);
+          return (
+            <button
+              key={v.value}
+              type="button"
+              role="checkbox"
+              aria-checked={isSelected}
+              onClick={() => onToggle(field, v.value)}
+              className={cn(
+                'w-full flex items-center justify-between gap-2 px-3 py-1.5 rounded-md text-sm transition-all group',
+                isSelected ? 'bg-white/10 text-white' : 'text-muted-foreground hover:text-white hover:bg-white/5',
+                v.count === 0 && !isSelected && 'opacity-50'
+              )}
+            >
+              <span className="flex items-center gap-2.5 min-w-0">
+                <span
+                  className={cn(
+                    'w-3.5 h-3.5 flex-none rounded-sm border flex items-center justify-center',
+                    isSelected ? 'border-accent bg-accent/20 text-accent' : 'border-white/20'
+                  )}
+                >
+                  {isSelected && <Check className="w-2.5 h-2.5" />}
+                </span>
+                <span className="truncate" title={v.label}>{v.label}</span>
+              </span>
+              <span className="flex-none text-[10px] font-mono bg-black/20 px-1.5 py-0.5 rounded text-muted-foreground group-hover:text-white">
+                {v.count.toLocaleString()}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+      {values.length > FACET_COLLAPSED_LIMIT && (
+        <button
+          type="button"
+          onClick={() => setExpanded((e) => !e)}
+          className="mt-1 px-3 text-[11px] font-mono text-muted-foreground hover:text-white transition-colors"
+        >
+          {expanded ? 'Show fewer' : `Show all ${values.length}`}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { SUGGESTION_FIELD_LABELS, type SearchSuggestion } from '@/lib/search';
+import { cn } from '@/lib/utils';
+
+interface SearchSuggestionsProps {
+  id: string;
+  suggestions: SearchSuggestion[];
+  activeIndex: number;
+  onActiveIndexChange: (index: number) => void;
+  onAccept: (suggestion: SearchSuggestion) => void;
+  className?: string;
+}
+
+/** The dropdown of `useSearchAutocomplete`; option ids are `${id}-${index}`. */
+export function SearchSuggestions({ id, suggestions, activeIndex, onActiveIndexChange, onAccept, className }: SearchSuggestionsProps) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <ul
+      id={id}
+      role="listbox"
+      aria-label="Suggestions"
+      className={cn(
+        'absolute left-0 right-0 top-full mt-1 z-20 py-1 rounded-lg border border-white/10 bg-[#0a0a0a]/95 backdrop-blur-md shadow-2xl overflow-hidden',
+        className
+      )}
+    >
+      {suggestions.map((suggestion, index) => (
+        <li
+          key={`${suggestion.field}:${suggestion.value}`}
+          id={`${id}-${index}`}
+          role="option"
+          aria-selected={index === activeIndex}
+          // Keep focus (and the caret) in the input.
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onAccept(suggestion)}
+          onMouseEnter={() => onActiveIndexChange(index)}
+          className={cn(
+            'flex items-center justify-between gap-3 px-4 py-2 text-sm cursor-pointer',
+            index === activeIndex ? 'bg-white/10 text-white' : 'text-muted-foreground'
+          )}
+        >
+          <span className="flex items-center gap-3 min-w-0">
+            <span className="w-24 flex-none text-[10px] font-mono uppercase tracking-wider text-muted-foreground">
+              {SUGGESTION_FIELD_LABELS[suggestion.field]}
+            </span>
+            <span className="truncate">{suggestion.value}</span>
+          </span>
+          <span className="flex-none text-[10px] font-mono bg-black/20 px-1.5 py-0.5 rounded text-muted-foreground">
+            {suggestion.count.toLocaleString()}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
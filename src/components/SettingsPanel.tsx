@@ -2,6 +2,7 @@ import { AnimatePresence, motion } from 'framer-motion';
 import { Sliders, X } from 'lucide-react';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
+import type { StorageStatus } from '@/lib/storage';
 import { cn } from '@/lib/utils';
 
 interface SettingsPanelProps {
@@ -12,6 +13,7 @@ interface SettingsPanelProps {
   markerSize: number;
   cloudsEnabled: boolean;
   cloudsOpacity: number;
+  showDayNight: boolean;
   showCountryBorders: boolean;
   showNavigationControls: boolean;
   showHudLeftFilters: boolean;
@@ -19,6 +21,7 @@ interface SettingsPanelProps {
   showHudRightViewToggle: boolean;
   showHudRightNavControls: boolean;
   showHudFooter: boolean;
+  storageStatus: StorageStatus;
   onClose: () => void;
   onAutoRotateEnabledChange: (enabled: boolean) => void;
   onAutoRotateSpeedChange: (speed: number) => void;
@@ -26,6 +29,7 @@ interface SettingsPanelProps {
   onMarkerSizeChange: (size: number) => void;
   onCloudsEnabledChange: (enabled: boolean) => void;
   onCloudsOpacityChange: (opacity: number) => void;
+  onShowDayNightChange: (show: boolean) => void;
   onShowCountryBordersChange: (show: boolean) => void;
   onShowNavigationControlsChange: (show: boolean) => void;
   onShowHudLeftFiltersChange: (show: boolean) => void;
@@ -35,6 +39,18 @@ interface SettingsPanelProps {
   onShowHudFooterChange: (show: boolean) => void;
 }
 
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+const STORAGE_BACKEND_LABELS: Record<StorageStatus['backend'], string> = {
+  indexeddb: 'IndexedDB',
+  memory: 'Memory only',
+  pending: 'Checking…',
+};
+
 export function SettingsPanel({
   isOpen,
   autoRotateEnabled,
@@ -43,6 +59,7 @@ export function SettingsPanel({
   markerSize,
   cloudsEnabled,
   cloudsOpacity,
+  showDayNight,
   showCountryBorders,
   showNavigationControls,
   showHudLeftFilters,
@@ -50,6 +67,7 @@ export function SettingsPanel({
   showHudRightViewToggle,
   showHudRightNavControls,
   showHudFooter,
+  storageStatus,
   onClose,
   onAutoRotateEnabledChange,
   onAutoRotateSpeedChange,
@@ -57,6 +75,7 @@ export function SettingsPanel({
   onMarkerSizeChange,
   onCloudsEnabledChange,
   onCloudsOpacityChange,
+  onShowDayNightChange,
   onShowCountryBordersChange,
   onShowNavigationControlsChange,
   onShowHudLeftFiltersChange,
@@ -68,6 +87,10 @@ export function SettingsPanel({
   const speedLabel = `${autoRotateSpeed.toFixed(2)}°/s`;
   const markerSizeLabel = `${markerSize.toFixed(2)}x`;
   const cloudsLabel = `${Math.round(cloudsOpacity * 100)}%`;
+  const storageUsageLabel =
+    storageStatus.usage !== null && storageStatus.quota !== null
+      ? `${formatBytes(storageStatus.usage)} of ${formatBytes(storageStatus.quota)}`
+      : null;
 
   return (
     <AnimatePresence>
@@ -239,6 +262,21 @@ export function SettingsPanel({
                         disabled={!cloudsEnabled}
                       />
                     </div>
+
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <p className="font-mono text-xs uppercase tracking-wider text-muted-foreground">
+                          Day / night
+                        </p>
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          Shade the night side and draw the terminator.
+                        </p>
+                      </div>
+                      <Switch
+                        checked={showDayNight}
+                        onCheckedChange={onShowDayNightChange}
+                      />
+                    </div>
                   </div>
 
                   <div className="space-y-6">
@@ -325,6 +363,41 @@ export function SettingsPanel({
                         </div>
                       </div>
                     </div>
+
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between">
+                        <span className="font-mono text-xs uppercase tracking-wider text-muted-foreground">
+                          Offline storage
+                        </span>
+                        <span
+                          className={cn(
+                            "font-mono text-xs",
+                            storageStatus.backend === 'memory' || storageStatus.reason ? "text-yellow-400" : "text-foreground"
+                          )}
+                        >
+                          {STORAGE_BACKEND_LABELS[storageStatus.backend]}
+                        </span>
+                      </div>
+
+                      <p className="text-xs text-muted-foreground">
+                        {storageStatus.backend === 'memory'
+                          ? 'Camera data is re-downloaded on every visit.'
+                          : 'Camera data is cached on this device for faster and offline starts.'}
+                      </p>
+
+                      {storageStatus.reason && (
+                        <p className="text-[11px] text-muted-foreground/80">{storageStatus.reason}</p>
+                      )}
+
+                      {(storageUsageLabel || storageStatus.evicted > 0) && (
+                        <div className="flex items-center justify-between text-[11px] text-muted-foreground/80">
+                          <span>{storageUsageLabel ? `${storageUsageLabel} used` : ''}</span>
+                          {storageStatus.evicted > 0 && (
+                            <span>{storageStatus.evicted.toLocaleString()} evicted</span>
+                          )}
+                        </div>
+                      )}
+                    </div>
                   </div>
                 </div>
               </div>
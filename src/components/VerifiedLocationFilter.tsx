@@ -0,0 +1,50 @@
+import { motion } from 'framer-motion';
+import { MapPinCheck } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface VerifiedLocationFilterProps {
+  enabled: boolean;
+  /** Cameras whose location passed every check (see `isVerifiedLocation`). */
+  verifiedCount: number;
+  totalCount: number;
+  onToggle: () => void;
+  className?: string;
+}
+
+export function VerifiedLocationFilter({ enabled, verifiedCount, totalCount, onToggle, className }: VerifiedLocationFilterProps) {
+  const suspect = totalCount - verifiedCount;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6, delay: 0.7 }}
+      className={cn('hud-panel corner-accents', className)}
+    >
+      <div className="border-b border-panel-border px-4 py-2 flex items-center justify-between">
+        <span className="font-mono text-[10px] uppercase tracking-widest text-white/80 flex items-center gap-2">
+          <MapPinCheck className="w-3 h-3" />
+          Location quality
+        </span>
+        <span className="font-mono text-[10px] uppercase tracking-wider text-white/60" title="Cameras with unverified locations">
+          {suspect.toLocaleString()} suspect
+        </span>
+      </div>
+      <div className="p-3">
+        <button
+          type="button"
+          onClick={onToggle}
+          aria-pressed={enabled}
+          title="Hide cameras at (0, 0), outside their country, or stacked on a shared point"
+          className={cn(
+            'w-full hud-panel corner-accents flex items-center justify-center gap-2 px-3 py-2 font-mono text-xs uppercase tracking-wider transition-colors hover:bg-secondary/50',
+            enabled ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'
+          )}
+        >
+          <MapPinCheck className={cn('w-4 h-4', enabled && 'text-accent')} />
+          Verified location only
+        </button>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Globe, Sparkles, X } from 'lucide-react';
+import type { CameraData } from '@/types/camera';
+import type { CameraDatasetChanges } from '@/lib/cameraData';
+import { cn } from '@/lib/utils';
+
+type ChangeTab = 'added' | 'removed' | 'relocated';
+
+interface WhatsNewPanelProps {
+  changes: CameraDatasetChanges;
+  /** True while the globe is filtered to the added cameras. */
+  showingAdded: boolean;
+  onShowAddedChange: (show: boolean) => void;
+  onSelectCamera: (camera: CameraData) => void;
+  onDismiss: () => void;
+}
+
+const MAX_LISTED = 50;
+
+const TAB_LABELS: Record<ChangeTab, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  relocated: 'Moved',
+};
+
+function cameraLabel(camera: CameraData) {
+  return [camera.city, camera.country].filter(Boolean).join(', ');
+}
+
+export function WhatsNewPanel({ changes, showingAdded, onShowAddedChange, onSelectCamera, onDismiss }: WhatsNewPanelProps) {
+  const counts: Record<ChangeTab, number> = {
+    added: changes.added.length,
+    removed: changes.removed.length,
+    relocated: changes.relocated.length,
+  };
+  const [tab, setTab] = useState<ChangeTab>(() => (['added', 'relocated', 'removed'] as const).find((t) => counts[t] > 0) ?? 'added');
+
+  const rows =
+    tab === 'relocated'
+      ? changes.relocated.map((r) => ({ camera: r.camera, detail: `${r.distanceKm.toFixed(1)} km`, selectable: true }))
+      : changes[tab].map((camera) => ({ camera, detail: camera.source ?? '', selectable: tab === 'added' }));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -12 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3, ease: 'easeOut' }}
+      className="hud-panel corner-accents"
+    >
+      <div className="border-b border-panel-border px-4 py-2 flex items-center justify-between">
+        <span className="font-mono text-[10px] uppercase tracking-widest text-white/80 flex items-center gap-2">
+          <Sparkles className="w-3 h-3" />
+          What&apos;s new
+        </span>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="p-1 rounded-sm text-muted-foreground hover:text-foreground hover:bg-secondary/50 transition-colors"
+          aria-label="Dismiss dataset changes"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+
+      <div className="p-3 space-y-3">
+        <div className="grid grid-cols-3 gap-2" role="tablist">
+          {(Object.keys(TAB_LABELS) as ChangeTab[]).map((t) => (
+            <button
+              key={t}
+              type="button"
+              role="tab"
+              aria-selected={tab === t}
+              onClick={() => setTab(t)}
+              className={cn(
+                'hud-panel px-2 py-1.5 flex flex-col items-center gap-0.5 transition-colors',
+                tab === t ? 'text-foreground bg-secondary/50' : 'text-muted-foreground hover:text-foreground'
+              )}
+            >
+              <span className="font-mono text-sm">{counts[t].toLocaleString()}</span>
+              <span className="font-mono text-[10px] uppercase tracking-wider">{TAB_LABELS[t]}</span>
+            </button>
+          ))}
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No cameras {TAB_LABELS[tab].toLowerCase()}.</p>
+        ) : (
+          <ul className="max-h-48 overflow-y-auto space-y-1">
+            {rows.slice(0, MAX_LISTED).map(({ camera, detail, selectable }) => (
+              <li key={camera.id}>
+                <button
+                  type="button"
+                  disabled={!selectable}
+                  onClick={() => onSelectCamera(camera)}
+                  className="w-full flex items-center justify-between gap-3 px-2 py-1 rounded-sm text-left enabled:hover:bg-secondary/50 disabled:cursor-default"
+                >
+                  <span className="text-xs text-white/90 truncate">{cameraLabel(camera)}</span>
+                  <span className="font-mono text-[10px] text-muted-foreground shrink-0">{detail}</span>
+                </button>
+              </li>
+            ))}
+            {rows.length > MAX_LISTED && (
+              <li className="px-2 py-1 font-mono text-[10px] text-muted-foreground">
+                … {(rows.length - MAX_LISTED).toLocaleString()} more
+              </li>
+            )}
+          </ul>
+        )}
+
+        {counts.added > 0 && (
+          <button
+            type="button"
+            onClick={() => onShowAddedChange(!showingAdded)}
+            className={cn(
+              'w-full hud-panel corner-accents flex items-center justify-center gap-2 px-3 py-2 font-mono text-xs uppercase tracking-wider transition-colors hover:bg-secondary/50',
+              showingAdded ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'
+            )}
+          >
+            <Globe className={cn('w-4 h-4', showingAdded && 'text-accent')} />
+            {showingAdded ? 'Show all cameras' : 'Show added on globe'}
+          </button>
+        )}
+      </div>
+    </motion.div>
+  );
+}
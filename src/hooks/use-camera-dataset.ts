@@ -0,0 +1,345 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { CameraData } from '@/types/camera';
+import {
+  annotateRelocatedCameras,
+  CAMERA_DATA_CACHE_VERSION,
+  dedupeCameras,
+  diffCameraDatasets,
+  fetchCameraIdAliasTable,
+  fetchDatasetManifest,
+  fetchDatasetShard,
+  flagSharedCoordinates,
+  hasCameraDatasetChanges,
+  loadCameraDataset,
+  mergeCameraDatasetChanges,
+  mergeLoadReports,
+  prioritizeShards,
+  RELOCATION_THRESHOLD_KM,
+  readCameraDataCache,
+  readCameraDataShardCache,
+  readCameraDataShardIndexCache,
+  readCameraIdAliasCache,
+  readCameraLocationHistory,
+  syncCameraDataset,
+  updateCameraLocationHistory,
+  writeCameraDataCache,
+  writeCameraDataShardCache,
+  writeCameraDataShardIndexCache,
+  writeCameraIdAliasCache,
+  writeCameraLocationHistory,
+  type CameraDataLoadReport,
+  type CameraDatasetChanges,
+  type CameraLocationHistory,
+  type DatasetManifest,
+  type DatasetPayload,
+  type DatasetShardRef,
+  type LoadedCameraDataset,
+  type ShardPriority,
+} from '@/lib/cameraData';
+
+export interface CameraDatasetState {
+  cameras: CameraData[];
+  report: CameraDataLoadReport | null;
+  /**
+   * Retired or merged-away camera ID -> current camera ID: the published alias table (IDs from
+   * older dataset versions) plus cross-source duplicates merged on load.
+   */
+  aliases: Map<string, string>;
+  /** True once the newest available dataset has been fully loaded (every shard, or the synced file). */
+  complete: boolean;
+  /** What a fresh download changed relative to the cached dataset it replaced; null when nothing did. */
+  changes: CameraDatasetChanges | null;
+  error: string | null;
+}
+
+const NO_ALIASES = new Map<string, string>();
+
+/**
+ * Load the camera dataset, from cache first and then from the network.
+ *
+ * Single-file deployments sync the cached payload (patches or full download) and normalize it in
+ * the dataset worker. Sharded deployments load one continent at a time, re-ordering the queue by
+ * `priority` (selected regions, then the continent under the view center) before each shard.
+ * Either way, cross-source duplicates are merged and coordinates shared by many cameras flagged
+ * (`flagSharedCoordinates`) before cameras are exposed. The manifest's camera ID alias table is
+ * fetched (and cached for offline use) alongside. When fresh data replaces a cached copy (loaded or
+ * still loading), `changes` lists the added, removed and relocated cameras. Every fully loaded
+ * dataset is also recorded in the persistent location history, and cameras that moved since an
+ * earlier version carry their `previous_locations`.
+ */
+export function useCameraDataset(priority: ShardPriority): CameraDatasetState {
+  const [payload, setPayload] = useState<DatasetPayload | null>(null);
+  const [cameras, setCamerasState] = useState<CameraData[]>([]);
+  const [mergedAliases, setMergedAliases] = useState<Map<string, string>>(NO_ALIASES);
+  const [publishedAliases, setPublishedAliases] = useState<Map<string, string>>(NO_ALIASES);
+  const [synced, setSynced] = useState(false);
+  const [loadedPayload, setLoadedPayload] = useState<DatasetPayload | null>(null);
+  const [report, setReport] = useState<CameraDataLoadReport | null>(null);
+  const [changes, setChanges] = useState<CameraDatasetChanges | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [locationHistory, setLocationHistory] = useState<CameraLocationHistory | null>(null);
+
+  const camerasRef = useRef<CameraData[]>([]);
+  const setCameras = useCallback((next: CameraData[]) => {
+    const deduped = dedupeCameras(next);
+    const assessed = flagSharedCoordinates(deduped.cameras);
+    camerasRef.current = assessed;
+    setCamerasState(assessed);
+    setMergedAliases(deduped.aliases);
+    return assessed;
+  }, []);
+
+  // One lookup for callers: published aliases point at current IDs, which may themselves have been merged.
+  const aliases = useMemo(() => {
+    if (publishedAliases.size === 0) return mergedAliases;
+    const out = new Map(mergedAliases);
+    for (const [from, to] of publishedAliases) out.set(from, mergedAliases.get(to) ?? to);
+    return out;
+  }, [mergedAliases, publishedAliases]);
+
+  const publishedAliasesRef = useRef(publishedAliases);
+  useEffect(() => {
+    publishedAliasesRef.current = publishedAliases;
+  }, [publishedAliases]);
+  const diffAgainst = useCallback(
+    (prev: CameraData[], next: CameraData[]) =>
+      diffCameraDatasets(prev, next, {
+        resolveId: (id) => publishedAliasesRef.current.get(id) ?? id,
+        minRelocationKm: RELOCATION_THRESHOLD_KM,
+      }),
+    []
+  );
+
+  const priorityRef = useRef(priority);
+  useEffect(() => {
+    priorityRef.current = priority;
+  }, [priority]);
+
+  const payloadRef = useRef<DatasetPayload | null>(null);
+  useEffect(() => {
+    payloadRef.current = payload;
+  }, [payload]);
+  // The cached payload a fresh download superseded, for the changelog when it never finished loading.
+  const replacedPayloadRef = useRef<{ payload: DatasetPayload; replaced: DatasetPayload } | null>(null);
+
+  // Once the manifest turns out to be sharded, results from the single-file path are stale.
+  const shardModeRef = useRef(false);
+  const didLoadCamerasRef = useRef(false);
+
+  useEffect(() => {
+    let canceled = false;
+    if (typeof window === 'undefined') return;
+    readCameraDataCache().then((cached) => {
+      if (canceled || shardModeRef.current) return;
+      if (!cached?.payload) return;
+      setPayload(cached.payload);
+    });
+    readCameraIdAliasCache().then((cached) => {
+      if (canceled || !cached) return;
+      setPublishedAliases((prev) => (prev === NO_ALIASES ? new Map(Object.entries(cached.aliases)) : prev));
+    });
+    readCameraLocationHistory().then((history) => {
+      if (!canceled) setLocationHistory(history);
+    });
+    return () => {
+      canceled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    const abort = new AbortController();
+    const { signal } = abort;
+
+    // `replaced` is the outdated cached copy a fresh download superseded, for the changelog.
+    const readShardPayload = async (
+      ref: DatasetShardRef
+    ): Promise<{ payload: DatasetPayload; replaced: DatasetPayload | null }> => {
+      const cached = await readCameraDataShardCache(ref.key);
+      if (cached && cached.hash === ref.hash) return { payload: cached.payload, replaced: null };
+      try {
+        const next = await fetchDatasetShard(ref, signal);
+        void writeCameraDataShardCache({ v: CAMERA_DATA_CACHE_VERSION, ts: Date.now(), key: ref.key, hash: ref.hash, payload: next });
+        return { payload: next, replaced: cached?.payload ?? null };
+      } catch (e) {
+        if (signal.aborted || !cached) throw e;
+        // Offline (or a broken shard): an outdated copy beats a missing continent.
+        console.warn(`Using cached camera data shard ${ref.key}`, e);
+        return { payload: cached.payload, replaced: null };
+      }
+    };
+
+    const diffShard = async (replaced: DatasetPayload, cameras: CameraData[]) => {
+      try {
+        const previous = await loadCameraDataset(replaced, { signal });
+        return diffAgainst(dedupeCameras(previous.cameras).cameras, dedupeCameras(cameras).cameras);
+      } catch {
+        return null;
+      }
+    };
+
+    const syncAliases = async (manifest: DatasetManifest) => {
+      if (!manifest.aliases) {
+        setPublishedAliases(NO_ALIASES);
+        return;
+      }
+      const cached = await readCameraIdAliasCache();
+      if (cached?.version === manifest.version) return;
+      const table = await fetchCameraIdAliasTable(manifest, signal);
+      if (!table || signal.aborted) return;
+      void writeCameraIdAliasCache({ v: CAMERA_DATA_CACHE_VERSION, ts: Date.now(), version: table.version, aliases: table.aliases });
+      setPublishedAliases(new Map(Object.entries(table.aliases)));
+    };
+
+    const loadShards = async (shards: DatasetShardRef[]) => {
+      const loaded = new Map<string, LoadedCameraDataset>();
+      const shardChanges: CameraDatasetChanges[] = [];
+      let pending = shards.slice();
+      let lastError: unknown = null;
+
+      while (pending.length > 0) {
+        const [next] = prioritizeShards(pending, priorityRef.current);
+        pending = pending.filter((s) => s !== next);
+        try {
+          const { payload: shardPayload, replaced } = await readShardPayload(next);
+          const result = await loadCameraDataset(shardPayload, { signal });
+          loaded.set(next.key, result);
+          const diff = replaced ? await diffShard(replaced, result.cameras) : null;
+          if (diff && hasCameraDatasetChanges(diff)) {
+            shardChanges.push(diff);
+            setChanges(mergeCameraDatasetChanges(shardChanges));
+          }
+        } catch (e) {
+          if (signal.aborted) return;
+          console.error(`Failed to load camera data shard ${next.key}`, e);
+          lastError = e;
+          continue;
+        }
+        if (signal.aborted) return;
+
+        // Keep manifest order so the marker list doesn't reshuffle as shards arrive.
+        const results = shards.filter((s) => loaded.has(s.key)).map((s) => loaded.get(s.key));
+        setCameras(results.flatMap((r) => r.cameras));
+        setReport(mergeLoadReports(results.map((r) => r.report)));
+      }
+
+      if (loaded.size === 0 && lastError) throw lastError;
+    };
+
+    (async () => {
+      const manifest = await fetchDatasetManifest(signal);
+      const shards = manifest ? manifest.shards : ((await readCameraDataShardIndexCache())?.shards ?? []);
+      if (signal.aborted) return;
+      const aliasesSynced = manifest ? syncAliases(manifest) : Promise.resolve();
+
+      if (shards.length > 0) {
+        shardModeRef.current = true;
+        if (manifest) {
+          void writeCameraDataShardIndexCache({ v: CAMERA_DATA_CACHE_VERSION, ts: Date.now(), version: manifest.version, shards });
+        }
+        await Promise.all([loadShards(shards), aliasesSynced]);
+        if (!signal.aborted) setSynced(true);
+        return;
+      }
+
+      // Single file: no-op when current, patch chain when possible, full download otherwise.
+      const cached = await readCameraDataCache();
+      const [res] = await Promise.all([syncCameraDataset(cached, signal, manifest), aliasesSynced]);
+      if (signal.aborted) return;
+      setSynced(true);
+      if (res.status === 'not_modified') {
+        if (cached && cached.etag !== (res.etag ?? null)) {
+          void writeCameraDataCache({ ...cached, etag: res.etag ?? cached.etag });
+        }
+        return;
+      }
+      void writeCameraDataCache({
+        v: CAMERA_DATA_CACHE_VERSION,
+        ts: Date.now(),
+        etag: res.etag ?? null,
+        version: res.version,
+        hash: res.hash,
+        payload: res.payload,
+      });
+      replacedPayloadRef.current = cached?.payload ? { payload: res.payload, replaced: cached.payload } : null;
+      setPayload(res.payload);
+    })().catch((err) => {
+      if (signal.aborted) return;
+      // Offline: whatever the cache held is as complete as it gets.
+      setSynced(true);
+      if (!payloadRef.current) {
+        setError(err instanceof Error ? err.message : 'Failed to load camera data');
+      }
+    });
+
+    return () => {
+      abort.abort();
+    };
+  }, [diffAgainst, setCameras]);
+
+  // Parse, validate and normalize the payload in the dataset worker. On first load, batches stream
+  // onto the globe as they're ready; later refreshes swap the whole dataset in once it's done.
+  // Broken rows are dropped and counted in the load report.
+  useEffect(() => {
+    if (!payload) return;
+    const abort = new AbortController();
+    const replaced = replacedPayloadRef.current?.payload === payload ? replacedPayloadRef.current.replaced : null;
+    const onProgress = didLoadCamerasRef.current
+      ? undefined
+      : (next: CameraData[]) => {
+          if (!shardModeRef.current) setCameras(next);
+        };
+    loadCameraDataset(payload, { signal: abort.signal, onProgress })
+      .then((result) => {
+        if (abort.signal.aborted) return;
+        setLoadedPayload(payload);
+        if (shardModeRef.current) return;
+        // A later payload replaces data that was already on screen: record what changed.
+        const previous = didLoadCamerasRef.current ? camerasRef.current : null;
+        didLoadCamerasRef.current = true;
+        const next = setCameras(result.cameras);
+        setReport(result.report);
+        if (previous) {
+          const diff = diffAgainst(previous, next);
+          if (hasCameraDatasetChanges(diff)) setChanges(diff);
+        } else if (replaced) {
+          // The cached copy was still loading when this one arrived (and its load was aborted):
+          // decode it just for the diff, as `diffShard` does for shards.
+          loadCameraDataset(replaced, { signal: abort.signal })
+            .then((cachedResult) => {
+              if (abort.signal.aborted) return;
+              const diff = diffAgainst(dedupeCameras(cachedResult.cameras).cameras, next);
+              if (hasCameraDatasetChanges(diff)) setChanges(diff);
+            })
+            .catch(() => {
+              // No changelog beats a failed load: the fresh cameras are already on screen.
+            });
+        }
+      })
+      .catch((err) => {
+        if (abort.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Failed to load camera data');
+      });
+    return () => {
+      abort.abort();
+    };
+  }, [diffAgainst, payload, setCameras]);
+
+  const complete = synced && (payload === null || loadedPayload === payload);
+
+  // Record once per fully loaded dataset rather than per streamed batch: the record spans every camera.
+  useEffect(() => {
+    if (!complete || !locationHistory || cameras.length === 0) return;
+    const next = updateCameraLocationHistory(locationHistory, cameras, Date.now());
+    if (next === locationHistory) return;
+    setLocationHistory(next);
+    void writeCameraLocationHistory(next);
+  }, [cameras, complete, locationHistory]);
+
+  const locatedCameras = useMemo(
+    () => (locationHistory ? annotateRelocatedCameras(cameras, locationHistory) : cameras),
+    [cameras, locationHistory]
+  );
+
+  return { cameras: locatedCameras, report, aliases, complete, changes, error };
+}
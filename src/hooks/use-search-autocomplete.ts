@@ -0,0 +1,87 @@
+import { useId, useMemo, useState, type KeyboardEvent, type RefObject, type SyntheticEvent } from 'react';
+import type { CameraData } from '@/types/camera';
+import { applySearchSuggestion, getSearchSuggestions, type SearchSuggestion } from '@/lib/search';
+
+interface SearchAutocompleteOptions {
+  cameras: readonly CameraData[];
+  query: string;
+  onQueryChange: (query: string) => void;
+  inputRef: RefObject<HTMLInputElement>;
+}
+
+/**
+ * Suggestions for the word at the caret of a search input (see `getSearchSuggestions`), with the
+ * combobox keyboard handling: Up/Down pick, Enter or Tab insert, Escape dismisses until the next
+ * edit. Spread `inputProps` on the input and call `handleKeyDown` first in its key handler.
+ */
+export function useSearchAutocomplete({ cameras, query, onQueryChange, inputRef }: SearchAutocompleteOptions) {
+  const listboxId = useId();
+  // null while the input isn't focused or the list was dismissed.
+  const [caret, setCaret] = useState<number | null>(null);
+  const [active, setActive] = useState(0);
+
+  const suggestions = useMemo(
+    () => (caret === null ? [] : getSearchSuggestions(cameras, query, caret)),
+    [cameras, caret, query]
+  );
+  const isOpen = suggestions.length > 0;
+  const activeIndex = Math.min(active, suggestions.length - 1);
+
+  const accept = (suggestion: SearchSuggestion) => {
+    const next = applySearchSuggestion(query, suggestion);
+    onQueryChange(next.text);
+    setCaret(null);
+    setActive(0);
+    // The input re-renders with the new value first; then put the caret after the insertion.
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(next.caret, next.caret);
+    });
+  };
+
+  /** Returns whether the key was used by the suggestion list. */
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>): boolean => {
+    if (!isOpen) return false;
+    switch (e.key) {
+      case 'ArrowDown':
+        setActive((activeIndex + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        setActive((activeIndex - 1 + suggestions.length) % suggestions.length);
+        break;
+      case 'Tab':
+        if (e.shiftKey) return false;
+      // falls through
+      case 'Enter':
+        accept(suggestions[activeIndex]);
+        break;
+      case 'Escape':
+        // Close the list, not the window around the input.
+        e.stopPropagation();
+        setCaret(null);
+        break;
+      default:
+        return false;
+    }
+    e.preventDefault();
+    return true;
+  };
+
+  const inputProps = {
+    role: 'combobox' as const,
+    'aria-autocomplete': 'list' as const,
+    'aria-expanded': isOpen,
+    'aria-controls': listboxId,
+    'aria-activedescendant': isOpen ? `${listboxId}-${activeIndex}` : undefined,
+    onSelect: (e: SyntheticEvent<HTMLInputElement>) => {
+      const next = e.currentTarget.selectionStart;
+      if (next !== caret) {
+        setCaret(next);
+        setActive(0);
+      }
+    },
+    onBlur: () => setCaret(null),
+  };
+
+  return { suggestions, activeIndex, setActiveIndex: setActive, isOpen, accept, handleKeyDown, inputProps, listboxId };
+}
@@ -0,0 +1,10 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { getStorageStatus, refreshStorageEstimate, subscribeStorageStatus, type StorageStatus } from '@/lib/storage';
+
+/** Live status of the client storage tier (IndexedDB or memory), with usage refreshed on mount. */
+export function useStorageStatus(): StorageStatus {
+  useEffect(() => {
+    void refreshStorageEstimate();
+  }, []);
+  return useSyncExternalStore(subscribeStorageStatus, getStorageStatus, getStorageStatus);
+}
@@ -0,0 +1,164 @@
+// Camera ID aliases across dataset versions.
+//
+// `computeCameraId` hashes `page_url|image_url`, so a provider changing its URLs gives the same
+// camera a new ID and orphans every favorite, recent and share link pointing at the old one. At
+// build time (`pnpm data build`) rows that vanished are matched to rows that appeared — by network
+// key, then by source + position — and the result is published as an alias table next to the
+// manifest. Clients resolve stored IDs through it (see `migrateCameraIds`).
+
+import { computeCameraId, computeNetworkKey } from './ids';
+import { resolveManifestUrl, type DatasetManifest } from './manifest';
+import type { RawCameraRow } from './schema';
+
+/** Published alias table: retired camera ID -> ID current in `version`. */
+export interface CameraIdAliasTable {
+  version: number;
+  aliases: Record<string, string>;
+}
+
+export interface MigratedCameraIds {
+  ids: string[];
+  /** True when at least one ID was rewritten or dropped as a duplicate. */
+  changed: boolean;
+  /** Stored IDs that match no current camera, even through aliases. Kept in `ids`. */
+  unresolved: string[];
+}
+
+// Chains are compressed at build time; this only guards against a hand-edited cycle.
+const MAX_ALIAS_HOPS = 8;
+
+function rowLocationKey(row: Partial<RawCameraRow>): string | null {
+  const lat = Number(row.latitude);
+  const lon = Number(row.longitude);
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+  return `${String(row.source ?? '').toLowerCase()}|${lat.toFixed(5)}|${lon.toFixed(5)}`;
+}
+
+function indexUnique(map: Map<string, string | null>, key: string | null, id: string) {
+  if (!key) return;
+  // null marks an ambiguous key: two new rows share it, so neither can be picked.
+  map.set(key, map.has(key) && map.get(key) !== id ? null : id);
+}
+
+/**
+ * Match rows whose ID disappeared between `prev` and `next` to rows whose ID is new. A match needs
+ * exactly one new row with the same network key, or else exactly one with the same source and
+ * position; anything ambiguous stays unmatched.
+ */
+export function deriveCameraIdAliases(prev: readonly unknown[], next: readonly unknown[]): Map<string, string> {
+  const rowsById = (rows: readonly unknown[]) => {
+    const out = new Map<string, Partial<RawCameraRow>>();
+    rows.forEach((row, index) => {
+      const r = (row ?? {}) as Partial<RawCameraRow>;
+      const id = computeCameraId(r, index);
+      if (!out.has(id)) out.set(id, r);
+    });
+    return out;
+  };
+  const prevById = rowsById(prev);
+  const nextById = rowsById(next);
+
+  const byNetworkKey = new Map<string, string | null>();
+  const byLocation = new Map<string, string | null>();
+  for (const [id, row] of nextById) {
+    if (prevById.has(id)) continue;
+    indexUnique(byNetworkKey, computeNetworkKey(row), id);
+    indexUnique(byLocation, rowLocationKey(row), id);
+  }
+
+  const aliases = new Map<string, string>();
+  for (const [id, row] of prevById) {
+    if (nextById.has(id)) continue;
+    const networkKey = computeNetworkKey(row);
+    const locationKey = rowLocationKey(row);
+    const target =
+      (networkKey && byNetworkKey.get(networkKey)) || (locationKey && byLocation.get(locationKey)) || null;
+    if (target) aliases.set(id, target);
+  }
+  return aliases;
+}
+
+/** Follow `id` through the alias table; returns `id` itself when it has no alias. */
+export function resolveCameraIdAlias(id: string, aliases: ReadonlyMap<string, string>): string {
+  let current = id;
+  for (let hop = 0; hop < MAX_ALIAS_HOPS; hop++) {
+    const next = aliases.get(current);
+    if (!next || next === current) break;
+    current = next;
+  }
+  return current;
+}
+
+/**
+ * Combine the previous table with newly derived aliases and compress every chain to its final
+ * target. Entries whose target is not in `currentIds` (the camera was removed for good) are dropped.
+ */
+export function mergeCameraIdAliases(
+  previous: ReadonlyMap<string, string>,
+  derived: ReadonlyMap<string, string>,
+  currentIds: ReadonlySet<string>
+): Map<string, string> {
+  const combined = new Map([...previous, ...derived]);
+  const out = new Map<string, string>();
+  for (const id of combined.keys()) {
+    if (currentIds.has(id)) continue;
+    const target = resolveCameraIdAlias(id, combined);
+    if (target !== id && currentIds.has(target)) out.set(id, target);
+  }
+  return out;
+}
+
+export function parseCameraIdAliasTable(json: unknown): CameraIdAliasTable {
+  if (!json || typeof json !== 'object') throw new Error('Camera ID alias table is not an object');
+  const t = json as Record<string, unknown>;
+  if (typeof t.version !== 'number' || !Number.isInteger(t.version)) {
+    throw new Error('Camera ID alias table has an invalid version');
+  }
+  const aliases: Record<string, string> = {};
+  if (t.aliases && typeof t.aliases === 'object') {
+    for (const [from, to] of Object.entries(t.aliases as Record<string, unknown>)) {
+      if (typeof to === 'string' && to) aliases[from] = to;
+    }
+  }
+  return { version: t.version, aliases };
+}
+
+/** The alias table listed in the manifest, or null when there is none or it can't be read. */
+export async function fetchCameraIdAliasTable(
+  manifest: DatasetManifest,
+  signal?: AbortSignal
+): Promise<CameraIdAliasTable | null> {
+  if (!manifest.aliases) return null;
+  try {
+    const res = await fetch(resolveManifestUrl(manifest.aliases), { headers: { Accept: 'application/json' }, signal });
+    if (!res.ok) return null;
+    return parseCameraIdAliasTable(await res.json());
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    return null;
+  }
+}
+
+/**
+ * Rewrite stored camera IDs (favorites, recents) to current ones. Order is kept, IDs that now
+ * resolve to the same camera collapse into the first, and IDs that resolve to nothing are kept
+ * (a later dataset may bring the camera back) but reported.
+ */
+export function migrateCameraIds(
+  ids: readonly string[],
+  resolve: (id: string) => string,
+  currentIds: ReadonlySet<string>
+): MigratedCameraIds {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  const unresolved: string[] = [];
+  for (const id of ids) {
+    const next = resolve(id);
+    if (seen.has(next)) continue;
+    seen.add(next);
+    out.push(next);
+    if (!currentIds.has(next)) unresolved.push(id);
+  }
+  const changed = out.length !== ids.length || out.some((id, i) => id !== ids[i]);
+  return { ids: out, changed, unresolved };
+}
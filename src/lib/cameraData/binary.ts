@@ -0,0 +1,316 @@
+// Compact columnar binary encoding of the raw camera dataset (`.bin`).
+//
+// Layout (all integers little-endian):
+//   header   magic "GCAM" | u16 format version | u16 column count | u32 row count
+//   column*  u8 name length | name (ASCII) | u8 kind | u32 body length | body
+//
+// Column kinds:
+//   float64     row count × f64
+//   dictionary  string table + per-row index (0 = absent, i = table[i - 1])
+//   prefixed    dictionary of URL prefixes (up to the last '/') + one UTF-8 blob of suffixes
+//               with per-row suffix lengths in UTF-16 code units
+//
+// String tables are stored as UTF-8 JSON arrays; unsigned int arrays carry a u8 width (1/2/4).
+// Encoding is deterministic (tables are in first-seen order), so re-encoding the same rows
+// yields identical bytes — dataset hashes stay comparable across patches.
+//
+// Decoding yields raw rows that normalize to exactly the same `CameraData[]` as the JSON
+// file. Unknown fields are dropped and numeric-string coordinates are stored as numbers.
+
+import type { RawCameraRow } from './schema';
+
+const MAGIC = 'GCAM';
+const FORMAT_VERSION = 1;
+
+const KIND_FLOAT64 = 1;
+const KIND_DICTIONARY = 2;
+const KIND_PREFIXED = 3;
+
+const FLOAT_COLUMNS = ['latitude', 'longitude'] as const;
+const DICTIONARY_COLUMNS = ['country', 'city', 'region', 'manufacturer', 'source'] as const;
+const PREFIXED_COLUMNS = ['image_url', 'page_url'] as const;
+
+type DecodedRow = Partial<Record<keyof RawCameraRow, string | number>>;
+
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  length = 0;
+
+  bytes(b: Uint8Array) {
+    this.chunks.push(b);
+    this.length += b.byteLength;
+  }
+
+  u8(n: number) {
+    this.bytes(Uint8Array.of(n));
+  }
+
+  u16(n: number) {
+    const b = new Uint8Array(2);
+    new DataView(b.buffer).setUint16(0, n, true);
+    this.bytes(b);
+  }
+
+  u32(n: number) {
+    const b = new Uint8Array(4);
+    new DataView(b.buffer).setUint32(0, n, true);
+    this.bytes(b);
+  }
+
+  finish(): Uint8Array {
+    const out = new Uint8Array(this.length);
+    let offset = 0;
+    for (const c of this.chunks) {
+      out.set(c, offset);
+      offset += c.byteLength;
+    }
+    return out;
+  }
+}
+
+class ByteReader {
+  private view: DataView;
+  offset = 0;
+
+  constructor(private buf: Uint8Array) {
+    this.view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  }
+
+  u8() {
+    const n = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return n;
+  }
+
+  u16() {
+    const n = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return n;
+  }
+
+  u32() {
+    const n = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return n;
+  }
+
+  bytes(length: number): Uint8Array {
+    if (this.offset + length > this.buf.byteLength) throw new Error('Camera data binary is truncated');
+    const b = this.buf.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return b;
+  }
+}
+
+const utf8Encoder = new TextEncoder();
+const utf8Decoder = new TextDecoder();
+
+function writeUintArray(w: ByteWriter, values: number[]) {
+  const max = values.reduce((m, v) => (v > m ? v : m), 0);
+  const width = max <= 0xff ? 1 : max <= 0xffff ? 2 : 4;
+  w.u8(width);
+  const b = new Uint8Array(values.length * width);
+  const view = new DataView(b.buffer);
+  values.forEach((v, i) => {
+    if (width === 1) view.setUint8(i, v);
+    else if (width === 2) view.setUint16(i * 2, v, true);
+    else view.setUint32(i * 4, v, true);
+  });
+  w.bytes(b);
+}
+
+function readUintArray(r: ByteReader, count: number): Uint32Array {
+  const width = r.u8();
+  if (width !== 1 && width !== 2 && width !== 4) throw new Error(`Invalid integer width ${width}`);
+  const b = r.bytes(count * width);
+  const view = new DataView(b.buffer, b.byteOffset, b.byteLength);
+  const out = new Uint32Array(count);
+  for (let i = 0; i < count; i++) {
+    out[i] = width === 1 ? view.getUint8(i) : width === 2 ? view.getUint16(i * 2, true) : view.getUint32(i * 4, true);
+  }
+  return out;
+}
+
+function writeStringTable(w: ByteWriter, table: string[]) {
+  const b = utf8Encoder.encode(JSON.stringify(table));
+  w.u32(b.byteLength);
+  w.bytes(b);
+}
+
+function readStringTable(r: ByteReader): string[] {
+  const table: unknown = JSON.parse(utf8Decoder.decode(r.bytes(r.u32())));
+  if (!Array.isArray(table)) throw new Error('Invalid string table');
+  return table as string[];
+}
+
+/** Map values to 1-based indexes into a first-seen-order table (0 = absent). */
+function buildDictionary(values: (string | undefined)[]): { table: string[]; indexes: number[] } {
+  const table: string[] = [];
+  const lookup = new Map<string, number>();
+  const indexes = values.map((v) => {
+    if (v === undefined) return 0;
+    let idx = lookup.get(v);
+    if (idx === undefined) {
+      table.push(v);
+      idx = table.length;
+      lookup.set(v, idx);
+    }
+    return idx;
+  });
+  return { table, indexes };
+}
+
+function readRowObject(row: unknown): Record<string, unknown> {
+  return row && typeof row === 'object' && !Array.isArray(row) ? (row as Record<string, unknown>) : {};
+}
+
+function encodeCoordinate(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim()) return Number(value);
+  return Number.NaN;
+}
+
+function encodeColumn(rows: Record<string, unknown>[], name: string, kind: number): Uint8Array {
+  const w = new ByteWriter();
+
+  if (kind === KIND_FLOAT64) {
+    const b = new Uint8Array(rows.length * 8);
+    const view = new DataView(b.buffer);
+    rows.forEach((row, i) => view.setFloat64(i * 8, encodeCoordinate(row[name]), true));
+    w.bytes(b);
+  } else if (kind === KIND_DICTIONARY) {
+    const { table, indexes } = buildDictionary(rows.map((row) => (typeof row[name] === 'string' ? (row[name] as string) : undefined)));
+    writeStringTable(w, table);
+    writeUintArray(w, indexes);
+  } else {
+    const prefixes: (string | undefined)[] = [];
+    const suffixes: string[] = [];
+    for (const row of rows) {
+      const v = row[name];
+      if (typeof v !== 'string') {
+        prefixes.push(undefined);
+        suffixes.push('');
+        continue;
+      }
+      const cut = v.lastIndexOf('/') + 1;
+      prefixes.push(v.slice(0, cut));
+      suffixes.push(v.slice(cut));
+    }
+    const { table, indexes } = buildDictionary(prefixes);
+    writeStringTable(w, table);
+    writeUintArray(w, indexes);
+    const blob = utf8Encoder.encode(suffixes.join(''));
+    w.u32(blob.byteLength);
+    w.bytes(blob);
+    writeUintArray(w, suffixes.map((s) => s.length));
+  }
+
+  return w.finish();
+}
+
+export function encodeCameraDataBinary(rows: readonly unknown[]): Uint8Array {
+  const objects = rows.map(readRowObject);
+  const columns: [string, number][] = [
+    ...FLOAT_COLUMNS.map((name): [string, number] => [name, KIND_FLOAT64]),
+    ...DICTIONARY_COLUMNS.map((name): [string, number] => [name, KIND_DICTIONARY]),
+    ...PREFIXED_COLUMNS.map((name): [string, number] => [name, KIND_PREFIXED]),
+  ];
+
+  const w = new ByteWriter();
+  w.bytes(utf8Encoder.encode(MAGIC));
+  w.u16(FORMAT_VERSION);
+  w.u16(columns.length);
+  w.u32(objects.length);
+
+  for (const [name, kind] of columns) {
+    const body = encodeColumn(objects, name, kind);
+    w.u8(name.length);
+    w.bytes(utf8Encoder.encode(name));
+    w.u8(kind);
+    w.u32(body.byteLength);
+    w.bytes(body);
+  }
+
+  return w.finish();
+}
+
+export function isCameraDataBinary(bytes: Uint8Array): boolean {
+  return bytes.byteLength >= 4 && utf8Decoder.decode(bytes.subarray(0, 4)) === MAGIC;
+}
+
+type DecodedColumn = (i: number) => string | number | undefined;
+
+function decodeFloat64Column(body: ByteReader, rowCount: number): DecodedColumn {
+  // Copy into an aligned buffer so the column can be read as a typed array.
+  const values = new Float64Array(body.bytes(rowCount * 8).slice().buffer);
+  // NaN marks a missing/invalid coordinate; leave it out like the JSON row would.
+  return (i) => (Number.isNaN(values[i]) ? undefined : values[i]);
+}
+
+function decodeDictionaryColumn(body: ByteReader, rowCount: number): DecodedColumn {
+  const table = readStringTable(body);
+  const indexes = readUintArray(body, rowCount);
+  return (i) => (indexes[i] > 0 ? table[indexes[i] - 1] : undefined);
+}
+
+function decodePrefixedColumn(body: ByteReader, rowCount: number): DecodedColumn {
+  const table = readStringTable(body);
+  const indexes = readUintArray(body, rowCount);
+  const blob = utf8Decoder.decode(body.bytes(body.u32()));
+  const lengths = readUintArray(body, rowCount);
+  const offsets = new Uint32Array(rowCount + 1);
+  for (let i = 0; i < rowCount; i++) offsets[i + 1] = offsets[i] + lengths[i];
+  return (i) => (indexes[i] > 0 ? table[indexes[i] - 1] + blob.slice(offsets[i], offsets[i + 1]) : undefined);
+}
+
+export function decodeCameraDataBinary(input: ArrayBuffer | Uint8Array): DecodedRow[] {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  if (!isCameraDataBinary(bytes)) throw new Error('Not a camera data binary (bad magic)');
+
+  const r = new ByteReader(bytes);
+  r.bytes(4);
+  const version = r.u16();
+  if (version !== FORMAT_VERSION) throw new Error(`Unsupported camera data binary version ${version}`);
+  const columnCount = r.u16();
+  const rowCount = r.u32();
+
+  const columns = new Map<string, DecodedColumn>();
+  for (let c = 0; c < columnCount; c++) {
+    const name = utf8Decoder.decode(r.bytes(r.u8()));
+    const kind = r.u8();
+    const body = new ByteReader(r.bytes(r.u32()));
+    // Unknown column kinds from newer encoders are skipped; their body length is known.
+    if (kind === KIND_FLOAT64) columns.set(name, decodeFloat64Column(body, rowCount));
+    else if (kind === KIND_DICTIONARY) columns.set(name, decodeDictionaryColumn(body, rowCount));
+    else if (kind === KIND_PREFIXED) columns.set(name, decodePrefixedColumn(body, rowCount));
+  }
+
+  const absent: DecodedColumn = () => undefined;
+  const col = (name: keyof RawCameraRow) => columns.get(name) ?? absent;
+  const latitude = col('latitude');
+  const longitude = col('longitude');
+  const country = col('country');
+  const city = col('city');
+  const region = col('region');
+  const manufacturer = col('manufacturer');
+  const source = col('source');
+  const imageUrl = col('image_url');
+  const pageUrl = col('page_url');
+
+  // Build every row with the same property order so they share one hidden class.
+  const rows = new Array<DecodedRow>(rowCount);
+  for (let i = 0; i < rowCount; i++) {
+    rows[i] = {
+      latitude: latitude(i),
+      longitude: longitude(i),
+      country: country(i),
+      city: city(i),
+      region: region(i),
+      manufacturer: manufacturer(i),
+      image_url: imageUrl(i),
+      page_url: pageUrl(i),
+      source: source(i),
+    };
+  }
+  return rows;
+}
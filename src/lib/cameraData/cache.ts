@@ -0,0 +1,118 @@
+// Dataset payload cache, kept in the `dataset` store of the client storage module (IndexedDB,
+// or memory when that's unavailable). Every failure resolves to "no cache" so private-mode
+// browsers (or a full disk) degrade to re-downloading instead of breaking the app.
+
+import { storageGet, storagePut } from '@/lib/storage';
+import type { DatasetShardRef } from './manifest';
+import type { DatasetPayload } from './payload';
+
+const CAMERA_DATA_CACHE_TTL_MS = 1000 * 60 * 60 * 24;
+export const CAMERA_DATA_CACHE_VERSION = 4;
+
+const CAMERA_DATA_IDB_KEY = 'camera_data';
+const CAMERA_DATA_SHARD_INDEX_IDB_KEY = 'camera_data:shards';
+const CAMERA_DATA_SHARD_IDB_PREFIX = 'camera_data:shard:';
+const CAMERA_DATA_ALIASES_IDB_KEY = 'camera_data:aliases';
+
+export type CameraDataCacheRecord = {
+  v: number;
+  ts: number;
+  etag: string | null;
+  // Manifest version/hash the payload corresponds to (null for legacy, manifest-less deployments).
+  version: number | null;
+  hash: string | null;
+  // Raw payload (JSON text or columnar binary); decoded and normalized by the dataset worker.
+  payload: DatasetPayload;
+};
+
+/** One shard of a sharded dataset, cached under its own key so shards refresh independently. */
+export type CameraDataShardCacheRecord = {
+  v: number;
+  ts: number;
+  key: string;
+  hash: string;
+  payload: DatasetPayload;
+};
+
+/** Shard list of the last sharded manifest seen, so cached shards can be loaded offline. */
+export type CameraDataShardIndexCacheRecord = {
+  v: number;
+  ts: number;
+  version: number;
+  shards: DatasetShardRef[];
+};
+
+/** Last camera ID alias table seen, so stored IDs can be migrated offline. */
+export type CameraIdAliasCacheRecord = {
+  v: number;
+  ts: number;
+  version: number;
+  aliases: Record<string, string>;
+};
+
+function readCacheEntry<T>(key: string): Promise<T | null> {
+  return storageGet<T>('dataset', key);
+}
+
+function writeCacheEntry(key: string, value: unknown): Promise<void> {
+  return storagePut('dataset', key, value);
+}
+
+export async function readCameraDataCache(): Promise<CameraDataCacheRecord | null> {
+  const val = await readCacheEntry<Partial<CameraDataCacheRecord>>(CAMERA_DATA_IDB_KEY);
+  if (!val || typeof val !== 'object') return null;
+  if (val.v !== CAMERA_DATA_CACHE_VERSION) return null;
+  if (typeof val.ts !== 'number') return null;
+  if (!val.payload || typeof val.payload !== 'object') return null;
+  const version = typeof val.version === 'number' ? val.version : null;
+  // Versioned payloads stay valid (and patchable) until the manifest moves on.
+  if (version === null && Date.now() - val.ts > CAMERA_DATA_CACHE_TTL_MS) return null;
+  return {
+    v: val.v,
+    ts: val.ts,
+    etag: typeof val.etag === 'string' ? val.etag : null,
+    version,
+    hash: typeof val.hash === 'string' ? val.hash : null,
+    payload: val.payload,
+  };
+}
+
+export function writeCameraDataCache(next: CameraDataCacheRecord): Promise<void> {
+  return writeCacheEntry(CAMERA_DATA_IDB_KEY, next);
+}
+
+export async function readCameraDataShardCache(key: string): Promise<CameraDataShardCacheRecord | null> {
+  const val = await readCacheEntry<Partial<CameraDataShardCacheRecord>>(`${CAMERA_DATA_SHARD_IDB_PREFIX}${key}`);
+  if (!val || typeof val !== 'object') return null;
+  if (val.v !== CAMERA_DATA_CACHE_VERSION) return null;
+  if (typeof val.hash !== 'string' || !val.payload || typeof val.payload !== 'object') return null;
+  return val as CameraDataShardCacheRecord;
+}
+
+export function writeCameraDataShardCache(next: CameraDataShardCacheRecord): Promise<void> {
+  return writeCacheEntry(`${CAMERA_DATA_SHARD_IDB_PREFIX}${next.key}`, next);
+}
+
+export async function readCameraDataShardIndexCache(): Promise<CameraDataShardIndexCacheRecord | null> {
+  const val = await readCacheEntry<Partial<CameraDataShardIndexCacheRecord>>(CAMERA_DATA_SHARD_INDEX_IDB_KEY);
+  if (!val || typeof val !== 'object') return null;
+  if (val.v !== CAMERA_DATA_CACHE_VERSION) return null;
+  if (typeof val.version !== 'number' || !Array.isArray(val.shards)) return null;
+  return val as CameraDataShardIndexCacheRecord;
+}
+
+export function writeCameraDataShardIndexCache(next: CameraDataShardIndexCacheRecord): Promise<void> {
+  return writeCacheEntry(CAMERA_DATA_SHARD_INDEX_IDB_KEY, next);
+}
+
+export async function readCameraIdAliasCache(): Promise<CameraIdAliasCacheRecord | null> {
+  const val = await readCacheEntry<Partial<CameraIdAliasCacheRecord>>(CAMERA_DATA_ALIASES_IDB_KEY);
+  if (!val || typeof val !== 'object') return null;
+  if (val.v !== CAMERA_DATA_CACHE_VERSION) return null;
+  if (typeof val.version !== 'number' || !val.aliases || typeof val.aliases !== 'object') return null;
+  return val as CameraIdAliasCacheRecord;
+}
+
+export function writeCameraIdAliasCache(next: CameraIdAliasCacheRecord): Promise<void> {
+  return writeCacheEntry(CAMERA_DATA_ALIASES_IDB_KEY, next);
+}
@@ -0,0 +1,79 @@
+// What changed between two loaded versions of the dataset (e.g. the cached copy and the fresh
+// download that replaced it), matched by camera id.
+
+import type { CameraData } from '@/types/camera';
+import { haversineKm } from '@/lib/geo';
+
+export interface RelocatedCamera {
+  camera: CameraData;
+  from: { lat: number; lon: number };
+  distanceKm: number;
+}
+
+export interface CameraDatasetChanges {
+  added: CameraData[];
+  removed: CameraData[];
+  relocated: RelocatedCamera[];
+}
+
+export interface DiffCameraDatasetsOptions {
+  /** Maps an id from `prev` to its current id (see the alias table); identity by default. */
+  resolveId?: (id: string) => string;
+  /** Default `RELOCATION_THRESHOLD_KM`. */
+  minRelocationKm?: number;
+}
+
+/**
+ * Smaller moves are coordinate rounding, not relocations. Shared with the location history, so
+ * every camera listed as relocated also gets its previous position on the globe.
+ */
+export const RELOCATION_THRESHOLD_KM = 0.5;
+
+export function hasCameraDatasetChanges(changes: CameraDatasetChanges | null): boolean {
+  return !!changes && changes.added.length + changes.removed.length + changes.relocated.length > 0;
+}
+
+/**
+ * Cameras added, removed and relocated from `prev` to `next`. An id that was only renamed (its
+ * alias resolves to a camera in `next`) is neither added nor removed, but can be relocated.
+ */
+export function diffCameraDatasets(
+  prev: readonly CameraData[],
+  next: readonly CameraData[],
+  options: DiffCameraDatasetsOptions = {}
+): CameraDatasetChanges {
+  const resolveId = options.resolveId ?? ((id: string) => id);
+  const minRelocationKm = options.minRelocationKm ?? RELOCATION_THRESHOLD_KM;
+
+  const nextById = new Map<string, CameraData>();
+  for (const cam of next) if (cam.id) nextById.set(cam.id, cam);
+
+  const matched = new Set<string>();
+  const removed: CameraData[] = [];
+  const relocated: RelocatedCamera[] = [];
+  for (const cam of prev) {
+    if (!cam.id) continue;
+    const id = nextById.has(cam.id) ? cam.id : resolveId(cam.id);
+    const current = nextById.get(id);
+    if (!current) {
+      removed.push(cam);
+      continue;
+    }
+    if (matched.has(id)) continue;
+    matched.add(id);
+    const from = { lat: cam.latitude, lon: cam.longitude };
+    const distanceKm = haversineKm(from, { lat: current.latitude, lon: current.longitude });
+    if (distanceKm >= minRelocationKm) relocated.push({ camera: current, from, distanceKm });
+  }
+
+  const added = next.filter((cam) => cam.id && !matched.has(cam.id));
+  return { added, removed, relocated };
+}
+
+export function mergeCameraDatasetChanges(changes: readonly CameraDatasetChanges[]): CameraDatasetChanges {
+  return {
+    added: changes.flatMap((c) => c.added),
+    removed: changes.flatMap((c) => c.removed),
+    relocated: changes.flatMap((c) => c.relocated),
+  };
+}
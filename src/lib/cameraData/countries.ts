@@ -0,0 +1,367 @@
+// ISO 3166-1 country registry: codes, display names, aliases, UN M49 subregions and the
+// app's continent buckets. Raw rows spell countries however their scraper did ("Czechia",
+// "Korea, Republic of", "Côte d'Ivoire", "US"), so normalization resolves them here and
+// `CameraData` carries the alpha-2 `country_code` that filters and stats group on.
+
+export interface CountryRecord {
+  /** ISO 3166-1 alpha-2 (Kosovo uses the user-assigned XK). */
+  alpha2: string;
+  alpha3: string;
+  /** Display name; matches the spelling earlier builds showed where there was one. */
+  name: string;
+  /** UN M49 subregion. */
+  subregion: string;
+  /** App continent bucket (as used by `selectedRegions`). */
+  continent: string;
+  aliases: string[];
+}
+
+/** Code used for rows whose country is missing or unrecognized. */
+export const UNKNOWN_COUNTRY_CODE = 'ZZ';
+
+// The app's continents are coarser than UN regions: the Caribbean and Central America count
+// as North America, and the Middle East/Caucasus as Asia.
+const CONTINENT_BY_SUBREGION: Record<string, string> = {
+  'Northern Africa': 'Africa',
+  'Eastern Africa': 'Africa',
+  'Middle Africa': 'Africa',
+  'Southern Africa': 'Africa',
+  'Western Africa': 'Africa',
+  'Caribbean': 'North America',
+  'Central America': 'North America',
+  'Northern America': 'North America',
+  'South America': 'South America',
+  'Central Asia': 'Asia',
+  'Eastern Asia': 'Asia',
+  'South-eastern Asia': 'Asia',
+  'Southern Asia': 'Asia',
+  'Western Asia': 'Asia',
+  'Eastern Europe': 'Europe',
+  'Northern Europe': 'Europe',
+  'Southern Europe': 'Europe',
+  'Western Europe': 'Europe',
+  'Australia and New Zealand': 'Oceania',
+  'Melanesia': 'Oceania',
+  'Micronesia': 'Oceania',
+  'Polynesia': 'Oceania',
+  'Antarctica': 'Antarctica',
+};
+
+// Historical bucketing that differs from the UN subregion.
+const CONTINENT_OVERRIDES: Record<string, string> = {
+  CY: 'Europe',
+};
+
+// [alpha2, alpha3, name, subregion, aliases?]
+type CountryRow = [string, string, string, string, string[]?];
+
+const COUNTRY_ROWS: CountryRow[] = [
+  ['AD', 'AND', 'Andorra', 'Southern Europe'],
+  ['AE', 'ARE', 'United Arab Emirates', 'Western Asia', ['UAE', 'Emirates']],
+  ['AF', 'AFG', 'Afghanistan', 'Southern Asia'],
+  ['AG', 'ATG', 'Antigua and Barbuda', 'Caribbean'],
+  ['AI', 'AIA', 'Anguilla', 'Caribbean'],
+  ['AL', 'ALB', 'Albania', 'Southern Europe'],
+  ['AM', 'ARM', 'Armenia', 'Western Asia'],
+  ['AO', 'AGO', 'Angola', 'Middle Africa'],
+  ['AQ', 'ATA', 'Antarctica', 'Antarctica'],
+  ['AR', 'ARG', 'Argentina', 'South America'],
+  ['AS', 'ASM', 'American Samoa', 'Polynesia'],
+  ['AT', 'AUT', 'Austria', 'Western Europe', ['Österreich']],
+  ['AU', 'AUS', 'Australia', 'Australia and New Zealand'],
+  ['AW', 'ABW', 'Aruba', 'Caribbean'],
+  ['AX', 'ALA', 'Åland Islands', 'Northern Europe', ['Aland']],
+  ['AZ', 'AZE', 'Azerbaijan', 'Western Asia'],
+  ['BA', 'BIH', 'Bosnia and Herzegovina', 'Southern Europe', ['Bosnia', 'Bosnia-Herzegovina']],
+  ['BB', 'BRB', 'Barbados', 'Caribbean'],
+  ['BD', 'BGD', 'Bangladesh', 'Southern Asia'],
+  ['BE', 'BEL', 'Belgium', 'Western Europe', ['België', 'Belgique']],
+  ['BF', 'BFA', 'Burkina Faso', 'Western Africa'],
+  ['BG', 'BGR', 'Bulgaria', 'Eastern Europe'],
+  ['BH', 'BHR', 'Bahrain', 'Western Asia'],
+  ['BI', 'BDI', 'Burundi', 'Eastern Africa'],
+  ['BJ', 'BEN', 'Benin', 'Western Africa'],
+  ['BL', 'BLM', 'Saint Barthélemy', 'Caribbean', ['Saint Barthelemy', 'St Barts']],
+  ['BM', 'BMU', 'Bermuda', 'Northern America'],
+  ['BN', 'BRN', 'Brunei', 'South-eastern Asia', ['Brunei Darussalam']],
+  ['BO', 'BOL', 'Bolivia', 'South America', ['Bolivia, Plurinational State of', 'Plurinational State of Bolivia']],
+  ['BQ', 'BES', 'Caribbean Netherlands', 'Caribbean', ['Bonaire, Sint Eustatius and Saba', 'Bonaire']],
+  ['BR', 'BRA', 'Brazil', 'South America', ['Brasil']],
+  ['BS', 'BHS', 'Bahamas', 'Caribbean', ['The Bahamas']],
+  ['BT', 'BTN', 'Bhutan', 'Southern Asia'],
+  ['BV', 'BVT', 'Bouvet Island', 'South America'],
+  ['BW', 'BWA', 'Botswana', 'Southern Africa'],
+  ['BY', 'BLR', 'Belarus', 'Eastern Europe'],
+  ['BZ', 'BLZ', 'Belize', 'Central America'],
+  ['CA', 'CAN', 'Canada', 'Northern America'],
+  ['CC', 'CCK', 'Cocos (Keeling) Islands', 'Australia and New Zealand', ['Cocos Islands']],
+  ['CD', 'COD', 'Democratic Republic of the Congo', 'Middle Africa', ['Congo, The Democratic Republic of the', 'Congo, Democratic Republic of the', 'DR Congo', 'DRC', 'Congo-Kinshasa']],
+  ['CF', 'CAF', 'Central African Republic', 'Middle Africa'],
+  ['CG', 'COG', 'Congo', 'Middle Africa', ['Republic of the Congo', 'Congo-Brazzaville']],
+  ['CH', 'CHE', 'Switzerland', 'Western Europe', ['Schweiz', 'Suisse', 'Svizzera']],
+  ['CI', 'CIV', 'Ivory Coast', 'Western Africa', ["Côte d'Ivoire", 'Cote dIvoire']],
+  ['CK', 'COK', 'Cook Islands', 'Polynesia'],
+  ['CL', 'CHL', 'Chile', 'South America'],
+  ['CM', 'CMR', 'Cameroon', 'Middle Africa'],
+  ['CN', 'CHN', 'China', 'Eastern Asia', ["People's Republic of China", 'PRC']],
+  ['CO', 'COL', 'Colombia', 'South America'],
+  ['CR', 'CRI', 'Costa Rica', 'Central America'],
+  ['CU', 'CUB', 'Cuba', 'Caribbean'],
+  ['CV', 'CPV', 'Cape Verde', 'Western Africa', ['Cabo Verde']],
+  ['CW', 'CUW', 'Curaçao', 'Caribbean', ['Curacao']],
+  ['CX', 'CXR', 'Christmas Island', 'Australia and New Zealand'],
+  ['CY', 'CYP', 'Cyprus', 'Western Asia'],
+  ['CZ', 'CZE', 'Czech Republic', 'Eastern Europe', ['Czechia', 'Česko', 'Cesko']],
+  ['DE', 'DEU', 'Germany', 'Western Europe', ['Deutschland']],
+  ['DJ', 'DJI', 'Djibouti', 'Eastern Africa'],
+  ['DK', 'DNK', 'Denmark', 'Northern Europe', ['Danmark']],
+  ['DM', 'DMA', 'Dominica', 'Caribbean'],
+  ['DO', 'DOM', 'Dominican Republic', 'Caribbean'],
+  ['DZ', 'DZA', 'Algeria', 'Northern Africa'],
+  ['EC', 'ECU', 'Ecuador', 'South America'],
+  ['EE', 'EST', 'Estonia', 'Northern Europe'],
+  ['EG', 'EGY', 'Egypt', 'Northern Africa'],
+  ['EH', 'ESH', 'Western Sahara', 'Northern Africa'],
+  ['ER', 'ERI', 'Eritrea', 'Eastern Africa'],
+  ['ES', 'ESP', 'Spain', 'Southern Europe', ['España', 'Espana']],
+  ['ET', 'ETH', 'Ethiopia', 'Eastern Africa'],
+  ['FI', 'FIN', 'Finland', 'Northern Europe', ['Suomi']],
+  ['FJ', 'FJI', 'Fiji', 'Melanesia'],
+  ['FK', 'FLK', 'Falkland Islands', 'South America', ['Falkland Islands (Malvinas)', 'Malvinas']],
+  ['FM', 'FSM', 'Micronesia', 'Micronesia', ['Micronesia, Federated States of', 'Federated States of Micronesia']],
+  ['FO', 'FRO', 'Faroe Islands', 'Northern Europe', ['Faeroe Islands']],
+  ['FR', 'FRA', 'France', 'Western Europe'],
+  ['GA', 'GAB', 'Gabon', 'Middle Africa'],
+  ['GB', 'GBR', 'United Kingdom', 'Northern Europe', ['UK', 'Great Britain', 'Britain', 'England', 'Scotland', 'Wales', 'Northern Ireland', 'United Kingdom of Great Britain and Northern Ireland']],
+  ['GD', 'GRD', 'Grenada', 'Caribbean'],
+  ['GE', 'GEO', 'Georgia', 'Western Asia'],
+  ['GF', 'GUF', 'French Guiana', 'South America'],
+  ['GG', 'GGY', 'Guernsey', 'Northern Europe'],
+  ['GH', 'GHA', 'Ghana', 'Western Africa'],
+  ['GI', 'GIB', 'Gibraltar', 'Southern Europe'],
+  ['GL', 'GRL', 'Greenland', 'Northern America'],
+  ['GM', 'GMB', 'Gambia', 'Western Africa', ['The Gambia']],
+  ['GN', 'GIN', 'Guinea', 'Western Africa'],
+  ['GP', 'GLP', 'Guadeloupe', 'Caribbean'],
+  ['GQ', 'GNQ', 'Equatorial Guinea', 'Middle Africa'],
+  ['GR', 'GRC', 'Greece', 'Southern Europe', ['Hellas', 'Ellada']],
+  ['GS', 'SGS', 'South Georgia and the South Sandwich Islands', 'South America'],
+  ['GT', 'GTM', 'Guatemala', 'Central America'],
+  ['GU', 'GUM', 'Guam', 'Micronesia'],
+  ['GW', 'GNB', 'Guinea-Bissau', 'Western Africa'],
+  ['GY', 'GUY', 'Guyana', 'South America'],
+  ['HK', 'HKG', 'Hong Kong', 'Eastern Asia', ['Hong Kong SAR', 'Hong Kong SAR China']],
+  ['HM', 'HMD', 'Heard Island and McDonald Islands', 'Australia and New Zealand'],
+  ['HN', 'HND', 'Honduras', 'Central America'],
+  ['HR', 'HRV', 'Croatia', 'Southern Europe', ['Hrvatska']],
+  ['HT', 'HTI', 'Haiti', 'Caribbean'],
+  ['HU', 'HUN', 'Hungary', 'Eastern Europe', ['Magyarország']],
+  ['ID', 'IDN', 'Indonesia', 'South-eastern Asia'],
+  ['IE', 'IRL', 'Ireland', 'Northern Europe', ['Republic of Ireland', 'Éire']],
+  ['IL', 'ISR', 'Israel', 'Western Asia'],
+  ['IM', 'IMN', 'Isle of Man', 'Northern Europe'],
+  ['IN', 'IND', 'India', 'Southern Asia'],
+  ['IO', 'IOT', 'British Indian Ocean Territory', 'Eastern Africa'],
+  ['IQ', 'IRQ', 'Iraq', 'Western Asia'],
+  ['IR', 'IRN', 'Iran', 'Southern Asia', ['Iran, Islamic Republic of', 'Islamic Republic of Iran']],
+  ['IS', 'ISL', 'Iceland', 'Northern Europe', ['Ísland']],
+  ['IT', 'ITA', 'Italy', 'Southern Europe', ['Italia']],
+  ['JE', 'JEY', 'Jersey', 'Northern Europe'],
+  ['JM', 'JAM', 'Jamaica', 'Caribbean'],
+  ['JO', 'JOR', 'Jordan', 'Western Asia'],
+  ['JP', 'JPN', 'Japan', 'Eastern Asia', ['Nippon']],
+  ['KE', 'KEN', 'Kenya', 'Eastern Africa'],
+  ['KG', 'KGZ', 'Kyrgyzstan', 'Central Asia', ['Kyrgyz Republic']],
+  ['KH', 'KHM', 'Cambodia', 'South-eastern Asia'],
+  ['KI', 'KIR', 'Kiribati', 'Micronesia'],
+  ['KM', 'COM', 'Comoros', 'Eastern Africa'],
+  ['KN', 'KNA', 'Saint Kitts and Nevis', 'Caribbean', ['St Kitts and Nevis']],
+  ['KP', 'PRK', 'North Korea', 'Eastern Asia', ["Korea, Democratic People's Republic of", "Democratic People's Republic of Korea", 'DPRK']],
+  ['KR', 'KOR', 'South Korea', 'Eastern Asia', ['Korea, Republic of', 'Republic of Korea', 'Korea']],
+  ['KW', 'KWT', 'Kuwait', 'Western Asia'],
+  ['KY', 'CYM', 'Cayman Islands', 'Caribbean'],
+  ['KZ', 'KAZ', 'Kazakhstan', 'Central Asia'],
+  ['LA', 'LAO', 'Laos', 'South-eastern Asia', ["Lao People's Democratic Republic", 'Lao PDR']],
+  ['LB', 'LBN', 'Lebanon', 'Western Asia'],
+  ['LC', 'LCA', 'Saint Lucia', 'Caribbean', ['St Lucia']],
+  ['LI', 'LIE', 'Liechtenstein', 'Western Europe'],
+  ['LK', 'LKA', 'Sri Lanka', 'Southern Asia'],
+  ['LR', 'LBR', 'Liberia', 'Western Africa'],
+  ['LS', 'LSO', 'Lesotho', 'Southern Africa'],
+  ['LT', 'LTU', 'Lithuania', 'Northern Europe'],
+  ['LU', 'LUX', 'Luxembourg', 'Western Europe'],
+  ['LV', 'LVA', 'Latvia', 'Northern Europe'],
+  ['LY', 'LBY', 'Libya', 'Northern Africa', ['Libyan Arab Jamahiriya']],
+  ['MA', 'MAR', 'Morocco', 'Northern Africa'],
+  ['MC', 'MCO', 'Monaco', 'Western Europe'],
+  ['MD', 'MDA', 'Moldova', 'Eastern Europe', ['Moldova, Republic of', 'Republic of Moldova']],
+  ['ME', 'MNE', 'Montenegro', 'Southern Europe'],
+  ['MF', 'MAF', 'Saint Martin', 'Caribbean', ['Saint Martin (French part)']],
+  ['MG', 'MDG', 'Madagascar', 'Eastern Africa'],
+  ['MH', 'MHL', 'Marshall Islands', 'Micronesia'],
+  ['MK', 'MKD', 'North Macedonia', 'Southern Europe', ['Macedonia', 'Macedonia, the Former Yugoslav Republic of', 'Republic of North Macedonia']],
+  ['ML', 'MLI', 'Mali', 'Western Africa'],
+  ['MM', 'MMR', 'Myanmar', 'South-eastern Asia', ['Burma']],
+  ['MN', 'MNG', 'Mongolia', 'Eastern Asia'],
+  ['MO', 'MAC', 'Macau', 'Eastern Asia', ['Macao', 'Macao SAR China']],
+  ['MP', 'MNP', 'Northern Mariana Islands', 'Micronesia'],
+  ['MQ', 'MTQ', 'Martinique', 'Caribbean'],
+  ['MR', 'MRT', 'Mauritania', 'Western Africa'],
+  ['MS', 'MSR', 'Montserrat', 'Caribbean'],
+  ['MT', 'MLT', 'Malta', 'Southern Europe'],
+  ['MU', 'MUS', 'Mauritius', 'Eastern Africa'],
+  ['MV', 'MDV', 'Maldives', 'Southern Asia'],
+  ['MW', 'MWI', 'Malawi', 'Eastern Africa'],
+  ['MX', 'MEX', 'Mexico', 'Central America', ['México']],
+  ['MY', 'MYS', 'Malaysia', 'South-eastern Asia'],
+  ['MZ', 'MOZ', 'Mozambique', 'Eastern Africa'],
+  ['NA', 'NAM', 'Namibia', 'Southern Africa'],
+  ['NC', 'NCL', 'New Caledonia', 'Melanesia'],
+  ['NE', 'NER', 'Niger', 'Western Africa'],
+  ['NF', 'NFK', 'Norfolk Island', 'Australia and New Zealand'],
+  ['NG', 'NGA', 'Nigeria', 'Western Africa'],
+  ['NI', 'NIC', 'Nicaragua', 'Central America'],
+  ['NL', 'NLD', 'Netherlands', 'Western Europe', ['The Netherlands', 'Holland', 'Nederland', 'Netherlands, Kingdom of the']],
+  ['NO', 'NOR', 'Norway', 'Northern Europe', ['Norge']],
+  ['NP', 'NPL', 'Nepal', 'Southern Asia'],
+  ['NR', 'NRU', 'Nauru', 'Micronesia'],
+  ['NU', 'NIU', 'Niue', 'Polynesia'],
+  ['NZ', 'NZL', 'New Zealand', 'Australia and New Zealand', ['Aotearoa']],
+  ['OM', 'OMN', 'Oman', 'Western Asia'],
+  ['PA', 'PAN', 'Panama', 'Central America', ['Panamá']],
+  ['PE', 'PER', 'Peru', 'South America', ['Perú']],
+  ['PF', 'PYF', 'French Polynesia', 'Polynesia'],
+  ['PG', 'PNG', 'Papua New Guinea', 'Melanesia'],
+  ['PH', 'PHL', 'Philippines', 'South-eastern Asia', ['The Philippines']],
+  ['PK', 'PAK', 'Pakistan', 'Southern Asia'],
+  ['PL', 'POL', 'Poland', 'Eastern Europe', ['Polska']],
+  ['PM', 'SPM', 'Saint Pierre and Miquelon', 'Northern America'],
+  ['PN', 'PCN', 'Pitcairn Islands', 'Polynesia', ['Pitcairn']],
+  ['PR', 'PRI', 'Puerto Rico', 'Caribbean'],
+  ['PS', 'PSE', 'Palestine', 'Western Asia', ['Palestine, State of', 'State of Palestine', 'Palestinian Territories', 'Palestinian Territory, Occupied']],
+  ['PT', 'PRT', 'Portugal', 'Southern Europe'],
+  ['PW', 'PLW', 'Palau', 'Micronesia'],
+  ['PY', 'PRY', 'Paraguay', 'South America'],
+  ['QA', 'QAT', 'Qatar', 'Western Asia'],
+  ['RE', 'REU', 'Réunion', 'Eastern Africa', ['Reunion']],
+  ['RO', 'ROU', 'Romania', 'Eastern Europe', ['România']],
+  ['RS', 'SRB', 'Serbia', 'Southern Europe', ['Srbija']],
+  ['RU', 'RUS', 'Russia', 'Eastern Europe', ['Russian Federation', 'Rossiya']],
+  ['RW', 'RWA', 'Rwanda', 'Eastern Africa'],
+  ['SA', 'SAU', 'Saudi Arabia', 'Western Asia'],
+  ['SB', 'SLB', 'Solomon Islands', 'Melanesia'],
+  ['SC', 'SYC', 'Seychelles', 'Eastern Africa'],
+  ['SD', 'SDN', 'Sudan', 'Northern Africa'],
+  ['SE', 'SWE', 'Sweden', 'Northern Europe', ['Sverige']],
+  ['SG', 'SGP', 'Singapore', 'South-eastern Asia'],
+  ['SH', 'SHN', 'Saint Helena', 'Western Africa', ['Saint Helena, Ascension and Tristan da Cunha']],
+  ['SI', 'SVN', 'Slovenia', 'Southern Europe', ['Slovenija']],
+  ['SJ', 'SJM', 'Svalbard and Jan Mayen', 'Northern Europe', ['Svalbard']],
+  ['SK', 'SVK', 'Slovakia', 'Eastern Europe', ['Slovak Republic', 'Slovensko']],
+  ['SL', 'SLE', 'Sierra Leone', 'Western Africa'],
+  ['SM', 'SMR', 'San Marino', 'Southern Europe'],
+  ['SN', 'SEN', 'Senegal', 'Western Africa'],
+  ['SO', 'SOM', 'Somalia', 'Eastern Africa'],
+  ['SR', 'SUR', 'Suriname', 'South America', ['Surinam']],
+  ['SS', 'SSD', 'South Sudan', 'Eastern Africa'],
+  ['ST', 'STP', 'Sao Tome and Principe', 'Middle Africa', ['São Tomé and Príncipe']],
+  ['SV', 'SLV', 'El Salvador', 'Central America'],
+  ['SX', 'SXM', 'Sint Maarten', 'Caribbean', ['Sint Maarten (Dutch part)']],
+  ['SY', 'SYR', 'Syria', 'Western Asia', ['Syrian Arab Republic']],
+  ['SZ', 'SWZ', 'Eswatini', 'Southern Africa', ['Swaziland']],
+  ['TC', 'TCA', 'Turks and Caicos Islands', 'Caribbean'],
+  ['TD', 'TCD', 'Chad', 'Middle Africa'],
+  ['TF', 'ATF', 'French Southern Territories', 'Eastern Africa'],
+  ['TG', 'TGO', 'Togo', 'Western Africa'],
+  ['TH', 'THA', 'Thailand', 'South-eastern Asia'],
+  ['TJ', 'TJK', 'Tajikistan', 'Central Asia'],
+  ['TK', 'TKL', 'Tokelau', 'Polynesia'],
+  ['TL', 'TLS', 'Timor-Leste', 'South-eastern Asia', ['East Timor']],
+  ['TM', 'TKM', 'Turkmenistan', 'Central Asia'],
+  ['TN', 'TUN', 'Tunisia', 'Northern Africa'],
+  ['TO', 'TON', 'Tonga', 'Polynesia'],
+  ['TR', 'TUR', 'Turkey', 'Western Asia', ['Türkiye', 'Turkiye']],
+  ['TT', 'TTO', 'Trinidad and Tobago', 'Caribbean'],
+  ['TV', 'TUV', 'Tuvalu', 'Polynesia'],
+  ['TW', 'TWN', 'Taiwan', 'Eastern Asia', ['Taiwan, Province of China', 'Republic of China']],
+  ['TZ', 'TZA', 'Tanzania', 'Eastern Africa', ['Tanzania, United Republic of', 'United Republic of Tanzania']],
+  ['UA', 'UKR', 'Ukraine', 'Eastern Europe', ['Ukraina']],
+  ['UG', 'UGA', 'Uganda', 'Eastern Africa'],
+  ['UM', 'UMI', 'United States Minor Outlying Islands', 'Micronesia'],
+  ['US', 'USA', 'United States', 'Northern America', ['United States of America', 'America', 'U.S.', 'U.S.A.']],
+  ['UY', 'URY', 'Uruguay', 'South America'],
+  ['UZ', 'UZB', 'Uzbekistan', 'Central Asia'],
+  ['VA', 'VAT', 'Vatican City', 'Southern Europe', ['Holy See', 'Holy See (Vatican City State)', 'Vatican']],
+  ['VC', 'VCT', 'Saint Vincent and the Grenadines', 'Caribbean', ['St Vincent and the Grenadines']],
+  ['VE', 'VEN', 'Venezuela', 'South America', ['Venezuela, Bolivarian Republic of', 'Bolivarian Republic of Venezuela']],
+  ['VG', 'VGB', 'British Virgin Islands', 'Caribbean', ['Virgin Islands, British']],
+  ['VI', 'VIR', 'United States Virgin Islands', 'Caribbean', ['Virgin Islands, U.S.', 'US Virgin Islands']],
+  ['VN', 'VNM', 'Vietnam', 'South-eastern Asia', ['Viet Nam']],
+  ['VU', 'VUT', 'Vanuatu', 'Melanesia'],
+  ['WF', 'WLF', 'Wallis and Futuna', 'Polynesia'],
+  ['WS', 'WSM', 'Samoa', 'Polynesia'],
+  ['XK', 'XKX', 'Kosovo', 'Southern Europe'],
+  ['YE', 'YEM', 'Yemen', 'Western Asia'],
+  ['YT', 'MYT', 'Mayotte', 'Eastern Africa'],
+  ['ZA', 'ZAF', 'South Africa', 'Southern Africa'],
+  ['ZM', 'ZMB', 'Zambia', 'Eastern Africa'],
+  ['ZW', 'ZWE', 'Zimbabwe', 'Eastern Africa'],
+];
+
+export const COUNTRIES: readonly CountryRecord[] = COUNTRY_ROWS.map(([alpha2, alpha3, name, subregion, aliases = []]) => ({
+  alpha2,
+  alpha3,
+  name,
+  subregion,
+  continent: CONTINENT_OVERRIDES[alpha2] ?? CONTINENT_BY_SUBREGION[subregion] ?? 'Other',
+  aliases,
+}));
+
+/** Case-, accent- and punctuation-insensitive lookup key ("Côte d’Ivoire" -> "cote d ivoire"). */
+export function countryLookupKey(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^the /, '');
+}
+
+const COUNTRY_BY_CODE = new Map<string, CountryRecord>();
+const COUNTRY_BY_KEY = new Map<string, CountryRecord>();
+for (const country of COUNTRIES) {
+  COUNTRY_BY_CODE.set(country.alpha2, country);
+  COUNTRY_BY_CODE.set(country.alpha3, country);
+  for (const name of [country.name, ...country.aliases]) {
+    COUNTRY_BY_KEY.set(countryLookupKey(name), country);
+  }
+}
+
+/** Resolve a country name, alias or ISO alpha-2/alpha-3 code; null when unrecognized. */
+export function resolveCountry(value: string | null | undefined): CountryRecord | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  // Codes are only trusted in upper case so e.g. "in" or "no" in free text don't match.
+  if (/^[A-Z]{2,3}$/.test(trimmed)) {
+    const byCode = COUNTRY_BY_CODE.get(trimmed);
+    if (byCode) return byCode;
+  }
+  return COUNTRY_BY_KEY.get(countryLookupKey(trimmed)) ?? null;
+}
+
+/** Look up a registry entry by alpha-2 or alpha-3 code. */
+export function getCountryByCode(code: string | null | undefined): CountryRecord | null {
+  if (!code) return null;
+  return COUNTRY_BY_CODE.get(code.toUpperCase()) ?? null;
+}
+
+/** Display name for a country code, falling back to the code itself. */
+export function getCountryName(code: string): string {
+  return getCountryByCode(code)?.name ?? code;
+}
+
+export function getContinent(country: string): string {
+  return resolveCountry(country)?.continent ?? 'Other';
+}
@@ -0,0 +1,128 @@
+// Cross-source duplicate merging.
+//
+// The same physical camera is often listed by several scrapers (e.g. insecam and worldcam.pl
+// mirror each other). `computeNetworkKey` maps those rows to one canonical key; here rows that
+// share a key *and* sit within `maxDistanceKm` of each other collapse into one camera. Keys
+// alone aren't enough: for unknown providers the key is the page URL, and a page can embed
+// several cameras — so two rows from the same source with different image URLs never merge.
+
+import type { CameraData, CameraSourceRef, InferredField } from '@/types/camera';
+import { haversineKm } from '@/lib/geo';
+import { UNKNOWN_COUNTRY_CODE } from './countries';
+import { PLACEHOLDER_TEXT } from './schema';
+
+export interface DedupeOptions {
+  /** Rows further apart than this are kept separate even with the same key. Default 1 km. */
+  maxDistanceKm?: number;
+}
+
+export interface DedupedCameraDataset {
+  cameras: CameraData[];
+  /** Merged-away camera ID -> ID of the camera it was merged into. */
+  aliases: Map<string, string>;
+  /** Number of cameras that absorbed at least one duplicate. */
+  mergedGroups: number;
+}
+
+const DEFAULT_MAX_DISTANCE_KM = 1;
+
+const hasText = (v: string | undefined) => !!v && v !== PLACEHOLDER_TEXT;
+/** Text the row itself had, as opposed to a placeholder or a gazetteer guess. */
+const hasOwnText = (cam: CameraData, field: 'city' | 'region' | 'manufacturer') =>
+  hasText(cam[field]) && !cam.inferred_fields?.includes(field as InferredField);
+
+/** Higher is better: public streams first, then rows with more real (non-placeholder) fields. */
+function rowQuality(cam: CameraData): number {
+  let score = cam.access_level === 'restricted' ? 0 : 8;
+  if (cam.country_code && cam.country_code !== UNKNOWN_COUNTRY_CODE) score += 2;
+  if (hasOwnText(cam, 'city')) score += 1;
+  if (hasOwnText(cam, 'region')) score += 1;
+  if (hasText(cam.manufacturer)) score += 1;
+  return score;
+}
+
+function toSourceRef(cam: CameraData): CameraSourceRef {
+  return {
+    id: cam.id,
+    source: cam.source,
+    image_url: cam.image_url,
+    page_url: cam.page_url,
+    access_level: cam.access_level,
+  };
+}
+
+/** Merge a group (in dataset order) into its best row, filling that row's gaps from the others. */
+function mergeGroup(group: CameraData[]): CameraData {
+  const ranked = group
+    .map((cam, i) => ({ cam, i, q: rowQuality(cam) }))
+    .sort((a, b) => b.q - a.q || a.i - b.i)
+    .map(({ cam }) => cam);
+  const [best] = ranked;
+  const pickFrom = (field: 'city' | 'region' | 'manufacturer') =>
+    ranked.find((c) => hasOwnText(c, field)) ?? ranked.find((c) => hasText(c[field])) ?? best;
+  const located = ranked.find((c) => c.country_code && c.country_code !== UNKNOWN_COUNTRY_CODE) ?? best;
+  const city = pickFrom('city');
+  const region = pickFrom('region');
+  const inferred = (['city', 'region'] as const).filter((field) =>
+    (field === 'city' ? city : region).inferred_fields?.includes(field)
+  );
+
+  return {
+    ...best,
+    continent: located.continent,
+    country: located.country,
+    country_code: located.country_code,
+    city: city.city,
+    region: region.region,
+    manufacturer: pickFrom('manufacturer').manufacturer,
+    inferred_fields: inferred.length > 0 ? inferred : undefined,
+    sources: ranked.map(toSourceRef),
+  };
+}
+
+/**
+ * Collapse duplicates across sources. Merged cameras keep the ID of their best row and the
+ * position of their first row; the other IDs are returned as aliases.
+ */
+export function dedupeCameras(cameras: readonly CameraData[], options: DedupeOptions = {}): DedupedCameraDataset {
+  const maxDistanceKm = options.maxDistanceKm ?? DEFAULT_MAX_DISTANCE_KM;
+
+  // Each key can own several clusters when its rows are far apart.
+  const clustersByKey = new Map<string, CameraData[][]>();
+  const groups: CameraData[][] = [];
+  for (const cam of cameras) {
+    if (!cam.network_key) {
+      groups.push([cam]);
+      continue;
+    }
+    const clusters = clustersByKey.get(cam.network_key) ?? [];
+    const here = { lat: cam.latitude, lon: cam.longitude };
+    const cluster = clusters.find(
+      (c) =>
+        haversineKm({ lat: c[0].latitude, lon: c[0].longitude }, here) <= maxDistanceKm &&
+        !c.some((m) => m.source === cam.source && m.image_url !== cam.image_url)
+    );
+    if (cluster) {
+      cluster.push(cam);
+      continue;
+    }
+    const next = [cam];
+    clusters.push(next);
+    clustersByKey.set(cam.network_key, clusters);
+    groups.push(next);
+  }
+
+  const aliases = new Map<string, string>();
+  let mergedGroups = 0;
+  const out = groups.map((group) => {
+    if (group.length === 1) return group[0];
+    mergedGroups += 1;
+    const merged = mergeGroup(group);
+    for (const cam of group) {
+      if (cam.id && cam.id !== merged.id) aliases.set(cam.id, merged.id);
+    }
+    return merged;
+  });
+
+  return { cameras: out, aliases, mergedGroups };
+}
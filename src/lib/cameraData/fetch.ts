@@ -0,0 +1,29 @@
+import type { DatasetPayload } from './payload';
+
+// Legacy (manifest-less) deployments only publish the JSON file.
+export const CAMERA_DATA_URL = '/camera_data.min.v2.json';
+
+export type FetchCameraDataResult =
+  | { status: 'ok'; payload: DatasetPayload; etag: string | null }
+  | { status: 'not_modified'; etag: string | null };
+
+/** Fetch the raw dataset payload, revalidating against a cached ETag when one is known. */
+export async function fetchCameraData(etag: string | null): Promise<FetchCameraDataResult> {
+  const isDev = import.meta.env.DEV;
+  const res = await fetch(CAMERA_DATA_URL, {
+    cache: isDev ? 'no-store' : 'force-cache',
+    headers: {
+      Accept: 'application/json',
+      ...(etag ? { 'If-None-Match': etag } : {}),
+    },
+  });
+  if (res.status === 304) {
+    return { status: 'not_modified', etag: res.headers.get('ETag') ?? etag };
+  }
+  if (!res.ok) {
+    throw new Error(`Failed to load camera data (${res.status})`);
+  }
+  // Parsing happens in the dataset worker (see `loadCameraDataset`), not here.
+  const text = await res.text();
+  return { status: 'ok', payload: { format: 'json', text }, etag: res.headers.get('ETag') };
+}
@@ -0,0 +1,8 @@
+// Generated by `pnpm data:gazetteer` from GeoNames (https://www.geonames.org, CC BY 4.0).
+// Do not edit by hand. Format: see `parseGazetteer` in ./gazetteer.ts.
+
+/** `countryCode<TAB>admin-1 name` per line (the name is empty when GeoNames has none). */
+export const GAZETTEER_REGIONS = "AD\tAndorra la Vella\nAD\tCanillo\nAD\tEncamp\nAD\tEscaldes-Engordany\nAD\tLa Massana\nAD\tOrdino\nAD\tSant Julià de Loria\nAE\tAbu Dhabi\nAE\tAjman\nAE\tDubai\nAE\tFujairah\nAE\tRas Al Khaimah\nAE\tSharjah\nAE\tUmm Al Quwain\nAF\tBadakhshan\nAF\tBadghis\nAF\tBaghlan\nAF\tBalkh\nAF\tBamyan\nAF\tDaykundi\nAF\tFarah\nAF\tFaryab\nAF\tGhazni\nAF\tGhowr\nAF\tHelmand\nAF\tHerat\nAF\tJowzjan\nAF\tKabul\nAF\tKandahar\nAF\tKapisa\nAF\tKhowst\nAF\tKunar\nAF\tKunduz\nAF\tLaghman\nAF\tLogar\nAF\tMaidan Wardak Province\nAF\tNangarhar\nAF\tNimroz\nAF\tNuristan\nAF\tOruzgan\nAF\tPaktia\nAF\tPaktika\nAF\tPanjshir\nAF\tParwan\nAF\tSamangan\nAF\tSar-e Pol Province\nAF\tTakhar\nAF\tZabul\nAG\tBarbuda\nAG\tSaint George Parish\nAG\tSaint John Parish\nAG\tSaint Mary Parish\nAG\tSaint Paul Parish\nAG\tSaint Peter Parish\nAI\tBlowing Point\nAI\tEast End\nAI\tGeorge Hill\nAI\tIsland Harbour\nAI\tNorth Hill\nAI\tNorth Side\nAI\tSandy Ground\nAI\tSandy Hill\nAI\tSouth Hill\nAI\tStoney Ground\nAI\tThe Farrington\nAI\tThe Quarter\nAI\tThe Valley\nAI\tWest End\nAL\tBerat County\nAL\tDibër County\nAL\tDurrës County\nAL\tElbasan County\nAL\tFier County\nAL\tGjirokastër County\nAL\tKorçë County\nAL\tKukës County\nAL\tLezhë County\nAL\tShkodër County\nAL\tTirana\nAL\tVlorë County\nAM\tAragatsotn\nAM\tArarat\nAM\tArmavir\nAM\tGegharkunik\nAM\tKotayk\nAM\tLori\nAM\tShirak\nAM\tSyunik\nAM\tTavush\nAM\tVayots Dzor\nAM\tYerevan\nAO\t\nAO\tBengo\nAO\tBenguela\nAO\tBíe\nAO\tCabinda\nAO\tCuanza Norte\nAO\tCunene\nAO\tHuambo\nAO\tHuíla\nAO\tKwanza Sul\nAO\tLuanda\nAO\tLuanda Norte\nAO\tLunda Sul\nAO\tMalanje\nAO\tMoxico\nAO\tNamibe\nAO\tUíge\nAO\tZaire\nAR\tBuenos Aires\nAR\tBuenos Aires F.D.\nAR\tCatamarca\nAR\tChaco\nAR\tChubut\nAR\tCordoba\nAR\tCorrientes\nAR\tEntre Rios\nAR\tFormosa\nAR\tJujuy\nAR\tLa Pampa\nAR\tLa Rioja\nAR\tMendoza\nAR\tMisiones\nAR\tNeuquen\nAR\tRio Negro\nAR\tSalta\nAR\tSan Juan\nAR\tSan Luis\nAR\tSanta Cruz\nAR\tSanta Fe\nAR\tSantiago del Estero\nAR\tTierra del Fuego\nAR\tTucuman\nAS\tEastern District\nAS\tManu'a\nAS\tSwains Island\nAT\tBurgenland\nAT\tCarinthia\nAT\tLower Austria\nAT\tSalzburg\nAT\tStyria\nAT\tTyrol\nAT\tUpper Austria\nAT\tVienna\nAT\tVorarlberg\nAU\tAustralian Capital Territory\nAU\tNew South Wales\nAU\tNorthern Territory\nAU\tQueensland\nAU\tSouth Australia\nAU\tTasmania\nAU\tVictoria\nAU\tWestern Australia\nAW\t\nAX\tMariehamn\nAZ\tAbşeron\nAZ\tAgsu District\nAZ\tAstara\nAZ\tAğcabǝdi\nAZ\tAğdam\nAZ\tAğdaş\nAZ\tAğstafa\nAZ\tBaki\nAZ\tBalakan District\nAZ\tBarda\nAZ\tBeyləqan\nAZ\tBilasuvar District\nAZ\tDaşkǝsǝn\nAZ\tFuzuli District\nAZ\tGadabay District\nAZ\tGoranboy District\nAZ\tGoygol Rayon\nAZ\tGöyçay\nAZ\tGǝncǝ\nAZ\tHacıqabul\nAZ\tIsmayilli District\nAZ\tJabrayil\nAZ\tJalilabad\nAZ\tKalbajar\nAZ\tKhojaly\nAZ\tKhojavend\nAZ\tKurdamir District\nAZ\tLachin Rayon\nAZ\tLerik District\nAZ\tLənkəran\nAZ\tMasally\nAZ\tMingacevir City\nAZ\tNaftalan\nAZ\tNakhchivan\nAZ\tNeftçala\nAZ\tOğuz\nAZ\tQabala District\nAZ\tQax\nAZ\tQazax\nAZ\tQobustan\nAZ\tQuba\nAZ\tQubadlı\nAZ\tQusar District\nAZ\tSaatlı\nAZ\tSabirabad District\nAZ\tSalyan District\nAZ\tSamux\nAZ\tShabran\nAZ\tShaki City\nAZ\tShirvan\nAZ\tShusha\nAZ\tSiyǝzǝn\nAZ\tSumqayit\nAZ\tTartar District\nAZ\tTovuz District\nAZ\tUcar\nAZ\tXankǝndi\nAZ\tXaçmaz\nAZ\tXızı\nAZ\tYardimli District\nAZ\tYevlax City\nAZ\tZangilan District\nAZ\tZaqatala District\nAZ\tZardab\nAZ\tİmişli\nAZ\tŞamaxı\nAZ\tŞǝmkir\nBA\tBrčko\nBA\tFederation of B&H\nBA\tSrpska\nBB\tChrist Church\nBB\tSaint Andrew\nBB\tSaint James\nBB\tSaint John\nBB\tSaint Joseph\nBB\tSaint Lucy\nBB\tSaint Michael\nBB\tSaint Peter\nBB\tSaint Philip\nBB\tSaint Thomas\nBD\tBarisal Division\nBD\tChittagong\nBD\tDhaka Division\nBD\tKhulna Division\nBD\tMymensingh Division\nBD\tRajshahi Division\nBD\tRangpur Division\nBD\tSylhet Division\nBE\tBrussels Capital\nBE\tFlanders\nBE\tWallonia\nBF\tBoucle du Mouhoun\nBF\tCascades Region\nBF\tCentre\nBF\tCentre-Est\nBF\tCentre-Nord\nBF\tCentre-Ouest\nBF\tCentre-Sud\nBF\tEst\nBF\tHauts-Bassins\nBF\tNord\nBF\tPlateau-Central\nBF\tSahel\nBG\tBlagoevgrad\nBG\tBurgas\nBG\tDobrich\nBG\tGabrovo\nBG\tHaskovo\nBG\tKardzhali\nBG\tKyustendil\nBG\tLovech\nBG\tMontana\nBG\tPazardzhik\nBG\tPernik\nBG\tPleven\nBG\tPlovdiv\nBG\tRazgrad\nBG\tRuse\nBG\tShumen\nBG\tSilistra\nBG\tSliven\nBG\tSmolyan\nBG\tSofia\nBG\tSofia-Capital\nBG\tStara Zagora\nBG\tTargovishte\nBG\tVarna\nBG\tVeliko Tarnovo\nBG\tVidin\nBG\tVratsa\nBG\tYambol\nBH\tManama\nBH\tMuharraq\nBH\tNorthern\nBH\tSouthern Governorate\nBI\t\nBI\tBubanza\nBI\tBujumbura Mairie\nBI\tBujumbura Rural\nBI\tBururi\nBI\tCankuzo\nBI\tCibitoke\nBI\tGitega\nBI\tKayanza\nBI\tKirundo\nBI\tMakamba\nBI\tMuramvya\nBI\tMuyinga\nBI\tNgozi\nBI\tRumonge\nBI\tRutana\nBI\tRuyigi\nBJ\tAlibori\nBJ\tAtakora\nBJ\tAtlantique\nBJ\tBorgou\nBJ\tCollines\nBJ\tDonga\nBJ\tKouffo\nBJ\tLittoral\nBJ\tMono\nBJ\tOuémé\nBJ\tPlateau\nBJ\tZou\nBL\t\nBM\tHamilton city\nBN\tBelait\nBN\tBrunei-Muara District\nBN\tTemburong\nBN\tTutong\nBO\tBeni Department\nBO\tChuquisaca Department\nBO\tCochabamba\nBO\tLa Paz Department\nBO\tOruro\nBO\tPando\nBO\tPotosí Department\nBO\tSanta Cruz Department\nBO\tTarija Department\nBQ\tBonaire\nBQ\tSaba\nBQ\tSint Eustatius\nBR\tAcre\nBR\tAlagoas\nBR\tAmapá\nBR\tAmazonas\nBR\tBahia\nBR\tCeará\nBR\tEspírito Santo\nBR\tFederal District\nBR\tGoiás\nBR\tMaranhão\nBR\tMato Grosso\nBR\tMato Grosso do Sul\nBR\tMinas Gerais\nBR\tParaná\nBR\tParaíba\nBR\tPará\nBR\tPernambuco\nBR\tPiauí\nBR\tRio Grande do Norte\nBR\tRio Grande do Sul\nBR\tRio de Janeiro\nBR\tRondônia\nBR\tRoraima\nBR\tSanta Catarina\nBR\tSergipe\nBR\tSão Paulo\nBR\tTocantins\nBS\tAcklins\nBS\tBimini\nBS\tBlack Point\nBS\tCat Island\nBS\tCentral Abaco\nBS\tCentral Eleuthera\nBS\tCrooked Island and Long Cay\nBS\tEast Grand Bahama\nBS\tExuma\nBS\tFreeport\nBS\tInagua\nBS\tLong Island\nBS\tMayaguana\nBS\tMoore’s Island\nBS\tNew Providence\nBS\tNorth Andros\nBS\tRagged Island\nBS\tRum Cay\nBS\tSan Salvador\nBS\tSpanish Wells\nBS\tWest Grand Bahama\nBT\tBumthang District\nBT\tChukha\nBT\tDagana\nBT\tGasa\nBT\tHaa\nBT\tLhuntse\nBT\tMongar\nBT\tParo\nBT\tPemagatshel\nBT\tPunakha\nBT\tSamdrup Jongkhar\nBT\tSamtse District\nBT\tSarpang District\nBT\tThimphu District\nBT\tTongsa\nBT\tTrashi Yangste\nBT\tTrashigang District\nBT\tTsirang District\nBT\tWangdi Phodrang\nBT\tZhemgang District\nBW\tCentral\nBW\tChobe\nBW\tCity of Francistown\nBW\tGaborone\nBW\tGhanzi\nBW\tJwaneng\nBW\tKgalagadi\nBW\tKgatleng\nBW\tKweneng\nBW\tLobatse\nBW\tNgwaketsi\nBW\tNorth-West\nBW\tSelibe Phikwe\nBW\tSouth-East\nBY\tBrest\nBY\tGrodnenskaya\nBY\tHomyel’ Voblasc’\nBY\tMinsk\nBY\tMinsk City\nBY\tMogilev\nBY\tVitebsk\nBZ\tBelize District\nBZ\tCayo District\nBZ\tCorozal District\nBZ\tOrange Walk District\nBZ\tSouthern District\nBZ\tToledo District\nCA\tAlberta\nCA\tBritish Columbia\nCA\tManitoba\nCA\tNew Brunswick\nCA\tNewfoundland and Labrador\nCA\tNorthwest Territories\nCA\tNova Scotia\nCA\tNunavut\nCA\tOntario\nCA\tPrince Edward Island\nCA\tQuebec\nCA\tSaskatchewan\nCA\tYukon\nCC\t\nCD\tBas-Congo\nCD\tBas-Uele\nCD\tEast Kasai\nCD\tHaut-Katanga\nCD\tHaut-Lomami\nCD\tHaut-Uele\nCD\tIturi\nCD\tKasai\nCD\tKasai-Central\nCD\tKinshasa\nCD\tKwango\nCD\tKwilu\nCD\tLomami\nCD\tLualaba\nCD\tMai-Ndombe\nCD\tManiema\nCD\tMongala\nCD\tNord-Ubangi\nCD\tNorth Kivu\nCD\tSankuru\nCD\tSouth Kivu\nCD\tSud-Ubangi\nCD\tTanganyika\nCD\tTshopo\nCD\tTshuapa\nCD\tÉquateur\nCF\tBamingui-Bangoran\nCF\tBangui\nCF\tBasse-Kotto\nCF\tHaut-Mbomou\nCF\tHaute-Kotto\nCF\tKémo\nCF\tLobaye\nCF\tMambéré-Kadéï\nCF\tMbomou\nCF\tNana-Grébizi\nCF\tNana-Mambéré\nCF\tOmbella-M'Poko\nCF\tOuaka\nCF\tOuham\nCF\tOuham-Pendé\nCF\tSangha-Mbaéré\nCF\tVakaga\nCG\tBouenza\nCG\tBrazzaville\nCG\tCuvette\nCG\tCuvette-Ouest\nCG\tKouilou\nCG\tLikouala\nCG\tLékoumou\nCG\tNiari\nCG\tPlateaux\nCG\tPointe-Noire\nCG\tPool\nCG\tSangha\nCH\tAargau\nCH\tAppenzell Ausserrhoden\nCH\tAppenzell Innerrhoden\nCH\tBasel-City\nCH\tBasel-Landschaft\nCH\tBern\nCH\tFribourg\nCH\tGeneva\nCH\tGlarus\nCH\tGrisons\nCH\tJura\nCH\tLucerne\nCH\tNeuchâtel\nCH\tNidwalden\nCH\tObwalden\nCH\tSaint Gallen\nCH\tSchaffhausen\nCH\tSchwyz\nCH\tSolothurn\nCH\tThurgau\nCH\tTicino\nCH\tUri\nCH\tValais\nCH\tVaud\nCH\tZug\nCH\tZurich\nCI\tAbidjan Autonomous District\nCI\tBas-Sassandra District\nCI\tComoé District\nCI\tDenguélé District\nCI\tGoh-Djiboua\nCI\tLacs District\nCI\tLagunes District\nCI\tMontagnes\nCI\tSassandra-Marahoue\nCI\tSavanes District\nCI\tVallée du Bandama District\nCI\tWoroba\nCI\tZanzan District\nCK\tRarotonga\nCL\tAntofagasta\nCL\tAraucania\nCL\tArica y Parinacota Region\nCL\tAtacama\nCL\tAysén\nCL\tBiobio\nCL\tCoquimbo Region\nCL\tLos Lagos Region\nCL\tLos Ríos Region\nCL\tMaule Region\nCL\tO'Higgins Region\nCL\tRegion of Magallanes\nCL\tSantiago Metropolitan\nCL\tTarapacá\nCL\tValparaiso\nCL\tÑuble\nCM\tAdamaoua\nCM\tCentre\nCM\tEast\nCM\tFar North\nCM\tLittoral\nCM\tNorth\nCM\tNorth-West\nCM\tSouth\nCM\tSouth-West\nCM\tWest\nCN\tAnhui\nCN\tBeijing\nCN\tChongqing\nCN\tFujian\nCN\tGansu\nCN\tGuangdong\nCN\tGuangxi\nCN\tGuizhou\nCN\tHainan\nCN\tHebei\nCN\tHeilongjiang\nCN\tHenan\nCN\tHubei\nCN\tHunan\nCN\tInner Mongolia\nCN\tJiangsu\nCN\tJiangxi\nCN\tJilin\nCN\tLiaoning\nCN\tNingxia\nCN\tQinghai\nCN\tShaanxi\nCN\tShandong\nCN\tShanghai\nCN\tShanxi\nCN\tSichuan\nCN\tTianjin\nCN\tTibet\nCN\tXinjiang\nCN\tYunnan\nCN\tZhejiang\nCO\tAmazonas Department\nCO\tAntioquia\nCO\tArauca Department\nCO\tAtlántico\nCO\tBogota D.C.\nCO\tBolívar\nCO\tBoyacá\nCO\tCaldas Department\nCO\tCaquetá\nCO\tCasanare Department\nCO\tCauca Department\nCO\tCesar Department\nCO\tChocó\nCO\tCundinamarca\nCO\tCórdoba\nCO\tGuainía Department\nCO\tGuaviare Department\nCO\tHuila Department\nCO\tLa Guajira Department\nCO\tMagdalena Department\nCO\tMeta Department\nCO\tNariño\nCO\tNorte de Santander Department\nCO\tPutumayo Department\nCO\tQuindío Department\nCO\tRisaralda Department\nCO\tSan Andres y Providencia\nCO\tSantander Department\nCO\tSucre Department\nCO\tTolima Department\nCO\tValle del Cauca Department\nCO\tVaupés\nCO\tVichada Department\nCR\tAlajuela Province\nCR\tCartago Province\nCR\tGuanacaste Province\nCR\tHeredia Province\nCR\tLimón Province\nCR\tPuntarenas Province\nCR\tSan José\nCU\tArtemisa\nCU\tCamagüey\nCU\tCiego de Ávila Province\nCU\tCienfuegos Province\nCU\tGranma Province\nCU\tGuantánamo Province\nCU\tHavana\nCU\tHolguín Province\nCU\tIsla de la Juventud\nCU\tLas Tunas Province\nCU\tMatanzas Province\nCU\tMayabeque\nCU\tPinar del Río\nCU\tSancti Spíritus Province\nCU\tSantiago de Cuba Province\nCU\tVilla Clara Province\nCV\tBoa Vista\nCV\tBrava\nCV\tMaio\nCV\tMosteiros\nCV\tPaul\nCV\tPorto Novo\nCV\tPraia\nCV\tRibeira Brava\nCV\tRibeira Grande\nCV\tRibeira Grande de Santiago\nCV\tSal\nCV\tSanta Catarina\nCV\tSanta Catarina do Fogo\nCV\tSanta Cruz\nCV\tSão Domingos\nCV\tSão Filipe\nCV\tSão Lourenço dos Órgãos\nCV\tSão Miguel\nCV\tSão Salvador do Mundo\nCV\tSão Vicente\nCV\tTarrafal\nCV\tTarrafal de São Nicolau\nCW\t\nCX\t\nCY\tAmmochostos\nCY\tKeryneia\nCY\tLarnaka\nCY\tLimassol\nCY\tNicosia\nCY\tPafos\nCZ\tCarlsbad Region\nCZ\tCentral Bohemia\nCZ\tHradec Králové Region\nCZ\tLiberec Region\nCZ\tMoravian-Silesian Region\nCZ\tOlomouc Region\nCZ\tPardubice Region\nCZ\tPlzeň Region\nCZ\tPrague\nCZ\tSouth Bohemian Region\nCZ\tSouth Moravian\nCZ\tVysocina\nCZ\tZlín\nCZ\tÚstí nad Labem Region\nDE\tBaden-Wurttemberg\nDE\tBavaria\nDE\tBrandenburg\nDE\tBremen\nDE\tHamburg\nDE\tHesse\nDE\tLower Saxony\nDE\tMecklenburg-Vorpommern\nDE\tNorth Rhine-Westphalia\nDE\tRheinland-Pfalz\nDE\tSaarland\nDE\tSaxony\nDE\tSaxony-Anhalt\nDE\tSchleswig-Holstein\nDE\tState of Berlin\nDE\tThuringia\nDJ\tAli Sabieh\nDJ\tArta\nDJ\tDikhil\nDJ\tDjibouti\nDJ\tObock\nDJ\tTadjourah\nDK\tCapital Region\nDK\tCentral Jutland\nDK\tNorth Denmark\nDK\tSouth Denmark\nDK\tZealand\nDM\tSaint Andrew Parish\nDM\tSaint David Parish\nDM\tSaint George Parish\nDM\tSaint John Parish\nDM\tSaint Joseph Parish\nDM\tSaint Luke Parish\nDM\tSaint Mark Parish\nDM\tSaint Patrick Parish\nDM\tSaint Paul Parish\nDM\tSaint Peter Parish\nDO\tAzua Province\nDO\tBaoruco Province\nDO\tBarahona Province\nDO\tDajabón\nDO\tDuarte Province\nDO\tEl Seíbo\nDO\tElías Piña\nDO\tEspaillat Province\nDO\tHato Mayor Province\nDO\tHermanas Mirabal\nDO\tIndependencia\nDO\tLa Altagracia Province\nDO\tLa Romana\nDO\tLa Vega\nDO\tMaría Trinidad Sánchez\nDO\tMonseñor Nouel\nDO\tMonte Cristi Province\nDO\tMonte Plata Province\nDO\tNacional\nDO\tPedernales Province\nDO\tPeravia\nDO\tPuerto Plata\nDO\tSamaná\nDO\tSan Cristóbal\nDO\tSan José de Ocoa\nDO\tSan Juan Province\nDO\tSan Pedro de Macorís\nDO\tSantiago Province\nDO\tSantiago Rodríguez\nDO\tSanto Domingo Province\nDO\tSánchez Ramírez\nDO\tValverde Province\nDZ\tAdrar\nDZ\tAlgiers\nDZ\tAnnaba\nDZ\tAïn Defla\nDZ\tAïn Témouchent\nDZ\tBatna\nDZ\tBiskra\nDZ\tBlida\nDZ\tBordj Bou Arréridj\nDZ\tBouira\nDZ\tBoumerdes\nDZ\tBéchar\nDZ\tBéjaïa\nDZ\tChlef\nDZ\tConstantine\nDZ\tDjelfa\nDZ\tEl Bayadh\nDZ\tEl Oued\nDZ\tEl Tarf\nDZ\tGhardaia\nDZ\tGuelma\nDZ\tIllizi\nDZ\tJijel\nDZ\tKhenchela\nDZ\tLaghouat\nDZ\tM'Sila\nDZ\tMascara\nDZ\tMedea\nDZ\tMila\nDZ\tMostaganem\nDZ\tNaama\nDZ\tOran\nDZ\tOuargla\nDZ\tOum el Bouaghi\nDZ\tRelizane\nDZ\tSaida\nDZ\tSidi Bel Abbès\nDZ\tSkikda\nDZ\tSouk Ahras\nDZ\tSétif\nDZ\tTamanrasset\nDZ\tTiaret\nDZ\tTindouf\nDZ\tTipaza\nDZ\tTissemsilt\nDZ\tTizi Ouzou\nDZ\tTlemcen\nDZ\tTébessa\nEC\tAzuay\nEC\tBolívar\nEC\tCanar\nEC\tCarchi\nEC\tChimborazo Province\nEC\tCotopaxi\nEC\tEl Oro\nEC\tEsmeraldas\nEC\tGalápagos\nEC\tGuayas\nEC\tImbabura\nEC\tLoja\nEC\tLos Ríos\nEC\tManabí\nEC\tMorona-Santiago Province\nEC\tNapo\nEC\tOrellana Province\nEC\tPastaza Province\nEC\tPichincha\nEC\tSanta Elena\nEC\tSanto Domingo de los Tsáchilas\nEC\tSucumbíos\nEC\tTungurahua Province\nEC\tZamora Chinchipe\nEE\tHarjumaa\nEE\tHiiumaa\nEE\tIda-Virumaa\nEE\tJärvamaa\nEE\tJõgevamaa\nEE\tLääne\nEE\tLääne-Virumaa\nEE\tPärnumaa\nEE\tPõlvamaa\nEE\tRaplamaa\nEE\tSaare\nEE\tTartu\nEE\tValgamaa\nEE\tViljandimaa\nEE\tVõrumaa\nEG\tAlexandria\nEG\tAswan\nEG\tAsyut\nEG\tBeheira\nEG\tBeni Suweif\nEG\tCairo\nEG\tDakahlia\nEG\tDamietta\nEG\tFaiyum\nEG\tGharbia\nEG\tGiza\nEG\tIsmailia\nEG\tKafr el-Sheikh\nEG\tLuxor\nEG\tMatruh\nEG\tMinya\nEG\tMonufia\nEG\tNew Valley\nEG\tNorth Sinai\nEG\tPort Said\nEG\tQalyubia\nEG\tQena\nEG\tRed Sea\nEG\tSharqia\nEG\tSohag\nEG\tSouth Sinai\nEG\tSuez\nEH\t\nER\tAnseba\nER\tDebub\nER\tGash-Barka\nER\tMaekel\nER\tNorthern Red Sea\nER\tSouthern Red Sea\nES\tAndalusia\nES\tAragon\nES\tAsturias\nES\tBalearic Islands\nES\tBasque Country\nES\tCanary Islands\nES\tCantabria\nES\tCastille and León\nES\tCastille-La Mancha\nES\tCatalonia\nES\tCeuta\nES\tExtremadura\nES\tGalicia\nES\tLa Rioja\nES\tMadrid\nES\tMelilla\nES\tMurcia\nES\tNavarre\nES\tValencia\nET\t\nET\tAddis Ababa\nET\tAmhara\nET\tBīnshangul Gumuz\nET\tDire Dawa\nET\tGambela\nET\tHarari\nET\tOromiya\nET\tSomali\nET\tTigray\nET\tĀfar\nFI\tCentral Finland\nFI\tCentral Ostrobothnia\nFI\tKainuu\nFI\tKanta-Häme\nFI\tKymenlaakso\nFI\tLapland\nFI\tNorth Karelia\nFI\tNorth Ostrobothnia\nFI\tNorth Savo\nFI\tOstrobothnia\nFI\tPaijat-Hame\nFI\tPirkanmaa\nFI\tSatakunta\nFI\tSouth Karelia\nFI\tSouth Ostrobothnia\nFI\tSouth Savo\nFI\tSouthwest Finland\nFI\tUusimaa\nFJ\tCentral\nFJ\tEastern\nFJ\tNorthern\nFJ\tRotuma\nFJ\tWestern\nFK\t\nFM\tChuuk\nFM\tKosrae\nFM\tPohnpei State\nFM\tYap State\nFO\tEysturoy\nFO\tNorðoyar\nFO\tSandoy\nFO\tStreymoy\nFO\tSuðuroy\nFO\tVágar\nFR\tAuvergne-Rhône-Alpes\nFR\tBourgogne-Franche-Comté\nFR\tBrittany\nFR\tCentre-Val de Loire\nFR\tCorsica\nFR\tGrand Est\nFR\tHauts-de-France\nFR\tNew Aquitaine\nFR\tNormandy\nFR\tOccitanie\nFR\tPays de la Loire\nFR\tProvence-Alpes-Côte d'Azur\nFR\tÎle-de-France\nGA\tEstuaire\nGA\tHaut-Ogooué\nGA\tMoyen-Ogooué\nGA\tNgouni\nGA\tNyanga\nGA\tOgooué-Ivindo\nGA\tOgooué-Lolo\nGA\tOgooué-Maritime\nGA\tWoleu-Ntem\nGB\tEngland\nGB\tNorthern Ireland\nGB\tScotland\nGB\tWales\nGD\tCarriacou and Petite Martinique\nGD\tSaint Andrew Parish\nGD\tSaint David Parish\nGD\tSaint George Parish\nGD\tSaint John Parish\nGD\tSaint Mark Parish\nGD\tSaint Patrick Parish\nGE\tAbkhazia\nGE\tAdjara\nGE\tGuria\nGE\tImereti\nGE\tKakheti\nGE\tKvemo Kartli\nGE\tMtskheta-Mtianeti\nGE\tSamegrelo and Zemo Svaneti\nGE\tSamtskhe-Javakheti\nGE\tShida Kartli\nGE\tTbilisi\nGF\tGuyane\nGG\tAlderney\nGG\tCastel\nGG\tSaint Andrew\nGG\tSaint Saviour\nGG\tSt Martin\nGG\tSt Peter Port\nGG\tSt Sampson\nGG\tTorteval\nGH\tAhafo\nGH\tAshanti\nGH\tBono\nGH\tBono East\nGH\tCentral\nGH\tEastern\nGH\tGreater Accra\nGH\tNorth East\nGH\tNorthern\nGH\tOti\nGH\tSavannah\nGH\tUpper East\nGH\tUpper West\nGH\tVolta\nGH\tWestern\nGH\tWestern North\nGI\t\nGL\tAvannaata\nGL\tKujalleq\nGL\tQeqertalik\nGL\tQeqqata\nGL\tSermersooq\nGM\tBanjul\nGM\tCentral River\nGM\tLower River\nGM\tNorth Bank\nGM\tUpper River\nGM\tWestern\nGN\tBoké Region\nGN\tConakry\nGN\tFaranah\nGN\tKankan Region\nGN\tKindia\nGN\tLabé Region\nGN\tMamou Region\nGN\tNzérékoré Region\nGP\tGuadeloupe\nGQ\tAnnobon\nGQ\tBioko Norte\nGQ\tBioko Sur\nGQ\tCentro Sur\nGQ\tKié-Ntem\nGQ\tLitoral\nGQ\tWele-Nzas\nGR\tAttica\nGR\tCentral Greece\nGR\tCentral Macedonia\nGR\tCrete\nGR\tEast Macedonia and Thrace\nGR\tEpirus\nGR\tIonian Islands\nGR\tMount Athos\nGR\tNorth Aegean\nGR\tPeloponnese\nGR\tSouth Aegean\nGR\tThessaly\nGR\tWest Greece\nGR\tWest Macedonia\nGS\t\nGT\tAlta Verapaz\nGT\tBaja Verapaz\nGT\tChimaltenango\nGT\tChiquimula\nGT\tEl Progreso\nGT\tEscuintla\nGT\tGuatemala\nGT\tHuehuetenango\nGT\tIzabal Department\nGT\tJalapa\nGT\tJutiapa\nGT\tPetén\nGT\tQuetzaltenango\nGT\tQuiché\nGT\tRetalhuleu\nGT\tSacatepéquez\nGT\tSan Marcos\nGT\tSanta Rosa Department\nGT\tSololá\nGT\tSuchitepeque\nGT\tTotonicapán\nGT\tZacapa\nGU\tAgana Heights\nGU\tAgat\nGU\tAsan\nGU\tBarrigada\nGU\tChalan Pago-Ordot\nGU\tDededo\nGU\tHagatna\nGU\tInarajan\nGU\tMangilao\nGU\tMerizo\nGU\tMongmong-Toto-Maite\nGU\tPiti\nGU\tSanta Rita\nGU\tSinajana\nGU\tTalofofo\nGU\tTamuning\nGU\tUmatac\nGU\tYigo\nGU\tYona\nGW\tBafatá\nGW\tBiombo\nGW\tBissau\nGW\tBolama\nGW\tCacheu\nGW\tGabú\nGW\tOio\nGW\tQuinara\nGW\tTombali\nGY\tBarima-Waini\nGY\tCuyuni-Mazaruni\nGY\tDemerara-Mahaica\nGY\tEast Berbice-Corentyne\nGY\tEssequibo Islands-West Demerara\nGY\tMahaica-Berbice\nGY\tPomeroon-Supenaam\nGY\tPotaro-Siparuni\nGY\tUpper Demerara-Berbice\nGY\tUpper Takutu-Upper Essequibo\nHK\tCentral and Western\nHK\tIslands\nHK\tKowloon City\nHK\tSai Kung District\nHK\tSha Tin\nHK\tSham Shui Po District\nHK\tTai Po\nHK\tTsuen Wan\nHK\tTuen Mun\nHK\tWan Chai\nHK\tWong Tai Sin District\nHK\tYuen Long\nHN\tAtlántida Department\nHN\tBay Islands\nHN\tCholuteca Department\nHN\tColón Department\nHN\tComayagua Department\nHN\tCopán Department\nHN\tCortés Department\nHN\tEl Paraíso Department\nHN\tFrancisco Morazán Department\nHN\tGracias a Dios Department\nHN\tIntibucá Department\nHN\tLa Paz Department\nHN\tLempira Department\nHN\tOcotepeque Department\nHN\tOlancho Department\nHN\tSanta Bárbara Department\nHN\tValle Department\nHN\tYoro Department\nHR\tBjelovar-Bilogora\nHR\tBrod-Posavina\nHR\tCounty of Osijek-Baranja\nHR\tDubrovnik-Neretva\nHR\tIstria\nHR\tKarlovac\nHR\tKoprivnica-Križevci\nHR\tKrapina-Zagorje\nHR\tLika-Senj\nHR\tMeđimurje\nHR\tPožega-Slavonia\nHR\tPrimorje-Gorski Kotar\nHR\tSisak-Moslavina\nHR\tSplit-Dalmatia\nHR\tVaraždin\nHR\tVirovitica-Podravina\nHR\tVukovar-Srijem\nHR\tZadar\nHR\tZagreb\nHR\tZagreb County\nHR\tŠibenik-Knin\nHT\tArtibonite\nHT\tCentre\nHT\tGrand'Anse\nHT\tNippes\nHT\tNord\nHT\tNord-Est\nHT\tNord-Ouest\nHT\tOuest\nHT\tSud\nHT\tSud-Est\nHU\tBaranya\nHU\tBekes County\nHU\tBorsod-Abaúj-Zemplén\nHU\tBudapest\nHU\tBács-Kiskun\nHU\tCsongrád\nHU\tFejér\nHU\tGyőr-Moson-Sopron\nHU\tHajdú-Bihar\nHU\tHeves County\nHU\tJász-Nagykun-Szolnok\nHU\tKomárom-Esztergom\nHU\tNógrád\nHU\tPest County\nHU\tSomogy County\nHU\tSzabolcs-Szatmár-Bereg\nHU\tTolna County\nHU\tVas County\nHU\tVeszprém\nHU\tZala County\nID\tAceh\nID\tBali\nID\tBangka–Belitung Islands\nID\tBanten\nID\tBengkulu\nID\tCentral Java\nID\tCentral Kalimantan\nID\tCentral Sulawesi\nID\tEast Java\nID\tEast Kalimantan\nID\tEast Nusa Tenggara\nID\tGorontalo\nID\tJakarta\nID\tJambi\nID\tLampung\nID\tMaluku\nID\tNorth Kalimantan\nID\tNorth Maluku\nID\tNorth Sulawesi\nID\tNorth Sumatra\nID\tPapua\nID\tRiau\nID\tRiau Islands\nID\tSouth Kalimantan\nID\tSouth Sulawesi\nID\tSouth Sumatra\nID\tSoutheast Sulawesi\nID\tWest Java\nID\tWest Kalimantan\nID\tWest Nusa Tenggara\nID\tWest Papua\nID\tWest Sulawesi\nID\tWest Sumatra\nID\tYogyakarta\nIE\tConnacht\nIE\tLeinster\nIE\tMunster\nIE\tUlster\nIL\tCentral District\nIL\tHaifa\nIL\tJerusalem\nIL\tJudea and Samaria Area\nIL\tNorthern District\nIL\tSouthern District\nIL\tTel Aviv\nIM\tAndreas\nIM\tArbory\nIM\tBallaugh\nIM\tBraddan\nIM\tBride\nIM\tCastletown\nIM\tDouglas\nIM\tJurby\nIM\tLaxey\nIM\tLezayre\nIM\tMalew\nIM\tMarown\nIM\tMaughold\nIM\tMichael\nIM\tOnchan\nIM\tPatrick\nIM\tPeel\nIM\tPort Erin\nIM\tPort St Mary\nIM\tRamsey\nIM\tSanton\nIN\t\nIN\tAndaman and Nicobar\nIN\tAndhra Pradesh\nIN\tArunachal Pradesh\nIN\tAssam\nIN\tBihar\nIN\tChandigarh\nIN\tChhattisgarh\nIN\tDelhi\nIN\tGoa\nIN\tGujarat\nIN\tHaryana\nIN\tHimachal Pradesh\nIN\tJammu and Kashmir\nIN\tJharkhand\nIN\tKarnataka\nIN\tKerala\nIN\tLadakh\nIN\tLakshadweep\nIN\tMadhya Pradesh\nIN\tMaharashtra\nIN\tManipur\nIN\tMeghalaya\nIN\tMizoram\nIN\tNagaland\nIN\tOdisha\nIN\tPuducherry\nIN\tPunjab\nIN\tRajasthan\nIN\tSikkim\nIN\tTamil Nadu\nIN\tTelangana\nIN\tTripura\nIN\tUttar Pradesh\nIN\tUttarakhand\nIN\tWest Bengal\nIQ\tAl-Qadisiyah\nIQ\tAnbar\nIQ\tBabil\nIQ\tBaghdad\nIQ\tBasra\nIQ\tDhi Qar\nIQ\tDiyala\nIQ\tDuhok\nIQ\tErbil\nIQ\tKarbala\nIQ\tKirkuk\nIQ\tMaysan\nIQ\tMuthanna\nIQ\tNajaf\nIQ\tNineveh\nIQ\tSalah ad Din\nIQ\tSulaymaniyah\nIQ\tWasit\nIR\tAlborz Province\nIR\tArdabil Province\nIR\tBushehr\nIR\tChaharmahal and Bakhtiari\nIR\tEast Azerbaijan\nIR\tFars\nIR\tGilan Province\nIR\tGolestan\nIR\tHamadan Province\nIR\tHormozgan\nIR\tIlam Province\nIR\tIsfahan\nIR\tKerman\nIR\tKermanshah Province\nIR\tKhuzestan\nIR\tKohgiluyeh and Boyer-Ahmad\nIR\tKurdistan Province\nIR\tLorestan Province\nIR\tMarkazi\nIR\tMāzandarān\nIR\tNorth Khorasan\nIR\tQazvin Province\nIR\tQom Province\nIR\tRazavi Khorasan\nIR\tSemnan\nIR\tSistan and Baluchestan\nIR\tSouth Khorasan Province\nIR\tTehran\nIR\tWest Azerbaijan\nIR\tYazd Province\nIR\tZanjan\nIS\tCapital Region\nIS\tEast\nIS\tNortheast\nIS\tNorthwest\nIS\tSouth\nIS\tSouthern Peninsula\nIS\tWest\nIS\tWestfjords\nIT\tAbruzzo\nIT\tAosta Valley\nIT\tApulia\nIT\tBasilicate\nIT\tCalabria\nIT\tCampania\nIT\tEmilia-Romagna\nIT\tFriuli Venezia Giulia\nIT\tLazio\nIT\tLiguria\nIT\tLombardy\nIT\tMolise\nIT\tPiedmont\nIT\tSardinia\nIT\tSicily\nIT\tThe Marches\nIT\tTrentino-Alto Adige\nIT\tTuscany\nIT\tUmbria\nIT\tVeneto\nJE\tSt Clement\nJE\tSt Helier\nJM\tClarendon\nJM\tHanover\nJM\tKingston\nJM\tManchester\nJM\tPortland Parish\nJM\tSaint Andrew Parish\nJM\tSaint Ann Parish\nJM\tSaint Catherine Parish\nJM\tSaint James Parish\nJM\tSaint Mary Parish\nJM\tSaint Thomas Parish\nJM\tSt. Elizabeth\nJM\tTrelawny Parish\nJM\tWestmoreland\nJO\tAjloun\nJO\tAmman\nJO\tAqaba\nJO\tBalqa\nJO\tIrbid\nJO\tJerash\nJO\tKarak\nJO\tMadaba\nJO\tMafraq\nJO\tMa’an\nJO\tTafielah\nJO\tZarqa\nJP\tAichi\nJP\tAkita\nJP\tAomori\nJP\tChiba\nJP\tEhime\nJP\tFukui\nJP\tFukuoka\nJP\tFukushima\nJP\tGifu\nJP\tGunma\nJP\tHiroshima\nJP\tHokkaido\nJP\tHyōgo\nJP\tIbaraki\nJP\tIshikawa\nJP\tIwate\nJP\tKagawa\nJP\tKagoshima\nJP\tKanagawa\nJP\tKochi\nJP\tKumamoto\nJP\tKyoto\nJP\tMie\nJP\tMiyagi\nJP\tMiyazaki\nJP\tNagano\nJP\tNagasaki\nJP\tNara\nJP\tNiigata\nJP\tOita\nJP\tOkayama\nJP\tOkinawa\nJP\tOsaka\nJP\tSaga\nJP\tSaitama\nJP\tShiga\nJP\tShimane\nJP\tShizuoka\nJP\tTochigi\nJP\tTokushima\nJP\tTokyo\nJP\tTottori\nJP\tToyama\nJP\tWakayama\nJP\tYamagata\nJP\tYamaguchi\nJP\tYamanashi\nKE\tBaringo\nKE\tBomet County\nKE\tBungoma County\nKE\tBusia County\nKE\tElegeyo-Marakwet\nKE\tEmbu County\nKE\tGarissa County\nKE\tHoma Bay County\nKE\tIsiolo County\nKE\tKajiado County\nKE\tKakamega County\nKE\tKericho County\nKE\tKiambu County\nKE\tKilifi County\nKE\tKirinyaga County\nKE\tKisii County\nKE\tKisumu County\nKE\tKitui County\nKE\tKwale County\nKE\tLaikipia\nKE\tLamu\nKE\tMachakos County\nKE\tMakueni County\nKE\tMandera County\nKE\tMarsabit County\nKE\tMeru County\nKE\tMigori County\nKE\tMombasa County\nKE\tMurang'A\nKE\tNairobi County\nKE\tNakuru County\nKE\tNandi\nKE\tNarok County\nKE\tNyamira county\nKE\tNyandarua County\nKE\tNyeri County\nKE\tSamburu County\nKE\tSiaya County\nKE\tTaita Taveta\nKE\tTana River County\nKE\tTharaka - Nithi\nKE\tTrans Nzoia\nKE\tTurkana County\nKE\tUasin Gishu County\nKE\tVihiga County\nKE\tWajir County\nKE\tWest Pokot County\nKG\tBatken\nKG\tBishkek\nKG\tChuy Region\nKG\tIssyk-Kul\nKG\tJalal-Abad Region\nKG\tNaryn Region\nKG\tOsh Region\nKG\tTalas Region\nKH\tBanteay Meanchey\nKH\tBattambang\nKH\tKampong Cham\nKH\tKampong Chhnang\nKH\tKampong Speu Province\nKH\tKampong Thom\nKH\tKampot\nKH\tKandal\nKH\tKep\nKH\tKoh Kong\nKH\tKratie\nKH\tMondolkiri\nKH\tPailin\nKH\tPhnom Penh\nKH\tPreah Sihanouk\nKH\tPreah Vihear\nKH\tPrey Veng\nKH\tPursat\nKH\tRatanakiri\nKH\tSiem Reap\nKH\tStung Treng\nKH\tSvay Rieng\nKH\tTakeo\nKH\tTboung Khmum\nKH\tŎtâr Méanchey\nKI\tGilbert Islands\nKM\tAnjouan\nKM\tGrande Comore\nKM\tMohéli\nKN\tChrist Church Nichola Town\nKN\tMiddle Island\nKN\tSaint Anne Sandy Point\nKN\tSaint George Basseterre\nKN\tSaint George Gingerland\nKN\tSaint James Windwa\nKN\tSaint John Capesterre\nKN\tSaint John Figtree\nKN\tSaint Mary Cayon\nKN\tSaint Paul Capesterre\nKN\tSaint Paul Charlestown\nKN\tSaint Peter Basseterre\nKN\tSaint Thomas Lowland\nKN\tTrinity Palmetto Point\nKP\tChagang\nKP\tKangwŏn-do\nKP\tNorth Hamgyong\nKP\tNorth Hwanghae\nKP\tP'yŏngan-bukto\nKP\tPyongyang\nKP\tRason\nKP\tSouth Hamgyong\nKP\tSouth Hwanghae\nKP\tSouth Pyongan\nKP\tYanggang-do\nKR\tBusan\nKR\tChungcheongnam-do\nKR\tDaegu\nKR\tDaejeon\nKR\tGangwon-do\nKR\tGwangju\nKR\tGyeonggi-do\nKR\tGyeongsangbuk-do\nKR\tGyeongsangnam-do\nKR\tIncheon\nKR\tJeju-do\nKR\tJeollabuk-do\nKR\tJeollanam-do\nKR\tNorth Chungcheong\nKR\tSejong-si\nKR\tSeoul\nKR\tUlsan\nKW\tAl Asimah\nKW\tAl Aḩmadī\nKW\tAl Farwaniyah\nKW\tAl Jahra Governorate\nKW\tHawalli\nKW\tMubārak al Kabīr\nKY\tBodden Town\nKY\tEast End\nKY\tGeorge Town\nKY\tNorth Side\nKY\tSister Island\nKY\tWest Bay\nKZ\tAktobe\nKZ\tAlmaty\nKZ\tAlmaty Region\nKZ\tAqmola\nKZ\tAstana\nKZ\tAtyrau Oblisi\nKZ\tBaikonur\nKZ\tEast Kazakhstan\nKZ\tKaraganda\nKZ\tKostanay\nKZ\tKyzylorda\nKZ\tMangystau\nKZ\tNorth Kazakhstan\nKZ\tPavlodar Region\nKZ\tShymkent\nKZ\tTurkistan\nKZ\tWest Kazakhstan\nKZ\tZhambyl\nLA\tAttapu\nLA\tBokeo\nLA\tBolikhamsai\nLA\tChampasak Province\nLA\tHouaphan\nLA\tKhammouane Province\nLA\tLoungnamtha\nLA\tLuang Prabang Province\nLA\tOudômxai\nLA\tPhôngsali\nLA\tSalavan Province\nLA\tSavannakhet Province\nLA\tVientiane\nLA\tVientiane Prefecture\nLA\tXiagnabouli\nLA\tXiangkhoang\nLA\tXékong\nLB\tAkkar\nLB\tBaalbek-Hermel Governorate\nLB\tBeirut\nLB\tBekaa\nLB\tMount Lebanon\nLB\tNabatieh\nLB\tNorth Lebanon\nLB\tSouth Governorate\nLC\tAnse-la-Raye\nLC\tCastries\nLC\tChoiseul\nLC\tDennery\nLC\tGros-Islet\nLC\tLaborie\nLC\tMicoud\nLC\tSoufrière\nLC\tVieux-Fort\nLI\tBalzers\nLI\tEschen\nLI\tGamprin\nLI\tMauren\nLI\tPlanken\nLI\tRuggell\nLI\tSchaan\nLI\tSchellenberg\nLI\tTriesen\nLI\tTriesenberg\nLI\tVaduz\nLK\tCentral Province\nLK\tEastern Province\nLK\tNorth Central Province\nLK\tNorth Western Province\nLK\tNorthern Province\nLK\tSabaragamuwa Province\nLK\tSouthern Province\nLK\tUva Province\nLK\tWestern Province\nLR\tBomi County\nLR\tBong County\nLR\tGbarpolu County\nLR\tGrand Bassa County\nLR\tGrand Cape Mount County\nLR\tGrand Gedeh County\nLR\tGrand Kru County\nLR\tLofa County\nLR\tMargibi County\nLR\tMaryland County\nLR\tMontserrado County\nLR\tNimba\nLR\tRiver Cess County\nLR\tRiver Gee County\nLR\tSinoe County\nLS\tBerea\nLS\tButha-Buthe\nLS\tLeribe\nLS\tMafeteng District\nLS\tMaseru District\nLS\tMohale's Hoek District\nLS\tMokhotlong District\nLS\tQacha's Nek District\nLS\tQuthing\nLS\tThaba-Tseka\nLT\tAlytus\nLT\tKaunas\nLT\tKlaipėda County\nLT\tMarijampolė County\nLT\tPanevėžys\nLT\tSiauliai\nLT\tTauragė County\nLT\tTelsiai\nLT\tUtena\nLT\tVilnius\nLU\tDiekirch\nLU\tEsch-sur-Alzette\nLU\tGrevenmacher\nLU\tLuxembourg\nLU\tMersch\nLU\tRedange\nLU\tWiltz\nLV\t\nLV\tAizkraukle Municipality\nLV\tAlūksne Municipality\nLV\tBalvi Municipality\nLV\tBauska Municipality\nLV\tCēsis Municipality\nLV\tDobele Municipality\nLV\tGulbene Municipality\nLV\tJelgava\nLV\tJēkabpils Municipality\nLV\tJūrmala\nLV\tKrāslava Municipality\nLV\tKuldīga Municipality\nLV\tLiepaja\nLV\tLimbaži Municipality\nLV\tLudza Municipality\nLV\tLīvāni\nLV\tMadonas novads\nLV\tMārupe\nLV\tOgre\nLV\tOlaine\nLV\tPreiļu novads\nLV\tRiga\nLV\tRopaži Municipality\nLV\tRēzekne\nLV\tSalaspils Municipality\nLV\tSaldus Rajons\nLV\tSaulkrasti Municipality\nLV\tSigulda Municipality\nLV\tSmiltene Municipality\nLV\tTalsu novads\nLV\tTukums Municipality\nLV\tValka\nLV\tValmiera\nLV\tVarakļāni Municipality\nLV\tVentspils\nLV\tĀdaži\nLV\tĶekava\nLY\tAl Butnan\nLY\tAl Jabal al Akhdar\nLY\tAl Jafarah\nLY\tAl Jufrah\nLY\tAl Kufrah\nLY\tAl Marj\nLY\tAl Marqab\nLY\tAl Wahat\nLY\tAn Nuqat al Khams\nLY\tAz Zawiyah\nLY\tBanghazi\nLY\tDarnah\nLY\tGhat\nLY\tJabal al Gharbi\nLY\tMisratah\nLY\tMurzuq District\nLY\tNalut\nLY\tSabha District\nLY\tSurt\nLY\tTripoli\nLY\tWadi al Hayat\nLY\tWadi ash Shati'\nMA\tBeni Mellal-Khenifra\nMA\tCasablanca-Settat\nMA\tDrâa-Tafilalet\nMA\tFes-Meknes\nMA\tGuelmim-Oued Noun\nMA\tLaayoune-Sakia El Hamra\nMA\tMarrakesh-Safi\nMA\tOriental\nMA\tRabat-Salé-Kénitra\nMA\tSouss-Massa\nMA\tTanger-Tetouan-Al Hoceima\nMC\tMunicipality of Monaco\nMD\tAnenii Noi\nMD\tBasarabeasca\nMD\tBender Municipality\nMD\tBriceni\nMD\tBălţi\nMD\tCahul\nMD\tCantemir\nMD\tChișinău Municipality\nMD\tCimişlia\nMD\tCriuleni\nMD\tCălăraşi\nMD\tCăuşeni\nMD\tDonduşeni\nMD\tDrochia\nMD\tDubăsari District\nMD\tFloreşti\nMD\tFălești\nMD\tGagauzia\nMD\tGlodeni\nMD\tHînceşti\nMD\tIaloveni\nMD\tLeova\nMD\tNisporeni\nMD\tOrhei\nMD\tRaionul Edineţ\nMD\tRaionul Ocniţa\nMD\tRezina\nMD\tRîşcani\nMD\tSoroca District\nMD\tStefan-Voda\nMD\tStrășeni\nMD\tSîngerei\nMD\tTaraclia\nMD\tTeleneşti\nMD\tTransnistria\nMD\tUngheni\nMD\tŞoldăneşti\nME\tAndrijevica\nME\tBar\nME\tBerane\nME\tBijelo Polje\nME\tBudva\nME\tCetinje\nME\tDanilovgrad\nME\tGusinje Municipality\nME\tHerceg Novi\nME\tKotor\nME\tMojkovac\nME\tOpština Kolašin\nME\tOpština Nikšić\nME\tOpština Plav\nME\tOpština Plužine\nME\tOpština Šavnik\nME\tOpština Žabljak\nME\tPetnjica Municipality\nME\tPljevlja\nME\tPodgorica\nME\tRožaje Municipality\nME\tTivat\nME\tTuzi Municipality\nME\tUlcinj\nMF\t\nMG\t\nMG\tAlaotra Mangoro\nMG\tAmoron'i Mania\nMG\tAnalamanga\nMG\tAnalanjirofo\nMG\tAndroy\nMG\tAnosy\nMG\tAtsimo-Andrefana\nMG\tAtsimo-Atsinanana\nMG\tAtsinanana\nMG\tBetsiboka\nMG\tBoeny\nMG\tBongolava\nMG\tDiana\nMG\tIhorombe\nMG\tItasy\nMG\tMelaky\nMG\tMenabe\nMG\tSava\nMG\tSofia\nMG\tUpper Matsiatra\nMG\tVakinankaratra\nMH\tAilinglaplap Atoll\nMH\tAiluk Atoll\nMH\tArno Atoll\nMH\tAur Atoll\nMH\tEbon Atoll\nMH\tEnewetak Atoll\nMH\tJabat Island\nMH\tJaluit Atoll\nMH\tKili Island\nMH\tKwajalein Atoll\nMH\tLae Atoll\nMH\tLib Island\nMH\tLikiep Atoll\nMH\tMajuro Atoll\nMH\tMaloelap Atoll\nMH\tMejit Island\nMH\tMili Atoll\nMH\tNamdrik Atoll\nMH\tNamu Atoll\nMH\tRongelap Atoll\nMH\tUjae Atoll\nMH\tUtrik Atoll\nMH\tWotho Atoll\nMH\tWotje Atoll\nMK\tArachinovo\nMK\tBerovo\nMK\tBitola\nMK\tBogdanci\nMK\tBogovinje\nMK\tBosilovo\nMK\tBrvenica\nMK\tCentar Zhupa\nMK\tChashka\nMK\tChucher Sandevo\nMK\tDebar\nMK\tDebarca\nMK\tDelchevo\nMK\tDemir Hisar\nMK\tDemir Kapija\nMK\tDojran\nMK\tDolneni\nMK\tGevgelija\nMK\tGostivar\nMK\tGrad Skopje\nMK\tGradsko\nMK\tIlinden\nMK\tJegunovce\nMK\tKarbinci\nMK\tKavadarci\nMK\tKichevo\nMK\tKochani\nMK\tKonche\nMK\tKratovo\nMK\tKriva Palanka\nMK\tKrivogashtani\nMK\tKrushevo\nMK\tKumanovo\nMK\tLipkovo\nMK\tLozovo\nMK\tMakedonska Kamenica\nMK\tMakedonski Brod\nMK\tMavrovo and Rostuša\nMK\tMogila\nMK\tNegotino\nMK\tNovaci\nMK\tNovo Selo\nMK\tOhrid\nMK\tPehchevo\nMK\tPetrovec\nMK\tPlasnica\nMK\tPrilep\nMK\tProbishtip\nMK\tRadovish\nMK\tRankovce\nMK\tResen\nMK\tRosoman\nMK\tShtip\nMK\tSopište\nMK\tStaro Nagorichane\nMK\tStruga\nMK\tStrumica\nMK\tStudenichani\nMK\tSveti Nikole\nMK\tTearce\nMK\tTetovo\nMK\tValandovo\nMK\tVasilevo\nMK\tVeles\nMK\tVevchani\nMK\tVinica\nMK\tVrapchishte\nMK\tZelenikovo\nMK\tZhelino\nMK\tZrnovci\nML\tBamako\nML\tGao\nML\tKayes\nML\tKidal\nML\tKoulikoro\nML\tMopti\nML\tMénaka\nML\tSikasso\nML\tSégou\nML\tTaoudénit\nML\tTombouctou\nMM\tAyeyarwady\nMM\tBago Region\nMM\tChin State\nMM\tKachin State\nMM\tKayah State\nMM\tKayin State\nMM\tMagway\nMM\tMandalay Region\nMM\tMon\nMM\tNay Pyi Taw\nMM\tRakhine\nMM\tSagaing Region\nMM\tShan State\nMM\tTanintharyi Region\nMM\tYangon\nMN\tArkhangai Province\nMN\tBayan-Ölgii Province\nMN\tBayankhongor\nMN\tBulgan\nMN\tCentral Aimak\nMN\tDarhan Uul\nMN\tDzabkhan\nMN\tEast Aimak\nMN\tEast Gobi Aymag\nMN\tGovi-Altai Province\nMN\tGovĭ-Sumber\nMN\tHentiy\nMN\tHovd\nMN\tKhövsgöl Province\nMN\tMiddle Govĭ\nMN\tOrhon\nMN\tSelenge Province\nMN\tSühbaatar\nMN\tUlaanbaatar\nMN\tUvs Province\nMN\tÖmnögovĭ\nMN\tÖvörhangay\nMO\t\nMP\tSaipan\nMP\tTinian\nMQ\tMartinique\nMR\t\nMR\tAdrar\nMR\tAssaba\nMR\tBrakna\nMR\tDakhlet Nouadhibou\nMR\tGorgol\nMR\tGuidimaka\nMR\tHodh Ech Chargi\nMR\tHodh El Gharbi\nMR\tInchiri\nMR\tNouakchott North\nMR\tNouakchott South\nMR\tNouakchott West\nMR\tTagant\nMR\tTiris Zemmour\nMR\tTrarza\nMS\tSaint Anthony\nMS\tSaint Peter\nMT\tAttard\nMT\tBalzan\nMT\tBirkirkara\nMT\tBirżebbuġa\nMT\tBormla\nMT\tDingli\nMT\tFloriana\nMT\tGhajnsielem\nMT\tIl-Birgu\nMT\tIl-Fontana\nMT\tIl-Gudja\nMT\tIl-Gżira\nMT\tIl-Kalkara\nMT\tIl-Marsa\nMT\tIl-Mellieħa\nMT\tIl-Mosta\nMT\tIl-Munxar\nMT\tIl-Qrendi\nMT\tIl-Ħamrun\nMT\tIn-Nadur\nMT\tIn-Naxxar\nMT\tIs-Siġġiewi\nMT\tIs-Swieqi\nMT\tIx-Xagħra\nMT\tIx-Xewkija\nMT\tIx-Xgħajra\nMT\tIż-Żebbuġ\nMT\tIż-Żejtun\nMT\tIż-Żurrieq\nMT\tKirkop\nMT\tL-Għarb\nMT\tL-Iklin\nMT\tL-Imdina\nMT\tL-Imqabba\nMT\tL-Imsida\nMT\tL-Imġarr\nMT\tLija\nMT\tLuqa\nMT\tMarsaskala\nMT\tMarsaxlokk\nMT\tMtarfa\nMT\tPaola\nMT\tPembroke\nMT\tQormi\nMT\tSafi\nMT\tSaint John\nMT\tSaint Julian\nMT\tSaint Lawrence\nMT\tSaint Lucia\nMT\tSaint Paul’s Bay\nMT\tSaint Venera\nMT\tSannat\nMT\tSenglea\nMT\tTal-Pietà\nMT\tTarxien\nMT\tTas-Sliema\nMT\tTa’ Kerċem\nMT\tTa’ Xbiex\nMT\tValletta\nMT\tVictoria\nMT\tĦal Għargħur\nMT\tĦal Għaxaq\nMT\tĦaż-Żabbar\nMT\tĦaż-Żebbuġ\nMU\tAgalega Islands\nMU\tBlack River\nMU\tCargados Carajos\nMU\tFlacq\nMU\tGrand Port\nMU\tMoka\nMU\tPamplemousses\nMU\tPlaines Wilhems\nMU\tPort Louis\nMU\tRivière du Rempart\nMU\tRodrigues\nMU\tSavanne\nMV\tBaa Atholhu\nMV\tDhaalu Atholhu\nMV\tFaadhippolhu Atoll\nMV\tGaafu Alif Atoll\nMV\tGaafu Dhaalu Atoll\nMV\tGnyaviyani Atoll\nMV\tHaa Alifu Atholhu\nMV\tHaa Dhaalu Atholhu\nMV\tKaafu Atoll\nMV\tLaamu\nMV\tMeemu Atholhu\nMV\tNoonu Atoll\nMV\tRaa Atoll\nMV\tShaviyani Atholhu\nMV\tSouthern Ari Atoll\nMV\tThaa Atholhu\nMV\tVaavu Atholhu\nMW\tCentral Region\nMW\tNorthern Region\nMW\tSouthern Region\nMX\tAguascalientes\nMX\tBaja California\nMX\tBaja California Sur\nMX\tCampeche\nMX\tChiapas\nMX\tChihuahua\nMX\tCoahuila\nMX\tColima\nMX\tDurango\nMX\tGuanajuato\nMX\tGuerrero\nMX\tHidalgo\nMX\tJalisco\nMX\tMexico City\nMX\tMichoacán\nMX\tMorelos\nMX\tMéxico\nMX\tNayarit\nMX\tNuevo León\nMX\tOaxaca\nMX\tPuebla\nMX\tQuerétaro\nMX\tQuintana Roo\nMX\tSan Luis Potosí\nMX\tSinaloa\nMX\tSonora\nMX\tTabasco\nMX\tTamaulipas\nMX\tTlaxcala\nMX\tVeracruz\nMX\tYucatán\nMX\tZacatecas\nMY\tJohor\nMY\tKedah\nMY\tKelantan\nMY\tKuala Lumpur\nMY\tLabuan\nMY\tMelaka\nMY\tNegeri Sembilan\nMY\tPahang\nMY\tPenang\nMY\tPerak\nMY\tPerlis\nMY\tPutrajaya\nMY\tSabah\nMY\tSarawak\nMY\tSelangor\nMY\tTerengganu\nMZ\tCabo Delgado Province\nMZ\tGaza Province\nMZ\tInhambane Province\nMZ\tManica\nMZ\tMaputo City\nMZ\tMaputo Province\nMZ\tNampula\nMZ\tNiassa Province\nMZ\tSofala\nMZ\tTete\nMZ\tZambezia Province\nNA\tErongo Region\nNA\tHardap Region\nNA\tKaras Region\nNA\tKavango East\nNA\tKavango West\nNA\tKhomas Region\nNA\tKunene Region\nNA\tOhangwena Region\nNA\tOmaheke Region\nNA\tOmusati Region\nNA\tOshana Region\nNA\tOshikoto Region\nNA\tOtjozondjupa Region\nNA\tZambezi Region\nNC\tLoyalty Islands\nNC\tNorth Province\nNC\tSouth Province\nNE\tAgadez\nNE\tDiffa\nNE\tDosso Region\nNE\tMaradi Region\nNE\tNiamey\nNE\tTahoua Region\nNE\tTillabéri Region\nNE\tZinder Region\nNF\t\nNG\tAbia State\nNG\tAdamawa\nNG\tAkwa Ibom State\nNG\tAnambra\nNG\tBauchi\nNG\tBayelsa State\nNG\tBenue State\nNG\tBorno State\nNG\tCross River State\nNG\tDelta\nNG\tEbonyi State\nNG\tEdo State\nNG\tEkiti State\nNG\tEnugu State\nNG\tFCT\nNG\tGombe State\nNG\tImo State\nNG\tJigawa State\nNG\tKaduna State\nNG\tKano State\nNG\tKatsina State\nNG\tKebbi\nNG\tKogi State\nNG\tKwara State\nNG\tLagos\nNG\tNasarawa State\nNG\tNiger State\nNG\tOgun State\nNG\tOndo State\nNG\tOsun State\nNG\tOyo State\nNG\tPlateau State\nNG\tRivers State\nNG\tSokoto\nNG\tTaraba State\nNG\tYobe State\nNG\tZamfara State\nNI\tBoaco Department\nNI\tCarazo Department\nNI\tChinandega Department\nNI\tChontales Department\nNI\tEstelí Department\nNI\tGranada Department\nNI\tJinotega Department\nNI\tLeón Department\nNI\tMadriz Department\nNI\tManagua Department\nNI\tMasaya Department\nNI\tMatagalpa Department\nNI\tNorth Caribbean Coast\nNI\tNueva Segovia Department\nNI\tRivas Department\nNI\tRío San Juan Department\nNI\tSouth Caribbean Coast\nNL\tDrenthe\nNL\tFlevoland\nNL\tFriesland\nNL\tGelderland\nNL\tGroningen\nNL\tLimburg\nNL\tNorth Brabant\nNL\tNorth Holland\nNL\tOverijssel\nNL\tSouth Holland\nNL\tUtrecht\nNL\tZeeland\nNO\t\nNO\tAgder\nNO\tInnlandet\nNO\tMøre og Romsdal\nNO\tNordland\nNO\tOslo\nNO\tRogaland\nNO\tTrøndelag\nNO\tVestland\nNP\tBagmati Province\nNP\tGandaki Pradesh\nNP\tKarnali Pradesh\nNP\tKoshi\nNP\tLumbini Province\nNP\tMadhesh\nNP\tSudurpashchim Pradesh\nNR\tAiwo District\nNR\tAnabar District\nNR\tAnibare District\nNR\tBaiti District\nNR\tIjuw District\nNR\tUaboe District\nNR\tYaren District\nNU\t\nNZ\tAuckland\nNZ\tBay of Plenty\nNZ\tCanterbury\nNZ\tChatham Islands\nNZ\tGisborne\nNZ\tHawke's Bay Region\nNZ\tManawatu-Wanganui\nNZ\tMarlborough\nNZ\tNelson Region\nNZ\tNorthland\nNZ\tOtago\nNZ\tSouthland\nNZ\tTaranaki Region\nNZ\tTasman District\nNZ\tWaikato Region\nNZ\tWellington Region\nNZ\tWest Coast\nOM\tAd Dakhiliyah\nOM\tAd Dhahirah\nOM\tAl Batinah North\nOM\tAl Batinah South\nOM\tAl Buraimi\nOM\tAl Wusta Governorate\nOM\tDhofar\nOM\tMusandam Governorate\nOM\tMuscat\nOM\tNortheastern Governorate\nOM\tSoutheastern Governorate\nPA\tBocas del Toro Province\nPA\tChiriquí Province\nPA\tCoclé\nPA\tColón\nPA\tDarién\nPA\tEmbera\nPA\tGuna Yala\nPA\tHerrera Province\nPA\tLos Santos Province\nPA\tNgöbe-Buglé Comarca\nPA\tPanamá\nPA\tPanamá Oeste Province\nPA\tVeraguas Province\nPE\tAmazonas\nPE\tAncash\nPE\tApurímac Department\nPE\tArequipa\nPE\tAyacucho\nPE\tCajamarca Department\nPE\tCallao\nPE\tCuzco Department\nPE\tHuancavelica\nPE\tHuánuco Department\nPE\tIca\nPE\tJunin\nPE\tLa Libertad\nPE\tLambayeque\nPE\tLima Province\nPE\tLima region\nPE\tLoreto\nPE\tMadre de Dios\nPE\tMoquegua Department\nPE\tPasco\nPE\tPiura\nPE\tPuno\nPE\tSan Martín Department\nPE\tTacna\nPE\tTumbes\nPE\tUcayali\nPF\tLeeward Islands\nPF\tMarquesas Islands\nPF\tÎles du Vent\nPG\tBougainville\nPG\tChimbu Province\nPG\tEast New Britain Province\nPG\tEast Sepik Province\nPG\tEastern Highlands Province\nPG\tEnga Province\nPG\tGulf Province\nPG\tHela Province\nPG\tJiwaka Province\nPG\tMadang Province\nPG\tManus Province\nPG\tMilne Bay Province\nPG\tMorobe Province\nPG\tNational Capital\nPG\tNew Ireland\nPG\tOro Province\nPG\tSandaun Province\nPG\tSouthern Highlands Province\nPG\tWest New Britain Province\nPG\tWestern Highlands Province\nPG\tWestern Province\nPH\tAutonomous Region in Muslim Mindanao\nPH\tBicol Region\nPH\tCagayan Valley\nPH\tCalabarzon\nPH\tCaraga\nPH\tCentral Luzon\nPH\tCentral Visayas\nPH\tCordillera\nPH\tDavao Region\nPH\tEastern Visayas\nPH\tIlocos\nPH\tMimaropa\nPH\tNational Capital Region\nPH\tNorthern Mindanao\nPH\tSoccsksargen\nPH\tWestern Visayas\nPH\tZamboanga Peninsula\nPK\tAzad Kashmir\nPK\tBalochistan\nPK\tGilgit-Baltistan\nPK\tIslamabad\nPK\tKhyber Pakhtunkhwa\nPK\tPunjab\nPK\tSindh\nPL\tGreater Poland\nPL\tKujawsko-Pomorskie\nPL\tLesser Poland\nPL\tLower Silesia\nPL\tLublin\nPL\tLubusz\nPL\tMazovia\nPL\tOpole Voivodeship\nPL\tPodlasie\nPL\tPomerania\nPL\tSilesia\nPL\tSubcarpathia\nPL\tWarmia-Masuria\nPL\tWest Pomerania\nPL\tŁódź Voivodeship\nPL\tŚwiętokrzyskie\nPM\tMiquelon-Langlade\nPM\tSaint-Pierre\nPN\t\nPR\tAdjuntas\nPR\tAguada\nPR\tAguadilla\nPR\tAguas Buenas\nPR\tAibonito\nPR\tArecibo\nPR\tArroyo\nPR\tAñasco\nPR\tBarceloneta\nPR\tBarranquitas\nPR\tBayamón\nPR\tCabo Rojo\nPR\tCaguas\nPR\tCamuy\nPR\tCanóvanas\nPR\tCarolina\nPR\tCataño\nPR\tCayey\nPR\tCeiba\nPR\tCiales\nPR\tCidra\nPR\tCoamo\nPR\tComerío\nPR\tCorozal\nPR\tCulebra\nPR\tDorado\nPR\tFajardo\nPR\tFlorida\nPR\tGuayama\nPR\tGuayanilla\nPR\tGuaynabo\nPR\tGurabo\nPR\tGuánica\nPR\tHatillo\nPR\tHormigueros\nPR\tHumacao\nPR\tIsabela\nPR\tJayuya\nPR\tJuana Díaz\nPR\tJuncos\nPR\tLajas\nPR\tLares\nPR\tLas Marías\nPR\tLas Piedras\nPR\tLoíza\nPR\tLuquillo\nPR\tManatí\nPR\tMaricao\nPR\tMaunabo\nPR\tMayagüez\nPR\tMoca\nPR\tMorovis\nPR\tNaguabo\nPR\tNaranjito\nPR\tOrocovis\nPR\tPatillas\nPR\tPeñuelas\nPR\tPonce\nPR\tQuebradillas\nPR\tRincón\nPR\tRío Grande\nPR\tSabana Grande\nPR\tSalinas\nPR\tSan Germán\nPR\tSan Juan\nPR\tSan Lorenzo\nPR\tSan Sebastián\nPR\tSanta Isabel\nPR\tToa Alta\nPR\tToa Baja\nPR\tTrujillo Alto\nPR\tUtuado\nPR\tVega Alta\nPR\tVega Baja\nPR\tVieques\nPR\tVillalba\nPR\tYabucoa\nPR\tYauco\nPS\tGaza Strip\nPS\tWest Bank\nPT\tAveiro\nPT\tAzores\nPT\tBeja\nPT\tBraga\nPT\tBragança\nPT\tCastelo Branco\nPT\tCoimbra\nPT\tFaro\nPT\tGuarda\nPT\tLeiria\nPT\tLisbon\nPT\tMadeira\nPT\tPortalegre\nPT\tPorto\nPT\tSantarém\nPT\tSetúbal\nPT\tViana do Castelo\nPT\tVila Real\nPT\tViseu\nPT\tÉvora\nPW\tAimeliik\nPW\tAirai\nPW\tAngaur\nPW\tHatohobei\nPW\tKayangel\nPW\tKoror\nPW\tMelekeok\nPW\tNgaraard\nPW\tNgarchelong\nPW\tNgardmau\nPW\tNgatpang\nPW\tNgchesar\nPW\tNgeremlengui\nPW\tNgiwal\nPW\tPeleliu\nPW\tSonsorol\nPY\tAlto Paraguay\nPY\tAlto Paraná Department\nPY\tAmambay Department\nPY\tAsuncion\nPY\tBoquerón Department\nPY\tCaaguazú Department\nPY\tCaazapá\nPY\tCanindeyú\nPY\tCentral Department\nPY\tConcepción\nPY\tCordillera Department\nPY\tGuairá\nPY\tItapúa\nPY\tMisiones Department\nPY\tParaguarí\nPY\tPresidente Hayes\nPY\tSan Pedro Department\nPY\tÑeembucú Department\nQA\tAl Daayen\nQA\tAl Khor\nQA\tAl Wakrah\nQA\tAl-Shahaniya\nQA\tBaladiyat ad Dawhah\nQA\tBaladiyat ar Rayyan\nQA\tMadinat ash Shamal\nQA\tUmm Salal\nRE\tReunion\nRO\tAlba County\nRO\tArad County\nRO\tArges\nRO\tBacău County\nRO\tBihor County\nRO\tBistrița-Năsăud County\nRO\tBotoșani County\nRO\tBrașov County\nRO\tBrăila County\nRO\tBucharest\nRO\tBuzău County\nRO\tCaraș-Severin County\nRO\tCluj County\nRO\tConstanța County\nRO\tCovasna County\nRO\tCălărași County\nRO\tDolj\nRO\tDâmbovița County\nRO\tGalați County\nRO\tGiurgiu County\nRO\tGorj County\nRO\tHarghita County\nRO\tHunedoara County\nRO\tIalomița County\nRO\tIași County\nRO\tIlfov\nRO\tMaramureş\nRO\tMehedinți County\nRO\tMureș County\nRO\tNeamț County\nRO\tOlt\nRO\tPrahova\nRO\tSatu Mare County\nRO\tSibiu County\nRO\tSuceava\nRO\tSălaj County\nRO\tTeleorman County\nRO\tTimiș County\nRO\tTulcea County\nRO\tVaslui County\nRO\tVrancea\nRO\tVâlcea County\nRS\tCentral Serbia\nRS\tVojvodina\nRU\tAdygeya Republic\nRU\tAltai\nRU\tAltai Krai\nRU\tAmur Oblast\nRU\tArkhangelskaya\nRU\tAstrakhan Oblast\nRU\tBashkortostan Republic\nRU\tBelgorod Oblast\nRU\tBryansk Oblast\nRU\tBuryatiya Republic\nRU\tChechnya\nRU\tChelyabinsk\nRU\tChukotka\nRU\tChuvash Republic\nRU\tDagestan\nRU\tIngushetiya Republic\nRU\tIrkutsk Oblast\nRU\tIvanovo Oblast\nRU\tJewish Autonomous Oblast\nRU\tKabardino-Balkariya Republic\nRU\tKaliningrad Oblast\nRU\tKalmykiya Republic\nRU\tKaluga Oblast\nRU\tKamchatka\nRU\tKarachayevo-Cherkesiya Republic\nRU\tKarelia\nRU\tKhabarovsk\nRU\tKhakasiya Republic\nRU\tKhanty-Mansia\nRU\tKirov Oblast\nRU\tKomi\nRU\tKostroma Oblast\nRU\tKrasnodar Krai\nRU\tKrasnoyarsk Krai\nRU\tKurgan Oblast\nRU\tKursk Oblast\nRU\tKuzbass\nRU\tLeningradskaya Oblast'\nRU\tLipetsk Oblast\nRU\tMagadan Oblast\nRU\tMariy-El Republic\nRU\tMordoviya Republic\nRU\tMoscow\nRU\tMoscow Oblast\nRU\tMurmansk\nRU\tNenets\nRU\tNizhny Novgorod Oblast\nRU\tNorth Ossetia–Alania\nRU\tNovgorod Oblast\nRU\tNovosibirsk Oblast\nRU\tOmsk Oblast\nRU\tOrenburg Oblast\nRU\tOryol oblast\nRU\tPenza Oblast\nRU\tPerm Krai\nRU\tPrimorye\nRU\tPskov Oblast\nRU\tRepublic of Tyva\nRU\tRostov\nRU\tRyazan Oblast\nRU\tSakha\nRU\tSakhalin Oblast\nRU\tSamara Oblast\nRU\tSaratov Oblast\nRU\tSmolensk Oblast\nRU\tSt.-Petersburg\nRU\tStavropol Kray\nRU\tSverdlovsk Oblast\nRU\tTambov Oblast\nRU\tTatarstan Republic\nRU\tTomsk Oblast\nRU\tTula Oblast\nRU\tTver Oblast\nRU\tTyumen Oblast\nRU\tUdmurtiya Republic\nRU\tUlyanovsk\nRU\tVladimir Oblast\nRU\tVolgograd Oblast\nRU\tVologda Oblast\nRU\tVoronezh Oblast\nRU\tYamalo-Nenets\nRU\tYaroslavl Oblast\nRU\tZabaykalskiy (Transbaikal) Kray\nRW\tEastern Province\nRW\tKigali\nRW\tNorthern Province\nRW\tSouthern Province\nRW\tWestern Province\nSA\t'Asir Region\nSA\tAl Bahah Region\nSA\tAl Jawf Region\nSA\tAl-Qassim Region\nSA\tEastern Province\nSA\tHa'il Region\nSA\tJazan Region\nSA\tMecca Region\nSA\tMedina Region\nSA\tNajran Region\nSA\tNorthern Borders Region\nSA\tRiyadh Region\nSA\tTabuk Region\nSB\tCentral Province\nSB\tChoiseul Province\nSB\tHoniara\nSB\tIsabel Province\nSB\tMakira-Ulawa Province\nSB\tMalaita Province\nSB\tTemotu Province\nSB\tWestern Province\nSC\tAnse Boileau\nSC\tAnse Royale\nSC\tBeau Vallon\nSC\tBel Ombre\nSC\tCascade\nSC\tLa Digue and Inner Islands\nSC\tLa Rivière Anglaise\nSC\tPort Glaud\nSC\tTakamaka\nSD\tAl Jazirah\nSD\tAl Qaḑārif\nSD\tBlue Nile\nSD\tCentral Darfur\nSD\tEastern Darfur\nSD\tKassala\nSD\tKhartoum\nSD\tNorth Kordofan\nSD\tNorthern Darfur\nSD\tNorthern State\nSD\tRed Sea\nSD\tRiver Nile\nSD\tSennar\nSD\tSouthern Darfur\nSD\tSouthern Kordofan\nSD\tWest Kordofan\nSD\tWestern Darfur\nSD\tWhite Nile\nSE\tBlekinge\nSE\tDalarna\nSE\tGotland\nSE\tGävleborg\nSE\tHalland\nSE\tJämtland\nSE\tJönköping\nSE\tKalmar\nSE\tKronoberg\nSE\tNorrbotten\nSE\tSkåne\nSE\tStockholm\nSE\tSödermanland\nSE\tUppsala\nSE\tVärmland\nSE\tVästerbotten\nSE\tVästernorrland\nSE\tVästmanland\nSE\tVästra Götaland\nSE\tÖrebro\nSE\tÖstergötland\nSG\t\nSH\tAscension\nSH\tSaint Helena\nSH\tTristan da Cunha\nSI\tDestrnik\nSI\tDobrna\nSI\tDol pri Ljubljani\nSI\tDolenjske Toplice\nSI\tGorje\nSI\tGrad\nSI\tHajdina\nSI\tKomenda\nSI\tLjubljana\nSI\tLjutomer\nSI\tLogatec\nSI\tLog–Dragomer\nSI\tLukovica\nSI\tMunicipality of Ajdovščina\nSI\tMunicipality of Ankaran\nSI\tMunicipality of Apače\nSI\tMunicipality of Beltinci\nSI\tMunicipality of Benedikt\nSI\tMunicipality of Bistrica ob Sotli\nSI\tMunicipality of Bled\nSI\tMunicipality of Bloke\nSI\tMunicipality of Bohinj\nSI\tMunicipality of Borovnica\nSI\tMunicipality of Bovec\nSI\tMunicipality of Braslovče\nSI\tMunicipality of Brda\nSI\tMunicipality of Brezovica\nSI\tMunicipality of Brežice\nSI\tMunicipality of Cankova\nSI\tMunicipality of Cerklje na Gorenjskem\nSI\tMunicipality of Cerknica\nSI\tMunicipality of Cerkno\nSI\tMunicipality of Cerkvenjak\nSI\tMunicipality of Cirkulane\nSI\tMunicipality of Divača\nSI\tMunicipality of Dobje\nSI\tMunicipality of Dobrepolje\nSI\tMunicipality of Dobrova–Polhov Gradec\nSI\tMunicipality of Dobrovnik\nSI\tMunicipality of Domžale\nSI\tMunicipality of Dornava\nSI\tMunicipality of Dravograd\nSI\tMunicipality of Duplek\nSI\tMunicipality of Gorenja Vas–Poljane\nSI\tMunicipality of Gorišnica\nSI\tMunicipality of Gornja Radgona\nSI\tMunicipality of Gornji Grad\nSI\tMunicipality of Gornji Petrovci\nSI\tMunicipality of Grosuplje\nSI\tMunicipality of Hodoš\nSI\tMunicipality of Horjul\nSI\tMunicipality of Hoče–Slivnica\nSI\tMunicipality of Hrastnik\nSI\tMunicipality of Hrpelje–Kozina\nSI\tMunicipality of Idrija\nSI\tMunicipality of Ig\nSI\tMunicipality of Ilirska Bistrica\nSI\tMunicipality of Ivančna Gorica\nSI\tMunicipality of Izola\nSI\tMunicipality of Jesenice\nSI\tMunicipality of Jezersko\nSI\tMunicipality of Juršinci\nSI\tMunicipality of Kamnik\nSI\tMunicipality of Kanal ob Soči\nSI\tMunicipality of Kidričevo\nSI\tMunicipality of Kobarid\nSI\tMunicipality of Kobilje\nSI\tMunicipality of Komen\nSI\tMunicipality of Kostanjevica na Krki\nSI\tMunicipality of Kostel\nSI\tMunicipality of Kozje\nSI\tMunicipality of Kočevje\nSI\tMunicipality of Kranjska Gora\nSI\tMunicipality of Križevci\nSI\tMunicipality of Kungota\nSI\tMunicipality of Kuzma\nSI\tMunicipality of Laško\nSI\tMunicipality of Lenart\nSI\tMunicipality of Lendava\nSI\tMunicipality of Litija\nSI\tMunicipality of Ljubno\nSI\tMunicipality of Lovrenc na Pohorju\nSI\tMunicipality of Loška Dolina\nSI\tMunicipality of Loški Potok\nSI\tMunicipality of Luče\nSI\tMunicipality of Majšperk\nSI\tMunicipality of Makole\nSI\tMunicipality of Markovci\nSI\tMunicipality of Medvode\nSI\tMunicipality of Mengeš\nSI\tMunicipality of Metlika\nSI\tMunicipality of Mežica\nSI\tMunicipality of Miklavž na Dravskem Polju\nSI\tMunicipality of Miren–Kostanjevica\nSI\tMunicipality of Mirna\nSI\tMunicipality of Mirna Peč\nSI\tMunicipality of Mislinja\nSI\tMunicipality of Mokronog–Trebelno\nSI\tMunicipality of Moravske Toplice\nSI\tMunicipality of Moravče\nSI\tMunicipality of Mozirje\nSI\tMunicipality of Muta\nSI\tMunicipality of Naklo\nSI\tMunicipality of Nazarje\nSI\tMunicipality of Odranci\nSI\tMunicipality of Oplotnica\nSI\tMunicipality of Ormož\nSI\tMunicipality of Osilnica\nSI\tMunicipality of Piran\nSI\tMunicipality of Podlehnik\nSI\tMunicipality of Podvelka\nSI\tMunicipality of Podčetrtek\nSI\tMunicipality of Poljčane\nSI\tMunicipality of Polzela\nSI\tMunicipality of Postojna\nSI\tMunicipality of Preddvor\nSI\tMunicipality of Prevalje\nSI\tMunicipality of Puconci\nSI\tMunicipality of Radenci\nSI\tMunicipality of Radeče\nSI\tMunicipality of Radlje ob Dravi\nSI\tMunicipality of Ravne na Koroškem\nSI\tMunicipality of Razkrižje\nSI\tMunicipality of Rače–Fram\nSI\tMunicipality of Renče–Vogrsko\nSI\tMunicipality of Rečica ob Savinji\nSI\tMunicipality of Ribnica\nSI\tMunicipality of Ribnica na Pohorju\nSI\tMunicipality of Rogatec\nSI\tMunicipality of Rogaška Slatina\nSI\tMunicipality of Rogašovci\nSI\tMunicipality of Ruše\nSI\tMunicipality of Selnica ob Dravi\nSI\tMunicipality of Semič\nSI\tMunicipality of Sevnica\nSI\tMunicipality of Sežana\nSI\tMunicipality of Slovenska Bistrica\nSI\tMunicipality of Slovenske Konjice\nSI\tMunicipality of Sodražica\nSI\tMunicipality of Solčava\nSI\tMunicipality of Središče ob Dravi\nSI\tMunicipality of Starše\nSI\tMunicipality of Straža\nSI\tMunicipality of Sveta Ana\nSI\tMunicipality of Sveta Trojica v Slovenskih Goricah\nSI\tMunicipality of Sveti Andraž v Slovenskih Goricah\nSI\tMunicipality of Sveti Jurij ob Ščavnici\nSI\tMunicipality of Sveti Jurij v Slovenskih Goricah\nSI\tMunicipality of Sveti Tomaž\nSI\tMunicipality of Tabor\nSI\tMunicipality of Tišina\nSI\tMunicipality of Tolmin\nSI\tMunicipality of Trbovlje\nSI\tMunicipality of Trnovska Vas\nSI\tMunicipality of Trzin\nSI\tMunicipality of Tržič\nSI\tMunicipality of Turnišče\nSI\tMunicipality of Velika Polana\nSI\tMunicipality of Velike Lašče\nSI\tMunicipality of Veržej\nSI\tMunicipality of Videm\nSI\tMunicipality of Vipava\nSI\tMunicipality of Vitanje\nSI\tMunicipality of Vodice\nSI\tMunicipality of Vojnik\nSI\tMunicipality of Vransko\nSI\tMunicipality of Vrhnika\nSI\tMunicipality of Vuzenica\nSI\tMunicipality of Zagorje ob Savi\nSI\tMunicipality of Zavrč\nSI\tMunicipality of Zreče\nSI\tMunicipality of Črenšovci\nSI\tMunicipality of Črna na Koroškem\nSI\tMunicipality of Črnomelj\nSI\tMunicipality of Šalovci\nSI\tMunicipality of Šempeter–Vrtojba\nSI\tMunicipality of Šentilj\nSI\tMunicipality of Šentjernej\nSI\tMunicipality of Šentrupert\nSI\tMunicipality of Šenčur\nSI\tMunicipality of Škocjan\nSI\tMunicipality of Škofljica\nSI\tMunicipality of Šmarje pri Jelšah\nSI\tMunicipality of Šmarješke Toplice\nSI\tMunicipality of Šmartno ob Paki\nSI\tMunicipality of Šmartno pri Litiji\nSI\tMunicipality of Šoštanj\nSI\tMunicipality of Štore\nSI\tMunicipality of Žalec\nSI\tMunicipality of Železniki\nSI\tMunicipality of Žetale\nSI\tMunicipality of Žiri\nSI\tMunicipality of Žirovnica\nSI\tMunicipality of Žužemberk\nSI\tPesnica\nSI\tPivka\nSI\tPrebold\nSI\tRadovljica\nSI\tSentjur\nSI\tTrebnje\nSI\tUrban Municipality of Celje\nSI\tUrban Municipality of Koper\nSI\tUrban Municipality of Kranj\nSI\tUrban Municipality of Krško\nSI\tUrban Municipality of Maribor\nSI\tUrban Municipality of Murska Sobota\nSI\tUrban Municipality of Nova Gorica\nSI\tUrban Municipality of Novo Mesto\nSI\tUrban Municipality of Ptuj\nSI\tUrban Municipality of Slovenj Gradec\nSI\tUrban Municipality of Velenje\nSI\tŠkofja Loka\nSJ\tJan Mayen\nSJ\tSvalbard\nSK\tBanská Bystrica Region\nSK\tBratislava Region\nSK\tKošice Region\nSK\tNitra Region\nSK\tPrešov Region\nSK\tTrenčín Region\nSK\tTrnava Region\nSK\tŽilina Region\nSL\tEastern Province\nSL\tNorth West\nSL\tNorthern Province\nSL\tSouthern Province\nSL\tWestern Area\nSM\tAcquaviva\nSM\tBorgo Maggiore\nSM\tChiesanuova\nSM\tDomagnano\nSM\tFaetano\nSM\tFiorentino\nSM\tMontegiardino\nSM\tSan Marino\nSM\tSerravalle\nSN\tDakar\nSN\tDiourbel Region\nSN\tFatick\nSN\tKaffrine\nSN\tKaolack\nSN\tKedougou\nSN\tKolda\nSN\tLouga\nSN\tMatam\nSN\tSaint-Louis\nSN\tSédhiou\nSN\tTambacounda\nSN\tThies\nSN\tZiguinchor\nSO\tAwdal\nSO\tBakool\nSO\tBanaadir\nSO\tBari\nSO\tBay\nSO\tGalguduud\nSO\tGedo\nSO\tHiiraan\nSO\tLower Juba\nSO\tLower Shabeelle\nSO\tMiddle Juba\nSO\tMiddle Shabele\nSO\tMudug\nSO\tNugaal\nSO\tSanaag\nSO\tSool\nSO\tTogdheer\nSO\tWoqooyi Galbeed\nSR\tBrokopondo District\nSR\tCommewijne District\nSR\tCoronie District\nSR\tMarowijne District\nSR\tNickerie District\nSR\tPara District\nSR\tParamaribo District\nSR\tSaramacca District\nSR\tWanica District\nSS\t\nST\tPríncipe\nST\tSão Tomé Island\nSV\tAhuachapan\nSV\tCabanas\nSV\tChalatenango Department\nSV\tCuscatlan\nSV\tLa Libertad Department\nSV\tLa Paz Department\nSV\tLa Union\nSV\tMorazan\nSV\tSan Miguel Department\nSV\tSan Salvador Department\nSV\tSan Vicente Department\nSV\tSanta Ana Department\nSV\tSonsonate Department\nSV\tUsulutan\nSX\t\nSY\tAl-Hasakah\nSY\tAleppo\nSY\tDamascus Governorate\nSY\tDaraa\nSY\tDeir ez-Zor\nSY\tHama\nSY\tHoms\nSY\tIdlib\nSY\tLatakia\nSY\tQuneitra\nSY\tRaqqa\nSY\tRif-dimashq\nSY\tSuwayda\nSY\tTartus\nSZ\tHhohho Region\nSZ\tLubombo Region\nSZ\tManzini Region\nSZ\tShiselweni\nTC\t\nTD\tBarh el Gazel\nTD\tBatha\nTD\tBorkou\nTD\tChari-Baguirmi\nTD\tEnnedi-Est\nTD\tEnnedi-Ouest\nTD\tGuéra\nTD\tHadjer-Lamis\nTD\tKanem\nTD\tLac\nTD\tLogone Occidental\nTD\tLogone Oriental\nTD\tMandoul\nTD\tMayo-Kebbi Est\nTD\tMayo-Kebbi Ouest\nTD\tMoyen-Chari\nTD\tN’Djaména\nTD\tOuadaï\nTD\tSalamat\nTD\tSila\nTD\tTandjilé\nTD\tTibesti\nTD\tWadi Fira\nTF\tKerguelen\nTG\tCentrale\nTG\tKara\nTG\tMaritime\nTG\tPlateaux\nTG\tSavanes\nTH\tAmnat Charoen\nTH\tAng Thong\nTH\tBangkok\nTH\tBueng Kan\nTH\tBuriram\nTH\tChachoengsao\nTH\tChai Nat\nTH\tChaiyaphum\nTH\tChanthaburi\nTH\tChiang Mai\nTH\tChiang Rai\nTH\tChon Buri\nTH\tChumphon\nTH\tKalasin\nTH\tKamphaeng Phet\nTH\tKanchanaburi\nTH\tKhon Kaen\nTH\tKrabi\nTH\tLampang\nTH\tLamphun\nTH\tLoei\nTH\tLopburi\nTH\tMae Hong Son\nTH\tMaha Sarakham\nTH\tMukdahan\nTH\tNakhon Nayok\nTH\tNakhon Pathom\nTH\tNakhon Phanom\nTH\tNakhon Ratchasima\nTH\tNakhon Sawan\nTH\tNakhon Si Thammarat\nTH\tNan\nTH\tNarathiwat\nTH\tNong Bua Lamphu\nTH\tNong Khai\nTH\tNonthaburi\nTH\tPathum Thani\nTH\tPattani\nTH\tPhang Nga\nTH\tPhatthalung\nTH\tPhayao\nTH\tPhetchabun\nTH\tPhetchaburi\nTH\tPhichit\nTH\tPhitsanulok\nTH\tPhra Nakhon Si Ayutthaya\nTH\tPhrae\nTH\tPhuket\nTH\tPrachin Buri\nTH\tPrachuap Khiri Khan\nTH\tRanong province\nTH\tRatchaburi\nTH\tRayong\nTH\tRoi Et\nTH\tSa Kaeo\nTH\tSakon Nakhon\nTH\tSamut Prakan\nTH\tSamut Sakhon\nTH\tSamut Songkhram\nTH\tSaraburi\nTH\tSatun\nTH\tSi Sa Ket\nTH\tSing Buri\nTH\tSongkhla\nTH\tSukhothai\nTH\tSuphan Buri\nTH\tSurat Thani\nTH\tSurin\nTH\tTak\nTH\tTrang\nTH\tTrat\nTH\tUbon Ratchathani\nTH\tUdon Thani\nTH\tUthai Thani\nTH\tUttaradit\nTH\tYala\nTH\tYasothon\nTJ\tDushanbe\nTJ\tGorno-Badakhshan\nTJ\tKhatlon Province\nTJ\tRepublican Subordination\nTJ\tSughd\nTK\tAtafu\nTK\tFakaofo\nTK\tNukunonu\nTL\tAileu\nTL\tAinaro\nTL\tBaucau\nTL\tBobonaro\nTL\tCova Lima\nTL\tDili Municipality\nTL\tLautém\nTL\tLiquiçá\nTL\tManatuto\nTL\tManufahi\nTL\tOecusse\nTL\tViqueque\nTM\tAhal\nTM\tAshgabat\nTM\tBalkan\nTM\tDasoguz\nTM\tLebap\nTM\tMary\nTN\tAriana Governorate\nTN\tBen Arous Governorate\nTN\tBizerte Governorate\nTN\tBéja Governorate\nTN\tGabès Governorate\nTN\tGafsa\nTN\tJendouba Governorate\nTN\tKairouan\nTN\tKasserine Governorate\nTN\tKebili Governorate\nTN\tKef Governorate\nTN\tMahdia Governorate\nTN\tManouba\nTN\tMedenine Governorate\nTN\tMonastir Governorate\nTN\tNabeul Governorate\nTN\tSfax Governorate\nTN\tSidi Bouzid Governorate\nTN\tSiliana Governorate\nTN\tSousse Governorate\nTN\tTataouine\nTN\tTozeur Governorate\nTN\tTunis Governorate\nTN\tZaghouan Governorate\nTO\tHaapai\nTO\tNiuas\nTO\tTongatapu\nTO\tVavau\nTO\tʻEua\nTR\tAdana\nTR\tAdıyaman Province\nTR\tAfyonkarahisar Province\nTR\tAksaray\nTR\tAmasya\nTR\tAnkara\nTR\tAntalya\nTR\tArdahan\nTR\tArtvin\nTR\tAydın\nTR\tAğrı\nTR\tBalıkesir\nTR\tBartın\nTR\tBatman\nTR\tBayburt Province\nTR\tBilecik\nTR\tBingöl\nTR\tBitlis\nTR\tBolu\nTR\tBurdur\nTR\tBursa Province\nTR\tCanakkale\nTR\tDenizli\nTR\tDiyarbakır Province\nTR\tDüzce\nTR\tEdirne\nTR\tElazığ\nTR\tErzincan\nTR\tErzurum\nTR\tEskişehir\nTR\tGaziantep\nTR\tGiresun\nTR\tGümüşhane Province\nTR\tHakkâri\nTR\tHatay\nTR\tIsparta\nTR\tIstanbul\nTR\tIğdır\nTR\tKahramanmaraş\nTR\tKarabük Province\nTR\tKaraman\nTR\tKars Province\nTR\tKastamonu\nTR\tKayseri\nTR\tKilis\nTR\tKocaeli\nTR\tKonya\nTR\tKütahya\nTR\tKırklareli\nTR\tKırıkkale\nTR\tKırşehir\nTR\tMalatya\nTR\tManisa\nTR\tMardin\nTR\tMersin\nTR\tMuğla\nTR\tMuş\nTR\tNevşehir Province\nTR\tNiğde Province\nTR\tOrdu\nTR\tOsmaniye\nTR\tRize Province\nTR\tSakarya\nTR\tSamsun\nTR\tSiirt\nTR\tSinop\nTR\tSivas\nTR\tTekirdağ\nTR\tTokat Province\nTR\tTrabzon\nTR\tTunceli\nTR\tUşak\nTR\tVan\nTR\tYalova\nTR\tYozgat\nTR\tZonguldak Province\nTR\tÇankırı\nTR\tÇorum\nTR\tİzmir Province\nTR\tŞanlıurfa\nTR\tŞırnak\nTT\tBorough of Arima\nTT\tChaguanas\nTT\tCouva-Tabaquite-Talparo\nTT\tDiego Martin Regional Corporation\nTT\tMayaro\nTT\tPenal/Debe\nTT\tPoint Fortin\nTT\tPort of Spain\nTT\tPrinces Town\nTT\tSan Fernando\nTT\tSan Juan/Laventille\nTT\tSangre Grande Regional Corporation\nTT\tSiparia Regional Corporation\nTT\tTobago\nTT\tTunapuna/Piarco\nTV\tFunafuti\nTV\tNanumanga\nTV\tNiutao\nTV\tNui\nTV\tNukufetau\nTV\tVaitupu\nTW\tFukien\nTW\tTaipei\nTW\tTaiwan\nTW\tTakao\nTZ\tArusha\nTZ\tDar es Salaam Region\nTZ\tDodoma\nTZ\tGeita\nTZ\tIringa\nTZ\tKagera\nTZ\tKatavi\nTZ\tKigoma\nTZ\tKilimanjaro\nTZ\tLindi\nTZ\tManyara\nTZ\tMara\nTZ\tMbeya\nTZ\tMorogoro\nTZ\tMtwara\nTZ\tMwanza\nTZ\tNjombe\nTZ\tPemba North\nTZ\tPemba South\nTZ\tPwani\nTZ\tRukwa\nTZ\tRuvuma\nTZ\tShinyanga\nTZ\tSimiyu\nTZ\tSingida\nTZ\tSongwe\nTZ\tTabora\nTZ\tTanga\nTZ\tZanzibar Central/South\nTZ\tZanzibar North\nTZ\tZanzibar Urban/West\nUA\tCherkasy\nUA\tChernihiv Oblast\nUA\tChernivtsi\nUA\tCrimea\nUA\tDnipropetrovsk\nUA\tDonetsk\nUA\tIvano-Frankivsk\nUA\tKharkiv\nUA\tKherson\nUA\tKhmelnytskyi\nUA\tKirovohrad\nUA\tKyiv City\nUA\tKyiv Oblast\nUA\tLuhansk\nUA\tLviv\nUA\tMykolaiv\nUA\tOdesa\nUA\tPoltava\nUA\tRivne Oblast\nUA\tSevastopol City\nUA\tSumy\nUA\tTernopil\nUA\tVinnytsia\nUA\tVolyn\nUA\tZakarpattia\nUA\tZaporizhzhia\nUA\tZhytomyr Oblast\nUG\tCentral Region\nUG\tEastern Region\nUG\tNorthern Region\nUG\tWestern Region\nUS\tAlabama\nUS\tAlaska\nUS\tArizona\nUS\tArkansas\nUS\tCalifornia\nUS\tColorado\nUS\tConnecticut\nUS\tDelaware\nUS\tDistrict of Columbia\nUS\tFlorida\nUS\tGeorgia\nUS\tHawaii\nUS\tIdaho\nUS\tIllinois\nUS\tIndiana\nUS\tIowa\nUS\tKansas\nUS\tKentucky\nUS\tLouisiana\nUS\tMaine\nUS\tMaryland\nUS\tMassachusetts\nUS\tMichigan\nUS\tMinnesota\nUS\tMississippi\nUS\tMissouri\nUS\tMontana\nUS\tNebraska\nUS\tNevada\nUS\tNew Hampshire\nUS\tNew Jersey\nUS\tNew Mexico\nUS\tNew York\nUS\tNorth Carolina\nUS\tNorth Dakota\nUS\tOhio\nUS\tOklahoma\nUS\tOregon\nUS\tPennsylvania\nUS\tRhode Island\nUS\tSouth Carolina\nUS\tSouth Dakota\nUS\tTennessee\nUS\tTexas\nUS\tUtah\nUS\tVermont\nUS\tVirginia\nUS\tWashington\nUS\tWest Virginia\nUS\tWisconsin\nUS\tWyoming\nUY\tArtigas\nUY\tCanelones\nUY\tCerro Largo\nUY\tColonia\nUY\tDurazno Department\nUY\tFlores Department\nUY\tFlorida\nUY\tLavalleja\nUY\tMaldonado\nUY\tMontevideo Department\nUY\tPaysandú Department\nUY\tRivera Department\nUY\tRocha Department\nUY\tRío Negro Department\nUY\tSalto Department\nUY\tSan José Department\nUY\tSoriano\nUY\tTacuarembó Department\nUY\tTreinta y Tres Department\nUZ\tAndijan Region\nUZ\tBukhara\nUZ\tFergana\nUZ\tJizzakh Region\nUZ\tKarakalpakstan\nUZ\tNamangan\nUZ\tNavoiy Region\nUZ\tQashqadaryo\nUZ\tSamarqand Region\nUZ\tSirdaryo Region\nUZ\tSurxondaryo Region\nUZ\tTashkent\nUZ\tTashkent Region\nUZ\tXorazm Region\nVA\t\nVC\tCharlotte Parish\nVC\tGrenadines Parish\nVC\tSaint Andrew Parish\nVC\tSaint David Parish\nVC\tSaint George Parish\nVC\tSaint Patrick Parish\nVE\tAmazonas\nVE\tAnzoátegui\nVE\tApure\nVE\tAragua\nVE\tBarinas\nVE\tBolívar\nVE\tCarabobo\nVE\tCojedes\nVE\tDelta Amacuro\nVE\tDistrito Federal\nVE\tFalcón\nVE\tGuárico\nVE\tLara\nVE\tMiranda\nVE\tMonagas\nVE\tMérida\nVE\tNueva Esparta\nVE\tPortuguesa\nVE\tSucre\nVE\tTrujillo\nVE\tTáchira\nVE\tVargas\nVE\tYaracuy\nVE\tZulia\nVG\t\nVI\tSaint Croix Island\nVI\tSaint John Island\nVI\tSaint Thomas Island\nVN\t\nVN\tAn Giang\nVN\tBac Ninh\nVN\tCan Tho City\nVN\tDak Lak\nVN\tDong Nai\nVN\tDong Thap\nVN\tGia Lai\nVN\tHanoi\nVN\tHo Chi Minh City (HCMC)\nVN\tHưng Yên Province\nVN\tLam Dong\nVN\tLạng Sơn Province\nVN\tNinh Binh\nVN\tQuang Tri\nVN\tTay Ninh\nVN\tThừa Thiên Huế Province\nVN\tVinh Long\nVU\tMalampa\nVU\tPenama\nVU\tSanma\nVU\tShefa\nVU\tTafea\nVU\tTorba\nWF\tAlo\nWF\tSigave\nWF\tUvea\nWS\tA'ana\nWS\tAiga-i-le-Tai\nWS\tAtua\nWS\tFa'asaleleaga\nWS\tGaga'ifomauga\nWS\tPalauli\nWS\tSatupa'itea\nWS\tTuamasaga\nWS\tVa'a-o-Fonoti\nWS\tVaisigano\nXK\tFerizaj\nXK\tGjakova\nXK\tGjilan\nXK\tMitrovica\nXK\tPec\nXK\tPristina\nXK\tPrizren\nYE\tAbyan Governorate\nYE\tAden\nYE\tAl Bayda\nYE\tAl Hudaydah\nYE\tAl Jawf\nYE\tAl Mahrah Governorate\nYE\tAl Mahwit Governorate\nYE\tAḑ Ḑāli‘\nYE\tDhamār\nYE\tIbb Governorate\nYE\tLaḩij\nYE\tMa’rib\nYE\tMuhafazat Hadramaout\nYE\tOmran\nYE\tRaymah\nYE\tSanaa Governorate\nYE\tShabwah\nYE\tTa‘izz\nYE\tŞa‘dah\nYE\tḨajjah\nYT\tAcoua\nYT\tBandraboua\nYT\tBandrele\nYT\tBouéni\nYT\tChiconi\nYT\tChirongui\nYT\tDembeni\nYT\tDzaoudzi\nYT\tKani-Kéli\nYT\tKoungou\nYT\tM'Tsangamouji\nYT\tMamoudzou\nYT\tMtsamboro\nYT\tOuangani\nYT\tPamandzi\nYT\tSada\nYT\tTsingoni\nZA\tEastern Cape\nZA\tFree State\nZA\tGauteng\nZA\tKwaZulu-Natal\nZA\tLimpopo\nZA\tMpumalanga\nZA\tNorth West\nZA\tNorthern Cape\nZA\tWestern Cape\nZM\tCentral Province\nZM\tCopperbelt\nZM\tEastern Province\nZM\tLuapula Province\nZM\tLusaka Province\nZM\tMuchinga\nZM\tNorth-Western\nZM\tNorthern Province\nZM\tSouthern Province\nZM\tWestern Province\nZW\tBulawayo\nZW\tHarare\nZW\tManicaland\nZW\tMashonaland Central\nZW\tMashonaland East Province\nZW\tMashonaland West\nZW\tMasvingo Province\nZW\tMatabeleland North\nZW\tMatabeleland South Province\nZW\tMidlands Province";
+
+/** `name<TAB>latitude × 100<TAB>longitude × 100<TAB>region line` per line. */
+export const GAZETTEER_PLACES = "Andorra la Vella\t4251\t152\t0\nCanillo\t4257\t160\t1\nEncamp\t4253\t158\t2\nles Escaldes\t4251\t153\t3\nla Massana\t4254\t151\t4\nOrdino\t4256\t153\t5\nSant Julià de Lòria\t4246\t149\t6\nZayed City\t2365\t5371\t7\nAr Ruways\t2411\t5273\t7\nAl Ain City\t2419\t5576\t7\nBani Yas City\t2431\t5463\t7\nMusaffah\t2436\t5448\t7\nAl Shamkhah City\t2439\t5471\t7\nKhalifah A City\t2443\t5461\t7\nAbu Dhabi\t2445\t5440\t7\nAjman City\t2540\t5548\t8\nDubai\t2508\t5531\t9\nAl Fujairah City\t2512\t5634\t10\nReef Al Fujairah City\t2514\t5625\t10\nDibba Al-Fujairah\t2559\t5626\t10\nDibba Al-Hisn\t2562\t5627\t10\nRas Al Khaimah City\t2579\t5594\t11\nAdh Dhayd\t2529\t5588\t12\nKhawr Fakkān\t2533\t5634\t12\nSharjah\t2534\t5541\t12\nUmm Al Quwain City\t2556\t5556\t13\nFayzabad\t3712\t7058\t14\nQala i Naw\t3499\t6313\t15\nGhormach\t3573\t6378\t15\nPul-e Khumrī\t3594\t6872\t16\nNahrīn\t3606\t6913\t16\nBaghlān\t3613\t6871\t16\nKhulm\t3670\t6770\t17\nMazār-e Sharīf\t3671\t6711\t17\nBalkh\t3676\t6690\t17\nBāmyān\t3482\t6783\t18\nNīlī\t3372\t6613\t19\nFarah\t3237\t6212\t20\nMaymana\t3592\t6478\t21\nAndkhōy\t3695\t6512\t21\nGhazni\t3355\t6842\t22\nShahrak\t3411\t6431\t23\nFayrōz Kōh\t3452\t6525\t23\nLashkar Gāh\t3159\t6437\t24\nGereshk\t3182\t6457\t24\nKushk\t3330\t6195\t25\nShīnḏanḏ\t3330\t6215\t25\nHerāt\t3435\t6220\t25\nKarukh\t3448\t6259\t25\nKafir Qala\t3467\t6107\t25\nShibirghān\t3667\t6575\t26\nQarqīn\t3742\t6604\t26\nKabul\t3453\t6917\t27\nPaghmān\t3459\t6895\t27\nKandahār\t3161\t6571\t28\nSidqābād\t3502\t6935\t29\nKhōst\t3334\t6992\t30\nAsadābād\t3487\t7115\t31\nĀsmār\t3503\t7136\t31\nKhanabad\t3668\t6912\t32\nKunduz\t3673\t6886\t32\nQarāwul\t3722\t6878\t32\nMehtar Lām\t3467\t7021\t33\nBaraki Barak\t3397\t6895\t34\nPul-e ‘Alam\t3400\t6902\t34\nMaydanshakhr\t3440\t6887\t35\nMarkaz-e Woluswalī-ye Āchīn\t3413\t7071\t36\nJalālābād\t3443\t7045\t36\nZaranj\t3096\t6186\t37\nKhāsh\t3153\t6279\t37\nPārūn\t3542\t7092\t38\nTarinkot\t3263\t6588\t39\nGardez\t3360\t6923\t40\nSharan\t3318\t6873\t41\nBāzārak\t3531\t6952\t42\nCharikar\t3501\t6917\t43\nJabal os Saraj\t3512\t6924\t43\nAībak\t3626\t6802\t44\nSang-e Chārak\t3585\t6644\t45\nSar-e Pul\t3622\t6593\t45\nTaloqan\t3674\t6953\t46\nĀrt Khwājah\t3709\t6948\t46\nRustāq\t3713\t6983\t46\nQalāt\t3211\t6691\t47\nCodrington\t1763\t-6183\t48\nPiggotts\t1712\t-6180\t49\nSaint John’s\t1712\t-6184\t50\nBolands\t1707\t-6187\t51\nFalmouth\t1703\t-6178\t52\nParham\t1710\t-6177\t53\nBlowing Point Village\t1818\t-6309\t54\nEast End Village\t1823\t-6300\t55\nGeorge Hill\t1820\t-6307\t56\nIsland Harbour\t1826\t-6301\t57\nNorth Hill Village\t1821\t-6308\t58\nNorth Side\t1823\t-6304\t59\nSandy Ground Village\t1820\t-6309\t60\nSandy Hill\t1822\t-6301\t61\nSouth Hill Village\t1819\t-6309\t62\nStoney Ground\t1822\t-6305\t63\nFarrington\t1822\t-6302\t64\nThe Quarter\t1821\t-6304\t65\nThe Valley\t1822\t-6306\t66\nWest End Village\t1817\t-6315\t67\nBerat\t4071\t1995\t68\nKuçovë\t4080\t1992\t68\nBurrel\t4161\t2001\t69\nPeshkopi\t4169\t2043\t69\nDurrës\t4132\t1945\t70\nKrujë\t4151\t1979\t70\nElbasan\t4111\t2008\t71\nPatos Fshat\t4064\t1965\t72\nPatos\t4068\t1962\t72\nFier\t4072\t1956\t72\nLushnjë\t4094\t1970\t72\nGjirokastër\t4008\t2014\t73\nKorçë\t4062\t2078\t74\nPogradec\t4090\t2065\t74\nKukës\t4208\t2042\t75\nLaç\t4164\t1971\t76\nLezhë\t4178\t1964\t76\nShkodër\t4207\t1951\t77\nKavajë\t4119\t1956\t78\nTirana\t4133\t1982\t78\nSarandë\t3988\t2000\t79\nVlorë\t4047\t1948\t79\nAshtarak\t4030\t4436\t80\nArarat\t3983\t4471\t81\nArtashat\t3996\t4454\t81\nMasis\t4007\t4442\t81\nArmavir\t4015\t4404\t82\nVagharshapat\t4017\t4429\t82\nGavarr\t4035\t4512\t83\nSevan\t4055\t4494\t83\nAbovyan\t4027\t4463\t84\nHrazdan\t4050\t4477\t84\nVanadzor\t4080\t4449\t85\nSpitak\t4083\t4427\t85\nStep’anavan\t4101\t4439\t85\nGyumri\t4079\t4385\t86\nKapan\t3921\t4641\t87\nHats’avan\t3946\t4597\t87\nGoris\t3951\t4634\t87\nIjevan\t4088\t4515\t88\nYeghegnadzor\t3976\t4533\t89\nYerevan\t4018\t4451\t90\nMenongue\t-1466\t1769\t91\nCaxito\t-858\t1366\t92\nBenguela\t-1258\t1341\t93\nCatumbela\t-1243\t1355\t93\nLobito\t-1236\t1354\t93\nCuito\t-1238\t1693\t94\nCatabola\t-1215\t1728\t94\nCamacupa\t-1202\t1748\t94\nCabinda\t-555\t1220\t95\nN’dalatando\t-930\t1491\t96\nOndjiva\t-1707\t1573\t97\nLongonjo\t-1291\t1525\t98\nCaála\t-1285\t1556\t98\nHuambo\t-1278\t1574\t98\nLubango\t-1492\t1349\t99\nSumbe\t-1121\t1384\t100\nLuanda\t-884\t1323\t101\nLucapa\t-842\t2074\t102\nSaurimo\t-966\t2039\t103\nMalanje\t-954\t1634\t104\nLuena\t-1178\t1992\t105\nLuau\t-1071\t2222\t105\nNamibe\t-1520\t1215\t106\nUíge\t-761\t1506\t107\nN'zeto\t-723\t1287\t108\nMbanza Kongo\t-627\t1424\t108\nSoio\t-613\t1237\t108\nPunta Alta\t-3888\t-6207\t109\nBahía Blanca\t-3872\t-6227\t109\nNecochea\t-3855\t-5874\t109\nTres Arroyos\t-3837\t-6028\t109\nMar del Plata\t-3800\t-5756\t109\nBalcarce\t-3785\t-5826\t109\nCoronel Suárez\t-3745\t-6193\t109\nTandil\t-3732\t-5913\t109\nVilla Gesell\t-3726\t-5697\t109\nOlavarría\t-3689\t-6032\t109\nAzul\t-3678\t-5986\t109\nDolores\t-3631\t-5768\t109\nNueve de Julio\t-3544\t-6088\t109\nVeinticinco de Mayo\t-3543\t-6017\t109\nGeneral Villegas\t-3503\t-6301\t109\nLa Plata\t-3492\t-5795\t109\nChivilcoy\t-3490\t-6002\t109\nLincoln\t-3487\t-6153\t109\nAdrogué\t-3480\t-5838\t109\nBerazategui\t-3477\t-5821\t109\nPontevedra\t-3475\t-5870\t109\nQuilmes\t-3473\t-5826\t109\nMerlo\t-3467\t-5873\t109\nMercedes\t-3465\t-5943\t109\nMorón\t-3465\t-5862\t109\nChacabuco\t-3464\t-6047\t109\nHurlingham\t-3459\t-5863\t109\nJunín\t-3458\t-6094\t109\nLuján\t-3457\t-5910\t109\nMuñiz\t-3456\t-5871\t109\nSan Miguel\t-3454\t-5871\t109\nJosé C. Paz\t-3452\t-5877\t109\nVilla de Mayo\t-3451\t-5868\t109\nLos Polvorines\t-3450\t-5871\t109\nDon Torcuato\t-3449\t-5863\t109\nTortuguitas\t-3448\t-5875\t109\nIngeniero Pablo Nogués\t-3448\t-5871\t109\nSan Isidro\t-3447\t-5853\t109\nPilar\t-3446\t-5891\t109\nGeneral Pacheco\t-3445\t-5864\t109\nTigre\t-3443\t-5858\t109\nCampana\t-3416\t-5896\t109\nZárate\t-3410\t-5903\t109\nPergamino\t-3389\t-6057\t109\nSan Pedro\t-3368\t-5967\t109\nSan Nicolás de los Arroyos\t-3333\t-6021\t109\nBuenos Aires\t-3461\t-5838\t110\nSan Fernando del Valle de Catamarca\t-2847\t-6579\t111\nVilla Ángela\t-2757\t-6072\t112\nBarranqueras\t-2748\t-5894\t112\nResistencia\t-2746\t-5898\t112\nFontana\t-2742\t-5902\t112\nGeneral Pinedo\t-2732\t-6128\t112\nCharata\t-2721\t-6119\t112\nLas Breñas\t-2709\t-6108\t112\nMachagai\t-2693\t-6005\t112\nQuitilipi\t-2687\t-6022\t112\nPresidencia Roque Sáenz Peña\t-2679\t-6044\t112\nGeneral José de San Martín\t-2654\t-5934\t112\nTres Isletas\t-2634\t-6043\t112\nCastelli\t-2595\t-6062\t112\nComodoro Rivadavia\t-4586\t-6750\t113\nRawson\t-4330\t-6510\t113\nTrelew\t-4325\t-6531\t113\nEsquel\t-4291\t-7132\t113\nPuerto Madryn\t-4277\t-6504\t113\nLaboulaye\t-3413\t-6339\t114\nRío Cuarto\t-3313\t-6435\t114\nMarcos Juárez\t-3270\t-6211\t114\nBell Ville\t-3263\t-6269\t114\nVilla Nueva\t-3243\t-6325\t114\nVilla María\t-3241\t-6324\t114\nEmbalse\t-3218\t-6442\t114\nRío Tercero\t-3217\t-6411\t114\nVilla Dolores\t-3195\t-6519\t114\nAlta Gracia\t-3165\t-6443\t114\nRío Segundo\t-3165\t-6391\t114\nSan Francisco\t-3143\t-6208\t114\nVilla Carlos Paz\t-3142\t-6450\t114\nArroyito\t-3142\t-6305\t114\nCórdoba\t-3141\t-6418\t114\nLa Calera\t-3134\t-6434\t114\nVilla Allende\t-3129\t-6430\t114\nCosquín\t-3125\t-6447\t114\nUnquillo\t-3123\t-6432\t114\nRío Ceballos\t-3116\t-6432\t114\nLa Falda\t-3109\t-6449\t114\nJesús María\t-3098\t-6409\t114\nCruz del Eje\t-3073\t-6480\t114\nMorteros\t-3071\t-6200\t114\nDeán Funes\t-3042\t-6435\t114\nMonte Caseros\t-3025\t-5764\t115\nEsquina\t-3001\t-5953\t115\nCuruzú Cuatiá\t-2979\t-5805\t115\nPaso de los Libres\t-2971\t-5709\t115\nMercedes\t-2918\t-5808\t115\nGoya\t-2914\t-5926\t115\nSanto Tomé\t-2855\t-5604\t115\nSaladas\t-2825\t-5863\t115\nSan Lorenzo\t-2813\t-5877\t115\nGobernador Virasora\t-2805\t-5603\t115\nSan Luis del Palmar\t-2751\t-5855\t115\nCorrientes\t-2747\t-5883\t115\nGualeguay\t-3314\t-5931\t116\nGualeguaychú\t-3301\t-5852\t116\nVictoria\t-3262\t-6015\t116\nConcepción del Uruguay\t-3248\t-5823\t116\nDiamante\t-3207\t-6064\t116\nCrespo\t-3203\t-6031\t116\nVillaguay\t-3187\t-5903\t116\nParaná\t-3173\t-6053\t116\nConcordia\t-3139\t-5802\t116\nFederal\t-3095\t-5878\t116\nSanta Elena\t-3094\t-5979\t116\nChajarí\t-3075\t-5798\t116\nLa Paz\t-3074\t-5965\t116\nFormosa\t-2618\t-5817\t117\nPirané\t-2573\t-5911\t117\nClorinda\t-2528\t-5772\t117\nPalpalá\t-2426\t-6521\t118\nSan Pedro de Jujuy\t-2423\t-6487\t118\nSan Salvador de Jujuy\t-2419\t-6530\t118\nLibertador General San Martín\t-2381\t-6479\t118\nSanta Rosa\t-3662\t-6428\t119\nGeneral Pico\t-3566\t-6376\t119\nLa Rioja\t-2941\t-6685\t120\nChilecito\t-2916\t-6750\t120\nSan Rafael\t-3462\t-6833\t121\nSan Martín\t-3308\t-6847\t121\nMendoza\t-3289\t-6883\t121\nOberá\t-2749\t-5512\t122\nGarupá\t-2748\t-5583\t122\nPosadas\t-2737\t-5590\t122\nEl Soberbio\t-2730\t-5420\t122\nAristóbulo del Valle\t-2710\t-5490\t122\nJardín América\t-2704\t-5523\t122\nPuerto Rico\t-2680\t-5502\t122\nSan Vicente\t-2662\t-5413\t122\nSan Pedro\t-2662\t-5411\t122\nMontecarlo\t-2657\t-5476\t122\nPuerto Eldorado\t-2641\t-5469\t122\nPuerto Esperanza\t-2602\t-5461\t122\nWanda\t-2597\t-5456\t122\nPuerto Iguazú\t-2560\t-5457\t122\nSan Martín de los Andes\t-4016\t-7135\t123\nPlottier\t-3897\t-6823\t123\nNeuquén\t-3895\t-6806\t123\nCutral-Có\t-3893\t-6923\t123\nZapala\t-3890\t-7005\t123\nCentenario\t-3883\t-6813\t123\nEl Bolsón\t-4196\t-7153\t124\nSan Carlos de Bariloche\t-4115\t-7131\t124\nViedma\t-4081\t-6300\t124\nSan Antonio Oeste\t-4073\t-6495\t124\nVilla Regina\t-3910\t-6707\t124\nGeneral Roca\t-3903\t-6758\t124\nAllen\t-3898\t-6783\t124\nCipolletti\t-3893\t-6799\t124\nCinco Saltos\t-3882\t-6806\t124\nCatriel\t-3788\t-6780\t124\nJoaquín V. González\t-2511\t-6413\t125\nSalta\t-2479\t-6541\t125\nEmbarcación\t-2321\t-6410\t125\nSan Ramón de la Nueva Orán\t-2314\t-6432\t125\nGeneral Enrique Mosconi\t-2260\t-6381\t125\nTartagal\t-2252\t-6380\t125\nPocito\t-3168\t-6858\t126\nCaucete\t-3165\t-6828\t126\nSan Juan\t-3154\t-6854\t126\nSanta Lucía\t-3154\t-6850\t126\nVilla Paula de Sarmiento\t-3149\t-6854\t126\nChimbas\t-3148\t-6853\t126\nAlbardón\t-3144\t-6853\t126\nSan José de Jáchal\t-3024\t-6875\t126\nVilla Mercedes\t-3368\t-6546\t127\nSan Luis\t-3330\t-6634\t127\nLa Punta\t-3318\t-6631\t127\nRío Gallegos\t-5162\t-6922\t128\nCaleta Olivia\t-4644\t-6753\t128\nRufino\t-3427\t-6271\t129\nVenado Tuerto\t-3375\t-6197\t129\nFirmat\t-3346\t-6148\t129\nVilla Constitución\t-3323\t-6033\t129\nArroyo Seco\t-3315\t-6051\t129\nCasilda\t-3304\t-6117\t129\nGobernador Gálvez\t-3303\t-6064\t129\nPérez\t-3300\t-6077\t129\nRosario\t-3295\t-6064\t129\nCarcarañá\t-3286\t-6115\t129\nGranadero Baigorria\t-3286\t-6072\t129\nCañada de Gómez\t-3282\t-6139\t129\nCapitán Bermúdez\t-3282\t-6072\t129\nGálvez\t-3203\t-6122\t129\nCoronda\t-3197\t-6092\t129\nSan Jorge\t-3190\t-6186\t129\nSanto Tomé\t-3166\t-6077\t129\nSanta Fe\t-3165\t-6071\t129\nEsperanza\t-3145\t-6093\t129\nRafaela\t-3125\t-6149\t129\nSunchales\t-3094\t-6156\t129\nSan Justo\t-3079\t-6059\t129\nSan Javier\t-3058\t-5993\t129\nVera\t-2946\t-6021\t129\nReconquista\t-2915\t-5965\t129\nAvellaneda\t-2912\t-5966\t129\nVilla Ocampo\t-2849\t-5936\t129\nAñatuya\t-2846\t-6283\t130\nSantiago del Estero\t-2780\t-6426\t130\nTermas de Río Hondo\t-2749\t-6486\t130\nUshuaia\t-5481\t-6832\t131\nRío Grande\t-5379\t-6771\t131\nAguilares\t-2743\t-6561\t132\nMonteros\t-2717\t-6550\t132\nFamaillá\t-2705\t-6540\t132\nBella Vista\t-2703\t-6530\t132\nYerba Buena\t-2682\t-6532\t132\nSan Miguel de Tucumán\t-2682\t-6522\t132\nAlderetes\t-2682\t-6513\t132\nTafí Viejo\t-2673\t-6526\t132\nPago Pago\t-1428\t-17070\t133\nTa`ū\t-1423\t-16951\t134\nTaulaga\t-1106\t-17109\t135\nEisenstadt\t4785\t1652\t136\nVillach\t4661\t1386\t137\nKlagenfurt am Wörthersee\t4662\t1431\t137\nWiener Neustadt\t4780\t1623\t138\nBaden\t4801\t1623\t138\nMödling\t4809\t1629\t138\nAmstetten\t4812\t1487\t138\nPerchtoldsdorf\t4812\t1627\t138\nSankt Pölten\t4820\t1563\t138\nKlosterneuburg\t4831\t1633\t138\nStockerau\t4838\t1622\t138\nSalzburg\t4780\t1304\t139\nStraßgang\t4703\t1540\t140\nGraz\t4707\t1545\t140\nInnsbruck\t4726\t1139\t141\nTelfs\t4731\t1107\t141\nSteyr\t4804\t1442\t142\nWels\t4817\t1403\t142\nLinz\t4831\t1429\t142\nVienna\t4821\t1637\t143\nFeldkirch\t4723\t960\t144\nHohenems\t4737\t968\t144\nDornbirn\t4741\t974\t144\nLustenau\t4743\t966\t144\nBregenz\t4750\t975\t144\nCanberra\t-3528\t14913\t145\nGoulburn\t-3475\t14972\t146\nWollongong\t-3442\t15089\t146\nGriffith\t-3429\t14605\t146\nLiverpool\t-3392\t15093\t146\nSydney\t-3387\t15121\t146\nParramatta\t-3382\t15100\t146\nHornsby\t-3370\t15110\t146\nBathurst\t-3342\t14958\t146\nOrange\t-3328\t14910\t146\nNewcastle\t-3293\t15178\t146\nCessnock\t-3283\t15136\t146\nMaitland\t-3273\t15156\t146\nDubbo\t-3224\t14860\t146\nBroken Hill\t-3197\t14145\t146\nTaree\t-3191\t15245\t146\nPort Macquarie\t-3143\t15291\t146\nTamworth\t-3109\t15093\t146\nArmidale\t-3050\t15167\t146\nCoffs Harbour\t-3030\t15311\t146\nAlice Springs\t-2370\t13388\t147\nPalmerston\t-1249\t13098\t147\nDarwin\t-1246\t13084\t147\nGold Coast\t-2800\t15343\t148\nLogan City\t-2764\t15311\t148\nToowoomba\t-2756\t15195\t148\nCapalaba\t-2754\t15320\t148\nBrisbane\t-2747\t15303\t148\nNarangba\t-2720\t15296\t148\nMaryborough\t-2554\t15270\t148\nHervey Bay\t-2529\t15277\t148\nBundaberg\t-2487\t15235\t148\nGladstone\t-2385\t15126\t148\nRockhampton\t-2338\t15051\t148\nMackay\t-2115\t14917\t148\nMount Isa\t-2073\t13950\t148\nTownsville\t-1927\t14681\t148\nCairns\t-1692\t14577\t148\nMount Gambier\t-3783\t14078\t149\nAdelaide\t-3493\t13860\t149\nAdelaide Hills\t-3491\t13871\t149\nGawler\t-3460\t13875\t149\nHobart\t-4288\t14733\t150\nLaunceston\t-4144\t14713\t150\nBurnie\t-4106\t14590\t150\nWarrnambool\t-3838\t14249\t151\nTraralgon\t-3820\t14654\t151\nWarragul\t-3816\t14593\t151\nGeelong\t-3815\t14436\t151\nFrankston East\t-3813\t14513\t151\nMelbourne\t-3781\t14496\t151\nBalwyn North\t-3779\t14509\t151\nSt Albans\t-3774\t14480\t151\nBallarat\t-3757\t14385\t151\nBendigo\t-3676\t14428\t151\nShepparton\t-3638\t14540\t151\nWangaratta\t-3636\t14632\t151\nWodonga\t-3612\t14689\t151\nMildura\t-3419\t14216\t151\nAlbany\t-3503\t11788\t152\nBusselton\t-3365\t11535\t152\nBunbury\t-3333\t11564\t152\nMandurah\t-3253\t11572\t152\nRockingham\t-3228\t11573\t152\nKwinana\t-3223\t11578\t152\nPerth\t-3195\t11586\t152\nGeraldton\t-2878\t11461\t152\nSan Nicolas\t1244\t-6991\t153\nOranjestad\t1252\t-7003\t153\nTanki Leendert\t1254\t-7002\t153\nMariehamn\t6010\t1993\t154\nKhirdalan\t4045\t4976\t155\nAghsu\t4057\t4840\t156\nAstara\t3846\t4887\t157\nAgdzhabedy\t4005\t4746\t158\nAğdam\t3999\t4693\t159\nAğdaş\t4065\t4747\t160\nAghstafa\t4112\t4545\t161\nLökbatan\t4033\t4973\t162\nHövsan\t4037\t5009\t162\nBaku\t4038\t4989\t162\nQaraçuxur\t4040\t4997\t162\nBakıxanov\t4042\t4997\t162\nAmirdzhan\t4043\t4998\t162\nYeni Suraxanı\t4043\t5004\t162\nBilajari\t4044\t4981\t162\nSabunçu\t4044\t4995\t162\nBiny Selo\t4045\t5009\t162\nZabrat\t4048\t4994\t162\nMardakan\t4049\t5014\t162\nBuzovna\t4052\t5011\t162\nMaştağa\t4053\t5001\t162\nBelokany\t4173\t4640\t163\nBarda\t4038\t4713\t164\nBeylagan\t3978\t4762\t165\nPushkino\t3946\t4855\t166\nYukhary-Dashkesan\t4052\t4608\t167\nFizuli\t3960\t4715\t168\nKyadabek\t4057\t4581\t169\nGoranboy\t4061\t4679\t170\nYelenendorf\t4059\t4632\t171\nGeoktschai\t4065\t4774\t172\nGanja\t4068\t4636\t173\nHacıqabul\t4004\t4894\t174\nİsmayıllı\t4078\t4815\t175\nJebrail\t3940\t4703\t176\nJalilabad\t3921\t4849\t177\nKerbakhiar\t4011\t4604\t178\nXocalı\t3991\t4679\t179\nNovyy Karanlug\t3979\t4711\t180\nKyurdarmir\t4034\t4816\t181\nLaçın\t3960\t4655\t182\nLerik\t3877\t4841\t183\nLankaran\t3875\t4885\t184\nMasally\t3904\t4867\t185\nMingelchaur\t4076\t4706\t186\nNaftalan\t4051\t4682\t187\nNakhchivan\t3921\t4541\t188\nNeftçala\t3938\t4925\t189\nOğuz\t4107\t4747\t190\nQutqashen\t4098\t4785\t191\nQax\t4142\t4692\t192\nQazax\t4109\t4537\t193\nQobustan\t4053\t4893\t194\nQuba\t4136\t4851\t195\nQubadlı\t3934\t4658\t196\nQusar\t4143\t4843\t197\nƏhmədbəyli\t3988\t4839\t198\nSaatlı\t3993\t4837\t198\nSabirabad\t4001\t4848\t199\nSalyan\t3960\t4898\t200\nSamux\t4076\t4641\t201\nDivichibazar\t4120\t4899\t202\nSheki\t4119\t4717\t203\nŞirvan\t3994\t4893\t204\nShushi\t3976\t4675\t205\nKyzyl-Burun\t4108\t4912\t206\nSumqayıt\t4059\t4967\t207\nHacı Zeynalabdin\t4062\t4956\t207\nTerter\t4034\t4693\t208\nTovuz\t4099\t4563\t209\nUjar\t4052\t4765\t210\nXankandi\t3982\t4675\t211\nXaçmaz\t4146\t4881\t212\nKhyzy\t4091\t4907\t213\nYardımlı\t3891\t4824\t214\nYevlakh\t4062\t4715\t215\nZangilan\t3908\t4666\t216\nZaqatala\t4163\t4664\t217\nZardob\t4022\t4771\t218\nImishli\t3987\t4806\t219\nShamakhi\t4063\t4864\t220\nShamkhor\t4083\t4602\t221\nBrčko\t4487\t1881\t222\nMostar\t4334\t1781\t223\nKonjic\t4365\t1796\t223\nGoražde\t4367\t1898\t223\nSarajevo\t4385\t1836\t223\nVisoko\t4399\t1818\t223\nBugojno\t4406\t1745\t223\nZenica\t4420\t1790\t223\nTravnik\t4423\t1767\t223\nTuzla\t4454\t1867\t223\nGračanica\t4470\t1831\t223\nBihać\t4482\t1587\t223\nBosanska Krupa\t4488\t1615\t223\nGradačac\t4488\t1843\t223\nCazin\t4497\t1594\t223\nVelika Kladuša\t4518\t1581\t223\nTrebinje\t4271\t1834\t224\nDoboj\t4473\t1809\t224\nBijeljina\t4476\t1921\t224\nBanja Luka\t4478\t1719\t224\nPrijedor\t4498\t1671\t224\nOistins\t1307\t-5955\t225\nGreenland\t1326\t-5958\t226\nHoletown\t1319\t-5964\t227\nFour Cross Roads\t1317\t-5952\t228\nBathsheba\t1321\t-5953\t229\nChecker Hall\t1328\t-5964\t230\nBridgetown\t1311\t-5962\t231\nSpeightstown\t1325\t-5964\t232\nCrane\t1310\t-5945\t233\nWelchman Hall\t1319\t-5958\t234\nMathba\t2229\t8996\t235\nLālmohan\t2234\t9074\t235\nBhāndāria\t2249\t9006\t235\nBurhānuddin\t2250\t9072\t235\nPirojpur\t2258\t8998\t235\nNālchiti\t2264\t9027\t235\nBhola\t2269\t9064\t235\nBarisāl\t2270\t9037\t235\nMehendiganj\t2282\t9053\t235\nGaurnadi\t2297\t9022\t235\nTeknāf\t2086\t9230\t236\nCox’s Bāzār\t2144\t9201\t236\nSātkania\t2208\t9205\t236\nBāndarban\t2220\t9222\t236\nPatiya\t2230\t9198\t236\nChittagong\t2234\t9183\t236\nSandwīp\t2251\t9145\t236\nRaojān\t2254\t9192\t236\nBibir Hat\t2268\t9179\t236\nManikchari\t2284\t9184\t236\nLakshmīpur\t2294\t9083\t236\nFeni\t2301\t9140\t236\nChhāgalnāiya\t2302\t9151\t236\nRāipur\t2304\t9077\t236\nRāmganj\t2310\t9085\t236\nKhagrachhari\t2311\t9197\t236\nLākshām\t2324\t9112\t236\nHājīganj\t2325\t9086\t236\nComilla\t2346\t9119\t236\nNabīnagar\t2389\t9097\t236\nTungipāra\t2290\t8990\t237\nMādārīpur\t2317\t9021\t237\nPālang\t2322\t9035\t237\nChar Bhadrāsan\t2331\t9023\t237\nDohār\t2359\t9014\t237\nFarīdpur\t2361\t8984\t237\nNārāyanganj\t2361\t9050\t237\nSonārgaon\t2365\t9062\t237\nDhaka\t2371\t9041\t237\nAzimpur\t2373\t9039\t237\nPaltan\t2374\t9041\t237\nTungi\t2389\t9040\t237\nNarsingdi\t2392\t9072\t237\nBhairab Bāzār\t2405\t9098\t237\nNāgarpur\t2406\t8988\t237\nMirzāpur\t2410\t9010\t237\nBājitpur\t2422\t9095\t237\nTāngāil\t2425\t8992\t237\nSakhipur\t2432\t9017\t237\nKishorganj\t2444\t9078\t237\nUttar Char Fasson\t2223\t9071\t238\nSarankhola\t2231\t8979\t238\nMorrelgonj\t2246\t8986\t238\nBagerhat\t2266\t8979\t238\nSātkhira\t2271\t8907\t238\nPhultala\t2272\t8951\t238\nKhulna\t2281\t8956\t238\nKesabpur\t2291\t8922\t238\nBhātpāra Abhaynagar\t2301\t8944\t238\nKālia\t2304\t8963\t238\nJhingergācha\t2311\t8909\t238\nNarail\t2316\t8950\t238\nJessore\t2317\t8921\t238\nKālīganj\t2341\t8914\t238\nKushtia\t2390\t8912\t238\nBherāmāra\t2402\t8899\t238\nGafargaon\t2443\t9056\t239\nSarishābāri\t2475\t8983\t239\nMuktāgācha\t2476\t9026\t239\nMymensingh\t2476\t9041\t239\nNetrakona\t2488\t9073\t239\nJamālpur\t2492\t8995\t239\nSherpur\t2502\t9002\t239\nPābna\t2401\t8924\t240\nBera\t2408\t8963\t240\nIshurdi\t2413\t8907\t240\nShāhzādpur\t2418\t8960\t240\nRājshāhi\t2437\t8860\t240\nPuthia\t2437\t8883\t240\nNatore\t2441\t8899\t240\nSirajganj\t2446\t8971\t240\nNawābganj\t2459\t8827\t240\nShibganj\t2469\t8816\t240\nPār Naogaon\t2480\t8895\t240\nBogra\t2485\t8937\t240\nShibganj\t2500\t8932\t240\nJoypur Hāt\t2510\t8903\t240\nSaidpur\t2578\t8889\t240\nChilmāri\t2556\t8967\t241\nDinājpur\t2563\t8864\t241\nParbatipur\t2566\t8893\t241\nBadarganj\t2567\t8905\t241\nRangpur\t2575\t8925\t241\nPīrgaaj\t2586\t8836\t241\nLalmonirhat\t2592\t8945\t241\nNageswari\t2597\t8969\t241\nThākurgaon\t2603\t8847\t241\nPanchagarh\t2633\t8856\t241\nHabiganj\t2438\t9141\t242\nMaulavi Bāzār\t2449\t9177\t242\nBaniachang\t2452\t9136\t242\nSylhet\t2490\t9187\t242\nChhātak\t2504\t9167\t242\nBrussels\t5085\t435\t243\nHalle\t5073\t423\t244\nRonse\t5075\t360\t244\nSint-Genesius-Rode\t5075\t436\t244\nGeraardsbergen\t5077\t388\t244\nBeersel\t5077\t430\t244\nOverijse\t5077\t453\t244\nWervik\t5078\t304\t244\nSint-Pieters-Leeuw\t5078\t424\t244\nTongeren\t5078\t546\t244\nMenen\t5080\t312\t244\nWevelgem\t5080\t317\t244\nZwevegem\t5081\t334\t244\nTienen\t5081\t494\t244\nRiemst\t5081\t560\t244\nTervuren\t5082\t451\t244\nSint-Truiden\t5082\t519\t244\nKortrijk\t5083\t326\t244\nNinove\t5083\t403\t244\nPoperinge\t5085\t273\t244\nIeper\t5085\t289\t244\nHarelbeke\t5085\t331\t244\nOudenaarde\t5085\t361\t244\nDilbeek\t5085\t426\t244\nZottegem\t5087\t381\t244\nBilzen\t5087\t552\t244\nZaventem\t5088\t447\t244\nLeuven\t5088\t470\t244\nWaregem\t5089\t343\t244\nHerzele\t5089\t389\t244\nDenderleeuw\t5089\t408\t244\nKortenberg\t5089\t454\t244\nLanaken\t5089\t565\t244\nIzegem\t5091\t321\t244\nHaaltert\t5091\t400\t244\nAsse\t5091\t420\t244\nHerent\t5091\t467\t244\nDiepenbeek\t5091\t542\t244\nGrimbergen\t5093\t437\t244\nVilvoorde\t5093\t443\t244\nHasselt\t5093\t534\t244\nAalst\t5094\t404\t244\nMeise\t5094\t433\t244\nRoeselare\t5095\t312\t244\nRotselaar\t5095\t472\t244\nLede\t5097\t399\t244\nGenk\t5097\t550\t244\nMaasmechelen\t5097\t569\t244\nDeinze\t5098\t353\t244\nZemst\t5098\t446\t244\nMerelbeke\t5099\t375\t244\nAarschot\t5099\t484\t244\nDiest\t5099\t505\t244\nZonhoven\t5099\t537\t244\nTielt\t5100\t333\t244\nLebbeke\t5100\t413\t244\nLonderzeel\t5100\t430\t244\nWetteren\t5101\t388\t244\nDiksmuide\t5103\t286\t244\nDendermonde\t5103\t410\t244\nMechelen\t5103\t448\t244\nHouthalen\t5103\t537\t244\nHeusden\t5104\t528\t244\nGent\t5105\t372\t244\nPutte\t5105\t463\t244\nBeringen\t5105\t523\t244\nDestelbergen\t5106\t380\t244\nWillebroek\t5106\t436\t244\nHelchteren\t5106\t538\t244\nTorhout\t5107\t310\t244\nZele\t5107\t404\t244\nPuurs\t5107\t429\t244\nSint-Katelijne-Waver\t5107\t453\t244\nTessenderlo\t5107\t509\t244\nHeist-op-den-Berg\t5108\t473\t244\nAalter\t5109\t345\t244\nBoom\t5109\t437\t244\nWesterlo\t5109\t492\t244\nLochristi\t5110\t383\t244\nLokeren\t5110\t399\t244\nHamme\t5110\t414\t244\nBornem\t5110\t424\t244\nDuffel\t5110\t451\t244\nMaaseik\t5110\t578\t244\nEvergem\t5111\t371\t244\nKoksijde\t5112\t264\t244\nTemse\t5113\t421\t244\nKontich\t5113\t445\t244\nLier\t5113\t457\t244\nPeer\t5113\t546\t244\nZedelgem\t5114\t314\t244\nOostkamp\t5115\t323\t244\nEdegem\t5116\t445\t244\nNijlen\t5116\t467\t244\nSint-Niklaas\t5117\t414\t244\nMortsel\t5117\t445\t244\nGeel\t5117\t499\t244\nBalen\t5117\t517\t244\nHoboken\t5118\t435\t244\nHerentals\t5118\t483\t244\nMiddelkerke\t5119\t282\t244\nEeklo\t5119\t356\t244\nRanst\t5119\t457\t244\nMol\t5119\t512\t244\nBrugge\t5121\t322\t244\nSint-Kruis\t5121\t325\t244\nMaldegem\t5121\t345\t244\nStekene\t5121\t404\t244\nBeveren\t5121\t426\t244\nOstend\t5122\t293\t244\nSint-Gillis-Waas\t5122\t412\t244\nZwijndrecht\t5122\t433\t244\nAntwerpen\t5122\t440\t244\nDeurne\t5122\t447\t244\nLommel\t5123\t531\t244\nNeerpelt\t5123\t544\t244\nSchilde\t5124\t458\t244\nLille\t5124\t482\t244\nKasterlee\t5124\t497\t244\nSchoten\t5125\t450\t244\nZoersel\t5127\t471\t244\nBrasschaat\t5129\t449\t244\nBlankenberge\t5131\t313\t244\nKapellen\t5131\t444\t244\nBeerse\t5132\t485\t244\nTurnhout\t5132\t494\t244\nStabroek\t5133\t437\t244\nKnokke-Heist\t5135\t327\t244\nBrecht\t5135\t464\t244\nKalmthout\t5138\t448\t244\nWuustwezel\t5139\t460\t244\nHoogstraten\t5140\t476\t244\nEssen\t5147\t447\t244\nArlon\t4968\t582\t245\nMarche-en-Famenne\t5023\t534\t245\nWalcourt\t5025\t444\t245\nDour\t5040\t378\t245\nChâtelet\t5040\t453\t245\nColfontaine\t5041\t386\t245\nFrameries\t5041\t390\t245\nBinche\t5041\t416\t245\nCharleroi\t5041\t444\t245\nBoussu\t5043\t379\t245\nQuaregnon\t5044\t387\t245\nSaint-Ghislain\t5045\t382\t245\nMons\t5045\t395\t245\nMorlanwelz-Mariemont\t5046\t425\t245\nCourcelles\t5046\t437\t245\nNamur\t5047\t487\t245\nFleurus\t5048\t455\t245\nLa Louvière\t5049\t419\t245\nAndenne\t5049\t510\t245\nManage\t5050\t424\t245\nPéruwelz\t5051\t359\t245\nPont-à-Celles\t5051\t437\t245\nHuy\t5052\t523\t245\nGembloux\t5056\t470\t245\nSoignies\t5058\t407\t245\nSeraing\t5058\t550\t245\nChaudfontaine\t5058\t563\t245\nVerviers\t5059\t586\t245\nNivelles\t5060\t433\t245\nFlémalle-Haute\t5060\t544\t245\nTournai\t5061\t339\t245\nBraine-le-Comte\t5061\t415\t245\nSoumagne\t5061\t575\t245\nFléron\t5062\t568\t245\nAth\t5063\t378\t245\nSaint-Nicolas\t5063\t553\t245\nLiège\t5063\t557\t245\nEupen\t5063\t604\t245\nHerve\t5064\t579\t245\nAns\t5066\t552\t245\nHerstal\t5066\t562\t245\nLouvain-la-Neuve\t5067\t461\t245\nBraine-l'Alleud\t5068\t437\t245\nTubize\t5069\t420\t245\nLessines\t5071\t384\t245\nWaterloo\t5071\t440\t245\nRixensart\t5071\t453\t245\nOupeye\t5071\t565\t245\nWavre\t5072\t460\t245\nMouscron\t5074\t321\t245\nVisé\t5074\t570\t245\nDédougou\t1246\t-346\t246\nNouna\t1273\t-386\t246\nTougan\t1307\t-307\t246\nBanfora\t1063\t-477\t247\nOuagadougou\t1237\t-153\t248\nTenkodogo\t1178\t-37\t249\nGarango\t1180\t-55\t249\nKoupéla\t1218\t-35\t249\nBoulsa\t1267\t-57\t250\nKaya\t1309\t-108\t250\nKongoussi\t1333\t-153\t250\nLéo\t1110\t-211\t251\nKokologo\t1219\t-188\t251\nKoudougou\t1225\t-236\t251\nRéo\t1232\t-247\t251\nPô\t1117\t-114\t252\nManga\t1166\t-107\t252\nKombissiri\t1207\t-134\t252\nFada N'gourma\t1206\t36\t253\nDiapaga\t1207\t179\t253\nBobo-Dioulasso\t1118\t-430\t254\nHoundé\t1150\t-352\t254\nYako\t1296\t-226\t255\nGourcy\t1321\t-236\t255\nOuahigouya\t1358\t-242\t255\nTitao\t1377\t-207\t255\nZorgo\t1225\t-62\t256\nZiniaré\t1258\t-130\t256\nBoussé\t1266\t-190\t256\nDori\t1404\t-3\t257\nDjibo\t1410\t-163\t257\nPetrich\t4140\t2321\t258\nSandanski\t4157\t2328\t258\nGotse Delchev\t4157\t2373\t258\nBlagoevgrad\t4202\t2310\t258\nBurgas\t4251\t2747\t259\nKarnobat\t4265\t2698\t259\nAytos\t4270\t2725\t259\nDobrich\t4357\t2783\t260\nGabrovo\t4287\t2533\t261\nSevlievo\t4303\t2511\t261\nSvilengrad\t4177\t2620\t262\nHaskovo\t4193\t2556\t262\nHarmanli\t4193\t2590\t262\nDimitrovgrad\t4205\t2560\t262\nKardzhali\t4165\t2537\t263\nDupnitsa\t4227\t2312\t264\nKyustendil\t4228\t2269\t264\nTroyan\t4289\t2472\t265\nLovech\t4313\t2472\t265\nBerkovitsa\t4324\t2313\t266\nMontana\t4341\t2323\t266\nLom\t4382\t2324\t266\nVelingrad\t4203\t2399\t267\nPeshtera\t4203\t2430\t267\nPazardzhik\t4220\t2433\t267\nPanagyurishte\t4250\t2419\t267\nPernik\t4260\t2303\t268\nPleven\t4342\t2462\t269\nAsenovgrad\t4202\t2487\t270\nParvomay\t4210\t2522\t270\nPlovdiv\t4215\t2475\t270\nRakovski\t4227\t2494\t270\nKarlovo\t4263\t2480\t270\nRazgrad\t4353\t2652\t271\nRuse\t4385\t2595\t272\nShumen\t4327\t2692\t273\nSilistra\t4412\t2726\t274\nNova Zagora\t4248\t2602\t275\nSliven\t4269\t2633\t275\nSmolyan\t4157\t2471\t276\nSamokov\t4234\t2355\t277\nBotevgrad\t4290\t2378\t277\nSofia\t4270\t2332\t278\nChirpan\t4220\t2533\t279\nStara Zagora\t4243\t2564\t279\nKazanlak\t4262\t2540\t279\nTargovishte\t4325\t2657\t280\nPopovo\t4335\t2623\t280\nVarna\t4322\t2792\t281\nVeliko Tŭrnovo\t4308\t2563\t282\nGorna Oryahovitsa\t4313\t2570\t282\nSvishtov\t4362\t2535\t282\nVidin\t4399\t2288\t283\nVratsa\t4321\t2356\t284\nYambol\t4248\t2650\t285\nSitrah\t2615\t5062\t286\nJidd Ḩafş\t2622\t5055\t286\nManama\t2623\t5059\t286\nAl Muharraq\t2626\t5061\t287\nMadīnat Ḩamad\t2612\t5051\t288\nDār Kulayb\t2607\t5050\t289\nAr Rifā‘\t2613\t5056\t289\nMadīnat ‘Īsá\t2617\t5055\t289\nMwaro\t-351\t2970\t290\nKaruzi\t-310\t3016\t290\nBubanza\t-308\t2939\t291\nBujumbura\t-338\t2936\t292\nIsale\t-335\t2948\t293\nBururi\t-395\t2962\t294\nCankuzo\t-322\t3055\t295\nCibitoke\t-289\t2912\t296\nGitega\t-343\t2992\t297\nKayanza\t-292\t2963\t298\nKirundo\t-258\t3010\t299\nMakamba\t-413\t2980\t300\nMuramvya\t-327\t2961\t301\nMuyinga\t-285\t3034\t302\nNgozi\t-291\t2983\t303\nRumonge\t-397\t2944\t304\nRutana\t-393\t2999\t305\nRuyigi\t-348\t3025\t306\nKandi\t1113\t294\t307\nBanikoara\t1130\t244\t307\nMalanville\t1187\t338\t307\nNatitingou\t1030\t138\t308\nTanguiéta\t1062\t127\t308\nOuidah\t636\t209\t309\nAbomey-Calavi\t645\t236\t309\nAllada\t667\t215\t309\nTchaourou\t889\t260\t310\nParakou\t934\t263\t310\nNikki\t994\t321\t310\nBembèrèkè\t1023\t266\t310\nComé\t641\t188\t311\nDassa-Zoumé\t775\t218\t311\nSavalou\t793\t198\t311\nSavé\t803\t249\t311\nBassila\t901\t167\t312\nDjougou\t971\t167\t312\nDogbo\t680\t178\t313\nAplahoué\t693\t168\t313\nCotonou\t637\t242\t314\nLokossa\t664\t172\t315\nPorto-Novo\t650\t260\t316\nSakété\t674\t266\t317\nPobé\t698\t266\t317\nKétou\t736\t260\t317\nAbomey\t718\t199\t318\nBohicon\t718\t207\t318\nCové\t722\t234\t318\nGustavia\t1790\t-6285\t319\nHamilton\t3229\t-6478\t320\nKuala Belait\t458\t11423\t321\nSeria\t461\t11432\t321\nBandar Seri Begawan\t489\t11494\t322\nBangar\t471\t11507\t323\nTutong\t480\t11465\t324\nSan Borja\t-1485\t-6675\t325\nTrinidad\t-1483\t-6490\t325\nRiberalta\t-1101\t-6606\t325\nGuayaramerín\t-1083\t-6536\t325\nSucre\t-1903\t-6526\t326\nMizque\t-1794\t-6534\t327\nPunata\t-1754\t-6583\t327\nSacaba\t-1740\t-6604\t327\nQuillacollo\t-1739\t-6628\t327\nCochabamba\t-1739\t-6616\t327\nTiquipaya\t-1734\t-6622\t327\nLa Paz\t-1650\t-6815\t328\nHuanuni\t-1829\t-6684\t329\nOruro\t-1798\t-6715\t329\nCobija\t-1103\t-6877\t330\nVillazón\t-2209\t-6559\t331\nTupiza\t-2144\t-6572\t331\nPotosí\t-1958\t-6575\t331\nLlallagua\t-1842\t-6658\t331\nCamiri\t-2004\t-6352\t332\nSantiago del Torno\t-1799\t-6338\t332\nCotoca\t-1782\t-6305\t332\nSanta Cruz de la Sierra\t-1779\t-6318\t332\nWarnes\t-1752\t-6317\t332\nVilla Yapacaní\t-1740\t-6383\t332\nMontero\t-1734\t-6325\t332\nSan Ignacio de Velasco\t-1637\t-6095\t332\nAscención de Guarayos\t-1589\t-6319\t332\nBermejo\t-2273\t-6434\t333\nYacuiba\t-2202\t-6368\t333\nTarija\t-2154\t-6473\t333\nVillamontes\t-2126\t-6347\t333\nKralendijk\t1215\t-6827\t334\nThe Bottom\t1763\t-6325\t335\nOranjestad\t1748\t-6299\t336\nRio Branco\t-997\t-6781\t337\nSena Madureira\t-906\t-6867\t337\nTarauacá\t-816\t-7077\t337\nCruzeiro do Sul\t-763\t-7268\t337\nPenedo\t-1029\t-3659\t338\nCoruripe\t-1013\t-3618\t338\nCampo Alegre\t-978\t-3635\t338\nSão Miguel dos Campos\t-978\t-3609\t338\nArapiraca\t-975\t-3666\t338\nCajueiro\t-972\t-3645\t338\nMarechal Deodoro\t-971\t-3590\t338\nMaceió\t-967\t-3574\t338\nPilar\t-960\t-3596\t338\nSatuba\t-956\t-3582\t338\nAtalaia\t-950\t-3602\t338\nRio Largo\t-948\t-3585\t338\nDelmiro Gouveia\t-939\t-3800\t338\nSantana do Ipanema\t-938\t-3725\t338\nViçosa\t-937\t-3624\t338\nSão Luís do Quitunde\t-932\t-3556\t338\nMurici\t-931\t-3594\t338\nUnião dos Palmares\t-916\t-3603\t338\nMatriz de Camaragibe\t-915\t-3553\t338\nPorto Calvo\t-904\t-3540\t338\nMaragogi\t-901\t-3522\t338\nSantana\t-6\t-5118\t339\nMacapá\t4\t-5107\t339\nHumaitá\t-752\t-6303\t340\nEirunepé\t-666\t-6987\t340\nCarauari\t-488\t-6690\t340\nTabatinga\t-423\t-6994\t340\nCoari\t-408\t-6314\t340\nMaués\t-338\t-5772\t340\nTefé\t-337\t-6472\t340\nManacapuru\t-330\t-6062\t340\nItacoatiara\t-314\t-5844\t340\nManaus\t-310\t-6002\t340\nRio Preto da Eva\t-270\t-5970\t340\nParintins\t-263\t-5674\t340\nFonte Boa\t-251\t-6609\t340\nSão Gabriel da Cachoeira\t-12\t-6709\t340\nMucuri\t-1809\t-3955\t341\nPosto da Mata\t-1789\t-3986\t341\nNova Viçosa\t-1789\t-3937\t341\nMedeiros Neto\t-1737\t-4022\t341\nPrado\t-1734\t-3922\t341\nItamaraju\t-1704\t-3953\t341\nPorto Seguro\t-1645\t-3906\t341\nEunápolis\t-1638\t-3958\t341\nSanta Cruz Cabrália\t-1628\t-3902\t341\nCanavieiras\t-1567\t-3895\t341\nMascote\t-1556\t-3930\t341\nUna\t-1529\t-3908\t341\nItapetinga\t-1525\t-4025\t341\nItambé\t-1524\t-4062\t341\nItororó\t-1512\t-4007\t341\nBuerarema\t-1496\t-3930\t341\nVitória da Conquista\t-1487\t-4084\t341\nIbicaraí\t-1486\t-3959\t341\nItabuna\t-1479\t-3928\t341\nIlhéus\t-1479\t-3904\t341\nItajuípe\t-1468\t-3937\t341\nCoaraci\t-1464\t-3955\t341\nUruçuca\t-1459\t-3928\t341\nPoções\t-1453\t-4037\t341\nUbaitaba\t-1431\t-3932\t341\nGuanambi\t-1422\t-4278\t341\nUbatã\t-1421\t-3953\t341\nBrumado\t-1420\t-4167\t341\nIpiaú\t-1413\t-3974\t341\nCaetité\t-1407\t-4247\t341\nIbirataia\t-1407\t-3964\t341\nJequié\t-1386\t-4009\t341\nGandu\t-1374\t-3949\t341\nItuberá\t-1374\t-3915\t341\nLivramento do Brumado\t-1365\t-4185\t341\nJaguaquara\t-1353\t-3997\t341\nMaracás\t-1344\t-4043\t341\nSanta Maria da Vitória\t-1339\t-4420\t341\nValença\t-1337\t-3907\t341\nBom Jesus da Lapa\t-1325\t-4342\t341\nAmargosa\t-1303\t-3960\t341\nNazaré\t-1303\t-3901\t341\nSanto Antônio de Jesus\t-1297\t-3926\t341\nSalvador\t-1297\t-3851\t341\nMuritiba\t-1292\t-3925\t341\nItaparica\t-1289\t-3868\t341\nLauro de Freitas\t-1289\t-3833\t341\nSobradinho\t-1283\t-3910\t341\nMaragogipe\t-1278\t-3892\t341\nSimões Filho\t-1278\t-3840\t341\nIaçu\t-1277\t-4021\t341\nSaubara\t-1274\t-3877\t341\nCamaçari\t-1270\t-3832\t341\nCruz das Almas\t-1267\t-3910\t341\nVera Cruz\t-1263\t-4103\t341\nSão Francisco do Conde\t-1263\t-3868\t341\nCachoeira\t-1260\t-3897\t341\nSanto Amaro\t-1255\t-3871\t341\nItaberaba\t-1253\t-4031\t341\nMata de São João\t-1253\t-3830\t341\nConceição da Feira\t-1251\t-3900\t341\nSão Sebastião do Passé\t-1251\t-3850\t341\nSanto Estêvão\t-1243\t-3925\t341\nSeabra\t-1242\t-4177\t341\nCatu\t-1235\t-3838\t341\nConceição do Jacuípe\t-1232\t-3877\t341\nRuy Barbosa\t-1228\t-4049\t341\nFeira de Santana\t-1227\t-3897\t341\nIbotirama\t-1219\t-4322\t341\nIpirá\t-1216\t-3974\t341\nBarreiras\t-1215\t-4499\t341\nAlagoinhas\t-1214\t-3842\t341\nEntre Rios\t-1194\t-3808\t341\nTapiramutá\t-1185\t-4079\t341\nRiachão do Jacuípe\t-1181\t-3939\t341\nConde\t-1181\t-3761\t341\nEsplanada\t-1180\t-3794\t341\nPiritiba\t-1173\t-4056\t341\nSerrinha\t-1166\t-3901\t341\nConceição do Coité\t-1156\t-3928\t341\nMorro do Chapéu\t-1155\t-4116\t341\nRio Real\t-1148\t-3793\t341\nCapim Grosso\t-1138\t-4001\t341\nAraci\t-1133\t-3897\t341\nIrecê\t-1130\t-4186\t341\nSantaluz\t-1126\t-3937\t341\nJacobina\t-1118\t-4051\t341\nBarra\t-1109\t-4314\t341\nTucano\t-1096\t-3879\t341\nRibeira do Pombal\t-1083\t-3854\t341\nXique Xique\t-1082\t-4273\t341\nPindobaçu\t-1074\t-4036\t341\nCícero Dantas\t-1060\t-3838\t341\nCampo Formoso\t-1051\t-4032\t341\nEuclides da Cunha\t-1051\t-3902\t341\nSenhor do Bonfim\t-1046\t-4019\t341\nJaguarari\t-1026\t-4020\t341\nJeremoabo\t-1007\t-3848\t341\nPaulo Afonso\t-941\t-3821\t341\nBrejo Santo\t-749\t-3899\t342\nBarbalha\t-731\t-3930\t342\nCrato\t-723\t-3941\t342\nJuazeiro do Norte\t-721\t-3932\t342\nCampos Sales\t-707\t-4038\t342\nLavras da Mangabeira\t-675\t-3896\t342\nIcó\t-640\t-3886\t342\nIguatu\t-636\t-3930\t342\nOrós\t-624\t-3891\t342\nAcopiara\t-610\t-3945\t342\nSão João dos Inhamuns\t-600\t-4028\t342\nJaguaribe\t-589\t-3862\t342\nMombaça\t-574\t-3963\t342\nSenador Pompeu\t-559\t-3937\t342\nPedra Branca\t-545\t-3972\t342\nVárzea Alegre\t-535\t-4038\t342\nQuixeramobim\t-520\t-3929\t342\nCrateús\t-518\t-4068\t342\nLimoeiro do Norte\t-515\t-3810\t342\nBoa Viagem\t-513\t-3973\t342\nMorada Nova\t-511\t-3837\t342\nQuixadá\t-497\t-3902\t342\nRussas\t-494\t-3798\t342\nJaguaruana\t-483\t-3778\t342\nNova Russas\t-471\t-4056\t342\nAracati\t-456\t-3777\t342\nCanindé\t-436\t-3931\t342\nSanta Quitéria\t-433\t-4016\t342\nBaturité\t-433\t-3888\t342\nIpu\t-432\t-4071\t342\nVarjota\t-419\t-4048\t342\nBeberibe\t-418\t-3813\t342\nGuaraciaba do Norte\t-417\t-4075\t342\nPacajus\t-417\t-3846\t342\nCascavel\t-413\t-3824\t342\nHorizonte\t-410\t-3848\t342\nGuaiúba\t-404\t-3864\t342\nPacatuba\t-398\t-3862\t342\nItaitinga\t-397\t-3853\t342\nAquiraz\t-390\t-3839\t342\nEusébio\t-389\t-3845\t342\nMaracanaú\t-388\t-3863\t342\nPentecoste\t-379\t-3927\t342\nCaucaia\t-374\t-3865\t342\nTianguá\t-373\t-4099\t342\nFortaleza\t-372\t-3854\t342\nSobral\t-369\t-4035\t342\nItapagé\t-369\t-3959\t342\nSão Gonçalo do Amarante\t-361\t-3897\t342\nViçosa do Ceará\t-356\t-4109\t342\nItapipoca\t-349\t-3958\t342\nParaipaba\t-344\t-3915\t342\nParacuru\t-341\t-3903\t342\nTrairi\t-328\t-3927\t342\nGranja\t-312\t-4083\t342\nCamocim\t-290\t-4084\t342\nAcaraú\t-289\t-4012\t342\nMarataizes\t-2104\t-4082\t343\nItapemirim\t-2101\t-4083\t343\nCachoeiro de Itapemirim\t-2085\t-4111\t343\nPiúma\t-2084\t-4072\t343\nGuaçuí\t-2078\t-4168\t343\nAlegre\t-2076\t-4153\t343\nGuarapari\t-2067\t-4050\t343\nCastelo\t-2060\t-4118\t343\nViana\t-2039\t-4050\t343\nVila Velha\t-2033\t-4029\t343\nVitória\t-2032\t-4034\t343\nSerra\t-2013\t-4031\t343\nAracruz\t-1982\t-4027\t343\nColatina\t-1954\t-4063\t343\nBaixo Guandu\t-1952\t-4102\t343\nLinhares\t-1939\t-4007\t343\nBarra de São Francisco\t-1875\t-4089\t343\nSão Mateus\t-1872\t-3986\t343\nNova Venécia\t-1871\t-4040\t343\nConceição da Barra\t-1859\t-3973\t343\nBrasília\t-1578\t-4793\t344\nPlanaltina\t-1562\t-4765\t344\nQuirinópolis\t-1845\t-5045\t345\nItumbiara\t-1842\t-4922\t345\nCatalão\t-1817\t-4795\t345\nGoiatuba\t-1801\t-4935\t345\nJataí\t-1788\t-5172\t345\nSanta Helena de Goiás\t-1781\t-5060\t345\nRio Verde\t-1780\t-5093\t345\nCaldas Novas\t-1774\t-4863\t345\nMorrinhos\t-1773\t-4910\t345\nIpameri\t-1772\t-4816\t345\nMineiros\t-1757\t-5255\t345\nPiracanjuba\t-1730\t-4902\t345\nPires do Rio\t-1730\t-4828\t345\nAparecida de Goiânia\t-1682\t-4924\t345\nCristalina\t-1677\t-4762\t345\nSenador Canedo\t-1671\t-4909\t345\nGoiânia\t-1668\t-4925\t345\nTrindade\t-1665\t-4949\t345\nSão Luís de Montes Belos\t-1652\t-5037\t345\nGoianira\t-1650\t-4943\t345\nAnicuns\t-1646\t-4996\t345\nIporá\t-1644\t-5112\t345\nNerópolis\t-1641\t-4922\t345\nInhumas\t-1636\t-4950\t345\nAnápolis\t-1633\t-4895\t345\nLuziânia\t-1625\t-4795\t345\nItaberaí\t-1602\t-4981\t345\nGoiás\t-1593\t-5014\t345\nAragarças\t-1590\t-5225\t345\nJaraguá\t-1576\t-4933\t345\nItapuranga\t-1556\t-4995\t345\nFormosa\t-1554\t-4733\t345\nPlanaltina\t-1545\t-4761\t345\nGoianésia\t-1532\t-4912\t345\nCeres\t-1531\t-4960\t345\nPadre Bernardo\t-1517\t-4828\t345\nRubiataba\t-1516\t-4980\t345\nItapaci\t-1495\t-4955\t345\nUruaçu\t-1452\t-4914\t345\nNiquelândia\t-1447\t-4846\t345\nPosse\t-1409\t-4637\t345\nMinaçu\t-1353\t-4822\t345\nPorangatu\t-1344\t-4915\t345\nSão Miguel do Araguaia\t-1327\t-5016\t345\nCampos Belos\t-1304\t-4677\t345\nSanta Luzia\t-764\t-4722\t346\nBalsas\t-753\t-4604\t346\nCarolina\t-734\t-4746\t346\nSão João dos Patos\t-649\t-4370\t346\nColinas\t-603\t-4425\t346\nBuriti Bravo\t-584\t-4383\t346\nGrajaú\t-582\t-4614\t346\nEstreito\t-578\t-4325\t346\nSão Domingos do Maranhão\t-558\t-4439\t346\nImperatriz\t-553\t-4749\t346\nBarra do Corda\t-551\t-4524\t346\nPresidente Dutra\t-529\t-4449\t346\nTuntum\t-526\t-4465\t346\nTimon\t-509\t-4284\t346\nDom Pedro\t-504\t-4444\t346\nCaxias\t-486\t-4336\t346\nCodó\t-446\t-4389\t346\nLago da Pedra\t-429\t-4524\t346\nBacabal\t-429\t-4479\t346\nTimbiras\t-426\t-4394\t346\nCoelho Neto\t-426\t-4301\t346\nCoroatá\t-413\t-4412\t346\nSão Mateus do Maranhão\t-404\t-4447\t346\nChapadinha\t-374\t-4336\t346\nSanta Inês\t-367\t-4538\t346\nPindaré Mirim\t-361\t-4534\t346\nVargem Grande\t-354\t-4392\t346\nSanta Quitéria do Maranhão\t-352\t-4255\t346\nVitória do Mearim\t-346\t-4487\t346\nArari\t-345\t-4478\t346\nItapecuru Mirim\t-339\t-4436\t346\nPenalva\t-329\t-4517\t346\nViana\t-322\t-4500\t346\nBarreirinhas\t-276\t-4283\t346\nSão Bento\t-270\t-4482\t346\nSão José de Ribamar\t-256\t-4405\t346\nSão Luís\t-253\t-4430\t346\nPinheiro\t-252\t-4508\t346\nSanta Helena\t-223\t-4530\t346\nCururupu\t-183\t-4487\t346\nRondonópolis\t-1647\t-5464\t347\nLucas\t-1633\t-5593\t347\nPoconé\t-1626\t-5662\t347\nJaciara\t-1597\t-5497\t347\nBarra do Garças\t-1589\t-5226\t347\nVárzea Grande\t-1565\t-5613\t347\nCuiabá\t-1560\t-5610\t347\nPontes e Lacerda\t-1523\t-5934\t347\nBarra do Bugres\t-1507\t-5718\t347\nNova Olímpia\t-1480\t-5729\t347\nNova Xavantina\t-1466\t-5236\t347\nDiamantino\t-1441\t-5645\t347\nSinop\t-1186\t-5550\t347\nAripuanã\t-917\t-6063\t347\nNaviraí\t-2306\t-5419\t348\nPonta Porã\t-2254\t-5573\t348\nDourados\t-2222\t-5481\t348\nBela Vista\t-2211\t-5652\t348\nRio Brilhante\t-2180\t-5455\t348\nMaracaju\t-2161\t-5517\t348\nJardim\t-2148\t-5614\t348\nSidrolândia\t-2093\t-5496\t348\nTrês Lagoas\t-2079\t-5170\t348\nAnastácio\t-2048\t-5581\t348\nAquidauana\t-2047\t-5579\t348\nCampo Grande\t-2044\t-5465\t348\nCampo Verde\t-2042\t-5407\t348\nAparecida do Taboado\t-2009\t-5109\t348\nParanaíba\t-1968\t-5119\t348\nCassilândia\t-1911\t-5173\t348\nCorumbá\t-1901\t-5765\t348\nLadário\t-1900\t-5760\t348\nRio Verde de Mato Grosso\t-1892\t-5484\t348\nCoxim\t-1851\t-5476\t348\nCamanducaia\t-2276\t-4614\t349\nCambuí\t-2261\t-4606\t349\nItajubá\t-2243\t-4545\t349\nJacutinga\t-2229\t-4661\t349\nSanta Rita do Sapucaí\t-2225\t-4570\t349\nPouso Alegre\t-2223\t-4594\t349\nSão Lourenço\t-2212\t-4505\t349\nAndradas\t-2207\t-4657\t349\nCaxambu\t-2198\t-4493\t349\nSão Gonçalo do Sapucaí\t-2189\t-4560\t349\nAlém Paraíba\t-2189\t-4270\t349\nPoços de Caldas\t-2179\t-4656\t349\nJuiz de Fora\t-2176\t-4335\t349\nTrês Corações\t-2170\t-4525\t349\nMachado\t-2167\t-4592\t349\nElói Mendes\t-2161\t-4557\t349\nParaguaçu\t-2155\t-4574\t349\nVarginha\t-2155\t-4543\t349\nSão João Nepomuceno\t-2154\t-4301\t349\nLeopoldina\t-2153\t-4264\t349\nSantos Dumont\t-2146\t-4355\t349\nAlfenas\t-2143\t-4595\t349\nCataguases\t-2139\t-4270\t349\nMuzambinho\t-2138\t-4653\t349\nTrês Pontas\t-2137\t-4551\t349\nGuaxupé\t-2131\t-4671\t349\nGuaranésia\t-2130\t-4680\t349\nLavras\t-2125\t-4500\t349\nCampos Gerais\t-2123\t-4576\t349\nNepomuceno\t-2123\t-4523\t349\nBarbacena\t-2123\t-4377\t349\nMonte Santo de Minas\t-2119\t-4698\t349\nBarroso\t-2119\t-4398\t349\nSão João del Rei\t-2114\t-4426\t349\nMuriaé\t-2113\t-4237\t349\nUbá\t-2112\t-4294\t349\nBoa Esperança\t-2109\t-4557\t349\nPerdões\t-2109\t-4509\t349\nVisconde do Rio Branco\t-2101\t-4284\t349\nSanto Antônio do Amparo\t-2095\t-4492\t349\nCarandaí\t-2095\t-4381\t349\nSão Sebastião do Paraíso\t-2092\t-4699\t349\nCampo Belo\t-2090\t-4528\t349\nViçosa\t-2075\t-4288\t349\nCarangola\t-2073\t-4203\t349\nPassos\t-2072\t-4661\t349\nOliveira\t-2070\t-4483\t349\nConselheiro Lafaiete\t-2066\t-4379\t349\nOuro Branco\t-2052\t-4369\t349\nCongonhas\t-2051\t-4386\t349\nPiuí\t-2047\t-4596\t349\nItapecerica\t-2047\t-4513\t349\nFormiga\t-2046\t-4543\t349\nCláudio\t-2044\t-4477\t349\nPonte Nova\t-2042\t-4291\t349\nOuro Preto\t-2039\t-4351\t349\nMariana\t-2038\t-4342\t349\nManhumirim\t-2036\t-4196\t349\nArcos\t-2028\t-4554\t349\nManhuaçu\t-2026\t-4203\t349\nItabirito\t-2025\t-4380\t349\nCarmo do Cajuru\t-2018\t-4477\t349\nLajinha\t-2015\t-4162\t349\nDivinópolis\t-2014\t-4489\t349\nBrumadinho\t-2014\t-4420\t349\nSanto Antônio do Monte\t-2009\t-4529\t349\nItaúna\t-2008\t-4458\t349\nIgarapé\t-2007\t-4430\t349\nSarzedo\t-2004\t-4414\t349\nFrutal\t-2002\t-4894\t349\nLagoa da Prata\t-2002\t-4554\t349\nIbirité\t-2002\t-4406\t349\nBambuí\t-2001\t-4598\t349\nMateus Leme\t-1999\t-4443\t349\nNova Lima\t-1999\t-4385\t349\nBetim\t-1997\t-4420\t349\nJuatuba\t-1995\t-4434\t349\nBarão de Cocais\t-1995\t-4349\t349\nContagem\t-1993\t-4405\t349\nBelo Horizonte\t-1992\t-4394\t349\nConceição das Alagoas\t-1991\t-4839\t349\nCaeté\t-1988\t-4367\t349\nSacramento\t-1987\t-4744\t349\nPará de Minas\t-1986\t-4461\t349\nJoão Monlevade\t-1981\t-4317\t349\nCaratinga\t-1979\t-4214\t349\nRibeirão das Neves\t-1977\t-4409\t349\nSanta Luzia\t-1977\t-4385\t349\nEsmeraldas\t-1976\t-4431\t349\nUberaba\t-1975\t-4793\t349\nNova Era\t-1975\t-4304\t349\nBom Despacho\t-1974\t-4525\t349\nIturama\t-1973\t-5020\t349\nVespasiano\t-1969\t-4392\t349\nPitangui\t-1968\t-4489\t349\nLagoa Santa\t-1963\t-4390\t349\nPedro Leopoldo\t-1962\t-4404\t349\nItabira\t-1962\t-4323\t349\nAraxá\t-1959\t-4694\t349\nTimóteo\t-1958\t-4265\t349\nMatozinhos\t-1956\t-4408\t349\nCoronel Fabriciano\t-1952\t-4263\t349\nAimorés\t-1950\t-4106\t349\nIbiá\t-1948\t-4654\t349\nSete Lagoas\t-1947\t-4425\t349\nIpatinga\t-1947\t-4254\t349\nIpaba\t-1941\t-4242\t349\nSantana do Paraíso\t-1936\t-4257\t349\nResplendor\t-1933\t-4126\t349\nPrata\t-1931\t-4892\t349\nSão Gotardo\t-1931\t-4605\t349\nPompéu\t-1922\t-4494\t349\nBelo Oriente\t-1922\t-4248\t349\nAbaeté\t-1916\t-4545\t349\nCarmo do Paranaíba\t-1900\t-4632\t349\nItuiutaba\t-1897\t-4946\t349\nPatrocínio\t-1894\t-4699\t349\nUberlândia\t-1892\t-4828\t349\nGovernador Valadares\t-1885\t-4195\t349\nGuanhães\t-1877\t-4293\t349\nCurvelo\t-1876\t-4443\t349\nMonte Carmelo\t-1872\t-4750\t349\nAraguari\t-1865\t-4819\t349\nTupaciguara\t-1859\t-4870\t349\nPatos de Minas\t-1858\t-4652\t349\nCoromandel\t-1847\t-4720\t349\nCorinto\t-1838\t-4446\t349\nDiamantina\t-1825\t-4360\t349\nVazante\t-1799\t-4691\t349\nItamarandiba\t-1786\t-4286\t349\nTeófilo Otoni\t-1786\t-4151\t349\nNanuque\t-1784\t-4035\t349\nJoão Pinheiro\t-1774\t-4617\t349\nCapelinha\t-1769\t-4252\t349\nVárzea da Palma\t-1760\t-4473\t349\nBuritizeiro\t-1735\t-4496\t349\nPirapora\t-1734\t-4494\t349\nParacatu\t-1722\t-4687\t349\nBocaiúva\t-1711\t-4381\t349\nAraçuaí\t-1685\t-4207\t349\nMontes Claros\t-1673\t-4386\t349\nJequitinhonha\t-1643\t-4100\t349\nUnaí\t-1636\t-4691\t349\nAlmenara\t-1618\t-4069\t349\nSalinas\t-1617\t-4229\t349\nPedra Azul\t-1601\t-4130\t349\nSão Francisco\t-1595\t-4486\t349\nTaiobeiras\t-1581\t-4223\t349\nJanaúba\t-1580\t-4331\t349\nÁguas Vermelhas\t-1575\t-4146\t349\nBuritis\t-1562\t-4642\t349\nBarreiro do Jaíba\t-1562\t-4359\t349\nJanuária\t-1549\t-4436\t349\nEspinosa\t-1493\t-4282\t349\nPalmas\t-2648\t-5199\t350\nPato Branco\t-2623\t-5267\t350\nUnião da Vitória\t-2623\t-5109\t350\nRio Negro\t-2611\t-4980\t350\nFrancisco Beltrão\t-2608\t-5305\t350\nCoronel Vivida\t-2598\t-5257\t350\nGuaratuba\t-2588\t-4857\t350\nSão Mateus do Sul\t-2587\t-5038\t350\nLapa\t-2577\t-4972\t350\nDois Vizinhos\t-2573\t-5306\t350\nPinhão\t-2570\t-5166\t350\nAraucária\t-2559\t-4941\t350\nFoz do Iguaçu\t-2555\t-5459\t350\nSão José dos Pinhais\t-2553\t-4921\t350\nParanaguá\t-2552\t-4853\t350\nIrati\t-2547\t-5065\t350\nCampo Largo\t-2546\t-4953\t350\nPinhais\t-2544\t-4919\t350\nPiraquara\t-2544\t-4907\t350\nPalmeira\t-2543\t-5001\t350\nCuritiba\t-2543\t-4927\t350\nAntonina\t-2543\t-4871\t350\nLaranjeiras do Sul\t-2541\t-5242\t350\nGuarapuava\t-2539\t-5147\t350\nQuatro Barras\t-2537\t-4908\t350\nSão Miguel do Iguaçu\t-2535\t-5424\t350\nAlmirante Tamandaré\t-2532\t-4931\t350\nCampina Grande do Sul\t-2531\t-4906\t350\nMedianeira\t-2530\t-5409\t350\nColombo\t-2529\t-4922\t350\nImbituva\t-2523\t-5060\t350\nItaperuçu\t-2522\t-4935\t350\nPrudentópolis\t-2521\t-5098\t350\nRio Branco do Sul\t-2519\t-4931\t350\nPonta Grossa\t-2509\t-5016\t350\nCascavel\t-2496\t-5346\t350\nCastro\t-2479\t-5001\t350\nPitanga\t-2476\t-5176\t350\nToledo\t-2471\t-5374\t350\nMarechal Cândido Rondon\t-2456\t-5406\t350\nPiraí do Sul\t-2453\t-4995\t350\nTelêmaco Borba\t-2432\t-5062\t350\nPalotina\t-2428\t-5384\t350\nJaguariaíva\t-2424\t-4971\t350\nCampo Mourão\t-2404\t-5238\t350\nWenceslau Braz\t-2387\t-4980\t350\nIbaiti\t-2385\t-5019\t350\nCruzeiro do Oeste\t-2378\t-5307\t350\nUmuarama\t-2377\t-5332\t350\nCianorte\t-2366\t-5260\t350\nJandaia do Sul\t-2360\t-5164\t350\nMandaguari\t-2355\t-5167\t350\nApucarana\t-2355\t-5146\t350\nMarialva\t-2348\t-5179\t350\nPaiçandu\t-2346\t-5205\t350\nSarandi\t-2344\t-5187\t350\nMaringá\t-2343\t-5194\t350\nArapongas\t-2342\t-5142\t350\nRolândia\t-2331\t-5137\t350\nLondrina\t-2331\t-5116\t350\nSanto Antônio da Platina\t-2329\t-5008\t350\nCambé\t-2328\t-5128\t350\nIbiporã\t-2327\t-5105\t350\nAstorga\t-2323\t-5167\t350\nCornélio Procópio\t-2318\t-5065\t350\nJacarezinho\t-2316\t-4997\t350\nBandeirantes\t-2311\t-5037\t350\nParanavaí\t-2307\t-5247\t350\nCambará\t-2305\t-5007\t350\nLoanda\t-2292\t-5314\t350\nColorado\t-2284\t-5197\t350\nMonteiro\t-789\t-3712\t351\nItabaiana\t-733\t-3533\t351\nItaporanga\t-730\t-3815\t351\nConde\t-726\t-3491\t351\nCampina Grande\t-723\t-3588\t351\nAlagoa Grande\t-716\t-3563\t351\nBayeux\t-712\t-3493\t351\nSanta Rita\t-711\t-3498\t351\nJoão Pessoa\t-711\t-3486\t351\nMari\t-706\t-3532\t351\nEsperança\t-703\t-3586\t351\nPatos\t-702\t-3728\t351\nCabedelo\t-698\t-3483\t351\nCajazeiras\t-689\t-3856\t351\nGuarabira\t-685\t-3549\t351\nMamanguape\t-684\t-3513\t351\nPombal\t-677\t-3780\t351\nSousa\t-676\t-3823\t351\nSolânea\t-675\t-3554\t351\nBelém\t-669\t-3553\t351\nCatolé do Rocha\t-634\t-3775\t351\nSão Bento\t-628\t-3775\t351\nConceição do Araguaia\t-826\t-4927\t352\nRedenção\t-803\t-5003\t352\nXinguara\t-710\t-4994\t352\nTucumã\t-675\t-5116\t352\nOurilândia do Norte\t-675\t-5108\t352\nSão Félix do Xingu\t-664\t-5199\t352\nParauapebas\t-607\t-4990\t352\nMarabá\t-538\t-4913\t352\nItupiranga\t-513\t-4933\t352\nItaituba\t-428\t-5598\t352\nTucuruí\t-377\t-4968\t352\nAltamira\t-320\t-5221\t352\nParagominas\t-297\t-4748\t352\nMocajuba\t-258\t-4951\t352\nSantarém\t-244\t-5471\t352\nTomé Açu\t-242\t-4815\t352\nCametá\t-224\t-4950\t352\nMonte Alegre\t-200\t-5408\t352\nIgarapé Miri\t-197\t-4896\t352\nAlenquer\t-194\t-5474\t352\nPortel\t-194\t-5082\t352\nÓbidos\t-192\t-5552\t352\nMoju\t-188\t-4877\t352\nOriximiná\t-177\t-5587\t352\nCapitão Poço\t-175\t-4706\t352\nAbaetetuba\t-172\t-4888\t352\nBreves\t-168\t-5048\t352\nSão Miguel do Guamá\t-163\t-4748\t352\nAlmeirim\t-152\t-5258\t352\nBarcarena\t-151\t-4863\t352\nBelém\t-146\t-4850\t352\nAnanindeua\t-137\t-4837\t352\nBenevides\t-136\t-4824\t352\nCastanhal\t-129\t-4793\t352\nCapanema\t-120\t-4718\t352\nViseu\t-120\t-4614\t352\nIgarapé Açu\t-113\t-4762\t352\nBragança\t-105\t-4677\t352\nAugusto Corrêa\t-102\t-4663\t352\nVigia\t-86\t-4814\t352\nSoure\t-72\t-4852\t352\nSalinópolis\t-61\t-4736\t352\nTucumã\t-18\t-5005\t352\nPetrolina\t-940\t-4050\t353\nJatobá\t-918\t-3827\t353\nBom Conselho\t-917\t-3668\t353\nÁguas Belas\t-911\t-3712\t353\nGaranhuns\t-888\t-3650\t353\nBarreiros\t-882\t-3519\t353\nTamandaré\t-876\t-3510\t353\nÁgua Preta\t-871\t-3553\t353\nPalmares\t-868\t-3559\t353\nCatende\t-867\t-3572\t353\nRio Formoso\t-867\t-3516\t353\nLajedo\t-866\t-3632\t353\nBuíque\t-862\t-3716\t353\nCupira\t-862\t-3595\t353\nFloresta\t-860\t-3857\t353\nSirinhaém\t-859\t-3512\t353\nGameleira\t-858\t-3539\t353\nCabrobó\t-851\t-3931\t353\nRibeirão\t-851\t-3538\t353\nArcoverde\t-842\t-3705\t353\nIpojuca\t-840\t-3506\t353\nAmaraji\t-838\t-3545\t353\nPesqueira\t-836\t-3670\t353\nEscada\t-836\t-3522\t353\nBelo Jardim\t-834\t-3642\t353\nCaruaru\t-828\t-3598\t353\nCabo\t-828\t-3503\t353\nChã Grande\t-824\t-3546\t353\nBezerros\t-823\t-3580\t353\nGravatá\t-820\t-3556\t353\nJaboatão\t-818\t-3500\t353\nBrejo da Madre de Deus\t-815\t-3637\t353\nPombos\t-814\t-3540\t353\nVitória de Santo Antão\t-812\t-3529\t353\nMoreno\t-812\t-3509\t353\nJaboatão dos Guararapes\t-811\t-3501\t353\nCustódia\t-809\t-3764\t353\nSalgueiro\t-807\t-3912\t353\nSertânia\t-807\t-3726\t353\nRecife\t-805\t-3488\t353\nToritama\t-801\t-3606\t353\nOlinda\t-801\t-3486\t353\nGlória do Goitá\t-800\t-3529\t353\nSão Lourenço da Mata\t-800\t-3502\t353\nSerra Talhada\t-799\t-3830\t353\nSanta Cruz do Capibaribe\t-796\t-3620\t353\nLagoa do Itaenga\t-794\t-3529\t353\nPaulista\t-794\t-3487\t353\nAbreu e Lima\t-791\t-3490\t353\nOuricuri\t-788\t-4008\t353\nLimoeiro\t-787\t-3545\t353\nCarpina\t-785\t-3525\t353\nSurubim\t-783\t-3575\t353\nIgarassu\t-783\t-3491\t353\nItapissuma\t-778\t-3489\t353\nTrindade\t-776\t-4027\t353\nAfogados da Ingazeira\t-775\t-3764\t353\nNazaré da Mata\t-774\t-3523\t353\nIpubi\t-765\t-4015\t353\nTabira\t-759\t-3754\t353\nCondado\t-759\t-3511\t353\nAraripina\t-758\t-4050\t353\nGoiana\t-756\t-3500\t353\nTimbaúba\t-751\t-3532\t353\nSão José do Egito\t-748\t-3727\t353\nSão Raimundo Nonato\t-902\t-4270\t354\nPicos\t-708\t-4147\t354\nOeiras\t-703\t-4213\t354\nIpueiras\t-703\t-4045\t354\nFloriano\t-677\t-4302\t354\nValença do Piauí\t-641\t-4175\t354\nDemerval Lobão\t-536\t-4268\t354\nTeresina\t-509\t-4280\t354\nAltos\t-504\t-4246\t354\nCampo Maior\t-483\t-4217\t354\nJosé de Freitas\t-476\t-4258\t354\nUnião\t-459\t-4286\t354\nPedro II\t-442\t-4146\t354\nPiripiri\t-427\t-4178\t354\nBarras\t-424\t-4229\t354\nPiracuruca\t-393\t-4171\t354\nEsperantina\t-390\t-4223\t354\nParnaíba\t-290\t-4178\t354\nParelhas\t-669\t-3666\t355\nNova Cruz\t-648\t-3543\t355\nCaicó\t-646\t-3710\t355\nCanguaretama\t-638\t-3513\t355\nCurrais Novos\t-626\t-3652\t355\nSanta Cruz\t-623\t-3602\t355\nSão José de Mipibu\t-607\t-3524\t355\nParnamirim\t-592\t-3526\t355\nMacaíba\t-586\t-3535\t355\nNatal\t-579\t-3521\t355\nExtremoz\t-571\t-3531\t355\nApodi\t-566\t-3780\t355\nCeará Mirim\t-563\t-3543\t355\nAçu\t-558\t-3691\t355\nJoão Câmara\t-554\t-3582\t355\nMossoró\t-519\t-3734\t355\nMacau\t-511\t-3663\t355\nAreia Branca\t-496\t-3714\t355\nSanta Vitória do Palmar\t-3352\t-5337\t356\nJaguarão\t-3257\t-5338\t356\nArroio Grande\t-3224\t-5309\t356\nRio Grande\t-3203\t-5210\t356\nHerval\t-3202\t-5340\t356\nPelotas\t-3177\t-5234\t356\nCanguçu\t-3139\t-5268\t356\nSão Lourenço do Sul\t-3137\t-5198\t356\nBagé\t-3133\t-5411\t356\nDom Pedrito\t-3098\t-5467\t356\nSantana do Livramento\t-3089\t-5553\t356\nCamaquã\t-3085\t-5181\t356\nTapes\t-3067\t-5140\t356\nEncruzilhada do Sul\t-3054\t-5252\t356\nCaçapava do Sul\t-3051\t-5348\t356\nQuaraí\t-3039\t-5645\t356\nSão Gabriel\t-3034\t-5432\t356\nRosário do Sul\t-3026\t-5491\t356\nSão Sepé\t-3016\t-5357\t356\nButiá\t-3012\t-5196\t356\nGuaíba\t-3011\t-5132\t356\nViamão\t-3008\t-5102\t356\nCachoeira do Sul\t-3004\t-5289\t356\nPorto Alegre\t-3003\t-5123\t356\nRio Pardo\t-2999\t-5238\t356\nTramandaí\t-2998\t-5013\t356\nSão Jerônimo\t-2996\t-5172\t356\nCharqueadas\t-2995\t-5163\t356\nCachoeirinha\t-2995\t-5109\t356\nGravataí\t-2994\t-5099\t356\nCanoas\t-2992\t-5118\t356\nOsório\t-2989\t-5027\t356\nEsteio\t-2986\t-5118\t356\nSapucaia\t-2983\t-5115\t356\nTaquari\t-2980\t-5186\t356\nAlegrete\t-2978\t-5579\t356\nSão Leopoldo\t-2976\t-5115\t356\nUruguaiana\t-2975\t-5709\t356\nCapão da Canoa\t-2975\t-5001\t356\nSanta Cruz do Sul\t-2972\t-5243\t356\nPortão\t-2970\t-5124\t356\nMontenegro\t-2969\t-5146\t356\nSanta Maria\t-2968\t-5381\t356\nNovo Hamburgo\t-2968\t-5113\t356\nCandelária\t-2967\t-5279\t356\nEstância Velha\t-2965\t-5117\t356\nTaquara\t-2965\t-5078\t356\nRolante\t-2965\t-5058\t356\nSapiranga\t-2964\t-5101\t356\nParobé\t-2963\t-5083\t356\nVenâncio Aires\t-2961\t-5219\t356\nSão Sebastião do Caí\t-2959\t-5138\t356\nIvoti\t-2959\t-5116\t356\nIgrejinha\t-2957\t-5079\t356\nTrês Coroas\t-2952\t-5078\t356\nLajeado\t-2947\t-5196\t356\nTeutônia\t-2945\t-5181\t356\nArroio do Meio\t-2940\t-5194\t356\nNova Petrópolis\t-2938\t-5111\t356\nCanela\t-2936\t-5081\t356\nTorres\t-2934\t-4973\t356\nCarlos Barbosa\t-2930\t-5150\t356\nGaribaldi\t-2926\t-5153\t356\nEncantado\t-2924\t-5187\t356\nJúlio de Castilhos\t-2923\t-5368\t356\nFarroupilha\t-2922\t-5135\t356\nSantiago\t-2919\t-5487\t356\nBento Gonçalves\t-2917\t-5152\t356\nCaxias do Sul\t-2917\t-5118\t356\nItaqui\t-2913\t-5655\t356\nTupanciretã\t-2908\t-5384\t356\nFlores da Cunha\t-2903\t-5118\t356\nSão Marcos\t-2897\t-5107\t356\nVeranópolis\t-2894\t-5155\t356\nGuaporé\t-2885\t-5189\t356\nSoledade\t-2882\t-5251\t356\nNova Prata\t-2878\t-5161\t356\nSão Borja\t-2866\t-5600\t356\nCruz Alta\t-2864\t-5361\t356\nVacaria\t-2851\t-5093\t356\nMarau\t-2845\t-5220\t356\nSão Luiz Gonzaga\t-2841\t-5496\t356\nIjuí\t-2839\t-5391\t356\nSanto Ângelo\t-2830\t-5426\t356\nPanambi\t-2829\t-5350\t356\nCarazinho\t-2828\t-5279\t356\nPasso Fundo\t-2826\t-5241\t356\nLagoa Vermelha\t-2821\t-5153\t356\nEstrela\t-2806\t-5094\t356\nSarandi\t-2794\t-5292\t356\nPalmeira das Missões\t-2790\t-5331\t356\nSanta Rosa\t-2787\t-5448\t356\nTrês de Maio\t-2777\t-5424\t356\nErechim\t-2763\t-5228\t356\nTrês Passos\t-2746\t-5393\t356\nFrederico Westphalen\t-2736\t-5339\t356\nParaty\t-2322\t-4471\t357\nAngra dos Reis\t-2301\t-4432\t357\nArraial do Cabo\t-2297\t-4203\t357\nMangaratiba\t-2296\t-4404\t357\nMaricá\t-2292\t-4282\t357\nSaquarema\t-2292\t-4251\t357\nRio de Janeiro\t-2291\t-4318\t357\nCabo Frio\t-2289\t-4203\t357\nNiterói\t-2288\t-4310\t357\nAraruama\t-2287\t-4234\t357\nItaguaí\t-2285\t-4378\t357\nSão Pedro da Aldeia\t-2284\t-4210\t357\nNilópolis\t-2281\t-4341\t357\nSão João de Meriti\t-2280\t-4337\t357\nDuque de Caxias\t-2279\t-4331\t357\nNova Iguaçu\t-2276\t-4345\t357\nBelford Roxo\t-2276\t-4340\t357\nArmação de Búzios\t-2275\t-4188\t357\nSeropédica\t-2274\t-4371\t357\nItaboraí\t-2274\t-4286\t357\nTanguá\t-2273\t-4271\t357\nQueimados\t-2272\t-4356\t357\nRio Bonito\t-2271\t-4261\t357\nSilva Jardim\t-2265\t-4239\t357\nJaperi\t-2264\t-4365\t357\nPiraí\t-2263\t-4390\t357\nParacambi\t-2261\t-4371\t357\nBarra Mansa\t-2254\t-4417\t357\nGuapimirim\t-2254\t-4298\t357\nMendes\t-2253\t-4373\t357\nRio das Ostras\t-2253\t-4194\t357\nVolta Redonda\t-2252\t-4410\t357\nPinheiral\t-2251\t-4400\t357\nPetrópolis\t-2250\t-4318\t357\nCasimiro de Abreu\t-2248\t-4220\t357\nResende\t-2247\t-4445\t357\nBarra do Piraí\t-2247\t-4383\t357\nCachoeiras de Macacu\t-2246\t-4265\t357\nMiguel Pereira\t-2245\t-4347\t357\nPaty do Alferes\t-2243\t-4342\t357\nTeresópolis\t-2242\t-4298\t357\nSão Pedro\t-2242\t-4297\t357\nVassouras\t-2240\t-4366\t357\nMacaé\t-2238\t-4178\t357\nNova Friburgo\t-2228\t-4253\t357\nValença\t-2225\t-4370\t357\nParaíba do Sul\t-2216\t-4329\t357\nTrês Rios\t-2212\t-4321\t357\nCordeiro\t-2203\t-4236\t357\nCampos dos Goytacazes\t-2175\t-4133\t357\nItaocara\t-2167\t-4208\t357\nSão Fidélis\t-2165\t-4175\t357\nSão João da Barra\t-2164\t-4105\t357\nSanto Antônio de Pádua\t-2154\t-4218\t357\nMiracema\t-2141\t-4220\t357\nItaperuna\t-2120\t-4189\t357\nBom Jesus do Itabapoana\t-2113\t-4168\t357\nPôsto Fiscal Rolim de Moura\t-1308\t-6228\t358\nVilhena\t-1274\t-6015\t358\nPimenta Bueno\t-1167\t-6119\t358\nCacoal\t-1144\t-6145\t358\nJi Paraná\t-1089\t-6195\t358\nGuajará Mirim\t-1078\t-6534\t358\nOuro Preto do Oeste\t-1075\t-6222\t358\nJaru\t-1044\t-6247\t358\nAriquemes\t-991\t-6304\t358\nPorto Velho\t-876\t-6390\t358\nBoa Vista\t282\t-6067\t359\nAraranguá\t-2894\t-4950\t360\nForquilhinha\t-2875\t-4947\t360\nIçara\t-2871\t-4930\t360\nCriciúma\t-2868\t-4937\t360\nLaguna\t-2848\t-4878\t360\nTubarão\t-2847\t-4901\t360\nOrleans\t-2836\t-4929\t360\nSão Joaquim\t-2829\t-4993\t360\nBraço do Norte\t-2827\t-4917\t360\nImbituba\t-2824\t-4867\t360\nSão José\t-2821\t-4916\t360\nLages\t-2782\t-5033\t360\nFreguesia do Ribeirao da Ilha\t-2772\t-4856\t360\nRibeirão da Ilha\t-2770\t-4853\t360\nSanto Amaro da Imperatriz\t-2769\t-4878\t360\nPalhoça\t-2765\t-4867\t360\nCelso Ramos\t-2763\t-5134\t360\nFlorianópolis\t-2760\t-4855\t360\nCampinas\t-2759\t-4861\t360\nTrindade\t-2759\t-4852\t360\nBiguaçu\t-2749\t-4866\t360\nCampos Novos\t-2740\t-5122\t360\nCapinzal\t-2734\t-5161\t360\nCuritibanos\t-2728\t-5058\t360\nTijucas\t-2724\t-4863\t360\nConcórdia\t-2723\t-5203\t360\nRio do Sul\t-2721\t-4964\t360\nJoaçaba\t-2718\t-5150\t360\nChapecó\t-2710\t-5262\t360\nBrusque\t-2710\t-4891\t360\nItapema\t-2709\t-4861\t360\nIbirama\t-2706\t-4952\t360\nVideira\t-2701\t-5115\t360\nBalneário Camboriú\t-2699\t-4863\t360\nSanta Cecília\t-2696\t-5043\t360\nGaspar\t-2693\t-4896\t360\nBlumenau\t-2692\t-4907\t360\nItajaí\t-2691\t-4866\t360\nIndaial\t-2690\t-4923\t360\nNavegantes\t-2690\t-4865\t360\nXanxerê\t-2688\t-5240\t360\nTimbó\t-2682\t-4927\t360\nCaçador\t-2678\t-5101\t360\nPenha\t-2677\t-4865\t360\nPomerode\t-2674\t-4918\t360\nBarra Velha\t-2663\t-4868\t360\nJaraguá do Sul\t-2649\t-4907\t360\nGuaramirim\t-2647\t-4900\t360\nSchroeder\t-2641\t-4907\t360\nJoinville\t-2630\t-4885\t360\nRio Negrinho\t-2625\t-4952\t360\nSão Bento do Sul\t-2625\t-4938\t360\nPorto União\t-2624\t-5108\t360\nSão Francisco do Sul\t-2624\t-4864\t360\nCanoinhas\t-2618\t-5039\t360\nMafra\t-2611\t-4981\t360\nItabaianinha\t-1127\t-3779\t361\nEstância\t-1127\t-3744\t361\nTobias Barreto\t-1118\t-3800\t361\nSão Cristóvão\t-1101\t-3721\t361\nLagarto\t-1092\t-3765\t361\nAracaju\t-1091\t-3707\t361\nBarra dos Coqueiros\t-1091\t-3704\t361\nNossa Senhora do Socorro\t-1085\t-3713\t361\nLaranjeiras\t-1081\t-3717\t361\nSimão Dias\t-1074\t-3781\t361\nItabaiana\t-1068\t-3743\t361\nCapela\t-1050\t-3705\t361\nNossa Senhora da Glória\t-1022\t-3742\t361\nPropriá\t-1021\t-3684\t361\nCajati\t-2474\t-4812\t362\nIguape\t-2471\t-4756\t362\nApiaí\t-2451\t-4884\t362\nRegistro\t-2449\t-4784\t362\nPeruíbe\t-2432\t-4700\t362\nItanhaém\t-2418\t-4679\t362\nItararé\t-2411\t-4933\t362\nMongaguá\t-2409\t-4662\t362\nCapâo Bonito\t-2401\t-4835\t362\nPraia Grande\t-2401\t-4640\t362\nGuarujá\t-2399\t-4626\t362\nItapeva\t-2398\t-4888\t362\nSão Vicente\t-2396\t-4639\t362\nSantos\t-2396\t-4633\t362\nCubatão\t-2389\t-4643\t362\nBertioga\t-2385\t-4614\t362\nEmbu Guaçu\t-2383\t-4681\t362\nPilar do Sul\t-2381\t-4772\t362\nBuri\t-2380\t-4859\t362\nIlhabela\t-2378\t-4536\t362\nSão Sebastião\t-2376\t-4541\t362\nRio Grande da Serra\t-2374\t-4640\t362\nItapecerica da Serra\t-2372\t-4685\t362\nPiedade\t-2371\t-4743\t362\nRibeirão Pires\t-2371\t-4641\t362\nDiadema\t-2369\t-4662\t362\nSão Bernardo do Campo\t-2369\t-4656\t362\nMauá\t-2367\t-4646\t362\nIbiúna\t-2366\t-4722\t362\nSanto André\t-2366\t-4654\t362\nSalto de Pirapora\t-2365\t-4757\t362\nEmbu\t-2365\t-4685\t362\nTaboão da Serra\t-2363\t-4679\t362\nSão Caetano do Sul\t-2362\t-4655\t362\nCaraguatatuba\t-2362\t-4541\t362\nCotia\t-2360\t-4692\t362\nItapetininga\t-2359\t-4805\t362\nBiritiba Mirim\t-2357\t-4604\t362\nVotorantim\t-2355\t-4744\t362\nMairinque\t-2355\t-4718\t362\nItapevi\t-2355\t-4693\t362\nSão Paulo\t-2355\t-4664\t362\nFerraz de Vasconcelos\t-2354\t-4637\t362\nSuzano\t-2354\t-4631\t362\nTaquarituba\t-2353\t-4924\t362\nSão Roque\t-2353\t-4714\t362\nJandira\t-2353\t-4690\t362\nOsasco\t-2353\t-4679\t362\nPoá\t-2353\t-4634\t362\nCarapicuíba\t-2352\t-4683\t362\nMogi das Cruzes\t-2352\t-4619\t362\nAraçoiaba da Serra\t-2351\t-4761\t362\nBarueri\t-2351\t-4688\t362\nSorocaba\t-2350\t-4746\t362\nItaquaquecetuba\t-2349\t-4635\t362\nGuarulhos\t-2346\t-4653\t362\nSantana de Parnaíba\t-2344\t-4692\t362\nUbatuba\t-2343\t-4507\t362\nItaí\t-2342\t-4909\t362\nGuararema\t-2341\t-4603\t362\nArujá\t-2340\t-4632\t362\nParanapanema\t-2339\t-4872\t362\nTatuí\t-2336\t-4786\t362\nCajamar\t-2336\t-4688\t362\nCaieiras\t-2336\t-4674\t362\nIperó\t-2335\t-4769\t362\nFranco da Rocha\t-2332\t-4673\t362\nMairiporã\t-2332\t-4659\t362\nSanta Isabel\t-2332\t-4622\t362\nCabreúva\t-2331\t-4713\t362\nJacareí\t-2331\t-4597\t362\nBoituva\t-2328\t-4767\t362\nFrancisco Morato\t-2328\t-4675\t362\nItu\t-2326\t-4730\t362\nPorto Feliz\t-2321\t-4752\t362\nVárzea Paulista\t-2321\t-4683\t362\nSalto\t-2320\t-4729\t362\nPiraju\t-2319\t-4938\t362\nJundiaí\t-2319\t-4688\t362\nSão José dos Campos\t-2318\t-4589\t362\nCerquilho\t-2316\t-4774\t362\nItupeva\t-2315\t-4706\t362\nAtibaia\t-2312\t-4655\t362\nAvaré\t-2310\t-4893\t362\nItatinga\t-2310\t-4862\t362\nTietê\t-2310\t-4771\t362\nJarinu\t-2310\t-4673\t362\nCaçapava\t-2310\t-4571\t362\nIndaiatuba\t-2309\t-4721\t362\nLouveira\t-2309\t-4695\t362\nLaranjal Paulista\t-2305\t-4784\t362\nPiracaia\t-2305\t-4636\t362\nVinhedo\t-2303\t-4698\t362\nTaubaté\t-2303\t-4556\t362\nItatiba\t-2301\t-4684\t362\nCapivari\t-2299\t-4751\t362\nOurinhos\t-2298\t-4987\t362\nValinhos\t-2297\t-4700\t362\nTremembé\t-2296\t-4555\t362\nMonte Mor\t-2295\t-4732\t362\nBragança Paulista\t-2295\t-4654\t362\nPindamonhangaba\t-2292\t-4546\t362\nCampinas\t-2291\t-4706\t362\nSanta Cruz do Rio Pardo\t-2290\t-4963\t362\nBotucatu\t-2289\t-4844\t362\nHortolândia\t-2286\t-4722\t362\nAparecida\t-2285\t-4523\t362\nRio das Pedras\t-2284\t-4761\t362\nSumaré\t-2282\t-4727\t362\nGuaratinguetá\t-2282\t-4519\t362\nPalmital\t-2279\t-5022\t362\nNova Odessa\t-2278\t-4730\t362\nPaulínia\t-2276\t-4715\t362\nCândido Mota\t-2275\t-5039\t362\nSanta Bárbara d'Oeste\t-2275\t-4741\t362\nAmericana\t-2274\t-4733\t362\nPedreira\t-2274\t-4690\t362\nCampos do Jordão\t-2274\t-4559\t362\nSão Manuel\t-2273\t-4857\t362\nPiracicaba\t-2273\t-4765\t362\nLorena\t-2273\t-4512\t362\nJaguariúna\t-2271\t-4699\t362\nAmparo\t-2270\t-4676\t362\nAssis\t-2266\t-5041\t362\nCosmópolis\t-2265\t-4720\t362\nSanto Antônio de Posse\t-2261\t-4692\t362\nSerra Negra\t-2261\t-4670\t362\nLençóis Paulista\t-2260\t-4880\t362\nSocorro\t-2259\t-4653\t362\nIracemápolis\t-2258\t-4752\t362\nArtur Nogueira\t-2257\t-4717\t362\nCruzeiro\t-2257\t-4497\t362\nLimeira\t-2256\t-4740\t362\nSão Pedro\t-2255\t-4791\t362\nTeodoro Sampaio\t-2253\t-5217\t362\nIgaraçu do Tietê\t-2251\t-4856\t362\nMacatuba\t-2250\t-4871\t362\nBarra Bonita\t-2249\t-4856\t362\nCordeirópolis\t-2248\t-4746\t362\nÁguas de Lindóia\t-2248\t-4663\t362\nAgudos\t-2247\t-4899\t362\nSanta Gertrudes\t-2246\t-4753\t362\nItapira\t-2244\t-4682\t362\nMogi Mirim\t-2243\t-4696\t362\nParaguaçu Paulista\t-2241\t-5058\t362\nRio Claro\t-2241\t-4756\t362\nDois Córregos\t-2237\t-4838\t362\nMogi Guaçu\t-2237\t-4695\t362\nAraras\t-2236\t-4738\t362\nPederneiras\t-2235\t-4877\t362\nConchal\t-2233\t-4717\t362\nBauru\t-2231\t-4906\t362\nJaú\t-2230\t-4856\t362\nPirapozinho\t-2228\t-5150\t362\nBrotas\t-2228\t-4813\t362\nRancharia\t-2223\t-5089\t362\nRegente Feijó\t-2222\t-5130\t362\nMarília\t-2221\t-4995\t362\nGarça\t-2221\t-4966\t362\nLeme\t-2219\t-4739\t362\nMartinópolis\t-2215\t-5117\t362\nPresidente Prudente\t-2213\t-5139\t362\nEspírito Santo do Pinhal\t-2212\t-4668\t362\nPompéia\t-2211\t-5017\t362\nÁlvares Machado\t-2208\t-5147\t362\nBariri\t-2207\t-4874\t362\nAguaí\t-2206\t-4698\t362\nSão Carlos\t-2202\t-4789\t362\nPirajuí\t-2200\t-4946\t362\nPirassununga\t-2200\t-4743\t362\nSão João da Boa Vista\t-2197\t-4680\t362\nIbaté\t-2195\t-4800\t362\nTupã\t-2193\t-5051\t362\nBastos\t-2192\t-5073\t362\nDescalvado\t-2190\t-4762\t362\nPresidente Venceslau\t-2188\t-5184\t362\nPorto Ferreira\t-2185\t-4748\t362\nSanto Anastácio\t-2184\t-5161\t362\nSanta Cruz das Palmeiras\t-2183\t-4725\t362\nVargem Grande do Sul\t-2183\t-4689\t362\nOsvaldo Cruz\t-2180\t-5088\t362\nAraraquara\t-2179\t-4818\t362\nCasa Branca\t-2177\t-4709\t362\nPresidente Epitácio\t-2176\t-5212\t362\nIbitinga\t-2176\t-4883\t362\nAmérico Brasiliense\t-2172\t-4810\t362\nSanta Rita do Passa Quatro\t-2171\t-4748\t362\nTambaú\t-2170\t-4727\t362\nAdamantina\t-2169\t-5107\t362\nLins\t-2168\t-4974\t362\nItápolis\t-2160\t-4881\t362\nMatão\t-2160\t-4837\t362\nSão José do Rio Pardo\t-2160\t-4689\t362\nPromissão\t-2154\t-4986\t362\nNovo Horizonte\t-2147\t-4922\t362\nSanta Rosa de Viterbo\t-2147\t-4736\t362\nMococa\t-2147\t-4700\t362\nPenápolis\t-2142\t-5008\t362\nTaquaritinga\t-2141\t-4850\t362\nGuariba\t-2136\t-4823\t362\nCravinhos\t-2134\t-4773\t362\nBirigui\t-2129\t-5034\t362\nCajuru\t-2128\t-4730\t362\nGuararapes\t-2126\t-5064\t362\nMonte Alto\t-2126\t-4850\t362\nJaboticabal\t-2125\t-4832\t362\nValparaíso\t-2123\t-5087\t362\nAraçatuba\t-2121\t-5043\t362\nSerrana\t-2121\t-4760\t362\nBarrinha\t-2119\t-4816\t362\nRibeirão Preto\t-2118\t-4781\t362\nCatanduva\t-2114\t-4897\t362\nSertãozinho\t-2114\t-4799\t362\nMirandopólis\t-2113\t-5110\t362\nJosé Bonifácio\t-2105\t-4969\t362\nPontal\t-2102\t-4804\t362\nJardinópolis\t-2102\t-4776\t362\nPitangueiras\t-2101\t-4822\t362\nBrodósqui\t-2099\t-4766\t362\nBebedouro\t-2095\t-4848\t362\nMonte Azul Paulista\t-2091\t-4864\t362\nAndradina\t-2090\t-5138\t362\nBatatais\t-2089\t-4758\t362\nViradouro\t-2087\t-4830\t362\nSão José do Rio Preto\t-2082\t-4938\t362\nMonte Aprazível\t-2077\t-4971\t362\nOlímpia\t-2074\t-4891\t362\nMorro Agudo\t-2073\t-4806\t362\nOrlândia\t-2072\t-4789\t362\nPereira Barreto\t-2064\t-5111\t362\nTanabi\t-2063\t-4965\t362\nSão Joaquim da Barra\t-2058\t-4785\t362\nBarretos\t-2056\t-4857\t362\nFranca\t-2054\t-4740\t362\nNova Granada\t-2053\t-4931\t362\nIlha Solteira\t-2043\t-5134\t362\nGuará\t-2043\t-4782\t362\nVotuporanga\t-2042\t-4997\t362\nItuverava\t-2034\t-4778\t362\nGuaíra\t-2032\t-4831\t362\nFernandópolis\t-2028\t-5025\t362\nJales\t-2027\t-5055\t362\nSanta Fé do Sul\t-2021\t-5093\t362\nMiguelópolis\t-2018\t-4803\t362\nIgarapava\t-2004\t-4775\t362\nGurupi\t-1173\t-4907\t363\nPalmas\t-1017\t-4833\t363\nMiracema do Tocantins\t-957\t-4839\t363\nAraguaína\t-719\t-4821\t363\nMasons Bay\t2254\t-7388\t364\nAlice Town\t2573\t-7930\t365\nBlack Point\t2410\t-7638\t366\nArthur’s Town\t2462\t-7567\t367\nMarsh Harbour\t2654\t-7706\t368\nGovernor’s Harbour\t2517\t-7623\t369\nColonel Hill\t2275\t-7420\t370\nHigh Rock\t2661\t-7828\t371\nGeorge Town\t2352\t-7579\t372\nFreeport\t2653\t-7870\t373\nLucaya\t2653\t-7867\t373\nMatthew Town\t2095\t-7367\t374\nClarence Town\t2310\t-7498\t375\nAbraham’s Bay\t2237\t-7297\t376\nHard Bargain\t2632\t-7757\t377\nNassau\t2506\t-7734\t378\nSan Andros\t2507\t-7805\t379\nDuncan Town\t2219\t-7573\t380\nPort Nelson\t2365\t-7484\t381\nCockburn Town\t2405\t-7453\t382\nSpanish Wells\t2555\t-7676\t383\nWest End\t2669\t-7898\t384\nJakar\t2755\t9075\t385\nPhuntsholing\t2685\t8939\t386\nTsimasham\t2710\t8954\t386\nDaga\t2708\t8988\t387\nGasa\t2790\t8973\t388\nHa\t2739\t8928\t389\nLhuentse\t2767\t9118\t390\nMongar\t2727\t9124\t391\nParo\t2743\t8941\t392\nPemagatshel\t2704\t9140\t393\nPunākha\t2759\t8988\t394\nSamdrup Jongkhar\t2680\t9151\t395\nSamtse\t2690\t8910\t396\nSarpang\t2686\t9027\t397\nThimphu\t2747\t8964\t398\nLungtenzampa\t2747\t8964\t398\nTrongsa\t2750\t9051\t399\nTrashi Yangtse\t2761\t9150\t400\nTrashigang\t2733\t9155\t401\nTsirang\t2702\t9012\t402\nWangdue Phodrang\t2749\t8990\t403\nShemgang\t2722\t9066\t404\nMahalapye\t-2310\t2681\t405\nPalapye\t-2255\t2713\t405\nSerowe\t-2239\t2671\t405\nTonota\t-2144\t2746\t405\nLetlhakane\t-2141\t2559\t405\nKasane\t-1780\t2516\t406\nFrancistown\t-2117\t2751\t407\nGaborone\t-2465\t2591\t408\nGhanzi\t-2170\t2165\t409\nJwaneng\t-2460\t2473\t410\nTshabong\t-2605\t2245\t411\nMochudi\t-2442\t2615\t412\nThamaga\t-2467\t2554\t413\nMogoditshane\t-2463\t2587\t413\nMolepolole\t-2441\t2550\t413\nLobatse\t-2522\t2568\t414\nKanye\t-2497\t2533\t415\nMosopa\t-2477\t2542\t415\nMaun\t-1998\t2342\t416\nSelebi-Phikwe\t-2198\t2784\t417\nJaneng\t-2542\t2555\t418\nRamotswa\t-2487\t2587\t418\nBrest\t5210\t2369\t419\nPinsk\t5212\t2610\t419\nKobryn\t5221\t2436\t419\nLuninyets\t5225\t2680\t419\nByaroza\t5253\t2498\t419\nPruzhany\t5256\t2446\t419\nIvatsevichy\t5271\t2534\t419\nBaranovichi\t5313\t2601\t419\nSlonim\t5309\t2532\t420\nVolkovysk\t5316\t2445\t420\nMosty\t5341\t2454\t420\nNovogrudok\t5359\t2582\t420\nShchuchyn\t5360\t2475\t420\nHrodna\t5369\t2383\t420\nLida\t5388\t2530\t420\nSmarhon’\t5448\t2640\t420\nMazyr\t5205\t2925\t421\nKalinkavichy\t5213\t2933\t421\nRechytsa\t5236\t3039\t421\nDobrush\t5241\t3132\t421\nHomyel'\t5243\t3098\t421\nSvyetlahorsk\t5263\t2974\t421\nZhlobin\t5289\t3002\t421\nRahachow\t5309\t3005\t421\nSalihorsk\t5279\t2754\t422\nSlutsk\t5303\t2756\t422\nStowbtsy\t5348\t2674\t422\nMar’’ina Horka\t5351\t2815\t422\nDzyarzhynsk\t5368\t2714\t422\nKalodzishchy\t5394\t2778\t422\nLyasny\t5401\t2770\t422\nHorad Zhodzina\t5410\t2833\t422\nBarysaw\t5423\t2851\t422\nMaladzyechna\t5432\t2685\t422\nVilyeyka\t5449\t2691\t422\nMinsk\t5390\t2757\t423\nBabruysk\t5314\t2922\t424\nAsipovichy\t5330\t2864\t424\nBykhaw\t5352\t3025\t424\nKrychaw\t5371\t3172\t424\nMahilyow\t5392\t3034\t424\nHorki\t5429\t3099\t424\nOrsha\t5451\t3042\t425\nLyepyel’\t5488\t2870\t425\nPastavy\t5512\t2683\t425\nHlybokaye\t5514\t2769\t425\nVitebsk\t5519\t3020\t425\nPolatsk\t5549\t2879\t425\nNavapolatsk\t5553\t2860\t425\nBelize City\t1750\t-8820\t426\nSan Ignacio\t1716\t-8907\t427\nBelmopan\t1725\t-8877\t427\nCorozal\t1839\t-8839\t428\nOrange Walk\t1808\t-8856\t429\nDangriga\t1697\t-8823\t430\nPunta Gorda\t1610\t-8881\t431\nLethbridge\t4970\t-11282\t432\nMedicine Hat\t5004\t-11068\t432\nCalgary\t5105\t-11409\t432\nCochrane\t5118\t-11447\t432\nAirdrie\t5130\t-11404\t432\nRed Deer\t5227\t-11380\t432\nCamrose\t5302\t-11284\t432\nLeduc\t5327\t-11355\t432\nLloydminster\t5327\t-11002\t432\nSherwood Park\t5352\t-11332\t432\nSpruce Grove\t5353\t-11392\t432\nEdmonton\t5355\t-11347\t432\nSt. Albert\t5363\t-11364\t432\nGrande Prairie\t5517\t-11880\t432\nFort McMurray\t5673\t-11138\t432\nVictoria\t4844\t-12335\t433\nLangford\t4845\t-12350\t433\nOak Bay\t4845\t-12330\t433\nDuncan\t4878\t-12370\t433\nNorth Cowichan\t4884\t-12369\t433\nTsawwassen\t4902\t-12308\t433\nWhite Rock\t4902\t-12280\t433\nAbbotsford\t4906\t-12225\t433\nLadner\t4909\t-12308\t433\nLangley\t4910\t-12266\t433\nSurrey\t4911\t-12283\t433\nMission\t4913\t-12230\t433\nDelta\t4914\t-12291\t433\nWalnut Grove\t4916\t-12264\t433\nNanaimo\t4917\t-12394\t433\nRichmond\t4917\t-12314\t433\nChilliwack\t4917\t-12195\t433\nNew Westminster\t4921\t-12291\t433\nPitt Meadows\t4922\t-12269\t433\nMaple Ridge\t4922\t-12260\t433\nPort Alberni\t4924\t-12480\t433\nVancouver\t4925\t-12312\t433\nBurnaby\t4927\t-12295\t433\nPort Coquitlam\t4927\t-12277\t433\nWest End\t4928\t-12313\t433\nPort Moody\t4928\t-12282\t433\nCoquitlam\t4928\t-12278\t433\nNorth Vancouver\t4932\t-12307\t433\nWest Vancouver\t4937\t-12317\t433\nPenticton\t4948\t-11959\t433\nCranbrook\t4950\t-11577\t433\nCourtenay\t4969\t-12499\t433\nSquamish\t4970\t-12316\t433\nWest Kelowna\t4986\t-11958\t433\nKelowna\t4988\t-11949\t433\nCampbell River\t5002\t-12524\t433\nVernon\t5003\t-12636\t433\nVernon\t5027\t-11927\t433\nKamloops\t5067\t-12032\t433\nPrince George\t5392\t-12275\t433\nTerrace\t5452\t-12860\t433\nFort St. John\t5625\t-12085\t433\nBrandon\t4985\t-9995\t434\nWinnipeg\t4988\t-9715\t434\nSaint John\t4527\t-6606\t435\nFredericton\t4595\t-6667\t435\nDieppe\t4608\t-6469\t435\nMoncton\t4609\t-6480\t435\nLutes Mountain\t4614\t-6491\t435\nMiramichi\t4703\t-6550\t435\nEdmundston\t4737\t-6833\t435\nConception Bay South\t4750\t-5300\t436\nMount Pearl\t4752\t-5278\t436\nSt. John's\t4756\t-5271\t436\nCorner Brook\t4895\t-5795\t436\nYellowknife\t6245\t-11437\t437\nHalifax\t4465\t-6357\t438\nDartmouth\t4467\t-6358\t438\nLower Sackville\t4478\t-6368\t438\nTruro\t4537\t-6327\t438\nNew Glasgow\t4558\t-6265\t438\nSydney\t4614\t-6018\t438\nGlace Bay\t4620\t-5996\t438\nIqaluit\t6375\t-6852\t439\nLeamington\t4205\t-8260\t440\nWindsor\t4230\t-8302\t440\nChatham\t4241\t-8218\t440\nSt. Thomas\t4277\t-8118\t440\nNorfolk County\t4283\t-8038\t440\nPort Colborne\t4290\t-7923\t440\nFort Erie\t4290\t-7893\t440\nSarnia\t4298\t-8240\t440\nLondon\t4298\t-8123\t440\nWelland\t4298\t-7925\t440\nNiagara Falls\t4310\t-7907\t440\nThorold\t4312\t-7920\t440\nWoodstock\t4313\t-8075\t440\nBrant\t4313\t-8035\t440\nBrantford\t4313\t-8027\t440\nSt. Catharines\t4317\t-7924\t440\nAncaster\t4322\t-7999\t440\nHamilton\t4325\t-7985\t440\nCambridge\t4336\t-8031\t440\nStratford\t4337\t-8095\t440\nBurlington\t4339\t-7984\t440\nKitchener\t4343\t-8051\t440\nOakville\t4345\t-7968\t440\nWaterloo\t4347\t-8052\t440\nMilton\t4352\t-7988\t440\nGuelph\t4355\t-8026\t440\nMississauga\t4358\t-7966\t440\nEtobicoke\t4365\t-7957\t440\nBrampton\t4368\t-7977\t440\nEast York\t4369\t-7933\t440\nToronto\t4370\t-7942\t440\nNorth York\t4377\t-7942\t440\nWillowdale\t4377\t-7940\t440\nScarborough\t4377\t-7926\t440\nVaughan\t4384\t-7950\t440\nAjax\t4385\t-7903\t440\nRichmond Hill\t4387\t-7944\t440\nMarkham\t4387\t-7927\t440\nPickering\t4390\t-7913\t440\nOshawa\t4390\t-7885\t440\nOrangeville\t4392\t-8010\t440\nCobourg\t4396\t-7817\t440\nAurora\t4400\t-7947\t440\nPrince Edward\t4400\t-7725\t440\nNewmarket\t4405\t-7947\t440\nEast Gwillimbury\t4410\t-7944\t440\nAlliston\t4415\t-7987\t440\nBelleville\t4417\t-7738\t440\nQuinte West\t4418\t-7757\t440\nKingston\t4423\t-7648\t440\nGreater Napanee\t4425\t-7695\t440\nPeterborough\t4430\t-7832\t440\nLindsay\t4435\t-7873\t440\nBarrie\t4440\t-7967\t440\nCollingwood\t4448\t-8022\t440\nOwen Sound\t4457\t-8094\t440\nBrockville\t4459\t-7569\t440\nOrillia\t4461\t-7942\t440\nMidland\t4475\t-7988\t440\nCornwall\t4502\t-7473\t440\nKanata\t4530\t-7592\t440\nHuntsville\t4533\t-7922\t440\nNepean\t4534\t-7572\t440\nOttawa\t4541\t-7570\t440\nVanier\t4544\t-7566\t440\nClarence-Rockland\t4555\t-7529\t440\nPembroke\t4582\t-7712\t440\nPetawawa\t4589\t-7728\t440\nNorth Bay\t4632\t-7947\t440\nGreater Sudbury\t4649\t-8099\t440\nSault Ste. Marie\t4652\t-8433\t440\nRayside-Balfour\t4661\t-8121\t440\nValley East\t4667\t-8100\t440\nThunder Bay\t4838\t-8925\t440\nTimmins\t4847\t-8133\t440\nKenora\t4977\t-9449\t440\nFallingbrook\t4548\t-7548\t441\nCharlottetown\t4623\t-6313\t441\nSalaberry-de-Valleyfield\t4525\t-7413\t442\nMagog\t4527\t-7215\t442\nLes Coteaux\t4528\t-7423\t442\nSaint-Jean-sur-Richelieu\t4531\t-7326\t442\nSaint-Constant\t4537\t-7357\t442\nChâteauguay\t4538\t-7375\t442\nCandiac\t4538\t-7352\t442\nSaint-Lazare\t4540\t-7413\t442\nVaudreuil-Dorion\t4540\t-7403\t442\nSainte-Catherine\t4540\t-7358\t442\nGranby\t4540\t-7273\t442\nSherbrooke\t4540\t-7190\t442\nLa Prairie\t4542\t-7350\t442\nBeaconsfield\t4543\t-7387\t442\nle Plateau\t4544\t-7578\t442\nKirkland\t4545\t-7387\t442\nPointe-Claire\t4545\t-7382\t442\nDorval\t4545\t-7375\t442\nBrossard\t4545\t-7347\t442\nChambly\t4545\t-7328\t442\nCôte-Saint-Luc\t4547\t-7367\t442\nGatineau\t4548\t-7570\t442\nWestmount\t4548\t-7360\t442\nDollard-Des Ormeaux\t4549\t-7382\t442\nMontréal\t4551\t-7359\t442\nMont-Royal\t4552\t-7365\t442\nDeux-Montagnes\t4553\t-7390\t442\nLongueuil\t4553\t-7352\t442\nSaint-Bruno-de-Montarville\t4553\t-7335\t442\nSaint-Basile-le-Grand\t4553\t-7328\t442\nSaint-Eustache\t4557\t-7391\t442\nLaval\t4557\t-7369\t442\nBeloeil\t4557\t-7321\t442\nMont-Saint-Hilaire\t4557\t-7319\t442\nSainte-Julie\t4558\t-7333\t442\nBuckingham\t4559\t-7542\t442\nBoucherville\t4559\t-7344\t442\nBoisbriand\t4562\t-7383\t442\nSaint-Hyacinthe\t4563\t-7296\t442\nSainte-Thérèse\t4564\t-7383\t442\nMirabel\t4565\t-7408\t442\nBlainville\t4567\t-7388\t442\nVarennes\t4568\t-7343\t442\nTerrebonne\t4570\t-7365\t442\nRepentigny\t4574\t-7345\t442\nMascouche\t4575\t-7360\t442\nSaint-Jérôme\t4578\t-7400\t442\nL'Assomption\t4582\t-7343\t442\nDrummondville\t4588\t-7248\t442\nJoliette\t4602\t-7342\t442\nSorel-Tracy\t4604\t-7311\t442\nVictoriaville\t4605\t-7197\t442\nThetford-Mines\t4609\t-7131\t442\nSaint-Georges\t4611\t-7067\t442\nSainte-Catherine\t4632\t-7257\t442\nTrois-Rivières\t4635\t-7255\t442\nShawinigan\t4657\t-7275\t442\nSaint-Augustin-de-Desmaures\t4674\t-7145\t442\nL'Ancienne-Lorette\t4679\t-7135\t442\nLévis\t4680\t-7118\t442\nQuébec\t4681\t-7121\t442\nRivière-du-Loup\t4783\t-6954\t442\nVal-d'Or\t4810\t-7780\t442\nRouyn-Noranda\t4824\t-7902\t442\nSaguenay\t4842\t-7107\t442\nRimouski\t4845\t-6852\t442\nAlma\t4855\t-7165\t442\nAmos\t4857\t-7812\t442\nBaie-Comeau\t4922\t-6815\t442\nSept-Îles\t5020\t-6638\t442\nMoose Jaw\t5040\t-10553\t443\nRegina\t5045\t-10462\t443\nYorkton\t5122\t-10247\t443\nSaskatoon\t5213\t-10667\t443\nNorth Battleford\t5278\t-10830\t443\nPrince Albert\t5320\t-10577\t443\nWhitehorse\t6072\t-13505\t444\nWest Island\t-1216\t9682\t445\nMoanda\t-593\t1237\t446\nBoma\t-585\t1305\t446\nMatadi\t-584\t1346\t446\nMbanza-Ngungu\t-526\t1486\t446\nTshela\t-500\t1295\t446\nKasangulu\t-458\t1517\t446\nAketi\t274\t2378\t447\nButa\t279\t2473\t447\nBondo\t381\t2369\t447\nGandajika\t-675\t2395\t448\nMbuji-Mayi\t-614\t2359\t448\nKabinda\t-614\t2448\t448\nKipushi\t-1176\t2725\t449\nLubumbashi\t-1166\t2748\t449\nLikasi\t-1098\t2674\t449\nKambove\t-1087\t2660\t449\nBukama\t-920\t2585\t450\nKamina\t-874\t2500\t450\nWamba\t215\t2799\t451\nIsiro\t277\t2762\t451\nWatsa\t304\t2954\t451\nBunia\t156\t3025\t452\nTshikapa\t-642\t2080\t453\nLuebo\t-535\t2142\t453\nMweka\t-485\t2156\t453\nIlebo\t-433\t2059\t453\nKananga\t-590\t2242\t454\nDemba\t-550\t2227\t454\nMasina\t-438\t1539\t455\nKinshasa\t-433\t1531\t455\nKasongo-Lunda\t-648\t1682\t456\nKikwit\t-504\t1882\t457\nBulungu\t-454\t1860\t457\nMangai\t-402\t1953\t457\nBandundu\t-332\t1738\t457\nMwene-Ditu\t-701\t2345\t458\nLubao\t-539\t2575\t458\nKolwezi\t-1071\t2547\t459\nMushie\t-302\t1692\t460\nNioki\t-272\t1769\t460\nBolobo\t-216\t1623\t460\nInongo\t-193\t1829\t460\nKasongo\t-443\t2667\t461\nKampene\t-360\t2667\t461\nKindu\t-294\t2592\t461\nBumba\t219\t2247\t462\nBusinga\t334\t2089\t463\nGbadolite\t428\t2100\t463\nGoma\t-167\t2923\t464\nSake\t-157\t2904\t464\nButembo\t14\t2929\t464\nBeni\t49\t2947\t464\nLusambo\t-498\t2344\t465\nLodja\t-352\t2360\t465\nUvira\t-340\t2914\t466\nKabare\t-250\t2879\t466\nBukavu\t-249\t2884\t466\nLibenge\t365\t1864\t467\nKabalo\t-605\t2691\t468\nKalemie\t-595\t2919\t468\nKongolo\t-539\t2700\t468\nKisangani\t52\t2519\t469\nYangambi\t77\t2444\t469\nBasoko\t124\t2362\t469\nBoende\t-28\t2088\t470\nLukolela\t-106\t1718\t471\nMbandaka\t5\t1826\t471\nLisala\t215\t2152\t471\nGemena\t326\t1977\t471\nNdélé\t841\t2065\t472\nBangui\t436\t1855\t473\nMobaye\t432\t2118\t474\nObo\t540\t2649\t475\nBria\t654\t2199\t476\nSibut\t572\t1907\t477\nMbaïki\t387\t1799\t478\nBoda\t432\t1747\t478\nBerbérati\t426\t1579\t479\nCarnot\t494\t1588\t479\nBangassou\t474\t2282\t480\nKaga Bandoro\t699\t1919\t481\nBouar\t593\t1560\t482\nBimbo\t426\t1842\t483\nDamara\t496\t1870\t483\nBambari\t577\t2068\t484\nIppy\t627\t2122\t484\nBossangoa\t649\t1746\t485\nBatangafo\t730\t1828\t485\nBozoum\t632\t1638\t486\nPaoua\t724\t1644\t486\nNola\t352\t1605\t487\nBirao\t1028\t2279\t488\nKayes\t-420\t1329\t489\nMadingou\t-415\t1355\t489\nBrazzaville\t-427\t1528\t490\nOwando\t-48\t1590\t491\nEwo\t-87\t1482\t492\nLoango\t-465\t1181\t493\nImpfondo\t162\t1806\t494\nSibiti\t-368\t1335\t495\nDolisie\t-420\t1267\t496\nMossendjo\t-295\t1270\t496\nDjambala\t-254\t1475\t497\nGamboma\t-188\t1586\t497\nPointe-Noire\t-478\t1186\t498\nLoandjili\t-476\t1186\t498\nKinkala\t-436\t1476\t499\nOuésso\t161\t1605\t500\nAarau\t4739\t804\t501\nBaden\t4747\t831\t501\nWettingen\t4747\t832\t501\nHerisau\t4739\t928\t502\nAppenzell\t4733\t941\t503\nBasel\t4756\t757\t504\nRiehen\t4758\t765\t504\nLiestal\t4748\t773\t505\nMuttenz\t4752\t765\t505\nAllschwil\t4755\t754\t505\nThun\t4675\t762\t506\nSteffisburg\t4678\t763\t506\nKöniz\t4692\t741\t506\nBern\t4695\t745\t506\nBiel/Bienne\t4714\t725\t506\nFribourg\t4680\t715\t507\nOnex\t4618\t610\t508\nCarouge\t4618\t614\t508\nGenève\t4620\t615\t508\nVernier\t4622\t608\t508\nMeyrin\t4623\t608\t508\nGlarus\t4704\t907\t509\nChur\t4685\t953\t510\nDelémont\t4736\t734\t511\nKriens\t4703\t829\t512\nLittau\t4705\t826\t512\nLuzern\t4705\t831\t512\nEmmen\t4708\t827\t512\nNeuchâtel\t4699\t693\t513\nLa Chaux-de-Fonds\t4710\t683\t513\nStans\t4696\t837\t514\nSarnen\t4690\t825\t515\nRapperswil\t4723\t882\t516\nJona\t4723\t884\t516\nGossau\t4742\t925\t516\nSankt Gallen\t4742\t937\t516\nWil\t4746\t905\t516\nSchaffhausen\t4770\t863\t517\nSchwyz\t4702\t865\t518\nGrenchen\t4719\t740\t519\nSolothurn\t4721\t754\t519\nOlten\t4735\t790\t519\nFrauenfeld\t4756\t890\t520\nKreuzlingen\t4765\t918\t520\nLugano\t4601\t896\t521\nBellinzona\t4619\t902\t521\nAltdorf\t4688\t864\t522\nSitten\t4623\t736\t523\nMonthey\t4625\t695\t523\nSierre\t4629\t754\t523\nNyon\t4638\t624\t524\nMontreux\t4643\t691\t524\nVevey\t4646\t684\t524\nPully\t4651\t666\t524\nLausanne\t4652\t663\t524\nRenens\t4654\t659\t524\nYverdon-les-Bains\t4678\t664\t524\nZug\t4717\t852\t525\nBaar\t4720\t853\t525\nHorgen\t4726\t860\t526\nAdliswil\t4731\t852\t526\nUster\t4735\t872\t526\nZürich\t4737\t855\t526\nDietikon\t4740\t840\t526\nDübendorf\t4740\t862\t526\nKloten\t4745\t858\t526\nSeen (Kreis 3)\t4748\t877\t526\nStadt Winterthur (Kreis 1)\t4749\t872\t526\nWinterthur\t4751\t872\t526\nAbidjan\t535\t-400\t527\nBingerville\t536\t-389\t527\nAbobo\t542\t-402\t527\nAnyama\t549\t-405\t527\nTabou\t442\t-735\t528\nSan-Pédro\t475\t-664\t528\nSassandra\t495\t-609\t528\nGrand-Bassam\t521\t-374\t529\nBonoua\t527\t-360\t529\nAdiaké\t529\t-330\t529\nAboisso\t547\t-321\t529\nAbengourou\t673\t-350\t529\nAgnibilékrou\t713\t-320\t529\nOdienné\t951\t-756\t530\nDivo\t584\t-536\t531\nLakota\t585\t-568\t531\nGagnoa\t613\t-595\t531\nOumé\t638\t-542\t531\nToumodi\t656\t-502\t532\nDimbokro\t665\t-471\t532\nBongouanou\t665\t-420\t532\nArrah\t667\t-397\t532\nYamoussoukro\t682\t-528\t532\nDaoukro\t706\t-396\t532\nDabou\t533\t-438\t533\nTiassalé\t590\t-482\t533\nAgboville\t593\t-421\t533\nAdzopé\t611\t-386\t533\nAffery\t632\t-395\t533\nAkoupé\t638\t-389\t533\nGuiglo\t654\t-749\t534\nDuekoué\t674\t-735\t534\nBangolo\t701\t-749\t534\nDanané\t726\t-815\t534\nMan\t741\t-755\t534\nBiankouma\t774\t-761\t534\nIssia\t649\t-659\t535\nDaloa\t688\t-645\t535\nBouaflé\t699\t-574\t535\nVavoua\t738\t-648\t535\nZuénoula\t743\t-605\t535\nKorhogo\t946\t-563\t536\nBoundiali\t952\t-649\t536\nFerkessédougou\t959\t-519\t536\nTengréla\t1048\t-641\t536\nSakassou\t745\t-529\t537\nBéoumi\t767\t-558\t537\nBouaké\t769\t-503\t537\nKatiola\t814\t-510\t537\nSéguéla\t796\t-667\t538\nMankono\t806\t-619\t538\nTouba\t828\t-768\t538\nSinfra\t662\t-591\t539\nTanda\t780\t-317\t539\nBondoukou\t804\t-280\t539\nBouna\t927\t-300\t539\nAvarua\t-2121\t-15978\t540\nAntofagasta\t-2365\t-7040\t541\nCalama\t-2246\t-6892\t541\nTocopilla\t-2209\t-7020\t541\nLoncoche\t-3937\t-7263\t542\nVillarrica\t-3929\t-7223\t542\nPucón\t-3928\t-7195\t542\nNueva Imperial\t-3874\t-7295\t542\nTemuco\t-3874\t-7260\t542\nLautaro\t-3853\t-7244\t542\nVictoria\t-3823\t-7233\t542\nCollipulli\t-3795\t-7243\t542\nAngol\t-3780\t-7272\t542\nArica\t-1847\t-7030\t543\nVallenar\t-2858\t-7076\t544\nCopiapó\t-2737\t-7033\t544\nDiego de Almagro\t-2637\t-7005\t544\nCoyhaique\t-4558\t-7207\t545\nPuerto Aysén\t-4540\t-7269\t545\nCañete\t-3780\t-7340\t546\nMulchén\t-3772\t-7224\t546\nLebu\t-3761\t-7365\t546\nNacimiento\t-3750\t-7267\t546\nCuranilahue\t-3748\t-7334\t546\nLos Ángeles\t-3747\t-7235\t546\nLaja\t-3728\t-7271\t546\nArauco\t-3725\t-7332\t546\nLota\t-3709\t-7316\t546\nCoronel\t-3703\t-7314\t546\nCabrero\t-3703\t-7240\t546\nChiguayante\t-3693\t-7303\t546\nConcepción\t-3683\t-7305\t546\nPenco\t-3674\t-7300\t546\nTalcahuano\t-3672\t-7312\t546\nTomé\t-3662\t-7296\t546\nIllapel\t-3163\t-7117\t547\nOvalle\t-3060\t-7120\t547\nCoquimbo\t-2995\t-7134\t547\nLa Serena\t-2990\t-7125\t547\nQuellón\t-4312\t-7362\t548\nCastro\t-4247\t-7377\t548\nAncud\t-4187\t-7382\t548\nPuerto Montt\t-4147\t-7294\t548\nPuerto Varas\t-4132\t-7299\t548\nOsorno\t-4057\t-7313\t548\nRío Bueno\t-4033\t-7296\t549\nLa Unión\t-4029\t-7308\t549\nValdivia\t-3981\t-7325\t549\nLas Animas\t-3981\t-7322\t549\nPanguipulli\t-3964\t-7233\t549\nParral\t-3614\t-7183\t550\nCauquenes\t-3597\t-7232\t550\nLinares\t-3585\t-7159\t550\nSan Javier\t-3560\t-7173\t550\nTalca\t-3543\t-7166\t550\nConstitución\t-3533\t-7241\t550\nMolina\t-3511\t-7128\t550\nCuricó\t-3498\t-7124\t550\nChimbarongo\t-3471\t-7104\t551\nSanta Cruz\t-3464\t-7137\t551\nSan Vicente de Tagua Tagua\t-3444\t-7108\t551\nSan Vicente\t-3443\t-7108\t551\nRengo\t-3441\t-7086\t551\nMachalí\t-3418\t-7065\t551\nRancagua\t-3417\t-7074\t551\nGraneros\t-3407\t-7073\t551\nPunta Arenas\t-5315\t-7091\t552\nPuerto Natales\t-5173\t-7251\t552\nPaine\t-3381\t-7074\t553\nBuin\t-3373\t-7074\t553\nMelipilla\t-3369\t-7122\t553\nEl Monte\t-3368\t-7098\t553\nTalagante\t-3366\t-7093\t553\nPeñaflor\t-3361\t-7088\t553\nPuente Alto\t-3361\t-7058\t553\nSan Bernardo\t-3359\t-7070\t553\nLa Pintana\t-3358\t-7063\t553\nSantiago\t-3346\t-7065\t553\nLo Prado\t-3344\t-7073\t553\nLampa\t-3329\t-7088\t553\nChicureo Abajo\t-3328\t-7065\t553\nIquique\t-2021\t-7015\t554\nSan Antonio\t-3359\t-7161\t555\nCartagena\t-3355\t-7161\t555\nQuilpué\t-3305\t-7144\t555\nValparaíso\t-3304\t-7163\t555\nVilla Alemana\t-3304\t-7137\t555\nViña del Mar\t-3302\t-7155\t555\nLimache\t-3302\t-7127\t555\nQuillota\t-3288\t-7125\t555\nLlaillay\t-3284\t-7096\t555\nLos Andes\t-3283\t-7060\t555\nHacienda La Calera\t-3278\t-7122\t555\nSan Felipe\t-3275\t-7073\t555\nLa Ligua\t-3245\t-7123\t555\nChillán\t-3661\t-7210\t556\nSan Carlos\t-3642\t-7196\t556\nTibati\t647\t1263\t557\nMeïganga\t652\t1430\t557\nBanyo\t675\t1182\t557\nNgaoundéré\t733\t1358\t557\nMbalmayo\t352\t1150\t558\nEséka\t365\t1077\t558\nAkonolinga\t377\t1225\t558\nYaoundé\t387\t1152\t558\nObala\t417\t1153\t558\nMbandjok\t445\t1190\t558\nNkoteng\t452\t1203\t558\nNanga Eboko\t468\t1237\t558\nBafia\t475\t1123\t558\nBatouri\t443\t1437\t559\nBertoua\t458\t1368\t559\nBélabo\t493\t1330\t559\nGaroua Boulaï\t588\t1455\t559\nKaélé\t1011\t1445\t560\nYagoua\t1034\t1523\t560\nMaroua\t1059\t1432\t560\nBogo\t1073\t1461\t560\nMokolo\t1074\t1380\t560\nMora\t1105\t1414\t560\nKousséri\t1208\t1503\t560\nDizangué\t377\t998\t561\nEdéa\t380\t1013\t561\nDouala\t405\t970\t561\nMbanga\t450\t957\t561\nPenja\t464\t968\t561\nLoum\t472\t974\t561\nManjo\t484\t982\t561\nNkongsamba\t495\t994\t561\nMelong\t512\t996\t561\nTcholliré\t840\t1417\t562\nLagdo\t906\t1367\t562\nGaroua\t930\t1340\t562\nGuider\t993\t1395\t562\nBali\t589\t1001\t563\nBamenda\t596\t1015\t563\nKumbo\t620\t1067\t563\nFundong\t625\t1027\t563\nWum\t638\t1007\t563\nÉbolowa\t290\t1115\t564\nSangmélima\t293\t1198\t564\nKribi\t294\t991\t564\nLolodorf\t323\t1073\t564\nLimbe\t402\t921\t565\nTiko\t408\t936\t565\nMutengene\t409\t931\t565\nBuea\t415\t924\t565\nMuyuka\t429\t941\t565\nBamusso\t446\t890\t565\nKumba\t464\t945\t565\nFontem\t547\t988\t565\nMamfe\t575\t931\t565\nTonga\t497\t1070\t566\nBangangté\t514\t1053\t566\nBafang\t516\t1018\t566\nDschang\t544\t1005\t566\nBafoussam\t548\t1042\t566\nFoumbot\t551\t1063\t566\nMbouda\t563\t1025\t566\nFoumban\t573\t1090\t566\nWucheng\t2960\t11817\t567\nHuangshan\t2971\t11831\t567\nAnqing\t3051\t11705\t567\nChizhou\t3066\t11748\t567\nWusong\t3095\t11778\t567\nXuanzhou\t3095\t11876\t567\nLucheng\t3123\t11728\t567\nWuhu\t3134\t11837\t567\nGushu\t3156\t11848\t567\nChaohu\t3160\t11787\t567\nHefei\t3186\t11728\t567\nWuyang\t3199\t11625\t567\nChuzhou\t3232\t11830\t567\nHuoqiu Chengguanzhen\t3235\t11629\t567\nDatong\t3262\t11706\t567\nYingshang Chengguanzhen\t3263\t11627\t567\nHuainan\t3263\t11700\t567\nMingguang\t3278\t11796\t567\nFuyang\t3290\t11582\t567\nBengbu\t3294\t11736\t567\nHuaiyuan Chengguanzhen\t3296\t11717\t567\nJieshou\t3326\t11536\t567\nMengcheng Chengguanzhen\t3327\t11657\t567\nSuzhou\t3364\t11698\t567\nBozhou\t3388\t11577\t567\nSuixi\t3389\t11677\t567\nHuaibei\t3397\t11679\t567\nTangzhai\t3443\t11659\t567\nFangshan\t3969\t11600\t568\nLiangxiang\t3974\t11613\t568\nDaxing\t3974\t11633\t568\nTongzhou\t3990\t11666\t568\nBeijing\t3991\t11640\t568\nMentougou\t3994\t11609\t568\nShunyi\t4012\t11665\t568\nChangping\t4022\t11623\t568\nJijiang\t2929\t10625\t569\nYongchuan\t2935\t10589\t569\nYudong\t2939\t10652\t569\nChongqing\t2956\t10655\t569\nFuling\t2971\t10740\t569\nBeibei\t2983\t10644\t569\nHechuan\t2999\t10626\t569\nWanxian\t3082\t10837\t569\nShima\t2445\t11781\t570\nXiamen\t2448\t11808\t570\nZhangzhou\t2451\t11766\t570\nJinjiang\t2482\t11857\t570\nQuanzhou\t2491\t11859\t570\nLuoyang\t2496\t11868\t570\nXimeicun\t2499\t11839\t570\nPutian\t2544\t11901\t570\nJiangkou\t2549\t11920\t570\nFuqing\t2573\t11937\t570\nTantou\t2603\t11960\t570\nFuzhou\t2606\t11931\t570\nSanming\t2625\t11762\t570\nNanping\t2665\t11817\t570\nNingde\t2666\t11952\t570\nJian’ou\t2704\t11832\t570\nFu’an\t2706\t11965\t570\nFuding\t2733\t12021\t570\nShaowu\t2734\t11748\t570\nWuyishan\t2776\t11803\t570\nPucheng\t2792\t11853\t570\nBeidao\t3457\t10589\t571\nTianshui\t3458\t10574\t571\nPingliang\t3554\t10669\t571\nLinxia Chengguanzhen\t3560\t10321\t571\nLanzhou\t3606\t10384\t571\nBaiyin\t3655\t10417\t571\nWuwei\t3793\t10263\t571\nJinchang\t3850\t10219\t571\nZhangye\t3893\t10045\t571\nJiuquan\t3974\t9852\t571\nJiayuguan\t3981\t9829\t571\nLaojunmiao\t3983\t9773\t571\nXucheng\t2033\t11017\t572\nZhanjiang\t2128\t11034\t572\nZhongshan\t2132\t11057\t572\nWuchuan\t2146\t11077\t572\nHuazhou\t2163\t11058\t572\nLianjiang\t2165\t11028\t572\nYangjiang\t2186\t11196\t572\nGaozhou\t2194\t11085\t572\nTangping\t2203\t11194\t572\nYangchun\t2217\t11178\t572\nEncheng\t2219\t11230\t572\nTaishan\t2225\t11278\t572\nZhuhai\t2228\t11357\t572\nXinyi\t2237\t11095\t572\nXinhui\t2246\t11305\t572\nShiqi\t2252\t11339\t572\nShenzhen\t2255\t11407\t572\nJiangmen\t2258\t11308\t572\nShaping\t2277\t11296\t572\nShanwei\t2278\t11535\t572\nDanshui\t2280\t11447\t572\nJieshi\t2281\t11583\t572\nHumen\t2282\t11367\t572\nDaliang\t2284\t11325\t572\nJiazi\t2288\t11607\t572\nYunfu\t2293\t11204\t572\nShiqiao\t2295\t11336\t572\nDonghai\t2295\t11564\t572\nPingshan\t2299\t11471\t572\nShiwan\t2300\t11308\t572\nDongguan\t2302\t11375\t572\nFoshan\t2303\t11313\t572\nHuicheng\t2304\t11629\t572\nZhaoqing\t2305\t11246\t572\nDasha\t2311\t11344\t572\nShilong\t2311\t11385\t572\nHuizhou\t2311\t11442\t572\nGuangzhou\t2312\t11325\t572\nSanshui\t2315\t11289\t572\nLuoyang\t2316\t11427\t572\nLubu\t2317\t11228\t572\nHaimen\t2319\t11661\t572\nDucheng\t2324\t11153\t572\nLicheng\t2330\t11382\t572\nPuning\t2331\t11617\t572\nShantou\t2337\t11671\t572\nHepo\t2343\t11583\t572\nAnbu\t2345\t11668\t572\nChenghua\t2346\t11677\t572\nJieyang\t2354\t11637\t572\nChaozhou\t2365\t11662\t572\nHuanggang\t2368\t11700\t572\nQingyuan\t2370\t11303\t572\nNanfeng\t2373\t11180\t572\nHeyuan\t2373\t11468\t572\nHuaicheng\t2392\t11218\t572\nMeizhou\t2429\t11612\t572\nMaba\t2468\t11360\t572\nLianzhou\t2478\t11237\t572\nShaoguan\t2480\t11358\t572\nShixing\t2495\t11407\t572\nXiongzhou\t2512\t11430\t572\nLecheng\t2513\t11335\t572\nBeihai\t2148\t10910\t573\nLianzhou\t2167\t10920\t573\nQinzhou\t2197\t10863\t573\nBaihe\t2213\t10723\t573\nYashan\t2220\t10994\t573\nYulin\t2263\t11015\t573\nLingcheng\t2271\t11035\t573\nPumiao\t2276\t10848\t573\nNanning\t2282\t10832\t573\nNandu\t2285\t11082\t573\nGuigang\t2310\t10961\t573\nJinji\t2323\t11083\t573\nGuiping\t2339\t11007\t573\nWuzhou\t2348\t11132\t573\nPingnan\t2354\t11039\t573\nLaibin\t2370\t10927\t573\nBaise City\t2390\t10661\t573\nLuorong\t2441\t10961\t573\nBabu\t2442\t11152\t573\nYangshuo\t2478\t11049\t573\nGuilin\t2528\t11029\t573\nXiaoweizhai\t2619\t10751\t574\nAnshun\t2625\t10593\t574\nDuyun\t2627\t10752\t574\nGuiyang\t2658\t10672\t574\nLiupanshui\t2659\t10483\t574\nWeining\t2685\t10423\t574\nBijie\t2730\t10529\t574\nZunyi\t2769\t10691\t574\nTongren\t2772\t10919\t574\nLoushanguan\t2814\t10682\t574\nDadonghai\t1822\t10951\t575\nSanya\t1824\t10951\t575\nWanning\t1880\t11038\t575\nQionghai\t1924\t11046\t575\nWenchang\t1962\t11075\t575\nJinjiang\t1973\t11001\t575\nLincheng\t1991\t10969\t575\nXiuying\t2000\t11029\t575\nQiongshan\t2001\t11035\t575\nHaikou\t2005\t11034\t575\nLinshui\t3642\t11420\t576\nPengcheng\t3643\t11417\t576\nHecun\t3653\t11411\t576\nHandan\t3660\t11447\t576\nShahecheng\t3694\t11451\t576\nXingtai\t3706\t11449\t576\nNangong\t3736\t11537\t576\nHengshui\t3773\t11570\t576\nLuancheng\t3788\t11465\t576\nXinji\t3790\t11520\t576\nTianchang\t3800\t11402\t576\nShijiazhuang\t3804\t11448\t576\nBotou\t3807\t11657\t576\nCangzhou\t3832\t11687\t576\nDingzhou\t3851\t11500\t576\nRenqiu\t3870\t11609\t576\nBaoding\t3885\t11549\t576\nLangfang\t3951\t11669\t576\nTangshan\t3963\t11818\t576\nChangli\t3970\t11915\t576\nLinxi\t3971\t11845\t576\nGuye\t3973\t11844\t576\nTangjiazhuang\t3974\t11845\t576\nZhaogezhuang\t3977\t11841\t576\nBeidaihehaibin\t3982\t11952\t576\nFengrun\t3983\t11812\t576\nQinhuangdao\t3993\t11959\t576\nShanhaiguan\t4000\t11975\t576\nSongling\t4029\t11827\t576\nZhangjiakou Shi Xuanhua Qu\t4061\t11504\t576\nZhangjiakou\t4081\t11488\t576\nChengde\t4095\t11796\t576\nDongning\t4406\t13112\t577\nSuifenhe\t4440\t13115\t577\nHailin\t4457\t12939\t577\nMudanjiang\t4458\t12960\t577\nChaihe\t4476\t12968\t577\nWuchang\t4491\t12715\t577\nBamiantong\t4492\t13052\t577\nShangzhi\t4521\t12797\t577\nFendou\t4521\t13090\t577\nJidong\t4522\t13108\t577\nLinkou\t4529\t13026\t577\nJixi\t4530\t13096\t577\nChengzihe\t4533\t13107\t577\nShuangcheng\t4535\t12628\t577\nDongxing\t4536\t13079\t577\nZhaoyuan\t4550\t12513\t577\nAcheng\t4555\t12698\t577\nMishan\t4555\t13188\t577\nZhaozhou\t4568\t12532\t577\nShanhecun\t4571\t12858\t577\nHarbin\t4575\t12665\t577\nBinzhou\t4575\t12748\t577\nBoli\t4575\t13057\t577\nTaihecun\t4576\t13085\t577\nHulan\t4598\t12660\t577\nZhaodong\t4607\t12598\t577\nBayan\t4608\t12740\t577\nHuanan\t4622\t13053\t577\nLanxi\t4626\t12628\t577\nYilan\t4632\t12955\t577\nBaoqing\t4633\t13221\t577\nTailai\t4639\t12341\t577\nHonggang\t4640\t12488\t577\nAnda\t4640\t12531\t577\nLongfeng\t4653\t12510\t577\nBaoshan\t4656\t13142\t577\nLingdong\t4657\t13115\t577\nDaqing\t4658\t12500\t577\nSuihua\t4664\t12700\t577\nShuangyashan\t4664\t13115\t577\nQinggang\t4668\t12611\t577\nFuli\t4672\t13114\t577\nJiamusi\t4680\t13032\t577\nWangkui\t4683\t12648\t577\nTaikang\t4686\t12444\t577\nLangxiang\t4695\t12887\t577\nTieli\t4698\t12804\t577\nLianhe\t4713\t12927\t577\nMingshui\t4718\t12590\t577\nHulan Ergi\t4720\t12363\t577\nSuileng\t4725\t12710\t577\nFujin\t4726\t13203\t577\nLongjiang\t4733\t12318\t577\nQiqihar\t4734\t12396\t577\nHegang\t4735\t13030\t577\nHailun\t4746\t12695\t577\nNianzishan\t4752\t12288\t577\nFengxiang\t4758\t13082\t577\nBaiquan\t4761\t12608\t577\nYichun\t4772\t12888\t577\nFuyu\t4780\t12446\t577\nYouhao\t4785\t12884\t577\nGannan\t4791\t12350\t577\nBei’an\t4827\t12660\t577\nXinqing\t4829\t12952\t577\nFuyuan\t4836\t13429\t577\nNehe\t4848\t12483\t577\nNenjiang\t4917\t12522\t577\nHeihe\t5024\t12749\t577\nTahe\t5233\t12473\t577\nXinyang\t3212\t11407\t578\nDingcheng\t3213\t11504\t578\nMinggang\t3246\t11405\t578\nHancheng\t3252\t11235\t578\nHuazhou\t3268\t11208\t578\nBinhe\t3269\t11283\t578\nZhumadian\t3298\t11403\t578\nNanyang\t3299\t11253\t578\nRuning\t3300\t11435\t578\nHuaidian\t3343\t11503\t578\nYunyang\t3345\t11271\t578\nLuohe\t3356\t11404\t578\nZhoukou\t3363\t11463\t578\nXincheng\t3363\t11518\t578\nJishui\t3373\t11540\t578\nPingdingshan\t3374\t11330\t578\nWacheng\t3378\t11452\t578\nXiangcheng Chengguanzhen\t3385\t11348\t578\nXuchang\t3403\t11386\t578\nYingchuan\t3416\t11346\t578\nShangqiu\t3445\t11565\t578\nSongyang\t3446\t11303\t578\nLuoyang\t3468\t11245\t578\nYima\t3474\t11188\t578\nZijinglu\t3476\t11297\t578\nZhengzhou\t3476\t11365\t578\nKaifeng\t3480\t11431\t578\nXixiang\t3516\t11287\t578\nXinxiang\t3519\t11380\t578\nJiaozuo\t3524\t11323\t578\nDaokou\t3556\t11451\t578\nPuyang Chengguanzhen\t3571\t11501\t578\nYigou\t3581\t11432\t578\nHebi\t3590\t11419\t578\nAnyang\t3610\t11438\t578\nXiulin\t2972\t11240\t579\nPuqi\t2972\t11388\t579\nXindi\t2982\t11347\t579\nXianning\t2984\t11432\t579\nWuxue\t2985\t11555\t579\nFengkou\t3008\t11333\t579\nDaye\t3008\t11495\t579\nHuangmei\t3019\t11602\t579\nCaohe\t3023\t11543\t579\nHuangshi\t3025\t11505\t579\nBuhe\t3029\t11223\t579\nLichuan\t3030\t10885\t579\nEnshi\t3030\t10948\t579\nZhicheng\t3030\t11150\t579\nShashi\t3031\t11224\t579\nJingzhou\t3035\t11219\t579\nXiantao\t3037\t11344\t579\nEzhou\t3040\t11483\t579\nZhijiang\t3042\t11175\t579\nQianjiang\t3042\t11289\t579\nHuangzhou\t3045\t11480\t579\nQingquan\t3045\t11526\t579\nCaidian\t3058\t11403\t579\nWuhan\t3058\t11427\t579\nJingling\t3065\t11310\t579\nHanchuan\t3065\t11377\t579\nDuobao\t3067\t11269\t579\nYichang\t3071\t11128\t579\nXinzhou\t3087\t11480\t579\nHuangpi\t3088\t11438\t579\nXiaogan\t3093\t11392\t579\nChengzhong\t3094\t11355\t579\nJingmen\t3103\t11220\t579\nXinshi\t3105\t11314\t579\nYunmeng Chengguanzhen\t3106\t11377\t579\nZhongxiang\t3117\t11258\t579\nMacheng\t3118\t11502\t579\nAnlu\t3126\t11368\t579\nGuangshui\t3162\t11400\t579\nXihe\t3169\t11347\t579\nYicheng\t3170\t11226\t579\nSuizhou\t3171\t11336\t579\nNanzhang Chengguanzhen\t3178\t11183\t579\nXiangyang\t3204\t11214\t579\nZaoyang\t3213\t11275\t579\nGucheng Chengguanzhen\t3227\t11163\t579\nLaohekou\t3239\t11167\t579\nDanjiangkou\t3254\t11151\t579\nShiyan\t3265\t11078\t579\nChenzhou\t2580\t11303\t580\nLeiyang\t2640\t11286\t580\nLengshuitan\t2641\t11160\t580\nBojia\t2647\t11197\t580\nWuxi\t2658\t11186\t580\nGantang\t2672\t10977\t580\nHongqiao\t2677\t11211\t580\nHengyang\t2689\t11262\t580\nHongjiang\t2711\t11000\t580\nAnjiang\t2732\t11010\t580\nQingshuping\t2738\t11202\t580\nSantangpu\t2741\t11199\t580\nGantang\t2744\t11197\t580\nYongfeng\t2745\t11217\t580\nHuaihua\t2756\t11000\t580\nXishan\t2767\t11350\t580\nLengshuijiang\t2769\t11143\t580\nLianyuan\t2769\t11166\t580\nLoudi\t2773\t11199\t580\nXiangxiang\t2773\t11253\t580\nShangmei\t2774\t11130\t580\nZhuzhou\t2783\t11315\t580\nXiangtan\t2785\t11290\t580\nFenghuang\t2794\t10960\t580\nGuankou\t2816\t11363\t580\nChangsha\t2820\t11297\t580\nYutan\t2826\t11256\t580\nQianzhou\t2832\t10973\t580\nYiyang\t2859\t11233\t580\nWenxing\t2868\t11288\t580\nQionghu\t2884\t11237\t580\nChangde\t2903\t11170\t580\nZhangjiajie\t2913\t11048\t580\nWulingyuan\t2935\t11054\t580\nNanzhou\t2936\t11240\t580\nYueyang\t2937\t11309\t580\nAnxiang\t2940\t11215\t580\nJinshi\t2960\t11187\t580\nWuda\t3950\t10671\t581\nOrdos\t3961\t10978\t581\nWuhai\t3968\t10682\t581\nDongsheng\t3982\t10998\t581\nBeichengqu\t4044\t11315\t581\nSalaqi\t4054\t11051\t581\nBaotou\t4058\t11002\t581\nShiguai\t4071\t11029\t581\nBayan Nur\t4074\t10739\t581\nHohhot\t4081\t11165\t581\nJining\t4103\t11311\t581\nPingzhuang\t4204\t11929\t581\nMujiayingzi\t4212\t11878\t581\nChifeng\t4227\t11896\t581\nTongliao\t4361\t12227\t581\nErenhot\t4365\t11198\t581\nXilin Hot\t4397\t11603\t581\nUlanhot\t4608\t12208\t581\nZhalantun\t4801\t12274\t581\nHailar\t4920\t11970\t581\nYakeshi\t4928\t12073\t581\nJalai Nur\t4945\t11770\t581\nManzhouli\t4960\t11743\t581\nJiagedaqi\t5042\t12412\t581\nOroqen Zizhiqi\t5057\t12372\t581\nGenhe\t5078\t12152\t581\nZhouzhuang\t3112\t12084\t582\nSongling\t3119\t12072\t582\nMudu\t3126\t12052\t582\nSuzhou\t3130\t12060\t582\nYicheng\t3136\t11982\t582\nKunshan\t3138\t12095\t582\nLicheng\t3143\t11948\t582\nHutang\t3153\t11949\t582\nWuxi\t3157\t12029\t582\nChangshu City\t3165\t12074\t582\nChangzhou\t3177\t11995\t582\nHuilong\t3181\t12166\t582\nZhangjiagang\t3187\t12054\t582\nJiangyin\t3191\t12026\t582\nXiaolingwei\t3203\t11885\t582\nNantong\t3203\t12087\t582\nNanjing\t3206\t11878\t582\nJinsha\t3209\t12107\t582\nTaixing\t3217\t12001\t582\nZhenjiang\t3221\t11946\t582\nZhenzhou\t3228\t11917\t582\nJuegang\t3232\t12119\t582\nYangzhou\t3240\t11944\t582\nXiannü\t3243\t11956\t582\nTaizhou\t3249\t11991\t582\nJiangyan\t3251\t12014\t582\nGaoyou\t3279\t11944\t582\nDongtai\t3285\t12031\t582\nXinghua\t3294\t11983\t582\nDazhong\t3320\t12046\t582\nBaoying\t3323\t11931\t582\nQinnan\t3325\t11991\t582\nYancheng\t3336\t12016\t582\nHuai'an\t3359\t11902\t582\nGuiren\t3367\t11819\t582\nZhongxing\t3370\t11868\t582\nHede\t3377\t12026\t582\nSuicheng\t3390\t11793\t582\nDongkan\t3400\t11983\t582\nGaogou\t3402\t11919\t582\nTongshan\t3418\t11716\t582\nPizhou\t3431\t11795\t582\nHaizhou\t3458\t11913\t582\nXinpu\t3460\t11916\t582\nFengxian\t3470\t11659\t582\nJi’an\t2712\t11498\t583\nPingxiang\t2762\t11385\t583\nXinyu\t2780\t11493\t583\nFenyi\t2781\t11467\t583\nYichun\t2783\t11440\t583\nJianguang\t2819\t11578\t583\nGuixi\t2829\t11721\t583\nShangrao\t2845\t11794\t583\nNanchang\t2868\t11585\t583\nChangleng\t2870\t11582\t583\nPoyang\t2899\t11667\t583\nJingdezhen\t2929\t11721\t583\nJiujiang\t2970\t11600\t583\nTonghua\t4172\t12593\t584\nErdaojiang\t4178\t12603\t584\nLinjiang\t4181\t12691\t584\nBaishan\t4194\t12642\t584\nHepingjie\t4206\t12692\t584\nSanchazi\t4208\t12660\t584\nSongjianghe\t4219\t12748\t584\nLiuhe\t4224\t12572\t584\nMeihekou\t4253\t12568\t584\nHelong\t4254\t12900\t584\nHuinan\t4262\t12626\t584\nDongfeng\t4264\t12551\t584\nChaoyang\t4266\t12603\t584\nLongjing\t4277\t12942\t584\nHunchun\t4287\t13036\t584\nLiaoyuan\t4290\t12514\t584\nYanji\t4291\t12951\t584\nPanshi\t4294\t12606\t584\nHuadian\t4296\t12675\t584\nTumen\t4297\t12984\t584\nMingyue\t4311\t12892\t584\nSiping\t4316\t12438\t584\nYantongshan\t4329\t12601\t584\nLishu\t4330\t12433\t584\nDashitou\t4331\t12851\t584\nWangqing\t4332\t12976\t584\nDunhua\t4337\t12824\t584\nGongzhuling\t4350\t12482\t584\nZhengjiatun\t4351\t12351\t584\nShuangyang\t4352\t12567\t584\nHuangnihe\t4356\t12802\t584\nBaishishan\t4358\t12757\t584\nMinzhu\t4372\t12733\t584\nJilin\t4385\t12656\t584\nChangchun\t4388\t12532\t584\nXinglongshan\t4396\t12547\t584\nJiutai\t4415\t12583\t584\nChangling\t4427\t12400\t584\nJishu\t4432\t12680\t584\nShulan\t4442\t12695\t584\nDehui\t4453\t12570\t584\nYushu\t4480\t12653\t584\nKaitong\t4481\t12308\t584\nSongyuan\t4513\t12483\t584\nFuyu\t4518\t12482\t584\nGuangming\t4533\t12278\t584\nDalai\t4550\t12430\t584\nBaicheng\t4561\t12282\t584\nZhenlai\t4585\t12330\t584\nLüshun\t3880\t12127\t585\nDalian\t3891\t12160\t585\nDalianwan\t3903\t12170\t585\nJinzhou\t3910\t12172\t585\nPulandian\t3940\t12197\t585\nWafangdian\t3962\t12201\t585\nZhuanghe\t3970\t12299\t585\nLangtoucun\t4004\t12434\t585\nDandong\t4013\t12439\t585\nXiuyan\t4029\t12327\t585\nFengcheng\t4045\t12407\t585\nXingcheng\t4062\t12072\t585\nDashiqiao\t4064\t12250\t585\nYingkou\t4066\t12223\t585\nKuandian\t4073\t12478\t585\nLianshan\t4076\t12085\t585\nHaicheng\t4085\t12275\t585\nNantai\t4092\t12280\t585\nJiupu\t4107\t12295\t585\nNanpiao\t4110\t12075\t585\nJinzhou\t4111\t12114\t585\nAnshan\t4112\t12299\t585\nGongchangling\t4112\t12345\t585\nLinghai\t4117\t12137\t585\nPanshan\t4119\t12205\t585\nLingyuan\t4124\t11940\t585\nHuanren\t4126\t12537\t585\nLiaoyang\t4127\t12317\t585\nBenxi\t4129\t12377\t585\nXiaoshi\t4130\t12412\t585\nYebaishou\t4140\t11964\t585\nLiaozhong\t4151\t12272\t585\nChaoyang\t4157\t12046\t585\nSujiatun\t4166\t12334\t585\nHeishan\t4169\t12211\t585\nBeipiao\t4179\t12078\t585\nShenyang\t4179\t12343\t585\nDongling\t4181\t12358\t585\nFushun\t4189\t12394\t585\nHushitai\t4194\t12350\t585\nXinmin\t4199\t12283\t585\nFuxin\t4202\t12166\t585\nTieling\t4229\t12384\t585\nKaiyuan\t4253\t12404\t585\nXifeng\t4274\t12472\t585\nChangtu\t4278\t12410\t585\nYinchuan\t3847\t10627\t586\nDawukou\t3904\t10640\t586\nShitanjing\t3923\t10634\t586\nShizuishan\t3923\t10677\t586\nXining\t3663\t10176\t587\nAnkang\t3268\t10902\t588\nHanzhong\t3308\t10702\t588\nYuxia\t3406\t10863\t588\nXi’an\t3426\t10893\t588\nXianyang\t3434\t10870\t588\nGuozhen\t3437\t10736\t588\nLintong\t3438\t10921\t588\nWeinan\t3450\t10951\t588\nHuayin\t3457\t11007\t588\nYanliang\t3466\t10923\t588\nTongchuanshi\t3507\t10908\t588\nHancheng\t3546\t11043\t588\nYulinshi\t3829\t10974\t588\nShancheng\t3480\t11608\t589\nXiazhen\t3480\t11711\t589\nTaozhuang\t3485\t11733\t589\nBianzhuang\t3485\t11804\t589\nZaozhuang\t3486\t11755\t589\nXiazhuang\t3492\t11864\t589\nYucheng\t3493\t11647\t589\nLinyi\t3506\t11834\t589\nDingtao\t3507\t11557\t589\nChengtangcun\t3508\t11719\t589\nShanting\t3508\t11746\t589\nShizilu\t3517\t11883\t589\nHeze\t3524\t11547\t589\nFeicheng\t3526\t11797\t589\nJuye\t3539\t11609\t589\nZoucheng\t3540\t11697\t589\nJining\t3541\t11658\t589\nRizhao\t3543\t11946\t589\nPingyi\t3550\t11763\t589\nJiehu\t3554\t11846\t589\nYanzhou\t3555\t11683\t589\nChengyang\t3558\t11883\t589\nQufu\t3560\t11699\t589\nSishui\t3565\t11728\t589\nMengyin\t3571\t11793\t589\nWenshang\t3573\t11650\t589\nNingyang\t3576\t11679\t589\nYishui\t3578\t11863\t589\nDongdu\t3585\t11770\t589\nYinzhu\t3588\t11998\t589\nXintai\t3590\t11775\t589\nZhoucheng\t3591\t11631\t589\nMizhou\t3599\t11940\t589\nZhu Cheng City\t3600\t11940\t589\nQingdao\t3606\t12038\t589\nYanggu\t3611\t11578\t589\nNanma\t3618\t11815\t589\nTai’an\t3619\t11712\t589\nLaiwu\t3619\t11766\t589\nYanta\t3624\t11567\t589\nFeicheng\t3625\t11677\t589\nPingyin\t3628\t11645\t589\nJiaozhou\t3628\t12000\t589\nGaomi\t3638\t11975\t589\nJimo\t3639\t12046\t589\nAnqiu\t3643\t11919\t589\nLiaocheng\t3646\t11598\t589\nBoshan\t3648\t11783\t589\nLinqu\t3652\t11854\t589\nChangqing\t3656\t11673\t589\nJinan\t3667\t11700\t589\nQingzhou\t3670\t11848\t589\nWeifang\t3671\t11910\t589\nMingshui\t3672\t11750\t589\nNanding\t3675\t11806\t589\nHanting\t3677\t11921\t589\nPingdu\t3678\t11995\t589\nDongcun\t3678\t12116\t589\nZibo\t3679\t11806\t589\nXindian\t3680\t11829\t589\nZhoucun\t3682\t11782\t589\nQingnian\t3684\t11571\t589\nLaixi\t3686\t12053\t589\nShouguang\t3688\t11874\t589\nSuozhen\t3695\t11810\t589\nLaiyang\t3698\t12071\t589\nYatou\t3716\t12244\t589\nLaizhou\t3718\t11994\t589\nTianfu\t3726\t12205\t589\nZhuangyuan\t3731\t12083\t589\nZhaoyuan\t3736\t12041\t589\nBinzhou\t3737\t11802\t589\nNinghai\t3738\t12161\t589\nDezhou\t3745\t11631\t589\nShengli\t3746\t11849\t589\nYantai\t3748\t12144\t589\nQingyang\t3750\t12126\t589\nWeihai\t3751\t12211\t589\nLonggang\t3765\t12033\t589\nDengzhou\t3781\t12076\t589\nSongjiang\t3104\t12121\t590\nZhujiajiao\t3111\t12106\t590\nShanghai\t3122\t12146\t590\nYuncheng\t3502\t11099\t591\nChangzhi\t3521\t11174\t591\nJincheng\t3550\t11283\t591\nLinfen\t3609\t11152\t591\nXinzhi\t3650\t11170\t591\nJiexiu\t3702\t11191\t591\nGutao\t3720\t11218\t591\nYuci\t3768\t11273\t591\nYangquan\t3786\t11356\t591\nTaiyuan\t3787\t11256\t591\nXinzhou\t3841\t11273\t591\nYuanping\t3872\t11276\t591\nDatong\t4009\t11329\t591\nDadukou\t2655\t10171\t592\nXichang\t2790\t10226\t592\nXunchang\t2845\t10471\t592\nYibin\t2876\t10464\t592\nZigong\t2934\t10478\t592\nLuocheng\t2938\t10403\t592\nLeshan\t2956\t10376\t592\nNeijiang\t2958\t10506\t592\nChonglong\t2978\t10485\t592\nKangding\t3000\t10196\t592\nYanjiang\t3012\t10465\t592\nLinqiong\t3042\t10346\t592\nSuining\t3051\t10557\t592\nChengdu\t3067\t10407\t592\nGaoping\t3078\t10610\t592\nNanchong\t3080\t10608\t592\nTianpeng\t3099\t10394\t592\nTongchuan\t3109\t10509\t592\nDeyang\t3113\t10438\t592\nDazhou\t3122\t10750\t592\nNanlong\t3135\t10606\t592\nMianyang\t3147\t10468\t592\nLangzhong\t3155\t10599\t592\nJiangyou\t3177\t10472\t592\nGuangyuan\t3244\t10582\t592\nXianshuigu\t3899\t11738\t593\nTanggu\t3902\t11765\t593\nYangliuqing\t3914\t11700\t593\nTianjin\t3914\t11718\t593\nHangu\t3925\t11779\t593\nYangcun\t3936\t11706\t593\nRikaze\t2925\t8888\t594\nLhasa\t2965\t9110\t594\nDêqên\t2996\t9072\t594\nQamdo\t3113\t9718\t594\nNagqu\t3148\t9206\t594\nHotan\t3711\t7994\t595\nShache\t3842\t7724\t595\nKashgar\t3947\t7599\t595\nAral\t4054\t8127\t595\nAksu\t4118\t8028\t595\nKuqa\t4172\t8293\t595\nKorla\t4176\t8615\t595\nHami\t4283\t9351\t595\nTurpan\t4295\t8918\t595\nXinyuan\t4343\t8325\t595\nQapqal\t4380\t8109\t595\nÜrümqi\t4380\t8760\t595\nChangji\t4401\t8730\t595\nHuocheng\t4405\t8087\t595\nShihezi\t4430\t8604\t595\nKaramay\t4558\t8489\t595\nBaijiantan\t4569\t8514\t595\nHoxtolgay\t4652\t8600\t595\nAltay\t4785\t8813\t595\nJinghong\t2199\t10073\t596\nMabai\t2301\t10445\t596\nGejiu\t2336\t10315\t596\nWenshan City\t2336\t10425\t596\nKaihua\t2337\t10428\t596\nKaiyuan\t2370\t10330\t596\nJianshui\t2428\t10122\t596\nYuxi\t2436\t10254\t596\nMiyang\t2440\t10344\t596\nZhongshu\t2452\t10377\t596\nLongquan\t2467\t10216\t596\nHaikou\t2478\t10258\t596\nShilin\t2482\t10333\t596\nLianran\t2492\t10248\t596\nMajie\t2503\t10264\t596\nKunming\t2504\t10272\t596\nQujing\t2548\t10378\t596\nDali\t2558\t10021\t596\nLijiang\t2687\t10022\t596\nZhaotong\t2732\t10372\t596\nShangri-La\t2783\t9971\t596\nJinxiang\t2743\t12061\t597\nKunyang\t2767\t12057\t597\nWenzhou\t2800\t12067\t597\nWenling\t2838\t12138\t597\nLishui\t2846\t11991\t597\nLuqiao\t2858\t12137\t597\nHuangyan\t2865\t12127\t597\nXianju\t2885\t12073\t597\nLinhai\t2886\t12114\t597\nGuli\t2888\t12003\t597\nQuzhou\t2896\t11887\t597\nJinhua\t2911\t11964\t597\nLanxi\t2922\t11947\t597\nDongyang\t2927\t12023\t597\nNinghai\t2929\t12142\t597\nYiwu\t2932\t12008\t597\nPuyang\t2946\t11989\t597\nFenghua\t2966\t12141\t597\nZhuji\t2972\t12024\t597\nNingbo\t2988\t12155\t597\nShenjiamen\t2996\t12230\t597\nZhaobaoshan\t2997\t12169\t597\nLianghu\t2999\t12090\t597\nZhoushan\t2999\t12220\t597\nShaoxing\t3000\t12058\t597\nShangyu\t3002\t12087\t597\nFuyang\t3005\t11995\t597\nYuyao\t3005\t12115\t597\nXiaoshan\t3017\t12026\t597\nHangzhou\t3029\t12016\t597\nLinping\t3042\t12030\t597\nDeqing\t3054\t11996\t597\nHaining\t3054\t12069\t597\nWuzhen\t3075\t12049\t597\nJiaxing\t3075\t12075\t597\nHuzhou\t3087\t12009\t597\nZhicheng\t3101\t11991\t597\nLeticia\t-422\t-6994\t598\nAndes\t566\t-7588\t599\nSonsón\t571\t-7531\t599\nCiudad Bolívar\t585\t-7603\t599\nLa Ceja\t603\t-7543\t599\nCarmen de Viboral\t608\t-7534\t599\nCaldas\t609\t-7564\t599\nSantuario\t614\t-7526\t599\nLa Estrella\t616\t-7564\t599\nRionegro\t616\t-7537\t599\nMarinilla\t617\t-7534\t599\nItagüí\t618\t-7560\t599\nEnvigado\t618\t-7559\t599\nMedellín\t625\t-7556\t599\nUrrao\t632\t-7613\t599\nBello\t634\t-7556\t599\nCopacabana\t635\t-7551\t599\nBarbosa\t644\t-7533\t599\nPuerto Berrío\t649\t-7440\t599\nYarumal\t696\t-7542\t599\nSegovia\t708\t-7470\t599\nZaragoza\t749\t-7487\t599\nEl Bagre\t760\t-7481\t599\nChigorodó\t767\t-7668\t599\nCarepa\t776\t-7665\t599\nSan Carlos\t779\t-7477\t599\nApartadó\t788\t-7663\t599\nCaucasia\t799\t-7519\t599\nTurbo\t809\t-7673\t599\nTame\t646\t-7174\t600\nArauca\t708\t-7076\t600\nSanta Lucía\t1032\t-7496\t601\nCampo de la Cruz\t1038\t-7488\t601\nRepelón\t1050\t-7512\t601\nSabanalarga\t1063\t-7492\t601\nPalmar de Varela\t1074\t-7475\t601\nSanto Tomás\t1076\t-7475\t601\nBaranoa\t1079\t-7492\t601\nSabanagrande\t1079\t-7476\t601\nMalambo\t1086\t-7477\t601\nGalapa\t1090\t-7489\t601\nSoledad\t1092\t-7476\t601\nBarranquilla\t1097\t-7478\t601\nPuerto Colombia\t1099\t-7495\t601\nBogotá\t461\t-7408\t602\nMorales\t828\t-7387\t603\nMagangué\t924\t-7475\t603\nMompós\t924\t-7443\t603\nEl Carmen de Bolívar\t972\t-7512\t603\nSan Jacinto\t983\t-7512\t603\nSan Juan Nepomuceno\t995\t-7508\t603\nMaría la Baja\t998\t-7530\t603\nArjona\t1025\t-7534\t603\nTurbaco\t1033\t-7541\t603\nCartagena\t1040\t-7551\t603\nTunja\t554\t-7337\t604\nChiquinquirá\t562\t-7382\t604\nSogamoso\t571\t-7293\t604\nDuitama\t582\t-7303\t604\nPuerto Boyacá\t598\t-7459\t604\nChinchiná\t498\t-7560\t605\nVillamaría\t505\t-7551\t605\nViterbo\t506\t-7587\t605\nManizales\t507\t-7552\t605\nManzanares\t525\t-7515\t605\nSalamina\t541\t-7549\t605\nRiosucio\t542\t-7570\t605\nLa Dorada\t545\t-7466\t605\nAguadas\t561\t-7546\t605\nFlorencia\t161\t-7561\t606\nAguazul\t517\t-7255\t607\nVillanueva\t528\t-7197\t607\nYopal\t534\t-7240\t607\nPatía\t207\t-7705\t608\nPopayán\t244\t-7661\t608\nPiendamo\t264\t-7653\t608\nBelalcázar\t265\t-7597\t608\nMorales\t275\t-7663\t608\nSantander de Quilichao\t301\t-7648\t608\nCorinto\t317\t-7626\t608\nPuerto Tejada\t323\t-7642\t608\nAguachica\t831\t-7362\t609\nCurumaní\t920\t-7354\t609\nChimichagua\t926\t-7381\t609\nChiriguaná\t936\t-7360\t609\nLa Jagua de Ibirico\t956\t-7333\t609\nAgustín Codazzi\t1004\t-7324\t609\nEl Copey\t1015\t-7396\t609\nAriguaní\t1025\t-7400\t609\nValledupar\t1046\t-7325\t609\nQuibdó\t569\t-7666\t610\nGirardot City\t430\t-7481\t611\nFusagasugá\t434\t-7436\t611\nSibaté\t449\t-7426\t611\nSoacha\t458\t-7422\t611\nMosquera\t471\t-7423\t611\nFunza\t472\t-7421\t611\nMadrid\t473\t-7426\t611\nFacatativá\t481\t-7435\t611\nChía\t486\t-7406\t611\nCajicá\t492\t-7403\t611\nVilleta\t501\t-7447\t611\nZipaquirá\t502\t-7400\t611\nPacho\t513\t-7416\t611\nLa Mesa\t527\t-7392\t611\nVilla de San Diego de Ubaté\t531\t-7382\t611\nMontelíbano\t798\t-7542\t612\nTierralta\t817\t-7606\t612\nAyapel\t831\t-7514\t612\nPlaneta Rica\t841\t-7559\t612\nMontería\t875\t-7588\t612\nSan Carlos\t880\t-7570\t612\nCiénaga de Oro\t887\t-7562\t612\nCereté\t888\t-7579\t612\nSahagún\t895\t-7544\t612\nChinú\t911\t-7540\t612\nLorica\t924\t-7581\t612\nInírida\t387\t-6792\t613\nSan José del Guaviare\t257\t-7265\t614\nPitalito\t185\t-7605\t615\nGarzón\t220\t-7563\t615\nLa Plata\t239\t-7589\t615\nCampoalegre\t268\t-7532\t615\nNeiva\t293\t-7528\t615\nVillanueva\t1061\t-7298\t616\nSan Juan del Cesar\t1077\t-7300\t616\nFonseca\t1089\t-7285\t616\nBarrancas\t1096\t-7279\t616\nMaicao\t1138\t-7224\t616\nRiohacha\t1154\t-7291\t616\nEl Banco\t900\t-7398\t617\nPlato\t979\t-7478\t617\nPivijay\t1046\t-7462\t617\nFundación\t1052\t-7419\t617\nAracataca\t1059\t-7419\t617\nEl Retén\t1061\t-7427\t617\nCiénaga\t1101\t-7425\t617\nSanta Marta\t1124\t-7420\t617\nGranada\t355\t-7371\t618\nSan Martín\t370\t-7370\t618\nAcacías\t399\t-7376\t618\nPuerto López\t410\t-7296\t618\nVillavicencio\t414\t-7363\t618\nIpiales\t83\t-7764\t619\nTúquerres\t109\t-7762\t619\nPasto\t121\t-7728\t619\nLa Unión\t160\t-7713\t619\nTumaco\t179\t-7879\t619\nEl Charco\t248\t-7811\t619\nPamplona\t738\t-7265\t620\nVilla del Rosario\t783\t-7247\t620\nLos Patios\t784\t-7250\t620\nCúcuta\t789\t-7251\t620\nOcaña\t824\t-7336\t620\nPuerto Santander\t836\t-7241\t620\nPuerto Asís\t51\t-7650\t621\nMocoa\t115\t-7665\t621\nLa Tebaida\t445\t-7579\t622\nArmenia\t453\t-7568\t622\nCalarcá\t453\t-7564\t622\nMontenegro\t457\t-7575\t622\nQuimbaya\t462\t-7576\t622\nCircasia\t462\t-7564\t622\nPereira\t481\t-7570\t623\nDosquebradas\t484\t-7567\t623\nSanta Rosa de Cabal\t487\t-7562\t623\nLa Virginia\t490\t-7588\t623\nBelén de Umbría\t520\t-7587\t623\nAnserma\t533\t-7579\t623\nSan Andrés\t1258\t-8171\t624\nBarbosa\t593\t-7362\t625\nSocorro\t647\t-7326\t625\nSan Gil\t656\t-7314\t625\nMálaga\t670\t-7273\t625\nPiedecuesta\t699\t-7305\t625\nFloridablanca\t706\t-7309\t625\nBarrancabermeja\t707\t-7385\t625\nGirón\t707\t-7317\t625\nBucaramanga\t713\t-7312\t625\nSan Marcos\t866\t-7513\t626\nSucre\t881\t-7472\t626\nSan Benito Abad\t893\t-7503\t626\nSampués\t918\t-7538\t626\nSan Luis de Sincé\t924\t-7515\t626\nSincelejo\t930\t-7540\t626\nCorozal\t932\t-7529\t626\nSantiago de Tolú\t952\t-7558\t626\nSan Onofre\t974\t-7553\t626\nChaparral\t372\t-7548\t627\nEspinal\t415\t-7488\t627\nMelgar\t420\t-7464\t627\nFlandes\t429\t-7482\t627\nPayandé\t430\t-7510\t627\nAnaime\t440\t-7544\t627\nIbagué\t444\t-7523\t627\nLérida\t486\t-7491\t627\nLíbano\t492\t-7506\t627\nPadua\t513\t-7514\t627\nFresno\t515\t-7504\t627\nSan Sebastián de Mariquita\t520\t-7489\t627\nHonda\t521\t-7474\t627\nJamundí\t326\t-7653\t628\nFlorida\t332\t-7623\t628\nCandelaria\t341\t-7635\t628\nPradera\t342\t-7624\t628\nCali\t344\t-7652\t628\nPalmira\t354\t-7630\t628\nBuenaventura\t358\t-7700\t628\nYumbo\t358\t-7649\t628\nEl Cerrito\t369\t-7631\t628\nGuacarí\t376\t-7633\t628\nBuenaventura\t388\t-7703\t628\nGuadalajara de Buga\t390\t-7630\t628\nDarien\t393\t-7648\t628\nTuluá\t408\t-7620\t628\nAndalucía\t417\t-7617\t628\nSevilla\t426\t-7593\t628\nCaicedonia\t433\t-7583\t628\nZarzal\t439\t-7607\t628\nRoldanillo\t441\t-7615\t628\nLa Unión\t453\t-7610\t628\nCartago\t475\t-7591\t628\nMitú\t126\t-7023\t629\nCumaribo\t445\t-6980\t630\nPuerto Carreño\t619\t-6749\t630\nAlajuela\t1002\t-8421\t631\nQuesada\t1032\t-8443\t631\nSan José\t1095\t-8514\t631\nParaíso\t984\t-8387\t632\nCartago\t986\t-8392\t632\nSan Diego\t990\t-8400\t632\nTurrialba\t990\t-8368\t632\nNicoya\t1015\t-8545\t633\nCañas\t1043\t-8510\t633\nLiberia\t1064\t-8544\t633\nSan Francisco\t999\t-8413\t634\nHeredia\t1000\t-8412\t634\nSan Pablo\t1000\t-8410\t634\nMercedes\t1001\t-8413\t634\nLimón\t999\t-8304\t635\nSiquirres\t1010\t-8351\t635\nGuápiles\t1022\t-8378\t635\nPuntarenas\t998\t-8484\t636\nChacarita\t998\t-8478\t636\nEsparza\t999\t-8466\t636\nSan Isidro\t937\t-8370\t637\nTejar\t975\t-8423\t637\nSan Rafael Abajo\t983\t-8429\t637\nAserrí\t986\t-8409\t637\nSan Miguel\t987\t-8406\t637\nSan Rafael Arriba\t988\t-8408\t637\nSan Juan de Dios\t988\t-8408\t637\nPatarrá\t988\t-8404\t637\nSan Felipe\t990\t-8411\t637\nCurridabat\t991\t-8403\t637\nSan Rafael\t993\t-8414\t637\nSan José\t993\t-8408\t637\nSan Pedro\t993\t-8405\t637\nColima\t995\t-8409\t637\nCalle Blancos\t995\t-8407\t637\nGuadalupe\t995\t-8406\t637\nSan Juan\t996\t-8408\t637\nSan Vicente\t996\t-8405\t637\nSan Vicente de Moravia\t996\t-8405\t637\nPurral\t996\t-8403\t637\nIpís\t997\t-8401\t637\nSan Cristobal\t2272\t-8306\t638\nGüira de Melena\t2280\t-8251\t638\nAlquízar\t2281\t-8258\t638\nArtemisa\t2282\t-8276\t638\nSan Antonio de los Baños\t2289\t-8250\t638\nBahía Honda\t2290\t-8316\t638\nGuanajay\t2293\t-8269\t638\nBauta\t2298\t-8255\t638\nMariel\t2299\t-8275\t638\nSanta Cruz del Sur\t2072\t-7800\t639\nGuáimaro\t2105\t-7735\t639\nJimaguayú\t2124\t-7783\t639\nSibanicú\t2124\t-7753\t639\nVertientes\t2126\t-7815\t639\nCamagüey\t2138\t-7792\t639\nMinas\t2149\t-7761\t639\nFlorida\t2153\t-7823\t639\nNuevitas\t2155\t-7727\t639\nEsmeralda\t2185\t-7812\t639\nBaraguá\t2168\t-7863\t640\nVenezuela\t2174\t-7879\t640\nCiego de Ávila\t2184\t-7876\t640\nPrimero de Enero\t2195\t-7843\t640\nCiro Redondo\t2202\t-7870\t640\nMorón\t2211\t-7863\t640\nFlorencia\t2215\t-7897\t640\nChambas\t2220\t-7891\t640\nCienfuegos\t2215\t-8045\t641\nCumanayagua\t2215\t-8020\t641\nPalmira\t2224\t-8039\t641\nAbreus\t2228\t-8057\t641\nRodas\t2234\t-8056\t641\nCruces\t2234\t-8027\t641\nAguada de Pasajeros\t2239\t-8085\t641\nLajas\t2241\t-8029\t641\nNiquero\t2005\t-7758\t642\nMedia Luna\t2014\t-7744\t642\nBartolomé Masó\t2017\t-7694\t642\nCampechuela\t2023\t-7728\t642\nGuisa\t2025\t-7654\t642\nYara\t2027\t-7695\t642\nManzanillo\t2034\t-7712\t642\nBayamo\t2037\t-7664\t642\nJiguaní\t2037\t-7643\t642\nRío Cauto\t2056\t-7692\t642\nCauto Cristo\t2056\t-7647\t642\nGuantánamo\t2014\t-7521\t643\nMaisí\t2025\t-7415\t643\nBaracoa\t2035\t-7450\t643\nRío Guayabal de Yateras\t2037\t-7502\t643\nSantiago de las Vegas\t2297\t-8239\t644\nArroyo Naranjo\t2304\t-8238\t644\nSan Miguel del Padrón\t2310\t-8233\t644\nCerro\t2311\t-8239\t644\nHavana\t2313\t-8238\t644\nRegla\t2313\t-8233\t644\nGuanabacoa\t2313\t-8230\t644\nSagua de Tánamo\t2058\t-7524\t645\nSan Germán\t2060\t-7613\t645\nCueto\t2065\t-7593\t645\nMoa\t2066\t-7495\t645\nCacocum\t2074\t-7633\t645\nHolguín\t2089\t-7626\t645\nBanes\t2096\t-7572\t645\nJobabo\t2097\t-7630\t645\nGibara\t2111\t-7613\t645\nNueva Gerona\t2189\t-8281\t646\nAmancio\t2082\t-7758\t647\nJobabo\t2091\t-7728\t647\nLas Tunas\t2096\t-7695\t647\nColombia\t2099\t-7743\t647\nJesús Menéndez\t2116\t-7648\t647\nPuerto Padre\t2120\t-7660\t647\nJagüey Grande\t2253\t-8113\t648\nCalimete\t2253\t-8091\t648\nColón\t2272\t-8090\t648\nPedro Betancourt\t2273\t-8129\t648\nPerico\t2277\t-8102\t648\nUnión de Reyes\t2280\t-8154\t648\nJovellanos\t2280\t-8119\t648\nLimonar\t2295\t-8141\t648\nMatanzas\t2304\t-8158\t648\nCárdenas\t2304\t-8121\t648\nVaradero\t2316\t-8124\t648\nGüines\t2284\t-8203\t649\nLa Salud\t2287\t-8242\t649\nMadruga\t2291\t-8186\t649\nBejucal\t2293\t-8239\t649\nSan José de las Lajas\t2296\t-8215\t649\nJamaica\t2298\t-8217\t649\nJaruco\t2304\t-8201\t649\nSanta Cruz del Norte\t2315\t-8193\t649\nGuane\t2220\t-8408\t650\nPinar del Río\t2242\t-8370\t650\nConsolación del Sur\t2250\t-8351\t650\nMinas de Matahambre\t2259\t-8395\t650\nLos Palacios\t2259\t-8325\t650\nViñales\t2262\t-8371\t650\nLa Sierpe\t2177\t-7927\t651\nTrinidad\t2180\t-7998\t651\nCondado\t2188\t-7984\t651\nSancti Spíritus\t2193\t-7944\t651\nJatibonico\t2194\t-7917\t651\nGuayos\t2205\t-7946\t651\nCabaiguán\t2208\t-7950\t651\nFomento\t2210\t-7972\t651\nYaguajay\t2233\t-7924\t651\nSantiago de Cuba\t2002\t-7583\t652\nSan Luis\t2019\t-7585\t652\nPalma Soriano\t2021\t-7599\t652\nContramaestre\t2030\t-7625\t652\nManicaragua\t2215\t-7998\t653\nPlacetas\t2231\t-7965\t653\nRanchuelo\t2237\t-8015\t653\nSanta Clara\t2241\t-7996\t653\nCamajuaní\t2248\t-7975\t653\nRemedios\t2250\t-7955\t653\nCaibarién\t2252\t-7947\t653\nSanto Domingo\t2259\t-8024\t653\nEncrucijada\t2262\t-7987\t653\nCifuentes\t2265\t-8005\t653\nSagua la Grande\t2281\t-8008\t653\nCorralillo\t2298\t-8059\t653\nSal Rei\t1618\t-2292\t654\nNova Sintra\t1487\t-2470\t655\nVila do Maio\t1514\t-2321\t656\nIgreja\t1503\t-2432\t657\nPombas\t1715\t-2502\t658\nPorto Novo\t1702\t-2506\t659\nPraia\t1493\t-2351\t660\nRibeira Brava\t1662\t-2430\t661\nRibeira Grande\t1718\t-2506\t662\nCidade Velha\t1492\t-2361\t663\nSanta Maria\t1660\t-2291\t664\nEspargos\t1676\t-2294\t664\nAssomada\t1510\t-2368\t665\nCova Figueira\t1489\t-2429\t666\nPedra Badejo\t1514\t-2353\t667\nSão Domingos\t1502\t-2356\t668\nSão Filipe\t1490\t-2450\t669\nJoão Teves\t1507\t-2359\t670\nCalheta\t1519\t-2359\t671\nPicos\t1508\t-2363\t672\nMindelo\t1689\t-2498\t673\nTarrafal\t1528\t-2375\t674\nTarrafal de São Nicolau\t1657\t-2436\t675\nWillemstad\t1211\t-6893\t676\nFlying Fish Cove\t-1042\t10568\t677\nProtaras\t3501\t3406\t678\nFamagusta\t3512\t3394\t678\nKyrenia\t3534\t3332\t679\nLarnaca\t3492\t3362\t680\nPérgamos\t3504\t3371\t680\nLimassol\t3468\t3304\t681\nStróvolos\t3515\t3333\t682\nNicosia\t3518\t3336\t682\nPaphos\t3478\t3242\t683\nCheb\t5008\t1237\t684\nSokolov\t5018\t1264\t684\nKarlovy Vary\t5023\t1287\t684\nOstrov\t5031\t1294\t684\nPříbram\t4969\t1401\t685\nBenešov\t4978\t1469\t685\nKutná Hora\t4995\t1527\t685\nBeroun\t4996\t1407\t685\nKolín\t5003\t1520\t685\nRakovník\t5010\t1373\t685\nKladno\t5015\t1410\t685\nBrandýs nad Labem-Stará Boleslav\t5019\t1466\t685\nSlaný\t5023\t1409\t685\nKralupy nad Vltavou\t5024\t1431\t685\nNeratovice\t5026\t1452\t685\nMělník\t5035\t1447\t685\nMladá Boleslav\t5041\t1490\t685\nHradec Králové\t5021\t1583\t686\nNáchod\t5042\t1616\t686\nDvůr Králové nad Labem\t5043\t1581\t686\nJičín\t5044\t1535\t686\nTrutnov\t5056\t1591\t686\nČeská Lípa\t5069\t1454\t687\nJablonec nad Nisou\t5072\t1517\t687\nLiberec\t5077\t1506\t687\nNový Jičín\t4959\t1801\t688\nKopřivnice\t4960\t1814\t688\nFrýdek-Místek\t4968\t1835\t688\nTřinec\t4968\t1867\t688\nČeský Těšín\t4975\t1863\t688\nHavířov\t4978\t1844\t688\nOstrava\t4983\t1828\t688\nOrlová\t4985\t1843\t688\nKarviná\t4985\t1854\t688\nBohumín\t4990\t1836\t688\nOpava\t4994\t1790\t688\nBruntál\t4999\t1746\t688\nKrnov\t5009\t1770\t688\nPřerov\t4946\t1745\t689\nProstějov\t4947\t1711\t689\nHranice\t4955\t1773\t689\nOlomouc\t4960\t1725\t689\nŠumperk\t4997\t1697\t689\nSvitavy\t4976\t1647\t690\nČeská Třebová\t4990\t1644\t690\nChrudim\t4995\t1580\t690\nÚstí nad Orlicí\t4997\t1639\t690\nPardubice\t5004\t1578\t690\nKlatovy\t4940\t1330\t691\nPilsen\t4975\t1338\t691\nPrague\t5009\t1442\t692\nČeské Budějovice\t4897\t1447\t693\nJindřichův Hradec\t4914\t1500\t693\nStrakonice\t4926\t1390\t693\nPísek\t4931\t1415\t693\nTábor\t4941\t1466\t693\nBřeclav\t4876\t1688\t694\nHodonín\t4885\t1713\t694\nZnojmo\t4886\t1605\t694\nBrno\t4920\t1661\t694\nVyškov\t4928\t1700\t694\nBlansko\t4936\t1664\t694\nTřebíč\t4921\t1588\t695\nJihlava\t4940\t1559\t695\nPelhřimov\t4943\t1522\t695\nŽďár nad Sázavou\t4956\t1594\t695\nHavlíčkův Brod\t4961\t1558\t695\nUherský Brod\t4903\t1765\t696\nUherské Hradiště\t4907\t1746\t696\nOtrokovice\t4921\t1754\t696\nZlín\t4923\t1767\t696\nKroměříž\t4930\t1739\t696\nVsetín\t4934\t1800\t696\nRožnov pod Radhoštěm\t4946\t1814\t696\nValašské Meziříčí\t4947\t1797\t696\nŽatec\t5033\t1355\t697\nLouny\t5036\t1380\t697\nKadaň\t5038\t1327\t697\nKlášterec nad Ohří\t5039\t1318\t697\nChomutov\t5046\t1342\t697\nJirkov\t5050\t1345\t697\nMost\t5050\t1364\t697\nLitoměřice\t5053\t1413\t697\nBílina\t5055\t1378\t697\nLitvínov\t5060\t1362\t697\nTeplice\t5064\t1382\t697\nÚstí nad Labem\t5066\t1403\t697\nDěčín\t5078\t1421\t697\nVarnsdorf\t5091\t1462\t697\nBad Säckingen\t4755\t795\t698\nRheinfelden\t4756\t779\t698\nWeil am Rhein\t4759\t762\t698\nLörrach\t4761\t766\t698\nWaldshut-Tiengen\t4762\t822\t698\nSchopfheim\t4765\t782\t698\nKonstanz\t4766\t918\t698\nFriedrichshafen\t4766\t948\t698\nTettnang\t4767\t959\t698\nWangen\t4769\t983\t698\nRadolfzell\t4774\t897\t698\nSingen\t4776\t884\t698\nÜberlingen\t4777\t917\t698\nRavensburg\t4778\t961\t698\nMüllheim\t4781\t763\t698\nWeingarten\t4781\t964\t698\nLeutkirch\t4783\t1002\t698\nStockach\t4785\t901\t698\nBad Waldsee\t4792\t975\t698\nDonaueschingen\t4796\t850\t698\nTuttlingen\t4798\t882\t698\nFreiburg\t4800\t785\t698\nSaulgau\t4802\t950\t698\nVillingen-Schwenningen\t4806\t849\t698\nTrossingen\t4808\t864\t698\nSigmaringen\t4809\t923\t698\nBiberach an der Riß\t4809\t979\t698\nWaldkirch\t4810\t796\t698\nEmmendingen\t4812\t785\t698\nRottweil\t4817\t863\t698\nSchramberg\t4822\t839\t698\nAlbstadt\t4822\t903\t698\nLaupheim\t4823\t988\t698\nBalingen\t4828\t885\t698\nEhingen\t4828\t973\t698\nLahr\t4834\t787\t698\nHechingen\t4835\t896\t698\nUlm\t4840\t999\t698\nMössingen\t4841\t905\t698\nKlingenstein\t4842\t991\t698\nHorb am Neckar\t4844\t869\t698\nPfullingen\t4846\t923\t698\nOffenburg\t4847\t794\t698\nFreudenstadt\t4847\t841\t698\nRottenburg\t4848\t894\t698\nReutlingen\t4849\t920\t698\nBaiersbronn\t4850\t838\t698\nTübingen\t4852\t905\t698\nOberkirch\t4853\t808\t698\nMetzingen\t4854\t928\t698\nNagold\t4855\t872\t698\nKehl\t4857\t782\t698\nHerrenberg\t4860\t887\t698\nGeislingen an der Steige\t4862\t983\t698\nGiengen an der Brenz\t4862\t1024\t698\nAchern\t4863\t808\t698\nNürtingen\t4863\t934\t698\nKirchheim unter Teck\t4865\t945\t698\nFilderstadt\t4866\t922\t698\nWendlingen am Neckar\t4867\t938\t698\nBöblingen\t4868\t901\t698\nHeidenheim an der Brenz\t4868\t1015\t698\nLeinfelden-Echterdingen\t4869\t917\t698\nBühl\t4870\t814\t698\nSindelfingen\t4870\t902\t698\nGöppingen\t4870\t965\t698\nEislingen\t4870\t971\t698\nCalw\t4871\t874\t698\nEbersbach an der Fils\t4872\t952\t698\nOstfildern\t4873\t925\t698\nEsslingen\t4874\t930\t698\nWeil der Stadt\t4875\t887\t698\nBaden-Baden\t4876\t824\t698\nRenningen\t4877\t894\t698\nStuttgart\t4878\t918\t698\nGaggenau\t4880\t833\t698\nLeonberg\t4880\t902\t698\nGerlingen\t4880\t906\t698\nSchwäbisch Gmünd\t4880\t980\t698\nFellbach\t4881\t928\t698\nWeinstadt-Endersbach\t4881\t936\t698\nSchorndorf\t4881\t953\t698\nDitzingen\t4883\t907\t698\nKorntal\t4883\t912\t698\nWaiblingen\t4883\t932\t698\nAalen\t4884\t1009\t698\nRastatt\t4886\t821\t698\nKornwestheim\t4886\t919\t698\nPforzheim\t4888\t870\t698\nWinnenden\t4888\t940\t698\nLudwigsburg\t4890\t919\t698\nFreiberg am Neckar\t4893\t920\t698\nEttlingen\t4894\t841\t698\nVaihingen an der Enz\t4894\t896\t698\nBietigheim-Bissingen\t4894\t912\t698\nMarbach am Neckar\t4894\t926\t698\nMühlacker\t4895\t884\t698\nBacknang\t4895\t944\t698\nSachsenheim\t4896\t906\t698\nEllwangen\t4896\t1013\t698\nRheinstetten\t4897\t831\t698\nKarlsruhe\t4901\t840\t698\nBretten\t4904\t871\t698\nBrackenheim\t4908\t907\t698\nEggenstein-Leopoldshafen\t4909\t840\t698\nSchwäbisch Hall\t4911\t974\t698\nBruchsal\t4912\t860\t698\nCrailsheim\t4913\t1007\t698\nEppingen\t4914\t891\t698\nHeilbronn\t4914\t922\t698\nNeckarsulm\t4919\t923\t698\nÖhringen\t4920\t951\t698\nBad Rappenau\t4924\t910\t698\nWaghäusel\t4925\t851\t698\nSinsheim\t4925\t888\t698\nKünzelsau\t4928\t968\t698\nWiesloch\t4930\t870\t698\nHockenheim\t4932\t855\t698\nLeimen\t4935\t869\t698\nMosbach\t4935\t915\t698\nSchwetzingen\t4938\t858\t698\nHeidelberg\t4941\t869\t698\nEberbach\t4947\t899\t698\nMannheim\t4949\t847\t698\nBad Mergentheim\t4949\t977\t698\nBuchen in Odenwald\t4952\t932\t698\nWeinheim\t4955\t867\t698\nLauda-Königshofen\t4957\t971\t698\nWertheim\t4976\t951\t698\nGarmisch-Partenkirchen\t4749\t1110\t699\nSonthofen\t4752\t1028\t699\nLindau\t4755\t968\t699\nKempten (Allgäu)\t4773\t1031\t699\nBad Reichenhall\t4773\t1288\t699\nPenzberg\t4775\t1138\t699\nBad Tölz\t4776\t1156\t699\nMarktoberdorf\t4778\t1062\t699\nWeilheim\t4784\t1115\t699\nFreilassing\t4784\t1298\t699\nKolbermoor\t4785\t1207\t699\nGeretsried\t4786\t1148\t699\nBad Aibling\t4786\t1201\t699\nRosenheim\t4786\t1212\t699\nTraunstein\t4787\t1264\t699\nKaufbeuren\t4788\t1062\t699\nHolzkirchen\t4788\t1170\t699\nBruckmühl\t4788\t1191\t699\nWolfratshausen\t4791\t1142\t699\nTraunreut\t4796\t1259\t699\nMemmingen\t4798\t1019\t699\nStarnberg\t4800\t1134\t699\nLandsberg am Lech\t4805\t1088\t699\nTaufkirchen\t4805\t1162\t699\nOttobrunn\t4806\t1166\t699\nGauting\t4807\t1138\t699\nUnterhaching\t4807\t1162\t699\nGilching\t4811\t1129\t699\nHaar\t4811\t1173\t699\nVaterstetten\t4811\t1177\t699\nGermering\t4813\t1138\t699\nMunich\t4814\t1158\t699\nPuchheim\t4815\t1135\t699\nBurghausen\t4817\t1283\t699\nFürstenfeldbruck\t4818\t1125\t699\nOlching\t4820\t1133\t699\nGröbenzell\t4820\t1137\t699\nWaldkraiburg\t4821\t1240\t699\nIllertissen\t4822\t1010\t699\nKarlsfeld\t4823\t1148\t699\nGarching bei München\t4825\t1165\t699\nMühldorf\t4825\t1252\t699\nDachau\t4826\t1143\t699\nBobingen\t4827\t1083\t699\nKönigsbrunn\t4828\t1089\t699\nUnterschleißheim\t4828\t1158\t699\nErding\t4831\t1191\t699\nSenden\t4832\t1004\t699\nNeufahrn bei Freising\t4832\t1166\t699\nFriedberg\t4836\t1098\t699\nAugsburg\t4837\t1090\t699\nNeu-Ulm\t4839\t1001\t699\nFreising\t4840\t1175\t699\nGersthofen\t4842\t1087\t699\nGünzburg\t4846\t1028\t699\nAichach\t4846\t1113\t699\nMoosburg\t4847\t1194\t699\nPfaffenhofen an der Ilm\t4853\t1151\t699\nLandshut\t4853\t1216\t699\nSchrobenhausen\t4856\t1126\t699\nPassau\t4857\t1343\t699\nDillingen an der Donau\t4858\t1050\t699\nVilshofen\t4863\t1319\t699\nDingolfing\t4864\t1249\t699\nDonauwörth\t4872\t1078\t699\nNeuburg an der Donau\t4873\t1119\t699\nIngolstadt\t4877\t1142\t699\nDeggendorf\t4884\t1296\t699\nNördlingen\t4885\t1049\t699\nStraubing\t4888\t1257\t699\nKelheim\t4892\t1189\t699\nRegensburg\t4902\t1210\t699\nWeißenburg in Bayern\t4903\t1097\t699\nGunzenhausen\t4912\t1076\t699\nCham\t4923\t1266\t699\nRoth\t4925\t1109\t699\nNeumarkt in der Oberpfalz\t4928\t1146\t699\nAnsbach\t4930\t1059\t699\nSchwabach\t4933\t1102\t699\nSchwandorf in Bayern\t4933\t1211\t699\nWendelstein\t4935\t1115\t699\nAltdorf\t4939\t1136\t699\nOberasbach\t4942\t1096\t699\nZirndorf\t4944\t1095\t699\nAmberg\t4944\t1186\t699\nNürnberg\t4945\t1108\t699\nFürth\t4948\t1099\t699\nSulzbach-Rosenberg\t4950\t1175\t699\nLauf an der Pegnitz\t4951\t1128\t699\nHerzogenaurach\t4957\t1089\t699\nErlangen\t4959\t1101\t699\nWeiden\t4968\t1216\t699\nForchheim\t4972\t1106\t699\nKitzingen\t4974\t1015\t699\nWürzburg\t4979\t995\t699\nBamberg\t4990\t1090\t699\nGroßostheim\t4992\t908\t699\nBayreuth\t4995\t1158\t699\nKarlstadt\t4996\t977\t699\nAschaffenburg\t4998\t915\t699\nLohr am Main\t4999\t957\t699\nMarktredwitz\t5000\t1209\t699\nSchweinfurt\t5005\t1022\t699\nAlzenau in Unterfranken\t5009\t906\t699\nKulmbach\t5010\t1145\t699\nLichtenfels\t5015\t1106\t699\nSelb\t5017\t1213\t699\nBad Kissingen\t5020\t1008\t699\nKronach\t5024\t1133\t699\nCoburg\t5026\t1096\t699\nHof\t5031\t1191\t699\nBad Neustadt an der Saale\t5032\t1021\t699\nNeustadt bei Coburg\t5033\t1112\t699\nLauchhammer\t5149\t1377\t700\nSenftenberg\t5153\t1400\t700\nFinsterwalde\t5163\t1371\t700\nForst\t5174\t1464\t700\nCottbus\t5176\t1433\t700\nLübbenau\t5186\t1395\t700\nGuben\t5195\t1471\t700\nLuckenwalde\t5209\t1317\t700\nEisenhüttenstadt\t5215\t1465\t700\nZossen\t5222\t1345\t700\nLudwigsfelde\t5230\t1325\t700\nKönigs Wusterhausen\t5230\t1363\t700\nFrankfurt (Oder)\t5235\t1455\t700\nFürstenwalde\t5236\t1406\t700\nWerder\t5238\t1293\t700\nPotsdam\t5240\t1307\t700\nTeltow\t5240\t1326\t700\nKleinmachnow\t5241\t1323\t700\nBrandenburg an der Havel\t5242\t1255\t700\nNeuenhagen\t5253\t1369\t700\nFalkensee\t5256\t1309\t700\nStrausberg\t5258\t1389\t700\nRathenow\t5261\t1234\t700\nNauen\t5261\t1287\t700\nHennigsdorf\t5264\t1320\t700\nHohen Neuendorf\t5268\t1328\t700\nBernau bei Berlin\t5268\t1359\t700\nWandlitz\t5274\t1346\t700\nOranienburg\t5276\t1324\t700\nEberswalde\t5283\t1382\t700\nNeuruppin\t5293\t1280\t700\nWittenberge\t5301\t1175\t700\nAngermünde\t5301\t1400\t700\nSchwedt (Oder)\t5306\t1428\t700\nTemplin\t5312\t1350\t700\nWittstock\t5316\t1248\t700\nPrenzlau\t5332\t1386\t700\nBremen\t5308\t881\t701\nBremerhaven\t5354\t859\t701\nHamburg\t5355\t999\t702\nViernheim\t4954\t858\t703\nLampertheim\t4960\t847\t703\nBürstadt\t4964\t846\t703\nHeppenheim an der Bergstrasse\t4964\t863\t703\nBensheim\t4968\t862\t703\nMichelstadt\t4968\t900\t703\nSeeheim-Jugenheim\t4977\t865\t703\nPfungstadt\t4981\t860\t703\nRiedstadt\t4983\t850\t703\nOber-Ramstadt\t4983\t875\t703\nReinheim\t4983\t884\t703\nGriesheim\t4986\t857\t703\nDarmstadt\t4987\t865\t703\nGroß-Umstadt\t4987\t893\t703\nWeiterstadt\t4990\t859\t703\nDieburg\t4990\t885\t703\nGroß-Gerau\t4992\t848\t703\nGinsheim-Gustavsburg\t4997\t835\t703\nBabenhausen\t4997\t895\t703\nRüsselsheim\t4999\t842\t703\nMörfelden-Walldorf\t4999\t858\t703\nLangen\t4999\t867\t703\nHochheim am Main\t5001\t835\t703\nFlörsheim\t5001\t843\t703\nDietzenbach\t5001\t878\t703\nDreieich\t5002\t870\t703\nEltville\t5003\t812\t703\nRodgau\t5003\t889\t703\nSeligenstadt\t5004\t897\t703\nNeu Isenburg\t5005\t869\t703\nHeusenstamm\t5006\t880\t703\nHattersheim\t5007\t849\t703\nObertshausen\t5007\t885\t703\nWiesbaden\t5008\t825\t703\nHofheim am Taunus\t5009\t845\t703\nOffenbach\t5010\t877\t703\nFrankfurt am Main\t5012\t868\t703\nMühlheim am Main\t5012\t883\t703\nHanau am Main\t5013\t891\t703\nKelkheim (Taunus)\t5014\t845\t703\nBad Soden am Taunus\t5014\t850\t703\nEschborn\t5014\t857\t703\nTaunusstein\t5015\t815\t703\nMaintal\t5015\t883\t703\nKönigstein im Taunus\t5018\t847\t703\nKronberg Tal\t5018\t850\t703\nKronberg\t5018\t852\t703\nBad Vilbel\t5018\t874\t703\nBruchköbel\t5018\t892\t703\nGelnhausen\t5020\t919\t703\nOberursel\t5021\t858\t703\nIdstein\t5022\t827\t703\nBad Homburg vor der Höhe\t5023\t862\t703\nKarben\t5023\t877\t703\nNidderau\t5024\t887\t703\nFriedrichsdorf\t5025\t864\t703\nBüdingen\t5029\t911\t703\nNeu-Anspach\t5032\t850\t703\nFriedberg\t5034\t876\t703\nSchlüchtern\t5035\t953\t703\nBad Nauheim\t5036\t874\t703\nLimburg an der Lahn\t5038\t805\t703\nNidda\t5041\t901\t703\nButzbach\t5043\t867\t703\nKünzell\t5054\t972\t703\nFulda\t5055\t968\t703\nWetzlar\t5056\t850\t703\nGießen\t5059\t868\t703\nHerborn\t5068\t830\t703\nHünfeld\t5068\t977\t703\nHaiger\t5074\t821\t703\nDillenburg\t5074\t829\t703\nAlsfeld\t5075\t927\t703\nMarburg an der Lahn\t5081\t877\t703\nStadtallendorf\t5082\t901\t703\nKirchhain\t5083\t893\t703\nBad Hersfeld\t5087\t971\t703\nSchwalmstadt\t5093\t922\t703\nFrankenberg\t5106\t880\t703\nBad Wildungen\t5112\t912\t703\nEschwege\t5118\t1005\t703\nBaunatal\t5125\t941\t703\nKorbach\t5128\t887\t703\nKassel\t5132\t950\t703\nWitzenhausen\t5134\t986\t703\nVellmar\t5136\t948\t703\nBad Arolsen\t5138\t901\t703\nHofgeismar\t5150\t939\t703\nHannoversch Münden\t5142\t965\t704\nDuderstadt\t5151\t1026\t704\nGöttingen\t5153\t993\t704\nUslar\t5166\t964\t704\nNortheim\t5171\t1000\t704\nClausthal-Zellerfeld\t5181\t1034\t704\nEinbeck\t5182\t987\t704\nHolzminden\t5183\t945\t704\nBad Harzburg\t5188\t1056\t704\nSeesen\t5189\t1018\t704\nGoslar\t5190\t1043\t704\nAlfeld\t5198\t982\t704\nBad Pyrmont\t5199\t925\t704\nHameln\t5210\t936\t704\nHildesheim\t5215\t995\t704\nSalzgitter\t5216\t1042\t704\nWolfenbüttel\t5216\t1054\t704\nHessisch Oldendorf\t5217\t925\t704\nRinteln\t5219\t908\t704\nGeorgsmarienhütte\t5220\t804\t704\nMelle\t5220\t834\t704\nBad Münder am Deister\t5220\t946\t704\nSpringe\t5221\t955\t704\nSarstedt\t5223\t985\t704\nHelmstedt\t5223\t1101\t704\nKönigslutter am Elm\t5225\t1082\t704\nBückeburg\t5226\t905\t704\nVechelde\t5226\t1036\t704\nOsnabrück\t5227\t805\t704\nBraunschweig\t5227\t1053\t704\nBad Bentheim\t5230\t716\t704\nHemmingen\t5231\t972\t704\nSehnde\t5231\t997\t704\nBad Essen\t5232\t833\t704\nStadthagen\t5232\t920\t704\nRonnenberg\t5232\t966\t704\nLaatzen\t5232\t980\t704\nPeine\t5232\t1024\t704\nWallenhorst\t5235\t802\t704\nHannover\t5237\t973\t704\nLehrte\t5237\t998\t704\nSeelze\t5240\t960\t704\nBramsche\t5241\t797\t704\nGarbsen\t5241\t959\t704\nWunstorf\t5242\t944\t704\nWolfsburg\t5242\t1078\t704\nNordhorn\t5243\t707\t704\nLangenhagen\t5245\t974\t704\nBurgdorf\t5245\t1001\t704\nIsernhagen Farster Bauerschaft\t5247\t984\t704\nGifhorn\t5248\t1055\t704\nNeustadt am Rübenberge\t5250\t946\t704\nLingen\t5252\t732\t704\nDamme\t5252\t820\t704\nDiepholz\t5261\t837\t704\nCelle\t5262\t1008\t704\nNienburg\t5265\t922\t704\nLohne\t5267\t824\t704\nMeppen\t5269\t729\t704\nVechta\t5273\t829\t704\nHaren\t5279\t724\t704\nCloppenburg\t5285\t805\t704\nBassum\t5285\t873\t704\nWalsrode\t5286\t959\t704\nWildeshausen\t5289\t843\t704\nSyke\t5291\t882\t704\nVerden\t5292\t923\t704\nUelzen\t5297\t1056\t704\nSoltau\t5299\t984\t704\nMunster\t5299\t1009\t704\nAchim\t5301\t903\t704\nFriesoythe\t5302\t786\t704\nGanderkesee\t5303\t853\t704\nStuhr\t5303\t875\t704\nDelmenhorst\t5305\t863\t704\nOyten\t5305\t902\t704\nWardenburg\t5307\t820\t704\nPapenburg\t5308\t740\t704\nHude\t5311\t846\t704\nRotenburg\t5311\t941\t704\nSchneverdingen\t5312\t980\t704\nEdewecht\t5313\t798\t704\nOldenburg\t5314\t821\t704\nLilienthal\t5314\t890\t704\nWeener\t5316\t735\t704\nBad Zwischenahn\t5318\t800\t704\nLeer\t5323\t746\t704\nSchwanewede\t5323\t860\t704\nOsterholz-Scharmbeck\t5323\t880\t704\nRastede\t5325\t820\t704\nLüneburg\t5325\t1041\t704\nWesterstede\t5326\t793\t704\nBrake (Unterweser)\t5333\t848\t704\nBuchholz in der Nordheide\t5333\t987\t704\nWinsen\t5336\t1021\t704\nEmden\t5337\t721\t704\nVarel\t5340\t814\t704\nSeevetal\t5340\t997\t704\nAurich\t5347\t748\t704\nLoxstedt\t5347\t865\t704\nBuxtehude\t5347\t969\t704\nNeu Wulmstorf\t5347\t980\t704\nBremervörde\t5348\t914\t704\nNordenham\t5349\t848\t704\nSchortens\t5353\t795\t704\nWilhelmshaven\t5353\t811\t704\nWittmund\t5358\t778\t704\nStade\t5359\t948\t704\nNorden\t5360\t721\t704\nLangen\t5361\t860\t704\nCuxhaven\t5387\t870\t704\nNeustrelitz\t5336\t1307\t705\nParchim\t5343\t1185\t705\nWaren\t5352\t1268\t705\nNeubrandenburg\t5356\t1328\t705\nSchwerin\t5363\t1141\t705\nGüstrow\t5380\t1217\t705\nWismar\t5389\t1145\t705\nRostock\t5409\t1214\t705\nGreifswald\t5409\t1339\t705\nRibnitz-Damgarten\t5424\t1246\t705\nStralsund\t5431\t1308\t705\nBad Münstereifel\t5056\t676\t706\nMechernich\t5059\t665\t706\nSimmerath\t5060\t630\t706\nMeckenheim\t5062\t703\t706\nRheinbach\t5063\t695\t706\nWachtberg\t5063\t710\t706\nBad Honnef\t5064\t723\t706\nEuskirchen\t5066\t679\t706\nKönigswinter\t5068\t719\t706\nZulpich\t5069\t665\t706\nAlfter\t5073\t702\t706\nBonn\t5073\t710\t706\nKreuzau\t5075\t649\t706\nWeilerswist\t5075\t685\t706\nBornheim\t5076\t699\t706\nStolberg\t5077\t623\t706\nEitorf\t5077\t745\t706\nAachen\t5078\t608\t706\nSankt Augustin\t5078\t720\t706\nHennef\t5078\t728\t706\nDüren\t5080\t649\t706\nSiegburg\t5080\t721\t706\nErftstadt\t5081\t679\t706\nTroisdorf\t5081\t715\t706\nWürselen\t5082\t613\t706\nEschweiler\t5082\t627\t706\nNiederkassel\t5082\t704\t706\nWilnsdorf\t5082\t810\t706\nBrühl\t5083\t690\t706\nWesseling\t5083\t697\t706\nLohmar\t5084\t721\t706\nHerzogenrath\t5087\t609\t706\nKerpen\t5087\t670\t706\nHürth\t5087\t687\t706\nSiegen\t5087\t802\t706\nAlsdorf\t5088\t616\t706\nWaldbröl\t5088\t762\t706\nRösrath\t5090\t718\t706\nMuch\t5090\t740\t706\nNümbrecht\t5090\t754\t706\nFreudenberg\t5090\t787\t706\nBaesweiler\t5091\t619\t706\nFrechen\t5091\t681\t706\nÜbach-Palenberg\t5092\t612\t706\nJülich\t5092\t636\t706\nNetphen\t5092\t810\t706\nKöln\t5093\t695\t706\nOverath\t5093\t728\t706\nBad Laasphe\t5093\t843\t706\nElsdorf\t5094\t657\t706\nWiehl\t5095\t755\t706\nBergheim\t5096\t664\t706\nGeilenkirchen\t5097\t612\t706\nWenden\t5097\t787\t706\nKreuztal\t5097\t799\t706\nBedburg\t5099\t657\t706\nBergisch Gladbach\t5099\t713\t706\nEngelskirchen\t5099\t741\t706\nPulheim\t5100\t681\t706\nHilchenbach\t5100\t811\t706\nLindlar\t5102\t738\t706\nBergneustadt\t5102\t766\t706\nLeverkusen\t5103\t698\t706\nOdenthal\t5103\t712\t706\nGummersbach\t5103\t756\t706\nOlpe\t5103\t785\t706\nKürten\t5105\t727\t706\nBad Berleburg\t5105\t839\t706\nHeinsberg\t5106\t610\t706\nHückelhoven\t5106\t623\t706\nOpladen\t5107\t700\t706\nErkelenz\t5108\t632\t706\nBurscheid\t5108\t711\t706\nGrevenbroich\t5109\t658\t706\nMonheim am Rhein\t5109\t689\t706\nWassenberg\t5110\t615\t706\nJüchen\t5110\t650\t706\nDormagen\t5110\t683\t706\nLangenfeld\t5111\t695\t706\nLeichlingen\t5111\t702\t706\nMeinerzhagen\t5111\t765\t706\nWipperfürth\t5112\t740\t706\nLennestadt\t5112\t807\t706\nNeubrück\t5113\t664\t706\nKierspe\t5113\t759\t706\nAttendorn\t5113\t790\t706\nWegberg\t5114\t628\t706\nWermelskirchen\t5114\t722\t706\nHückeswagen\t5115\t734\t706\nSchmallenberg\t5115\t829\t706\nHilden\t5117\t693\t706\nSolingen\t5117\t708\t706\nFinnentrop\t5117\t797\t706\nRemscheid\t5118\t719\t706\nMönchengladbach\t5119\t644\t706\nKorschenbroich\t5119\t651\t706\nHaan\t5119\t701\t706\nHalver\t5119\t750\t706\nNiederkrüchten\t5120\t622\t706\nNeuss\t5120\t669\t706\nRadevormwald\t5120\t736\t706\nPlettenberg\t5121\t787\t706\nSchwalmtal\t5122\t627\t706\nDüsseldorf\t5122\t678\t706\nErkrath\t5122\t691\t706\nLüdenscheid\t5122\t763\t706\nKaarst\t5123\t662\t706\nBrüggen\t5124\t618\t706\nViersen\t5125\t639\t706\nMeerbusch\t5125\t669\t706\nMettmann\t5125\t698\t706\nWillich\t5126\t655\t706\nWuppertal\t5126\t715\t706\nWerdohl\t5126\t777\t706\nWülfrath\t5128\t704\t706\nSchwelm\t5129\t729\t706\nAltena\t5129\t767\t706\nRatingen\t5130\t685\t706\nEnnepetal\t5130\t736\t706\nNettetal\t5132\t628\t706\nTönisvorst\t5132\t649\t706\nGevelsberg\t5132\t734\t706\nHeiligenhaus\t5133\t697\t706\nSundern\t5133\t800\t706\nGrefrath\t5134\t634\t706\nKrefeld\t5134\t655\t706\nVelbert\t5134\t704\t706\nSprockhövel\t5135\t724\t706\nMeschede\t5135\t828\t706\nKempen\t5136\t642\t706\nHagen\t5136\t747\t706\nOlsberg\t5136\t849\t706\nIserlohn\t5138\t770\t706\nArnsberg\t5138\t808\t706\nWetter (Ruhr)\t5139\t739\t706\nHemer\t5139\t777\t706\nBrilon\t5139\t857\t706\nHattingen\t5140\t719\t706\nHerdecke\t5140\t744\t706\nDuisburg\t5143\t677\t706\nMülheim\t5143\t688\t706\nStraelen\t5144\t627\t706\nWitten\t5144\t735\t706\nSchwerte\t5144\t757\t706\nMenden\t5144\t778\t706\nWarstein\t5144\t835\t706\nMoers\t5145\t663\t706\nEssen\t5146\t701\t706\nMarsberg\t5146\t885\t706\nOberhausen\t5148\t686\t706\nBochum\t5148\t722\t706\nFröndenberg\t5148\t777\t706\nWarburg\t5149\t915\t706\nKamp-Lintfort\t5150\t655\t706\nHolzwickede\t5150\t763\t706\nGelsenkirchen\t5151\t710\t706\nDortmund\t5151\t747\t706\nGeldern\t5152\t632\t706\nBottrop\t5152\t693\t706\nHerne\t5154\t723\t706\nUnna\t5154\t769\t706\nRheinberg\t5155\t660\t706\nWerl\t5155\t791\t706\nBüren\t5155\t856\t706\nDinslaken\t5156\t674\t706\nCastrop-Rauxel\t5156\t731\t706\nGladbeck\t5157\t699\t706\nKevelaer\t5158\t625\t706\nSoest\t5158\t811\t706\nKamen\t5159\t766\t706\nVoerde\t5160\t669\t706\nHerten\t5160\t714\t706\nBönen\t5160\t777\t706\nRecklinghausen\t5161\t720\t706\nErwitte\t5161\t834\t706\nWaltrop\t5162\t740\t706\nLünen\t5162\t753\t706\nBergkamen\t5162\t764\t706\nOer-Erkenschwick\t5164\t726\t706\nGeseke\t5164\t851\t706\nXanten\t5166\t645\t706\nDorsten\t5166\t697\t706\nMarl\t5166\t709\t706\nDatteln\t5166\t735\t706\nWerne\t5166\t763\t706\nWesel\t5167\t662\t706\nLippstadt\t5167\t834\t706\nSalzkotten\t5167\t860\t706\nBeverungen\t5167\t937\t706\nGoch\t5168\t616\t706\nHamm\t5168\t782\t706\nSelm\t5170\t747\t706\nPaderborn\t5172\t875\t706\nBrakel\t5172\t919\t706\nHamminkeln\t5173\t659\t706\nBad Driburg\t5173\t902\t706\nHaltern am See\t5174\t718\t706\nRees\t5176\t640\t706\nAhlen\t5176\t789\t706\nBeckum\t5176\t804\t706\nLüdinghausen\t5177\t744\t706\nDelbrück\t5177\t856\t706\nAscheberg\t5178\t762\t706\nBad Lippspringe\t5178\t882\t706\nHöxter\t5178\t938\t706\nKleve\t5179\t614\t706\nDrensteinfurt\t5180\t774\t706\nRietberg\t5181\t843\t706\nHövelhof\t5182\t865\t706\nDülmen\t5183\t728\t706\nOelde\t5183\t815\t706\nEmmerich\t5184\t625\t706\nBocholt\t5184\t662\t706\nRhede\t5184\t670\t706\nBorken\t5184\t686\t706\nEnnigerloh\t5184\t803\t706\nRheda-Wiedenbrück\t5185\t830\t706\nSenden\t5186\t748\t706\nVerl\t5188\t852\t706\nGütersloh\t5191\t838\t706\nNottuln\t5193\t735\t706\nCoesfeld\t5194\t717\t706\nDetmold\t5194\t887\t706\nBlomberg\t5194\t909\t706\nGescher\t5195\t700\t706\nWarendorf\t5195\t799\t706\nOerlinghausen\t5195\t866\t706\nMünster\t5196\t763\t706\nHarsewinkel\t5196\t823\t706\nTelgte\t5198\t778\t706\nStadtlohn\t5199\t692\t706\nLage\t5199\t879\t706\nSteinhagen\t5200\t840\t706\nLeopoldshöhe\t5201\t870\t706\nBielefeld\t5203\t853\t706\nLemgo\t5203\t890\t706\nVreden\t5204\t683\t706\nVersmold\t5204\t815\t706\nHalle\t5206\t836\t706\nAhaus\t5208\t701\t706\nGreven\t5209\t759\t706\nBad Salzuflen\t5209\t874\t706\nHerford\t5211\t867\t706\nSpenge\t5214\t848\t706\nEnger\t5214\t856\t706\nSteinfurt\t5215\t734\t706\nEmsdetten\t5217\t753\t706\nHiddenhausen\t5217\t862\t706\nVlotho\t5217\t886\t706\nLengerich\t5219\t786\t706\nLöhne\t5219\t869\t706\nBünde\t5220\t859\t706\nKirchlengern\t5220\t863\t706\nGronau\t5221\t702\t706\nOchtrup\t5221\t719\t706\nBad Oeynhausen\t5221\t880\t706\nPorta Westfalica\t5223\t892\t706\nIbbenbüren\t5228\t771\t706\nRheine\t5229\t744\t706\nMinden\t5229\t891\t706\nHörstel\t5230\t758\t706\nLübbecke\t5231\t861\t706\nHille\t5233\t875\t706\nEspelkamp\t5238\t862\t706\nPetershagen\t5238\t897\t706\nRahden\t5243\t861\t706\nWörth am Rhein\t4905\t826\t707\nPirmasens\t4920\t761\t707\nLandau in der Pfalz\t4920\t812\t707\nGermersheim\t4922\t836\t707\nZweibrücken\t4925\t737\t707\nSpeyer\t4932\t843\t707\nNeustadt\t4935\t814\t707\nHaßloch\t4936\t826\t707\nSchifferstadt\t4938\t838\t707\nKaiserslautern\t4944\t777\t707\nBad Dürkheim\t4946\t817\t707\nLudwigshafen am Rhein\t4948\t845\t707\nFrankenthal\t4953\t835\t707\nWorms\t4963\t836\t707\nKonz\t4970\t658\t707\nIdar-Oberstein\t4971\t731\t707\nAlzey\t4975\t812\t707\nTrier\t4976\t664\t707\nBad Kreuznach\t4984\t787\t707\nBingen am Rhein\t4997\t790\t707\nIngelheim am Rhein\t4997\t806\t707\nMainz\t4998\t828\t707\nWittlich\t4999\t689\t707\nBoppard\t5023\t759\t707\nLahnstein\t5030\t762\t707\nMayen\t5033\t722\t707\nKoblenz\t5035\t758\t707\nBendorf\t5042\t758\t707\nAndernach\t5043\t740\t707\nNeuwied\t5043\t747\t707\nBad Neuenahr-Ahrweiler\t5054\t711\t707\nSinzig\t5054\t725\t707\nRemagen\t5058\t723\t707\nSaarbrücken\t4923\t701\t708\nBlieskastel\t4924\t726\t708\nVölklingen\t4925\t686\t708\nWadgassen\t4927\t678\t708\nSankt Ingbert\t4928\t712\t708\nPüttlingen\t4929\t689\t708\nSchwalbach\t4930\t682\t708\nRiegelsberg\t4930\t693\t708\nSulzbach\t4930\t706\t708\nSaarlouis\t4931\t675\t708\nHomburg\t4933\t734\t708\nHeusweiler\t4934\t693\t708\nNeunkirchen\t4934\t718\t708\nBexbach\t4935\t726\t708\nDillingen\t4936\t673\t708\nIllingen\t4937\t705\t708\nSchiffweiler\t4937\t713\t708\nBeckingen\t4940\t670\t708\nEppelborn\t4940\t697\t708\nOttweiler\t4940\t716\t708\nLebach\t4941\t691\t708\nSchmelz\t4943\t685\t708\nMerzig\t4944\t664\t708\nSankt Wendel\t4947\t717\t708\nLosheim\t4951\t675\t708\nWadern\t4954\t689\t708\nPlauen\t5050\t1214\t709\nAuerbach\t5051\t1240\t709\nSchwarzenberg\t5054\t1279\t709\nAnnaberg-Buchholz\t5058\t1301\t709\nSchneeberg\t5059\t1264\t709\nAue\t5059\t1271\t709\nReichenbach/Vogtland\t5062\t1230\t709\nZwickau\t5073\t1249\t709\nWerdau\t5074\t1238\t709\nHohenstein-Ernstthal\t5080\t1271\t709\nCrimmitschau\t5082\t1239\t709\nGlauchau\t5082\t1254\t709\nChemnitz\t5084\t1293\t709\nMeerane\t5085\t1246\t709\nLimbach-Oberfrohna\t5086\t1276\t709\nZittau\t5090\t1481\t709\nFrankenberg\t5091\t1304\t709\nFreiberg\t5091\t1334\t709\nPirna\t5096\t1394\t709\nHeidenau\t5097\t1387\t709\nMittweida\t5099\t1298\t709\nFreital\t5100\t1365\t709\nDresden\t5105\t1374\t709\nLöbau\t5110\t1467\t709\nRadebeul\t5111\t1366\t709\nRadeberg\t5111\t1391\t709\nBorna\t5112\t1250\t709\nDöbeln\t5112\t1311\t709\nCoswig\t5113\t1358\t709\nMeissen\t5116\t1347\t709\nGörlitz\t5116\t1499\t709\nBautzen\t5118\t1443\t709\nGrimma\t5123\t1272\t709\nKamenz\t5127\t1409\t709\nMarkkleeberg\t5128\t1237\t709\nGroßenhain\t5129\t1353\t709\nOschatz\t5130\t1311\t709\nRiesa\t5131\t1329\t709\nLeipzig\t5134\t1237\t709\nWurzen\t5137\t1274\t709\nSchkeuditz\t5140\t1222\t709\nHoyerswerda\t5144\t1424\t709\nEilenburg\t5146\t1263\t709\nWeißwasser\t5150\t1464\t709\nDelitzsch\t5153\t1234\t709\nTorgau\t5156\t1300\t709\nZeitz\t5105\t1214\t710\nNaumburg\t5115\t1181\t710\nWeißenfels\t5120\t1197\t710\nMerseburg\t5135\t1199\t710\nSangerhausen\t5147\t1130\t710\nHalle Neustadt\t5148\t1192\t710\nHalle (Saale)\t5148\t1198\t710\nEisleben Lutherstadt\t5153\t1155\t710\nBitterfeld-Wolfen\t5162\t1232\t710\nHettstedt\t5165\t1151\t710\nWolfen\t5166\t1227\t710\nKöthen\t5175\t1197\t710\nAschersleben\t5176\t1146\t710\nBlankenburg\t5179\t1096\t710\nQuedlinburg\t5179\t1115\t710\nBernburg\t5179\t1174\t710\nWernigerode\t5184\t1078\t710\nDessau\t5184\t1225\t710\nStaßfurt\t5185\t1159\t710\nWittenberg\t5187\t1265\t710\nHalberstadt\t5190\t1106\t710\nZerbst\t5197\t1209\t710\nSchönebeck\t5202\t1173\t710\nOschersleben\t5203\t1123\t710\nMagdeburg\t5213\t1163\t710\nBurg bei Magdeburg\t5227\t1185\t710\nHaldensleben I\t5229\t1141\t710\nStendal\t5261\t1186\t710\nSalzwedel\t5285\t1115\t710\nGeesthacht\t5344\t1038\t711\nReinbek\t5352\t1025\t711\nGlinde\t5354\t1020\t711\nWedel\t5358\t970\t711\nMölln\t5362\t1069\t711\nHalstenbek\t5363\t985\t711\nPinneberg\t5367\t979\t711\nAhrensburg\t5368\t1023\t711\nUetersen\t5369\t966\t711\nNorderstedt\t5369\t998\t711\nQuickborn\t5373\t991\t711\nElmshorn\t5375\t965\t711\nBad Oldesloe\t5381\t1037\t711\nKaltenkirchen\t5383\t996\t711\nLübeck\t5387\t1069\t711\nStockelsdorf\t5389\t1065\t711\nItzehoe\t5392\t952\t711\nBad Schwartau\t5392\t1070\t711\nBad Segeberg\t5394\t1030\t711\nRatekau\t5395\t1073\t711\nNeumünster\t5407\t998\t711\nNeustadt in Holstein\t5411\t1081\t711\nEutin\t5414\t1061\t711\nHeide\t5420\t910\t711\nPreetz\t5424\t1028\t711\nRendsburg\t5431\t966\t711\nKiel\t5432\t1013\t711\nEckernförde\t5447\t984\t711\nHusum\t5449\t905\t711\nSchleswig\t5452\t956\t711\nFlensburg\t5478\t944\t711\nBerlin\t5252\t1341\t712\nSonneberg\t5036\t1117\t713\nMeiningen\t5057\t1042\t713\nSuhl\t5061\t1069\t713\nSaalfeld\t5065\t1137\t713\nGreiz\t5066\t1220\t713\nIlmenau\t5068\t1092\t713\nSchmalkalden\t5072\t1044\t713\nRudolstadt\t5072\t1134\t713\nBad Salzungen\t5081\t1024\t713\nArnstadt\t5084\t1095\t713\nGera\t5088\t1208\t713\nJena\t5093\t1159\t713\nGotha\t5095\t1070\t713\nEisenach\t5098\t1032\t713\nErfurt\t5098\t1103\t713\nWeimar\t5098\t1133\t713\nAltenburg\t5099\t1244\t713\nApolda\t5103\t1152\t713\nBad Langensalza\t5111\t1065\t713\nSömmerda\t5116\t1112\t713\nMühlhausen\t5121\t1045\t713\nSondershausen\t5137\t1087\t713\nHeilbad Heiligenstadt\t5138\t1014\t713\nNordhausen\t5150\t1080\t713\n'Ali Sabieh\t1116\t4271\t714\nArta\t1153\t4285\t715\nDikhil\t1110\t4237\t716\nDjibouti\t1159\t4315\t717\nObock\t1197\t4329\t718\nTadjourah\t1179\t4288\t719\nIshøj\t5562\t1235\t720\nTaastrup\t5565\t1230\t720\nAlbertslund\t5566\t1236\t720\nHvidovre\t5566\t1247\t720\nGlostrup\t5567\t1240\t720\nRødovre\t5568\t1245\t720\nFrederiksberg\t5568\t1253\t720\nCopenhagen\t5568\t1257\t720\nBallerup\t5573\t1236\t720\nCharlottenlund\t5575\t1257\t720\nStenløse\t5577\t1220\t720\nFarum\t5581\t1236\t720\nBirkerød\t5585\t1243\t720\nLillerød\t5587\t1235\t720\nHørsholm\t5588\t1250\t720\nHillerød\t5593\t1230\t720\nHelsingør\t5604\t1261\t720\nHorsens\t5586\t985\t721\nHerning\t5614\t898\t721\nÅrhus\t5616\t1021\t721\nSilkeborg\t5617\t955\t721\nHolstebro\t5636\t862\t721\nViborg\t5645\t940\t721\nRanders\t5646\t1004\t721\nSkive\t5657\t903\t721\nAalborg\t5705\t992\t722\nNørresundby\t5706\t992\t722\nFrederikshavn\t5744\t1054\t722\nHjørring\t5746\t998\t722\nSønderborg\t5491\t979\t723\nAabenraa\t5504\t942\t723\nSvendborg\t5506\t1061\t723\nHaderslev\t5525\t949\t723\nNyborg\t5531\t1079\t723\nOdense\t5540\t1039\t723\nEsbjerg\t5547\t845\t723\nKolding\t5549\t947\t723\nFredericia\t5557\t975\t723\nVejle\t5571\t954\t723\nNykøbing Falster\t5477\t1187\t724\nNæstved\t5523\t1176\t724\nKorsør\t5533\t1114\t724\nSlagelse\t5540\t1135\t724\nSorø\t5543\t1156\t724\nRingsted\t5544\t1179\t724\nKøge\t5546\t1218\t724\nGreve\t5558\t1230\t724\nRoskilde\t5564\t1208\t724\nKalundborg\t5568\t1109\t724\nHolbæk\t5572\t1171\t724\nWesley\t1557\t-6132\t725\nRosalie\t1537\t-6127\t726\nRoseau\t1530\t-6139\t727\nPortsmouth\t1558\t-6147\t728\nSaint Joseph\t1540\t-6143\t729\nPointe Michel\t1526\t-6137\t730\nSoufrière\t1523\t-6136\t731\nBerekua\t1523\t-6132\t732\nPont Cassé\t1537\t-6135\t733\nColihaut\t1548\t-6146\t734\nAzua\t1845\t-7073\t735\nNeiba\t1848\t-7142\t736\nSanta Cruz de Barahona\t1821\t-7110\t737\nDajabón\t1955\t-7171\t738\nSan Francisco de Macorís\t1930\t-7025\t739\nSanta Cruz de El Seibo\t1877\t-6904\t740\nComendador\t1888\t-7170\t741\nMoca\t1939\t-7053\t742\nHato Mayor del Rey\t1876\t-6926\t743\nSalcedo\t1938\t-7042\t744\nJimaní\t1849\t-7185\t745\nPunta Cana\t1858\t-6840\t746\nSalvaleón de Higüey\t1862\t-6871\t746\nLa Romana\t1843\t-6897\t747\nConstanza\t1891\t-7074\t748\nJarabacoa\t1912\t-7064\t748\nConcepción de La Vega\t1922\t-7053\t748\nNagua\t1938\t-6985\t749\nBonao\t1894\t-7041\t750\nSan Fernando de Monte Cristi\t1985\t-7165\t751\nBayaguana\t1875\t-6964\t752\nMonte Plata\t1881\t-6978\t752\nSabana Grande de Boyá\t1894\t-6979\t752\nSanto Domingo\t1847\t-6989\t753\nPedernales\t1804\t-7174\t754\nBaní\t1828\t-7033\t755\nRío Grande\t1967\t-7077\t756\nMonte Llano\t1973\t-7060\t756\nPuerto Plata\t1979\t-7069\t756\nSamaná\t1921\t-6934\t757\nSan Cristóbal\t1842\t-7010\t758\nBajos de Haina\t1842\t-7003\t758\nVilla Altagracia\t1867\t-7017\t758\nSan José de Ocoa\t1855\t-7051\t759\nSan Juan de la Maguana\t1881\t-7123\t760\nLas Matas de Farfán\t1887\t-7152\t760\nSan Pedro de Macorís\t1845\t-6931\t761\nQuisqueya\t1856\t-6941\t761\nSantiago de los Caballeros\t1945\t-7070\t762\nTamboril\t1949\t-7061\t762\nVilla Bisonó\t1956\t-7088\t762\nSabaneta\t1948\t-7134\t763\nBoca Chica\t1845\t-6960\t764\nSanto Domingo Este\t1849\t-6986\t764\nSanto Domingo Oeste\t1850\t-7000\t764\nCotuí\t1905\t-7015\t765\nMao\t1955\t-7108\t766\nEsperanza\t1958\t-7098\t766\nReggane\t2672\t17\t767\nAoulef\t2697\t108\t767\nAdrar\t2787\t-29\t767\nTimimoun\t2926\t23\t767\nBirkhadem\t3671\t305\t768\nDar el Beïda\t3671\t321\t768\nAlgiers\t3673\t309\t768\nBab Ezzouar\t3673\t318\t768\nRouiba\t3674\t328\t768\nBordj el Kiffan\t3675\t319\t768\nAïn Taya\t3679\t329\t768\nDrean\t3668\t775\t769\nEl Hadjar\t3680\t774\t769\nBerrahal\t3684\t745\t769\nAnnaba\t3690\t777\t769\nTheniet el Had\t3587\t203\t770\nEl Attaf\t3622\t167\t770\nAïn Defla\t3626\t197\t770\nKhemis Miliana\t3626\t222\t770\nEl Abadia\t3627\t169\t770\nBeni Saf\t3530\t-138\t771\nAïn Temouchent\t3530\t-114\t771\nHammam Bou Hadjar\t3538\t-97\t771\nEl Malah\t3539\t-109\t771\nEl Amria\t3552\t-102\t771\nArris\t3526\t635\t772\nAïn Touta\t3538\t590\t772\nBarika\t3539\t537\t772\nTazoult-Lambese\t3548\t626\t772\nBatna\t3556\t617\t772\nMerouana\t3563\t591\t772\nRâs el Aïoun\t3567\t565\t772\nSidi Khaled\t3439\t499\t773\nZeribet el Oued\t3468\t651\t773\nTolga\t3472\t538\t773\nSidi Okba\t3475\t590\t773\nBiskra\t3485\t573\t773\nChiffa\t3646\t274\t774\nBoû Arfa\t3646\t281\t774\nBlida\t3647\t283\t774\nBeni Mered\t3652\t286\t774\nSouma\t3652\t291\t774\nBouinan\t3653\t299\t774\nBougara\t3654\t308\t774\nLarbaâ\t3656\t315\t774\nBoufarik\t3657\t291\t774\nChebli\t3658\t301\t774\nSidi Moussa\t3661\t309\t774\nMeftah\t3662\t322\t774\nBordj Ghdir\t3590\t490\t775\nRâs el Oued\t3594\t503\t775\nMelouza\t3598\t419\t775\nEl Achir\t3606\t463\t775\nBordj Bou Arreridj\t3607\t476\t775\nMansourah\t3609\t445\t775\nBordj Zemoura\t3627\t486\t775\nSour el Ghozlane\t3615\t369\t776\nAïn Bessem\t3629\t367\t776\nBouïra\t3637\t390\t776\nChorfa\t3637\t433\t776\nDraa el Mizan\t3654\t383\t776\nLakhdaria\t3656\t359\t776\nTizi Gheniff\t3659\t377\t777\nArbatache\t3664\t337\t777\nChabet el Ameur\t3664\t369\t777\nKhemis el Khechna\t3665\t333\t777\nBeni Amrane\t3667\t359\t777\nBoudouaou\t3673\t341\t777\nThenia\t3673\t356\t777\nReghaïa\t3674\t334\t777\nTadmaït\t3674\t390\t777\nNaciria\t3675\t383\t777\nBoumerdas\t3677\t348\t777\nMakouda\t3679\t406\t777\nDellys\t3692\t391\t777\nBéchar\t3162\t-222\t778\nAkbou\t3646\t453\t779\nSeddouk\t3655\t469\t779\nFeraoun\t3656\t485\t779\nBarbacha\t3657\t497\t779\nAmizour\t3664\t490\t779\nel hed\t3665\t477\t779\nEl Kseur\t3668\t486\t779\nBejaïa\t3676\t508\t779\nBoukadir\t3607\t113\t780\nOued Sly\t3610\t120\t780\nChlef\t3617\t133\t780\nOued Fodda\t3619\t153\t780\nEch Chettia\t3620\t126\t780\nAbou el Hassan\t3642\t120\t780\nSidi Akkacha\t3646\t130\t780\n’Aïn Abid\t3623\t694\t781\nEl Khroub\t3626\t669\t781\nAïn Smara\t3627\t650\t781\nConstantine\t3637\t661\t781\nHamma Bouziane\t3641\t660\t781\nDidouche Mourad\t3645\t664\t781\nMessaad\t3415\t350\t782\n’Aïn el Bell\t3434\t322\t782\nEl Idrissia\t3445\t253\t782\nCharef\t3462\t280\t782\nDjelfa\t3467\t326\t782\nDar Chioukh\t3490\t349\t782\nAïn Oussera\t3545\t291\t782\nBirine\t3564\t323\t782\nEl Abiodh Sidi Cheikh\t3289\t55\t783\nBrezina\t3310\t126\t783\nEl Bayadh\t3368\t102\t783\nRobbah\t3328\t691\t784\nEl Oued\t3336\t686\t784\nDebila\t3352\t695\t784\nReguiba\t3356\t670\t784\nBesbes\t3670\t785\t785\nBen Mehidi\t3677\t791\t785\nEl Tarf\t3677\t831\t785\nEl Kala\t3690\t844\t785\nMetlili Chaamba\t3227\t363\t786\nGhardaïa\t3249\t367\t786\nBerriane\t3283\t377\t786\nGuelma\t3646\t743\t787\nBoumahra Ahmed\t3646\t751\t787\nHéliopolis\t3650\t744\t787\nIllizi\t2648\t847\t788\nJijel\t3682\t576\t789\nKhenchela\t3544\t714\t790\nLaghouat\t3380\t287\t791\nAflou\t3411\t210\t791\n’Aïn el Melh\t3484\t416\t792\n‘Aïn el Hadjel\t3567\t388\t792\nM’Sila\t3571\t454\t792\nSidi Aïssa\t3589\t377\t792\nBou Hanifia el Hamamat\t3531\t-5\t793\nMascara\t3540\t14\t793\nOued el Abtal\t3546\t69\t793\nSig\t3553\t-19\t793\nKsar el Boukhari\t3589\t275\t794\nBerrouaghia\t3614\t291\t794\nMédéa\t3626\t275\t794\nTelerghma\t3612\t635\t795\nChelghoum el Aïd\t3616\t617\t795\nMila\t3645\t626\t795\nRouached\t3646\t604\t795\nSidi Mérouane\t3652\t626\t795\nMostaganem\t3593\t9\t796\nAïn Sefra\t3275\t-58\t797\nNaama\t3327\t-32\t797\nBou Tlelis\t3557\t-90\t798\nEs Senia\t3565\t-62\t798\nSidi ech Chahmi\t3566\t-52\t798\nOran\t3570\t-64\t798\nBir el Djir\t3572\t-55\t798\nMers el Kebir\t3573\t-71\t798\n’Aïn el Turk\t3574\t-77\t798\nAïn el Bya\t3580\t-30\t798\nHassi Messaoud\t3168\t607\t799\nRouissat\t3192\t535\t799\nOuargla\t3195\t533\t799\nEl Hadjira\t3261\t551\t799\nTaïbet\t3309\t639\t799\nTouggourt\t3311\t606\t799\nTebesbest\t3312\t608\t799\nMegarine\t3319\t609\t799\nSidi Amrane\t3350\t601\t799\nDjamaa\t3353\t599\t799\nMeskiana\t3563\t767\t800\nAïn Beïda\t3580\t739\t800\nEl Aouinet\t3587\t789\t800\nOum el Bouaghi\t3588\t711\t800\nAïn Kercha\t3592\t670\t800\nAïn Fakroun\t3597\t687\t800\nZemoura\t3572\t76\t801\nRelizane\t3574\t56\t801\nAmmi Moussa\t3587\t111\t801\nDjidiouia\t3593\t83\t801\nOued Rhiou\t3596\t92\t801\nMazouna\t3612\t90\t801\n’Aïn Merane\t3616\t97\t801\nSaïda\t3483\t15\t802\nSidi Bel Abbès\t3519\t-63\t803\nSfizef\t3523\t-24\t803\n’Aïn el Berd\t3536\t-51\t803\nAzzaba\t3674\t711\t804\nTamalous\t3684\t664\t804\nSkikda\t3688\t691\t804\nKarkira\t3693\t659\t804\nSedrata\t3613\t753\t805\nSouk Ahras\t3629\t795\t805\nSalah Bey\t3585\t529\t806\nEl Eulma\t3615\t569\t806\nAïn Arnat\t3619\t531\t806\nSétif\t3619\t541\t806\nBougaa\t3633\t509\t806\nBABOR - VILLE\t3649\t554\t806\nTamanrasset\t2279\t552\t807\nI-n-Salah\t2719\t246\t807\n’Aïn Deheb\t3484\t155\t808\nFrenda\t3507\t105\t808\nSougueur\t3519\t150\t808\nKsar Chellala\t3521\t232\t808\nTiaret\t3537\t132\t808\nMehdia daira de meghila\t3543\t176\t808\nTindouf\t2767\t-815\t809\nEl Affroun\t3647\t263\t810\nMouzaïa\t3647\t269\t810\nHadjout\t3651\t241\t810\nOued el Alleug\t3656\t279\t810\nTipasa\t3659\t245\t810\nBou Ismaïl\t3664\t269\t810\nKolea\t3664\t277\t810\nDouera\t3667\t294\t810\nBaraki\t3667\t310\t810\nSaoula\t3670\t302\t810\nZeralda\t3671\t284\t810\nCheraga\t3677\t296\t810\n’Aïn Benian\t3680\t292\t810\nTissemsilt\t3561\t181\t811\nLardjem\t3575\t155\t811\nIghram\t3646\t451\t812\nBoghni\t3654\t395\t812\nTizi-n-Tleta\t3655\t406\t812\n’Aïn el Hammam\t3656\t431\t812\nChemini\t3660\t462\t812\nBeni Douala\t3662\t408\t812\nL’Arbaa Naït Irathen\t3663\t420\t812\nTirmitine\t3665\t398\t812\nTizi Rached\t3667\t419\t812\nMekla\t3668\t426\t812\nTizi Ouzou\t3671\t405\t812\nDraa Ben Khedda\t3673\t396\t812\nAzazga\t3674\t437\t812\nFreha\t3675\t432\t812\nArhribs\t3679\t431\t812\nBoudjima\t3680\t415\t812\nTimizart\t3680\t427\t812\nSebdou\t3464\t-133\t813\nMansoûra\t3486\t-134\t813\nBeni Mester\t3487\t-142\t813\nTlemcen\t3488\t-131\t813\nOuled Mimoun\t3490\t-103\t813\nChetouane\t3492\t-130\t813\nHennaya\t3495\t-137\t813\nNedroma\t3501\t-175\t813\nRemchi\t3506\t-143\t813\nBensekrane\t3507\t-122\t813\nSidi Abdelli\t3507\t-114\t813\nBir el Ater\t3474\t806\t814\nCheria\t3527\t775\t814\nTébessa\t3540\t812\t814\nHammamet\t3545\t795\t814\nCuenca\t-290\t-7900\t815\nGualaceo\t-289\t-7878\t815\nGuaranda\t-159\t-7900\t816\nAzogues\t-274\t-7885\t817\nLa Troncal\t-242\t-7934\t817\nSan Gabriel\t59\t-7783\t818\nTulcán\t81\t-7772\t818\nRiobamba\t-167\t-7865\t819\nPujilí\t-96\t-7870\t820\nLa Maná\t-94\t-7923\t820\nLatacunga\t-94\t-7862\t820\nPiñas\t-368\t-7968\t821\nHuaquillas\t-348\t-8023\t821\nSanta Rosa\t-345\t-7996\t821\nPasaje\t-333\t-7981\t821\nMachala\t-326\t-7996\t821\nRosa Zarate\t33\t-7947\t822\nEsmeraldas\t96\t-7965\t822\nSan Lorenzo de Esmeraldas\t129\t-7884\t822\nPuerto Baquerizo Moreno\t-90\t-8961\t823\nNaranjal\t-267\t-7962\t824\nPlayas\t-263\t-8039\t824\nLa Libertad\t-223\t-8091\t824\nGuayaquil\t-220\t-7989\t824\nEloy Alfaro\t-218\t-7986\t824\nNaranjito\t-217\t-7947\t824\nMilagro\t-213\t-7959\t824\nYaguachi Nuevo\t-210\t-7969\t824\nSamborondón\t-196\t-7972\t824\nEl Triunfo\t-193\t-7997\t824\nPedro Carbo\t-182\t-8023\t824\nBalzar\t-137\t-7990\t824\nVelasco Ibarra\t-104\t-7964\t824\nOtavalo\t23\t-7826\t825\nAtuntaqui\t33\t-7821\t825\nIbarra\t35\t-7812\t825\nCariamanga\t-433\t-7956\t826\nCatamayo\t-399\t-7936\t826\nLoja\t-399\t-7920\t826\nBabahoyo\t-180\t-7953\t827\nMontalvo\t-179\t-7929\t827\nVinces\t-156\t-7975\t827\nVentanas\t-144\t-7946\t827\nQuevedo\t-103\t-7946\t827\nJipijapa\t-135\t-8058\t828\nSucre\t-128\t-8042\t828\nMontecristi\t-105\t-8066\t828\nPortoviejo\t-105\t-8045\t828\nManta\t-96\t-8071\t828\nCalceta\t-85\t-8016\t828\nChone\t-70\t-8009\t828\nBahía de Caráquez\t-60\t-8042\t828\nMacas\t-231\t-7811\t829\nTena\t-99\t-7781\t830\nBoca Suno\t-70\t-7714\t831\nPuerto Francisco de Orellana\t-47\t-7699\t831\nPuyo\t-148\t-7800\t832\nMachachi\t-51\t-7857\t833\nQuito\t-23\t-7852\t833\nTutamandahostel\t-20\t-7850\t833\nCayambe\t4\t-7815\t833\nSanta Elena\t-223\t-8086\t834\nSalinas\t-221\t-8095\t834\nSanto Domingo de los Colorados\t-25\t-7918\t835\nNueva Loja\t9\t-7690\t836\nPelileo\t-133\t-7854\t837\nAmbato\t-125\t-7862\t837\nZamora\t-407\t-7895\t838\nTallinn\t5944\t2475\t839\nMaardu\t5947\t2498\t839\nKärdla\t5900\t2275\t840\nJõhvi\t5936\t2742\t841\nNarva\t5938\t2819\t841\nKohtla-Järve\t5940\t2727\t841\nSillamäe\t5940\t2776\t841\nPaide\t5889\t2556\t842\nJõgeva\t5875\t2639\t843\nHaapsalu\t5894\t2354\t844\nRakvere\t5935\t2636\t845\nPärnu\t5839\t2450\t846\nPõlva\t5806\t2707\t847\nRapla\t5901\t2479\t848\nKuressaare\t5825\t2250\t849\nTartu\t5838\t2673\t850\nValga\t5778\t2605\t851\nViljandi\t5836\t2559\t852\nVõru\t5783\t2702\t853\nAlexandria\t3120\t2992\t854\nAswan\t2409\t3290\t855\nKawm Umbū\t2448\t3295\t855\nIdfū\t2498\t3288\t855\nAl Badārī\t2699\t3142\t856\nAbū Tīj\t2705\t3132\t856\nAsyūţ\t2718\t3118\t856\nAbnūb\t2727\t3115\t856\nManfalūţ\t2731\t3097\t856\nAl Qūşīyah\t2744\t3082\t856\nDayrūţ\t2756\t3081\t856\nKawm Ḩamādah\t3076\t3070\t857\nAd Dilinjāt\t3083\t3054\t857\nAbū al Maţāmīr\t3091\t3017\t857\nḨawsh ‘Īsá\t3091\t3029\t857\nDamanhūr\t3103\t3047\t857\nKafr ad Dawwār\t3113\t3013\t857\nIdkū\t3131\t3030\t857\nRosetta\t3140\t3042\t857\nAl Fashn\t2882\t3090\t858\nSumusţā as Sulţānī\t2892\t3085\t858\nBanī Suwayf\t2907\t3110\t858\nBūsh\t2915\t3113\t858\nḨalwān\t2984\t3130\t859\nNew Cairo\t3003\t3147\t859\nCairo\t3006\t3125\t859\nAjā\t3094\t3129\t860\nAl Manşūrah\t3104\t3138\t860\nŢalkhā\t3105\t3138\t860\nDikirnis\t3109\t3159\t860\nMinyat an Naşr\t3113\t3164\t860\nAl Manzalah\t3116\t3194\t860\nAl Jammālīyah\t3118\t3186\t860\nAl Maţarīyah\t3118\t3203\t860\nShirbīn\t3120\t3152\t860\nBilqās\t3121\t3136\t860\n‘Izbat al Burj\t3151\t3184\t860\nAz Zarqā\t3121\t3164\t861\nFāraskūr\t3133\t3172\t861\nDamietta\t3142\t3181\t861\nIţsā\t2924\t3079\t862\nAl Fayyūm\t2931\t3084\t862\nAl Wāsiţah\t2934\t3121\t862\nIbshawāy\t2936\t3068\t862\nŢāmiyah\t2948\t3096\t862\nZefta\t3071\t3124\t863\nTanda\t3079\t3100\t863\nKafr az Zayyāt\t3082\t3082\t863\nBasyūn\t3094\t3081\t863\nSamannūd\t3096\t3124\t863\nQuţūr\t3097\t3096\t863\nAl Maḩallah al Kubrá\t3097\t3117\t863\nAl Bawīţī\t2835\t2887\t864\nAş Şaff\t2956\t3128\t864\nAl ‘Ayyāţ\t2962\t3126\t864\nMadīnat Sittah Uktūbar\t2982\t3105\t864\nAl Ḩawāmidīyah\t2990\t3125\t864\nGiza\t3001\t3121\t864\nAwsīm\t3012\t3114\t864\nIsmailia\t3060\t3227\t865\nKafr ash Shaykh\t3111\t3094\t866\nDisūq\t3113\t3065\t866\nFuwwah\t3120\t3055\t866\nSīdī Sālim\t3127\t3079\t866\nAl Ḩāmūl\t3131\t3115\t866\nLuxor\t2570\t3264\t867\nMersa Matruh\t3135\t2724\t868\nDayr Mawās\t2764\t3085\t869\nMallawī\t2773\t3084\t869\nAbū Qurqāş\t2793\t3084\t869\nAl Minyā\t2809\t3076\t869\nSamālūţ\t2831\t3071\t869\nMaţāy\t2842\t3078\t869\nBanī Mazār\t2850\t3080\t869\nAshmūn\t3030\t3098\t870\nAl Bājūr\t3043\t3104\t870\nMunūf\t3047\t3093\t870\nShibīn al Kawm\t3055\t3101\t870\nQuwaysinā\t3056\t3116\t870\nAsh Shuhadā’\t3060\t3090\t870\nTalā\t3068\t3094\t870\nAl Khārijah\t2545\t3055\t871\nArish\t3113\t3380\t872\nPort Said\t3127\t3230\t873\nQalyūb\t3018\t3121\t874\nAl Qanāţir al Khayrīyah\t3019\t3114\t874\nAl Khānkah\t3021\t3137\t874\nShibīn al Qanāṭir\t3031\t3132\t874\nToukh\t3035\t3120\t874\nBanhā\t3046\t3118\t874\nIsnā\t2529\t3255\t875\nKousa\t2592\t3276\t875\nFarshūţ\t2605\t3216\t875\nNaja' Ḥammādī\t2605\t3224\t875\nDishnā\t2612\t3248\t875\nQinā\t2616\t3273\t875\nAl Quşayr\t2611\t3428\t876\nSafaga\t2675\t3394\t876\nHurghada\t2726\t3381\t876\nEl Gouna\t2739\t3368\t876\nRas Gharib\t2836\t3308\t876\nMashtūl as Sūq\t3036\t3138\t877\nBilbays\t3042\t3156\t877\nAt Tall al Kabīr\t3054\t3179\t877\nZagazig\t3059\t3150\t877\nAl Qanāyāt\t3062\t3146\t877\nAl Qurayn\t3062\t3174\t877\nHihyā\t3067\t3159\t877\nAl Ibrāhīmīyah\t3072\t3156\t877\nAbū Kabīr\t3073\t3167\t877\nFāqūs\t3073\t3180\t877\nDiyarb Najm\t3075\t3144\t877\nKafr Şaqr\t3079\t3163\t877\nAl Balyanā\t2624\t3200\t878\nJirjā\t2634\t3189\t878\nAl Manshāh\t2648\t3180\t878\nSohag\t2656\t3169\t878\nAkhmīm\t2656\t3175\t878\nJuhaynah\t2667\t3150\t878\nŢahţā\t2677\t3150\t878\nEl-Tor\t2824\t3362\t879\nAin Sukhna\t2960\t3232\t880\nSuez\t2997\t3253\t880\nDakhla\t2368\t-1596\t881\nLaayoune\t2714\t-1319\t881\nKeren\t1578\t3845\t882\nMendefera\t1489\t3882\t883\nBarentu\t1511\t3759\t884\nAsmara\t1534\t3893\t885\nMassawa\t1561\t3947\t886\nAssab\t1301\t4274\t887\nTarifa\t3601\t-561\t888\nAlgeciras\t3613\t-545\t888\nLa Línea de la Concepción\t3617\t-535\t888\nLos Barrios\t3618\t-549\t888\nBarbate\t3619\t-592\t888\nSan Roque\t3621\t-538\t888\nConil de la Frontera\t3628\t-609\t888\nChiclana de la Frontera\t3642\t-614\t888\nEstepona\t3643\t-515\t888\nSan Fernando\t3648\t-620\t888\nSan Pedro de Alcántara\t3649\t-499\t888\nMarbella\t3652\t-489\t888\nCadiz\t3653\t-629\t888\nPuerto Real\t3653\t-619\t888\nFuengirola\t3654\t-462\t888\nEl Puerto de Santa María\t3659\t-623\t888\nMijas\t3660\t-464\t888\nBenalmádena\t3660\t-457\t888\nTorremolinos\t3662\t-450\t888\nRota\t3663\t-636\t888\nAlhaurín el Grande\t3664\t-469\t888\nCoín\t3666\t-476\t888\nAlhaurín de la Torre\t3666\t-456\t888\nUbrique\t3668\t-545\t888\nJerez de la Frontera\t3669\t-614\t888\nCártama\t3671\t-463\t888\nMálaga\t3672\t-442\t888\nRincón de la Victoria\t3672\t-428\t888\nAlmuñécar\t3673\t-369\t888\nChipiona\t3674\t-644\t888\nRonda\t3674\t-517\t888\nTorre del Mar\t3674\t-409\t888\nArcos de la Frontera\t3675\t-581\t888\nNerja\t3675\t-387\t888\nMotril\t3675\t-352\t888\nAdra\t3675\t-302\t888\nTorrox\t3676\t-395\t888\nRoquetas de Mar\t3676\t-261\t888\nSanlúcar de Barrameda\t3678\t-635\t888\nVélez-Málaga\t3678\t-410\t888\nEl Ejido\t3678\t-281\t888\nVícar\t3683\t-264\t888\nAlmería\t3684\t-246\t888\nBerja\t3685\t-295\t888\nLebrija\t3692\t-608\t888\nNíjar\t3697\t-221\t888\nLas Cabezas de San Juan\t3698\t-594\t888\nAntequera\t3702\t-456\t888\nMorón de la Frontera\t3712\t-545\t888\nZubia\t3712\t-358\t888\nLas Gabias\t3714\t-367\t888\nArmilla\t3714\t-363\t888\nLos Palacios y Villafranca\t3716\t-592\t888\nLoja\t3717\t-415\t888\nUtrera\t3719\t-578\t888\nSantafé\t3719\t-372\t888\nGranada\t3719\t-361\t888\nIsla Cristina\t3720\t-732\t888\nAyamonte\t3721\t-741\t888\nMaracena\t3721\t-363\t888\nAtarfe\t3722\t-369\t888\nAlbolote\t3723\t-366\t888\nOsuna\t3724\t-510\t888\nLepe\t3725\t-720\t888\nAlmonte\t3726\t-652\t888\nEl Arahal\t3726\t-555\t888\nAljaraque\t3727\t-702\t888\nHuelva\t3727\t-694\t888\nCartaya\t3728\t-715\t888\nMoguer\t3728\t-684\t888\nDos Hermanas\t3728\t-592\t888\nCoria del Río\t3729\t-605\t888\nGuadix\t3730\t-314\t888\nMarchena\t3733\t-542\t888\nMairena del Aljarafe\t3734\t-606\t888\nAlcalá de Guadaira\t3734\t-584\t888\nSan Juan de Aznalfarache\t3736\t-604\t888\nBormujos\t3737\t-607\t888\nTomares\t3737\t-605\t888\nMairena del Alcor\t3737\t-575\t888\nSevilla\t3738\t-597\t888\nCastilleja de la Cuesta\t3739\t-605\t888\nEl Viso del Alcor\t3739\t-572\t888\nPuente-Genil\t3739\t-477\t888\nHuércal-Overa\t3739\t-194\t888\nCamas\t3740\t-603\t888\nLucena\t3741\t-449\t888\nPriego de Córdoba\t3744\t-420\t888\nAlcalá la Real\t3746\t-392\t888\nCarmona\t3747\t-565\t888\nCabra\t3747\t-444\t888\nLa Rinconada\t3749\t-598\t888\nBaza\t3749\t-277\t888\nÉcija\t3754\t-508\t888\nMontilla\t3759\t-464\t888\nBaena\t3762\t-432\t888\nLora del Río\t3766\t-553\t888\nPalma del Río\t3770\t-528\t888\nMartos\t3772\t-397\t888\nJaén\t3777\t-379\t888\nCórdoba\t3789\t-477\t888\nBaeza\t3799\t-347\t888\nÚbeda\t3801\t-337\t888\nAndújar\t3804\t-405\t888\nBailén\t3810\t-378\t888\nLinares\t3810\t-364\t888\nCampiña\t3822\t-298\t888\nLa Carolina\t3828\t-362\t888\nPozoblanco\t3838\t-485\t888\nTeruel\t4035\t-111\t889\nAlcañiz\t4105\t-13\t889\nCalatayud\t4135\t-164\t889\nZaragoza\t4166\t-88\t889\nUtebo\t4171\t-100\t889\nMonzón\t4191\t19\t889\nBarbastro\t4204\t13\t889\nEjea de los Caballeros\t4213\t-114\t889\nHuesca\t4214\t-41\t889\nMieres\t4325\t-577\t890\nSama\t4330\t-568\t890\nOviedo\t4336\t-584\t890\nCorvera de Asturias\t4354\t-589\t890\nNatahoyo\t4354\t-568\t890\nGijón\t4354\t-566\t890\nAvilés\t4355\t-592\t890\nIbiza\t3891\t143\t891\nSant Antoni de Portmany\t3898\t130\t891\nSanta Eulària des Riu\t3898\t153\t891\nFelanitx\t3947\t315\t891\nLlucmajor\t3949\t289\t891\nCalvià\t3957\t251\t891\nPalma\t3957\t265\t891\nManacor\t3957\t321\t891\nMarratxí\t3962\t273\t891\nInca\t3972\t291\t891\nAlcúdia\t3985\t312\t891\nPollença\t3988\t302\t891\nMaó\t3989\t427\t891\nCiutadella\t4000\t384\t891\nGasteiz / Vitoria\t4285\t-267\t892\nArrasate / Mondragón\t4306\t-249\t892\nTolosa\t4313\t-208\t892\nLaudio / Llodio\t4314\t-296\t892\nDurango\t4317\t-263\t892\nEibar\t4318\t-247\t892\nErmua\t4319\t-250\t892\nAmorebieta\t4322\t-273\t892\nGaldakao\t4323\t-284\t892\nBasauri\t4324\t-289\t892\nSantutxu\t4325\t-292\t892\nBilbao\t4326\t-293\t892\nOria\t4326\t-202\t892\nLasarte\t4327\t-202\t892\nHernani\t4327\t-198\t892\nZarautz\t4328\t-217\t892\nBarakaldo\t4330\t-299\t892\nErandio\t4330\t-297\t892\nSestao\t4331\t-301\t892\nDonostia / San Sebastián\t4331\t-197\t892\nErrenteria\t4331\t-190\t892\nPortugalete\t4332\t-302\t892\nGernika-Lumo\t4332\t-268\t892\nSanturtzi\t4333\t-303\t892\nLeioa\t4333\t-299\t892\nPasaia\t4333\t-193\t892\nIrun\t4334\t-179\t892\nMungia\t4335\t-285\t892\nGetxo\t4336\t-301\t892\nHondarribia\t4337\t-180\t892\nBermeo\t4342\t-272\t892\nMaspalomas\t2776\t-1559\t893\nPlaya del Ingles\t2776\t-1558\t893\nMogán\t2788\t-1573\t893\nSanta Lucía\t2791\t-1554\t893\nAgüimes\t2791\t-1545\t893\nCarrizal\t2791\t-1541\t893\nSan Bartolomé de Tirajana\t2792\t-1557\t893\nIngenio\t2792\t-1543\t893\nTelde\t2799\t-1542\t893\nSanta Brígida\t2803\t-1550\t893\nSan Isidro\t2808\t-1656\t893\nArona\t2810\t-1668\t893\nSan Miguel De Abona\t2810\t-1662\t893\nLas Palmas de Gran Canaria\t2810\t-1541\t893\nAdeje\t2812\t-1673\t893\nGranadilla de Abona\t2812\t-1658\t893\nArucas\t2812\t-1552\t893\nGáldar\t2815\t-1565\t893\nGuía de Isora\t2821\t-1678\t893\nGüimar\t2831\t-1641\t893\nCandelaria\t2835\t-1637\t893\nPájara\t2835\t-1411\t893\nIcod de los Vinos\t2837\t-1671\t893\nRealejo Alto\t2838\t-1659\t893\nLos Realejos\t2838\t-1658\t893\nLa Orotava\t2839\t-1652\t893\nPuerto de la Cruz\t2841\t-1655\t893\nSanta Cruz de Tenerife\t2847\t-1625\t893\nTacoronte\t2848\t-1641\t893\nLa Laguna\t2849\t-1632\t893\nPuerto del Rosario\t2850\t-1386\t893\nLa Oliva\t2861\t-1393\t893\nLos Llanos de Aridane\t2866\t-1792\t893\nSanta Cruz de la Palma\t2868\t-1776\t893\nPuerto del Carmen\t2892\t-1367\t893\nTías\t2896\t-1365\t893\nArrecife\t2896\t-1355\t893\nSan Bartolomé\t2900\t-1361\t893\nTeguise\t2906\t-1356\t893\nTorrelavega\t4335\t-405\t894\nCastro-Urdiales\t4338\t-322\t894\nEl Astillero\t4340\t-382\t894\nCamargo\t4341\t-388\t894\nSantander\t4346\t-380\t894\nBéjar\t4039\t-576\t895\nÁvila\t4066\t-470\t895\nSegovia\t4095\t-412\t895\nSalamanca\t4097\t-566\t895\nMedina del Campo\t4131\t-491\t895\nZamora\t4151\t-574\t895\nLaguna de Duero\t4158\t-472\t895\nValladolid\t4166\t-472\t895\nAranda de Duero\t4167\t-369\t895\nSoria\t4176\t-247\t895\nBenavente\t4200\t-568\t895\nPalencia\t4201\t-452\t895\nBurgos\t4234\t-370\t895\nPonferrada\t4255\t-660\t895\nLeón\t4260\t-557\t895\nSan Andrés del Rabanedo\t4261\t-562\t895\nVillaquilambre\t4265\t-556\t895\nMiranda de Ebro\t4269\t-295\t895\nHellín\t3851\t-170\t896\nPuertollano\t3869\t-411\t896\nValdepeñas\t3876\t-338\t896\nAlmansa\t3887\t-110\t896\nLa Solana\t3894\t-324\t896\nCiudad Real\t3899\t-393\t896\nAlbacete\t3899\t-186\t896\nManzanares\t3900\t-337\t896\nDaimiel\t3907\t-361\t896\nTomelloso\t3916\t-302\t896\nLa Roda\t3921\t-216\t896\nVillarrobledo\t3927\t-260\t896\nAlcázar de San Juan\t3939\t-321\t896\nCampo de Criptana\t3940\t-312\t896\nToledo\t3986\t-402\t896\nTalavera de la Reina\t3996\t-483\t896\nTarancón\t4001\t-301\t896\nCuenca\t4007\t-213\t896\nSeseña\t4010\t-370\t896\nIllescas\t4012\t-385\t896\nAzuqueca de Henares\t4057\t-327\t896\nGuadalajara\t4063\t-316\t896\nSant Carles de la Ràpita\t4062\t60\t897\nAmposta\t4071\t58\t897\nTortosa\t4081\t52\t897\nCambrils\t4107\t106\t897\nSalou\t4108\t114\t897\nLa Pineda\t4108\t119\t897\nVila-seca\t4111\t115\t897\nTarragona\t4112\t125\t897\nTorredembarra\t4115\t140\t897\nReus\t4116\t111\t897\nCalafell\t4120\t157\t897\nEl Vendrell\t4122\t153\t897\nVilanova i la Geltrú\t4122\t173\t897\nSitges\t4124\t181\t897\nSant Pere de Ribes\t4126\t177\t897\nCastelldefels\t4128\t197\t897\nValls\t4129\t125\t897\nGavà\t4131\t200\t897\nViladecans\t4131\t201\t897\nEl Prat de Llobregat\t4133\t209\t897\nSant Boi de Llobregat\t4134\t204\t897\nVilafranca del Penedès\t4135\t170\t897\nCornellà de Llobregat\t4135\t208\t897\nL'Hospitalet de Llobregat\t4136\t210\t897\nSant Joan Despí\t4137\t206\t897\nSant Feliu de Llobregat\t4138\t205\t897\nSant Just Desvern\t4138\t207\t897\nEsplugues de Llobregat\t4138\t209\t897\nSant Vicenç dels Horts\t4139\t201\t897\nBarcelona\t4139\t216\t897\nMolins de Rei\t4142\t202\t897\nSant Adrià de Besòs\t4143\t222\t897\nLlefià\t4144\t222\t897\nSant Andreu de la Barca\t4145\t197\t897\nSanta Coloma de Gramenet\t4145\t221\t897\nBadalona\t4145\t225\t897\nMartorell\t4147\t193\t897\nSant Cugat del Vallès\t4147\t209\t897\nMontcada i Reixac\t4148\t218\t897\nEl Masnou\t4148\t232\t897\nRubí\t4149\t203\t897\nCerdanyola del Vallès\t4149\t214\t897\nPremià de Mar\t4149\t237\t897\nRipollet\t4150\t216\t897\nVilassar de Mar\t4151\t239\t897\nBarberà del Vallès\t4152\t212\t897\nSant Quirze del Vallès\t4153\t208\t897\nSanta Perpètua de Mogoda\t4153\t218\t897\nEsparreguera\t4154\t187\t897\nOlesa de Montserrat\t4154\t189\t897\nSabadell\t4154\t211\t897\nMollet del Vallès\t4154\t221\t897\nMontornès del Vallès\t4154\t227\t897\nMataró\t4154\t244\t897\nTerrassa\t4157\t202\t897\nParets del Vallès\t4157\t223\t897\nIgualada\t4158\t162\t897\nArenys de Mar\t4158\t255\t897\nGranollers\t4161\t229\t897\nCalella\t4161\t265\t897\nLleida\t4162\t62\t897\nCastellar del Vallès\t4162\t208\t897\nCanovelles\t4162\t228\t897\nCaldes de Montbui\t4163\t217\t897\nPineda de Mar\t4163\t269\t897\nCardedeu\t4164\t236\t897\nTàrrega\t4165\t114\t897\nMalgrat de Mar\t4165\t274\t897\nBlanes\t4167\t279\t897\nSant Celoni\t4169\t249\t897\nTordera\t4170\t272\t897\nLloret de Mar\t4170\t285\t897\nManresa\t4173\t182\t897\nSant Feliu de Guíxols\t4178\t303\t897\nBalaguer\t4179\t81\t897\nPalamós\t4185\t313\t897\nPalafrugell\t4192\t316\t897\nVic\t4193\t225\t897\nSalt\t4197\t279\t897\nGirona\t4198\t282\t897\nManlleu\t4200\t228\t897\nVilaseca\t4206\t226\t897\nBerga\t4210\t185\t897\nBanyoles\t4212\t277\t897\nOlot\t4218\t249\t897\nRoses\t4226\t318\t897\nFigueres\t4227\t296\t897\nCeuta\t3589\t-532\t898\nZafra\t3843\t-642\t899\nAlmendralejo\t3868\t-641\t899\nBadajoz\t3888\t-697\t899\nMontijo\t3891\t-662\t899\nMérida\t3892\t-634\t899\nDon Benito\t3896\t-586\t899\nVillanueva de la Serena\t3898\t-580\t899\nCáceres\t3948\t-637\t899\nNavalmoral de la Mata\t3989\t-554\t899\nPlasencia\t4003\t-609\t899\nTui\t4205\t-864\t900\nNigrán\t4214\t-881\t900\nPorriño\t4216\t-862\t900\nPonteareas\t4217\t-850\t900\nVigo\t4223\t-872\t900\nCangas do Morrazo\t4226\t-878\t900\nMoaña\t4228\t-874\t900\nRedondela\t4228\t-861\t900\nOurense\t4234\t-786\t900\nMarín\t4239\t-870\t900\nSanxenxo\t4240\t-881\t900\nPontevedra\t4243\t-864\t900\nPoio\t4245\t-869\t900\nMonforte de Lemos\t4252\t-751\t900\nSanta Uxía de Ribeira\t4255\t-899\t900\nVilagarcía de Arousa\t4260\t-876\t900\nBoiro\t4265\t-888\t900\nLalín\t4266\t-811\t900\nA Estrada\t4269\t-849\t900\nTeo\t4275\t-850\t900\nRibeira\t4275\t-844\t900\nSantiago de Compostela\t4288\t-855\t900\nAmés\t4290\t-866\t900\nLugo\t4301\t-756\t900\nCarballo\t4321\t-869\t900\nCulleredo\t4329\t-839\t900\nCambre\t4329\t-835\t900\nArteixo\t4330\t-851\t900\nVilalba\t4330\t-768\t900\nOleiros\t4333\t-832\t900\nA Coruña\t4337\t-840\t900\nFerrol\t4348\t-823\t900\nNarón\t4350\t-819\t900\nViveiro\t4366\t-759\t900\nCalahorra\t4231\t-197\t901\nLogroño\t4247\t-245\t901\nAranjuez\t4003\t-360\t902\nCiempozuelos\t4016\t-362\t902\nValdemoro\t4019\t-368\t902\nSan Martín de la Vega\t4021\t-357\t902\nParla\t4024\t-377\t902\nPinto\t4024\t-370\t902\nHumanes de Madrid\t4025\t-383\t902\nFuenlabrada\t4028\t-379\t902\nNavalcarnero\t4029\t-401\t902\nArganda\t4030\t-344\t902\nGetafe\t4031\t-373\t902\nMóstoles\t4032\t-386\t902\nLeganés\t4033\t-376\t902\nRivas-Vaciamadrid\t4033\t-351\t902\nAlcorcón\t4035\t-382\t902\nVillaviciosa de Odón\t4036\t-390\t902\nMejorada del Campo\t4039\t-348\t902\nBoadilla del Monte\t4041\t-388\t902\nMadrid\t4042\t-370\t902\nCoslada\t4042\t-356\t902\nSan Fernando de Henares\t4042\t-353\t902\nPozuelo de Alarcón\t4043\t-381\t902\nVillanueva de la Cañada\t4045\t-400\t902\nCiudad Lineal\t4045\t-365\t902\nChamartín\t4046\t-368\t902\nTorrejón de Ardoz\t4046\t-347\t902\nMajadahonda\t4047\t-387\t902\nAlcalá de Henares\t4048\t-336\t902\nVillanueva del Pardillo\t4049\t-396\t902\nLas Rozas de Madrid\t4049\t-387\t902\nAlcobendas\t4055\t-364\t902\nSan Sebastián de los Reyes\t4056\t-363\t902\nGalapagar\t4058\t-400\t902\nTorrelodones\t4058\t-393\t902\nSan Lorenzo de El Escorial\t4059\t-415\t902\nTres Cantos\t4060\t-371\t902\nAlgete\t4060\t-350\t902\nCollado-Villalba\t4064\t-400\t902\nColmenar Viejo\t4066\t-377\t902\nMelilla\t3529\t-294\t903\nÁguilas\t3741\t-158\t904\nMazarrón\t3760\t-131\t904\nAtamaría\t3760\t-81\t904\nCartagena\t3761\t-99\t904\nLa Unión\t3762\t-88\t904\nLorca\t3767\t-170\t904\nTorre-Pacheco\t3774\t-95\t904\nLos Alcázares\t3774\t-85\t904\nTotana\t3777\t-150\t904\nSan Javier\t3781\t-84\t904\nSan Pedro del Pinatar\t3784\t-79\t904\nAlhama de Murcia\t3785\t-143\t904\nAlcantarilla\t3797\t-122\t904\nMurcia\t3799\t-113\t904\nLas Torres de Cotillas\t3803\t-124\t904\nMula\t3804\t-149\t904\nMolina de Segura\t3805\t-121\t904\nSantomera\t3806\t-105\t904\nCehegín\t3809\t-180\t904\nCaravaca\t3811\t-186\t904\nArchena\t3812\t-130\t904\nCieza\t3824\t-142\t904\nJumilla\t3848\t-132\t904\nYecla\t3861\t-111\t904\nTudela\t4206\t-160\t905\nBarañáin\t4281\t-168\t905\nIturrama\t4281\t-166\t905\nErmitagaña\t4281\t-166\t905\nPrimer Ensanche\t4281\t-165\t905\nSegundo Ensanche\t4281\t-164\t905\nPamplona\t4282\t-164\t905\nBurlata\t4283\t-162\t905\nPilar de la Horadada\t3787\t-79\t906\nTorrevieja\t3798\t-68\t906\nOrihuela\t3808\t-94\t906\nRojales\t3809\t-73\t906\nGuardamar del Segura\t3809\t-66\t906\nAlmoradí\t3811\t-79\t906\nCallosa de Segura\t3812\t-88\t906\nSanta Pola\t3819\t-57\t906\nCrevillente\t3825\t-81\t906\nElche\t3826\t-70\t906\nAspe\t3835\t-77\t906\nAlicante\t3835\t-48\t906\nNovelda\t3838\t-77\t906\nSan Vicent del Raspeig\t3840\t-53\t906\nSan Juan de Alicante\t3840\t-44\t906\nMutxamel\t3842\t-45\t906\nEl Campello\t3843\t-40\t906\nElda\t3848\t-79\t906\nVillajoyosa\t3851\t-23\t906\nBenidorm\t3854\t-13\t906\nl'Alfàs del Pi\t3858\t-10\t906\nAltea\t3860\t-5\t906\nla Nucia\t3861\t-13\t906\nIbi\t3863\t-57\t906\nVillena\t3864\t-87\t906\nCalp\t3864\t4\t906\nAlcoy\t3871\t-47\t906\nJavea\t3878\t17\t906\nOntinyent\t3882\t-61\t906\nDenia\t3884\t11\t906\nOliva\t3892\t-12\t906\nGandia\t3897\t-18\t906\nXàtiva\t3899\t-52\t906\nTavernes de la Valldigna\t3907\t-27\t906\nCarcaixent\t3912\t-45\t906\nAlzira\t3915\t-43\t906\nCullera\t3917\t-25\t906\nAlgemesí\t3919\t-44\t906\nSueca\t3920\t-31\t906\nCarlet\t3923\t-52\t906\nPicassent\t3936\t-46\t906\nSilla\t3936\t-41\t906\nAlbal\t3940\t-42\t906\nCatarroja\t3940\t-40\t906\nBenetússer\t3942\t-40\t906\nAlfafar\t3942\t-38\t906\nPaiporta\t3943\t-42\t906\nTorrent\t3944\t-47\t906\nAlaquàs\t3946\t-46\t906\nAldaia\t3947\t-46\t906\nXirivella\t3947\t-43\t906\nValencia\t3947\t-38\t906\nQuart de Poblet\t3948\t-44\t906\nMislata\t3948\t-42\t906\nRequena\t3949\t-110\t906\nManises\t3949\t-46\t906\nPaterna\t3950\t-44\t906\nAlboraya\t3950\t-35\t906\nBurjassot\t3951\t-41\t906\nRibarroja del Turia\t3955\t-57\t906\nMoncada\t3955\t-40\t906\nL'Eliana\t3957\t-53\t906\nMassamagrell\t3957\t-33\t906\nBétera\t3959\t-46\t906\nLa Pobla de Vallbona\t3960\t-55\t906\nPuçol\t3962\t-30\t906\nLlíria\t3963\t-60\t906\nGrao de Murviedro\t3964\t-24\t906\nSagunto\t3968\t-27\t906\nBurriana\t3989\t-8\t906\nVila-real\t3994\t-10\t906\nAlmassora\t3995\t-6\t906\nOnda\t3996\t-26\t906\nEl Grao\t3997\t1\t906\nCastelló de la Plana\t3999\t-5\t906\nBenicàssim\t4005\t7\t906\nBenicarló\t4042\t43\t906\nVinaròs\t4047\t48\t906\nJinka\t565\t3665\t907\nBako\t578\t3657\t907\nArba Minch\t603\t3755\t907\nFelege Neway\t630\t3688\t907\nDīla\t642\t3832\t907\nYirga ‘Alem\t675\t3842\t907\nSodo\t686\t3776\t907\nBodītī\t697\t3787\t907\nHawassa\t706\t3848\t907\nĀreka\t707\t3770\t907\nTippi\t720\t3545\t907\nBonga\t728\t3623\t907\nK’olīto\t732\t3808\t907\nHosa’ina\t755\t3785\t907\nButajīra\t812\t3837\t907\nAddis Ababa\t902\t3875\t908\nDebre Birhan\t968\t3953\t909\nAbomsa\t998\t3998\t909\nDebre Mark’os\t1035\t3773\t909\nBichena\t1045\t3820\t909\nBurē\t1070\t3707\t909\nFinote Selam\t1070\t3727\t909\nKemisē\t1072\t3987\t909\nKombolcha\t1108\t3974\t909\nDesē\t1113\t3963\t909\nBatī\t1119\t4002\t909\nAddiet Canna\t1127\t3748\t909\nBahir Dar\t1159\t3739\t909\nDebre Tabor\t1185\t3802\t909\nWerota\t1192\t3770\t909\nRobīt\t1202\t3963\t909\nĀdīs Zemen\t1212\t3778\t909\nGondar\t1260\t3747\t909\nDebark’\t1316\t3790\t909\nĀsosa\t1007\t3453\t910\nDire Dawa\t959\t4187\t911\nGambēla\t825\t3458\t912\nHarar\t931\t4212\t913\nYabēlo\t488\t3808\t914\nHagere Maryam\t563\t3824\t914\nShakiso\t576\t3891\t914\nKibre Mengist\t588\t3898\t914\nDodola\t698\t3918\t914\nGoba\t702\t3998\t914\nĀsasa\t710\t3920\t914\nGinir\t714\t4071\t914\nShashemenē\t720\t3860\t914\nJimma\t767\t3683\t914\nĀgaro\t785\t3665\t914\nZiway\t793\t3872\t914\nMetu\t830\t3558\t914\nWenjī\t845\t3928\t914\nBedelē\t846\t3635\t914\nDembī Dolo\t853\t3480\t914\nWaliso\t853\t3797\t914\nNazrēt\t855\t3927\t914\nMojo\t859\t3912\t914\nBishoftu\t875\t3898\t914\nGelemso\t882\t4052\t914\nMetahāra\t890\t3992\t914\nBedēsa\t890\t4078\t914\nSebeta\t892\t3862\t914\nHāgere Hiywet\t898\t3785\t914\nGenet\t907\t3850\t914\nĀsbe Teferī\t909\t4087\t914\nGimbi\t917\t3583\t914\nNejo\t950\t3550\t914\nShambu\t957\t3710\t914\nMendī\t980\t3510\t914\nGebre Guracha\t980\t3840\t914\nFichē\t980\t3873\t914\nJijiga\t935\t4280\t915\nKorem\t1251\t3952\t916\nMaych’ew\t1279\t3954\t916\nMek'ele\t1350\t3948\t916\nInda Silasē\t1410\t3828\t916\nAxum\t1412\t3872\t916\nĀdīgrat\t1428\t3946\t916\nAsaita\t1157\t4144\t917\nDubti\t1173\t4108\t917\nSemera\t1179\t4101\t917\nJämsä\t6186\t2519\t918\nJyväskylä\t6224\t2572\t918\nLaukaa\t6241\t2595\t918\nKokkola\t6384\t2313\t919\nKajaani\t6423\t2773\t920\nRiihimäki\t6074\t2478\t921\nForssa\t6081\t2362\t921\nJanakkala\t6090\t2460\t921\nHämeenlinna\t6100\t2446\t921\nKotka\t6047\t2695\t922\nKarhula\t6052\t2693\t922\nHamina\t6057\t2720\t922\nKouvola\t6087\t2670\t922\nKemi\t6574\t2456\t923\nTornio\t6585\t2415\t923\nRovaniemi\t6650\t2572\t923\nJoensuu\t6260\t2976\t924\nRaahe\t6468\t2448\t925\nOulu\t6501\t2547\t925\nHaukipudas\t6518\t2535\t925\nKuusamo\t6597\t2918\t925\nVarkaus\t6232\t2787\t926\nKuopio\t6289\t2768\t926\nSiilinjärvi\t6308\t2767\t926\nIisalmi\t6356\t2719\t926\nVaasa\t6310\t2162\t927\nKorsholm\t6311\t2168\t927\nJakobstad\t6367\t2270\t927\nLahti\t6098\t2566\t928\nHollola\t6105\t2543\t928\nHeinola\t6121\t2604\t928\nValkeakoski\t6126\t2403\t929\nLempäälä\t6132\t2375\t929\nPirkkala\t6146\t2363\t929\nKangasala\t6146\t2408\t929\nNokia\t6147\t2350\t929\nTampere\t6150\t2379\t929\nYlöjärvi\t6156\t2360\t929\nRauma\t6113\t2151\t930\nPori\t6148\t2178\t930\nLappeenranta\t6106\t2819\t931\nImatra\t6117\t2875\t931\nSeinäjoki\t6279\t2283\t932\nMikkeli\t6169\t2727\t933\nSavonlinna\t6187\t2888\t933\nVäståboland\t6030\t2230\t934\nSalo\t6038\t2313\t934\nKaarina\t6041\t2237\t934\nTurku\t6045\t2227\t934\nRaisio\t6049\t2217\t934\nLieto\t6051\t2246\t934\nUusikaupunki\t6080\t2141\t934\nKirkkonummi\t6012\t2444\t935\nHelsinki\t6017\t2494\t935\nEspoo\t6021\t2465\t935\nLohja\t6025\t2407\t935\nVantaa\t6029\t2504\t935\nSibbo\t6038\t2527\t935\nPorvoo\t6039\t2567\t935\nTuusula\t6040\t2503\t935\nKerava\t6040\t2511\t935\nVihti\t6042\t2432\t935\nNurmijärvi\t6046\t2481\t935\nLovisa\t6046\t2623\t935\nJärvenpää\t6047\t2509\t935\nHyvinge\t6063\t2487\t935\nMäntsälä\t6063\t2532\t935\nSuva\t-1814\t17844\t936\nLevuka\t-1807\t17932\t937\nLabasa\t-1643\t17936\t938\nAhau\t-1250\t17705\t939\nNadi\t-1780\t17742\t940\nLautoka\t-1762\t17745\t940\nStanley\t-5169\t-5786\t941\nWeno\t745\t15184\t942\nTofol\t532\t16301\t943\nPalikir - National Government Center\t692\t15816\t944\nKolonia\t696\t15821\t944\nColonia\t952\t13812\t945\nFuglafjørður\t6224\t-681\t946\nKlaksvík\t6223\t-659\t947\nSandur\t6184\t-681\t948\nTórshavn\t6201\t-677\t949\nTvøroyri\t6156\t-681\t950\nMiðvágur\t6205\t-719\t951\nMontélimar\t4455\t475\t952\nAurillac\t4493\t244\t952\nValence\t4493\t491\t952\nBourg-lès-Valence\t4495\t489\t952\nLe Puy-en-Velay\t4504\t389\t952\nRomans-sur-Isère\t4505\t507\t952\nÉchirolles\t4515\t571\t952\nGrenoble\t4518\t571\t952\nSaint-Martin-d'Hères\t4518\t576\t952\nFontaine\t4519\t569\t952\nMeylan\t4521\t578\t952\nSaint-Égrève\t4523\t568\t952\nAnnonay\t4524\t467\t952\nVoiron\t4536\t559\t952\nFirminy\t4539\t429\t952\nSaint-Étienne\t4543\t439\t952\nSaint-Chamond\t4548\t451\t952\nVienne\t4553\t487\t952\nIssoire\t4554\t325\t952\nChambéry\t4557\t592\t952\nGivors\t4559\t477\t952\nBourgoin-Jallieu\t4559\t527\t952\nMontbrison\t4561\t407\t952\nVillefontaine\t4561\t515\t952\nAlbertville\t4567\t639\t952\nAix-les-Bains\t4569\t591\t952\nSaint-Genis-Laval\t4570\t479\t952\nVénissieux\t4570\t489\t952\nSaint-Priest\t4570\t494\t952\nOullins\t4571\t481\t952\nSaint-Fons\t4571\t485\t952\nSainte-Foy-lès-Lyon\t4573\t480\t952\nCournon-d'Auvergne\t4574\t320\t952\nBron\t4574\t491\t952\nTassin-la-Demi-Lune\t4575\t479\t952\nLyon\t4575\t485\t952\nChamalières\t4577\t307\t952\nÉcully\t4577\t478\t952\nVilleurbanne\t4577\t488\t952\nDécines-Charpieu\t4577\t496\t952\nMeyzieu\t4577\t500\t952\nClermont-Ferrand\t4578\t309\t952\nCaluire-et-Cuire\t4579\t485\t952\nVaulx-en-Velin\t4579\t493\t952\nRillieux-la-Pape\t4582\t490\t952\nRiom\t4589\t311\t952\nSeynod\t4589\t609\t952\nCran-Gevrier\t4590\t610\t952\nAnnecy\t4591\t613\t952\nAnnecy-le-Vieux\t4592\t614\t952\nSallanches\t4594\t663\t952\nVillefranche-sur-Saône\t4599\t472\t952\nRoanne\t4604\t407\t952\nCluses\t4606\t657\t952\nVichy\t4613\t343\t952\nAnnemasse\t4619\t624\t952\nBourg-en-Bresse\t4621\t523\t952\nOyonnax\t4626\t566\t952\nMontluçon\t4634\t260\t952\nThonon-les-Bains\t4637\t648\t952\nMoulins\t4656\t333\t952\nMâcon\t4631\t483\t953\nMontceau-les-Mines\t4667\t437\t953\nLons-le-Saunier\t4668\t556\t953\nSaint-Leu\t4673\t450\t953\nChalon-sur-Saône\t4678\t485\t953\nLe Creusot\t4681\t442\t953\nPontarlier\t4690\t636\t953\nAutun\t4695\t430\t953\nNevers\t4699\t316\t953\nBeaune\t4702\t484\t953\nDole\t4709\t549\t953\nBesançon\t4725\t602\t953\nChenôve\t4729\t500\t953\nDijon\t4732\t502\t953\nAudincourt\t4748\t685\t953\nMontbéliard\t4751\t680\t953\nVesoul\t4763\t614\t953\nBelfort\t4764\t685\t953\nAuxerre\t4780\t357\t953\nSens\t4820\t328\t953\nVannes\t4766\t-276\t954\nPloemeur\t4773\t-343\t954\nLorient\t4775\t-337\t954\nLanester\t4776\t-334\t954\nConcarneau\t4788\t-392\t954\nQuimper\t4800\t-410\t954\nPontivy\t4807\t-296\t954\nDouarnenez\t4810\t-433\t954\nRennes\t4811\t-167\t954\nCesson-Sévigné\t4812\t-160\t954\nVitré\t4812\t-121\t954\nFougères\t4835\t-120\t954\nBrest\t4839\t-449\t954\nLanderneau\t4845\t-425\t954\nSaint-Brieuc\t4852\t-277\t954\nMorlaix\t4858\t-383\t954\nSaint-Malo\t4865\t-201\t954\nLannion\t4873\t-346\t954\nChâteauroux\t4681\t169\t955\nBourges\t4708\t240\t955\nVierzon\t4722\t207\t955\nJoué-lès-Tours\t4735\t67\t955\nSaint-Avertin\t4736\t74\t955\nRomorantin-Lanthenay\t4737\t175\t955\nTours\t4739\t70\t955\nSaint-Pierre-des-Corps\t4739\t75\t955\nSaint-Cyr-sur-Loire\t4740\t67\t955\nBlois\t4759\t133\t955\nGien\t4769\t263\t955\nVendôme\t4779\t107\t955\nOlivet\t4786\t190\t955\nOrléans\t4790\t190\t955\nSaint-Jean-de-la-Ruelle\t4791\t186\t955\nSaint-Jean-de-Braye\t4791\t198\t955\nFleury-les-Aubrais\t4793\t192\t955\nSaran\t4795\t188\t955\nMontargis\t4800\t273\t955\nChâteaudun\t4807\t134\t955\nLucé\t4844\t146\t955\nChartres\t4845\t149\t955\nDreux\t4874\t137\t955\nAjaccio\t4192\t874\t956\nBastia\t4270\t945\t956\nSaint-Louis\t4759\t756\t957\nMulhouse\t4775\t733\t957\nIllzach\t4777\t735\t957\nWittenheim\t4781\t733\t957\nColmar\t4808\t736\t957\nChaumont\t4811\t514\t957\nÉpinal\t4818\t645\t957\nSélestat\t4826\t745\t957\nSaint-Dié-des-Vosges\t4828\t695\t957\nTroyes\t4830\t409\t957\nIllkirch-Graffenstaden\t4853\t772\t957\nLingolsheim\t4856\t768\t957\nStrasbourg\t4858\t775\t957\nLunéville\t4859\t649\t957\nSchiltigheim\t4861\t775\t957\nBischheim\t4862\t775\t957\nSaint-Dizier\t4864\t495\t957\nVandœuvre-lès-Nancy\t4865\t618\t957\nVillers-lès-Nancy\t4867\t615\t957\nToul\t4868\t589\t957\nLaxou\t4868\t615\t957\nNancy\t4868\t618\t957\nVitry-le-François\t4872\t458\t957\nBar-le-Duc\t4877\t516\t957\nHaguenau\t4882\t779\t957\nPont-à-Mousson\t4891\t606\t957\nChâlons-en-Champagne\t4895\t437\t957\nÉpernay\t4904\t396\t957\nMontigny-lès-Metz\t4910\t615\t957\nSaint-Avold\t4910\t670\t957\nSarreguemines\t4911\t707\t957\nMetz\t4912\t617\t957\nVerdun\t4916\t538\t957\nForbach\t4919\t689\t957\nReims\t4927\t403\t957\nHayange\t4933\t606\t957\nThionville\t4936\t616\t957\nYutz\t4936\t619\t957\nSedan\t4970\t494\t957\nCharleville-Mézières\t4977\t472\t957\nChâteau-Thierry\t4905\t340\t958\nSenlis\t4921\t259\t958\nCrépy-en-Valois\t4923\t289\t958\nCreil\t4926\t248\t958\nNogent-sur-Oise\t4927\t247\t958\nSoissons\t4938\t332\t958\nCompiègne\t4942\t283\t958\nBeauvais\t4943\t208\t958\nLaon\t4956\t363\t958\nNoyon\t4958\t300\t958\nTergnier\t4966\t330\t958\nSaint-Quentin\t4985\t329\t958\nAmiens\t4990\t230\t958\nAbbeville\t5011\t184\t958\nCambrai\t5018\t323\t958\nHautmont\t5025\t392\t958\nMaubeuge\t5028\t397\t958\nArras\t5029\t278\t958\nDenain\t5033\t339\t958\nSin-le-Noble\t5036\t313\t958\nValenciennes\t5036\t353\t958\nDouai\t5037\t308\t958\nBerck\t5040\t160\t958\nBerck-Plage\t5041\t156\t958\nAvion\t5041\t283\t958\nHénin-Beaumont\t5041\t296\t958\nLiévin\t5042\t278\t958\nLens\t5043\t283\t958\nSaint-Amand-les-Eaux\t5045\t343\t958\nBruay-la-Buissière\t5048\t255\t958\nCarvin\t5049\t296\t958\nBéthune\t5053\t264\t958\nFaches-Thumesnil\t5058\t307\t958\nRonchin\t5060\t309\t958\nHaubourdin\t5061\t299\t958\nLoos\t5061\t302\t958\nVilleneuve-d'Ascq\t5062\t317\t958\nLille\t5063\t306\t958\nMons-en-Barœul\t5063\t312\t958\nLomme\t5064\t299\t958\nLambersart\t5065\t303\t958\nLa Madeleine\t5065\t308\t958\nHem\t5065\t319\t958\nMarcq-en-Barœul\t5067\t308\t958\nWasquehal\t5067\t313\t958\nCroix\t5068\t315\t958\nArmentières\t5069\t288\t958\nRoubaix\t5069\t317\t958\nWattrelos\t5070\t322\t958\nOutreau\t5071\t159\t958\nHazebrouck\t5072\t254\t958\nTourcoing\t5072\t316\t958\nBoulogne-sur-Mer\t5073\t161\t958\nSaint-Omer\t5075\t226\t958\nHalluin\t5079\t313\t958\nCalais\t5095\t186\t958\nGrande-Synthe\t5102\t230\t958\nCoudekerque-Branche\t5102\t239\t958\nSaint-Pol-sur-Mer\t5103\t234\t958\nDunkerque\t5103\t238\t958\nPau\t4331\t-36\t959\nBiarritz\t4348\t-156\t959\nAnglet\t4349\t-152\t959\nBayonne\t4349\t-147\t959\nDax\t4371\t-105\t959\nMont-de-Marsan\t4389\t-50\t959\nAgen\t4420\t62\t959\nVilleneuve-sur-Lot\t4441\t70\t959\nMarmande\t4450\t17\t959\nLa Teste-de-Buch\t4463\t-115\t959\nGujan-Mestras\t4464\t-107\t959\nCestas\t4474\t-68\t959\nGradignan\t4477\t-61\t959\nVillenave-d'Ornon\t4478\t-57\t959\nPessac\t4481\t-63\t959\nTalence\t4481\t-59\t959\nBègles\t4481\t-55\t959\nFloirac\t4483\t-53\t959\nMérignac\t4484\t-65\t959\nBordeaux\t4484\t-58\t959\nBergerac\t4485\t48\t959\nLe Bouscat\t4486\t-60\t959\nCenon\t4486\t-53\t959\nEysines\t4488\t-65\t959\nLormont\t4488\t-52\t959\nSaint-Médard-en-Jalles\t4490\t-72\t959\nBlanquefort\t4491\t-64\t959\nLibourne\t4491\t-24\t959\nBrive-la-Gaillarde\t4516\t153\t959\nPérigueux\t4519\t71\t959\nTulle\t4527\t177\t959\nRoyan\t4563\t-103\t959\nAngoulême\t4565\t15\t959\nCognac\t4570\t-33\t959\nSaintes\t4575\t-63\t959\nLimoges\t4583\t125\t959\nRochefort\t4594\t-97\t959\nLa Rochelle\t4616\t-115\t959\nGuéret\t4617\t187\t959\nNiort\t4632\t-46\t959\nPoitiers\t4658\t34\t959\nChâtellerault\t4682\t55\t959\nBressuire\t4684\t-49\t959\nAlençon\t4843\t9\t960\nFlers\t4874\t-57\t960\nArgentan\t4874\t-2\t960\nÉvreux\t4902\t115\t960\nVernon\t4909\t146\t960\nSaint-Lô\t4912\t-109\t960\nLisieux\t4915\t23\t960\nCaen\t4919\t-36\t960\nHérouville-Saint-Clair\t4921\t-31\t960\nLouviers\t4922\t117\t960\nBayeux\t4928\t-70\t960\nElbeuf\t4929\t100\t960\nSaint-Étienne-du-Rouvray\t4938\t110\t960\nLe Grand-Quevilly\t4940\t105\t960\nLe Petit-Quevilly\t4941\t106\t960\nSotteville-lès-Rouen\t4941\t109\t960\nCanteleu\t4944\t102\t960\nRouen\t4944\t110\t960\nMont-Saint-Aignan\t4946\t109\t960\nLe Havre\t4949\t11\t960\nMontivilliers\t4955\t19\t960\nOcteville\t4963\t-164\t960\nCherbourg-Octeville\t4964\t-162\t960\nTourlaville\t4964\t-157\t960\nÉqueurdreville-Hainneville\t4965\t-165\t960\nFécamp\t4976\t37\t960\nDieppe\t4992\t108\t960\nPerpignan\t4270\t290\t961\nLourdes\t4310\t-5\t961\nPamiers\t4312\t161\t961\nNarbonne\t4318\t300\t961\nCarcassonne\t4321\t235\t961\nTarbes\t4323\t8\t961\nAgde\t4331\t348\t961\nBéziers\t4334\t321\t961\nSète\t4340\t369\t961\nFrontignan\t4345\t375\t961\nMuret\t4346\t133\t961\nCugnaux\t4354\t134\t961\nPlaisance-du-Touch\t4357\t130\t961\nLattes\t4357\t390\t961\nTournefeuille\t4359\t132\t961\nToulouse\t4360\t144\t961\nColomiers\t4361\t133\t961\nBalma\t4361\t150\t961\nCastres\t4361\t224\t961\nMontpellier\t4361\t388\t961\nMauguio\t4362\t401\t961\nBlagnac\t4363\t139\t961\nCastelnau-le-Lez\t4363\t390\t961\nAuch\t4365\t59\t961\nLunel\t4368\t414\t961\nNîmes\t4383\t436\t961\nAlbi\t4393\t215\t961\nMontauban\t4402\t136\t961\nMillau\t4410\t308\t961\nAlès\t4412\t408\t961\nBagnols-sur-Cèze\t4416\t462\t961\nRodez\t4435\t257\t961\nCahors\t4445\t144\t961\nFontenay-le-Comte\t4647\t-81\t962\nLes Sables-d'Olonne\t4650\t-178\t962\nLa Roche-sur-Yon\t4667\t-143\t962\nChallans\t4684\t-187\t962\nLes Herbiers\t4687\t-102\t962\nCholet\t4706\t-88\t962\nVertou\t4717\t-147\t962\nBouguenais\t4718\t-162\t962\nRezé\t4718\t-155\t962\nSaint-Sébastien-sur-Loire\t4721\t-150\t962\nCouëron\t4722\t-172\t962\nSaint-Herblain\t4722\t-165\t962\nNantes\t4722\t-155\t962\nSaumur\t4726\t-8\t962\nOrvault\t4727\t-162\t962\nSaint-Nazaire\t4728\t-221\t962\nLa Baule-Escoublac\t4729\t-236\t962\nLa Chapelle-sur-Erdre\t4730\t-155\t962\nCarquefou\t4730\t-149\t962\nGuérande\t4733\t-243\t962\nAngers\t4747\t-55\t962\nLa Flèche\t4770\t-8\t962\nLe Mans\t4800\t20\t962\nLaval\t4807\t-76\t962\nMayenne\t4830\t-61\t962\nSix-Fours-les-Plages\t4309\t582\t963\nLa Seyne-sur-Mer\t4310\t588\t963\nSanary-sur-Mer\t4312\t580\t963\nToulon\t4312\t593\t963\nLa Garde\t4312\t601\t963\nHyères\t4312\t613\t963\nLa Valette-du-Var\t4314\t598\t963\nLa Crau\t4315\t607\t963\nLa Ciotat\t4317\t560\t963\nMarseille 09\t4325\t541\t963\nMarseille 08\t4327\t538\t963\nMarseille 07\t4328\t536\t963\nMarseille 10\t4328\t542\t963\nMarseille 06\t4329\t538\t963\nMarseille 11\t4329\t544\t963\nAubagne\t4329\t557\t963\nMarseille 02\t4330\t537\t963\nMarseille\t4330\t538\t963\nMarseille 01\t4330\t538\t963\nMarseille 03\t4330\t538\t963\nMarseille 04\t4330\t540\t963\nMarseille 05\t4330\t540\t963\nMarseille 12\t4330\t544\t963\nMarseille 13\t4332\t541\t963\nMarseille 14\t4334\t538\t963\nAllauch\t4334\t548\t963\nMarseille 16\t4336\t533\t963\nMarseille 15\t4337\t535\t963\nPort-de-Bouc\t4341\t498\t963\nMartigues\t4341\t506\t963\nLes Pennes-Mirabeau\t4341\t531\t963\nBrignoles\t4341\t606\t963\nMarignane\t4342\t521\t963\nSaint-Raphaël\t4342\t677\t963\nFréjus\t4343\t674\t963\nFos-sur-Mer\t4344\t494\t963\nGardanne\t4345\t547\t963\nSaint-Maximin-la-Sainte-Baume\t4345\t586\t963\nVitrolles\t4346\t525\t963\nIstres\t4351\t499\t963\nAix-en-Provence\t4353\t545\t963\nDraguignan\t4354\t646\t963\nMandelieu-la-Napoule\t4355\t694\t963\nCannes\t4355\t701\t963\nLe Cannet\t4358\t702\t963\nVallauris\t4358\t705\t963\nMiramas\t4359\t500\t963\nAntibes\t4359\t711\t963\nMougins\t4360\t700\t963\nSalon-de-Provence\t4364\t509\t963\nGrasse\t4366\t693\t963\nCagnes-sur-Mer\t4366\t715\t963\nSaint-Laurent-du-Var\t4367\t719\t963\nArles\t4368\t463\t963\nPertuis\t4369\t550\t963\nNice\t4370\t727\t963\nVence\t4372\t711\t963\nMenton\t4378\t750\t963\nCavaillon\t4383\t504\t963\nManosque\t4383\t579\t963\nL'Isle-sur-la-Sorgue\t4392\t505\t963\nAvignon\t4395\t481\t963\nLe Pontet\t4396\t486\t963\nSorgues\t4401\t487\t963\nCarpentras\t4406\t505\t963\nDigne-les-Bains\t4409\t623\t963\nOrange\t4414\t481\t963\nGap\t4456\t608\t963\nMontereau-Fault-Yonne\t4838\t295\t964\nAvon\t4840\t272\t964\nFontainebleau\t4841\t270\t964\nÉtampes\t4844\t216\t964\nDammarie-les-Lys\t4852\t265\t964\nLe Mée-sur-Seine\t4853\t263\t964\nMelun\t4855\t265\t964\nSavigny-le-Temple\t4857\t258\t964\nBrétigny-sur-Orge\t4861\t231\t964\nCorbeil-Essonnes\t4861\t249\t964\nSaint-Michel-sur-Orge\t4863\t231\t964\nÉvry\t4863\t244\t964\nMoissy-Cramayel\t4863\t260\t964\nRambouillet\t4864\t183\t964\nSainte-Geneviève-des-Bois\t4865\t232\t964\nGrigny\t4865\t239\t964\nRis-Orangis\t4865\t241\t964\nMorsang-sur-Orge\t4866\t235\t964\nCombs-la-Ville\t4866\t257\t964\nViry-Châtillon\t4867\t239\t964\nGif-sur-Yvette\t4868\t213\t964\nLes Ulis\t4868\t217\t964\nSavigny-sur-Orge\t4868\t235\t964\nDraveil\t4868\t241\t964\nBrunoy\t4869\t249\t964\nBrie-Comte-Robert\t4869\t261\t964\nOrsay\t4870\t219\t964\nLongjumeau\t4870\t231\t964\nVigneux-sur-Seine\t4870\t241\t964\nChilly-Mazarin\t4871\t232\t964\nAthis-Mons\t4871\t239\t964\nMontgeron\t4871\t245\t964\nPalaiseau\t4872\t225\t964\nYerres\t4872\t249\t964\nMassy\t4873\t228\t964\nVilleneuve-Saint-Georges\t4873\t245\t964\nVilleneuve-le-Roi\t4874\t240\t964\nLimeil-Brévannes\t4874\t249\t964\nVerrières-le-Buisson\t4875\t227\t964\nAntony\t4875\t230\t964\nOrly\t4875\t239\t964\nBoissy-Saint-Léger\t4875\t251\t964\nMaurepas\t4876\t193\t964\nFresnes\t4876\t232\t964\nChevilly-Larue\t4876\t235\t964\nThiais\t4876\t240\t964\nTrappes\t4877\t202\t964\nSaint-Quentin-en-Yvelines\t4877\t202\t964\nMontigny-le-Bretonneux\t4877\t203\t964\nGuyancourt\t4877\t207\t964\nChâtenay-Malabry\t4877\t227\t964\nChoisy-le-Roi\t4877\t242\t964\nBonneuil-sur-Marne\t4877\t248\t964\nSucy-en-Brie\t4877\t253\t964\nOzoir-la-Ferrière\t4877\t267\t964\nÉlancourt\t4878\t196\t964\nVélizy-Villacoublay\t4878\t219\t964\nSceaux\t4878\t229\t964\nBourg-la-Reine\t4878\t232\t964\nL'Haÿ-les-Roses\t4878\t234\t964\nLe Plessis-Robinson\t4879\t227\t964\nFontenay-aux-Roses\t4879\t229\t964\nVillejuif\t4879\t236\t964\nVitry-sur-Seine\t4879\t240\t964\nCréteil\t4879\t247\t964\nSaint-Maur-des-Fossés\t4879\t249\t964\nRoissy-en-Brie\t4879\t265\t964\nSaint-Cyr-l'École\t4880\t207\t964\nVersailles\t4880\t213\t964\nViroflay\t4880\t216\t964\nClamart\t4880\t227\t964\nChâtillon\t4880\t229\t964\nBagneux\t4880\t231\t964\nArcueil\t4880\t233\t964\nCachan\t4880\t234\t964\nChennevières-sur-Marne\t4880\t254\t964\nPontault-Combault\t4880\t261\t964\nChaville\t4881\t219\t964\nMeudon\t4881\t224\t964\nGentilly\t4881\t234\t964\nLe Kremlin-Bicêtre\t4881\t236\t964\nAlfortville\t4881\t242\t964\nMaisons-Alfort\t4881\t244\t964\nLe Plessis-Trévise\t4881\t257\t964\nCoulommiers\t4881\t308\t964\nPlaisir\t4882\t195\t964\nLes Clayes-sous-Bois\t4882\t199\t964\nLe Chesnay\t4882\t212\t964\nSèvres\t4882\t222\t964\nIssy-les-Moulineaux\t4882\t228\t964\nVanves\t4882\t229\t964\nMalakoff\t4882\t230\t964\nMontrouge\t4882\t231\t964\nIvry-sur-Seine\t4882\t238\t964\nCharenton-le-Pont\t4882\t241\t964\nChampigny-sur-Marne\t4882\t249\t964\nJoinville-le-Pont\t4883\t247\t964\nVilliers-sur-Marne\t4883\t255\t964\nGarches\t4884\t218\t964\nBoulogne-Billancourt\t4884\t224\t964\nSaint-Mandé\t4884\t242\t964\nNogent-sur-Marne\t4884\t248\t964\nBry-sur-Marne\t4884\t252\t964\nLognes\t4884\t263\t964\nLa Celle-Saint-Cloud\t4885\t215\t964\nSaint-Cloud\t4885\t220\t964\nParis\t4885\t235\t964\nVincennes\t4885\t244\t964\nFontenay-sous-Bois\t4885\t248\t964\nLe Perreux-sur-Marne\t4885\t250\t964\nNeuilly-sur-Marne\t4885\t255\t964\nNoisy-le-Grand\t4885\t256\t964\nChamps-sur-Marne\t4885\t260\t964\nNoisiel\t4885\t262\t964\nTorcy\t4885\t265\t964\nMontreuil\t4886\t244\t964\nNeuilly-Plaisance\t4886\t251\t964\nMarly-le-Roi\t4887\t208\t964\nSuresnes\t4887\t223\t964\nBagnolet\t4887\t242\t964\nRosny-sous-Bois\t4887\t250\t964\nLagny-sur-Marne\t4887\t272\t964\nRueil-Malmaison\t4888\t219\t964\nPuteaux\t4888\t224\t964\nNeuilly-sur-Seine\t4888\t227\t964\nLes Lilas\t4888\t242\t964\nVillemomble\t4888\t250\t964\nGagny\t4888\t253\t964\nChelles\t4888\t259\t964\nLe Pecq\t4889\t210\t964\nLe Vésinet\t4889\t213\t964\nChatou\t4889\t216\t964\nNanterre\t4889\t221\t964\nLevallois-Perret\t4889\t229\t964\nLe Pré-Saint-Gervais\t4889\t240\t964\nPantin\t4889\t241\t964\nRomainville\t4889\t243\t964\nNoisy-le-Sec\t4889\t246\t964\nSaint-Germain-en-Laye\t4890\t209\t964\nLa Garenne-Colombes\t4890\t225\t964\nCourbevoie\t4890\t226\t964\nClichy\t4890\t231\t964\nBondy\t4890\t249\t964\nMontfermeil\t4890\t258\t964\nMontesson\t4891\t214\t964\nSaint-Ouen\t4891\t233\t964\nBobigny\t4891\t245\t964\nLes Pavillons-sous-Bois\t4891\t251\t964\nClichy-sous-Bois\t4891\t255\t964\nHouilles\t4892\t219\t964\nBezons\t4892\t221\t964\nColombes\t4892\t225\t964\nBois-Colombes\t4892\t227\t964\nAsnières-sur-Seine\t4892\t228\t964\nAubervilliers\t4892\t238\t964\nLivry-Gargan\t4892\t254\t964\nPoissy\t4893\t205\t964\nGennevilliers\t4893\t230\t964\nLa Courneuve\t4893\t240\t964\nDrancy\t4893\t245\t964\nVilleneuve-la-Garenne\t4894\t231\t964\nSaint-Denis\t4894\t235\t964\nLe Blanc-Mesnil\t4894\t246\t964\nAulnay-sous-Bois\t4894\t249\t964\nSevran\t4894\t253\t964\nVilleparisis\t4894\t261\t964\nCarrières-sous-Poissy\t4895\t204\t964\nMaisons-Laffitte\t4895\t215\t964\nSartrouville\t4895\t219\t964\nArgenteuil\t4895\t225\t964\nÉpinay-sur-Seine\t4895\t232\t964\nStains\t4895\t238\t964\nTremblay-en-France\t4895\t257\t964\nAchères\t4896\t207\t964\nVillepinte\t4896\t253\t964\nMeaux\t4896\t288\t964\nMantes-la-Ville\t4897\t170\t964\nVerneuil-sur-Seine\t4897\t196\t964\nCormeilles-en-Parisis\t4897\t220\t964\nSannois\t4897\t225\t964\nSaint-Gratien\t4897\t229\t964\nPierrefitte-sur-Seine\t4897\t236\t964\nGarges-lès-Gonesse\t4897\t240\t964\nMontigny-lès-Cormeilles\t4898\t220\t964\nFranconville\t4898\t223\t964\nDeuil-la-Barre\t4898\t233\t964\nMitry-Mory\t4898\t262\t964\nMantes-la-Jolie\t4899\t172\t964\nLes Mureaux\t4899\t191\t964\nHerblay\t4899\t217\t964\nErmont\t4899\t226\t964\nSoisy-sous-Montmorency\t4899\t230\t964\nMontmorency\t4899\t234\t964\nGonesse\t4899\t245\t964\nLimay\t4900\t174\t964\nConflans-Sainte-Honorine\t4900\t210\t964\nEaubonne\t4900\t228\t964\nSarcelles\t4900\t238\t964\nJouy-le-Moutier\t4901\t204\t964\nVilliers-le-Bel\t4901\t240\t964\nGoussainville\t4901\t247\t964\nÉragny\t4902\t210\t964\nSaint-Leu-la-Forêt\t4902\t225\t964\nVauréal\t4903\t203\t964\nTaverny\t4903\t222\t964\nDomont\t4903\t233\t964\nCergy\t4904\t208\t964\nCergy-Pontoise\t4904\t208\t964\nSaint-Ouen-l'Aumône\t4904\t212\t964\nPontoise\t4905\t210\t964\nOsny\t4907\t206\t964\nLibreville\t39\t945\t965\nFranceville\t-163\t1358\t966\nMoanda\t-157\t1320\t966\nLambaréné\t-70\t1024\t967\nMouila\t-187\t1106\t968\nTchibanga\t-293\t1098\t969\nMakokou\t57\t1286\t970\nKoulamoutou\t-114\t1246\t971\nPort-Gentil\t-72\t878\t972\nOyem\t160\t1158\t973\nPenzance\t5012\t-554\t974\nFalmouth\t5015\t-507\t974\nCamborne\t5021\t-530\t974\nRedruth\t5023\t-522\t974\nTruro\t5027\t-505\t974\nSt Austell\t5034\t-477\t974\nPlymstock\t5036\t-409\t974\nPlymouth\t5037\t-414\t974\nBrixham\t5039\t-352\t974\nSaltash\t5041\t-423\t974\nNewquay\t5042\t-507\t974\nPaignton\t5044\t-357\t974\nTorquay\t5046\t-353\t974\nNewton Abbot\t5053\t-361\t974\nTeignmouth\t5055\t-350\t974\nWeymouth\t5061\t-246\t974\nExmouth\t5062\t-340\t974\nSandown\t5065\t-116\t974\nNewport\t5070\t-129\t974\nPoole\t5071\t-198\t974\nExeter\t5072\t-353\t974\nDorchester\t5072\t-243\t974\nBournemouth\t5072\t-188\t974\nRyde\t5073\t-116\t974\nChristchurch\t5074\t-178\t974\nNew Milton\t5076\t-167\t974\nLymington\t5076\t-154\t974\nCowes\t5076\t-130\t974\nSeaford\t5077\t10\t974\nEastbourne\t5077\t28\t974\nHayling Island\t5078\t-97\t974\nBognor Regis\t5078\t-68\t974\nSouth Hayling\t5079\t-98\t974\nPeacehaven\t5079\t-1\t974\nGosport\t5080\t-113\t974\nPortsmouth\t5080\t-109\t974\nFerndown\t5081\t-190\t974\nLittlehampton\t5081\t-54\t974\nRottingdean\t5081\t-6\t974\nWorthing\t5082\t-38\t974\nLancing\t5083\t-32\t974\nShoreham-by-Sea\t5083\t-27\t974\nHove\t5083\t-17\t974\nBrighton\t5083\t-14\t974\nChichester\t5084\t-78\t974\nPortslade\t5084\t-22\t974\nFareham\t5085\t-118\t974\nEmsworth\t5085\t-94\t974\nBexhill-on-Sea\t5085\t47\t974\nHythe\t5086\t-140\t974\nHavant\t5086\t-99\t974\nHailsham\t5086\t26\t974\nHastings\t5086\t57\t974\nLewes\t5087\t1\t974\nWaterlooville\t5088\t-103\t974\nTiverton\t5090\t-349\t974\nSouthampton\t5090\t-140\t974\nHedge End\t5091\t-130\t974\nTotton\t5092\t-149\t974\nYeovil\t5094\t-263\t974\nBurgess Hill\t5096\t-13\t974\nEastleigh\t5097\t-135\t974\nBishopstoke\t5097\t-133\t974\nUckfield\t5097\t10\t974\nRomsey\t5099\t-150\t974\nHaywards Heath\t5100\t-10\t974\nTaunton\t5101\t-310\t974\nBideford\t5102\t-421\t974\nHorsham\t5106\t-33\t974\nCrowborough\t5106\t16\t974\nSalisbury\t5107\t-180\t974\nWinchester\t5107\t-132\t974\nBarnstaple\t5108\t-406\t974\nFolkestone\t5108\t117\t974\nBordon\t5111\t-86\t974\nCrawley\t5111\t-18\t974\nEast Grinstead\t5112\t-1\t974\nBridgwater\t5113\t-300\t974\nRoyal Tunbridge Wells\t5113\t26\t974\nDover\t5113\t131\t974\nAlton\t5115\t-97\t974\nAshford\t5115\t87\t974\nHorley\t5117\t-16\t974\nGodalming\t5119\t-61\t974\nWarminster\t5120\t-218\t974\nTonbridge\t5120\t27\t974\nAndover\t5121\t-149\t974\nFarnham\t5121\t-80\t974\nDeal\t5122\t140\t974\nFrome\t5123\t-232\t974\nDorking\t5123\t-33\t974\nBurnham-on-Sea\t5124\t-300\t974\nGuildford\t5124\t-57\t974\nReigate\t5124\t-21\t974\nRedhill\t5124\t-17\t974\nAldershot\t5125\t-76\t974\nWestbury\t5126\t-219\t974\nBasingstoke\t5126\t-109\t974\nSevenoaks\t5127\t19\t974\nMaidstone\t5127\t52\t974\nFleet\t5128\t-83\t974\nCaterham\t5128\t-8\t974\nCanterbury\t5128\t108\t974\nFarnborough\t5129\t-76\t974\nLeatherhead\t5130\t-33\t974\nFaversham\t5131\t89\t974\nTrowbridge\t5132\t-221\t974\nWoking\t5132\t-56\t974\nBanstead\t5132\t-21\t974\nCoulsdon\t5132\t-14\t974\nCobham\t5133\t-41\t974\nEpsom\t5133\t-27\t974\nYateley\t5134\t-83\t974\nCamberley\t5134\t-74\t974\nPurley\t5134\t-11\t974\nSittingbourne\t5134\t73\t974\nRamsgate\t5134\t142\t974\nWeston-super-Mare\t5135\t-298\t974\nDevizes\t5135\t-199\t974\nTadley\t5135\t-113\t974\nSutton\t5135\t-20\t974\nChessington\t5136\t-30\t974\nSouth Croydon\t5136\t-9\t974\nWhitstable\t5136\t103\t974\nBroadstairs\t5136\t144\t974\nMelksham\t5137\t-214\t974\nCrowthorne\t5137\t-79\t974\nWeybridge\t5137\t-46\t974\nEsher\t5137\t-37\t974\nHook\t5137\t-31\t974\nCarshalton\t5137\t-17\t974\nOrpington\t5137\t10\t974\nHerne Bay\t5137\t113\t974\nSaint Peters\t5137\t142\t974\nBath\t5138\t-236\t974\nWorcester Park\t5138\t-24\t974\nCroydon\t5138\t-10\t974\nChatham\t5138\t53\t974\nMargate\t5138\t139\t974\nWalton-on-Thames\t5139\t-41\t974\nSurbiton\t5139\t-30\t974\nHartley\t5139\t30\t974\nRochester\t5139\t51\t974\nGillingham\t5139\t55\t974\nNewbury\t5140\t-132\t974\nThatcham\t5140\t-126\t974\nSunbury-on-Thames\t5140\t-42\t974\nWest Molesey\t5140\t-38\t974\nEast Molesey\t5140\t-35\t974\nMorden\t5140\t-20\t974\nMitcham\t5140\t-17\t974\nSwanley\t5140\t17\t974\nLongfield\t5140\t30\t974\nKeynsham\t5141\t-250\t974\nNeston\t5141\t-220\t974\nWokingham\t5141\t-84\t974\nBracknell\t5141\t-75\t974\nAscot\t5141\t-67\t974\nHampton\t5141\t-37\t974\nBeckenham\t5141\t-3\t974\nChislehurst\t5142\t7\t974\nNailsea\t5143\t-276\t974\nLower Earley\t5143\t-92\t974\nEgham\t5143\t-55\t974\nStaines\t5143\t-51\t974\nAshford\t5143\t-46\t974\nClevedon\t5144\t-286\t974\nCalne\t5144\t-201\t974\nEarlsfield\t5144\t-19\t974\nBexley\t5144\t15\t974\nGravesend\t5144\t37\t974\nKingswood\t5145\t-251\t974\nFeltham\t5145\t-41\t974\nDartford\t5145\t21\t974\nSwanscombe\t5145\t31\t974\nBristol\t5146\t-260\t974\nChippenham\t5146\t-212\t974\nReading\t5146\t-97\t974\nBlackheath\t5146\t1\t974\nWelling\t5146\t11\t974\nHounslow\t5147\t-36\t974\nPortishead\t5148\t-277\t974\nWindsor\t5148\t-60\t974\nIsleworth\t5148\t-34\t974\nGrays\t5148\t33\t974\nMangotsfield\t5149\t-250\t974\nCity of Westminster\t5150\t-14\t974\nSlough\t5151\t-60\t974\nSouthall\t5151\t-37\t974\nActon\t5151\t-28\t974\nLondon\t5151\t-13\t974\nSouth Ockendon\t5151\t28\t974\nMaidenhead\t5152\t-72\t974\nHayes\t5152\t-42\t974\nStanford-le-Hope\t5152\t43\t974\nCanvey Island\t5152\t58\t974\nGreenford\t5153\t-36\t974\nBarking\t5153\t8\t974\nYate\t5154\t-242\t974\nChipping Sodbury\t5154\t-239\t974\nWest Ilsley\t5154\t-132\t974\nCamden Town\t5154\t-14\t974\nIslington\t5154\t-10\t974\nSouthend-on-Sea\t5154\t71\t974\nNortholt\t5155\t-37\t974\nWembley\t5155\t-30\t974\nDagenham\t5155\t17\t974\nSouth Benfleet\t5155\t56\t974\nHadleigh\t5155\t61\t974\nSwindon\t5156\t-178\t974\nPitsea\t5156\t51\t974\nMarlow\t5157\t-77\t974\nRuislip\t5157\t-42\t974\nArchway\t5157\t-13\t974\nBasildon\t5157\t46\t974\nHarringay\t5158\t-10\t974\nRomford\t5158\t19\t974\nRochford\t5158\t71\t974\nWantage\t5159\t-143\t974\nGerrards Cross\t5159\t-56\t974\nPinner\t5159\t-38\t974\nRayleigh\t5159\t60\t974\nGrove\t5161\t-142\t974\nDidcot\t5161\t-124\t974\nChalfont Saint Peter\t5161\t-56\t974\nWoodford Green\t5161\t2\t974\nWickford\t5161\t52\t974\nBrentwood\t5162\t31\t974\nHigh Wycombe\t5163\t-75\t974\nBillericay\t5163\t42\t974\nBushey\t5164\t-36\t974\nBorehamwood\t5165\t-28\t974\nBarnet\t5165\t-20\t974\nEnfield Town\t5165\t-8\t974\nWatford\t5166\t-40\t974\nAbingdon\t5167\t-128\t974\nAmersham\t5167\t-62\t974\nAmersham on the Hill\t5167\t-61\t974\nHadley Wood\t5167\t-17\t974\nPotters Bar\t5169\t-18\t974\nWaltham Abbey\t5169\t0\t974\nChesham\t5170\t-60\t974\nCheshunt\t5170\t-3\t974\nCirencester\t5172\t-197\t974\nCowley\t5173\t-121\t974\nMaldon\t5173\t67\t974\nChelmsford\t5174\t47\t974\nStroud\t5175\t-220\t974\nOxford\t5175\t-126\t974\nHemel Hempstead\t5175\t-45\t974\nSt Albans\t5175\t-33\t974\nCarterton\t5176\t-159\t974\nBerkhamsted\t5176\t-57\t974\nHatfield\t5176\t-22\t974\nHoddesdon\t5176\t-1\t974\nWitney\t5178\t-149\t974\nHarlow\t5178\t11\t974\nClacton-on-Sea\t5179\t116\t974\nWelwyn Garden City\t5180\t-21\t974\nHertford\t5180\t-8\t974\nWitham\t5180\t64\t974\nWare\t5181\t-3\t974\nKidlington\t5182\t-129\t974\nAylesbury\t5182\t-81\t974\nHarpenden\t5182\t-36\t974\nFrinton-on-Sea\t5183\t124\t974\nWalton-on-the-Naze\t5185\t127\t974\nGloucester\t5187\t-224\t974\nBishops Stortford\t5187\t16\t974\nLuton\t5188\t-42\t974\nBraintree\t5188\t55\t974\nDunstable\t5189\t-52\t974\nColchester\t5189\t90\t974\nCheltenham\t5190\t-208\t974\nBicester\t5190\t-115\t974\nStevenage\t5190\t-20\t974\nLeighton Buzzard\t5192\t-66\t974\nHarwich\t5194\t128\t974\nHitchin\t5195\t-28\t974\nFelixstowe\t5196\t135\t974\nLetchworth Garden City\t5198\t-23\t974\nTewkesbury\t5199\t-216\t974\nBletchley\t5199\t-73\t974\nSaffron Walden\t5202\t24\t974\nAmpthill\t5203\t-50\t974\nMilton Keynes\t5204\t-76\t974\nSudbury\t5204\t73\t974\nRoyston\t5205\t-2\t974\nHereford\t5206\t-271\t974\nBanbury\t5206\t-134\t974\nIpswich\t5206\t116\t974\nHaverhill\t5208\t44\t974\nEvesham\t5209\t-195\t974\nNewport Pagnell\t5209\t-72\t974\nKempston Hardwick\t5209\t-50\t974\nBiggleswade\t5209\t-26\t974\nGreat Malvern\t5211\t-233\t974\nKempston\t5212\t-50\t974\nBedford\t5213\t-47\t974\nWorcester\t5219\t-222\t974\nStratford-upon-Avon\t5219\t-171\t974\nStowmarket\t5219\t100\t974\nCambridge\t5220\t12\t974\nSaint Neots\t5222\t-27\t974\nNewmarket\t5224\t40\t974\nNorthampton\t5225\t-88\t974\nBury St Edmunds\t5225\t71\t974\nDaventry\t5226\t-116\t974\nDroitwich\t5227\t-215\t974\nWarwick\t5228\t-158\t974\nRoyal Leamington Spa\t5229\t-152\t974\nRushden\t5229\t-60\t974\nWellingborough\t5230\t-69\t974\nRedditch\t5231\t-195\t974\nHuntingdon\t5233\t-19\t974\nStourport-on-Severn\t5234\t-228\t974\nBromsgrove\t5234\t-206\t974\nKenilworth\t5235\t-158\t974\nRugby\t5237\t-126\t974\nKidderminster\t5239\t-225\t974\nKettering\t5240\t-73\t974\nEly\t5240\t26\t974\nSolihull\t5241\t-178\t974\nCoventry\t5241\t-151\t974\nThetford\t5242\t75\t974\nBartley Green\t5244\t-200\t974\nHalesowen\t5245\t-205\t974\nStourbridge\t5246\t-214\t974\nBrierley Hill\t5248\t-212\t974\nBirmingham\t5248\t-190\t974\nBedworth\t5248\t-147\t974\nMarket Harborough\t5248\t-92\t974\nLowestoft\t5248\t175\t974\nKingswinford\t5250\t-217\t974\nDudley\t5250\t-208\t974\nCorby\t5250\t-69\t974\nWest Bromwich\t5252\t-199\t974\nNuneaton\t5252\t-147\t974\nTipton\t5253\t-207\t974\nHinckley\t5254\t-138\t974\nWednesbury\t5255\t-202\t974\nMarch\t5255\t9\t974\nSutton Coldfield\t5257\t-182\t974\nPeterborough\t5257\t-25\t974\nEarl Shilton\t5258\t-132\t974\nWigston Magna\t5258\t-109\t974\nWolverhampton\t5259\t-212\t974\nWillenhall\t5259\t-206\t974\nWalsall\t5259\t-198\t974\nWednesfield\t5260\t-209\t974\nAldridge\t5261\t-192\t974\nOadby\t5261\t-108\t974\nGreat Yarmouth\t5261\t173\t974\nRyton\t5262\t-235\t974\nBloxwich\t5262\t-200\t974\nBrownhills\t5263\t-193\t974\nTamworth\t5263\t-170\t974\nNorwich\t5263\t130\t974\nLeicester\t5264\t-113\t974\nBowthorpe\t5264\t122\t974\nStamford\t5265\t-48\t974\nGreat Wyrley\t5266\t-201\t974\nWisbech\t5267\t16\t974\nTelford\t5268\t-245\t974\nBurntwood\t5268\t-193\t974\nLichfield\t5268\t-183\t974\nEast Dereham\t5268\t93\t974\nCannock\t5269\t-203\t974\nWellington\t5270\t-252\t974\nShrewsbury\t5271\t-275\t974\nCoalville\t5272\t-137\t974\nMountsorrel\t5272\t-115\t974\nKing's Lynn\t5275\t40\t974\nRugeley\t5276\t-194\t974\nSwadlincote\t5277\t-156\t974\nLoughborough\t5277\t-120\t974\nMelton Mowbray\t5277\t-89\t974\nSpalding\t5279\t-15\t974\nStafford\t5281\t-212\t974\nBurton upon Trent\t5281\t-164\t974\nOswestry\t5286\t-305\t974\nSinfin\t5288\t-149\t974\nLong Eaton\t5290\t-127\t974\nGrantham\t5291\t-64\t974\nDerby\t5292\t-148\t974\nWest Bridgford\t5293\t-113\t974\nNottingham\t5295\t-115\t974\nIlkeston\t5297\t-131\t974\nBasford\t5297\t-118\t974\nBoston\t5298\t-3\t974\nNewcastle under Lyme\t5300\t-223\t974\nStoke-on-Trent\t5300\t-219\t974\nEastwood\t5300\t-130\t974\nArnold\t5300\t-113\t974\nSleaford\t5300\t-41\t974\nHeanor\t5301\t-135\t974\nBelper\t5302\t-148\t974\nRipley\t5303\t-140\t974\nHucknall\t5303\t-120\t974\nNantwich\t5307\t-252\t974\nNewark on Trent\t5307\t-82\t974\nKidsgrove\t5309\t-224\t974\nCrewe\t5310\t-244\t974\nLeek\t5310\t-202\t974\nAlfreton\t5310\t-138\t974\nKirkby in Ashfield\t5310\t-124\t974\nBiddulph\t5312\t-218\t974\nSutton in Ashfield\t5313\t-126\t974\nMansfield\t5313\t-120\t974\nSkegness\t5314\t34\t974\nSandbach\t5315\t-236\t974\nCongleton\t5316\t-221\t974\nMansfield Woodhouse\t5316\t-119\t974\nChester\t5319\t-289\t974\nWinsford\t5319\t-252\t974\nLincoln\t5323\t-54\t974\nChesterfield\t5325\t-142\t974\nNorthwich\t5326\t-252\t974\nMacclesfield\t5326\t-213\t974\nBuxton\t5326\t-191\t974\nStaveley\t5327\t-135\t974\nNeston\t5328\t-305\t974\nEllesmere Port\t5328\t-290\t974\nDronfield\t5330\t-148\t974\nWorksop\t5330\t-112\t974\nRetford\t5332\t-94\t974\nHeswall\t5333\t-310\t974\nWilmslow\t5333\t-223\t974\nRuncorn\t5334\t-273\t974\nBebington\t5335\t-302\t974\nWidnes\t5336\t-273\t974\nBramhall\t5336\t-217\t974\nNew Mills\t5337\t-200\t974\nHigh Peak\t5337\t-185\t974\nDinnington\t5337\t-120\t974\nLouth\t5337\t0\t974\nHale\t5338\t-233\t974\nCheadle Hulme\t5338\t-219\t974\nHazel Grove\t5338\t-212\t974\nSheffield\t5338\t-147\t974\nGainsborough\t5338\t-77\t974\nBirkenhead\t5339\t-301\t974\nGreat Sankey\t5339\t-264\t974\nWarrington\t5339\t-258\t974\nAltrincham\t5339\t-235\t974\nMarple\t5339\t-206\t974\nBurngreave\t5339\t-146\t974\nMoreton\t5340\t-312\t974\nLiverpool\t5341\t-298\t974\nHuyton\t5341\t-284\t974\nStockport\t5341\t-216\t974\nWallasey\t5342\t-306\t974\nBredbury\t5342\t-212\t974\nMaltby\t5342\t-120\t974\nPrescot\t5343\t-280\t974\nSale\t5343\t-232\t974\nRotherham\t5343\t-136\t974\nIrlam\t5344\t-242\t974\nGlossop\t5344\t-195\t974\nSt Helens\t5345\t-273\t974\nNewton-le-Willows\t5345\t-260\t974\nUrmston\t5345\t-235\t974\nStretford\t5345\t-232\t974\nHyde\t5345\t-208\t974\nDenton\t5346\t-212\t974\nRawmarsh\t5346\t-134\t974\nBootle\t5347\t-302\t974\nLitherland\t5347\t-300\t974\nHaydock\t5347\t-268\t974\nDukinfield\t5347\t-209\t974\nChapeltown\t5347\t-147\t974\nCrosby\t5348\t-303\t974\nKirkby\t5348\t-289\t974\nAshton in Makerfield\t5348\t-265\t974\nGolborne\t5348\t-260\t974\nEccles\t5348\t-233\t974\nManchester\t5348\t-224\t974\nDroylsden\t5348\t-215\t974\nStalybridge\t5348\t-206\t974\nConisbrough\t5348\t-123\t974\nSalford\t5349\t-229\t974\nAshton-under-Lyne\t5349\t-210\t974\nMexborough\t5349\t-129\t974\nLeigh\t5350\t-252\t974\nSwinton\t5350\t-235\t974\nFailsworth\t5350\t-217\t974\nHoyland Nether\t5350\t-145\t974\nWath upon Dearne\t5350\t-135\t974\nTyldesley\t5351\t-247\t974\nMaghull\t5352\t-294\t974\nAtherton\t5352\t-249\t974\nWalkden\t5352\t-240\t974\nWombwell\t5352\t-140\t974\nDoncaster\t5352\t-113\t974\nHindley\t5353\t-258\t974\nPrestwich\t5353\t-228\t974\nBentley\t5353\t-115\t974\nWigan\t5354\t-264\t974\nOldham\t5354\t-212\t974\nSkelmersdale\t5355\t-277\t974\nWesthoughton\t5355\t-252\t974\nFarnworth\t5355\t-240\t974\nWhitefield\t5355\t-230\t974\nMiddleton\t5355\t-220\t974\nBarnsley\t5355\t-148\t974\nFormby\t5356\t-307\t974\nRadcliffe\t5356\t-232\t974\nCleethorpes\t5356\t-3\t974\nOrmskirk\t5357\t-288\t974\nRoyton\t5357\t-212\t974\nAdwick le Street\t5357\t-118\t974\nGrimsby\t5357\t-8\t974\nBolton\t5358\t-243\t974\nScunthorpe\t5358\t-65\t974\nDarton\t5359\t-153\t974\nHorwich\t5360\t-255\t974\nBury\t5360\t-230\t974\nSouth Elmsall\t5360\t-128\t974\nThorne\t5361\t-96\t974\nRochdale\t5362\t-216\t974\nSouthport\t5365\t-301\t974\nChorley\t5365\t-262\t974\nRamsbottom\t5365\t-232\t974\nHuddersfield\t5365\t-178\t974\nMirfield\t5367\t-170\t974\nRossendale\t5368\t-228\t974\nOssett\t5368\t-158\t974\nWakefield\t5368\t-150\t974\nElland\t5369\t-184\t974\nDewsbury\t5369\t-163\t974\nPontefract\t5369\t-131\t974\nLeyland\t5370\t-269\t974\nDarwen\t5370\t-246\t974\nHaslingden\t5370\t-232\t974\nRawtenstall\t5370\t-228\t974\nBrighouse\t5370\t-178\t974\nBatley\t5370\t-163\t974\nGoole\t5370\t-88\t974\nHalifax\t5372\t-185\t974\nCleckheaton\t5372\t-171\t974\nLofthouse\t5373\t-150\t974\nCastleford\t5373\t-136\t974\nBrough\t5373\t-57\t974\nLytham St Annes\t5374\t-300\t974\nMorley\t5374\t-160\t974\nKingston upon Hull\t5374\t-34\t974\nBlackburn\t5375\t-248\t974\nAccrington\t5375\t-236\t974\nPreston\t5376\t-270\t974\nKippax\t5377\t-137\t974\nSelby\t5378\t-107\t974\nBradford\t5379\t-175\t974\nBurnley\t5380\t-223\t974\nPudsey\t5380\t-166\t974\nLeeds\t5380\t-155\t974\nBlackpool\t5382\t-305\t974\nPoulton-le-Fylde\t5383\t-298\t974\nFylde\t5383\t-292\t974\nNelson\t5383\t-220\t974\nShipley\t5383\t-177\t974\nChapel Allerton\t5383\t-154\t974\nHorsforth\t5384\t-164\t974\nBingley\t5385\t-184\t974\nBaildon\t5385\t-179\t974\nBeverley\t5385\t-42\t974\nColne\t5386\t-217\t974\nYeadon\t5386\t-169\t974\nThornton-Cleveleys\t5387\t-302\t974\nKeighley\t5387\t-191\t974\nCleveleys\t5388\t-304\t974\nGuiseley\t5388\t-171\t974\nFleetwood\t5393\t-301\t974\nYork\t5396\t-108\t974\nHarrogate\t5399\t-154\t974\nHeysham\t5404\t-289\t974\nLancaster\t5405\t-280\t974\nMorecambe\t5407\t-286\t974\nBridlington\t5408\t-19\t974\nBarrow in Furness\t5411\t-323\t974\nRipon\t5414\t-153\t974\nScarborough\t5428\t-40\t974\nKendal\t5433\t-275\t974\nNorthallerton\t5434\t-143\t974\nYarm\t5450\t-136\t974\nDarlington\t5452\t-155\t974\nThornaby-on-Tees\t5453\t-130\t974\nGuisborough\t5453\t-106\t974\nWhitehaven\t5455\t-358\t974\nStockton-on-Tees\t5457\t-132\t974\nMiddlesbrough\t5458\t-123\t974\nBillingham\t5459\t-129\t974\nNewton Aycliffe\t5462\t-157\t974\nRedcar\t5462\t-106\t974\nWorkington\t5464\t-354\t974\nBishop Auckland\t5466\t-168\t974\nPenrith\t5467\t-276\t974\nHartlepool\t5469\t-121\t974\nSpennymoor\t5470\t-160\t974\nPeterlee\t5476\t-134\t974\nDurham\t5478\t-158\t974\nHoughton-Le-Spring\t5484\t-146\t974\nSeaham\t5484\t-135\t974\nConsett\t5485\t-183\t974\nChester-le-Street\t5486\t-157\t974\nStanley\t5487\t-170\t974\nCarlisle\t5490\t-294\t974\nWashington\t5490\t-152\t974\nSunderland\t5490\t-138\t974\nWhickham\t5495\t-168\t974\nFelling\t5495\t-157\t974\nGateshead\t5496\t-160\t974\nNewcastle upon Tyne\t5497\t-161\t974\nHebburn\t5497\t-152\t974\nJarrow\t5498\t-148\t974\nNewburn\t5499\t-174\t974\nWallsend\t5499\t-153\t974\nGosforth\t5500\t-162\t974\nSouth Shields\t5500\t-143\t974\nNorth Shields\t5502\t-145\t974\nTynemouth\t5502\t-143\t974\nWhitley Bay\t5504\t-145\t974\nCramlington\t5509\t-159\t974\nBedlington\t5513\t-159\t974\nBlyth\t5513\t-151\t974\nAshington\t5518\t-156\t974\nNewry\t5418\t-634\t975\nBanbridge\t5435\t-628\t975\nPortadown\t5442\t-644\t975\nCraigavon\t5445\t-639\t975\nLisburn\t5452\t-604\t975\nCastlereagh\t5457\t-588\t975\nNewtownards\t5459\t-569\t975\nOmagh\t5460\t-730\t975\nBelfast\t5460\t-593\t975\nBangor\t5465\t-567\t975\nNewtownabbey\t5466\t-591\t975\nAntrim\t5470\t-620\t975\nCarrickfergus\t5472\t-581\t975\nLarne\t5485\t-582\t975\nBallymena\t5486\t-628\t975\nDerry\t5500\t-731\t975\nColeraine\t5513\t-667\t975\nDumfries\t5507\t-361\t976\nAyr\t5546\t-463\t976\nKilmarnock\t5561\t-450\t976\nIrvine\t5562\t-466\t976\nKilwinning\t5565\t-471\t976\nLarkhall\t5573\t-397\t976\nDalserf\t5573\t-392\t976\nEast Kilbride\t5576\t-418\t976\nNewton Mearns\t5577\t-433\t976\nHamilton\t5577\t-403\t976\nWishaw\t5577\t-392\t976\nHigh Blantyre\t5578\t-410\t976\nMotherwell\t5579\t-399\t976\nBarrhead\t5580\t-439\t976\nBlantyre\t5580\t-409\t976\nCambuslang\t5581\t-416\t976\nBellshill\t5582\t-402\t976\nJohnstone\t5583\t-452\t976\nPaisley\t5583\t-443\t976\nRutherglen\t5583\t-421\t976\nViewpark\t5583\t-406\t976\nPenicuik\t5583\t-323\t976\nCoatbridge\t5586\t-402\t976\nRenfrew\t5587\t-439\t976\nGlasgow\t5587\t-426\t976\nAirdrie\t5587\t-398\t976\nBonnyrigg\t5587\t-311\t976\nErskine\t5590\t-445\t976\nClydebank\t5590\t-441\t976\nBathgate\t5590\t-364\t976\nLivingston\t5590\t-352\t976\nBishopbriggs\t5591\t-422\t976\nBearsden\t5592\t-433\t976\nPort Glasgow\t5593\t-469\t976\nBroxburn\t5593\t-347\t976\nDumbarton\t5594\t-457\t976\nKirkintilloch\t5594\t-415\t976\nMusselburgh\t5594\t-305\t976\nGreenock\t5595\t-476\t976\nCumbernauld\t5595\t-399\t976\nEdinburgh\t5595\t-320\t976\nVale of Leven\t5597\t-458\t976\nFalkirk\t5600\t-379\t976\nGrangemouth\t5601\t-372\t976\nDunfermline\t5607\t-346\t976\nStirling\t5612\t-394\t976\nAlloa\t5612\t-379\t976\nKirkcaldy\t5612\t-316\t976\nGlenrothes\t5620\t-317\t976\nSaint Andrews\t5634\t-280\t976\nPerth\t5640\t-343\t976\nDundee\t5647\t-297\t976\nArbroath\t5656\t-259\t976\nAberdeen\t5714\t-210\t976\nInverness\t5748\t-422\t976\nPeterhead\t5751\t-178\t976\nElgin\t5765\t-332\t976\nIsle of Lewis\t5822\t-639\t976\nOrkney\t5898\t-296\t976\nBarry\t5140\t-328\t977\nPenarth\t5144\t-317\t977\nPorthcawl\t5148\t-370\t977\nCardiff\t5148\t-318\t977\nBridgend\t5151\t-358\t977\nCoity\t5152\t-356\t977\nCaerphilly\t5157\t-322\t977\nNewport\t5159\t-300\t977\nPontypridd\t5160\t-334\t977\nMaesteg\t5161\t-366\t977\nRisca\t5161\t-310\t977\nSwansea\t5162\t-394\t977\nTonypandy\t5162\t-346\t977\nBriton Ferry\t5163\t-382\t977\nChepstow\t5164\t-268\t977\nCwmbran\t5165\t-302\t977\nNeath\t5166\t-380\t977\nRhondda\t5166\t-345\t977\nGelligaer\t5166\t-326\t977\nGorseinon\t5167\t-404\t977\nBlackwood\t5167\t-321\t977\nLlanelli\t5168\t-416\t977\nClydach\t5168\t-390\t977\nPontypool\t5170\t-304\t977\nAberdare\t5171\t-345\t977\nMerthyr Tydfil\t5175\t-338\t977\nEbbw Vale\t5178\t-321\t977\nAmmanford\t5179\t-399\t977\nCarmarthen\t5186\t-431\t977\nAberystwyth\t5242\t-408\t977\nRhosllanerchrugog\t5301\t-306\t977\nWrexham\t5305\t-299\t977\nBrymbo\t5307\t-307\t977\nBuckley\t5317\t-308\t977\nHawarden\t5318\t-303\t977\nDeeside\t5320\t-304\t977\nBangor\t5323\t-413\t977\nFlint\t5324\t-313\t977\nAbergele\t5328\t-358\t977\nColwyn Bay\t5329\t-373\t977\nLlandudno\t5332\t-383\t977\nRhyl\t5332\t-349\t977\nPrestatyn\t5334\t-341\t977\nHillsborough\t1248\t-6146\t978\nGrenville\t1212\t-6162\t979\nSaint David’s\t1205\t-6167\t980\nSaint George's\t1205\t-6175\t981\nGouyave\t1216\t-6173\t982\nVictoria\t1219\t-6171\t983\nSauteurs\t1222\t-6164\t984\nOch’amch’ire\t4271\t4147\t985\nTqvarch'eli\t4284\t4168\t985\nSokhumi\t4301\t4099\t985\nStantsiya Novyy Afon\t4308\t4084\t985\nBatumi\t4164\t4163\t986\nKobuleti\t4182\t4178\t986\nOzurgeti\t4192\t4201\t987\nZest’aponi\t4211\t4304\t988\nSamtredia\t4215\t4234\t988\nKutaisi\t4227\t4269\t988\nTs’q’alt’ubo\t4233\t4260\t988\nTelavi\t4192\t4547\t989\nMarneuli\t4149\t4480\t990\nRustavi\t4156\t4498\t990\nMtskheta\t4185\t4472\t991\nP’ot’i\t4214\t4167\t992\nSenak’i\t4227\t4207\t992\nZugdidi\t4251\t4187\t992\nAkhaltsikhe\t4164\t4298\t993\nGori\t4198\t4412\t994\nKhashuri\t4199\t4360\t994\nTs’khinvali\t4223\t4397\t994\nTbilisi\t4169\t4483\t995\nMatoury\t485\t-5232\t996\nRémire-Montjoly\t492\t-5227\t996\nCayenne\t493\t-5233\t996\nKourou\t516\t-5264\t996\nSaint-Laurent-du-Maroni\t550\t-5403\t996\nSt Anne\t4972\t-221\t997\nCastel\t4947\t-260\t998\nSaint Andrew\t4944\t-258\t999\nSaint Saviour\t4946\t-264\t1000\nSt Martin\t4944\t-255\t1001\nSaint Peter Port\t4946\t-254\t1002\nSaint Sampson\t4948\t-252\t1003\nTorteval\t4943\t-265\t1004\nGoaso\t680\t-252\t1005\nBechem\t709\t-202\t1005\nDuayaw-Nkwanta\t717\t-210\t1005\nObuase\t620\t-167\t1006\nKonongo\t662\t-122\t1006\nKumasi\t669\t-162\t1006\nTafo\t673\t-161\t1006\nAgogo\t680\t-108\t1006\nMampong\t706\t-140\t1006\nEjura\t739\t-136\t1006\nSunyani\t734\t-233\t1007\nBerekum\t745\t-258\t1007\nJapekrom\t758\t-279\t1007\nWankyi\t774\t-210\t1007\nTechiman\t759\t-194\t1008\nKintampo\t806\t-173\t1008\nElmina\t508\t-135\t1009\nCape Coast\t511\t-125\t1009\nSaltpond\t521\t-106\t1009\nApam\t528\t-74\t1009\nWinneba\t535\t-62\t1009\nKasoa\t553\t-42\t1009\nSwedru\t554\t-70\t1009\nFoso\t570\t-129\t1009\nDunkwa\t596\t-178\t1009\nNsawam\t581\t-35\t1010\nAburi\t585\t-17\t1010\nAsamankese\t586\t-66\t1010\nAkim Oda\t593\t-99\t1010\nAkwatia\t604\t-81\t1010\nSuhum\t604\t-45\t1010\nKoforidua\t609\t-26\t1010\nBegoro\t639\t-38\t1010\nAccra\t556\t-20\t1011\nGbawe\t558\t-31\t1011\nDome\t565\t-24\t1011\nMedina Estates\t567\t-16\t1011\nTema\t567\t-2\t1011\nAtsiaman\t570\t-33\t1011\nNalerigu\t1053\t-37\t1012\nSalaga\t855\t-52\t1013\nTamale\t940\t-84\t1013\nYendi\t944\t-1\t1013\nSavelugu\t962\t-83\t1013\nDambai\t807\t18\t1014\nDamongo\t908\t-182\t1015\nBolgatanga\t1079\t-85\t1016\nNavrongo\t1090\t-109\t1016\nBawku\t1106\t-24\t1016\nWa\t1006\t-250\t1017\nAnloga\t579\t90\t1018\nKeta\t592\t99\t1018\nAflao\t612\t119\t1018\nHo\t660\t47\t1018\nKpandu\t700\t29\t1018\nHohoe\t715\t47\t1018\nAxim\t487\t-224\t1019\nTakoradi\t490\t-176\t1019\nSekondi-Takoradi\t493\t-176\t1019\nShama Junction\t502\t-166\t1019\nTarkwa\t530\t-199\t1019\nPrestea\t543\t-214\t1019\nBibiani\t646\t-232\t1019\nSefwi Wiawso\t621\t-249\t1020\nGibraltar\t3614\t-535\t1021\nIlulissat\t6922\t-5110\t1022\nQaqortoq\t6072\t-4604\t1023\nAasiaat\t6871\t-5287\t1024\nSisimiut\t6694\t-5367\t1025\nNuuk\t6418\t-5172\t1026\nSerekunda\t1344\t-1668\t1027\nBanjul\t1345\t-1658\t1027\nBakau\t1348\t-1668\t1027\nGeorgetown\t1354\t-1476\t1028\nMansa Konko\t1344\t-1554\t1029\nLamin\t1335\t-1643\t1030\nKerewan\t1349\t-1609\t1030\nFarafenni\t1357\t-1560\t1030\nBasse Santa Su\t1331\t-1421\t1031\nBrikama\t1327\t-1665\t1032\nSukuta\t1341\t-1671\t1032\nFria\t1037\t-1358\t1033\nBoké\t1093\t-1429\t1033\nCamayenne\t954\t-1369\t1034\nConakry\t954\t-1368\t1034\nKissidougou\t918\t-1010\t1035\nFaranah\t1004\t-1074\t1035\nKankan\t1039\t-931\t1036\nSiguiri\t1142\t-917\t1036\nCoyah\t971\t-1338\t1037\nKindia\t1006\t-1287\t1037\nTélimélé\t1090\t-1303\t1037\nLabé\t1132\t-1228\t1038\nTougué\t1145\t-1166\t1038\nMamou\t1038\t-1209\t1039\nPita\t1106\t-1239\t1039\nNzérékoré\t776\t-882\t1040\nMacenta\t854\t-947\t1040\nGueckedou\t857\t-1013\t1040\nBasse-Terre\t1600\t-6173\t1041\nCapesterre-Belle-Eau\t1604\t-6156\t1041\nPetit-Bourg\t1619\t-6159\t1041\nLe Gosier\t1621\t-6149\t1041\nSainte-Anne\t1623\t-6138\t1041\nPointe-à-Pitre\t1624\t-6154\t1041\nBaie-Mahault\t1627\t-6159\t1041\nLes Abymes\t1627\t-6151\t1041\nSainte-Rose\t1633\t-6170\t1041\nLe Moule\t1633\t-6135\t1041\nSan Antonio de Palé\t-141\t563\t1042\nMalabo\t376\t878\t1043\nLuba\t346\t855\t1044\nEvinayong\t144\t1055\t1045\nEbebiyin\t215\t1134\t1046\nBata\t186\t977\t1047\nMongomo\t163\t1131\t1048\nVári\t3783\t2380\t1049\nVoúla\t3784\t2378\t1049\nGlyfáda\t3786\t2376\t1049\nEllinikó\t3789\t2374\t1049\nKoropí\t3790\t2387\t1049\nÁlimos\t3791\t2372\t1049\nArgyroúpoli\t3791\t2375\t1049\nPalaió Fáliro\t3793\t2370\t1049\nAgios Dimitrios\t3793\t2373\t1049\nIlioúpoli\t3793\t2377\t1049\nPiraeus\t3794\t2365\t1049\nMoskháton\t3795\t2368\t1049\nKallithéa\t3795\t2370\t1049\nNéa Smýrni\t3795\t2371\t1049\nDhafní\t3795\t2373\t1049\nSalamína\t3796\t2350\t1049\nKeratsíni\t3796\t2362\t1049\nAgios Ioannis Rentis\t3796\t2367\t1049\nVýronas\t3796\t2375\t1049\nKaisarianí\t3796\t2377\t1049\nPérama\t3797\t2357\t1049\nNíkaia\t3797\t2365\t1049\nArtémida\t3797\t2400\t1049\nKorydallós\t3798\t2365\t1049\nAigáleo\t3798\t2368\t1049\nAthens\t3798\t2373\t1049\nZográfos\t3798\t2377\t1049\nMégara\t3799\t2334\t1049\nAgía Varvára\t3799\t2366\t1049\nCholargós\t3800\t2380\t1049\nChaïdári\t3801\t2367\t1049\nPeristéri\t3802\t2369\t1049\nGalátsi\t3802\t2375\t1049\nKhalándrion\t3802\t2380\t1049\nAgía Paraskeví\t3802\t2383\t1049\nGérakas\t3802\t2386\t1049\nÍlion\t3803\t2370\t1049\nÁgioi Anárgyroi\t3803\t2372\t1049\nNéa Filadélfeia\t3803\t2374\t1049\nVrilissia\t3803\t2383\t1049\nElefsína\t3804\t2354\t1049\nPetroúpolis\t3804\t2368\t1049\nNéa Ionía\t3804\t2376\t1049\nIrákleio\t3805\t2377\t1049\nMaroúsi\t3805\t2380\t1049\nMelíssia\t3805\t2383\t1049\nAsprópyrgos\t3806\t2359\t1049\nKamaterón\t3806\t2371\t1049\nPéfki\t3806\t2379\t1049\nMetamórfosi\t3807\t2376\t1049\nKifisiá\t3807\t2381\t1049\nÁno Liósia\t3808\t2370\t1049\nAcharnés\t3808\t2373\t1049\nNéa Erythraía\t3809\t2382\t1049\nNéa Mákri\t3809\t2398\t1049\nThívai\t3833\t2332\t1050\nLivadeiá\t3844\t2288\t1050\nChalkída\t3846\t2360\t1050\nLamía\t3890\t2243\t1050\nKateríni\t4027\t2251\t1051\nPeraía\t4050\t2293\t1051\nVéroia\t4052\t2220\t1051\nKalamariá\t4058\t2295\t1051\nPanórama\t4059\t2303\t1051\nPylaía\t4060\t2299\t1051\nNáousa\t4063\t2207\t1051\nThessaloníki\t4064\t2293\t1051\nNeapoli\t4065\t2294\t1051\nSykiés\t4065\t2295\t1051\nPolíchni\t4067\t2295\t1051\nOraiókastro\t4073\t2292\t1051\nGiannitsá\t4079\t2241\t1051\nÉdessa\t4080\t2205\t1051\nKilkís\t4099\t2287\t1051\nSérres\t4108\t2355\t1051\nIrákleion\t3533\t2514\t1052\nRethymno\t3537\t2448\t1052\nChaniá\t3551\t2403\t1052\nAlexandroupoli\t4085\t2588\t1053\nKavála\t4094\t2441\t1053\nKomotiní\t4112\t2541\t1053\nXánthi\t4113\t2489\t1053\nDráma\t4115\t2415\t1053\nOrestiáda\t4150\t2653\t1053\nPréveza\t3896\t2075\t1054\nÁrta\t3916\t2099\t1054\nIoánnina\t3966\t2085\t1054\nCorfu\t3962\t1992\t1055\nKaryes\t4026\t2424\t1056\nChios\t3837\t2614\t1057\nMytilene\t3911\t2656\t1057\nKalamata\t3704\t2211\t1058\nSpárti\t3707\t2243\t1058\nTrípoli\t3751\t2238\t1058\nÁrgos\t3763\t2273\t1058\nKórinthos\t3794\t2295\t1058\nRódos\t3644\t2822\t1059\nKos\t3689\t2729\t1059\nErmoúpolis\t3744\t2494\t1059\nKardítsa\t3936\t2192\t1060\nVolos\t3936\t2294\t1060\nNéa Ionía\t3938\t2293\t1060\nTríkala\t3955\t2177\t1060\nLárisa\t3964\t2242\t1060\nPýrgos\t3768\t2144\t1061\nAmaliáda\t3780\t2135\t1061\nPátra\t3824\t2173\t1061\nAígio\t3825\t2208\t1061\nAgrínio\t3862\t2141\t1061\nKozáni\t4030\t2179\t1062\nPtolemaḯda\t4051\t2168\t1062\nFlórina\t4078\t2141\t1062\nGrytviken\t-5428\t-3651\t1063\nSan Cristóbal Verapaz\t1540\t-9057\t1064\nPanzos\t1540\t-8964\t1064\nCobán\t1547\t-9037\t1064\nChisec\t1581\t-9029\t1064\nSalamá\t1510\t-9032\t1065\nSan Andrés Itzapa\t1462\t-9084\t1066\nPatzicía\t1463\t-9093\t1066\nEl Tejar\t1465\t-9079\t1066\nChimaltenango\t1466\t-9082\t1066\nPatzún\t1468\t-9101\t1066\nComalapa\t1474\t-9089\t1066\nTecpán Guatemala\t1476\t-9099\t1066\nEsquipulas\t1457\t-8935\t1067\nChiquimula\t1480\t-8955\t1067\nSanarate\t1479\t-9020\t1068\nGuastatoya\t1485\t-9007\t1068\nPuerto San José\t1393\t-9082\t1069\nLa Gomera\t1408\t-9105\t1069\nTiquisate\t1428\t-9136\t1069\nEscuintla\t1430\t-9079\t1069\nSanta Lucía Cotzumalguapa\t1434\t-9102\t1069\nPalín\t1440\t-9070\t1069\nFraijanes\t1447\t-9044\t1070\nAmatitlán\t1448\t-9063\t1070\nVilla Canales\t1448\t-9053\t1070\nPetapa\t1450\t-9056\t1070\nVilla Nueva\t1453\t-9059\t1070\nSan José Pinula\t1455\t-9041\t1070\nSanta Catarina Pinula\t1457\t-9050\t1070\nMixco\t1463\t-9061\t1070\nGuatemala City\t1464\t-9051\t1070\nPalencia\t1467\t-9036\t1070\nChinautla\t1470\t-9050\t1070\nSan Juan Sacatepéquez\t1472\t-9064\t1070\nSan Pedro Ayampuc\t1478\t-9045\t1070\nHuehuetenango\t1532\t-9147\t1071\nJacaltenango\t1567\t-9171\t1071\nMorales\t1547\t-8884\t1072\nEl Estor\t1553\t-8933\t1072\nPuerto Barrios\t1573\t-8859\t1072\nJalapa\t1463\t-8999\t1073\nJutiapa\t1429\t-8990\t1074\nAsunción Mita\t1433\t-8971\t1074\nPoptún\t1633\t-8942\t1075\nSan Benito\t1692\t-8992\t1075\nFlores\t1692\t-8990\t1075\nEl Palmar\t1465\t-9158\t1076\nCoatepeque\t1470\t-9186\t1076\nColomba\t1471\t-9173\t1076\nCantel\t1481\t-9146\t1076\nQuetzaltenango\t1483\t-9152\t1076\nOstuncalco\t1487\t-9162\t1076\nLa Esperanza\t1487\t-9156\t1076\nChichicastenango\t1494\t-9111\t1077\nSanta Cruz del Quiché\t1503\t-9115\t1077\nNebaj\t1541\t-9115\t1077\nRetalhuleu\t1454\t-9168\t1078\nNuevo San Carlos\t1459\t-9169\t1078\nAlotenango\t1449\t-9080\t1079\nSanta María de Jesús\t1449\t-9071\t1079\nCiudad Vieja\t1452\t-9076\t1079\nAntigua Guatemala\t1456\t-9073\t1079\nJocotenango\t1458\t-9074\t1079\nSan Lucas Sacatepéquez\t1461\t-9066\t1079\nSantiago Sacatepéquez\t1464\t-9068\t1079\nSumpango\t1465\t-9073\t1079\nSan Marcos\t1496\t-9179\t1080\nSan Pedro Sacatepéquez\t1497\t-9176\t1080\nComitancillo\t1509\t-9175\t1080\nCuilapa\t1428\t-9030\t1081\nBarberena\t1431\t-9036\t1081\nSantiago Atitlán\t1464\t-9123\t1082\nSololá\t1477\t-9118\t1082\nNahualá\t1484\t-9132\t1082\nMazatenango\t1453\t-9150\t1083\nChicacao\t1454\t-9133\t1083\nSan Pablo Jocopilas\t1459\t-9145\t1083\nTotonicapán\t1491\t-9136\t1084\nSan Francisco El Alto\t1494\t-9144\t1084\nMomostenango\t1504\t-9141\t1084\nZacapa\t1497\t-8953\t1085\nGualán\t1512\t-8936\t1085\nAgana Heights Village\t1347\t14475\t1086\nAgat Village\t1339\t14466\t1087\nAsan-Maina Village\t1347\t14472\t1088\nBarrigada Village\t1347\t14480\t1089\nChalan Pago-Ordot Village\t1345\t14476\t1090\nDededo Village\t1352\t14484\t1091\nHagåtña\t1348\t14475\t1092\nInarajan Village\t1327\t14475\t1093\nMangilao Village\t1345\t14480\t1094\nMerizo Village\t1327\t14467\t1095\nMongmong-Toto-Maite Village\t1347\t14478\t1096\nPiti Village\t1346\t14469\t1097\nSanta Rita Village\t1339\t14467\t1098\nSinajana Village\t1346\t14475\t1099\nTalofofo Village\t1336\t14476\t1100\nTamuning-Tumon-Harmon Village\t1349\t14478\t1101\nUmatac Village\t1330\t14466\t1102\nYigo Village\t1354\t14489\t1103\nYona Village\t1341\t14478\t1104\nBafatá\t1217\t-1466\t1105\nQuinhámel\t1189\t-1586\t1106\nBissau\t1186\t-1560\t1107\nBolama\t1158\t-1548\t1108\nCacheu\t1227\t-1617\t1109\nGabú\t1228\t-1422\t1110\nFarim\t1248\t-1522\t1111\nBuba\t1159\t-1500\t1112\nCatió\t1128\t-1525\t1113\nMabaruma\t820\t-5978\t1114\nBartica\t641\t-5862\t1115\nGeorgetown\t680\t-5816\t1116\nNew Amsterdam\t625\t-5752\t1117\nVreed-en-Hoop\t681\t-5820\t1118\nFort Wellington\t639\t-5760\t1119\nAnna Regina\t726\t-5851\t1120\nMahdia\t527\t-5915\t1121\nLinden\t601\t-5831\t1122\nLethem\t338\t-5980\t1123\nCentral\t2228\t11416\t1124\nHong Kong\t2228\t11417\t1124\nTung Chung\t2229\t11394\t1125\nKowloon\t2232\t11418\t1126\nSai Kung\t2238\t11427\t1127\nSha Tin\t2238\t11418\t1128\nSham Shui Po\t2233\t11416\t1129\nTai Po\t2245\t11417\t1130\nTsuen Wan\t2237\t11411\t1131\nTuen Mun\t2239\t11397\t1132\nWan Chai\t2228\t11417\t1133\nWong Tai Sin\t2235\t11418\t1134\nYuen Long Kau Hui\t2245\t11403\t1135\nLa Ceiba\t1576\t-8678\t1136\nTela\t1577\t-8747\t1136\nCoxen Hole\t1632\t-8654\t1137\nCiudad Choluteca\t1330\t-8719\t1138\nTocoa\t1568\t-8600\t1139\nTrujillo\t1592\t-8595\t1139\nComayagua\t1445\t-8764\t1140\nSiguatepeque\t1460\t-8783\t1140\nSanta Rosa de Copán\t1477\t-8878\t1141\nPotrerillos\t1523\t-8797\t1142\nVillanueva\t1532\t-8800\t1142\nCofradía\t1540\t-8815\t1142\nLa Lima\t1543\t-8792\t1142\nSan Pedro Sula\t1550\t-8802\t1142\nCholoma\t1561\t-8795\t1142\nPuerto Cortez\t1583\t-8793\t1142\nEl Paraíso\t1387\t-8655\t1143\nYuscarán\t1394\t-8685\t1143\nDanlí\t1403\t-8658\t1143\nTegucigalpa\t1408\t-8721\t1144\nPuerto Lempira\t1527\t-8377\t1145\nLa Esperanza\t1431\t-8818\t1146\nLa Paz\t1432\t-8768\t1147\nGracias\t1459\t-8858\t1148\nNueva Ocotepeque\t1443\t-8918\t1149\nJuticalpa\t1467\t-8622\t1150\nSanta Bárbara\t1492\t-8824\t1151\nSan Lorenzo\t1342\t-8745\t1152\nNacaome\t1354\t-8749\t1152\nYoro\t1514\t-8713\t1153\nEl Progreso\t1540\t-8780\t1153\nOlanchito\t1548\t-8657\t1153\nBjelovar\t4590\t1685\t1154\nSlavonski Brod\t4516\t1802\t1155\nĐakovo\t4531\t1841\t1156\nOsijek\t4555\t1869\t1156\nDubrovnik\t4264\t1811\t1157\nPula\t4487\t1385\t1158\nPazin\t4524\t1394\t1158\nKarlovac\t4549\t1555\t1159\nKoprivnica\t4616\t1683\t1160\nKrapina\t4616\t1588\t1161\nGospić\t4455\t1537\t1162\nČakovec\t4638\t1643\t1163\nPožega\t4534\t1769\t1164\nRijeka\t4533\t1444\t1165\nSisak\t4547\t1638\t1166\nSplit\t4351\t1644\t1167\nSolin\t4354\t1649\t1167\nVaraždin\t4630\t1634\t1168\nVirovitica\t4583\t1738\t1169\nVinkovci\t4529\t1880\t1170\nVukovar\t4535\t1900\t1170\nZadar\t4412\t1523\t1171\nStenjevec\t4581\t1588\t1172\nZagreb\t4581\t1598\t1172\nSesvete\t4583\t1612\t1172\nVelika Gorica\t4571\t1608\t1173\nSamobor\t4580\t1572\t1173\nZaprešić\t4586\t1581\t1173\nŠibenik\t4373\t1589\t1174\nDésarmes\t1899\t-7239\t1175\nVerrettes\t1905\t-7247\t1175\nSaint-Marc\t1911\t-7269\t1175\nGonaïves\t1945\t-7269\t1175\nHinche\t1915\t-7202\t1176\nJérémie\t1865\t-7412\t1177\nMiragoâne\t1845\t-7309\t1178\nSaint-Raphaël\t1944\t-7220\t1179\nLenbe\t1971\t-7240\t1179\nOkap\t1976\t-7220\t1179\nFort Liberté\t1966\t-7184\t1180\nTi Port-de-Paix\t1993\t-7283\t1181\nPort-de-Paix\t1994\t-7283\t1181\nTigwav\t1843\t-7287\t1182\nGrangwav\t1843\t-7277\t1182\nKenscoff\t1845\t-7228\t1182\nLéogâne\t1851\t-7263\t1182\nPétionville\t1851\t-7229\t1182\nFond Parisien\t1851\t-7198\t1182\nGressier\t1854\t-7253\t1182\nPort-au-Prince\t1854\t-7234\t1182\nDelmas 73\t1854\t-7230\t1182\nCroix-des-Bouquets\t1858\t-7223\t1182\nThomazeau\t1865\t-7209\t1182\nLes Cayes\t1819\t-7375\t1183\nJacmel\t1823\t-7254\t1184\nMohács\t4599\t1869\t1185\nPécs\t4607\t1823\t1185\nKomló\t4619\t1826\t1185\nOrosháza\t4657\t2067\t1186\nGyula\t4665\t2128\t1186\nBékéscsaba\t4668\t2110\t1186\nBékés\t4677\t2113\t1186\nSzarvas\t4687\t2055\t1186\nGyomaendrőd\t4693\t2083\t1186\nMezőkövesd\t4782\t2058\t1187\nTiszaújváros\t4793\t2108\t1187\nMiskolc\t4810\t2078\t1187\nÓzd\t4822\t2030\t1187\nKazincbarcika\t4825\t2063\t1187\nSátoraljaújhely\t4839\t2166\t1187\nBudapest\t4750\t1904\t1188\nBaja\t4618\t1895\t1189\nKiskunhalas\t4643\t1948\t1189\nKalocsa\t4653\t1897\t1189\nKiskőrös\t4662\t1929\t1189\nKiskunfélegyháza\t4671\t1984\t1189\nKecskemét\t4691\t1969\t1189\nMakó\t4622\t2048\t1190\nSzeged\t4625\t2015\t1190\nHódmezővásárhely\t4642\t2033\t1190\nCsongrád\t4671\t2014\t1190\nDunaújváros\t4696\t1894\t1191\nSzékesfehérvár\t4719\t1841\t1191\nGyőr\t4768\t1764\t1192\nSopron\t4769\t1659\t1192\nMosonmagyaróvár\t4787\t1727\t1192\nBerettyóújfalu\t4722\t2155\t1193\nPüspökladány\t4732\t2112\t1193\nHajdúszoboszló\t4745\t2140\t1193\nDebrecen\t4753\t2162\t1193\nBalmazújváros\t4762\t2135\t1193\nHajdúböszörmény\t4767\t2152\t1193\nHajdúnánás\t4785\t2143\t1193\nHatvan\t4767\t1968\t1194\nGyöngyös\t4778\t1993\t1194\nEger\t4790\t2037\t1194\nParádsasvár\t4791\t1998\t1194\nMezőtúr\t4700\t2063\t1195\nSzolnok\t4718\t2020\t1195\nTörökszentmiklós\t4718\t2042\t1195\nKarcag\t4732\t2093\t1195\nJászberény\t4750\t1992\t1195\nOroszlány\t4749\t1831\t1196\nTatabánya\t4758\t1839\t1196\nTata\t4765\t1832\t1196\nKomárom\t4774\t1812\t1196\nEsztergom\t4779\t1874\t1196\nBalassagyarmat\t4807\t1930\t1197\nSalgótarján\t4810\t1980\t1197\nNagykőrös\t4703\t1978\t1198\nCegléd\t4717\t1980\t1198\nDabas\t4719\t1931\t1198\nAbony\t4719\t2000\t1198\nSzázhalombatta\t4733\t1894\t1198\nSzigetszentmiklós\t4734\t1904\t1198\nDunaharaszti\t4735\t1910\t1198\nMonor\t4735\t1945\t1198\nGyál\t4738\t1922\t1198\nÉrd\t4739\t1891\t1198\nVecsés\t4741\t1929\t1198\nBudaörs\t4746\t1896\t1198\nGödöllő\t4760\t1936\t1198\nFót\t4762\t1919\t1198\nDunakeszi\t4764\t1914\t1198\nSzentendre\t4767\t1908\t1198\nGöd\t4768\t1913\t1198\nVác\t4778\t1914\t1198\nKaposvár\t4637\t1780\t1199\nSiófok\t4690\t1806\t1199\nNyíregyháza\t4796\t2172\t1200\nMátészalka\t4796\t2232\t1200\nKisvárda\t4822\t2208\t1200\nSzekszárd\t4635\t1871\t1201\nDombóvár\t4638\t1814\t1201\nPaks\t4662\t1886\t1201\nSzombathely\t4723\t1662\t1202\nSárvár\t4725\t1694\t1202\nTapolca\t4688\t1744\t1203\nVeszprém\t4709\t1791\t1203\nAjka\t4710\t1756\t1203\nVárpalota\t4720\t1814\t1203\nPápa\t4733\t1747\t1203\nNagykanizsa\t4645\t1699\t1204\nKeszthely\t4677\t1724\t1204\nZalaegerszeg\t4684\t1684\t1204\nSingkil\t229\t9779\t1205\nSinabang\t248\t9638\t1205\nMeulaboh\t414\t9613\t1205\nLangsa\t447\t9797\t1205\nLhokseumawe\t518\t9715\t1205\nBireun\t520\t9670\t1205\nReuleuet\t522\t9628\t1205\nSigli\t538\t9596\t1205\nBanda Aceh\t554\t9533\t1205\nSabang\t589\t9532\t1205\nKuta\t-872\t11517\t1206\nDenpasar\t-865\t11522\t1206\nTabanan\t-854\t11513\t1206\nKlungkung\t-853\t11540\t1206\nUbud\t-851\t11527\t1206\nBedugul\t-845\t11559\t1206\nAmlapura city\t-845\t11561\t1206\nAmlapura\t-845\t11562\t1206\nNegara\t-836\t11462\t1206\nSeririt\t-819\t11494\t1206\nBanjar\t-819\t11497\t1206\nSingaraja\t-811\t11509\t1206\nManggar\t-288\t10827\t1207\nTanjung Pandan\t-273\t10763\t1207\nPangkalpinang\t-213\t10611\t1207\nMuntok\t-207\t10516\t1207\nSungailiat\t-185\t10612\t1207\nLabuan\t-638\t10583\t1208\nRangkasbitung\t-636\t10625\t1208\nPandeglang\t-631\t10611\t1208\nSouth Tangerang\t-629\t10672\t1208\nCurug\t-627\t10656\t1208\nTangerang\t-618\t10663\t1208\nSerang\t-612\t10615\t1208\nBengkulu\t-380\t10227\t1209\nCurup\t-347\t10252\t1209\nJatiroto\t-788\t11112\t1210\nSelogiri\t-778\t11087\t1210\nCandi Prambanan\t-775\t11049\t1210\nWedi\t-774\t11058\t1210\nKutoarjo\t-772\t10991\t1210\nTrucuk\t-772\t11066\t1210\nKlaten\t-771\t11061\t1210\nJogonalan\t-770\t11054\t1210\nKebonarun\t-770\t11056\t1210\nCeper\t-767\t11068\t1210\nKaranganom\t-765\t11063\t1210\nKroya\t-763\t10925\t1210\nDelanggu\t-762\t11068\t1210\nGombong\t-761\t10951\t1210\nBaki\t-761\t11078\t1210\nGrogol\t-760\t11082\t1210\nGatak\t-759\t11070\t1210\nMuntilan\t-758\t11029\t1210\nJaten\t-758\t11090\t1210\nSurakarta\t-756\t11083\t1210\nNgemplak\t-755\t11072\t1210\nKartasura\t-755\t11074\t1210\nBoyolali\t-753\t11060\t1210\nColomadu\t-753\t11075\t1210\nWangon\t-752\t10905\t1210\nMertoyudan\t-752\t11023\t1210\nBanyumas\t-751\t10929\t1210\nSidareja\t-748\t10879\t1210\nMagelang\t-747\t11022\t1210\nSokaraja\t-746\t10929\t1210\nSragen\t-743\t11102\t1210\nPurwokerto\t-742\t10923\t1210\nPurbalingga\t-739\t10936\t1210\nWonosobo\t-736\t10990\t1210\nSalatiga\t-733\t11049\t1210\nMajenang\t-730\t10876\t1210\nBaturaden\t-730\t10922\t1210\nAmbarawa\t-726\t11040\t1210\nCepu\t-715\t11159\t1210\nUngaran\t-714\t11041\t1210\nMargasari\t-710\t10902\t1210\nRandudongkal\t-710\t10932\t1210\nPurwodadi\t-709\t11092\t1210\nBalapulang\t-705\t10910\t1210\nLebaksiu\t-705\t10914\t1210\nBuaran\t-705\t10955\t1210\nMranggen\t-703\t11052\t1210\nSemarang\t-699\t11042\t1210\nSlawi\t-698\t10914\t1210\nWonopringgo\t-698\t10962\t1210\nKedungwuni\t-697\t10965\t1210\nWeleri\t-697\t11007\t1210\nBlora\t-697\t11142\t1210\nKetanggungan\t-694\t10889\t1210\nAdiwerna\t-694\t10913\t1210\nTarub\t-693\t10917\t1210\nComal\t-691\t10953\t1210\nDukuhturi\t-690\t10908\t1210\nPemalang\t-689\t10938\t1210\nWiradesa\t-689\t10962\t1210\nPekalongan\t-689\t10968\t1210\nDemak\t-689\t11064\t1210\nBulakamba\t-687\t10896\t1210\nTegal\t-687\t10914\t1210\nJekulo\t-681\t11093\t1210\nWelahan\t-680\t11072\t1210\nKudus\t-680\t11084\t1210\nBaekrajan\t-677\t11085\t1210\nPati\t-676\t11104\t1210\nGebog\t-673\t11084\t1210\nJuwana\t-671\t11115\t1210\nPecangaan\t-670\t11071\t1210\nRembangan\t-670\t11134\t1210\nLasem\t-669\t11145\t1210\nTayu\t-654\t11105\t1210\nMlonggo\t-653\t11070\t1210\nBatang\t-648\t11071\t1210\nKualakapuas\t-301\t11439\t1211\nPangkalanbuun\t-268\t11163\t1211\nSampit\t-253\t11295\t1211\nPalangkaraya\t-221\t11392\t1211\nPoso\t-140\t12075\t1212\nLuwuk\t-95\t12279\t1212\nPalu\t-91\t11987\t1212\nMuncar\t-843\t11433\t1213\nSrono\t-840\t11427\t1213\nGambiran Satu\t-839\t11415\t1213\nGenteng\t-837\t11415\t1213\nSingojuruh\t-832\t11423\t1213\nKencong\t-828\t11337\t1213\nBanyuwangi\t-823\t11436\t1213\nDampit\t-821\t11275\t1213\nGongdanglegi Kulon\t-818\t11264\t1213\nJember\t-817\t11370\t1213\nSumberpucung\t-816\t11248\t1213\nKepanjen\t-813\t11257\t1213\nLumajang\t-813\t11322\t1213\nBoyolangu\t-812\t11189\t1213\nNgunut\t-811\t11202\t1213\nBlitar\t-810\t11217\t1213\nTrenggalek\t-808\t11171\t1213\nTulungagung\t-807\t11190\t1213\nKedungwaru\t-807\t11192\t1213\nPakisaji\t-807\t11260\t1213\nWongsorejo\t-799\t11440\t1213\nMalang\t-798\t11263\t1213\nBondowoso\t-791\t11382\t1213\nSingosari\t-789\t11267\t1213\nPonorogo\t-787\t11146\t1213\nBatu\t-787\t11253\t1213\nLawang\t-784\t11269\t1213\nKediri\t-782\t11202\t1213\nGampengrejo\t-777\t11202\t1213\nPare\t-777\t11220\t1213\nKraksaan\t-776\t11340\t1213\nProbolinggo\t-775\t11322\t1213\nBesuki\t-773\t11370\t1213\nBalung\t-773\t11392\t1213\nPanji\t-773\t11410\t1213\nSitubondo\t-771\t11401\t1213\nPanarukan\t-770\t11392\t1213\nNgoro\t-768\t11226\t1213\nPrigen\t-768\t11262\t1213\nPandaan\t-765\t11269\t1213\nPasuruan\t-765\t11291\t1213\nMadiun\t-763\t11152\t1213\nNganjuk\t-761\t11190\t1213\nBangil\t-760\t11282\t1213\nKertosono\t-758\t11210\t1213\nDiwek\t-758\t11223\t1213\nMojoagung\t-757\t11235\t1213\nJombang\t-755\t11223\t1213\nTanggulangin\t-750\t11270\t1213\nSoko\t-748\t11243\t1213\nMojokerto\t-747\t11243\t1213\nTulangan Utara\t-747\t11265\t1213\nSidoarjo\t-745\t11272\t1213\nBuduran\t-743\t11272\t1213\nKrian\t-741\t11258\t1213\nGedangan\t-739\t11273\t1213\nDriyorejo\t-737\t11262\t1213\nSurabaya\t-725\t11275\t1213\nSampang\t-719\t11324\t1213\nKebomas\t-717\t11263\t1213\nKamal\t-717\t11272\t1213\nPamekasan\t-716\t11347\t1213\nBojonegoro\t-715\t11188\t1213\nGresik\t-715\t11266\t1213\nLamongan\t-712\t11242\t1213\nBabat\t-711\t11216\t1213\nBangkalan\t-705\t11274\t1213\nKalianget\t-705\t11394\t1213\nSumenep\t-702\t11387\t1213\nTuban\t-690\t11206\t1213\nPaciran\t-688\t11238\t1213\nBalikpapan\t-127\t11683\t1214\nCity of Balikpapan\t-124\t11689\t1214\nLoa Janan\t-58\t11710\t1214\nSamarinda\t-49\t11715\t1214\nBontang\t13\t11749\t1214\nKupang\t-1017\t12361\t1215\nSoe\t-986\t12428\t1215\nWaingapu\t-966\t12026\t1215\nKefamenanu\t-945\t12448\t1215\nAtambua\t-911\t12489\t1215\nEnde\t-884\t12166\t1215\nMaumere\t-862\t12221\t1215\nRuteng\t-861\t12046\t1215\nLabuan Bajo\t-850\t11989\t1215\nGorontalo\t54\t12306\t1216\nJakarta\t-621\t10685\t1217\nSungai Penuh\t-206\t10139\t1218\nJambi City\t-160\t10362\t1218\nSimpang\t-126\t10410\t1218\nMendaha\t-102\t10359\t1218\nKuala Tungkal\t-82\t10346\t1218\nBandar Lampung\t-543\t10526\t1219\nMetro\t-511\t10531\t1219\nTerbanggi Besar\t-488\t10522\t1219\nKotabumi\t-483\t10488\t1219\nTual\t-563\t13275\t1220\nAmbon\t-370\t12818\t1220\nAmahai\t-334\t12892\t1220\nTanjung Selor\t284\t11737\t1221\nTarakan\t331\t11759\t1221\nSofifi\t74\t12756\t1222\nTernate\t79\t12738\t1222\nTondano\t131\t12491\t1223\nTomohon\t132\t12480\t1223\nManado\t148\t12485\t1223\nPadangsidempuan\t138\t9927\t1224\nSibolga\t174\t9878\t1224\nBandar\t205\t9975\t1224\nRantauprapat\t210\t9983\t1224\nTongging\t290\t9852\t1224\nPematangsiantar\t296\t9907\t1224\nTanjungbalai\t297\t9980\t1224\nKisaran\t298\t9962\t1224\nTeluk Nibung\t300\t9982\t1224\nKabanjahe\t310\t9849\t1224\nPekan Bahapal\t311\t9917\t1224\nBerastagi\t319\t9851\t1224\nTebingtinggi\t333\t9916\t1224\nDeli Tua\t351\t9868\t1224\nPerbaungan\t357\t9896\t1224\nSunggal\t358\t9862\t1224\nMedan\t358\t9867\t1224\nBinjai\t360\t9849\t1224\nPercut\t363\t9886\t1224\nStabat\t373\t9845\t1224\nLabuhan Deli\t373\t9867\t1224\nBelawan\t378\t9868\t1224\nPangkalan Brandan\t402\t9828\t1224\nTanjungtiram\t406\t9837\t1224\nNabire\t-336\t13550\t1225\nAbepura\t-260\t14063\t1225\nJayapura\t-253\t14072\t1225\nPekanbaru\t52\t10144\t1226\nBalaipungut\t106\t10129\t1226\nBatam\t115\t10402\t1226\nDumai\t167\t10144\t1226\nKijang\t90\t10463\t1227\nTanjung Pinang\t92\t10446\t1227\nMartapura\t-341\t11486\t1228\nBanjarmasin\t-332\t11459\t1228\nBarabai\t-258\t11538\t1228\nAmuntai\t-242\t11525\t1228\nGalesong\t-532\t11937\t1229\nMakassar\t-515\t11943\t1229\nSinjai\t-512\t12025\t1229\nMaros\t-501\t11957\t1229\nWatampone\t-454\t12033\t1229\nSengkang\t-413\t12003\t1229\nParepare\t-401\t11963\t1229\nPalopo\t-299\t12020\t1229\nRantepao\t-297\t11990\t1229\nBaturaja\t-413\t10417\t1230\nPagar Alam\t-403\t10325\t1230\nTanjungagung\t-394\t10380\t1230\nLahat\t-379\t10354\t1230\nPrabumulih\t-343\t10423\t1230\nLubuklinggau\t-329\t10286\t1230\nPalembang\t-292\t10475\t1230\nKatabu\t-493\t12252\t1231\nKendari\t-398\t12252\t1231\nNgawi\t-740\t11145\t1232\nKawalu\t-738\t10821\t1232\nSingaparna\t-735\t10811\t1232\nTasikmalaya\t-733\t10822\t1232\nCiamis\t-733\t10835\t1232\nRajapolah\t-722\t10819\t1232\nBanjar\t-720\t10743\t1232\nWanaraja\t-717\t10798\t1232\nPaseh\t-710\t10776\t1232\nBanjaran\t-705\t10759\t1232\nSoreang\t-703\t10752\t1232\nPameungpeuk\t-702\t10760\t1232\nPelabuhanratu\t-699\t10655\t1232\nKuningan\t-698\t10848\t1232\nMargahayukencana\t-697\t10757\t1232\nCileunyi\t-694\t10775\t1232\nSukabumi\t-692\t10693\t1232\nBandung\t-692\t10761\t1232\nCimahi\t-687\t10754\t1232\nSumedang\t-686\t10792\t1232\nKarangsembung\t-685\t10864\t1232\nPadalarang\t-684\t10747\t1232\nMajalengka\t-684\t10823\t1232\nCiranjang-hilir\t-682\t10726\t1232\nLembang\t-681\t10762\t1232\nAstanajapura\t-680\t10863\t1232\nCicurug\t-678\t10678\t1232\nSumber\t-676\t10848\t1232\nJatiwangi\t-673\t10826\t1232\nCaringin\t-671\t10682\t1232\nPalimanan\t-671\t10842\t1232\nKlangenan\t-671\t10844\t1232\nWeru\t-671\t10850\t1232\nCirebon\t-671\t10856\t1232\nPlumbon\t-670\t10847\t1232\nArjawinangun\t-665\t10841\t1232\nBogor\t-659\t10679\t1232\nPurwakarta\t-656\t10744\t1232\nCiampea\t-655\t10670\t1232\nCiteureup\t-649\t10688\t1232\nCibinong\t-648\t10685\t1232\nJatibarang\t-647\t10832\t1232\nKarangampel\t-646\t10845\t1232\nParung\t-642\t10673\t1232\nCikampek\t-642\t10746\t1232\nSawangan\t-640\t10677\t1232\nDepok\t-640\t10682\t1232\nCileungsir\t-639\t10696\t1232\nPamulang\t-634\t10674\t1232\nIndramayu\t-633\t10832\t1232\nSerpong\t-632\t10666\t1232\nPamanukan\t-628\t10781\t1232\nCikarang\t-626\t10715\t1232\nCikupa\t-624\t10651\t1232\nCiputat\t-624\t10670\t1232\nBekasi\t-623\t10699\t1232\nPasarkemis\t-617\t10653\t1232\nRengasdengklok\t-616\t10730\t1232\nKresek\t-613\t10638\t1232\nSepatan\t-612\t10658\t1232\nTeluknaga\t-610\t10664\t1232\nManismata\t-247\t11103\t1233\nPontianak\t-3\t10933\t1233\nSungai Raya\t70\t10890\t1233\nSingkawang\t91\t10898\t1233\nPemangkat\t117\t10897\t1233\nPraya\t-871\t11627\t1234\nMataram\t-858\t11612\t1234\nDompu\t-854\t11846\t1234\nSumbawa Besar\t-849\t11742\t1234\nBima\t-846\t11873\t1234\nSorong\t-88\t13126\t1235\nManokwari\t-86\t13406\t1235\nMajene\t-354\t11897\t1236\nPolewali\t-343\t11934\t1236\nMamuju\t-268\t11889\t1236\nPadang\t-95\t10035\t1237\nSolok\t-80\t10066\t1237\nSijunjung\t-70\t10098\t1237\nPariaman\t-62\t10012\t1237\nBukittinggi\t-31\t10037\t1237\nPayakumbuh\t-22\t10063\t1237\nBambanglipuro\t-795\t11028\t1238\nPundong\t-795\t11035\t1238\nSrandakan\t-794\t11025\t1238\nPandak\t-791\t11029\t1238\nBantul\t-789\t11033\t1238\nSewon\t-788\t11036\t1238\nKasihan\t-783\t11033\t1238\nGamping Lor\t-780\t11033\t1238\nYogyakarta\t-780\t11036\t1238\nGodean\t-777\t11029\t1238\nDepok\t-776\t11043\t1238\nMelati\t-773\t11037\t1238\nSleman\t-772\t11036\t1238\nGaillimh\t5327\t-905\t1239\nSligo\t5427\t-847\t1239\nLoch Garman\t5233\t-646\t1240\nKilkenny\t5265\t-725\t1240\nCarlow\t5284\t-693\t1240\nDroichead Nua\t5318\t-680\t1240\nBray\t5320\t-610\t1240\nNaas\t5322\t-667\t1240\nSandyford\t5327\t-623\t1240\nTallaght\t5329\t-637\t1240\nDún Laoghaire\t5329\t-614\t1240\nDublin\t5333\t-625\t1240\nCelbridge\t5334\t-654\t1240\nLucan\t5336\t-645\t1240\nLeixlip\t5337\t-650\t1240\nBlanchardstown\t5339\t-638\t1240\nFinglas\t5339\t-630\t1240\nAthlone\t5342\t-794\t1240\nMalahide\t5345\t-615\t1240\nSwords\t5346\t-622\t1240\nAn Muileann gCearr\t5352\t-734\t1240\nBalbriggan\t5361\t-618\t1240\nNavan\t5365\t-668\t1240\nDrogheda\t5372\t-635\t1240\nDundalk\t5400\t-642\t1240\nCork\t5190\t-847\t1241\nWaterford\t5226\t-711\t1241\nTralee\t5227\t-970\t1241\nCluain Meala\t5236\t-770\t1241\nLuimneach\t5266\t-862\t1241\nEnnis\t5284\t-899\t1241\nNenagh\t5286\t-820\t1241\nMonaghan\t5425\t-697\t1242\nLetterkenny\t5495\t-773\t1242\nGan Yavne\t3179\t3471\t1243\nGedera\t3181\t3478\t1243\nYavné\t3188\t3474\t1243\nReẖovot\t3189\t3481\t1243\nModi‘in Makkabbim Re‘ut\t3189\t3502\t1243\nNess Ziona\t3193\t3480\t1243\nRamla\t3193\t3487\t1243\nLod\t3195\t3489\t1243\nRishon LeẔiyyon\t3197\t3479\t1243\nShoham\t3200\t3495\t1243\nYehud\t3203\t3489\t1243\nGanei Tikva\t3206\t3487\t1243\nPetaẖ Tiqwa\t3209\t3489\t1243\nRosh Ha‘Ayin\t3210\t3496\t1243\nKafr Qāsim\t3211\t3498\t1243\nHod HaSharon\t3216\t3489\t1243\nKfar Saba\t3217\t3491\t1243\nRa'anana\t3218\t3487\t1243\nTirah\t3223\t3495\t1243\nEven Yehuda\t3227\t3489\t1243\nEṭ Ṭaiyiba\t3227\t3501\t1243\nQalansuwa\t3228\t3498\t1243\nKefar Yona\t3232\t3494\t1243\nNetanya\t3233\t3486\t1243\nHadera\t3244\t3490\t1244\nUmm el Faḥm\t3252\t3515\t1244\nDaliyat al Karmel\t3269\t3505\t1244\nTirat Karmel\t3276\t3497\t1244\nNesher\t3277\t3504\t1244\nQiryat Ata\t3281\t3511\t1244\nHaifa\t3282\t3499\t1244\nQiryat Bialik\t3283\t3509\t1244\nQiryat Moẕqin\t3284\t3508\t1244\nQiryat Yam\t3285\t3507\t1244\nBet Shemesh\t3173\t3499\t1245\nJerusalem\t3177\t3522\t1245\nMevasseret Ẕiyyon\t3180\t3515\t1245\nModiin Ilit\t3193\t3504\t1245\nAriel\t3211\t3518\t1246\nBet She’an\t3250\t3550\t1247\nAfula\t3261\t3529\t1247\nMigdal Ha‘Emeq\t3268\t3524\t1247\nNazareth\t3270\t3530\t1247\nNof HaGalil\t3271\t3532\t1247\nEr Reina\t3272\t3532\t1247\nKafr Kannā\t3275\t3534\t1247\nTiberias\t3279\t3553\t1247\nKafr Mandā\t3281\t3526\t1247\nTamra\t3285\t3520\t1247\nSakhnīn\t3286\t3530\t1247\nMaghār\t3289\t3541\t1247\nKarmi’el\t3292\t3531\t1247\nAcre\t3293\t3508\t1247\nJudeida Makr\t3293\t3516\t1247\nSafed\t3296\t3550\t1247\nNahariyya\t3301\t3510\t1247\nmaalot Tarshīhā\t3302\t3527\t1247\nQiryat Shemona\t3321\t3557\t1247\nEilat\t2956\t3495\t1248\nDimona\t3107\t3503\t1248\nBeersheba\t3125\t3479\t1248\nArad\t3126\t3521\t1248\nOfaqim\t3131\t3462\t1248\nRahat\t3140\t3476\t1248\nNetivot\t3142\t3459\t1248\nSederot\t3153\t3460\t1248\nKiryat Gat\t3161\t3476\t1248\nAshkelon\t3167\t3457\t1248\nAshdod\t3179\t3465\t1248\nH̱olon\t3201\t3478\t1249\nBat Yam\t3202\t3475\t1249\nAzor\t3202\t3481\t1249\nOr Yehuda\t3203\t3486\t1249\nYehud-Monosson\t3203\t3488\t1249\nGivatayim\t3207\t3481\t1249\nTel Aviv\t3208\t3478\t1249\nRamat Gan\t3208\t3481\t1249\nBnei Brak\t3208\t3483\t1249\nGiv'at Shmuel\t3208\t3485\t1249\nRamat HaSharon\t3215\t3484\t1249\nHerzliya\t3217\t3483\t1249\nAndreas\t5437\t-443\t1250\nBallabeg\t5410\t-468\t1251\nBallaugh\t5431\t-454\t1252\nKirk Braddan\t5417\t-452\t1253\nBride\t5438\t-439\t1254\nCastletown\t5407\t-465\t1255\nDouglas\t5415\t-448\t1256\nJurby\t5436\t-452\t1257\nLaxey\t5423\t-440\t1258\nLezayre\t5432\t-442\t1259\nBallasalla\t5410\t-463\t1260\nCrosby\t5418\t-457\t1261\nMaughold\t5430\t-432\t1262\nKirkmichael\t5429\t-459\t1263\nOnchan\t5417\t-445\t1264\nPatrick\t5420\t-469\t1265\nPeel\t5422\t-469\t1266\nPort Erin\t5408\t-475\t1267\nPort Saint Mary\t5407\t-474\t1268\nRamsey\t5432\t-439\t1269\nSanton\t5412\t-458\t1270\nSilvassa\t2027\t7300\t1271\nĀmli\t2028\t7302\t1271\nDaman\t2041\t7283\t1271\nDiu\t2071\t7098\t1271\nPort Blair\t1167\t9275\t1272\nKuppam\t1275\t7834\t1273\nRāmāpuram\t1310\t7918\t1273\nPalmaner\t1320\t7875\t1273\nNagari\t1332\t7959\t1273\nPunganūru\t1337\t7857\t1273\nPuttūr\t1344\t7955\t1273\nPākāla\t1345\t7911\t1273\nMadanapalle\t1355\t7850\t1273\nTirupati\t1364\t7942\t1273\nAkkarampalle\t1365\t7942\t1273\nRenigunta\t1365\t7951\t1273\nTirumala\t1368\t7935\t1273\nSūlūru\t1370\t8002\t1273\nHindupur\t1383\t7749\t1273\nNāyudupet\t1391\t7989\t1273\nVenkatagiri\t1396\t7958\t1273\nGorantla\t1398\t7777\t1273\nRāyachoti\t1406\t7875\t1273\nPenukonda\t1408\t7759\t1273\nKadiri\t1411\t7816\t1273\nGūdūr\t1415\t7985\t1273\nRāzampeta\t1420\t7916\t1273\nVadlapūdi\t1431\t7980\t1273\nDharmavaram\t1441\t7772\t1273\nPulivendla\t1442\t7823\t1273\nNellore\t1445\t7999\t1273\nCuddapah\t1448\t7882\t1273\nChinnachowk\t1448\t7884\t1273\nKovūr\t1450\t7999\t1273\nKalyandurg\t1455\t7711\t1273\nErraguntla\t1464\t7854\t1273\nAnantapur\t1468\t7761\t1273\nRāyadrug\t1470\t7685\t1273\nProddatūr\t1475\t7855\t1273\nBadvel\t1475\t7906\t1273\nJammalamadugu\t1485\t7838\t1273\nTādpatri\t1491\t7801\t1273\nKāvali\t1492\t7999\t1273\nUravakonda\t1494\t7725\t1273\nGuntakal Junction\t1517\t7736\t1273\nKandukūr\t1522\t7990\t1273\nSingarāyakonda\t1523\t8003\t1273\nBanganapalle\t1532\t7823\t1273\nGiddalūr\t1537\t7893\t1273\nDhone\t1540\t7787\t1273\nKanigiri\t1541\t7951\t1273\nBetamcherla\t1545\t7815\t1273\nNandyāl\t1548\t7848\t1273\nOngole\t1550\t8004\t1273\nCumbum\t1558\t7911\t1273\nĀdoni\t1563\t7727\t1273\nMārkāpur\t1574\t7927\t1273\nEmmiganūr\t1577\t7748\t1273\nDarsi\t1577\t7968\t1273\nVetapālem\t1579\t8031\t1273\nAddanki\t1581\t7997\t1273\nChīrāla\t1582\t8035\t1273\nKurnool\t1583\t7804\t1273\nKosigi\t1586\t7724\t1273\nNandikotkūr\t1586\t7827\t1273\nAtmakūr\t1588\t7859\t1273\nChemmumiahpet\t1590\t7932\t1273\nBāpatla\t1590\t8047\t1273\nRepalle\t1602\t8083\t1273\nAvanigadda\t1602\t8092\t1273\nVinukonda\t1605\t7974\t1273\nSrīsailain\t1607\t7887\t1273\nPonnūru\t1607\t8055\t1273\nPonnur\t1607\t8055\t1273\nChilakalūrupet\t1609\t8017\t1273\nBhattiprolu\t1610\t8078\t1273\nChallapalle\t1612\t8093\t1273\nMachilīpatnam\t1619\t8114\t1273\nNarasaraopet\t1623\t8005\t1273\nPedana\t1626\t8114\t1273\nPhirangipuram\t1629\t8026\t1273\nKanuru\t1629\t8125\t1273\nGuntur\t1630\t8046\t1273\nVuyyūru\t1636\t8084\t1273\nSattenapalle\t1639\t8015\t1273\nMangalagiri\t1643\t8057\t1273\nNarasapur\t1643\t8170\t1273\nGudivāda\t1644\t8100\t1273\nMācherla\t1648\t7944\t1273\nTādepalle\t1648\t8060\t1273\nYanamalakuduru\t1649\t8067\t1273\nVijayawada\t1651\t8065\t1273\nPālakollu\t1652\t8173\t1273\nGannavaram\t1654\t8080\t1273\nBhīmavaram\t1654\t8152\t1273\nKaikalūr\t1655\t8121\t1273\nAkivīdu\t1658\t8138\t1273\nAmalāpuram\t1658\t8201\t1273\nKondapalle\t1662\t8054\t1273\nPenugonda\t1665\t8175\t1273\nAttili\t1670\t8160\t1273\nEllore\t1671\t8110\t1273\nYanam\t1673\t8221\t1273\nTanuku\t1675\t8168\t1273\nNandigāma\t1677\t8029\t1273\nNūzvīd\t1679\t8085\t1273\nTādepallegūdem\t1681\t8153\t1273\nRāmachandrapuram\t1684\t8203\t1273\nMandapeta\t1686\t8193\t1273\nJaggayyapeta\t1689\t8010\t1273\nNidadavole\t1691\t8167\t1273\nRamanayyapeta\t1695\t8224\t1273\nKākināda\t1696\t8224\t1273\nRājahmundry\t1701\t8178\t1273\nKovvūr\t1702\t8173\t1273\nSāmalkot\t1706\t8218\t1273\nPeddāpuram\t1708\t8214\t1273\nPithāpuram\t1712\t8225\t1273\nPolavaram\t1725\t8164\t1273\nGokavaram\t1726\t8185\t1273\nTuni\t1736\t8255\t1273\nRampachodavaram\t1744\t8178\t1273\nElamanchili\t1755\t8286\t1273\nNarsīpatnam\t1767\t8261\t1273\nVisakhapatnam\t1768\t8320\t1273\nAnakāpalle\t1769\t8300\t1273\nGajuwaka\t1770\t8322\t1273\nVepagunta\t1778\t8322\t1273\nChodavaram\t1783\t8294\t1273\nBhīmunipatnam\t1789\t8345\t1273\nVizianagaram\t1812\t8341\t1273\nSrikakulam\t1830\t8390\t1273\nChīpurupalle\t1831\t8357\t1273\nAmudālavalasa\t1841\t8390\t1273\nNarasannapeta\t1841\t8404\t1273\nRāzām\t1845\t8366\t1273\nSālūr\t1852\t8321\t1273\nBobbili\t1857\t8336\t1273\nPālkonda\t1860\t8376\t1273\nTekkali\t1861\t8424\t1273\nPalāsa\t1877\t8441\t1273\nPārvatipuram\t1878\t8343\t1273\nParlākimidi\t1878\t8409\t1273\nSompeta\t1894\t8458\t1273\nIchchāpuram\t1911\t8469\t1273\nItānagar\t2709\t9361\t1274\nNaharlagun\t2710\t9370\t1274\nMargherita\t2728\t9567\t1274\nPāsighāt\t2807\t9533\t1274\nAlong\t2817\t9480\t1274\nHailākāndi\t2468\t9256\t1275\nSilchar\t2483\t9280\t1275\nKarīmganj\t2487\t9236\t1275\nHāflong\t2516\t9302\t1275\nLumding Railway Colony\t2575\t9317\t1275\nDiphu\t2584\t9343\t1275\nHojāi\t2600\t9286\t1275\nDhuburi\t2602\t8999\t1275\nBokajān\t2602\t9378\t1275\nGauripur\t2608\t8996\t1275\nDispur\t2614\t9180\t1275\nGoālpāra\t2618\t9063\t1275\nGuwahati\t2618\t9175\t1275\nNorth Guwāhāti\t2620\t9172\t1275\nBilāsipāra\t2623\t9023\t1275\nHājo\t2625\t9153\t1275\nMorigaon\t2625\t9235\t1275\nChāpar\t2627\t9045\t1275\nAbhayāpuri\t2632\t9069\t1275\nBarpeta\t2632\t9101\t1275\nKokrajhar\t2640\t9027\t1275\nHowli\t2642\t9098\t1275\nMangaldai\t2644\t9203\t1275\nRangia\t2645\t9161\t1275\nDhing\t2647\t9247\t1275\nBongaigaon\t2648\t9056\t1275\nBarpeta Road\t2650\t9097\t1275\nGolāghāt\t2651\t9396\t1275\nKhārupatia\t2652\t9215\t1275\nTezpur\t2663\t9280\t1275\nMariāni\t2666\t9432\t1275\nDhekiajuli\t2670\t9248\t1275\nUdalguri\t2675\t9210\t1275\nJorhāt\t2676\t9420\t1275\nRangāpāra\t2684\t9267\t1275\nSibsāgar\t2698\t9464\t1275\nSonāri\t2702\t9502\t1275\nNāmrup\t2719\t9532\t1275\nNorth Lakhimpur\t2724\t9410\t1275\nNahorkatiya\t2729\t9534\t1275\nDuliāgaon\t2737\t9531\t1275\nDigboi\t2739\t9562\t1275\nDibrugarh\t2748\t9491\t1275\nTinsukia\t2749\t9536\t1275\nMākum\t2749\t9544\t1275\nDum Duma\t2757\t9556\t1275\nSilapathar\t2759\t9472\t1275\nBagaha\t2453\t8506\t1276\nSherghāti\t2456\t8479\t1276\nNabīnagar\t2461\t8413\t1276\nBuddh Gaya\t2470\t8499\t1276\nAurangābād\t2475\t8437\t1276\nJhā-Jhā\t2477\t8638\t1276\nGaya\t2480\t8500\t1276\nRafiganj\t2482\t8463\t1276\nHisuā\t2483\t8542\t1276\nBānka\t2488\t8692\t1276\nNawāda\t2489\t8554\t1276\nDehri\t2490\t8418\t1276\nJamūī\t2493\t8623\t1276\nTekāri\t2494\t8484\t1276\nWāris Alīganj\t2502\t8564\t1276\nDaudnagar\t2503\t8440\t1276\nRājgīr\t2503\t8542\t1276\nBhabhua\t2504\t8361\t1276\nAmarpur\t2504\t8690\t1276\nNāsriganj\t2505\t8433\t1276\nSilao\t2508\t8543\t1276\nKharagpur\t2512\t8656\t1276\nIslāmpur\t2514\t8521\t1276\nSheikhpura\t2514\t8584\t1276\nLuckeesarai\t2518\t8609\t1276\nBihār Sharīf\t2520\t8552\t1276\nBikramganj\t2521\t8426\t1276\nJahānābād\t2521\t8499\t1276\nBar Bigha\t2522\t8573\t1276\nBhāgalpur\t2524\t8697\t1276\nColgong\t2526\t8723\t1276\nBarhiya\t2529\t8602\t1276\nJamālpur\t2531\t8649\t1276\nHilsa\t2532\t8528\t1276\nKoāth\t2533\t8426\t1276\nPiro\t2533\t8440\t1276\nManihāri\t2534\t8762\t1276\nMasaurhi Buzurg\t2535\t8503\t1276\nMonghyr\t2537\t8647\t1276\nNaugachhia\t2539\t8710\t1276\nMokameh\t2540\t8592\t1276\nBegusarai\t2542\t8613\t1276\nBakhtiyārpur\t2546\t8553\t1276\nJagdīspur\t2547\t8442\t1276\nBārh\t2548\t8571\t1276\nBāruni\t2548\t8597\t1276\nTeghra\t2549\t8594\t1276\nKhagaria\t2550\t8647\t1276\nFatwa\t2551\t8531\t1276\nKatihar\t2554\t8757\t1276\nDumraon\t2555\t8415\t1276\nArrah\t2556\t8466\t1276\nBuxar\t2558\t8398\t1276\nKoelwār\t2558\t8480\t1276\nKhagaul\t2558\t8505\t1276\nPatna\t2559\t8514\t1276\nShāhpur\t2560\t8440\t1276\nDinapore\t2564\t8505\t1276\nManer\t2565\t8487\t1276\nDalsingh Sarai\t2567\t8584\t1276\nHājīpur\t2569\t8521\t1276\nBihārīganj\t2573\t8699\t1276\nDighwāra\t2574\t8501\t1276\nRusera\t2575\t8603\t1276\nChāpra\t2578\t8475\t1276\nPurnia\t2578\t8747\t1276\nRevelganj\t2579\t8464\t1276\nSamāstipur\t2586\t8578\t1276\nKasba\t2586\t8754\t1276\nLālganj\t2587\t8517\t1276\nBangaon\t2587\t8651\t1276\nSaharsa\t2587\t8660\t1276\nBanmankhi\t2589\t8719\t1276\nMurlīganj\t2590\t8700\t1276\nMadhipura\t2592\t8679\t1276\nMarhaura\t2597\t8487\t1276\nKishanganj\t2610\t8796\t1276\nMahārājgani\t2611\t8450\t1276\nMuzaffarpur\t2612\t8539\t1276\nSupaul\t2612\t8660\t1276\nDarbhanga\t2615\t8590\t1276\nArāria\t2615\t8751\t1276\nSiwān\t2622\t8436\t1276\nChhātāpur\t2622\t8700\t1276\nMairwa\t2623\t8416\t1276\nJhanjhārpur\t2626\t8628\t1276\nBahādurganj\t2626\t8782\t1276\nForbesganj\t2630\t8727\t1276\nNirmāli\t2631\t8659\t1276\nShahbazpur\t2631\t8729\t1276\nMadhubani\t2635\t8607\t1276\nBarauli\t2638\t8459\t1276\nJogbani\t2640\t8727\t1276\nChākia\t2642\t8505\t1276\nThākurganj\t2643\t8813\t1276\nBelsand\t2644\t8540\t1276\nBhawanipur\t2645\t8703\t1276\nGopālganj\t2647\t8444\t1276\nPupri\t2647\t8570\t1276\nSheohar\t2651\t8529\t1276\nBīrpur\t2651\t8701\t1276\nDumra\t2657\t8552\t1276\nSītāmarhi\t2659\t8549\t1276\nJaynagar\t2659\t8614\t1276\nMothīhāri\t2665\t8492\t1276\nDhāka\t2667\t8517\t1276\nBairāgnia\t2674\t8527\t1276\nSagauli\t2676\t8474\t1276\nBettiah\t2680\t8450\t1276\nRaxaul\t2698\t8485\t1276\nBagaha\t2710\t8409\t1276\nRāmnagar\t2716\t8432\t1276\nChandigarh\t3074\t7679\t1277\nKirandul\t1864\t8126\t1278\nJagdalpur\t1908\t8202\t1278\nKotapārh\t1914\t8233\t1278\nKondagaon\t1959\t8166\t1278\nUmarkot\t1967\t8221\t1278\nJūnāgarh\t1986\t8293\t1278\nKānker\t2027\t8149\t1278\nDhamtari\t2071\t8155\t1278\nBalod\t2073\t8121\t1278\nBhānpurī\t2109\t8093\t1278\nRāj-Nāndgaon\t2110\t8103\t1278\nMahāsamund\t2111\t8209\t1278\nDongargarh\t2119\t8075\t1278\nDurg\t2119\t8128\t1278\nArang\t2120\t8197\t1278\nBhilai\t2121\t8143\t1278\nRaipur\t2123\t8163\t1278\nKumhāri\t2127\t8152\t1278\nSaraipali\t2132\t8301\t1278\nKhairāgarh\t2142\t8098\t1278\nBaloda Bāzār\t2166\t8216\t1278\nBemetāra\t2172\t8153\t1278\nBhātāpāra\t2174\t8195\t1278\nRaigarh\t2190\t8340\t1278\nKharsia\t2199\t8310\t1278\nKawardha\t2201\t8123\t1278\nJānjgīr\t2201\t8258\t1278\nAkaltara\t2202\t8243\t1278\nSaktī\t2203\t8296\t1278\nChāmpa\t2204\t8264\t1278\nMungeli\t2207\t8169\t1278\nBilāspur\t2208\t8216\t1278\nTakhatpur\t2213\t8187\t1278\nRatanpur\t2229\t8217\t1278\nKotā\t2230\t8202\t1278\nKorba\t2235\t8270\t1278\nKatghora\t2250\t8254\t1278\nPathalgaon\t2256\t8346\t1278\nPasān\t2284\t8220\t1278\nJashpurnagar\t2289\t8414\t1278\nAmbikāpur\t2312\t8320\t1278\nKhairāgarh\t2694\t7782\t1278\nDeoli\t2850\t7723\t1279\nNajafgarh\t2861\t7698\t1279\nNew Delhi\t2864\t7722\t1279\nDelhi\t2865\t7723\t1279\nNāngloi Jāt\t2868\t7707\t1279\nBawāna\t2880\t7703\t1279\nAlīpur\t2880\t7713\t1279\nNarela\t2885\t7709\t1279\nCuncolim\t1518\t7399\t1280\nCurchorem\t1526\t7411\t1280\nMadgaon\t1528\t7396\t1280\nSancoale\t1538\t7390\t1280\nMormugao\t1539\t7381\t1280\nVasco da Gama\t1540\t7382\t1280\nPonda\t1540\t7402\t1280\nTaleigao\t1547\t7383\t1280\nPanaji\t1550\t7383\t1280\nCalangute\t1554\t7376\t1280\nMāpuca\t1559\t7381\t1280\nDicholi\t1559\t7395\t1280\nVapi\t2037\t7290\t1281\nPārdi\t2051\t7295\t1281\nDharampur\t2054\t7317\t1281\nValsād\t2061\t7293\t1281\nBilimora\t2077\t7296\t1281\nKodīnar\t2079\t7070\t1281\nGandevi\t2081\t7300\t1281\nUna\t2082\t7104\t1281\nAbrama\t2086\t7291\t1281\nVerāval\t2091\t7037\t1281\nNavsāri\t2094\t7292\t1281\nJalālpur\t2095\t7290\t1281\nRājula\t2104\t7144\t1281\nVyāra\t2111\t7339\t1281\nMāngrol\t2112\t7011\t1281\nBārdoli\t2112\t7311\t1281\nSongadh\t2117\t7356\t1281\nSūrat\t2120\t7283\t1281\nKadod\t2122\t7322\t1281\nAmroli\t2125\t7284\t1281\nMāndvi\t2126\t7330\t1281\nKāthor\t2129\t7294\t1281\nKeshod\t2130\t7025\t1281\nMendarda\t2132\t7044\t1281\nDhāri\t2133\t7103\t1281\nVīsāvadar\t2134\t7075\t1281\nSavarkundla\t2134\t7130\t1281\nKundla\t2134\t7131\t1281\nTalāja\t2135\t7204\t1281\nChalāla\t2141\t7117\t1281\nKosamba\t2146\t7296\t1281\nBāntva\t2149\t7008\t1281\nBagasra\t2149\t7096\t1281\nMānāvadar\t2150\t7014\t1281\nJūnāgadh\t2152\t7046\t1281\nPālitāna\t2153\t7182\t1281\nGariadhar\t2154\t7158\t1281\nAmreli\t2160\t7121\t1281\nKutiyāna\t2162\t6998\t1281\nAnkleshwar\t2163\t7299\t1281\nPorbandar\t2164\t6961\t1281\nRānāvāv\t2169\t6974\t1281\nDāmnagar\t2169\t7152\t1281\nBharūch\t2169\t7298\t1281\nSihor\t2171\t7196\t1281\nLāthi\t2172\t7139\t1281\nDhorāji\t2173\t7045\t1281\nUpleta\t2174\t7028\t1281\nJetpur\t2175\t7062\t1281\nBhavnagar\t2176\t7215\t1281\nBābra\t2185\t7131\t1281\nBhāyāvadar\t2186\t7025\t1281\nRājpīpla\t2187\t7350\t1281\nValabhīpur\t2189\t7188\t1281\nJodhpur\t2190\t7003\t1281\nBhānvad\t2193\t6978\t1281\nGondal\t2196\t7080\t1281\nGadhada\t2197\t7158\t1281\nAmod\t2199\t7287\t1281\nJasdan\t2204\t7121\t1281\nJambusar\t2205\t7280\t1281\nBotād\t2217\t7167\t1281\nDabhoi\t2218\t7343\t1281\nLālpur\t2219\t6996\t1281\nKhambhāliya\t2221\t6965\t1281\nKālāvad\t2221\t7038\t1281\nDwārka\t2224\t6897\t1281\nPadra\t2224\t7308\t1281\nRājkot\t2229\t7079\t1281\nVadodara\t2230\t7321\t1281\nChhota Udepur\t2230\t7402\t1281\nSalāya\t2231\t6960\t1281\nKhambhāt\t2232\t7262\t1281\nDhandhuka\t2238\t7199\t1281\nBorsad\t2241\t7290\t1281\nChotila\t2242\t7120\t1281\nSikka\t2243\t6984\t1281\nOkha\t2247\t6907\t1281\nJamnagar\t2247\t7007\t1281\nPetlād\t2248\t7280\t1281\nBedi\t2250\t7004\t1281\nHālol\t2250\t7347\t1281\nVallabh Vidyanagar\t2253\t7290\t1281\nSojītra\t2254\t7272\t1281\nKaramsad\t2254\t7290\t1281\nSāyla\t2255\t7148\t1281\nAnand\t2255\t7296\t1281\nDhrol\t2257\t7042\t1281\nThān\t2257\t7120\t1281\nLimbdi\t2257\t7181\t1281\nWānkāner\t2261\t7094\t1281\nKālol\t2261\t7346\t1281\nChaklāsi\t2265\t7294\t1281\nVasa\t2266\t7276\t1281\nNadiād\t2269\t7286\t1281\nVejalpur\t2269\t7356\t1281\nUmreth\t2270\t7312\t1281\nDevgadh Bāriya\t2271\t7391\t1281\nJodiya Bandar\t2272\t7028\t1281\nSurendranagar\t2273\t7165\t1281\nDholka\t2273\t7244\t1281\nKheda\t2275\t7269\t1281\nDākor\t2275\t7315\t1281\nGodhra\t2278\t7361\t1281\nThāsra\t2280\t7321\t1281\nMorbi\t2282\t7084\t1281\nMahemdāvād\t2282\t7276\t1281\nMahudha\t2282\t7294\t1281\nMāndvi\t2283\t6935\t1281\nDohad\t2283\t7426\t1281\nMundra\t2284\t6972\t1281\nMorwa\t2290\t7384\t1281\nSarkhej\t2298\t7250\t1281\nDhrāngadhra\t2299\t7147\t1281\nSānand\t2299\t7238\t1281\nHalvad\t2302\t7118\t1281\nKapadvanj\t2302\t7307\t1281\nKāndla\t2303\t7022\t1281\nAhmedabad\t2303\t7259\t1281\nGāndhīdhām\t2308\t7013\t1281\nAnjār\t2311\t7003\t1281\nLūnāvāda\t2313\t7361\t1281\nDahegām\t2317\t7282\t1281\nGandhinagar\t2322\t7268\t1281\nBhuj\t2325\t6967\t1281\nBhachāu\t2330\t7034\t1281\nKadi\t2330\t7233\t1281\nChhala\t2331\t7277\t1281\nMānsa\t2343\t7266\t1281\nModāsa\t2346\t7330\t1281\nVijāpur\t2356\t7275\t1281\nRāpar\t2357\t7065\t1281\nHimatnagar\t2360\t7297\t1281\nHārij\t2369\t7191\t1281\nVisnagar\t2370\t7255\t1281\nChānasma\t2371\t7211\t1281\nVadnagar\t2379\t7264\t1281\nUnjha\t2380\t7239\t1281\nRādhanpur\t2383\t7160\t1281\nPātan\t2385\t7213\t1281\nUn\t2389\t7177\t1281\nKherālu\t2389\t7262\t1281\nSiddhapur\t2392\t7237\t1281\nKhedbrahma\t2403\t7305\t1281\nPālanpur\t2417\t7244\t1281\nDīsa\t2426\t7218\t1281\nTharād\t2440\t7163\t1281\nDhanera\t2451\t7202\t1281\nFīrozpur Jhirka\t2779\t7694\t1282\nPūnāhāna\t2786\t7720\t1282\nHodal\t2789\t7737\t1282\nNārnaul\t2804\t7611\t1282\nPalwal\t2814\t7733\t1282\nRewāri\t2820\t7662\t1282\nDhāruhera\t2821\t7680\t1282\nTāoru\t2821\t7695\t1282\nSohna\t2825\t7707\t1282\nMahendragarh\t2827\t7615\t1282\nPataudi\t2833\t7678\t1282\nFaridabad\t2841\t7731\t1282\nGurgaon\t2846\t7703\t1282\nCharkhi Dādri\t2859\t7627\t1282\nJhajjar\t2861\t7666\t1282\nBahādurgarh\t2869\t7694\t1282\nBeri Khās\t2870\t7658\t1282\nBhiwāni\t2879\t7614\t1282\nKalānaur\t2883\t7640\t1282\nKharkhauda\t2888\t7691\t1282\nRohtak\t2889\t7659\t1282\nMaham\t2897\t7629\t1282\nSonīpat\t2899\t7702\t1282\nHānsi\t2910\t7596\t1282\nGohāna\t2914\t7670\t1282\nHisar\t2915\t7572\t1282\nNārnaund\t2922\t7614\t1282\nSamālkha\t2924\t7701\t1282\nJīnd\t2932\t7632\t1282\nBarwāla\t2937\t7591\t1282\nPānīpat\t2939\t7697\t1282\nSafidon\t2941\t7667\t1282\nEllenabad\t2945\t7466\t1282\nGorakhpur\t2945\t7567\t1282\nBara Uchāna\t2947\t7618\t1282\nRānia\t2952\t7484\t1282\nFatehābād\t2952\t7546\t1282\nĀsandh\t2952\t7661\t1282\nSirsa\t2953\t7503\t1282\nGharaunda\t2954\t7697\t1282\nNarwāna\t2960\t7612\t1282\nRatia\t2969\t7558\t1282\nKarnāl\t2969\t7698\t1282\nTohāna\t2971\t7590\t1282\nPūndri\t2976\t7656\t1282\nKaithal\t2980\t7640\t1282\nKālānwāli\t2984\t7497\t1282\nNīlokheri\t2984\t7693\t1282\nIndri\t2988\t7706\t1282\nDabwāli\t2995\t7474\t1282\nThānesar\t2997\t7683\t1282\nPehowa\t2998\t7658\t1282\nLādwa\t2999\t7705\t1282\nYamunānagar\t3013\t7728\t1282\nShāhābād\t3017\t7687\t1282\nJagādhri\t3017\t7730\t1282\nAmbāla\t3036\t7680\t1282\nNarāyangarh\t3048\t7713\t1282\nPanchkula\t3069\t7685\t1282\nPinjaur\t3080\t7692\t1282\nPāonta Sāhib\t3044\t7762\t1283\nNāhan\t3056\t7729\t1283\nKālka\t3084\t7694\t1283\nSolan\t3091\t7711\t1283\nBaddi\t3096\t7679\t1283\nShimla\t3110\t7717\t1283\nUna\t3146\t7627\t1283\nSundarnagar\t3154\t7691\t1283\nHamīrpur\t3168\t7653\t1283\nMandi\t3171\t7693\t1283\nKulu\t3196\t7711\t1283\nDharamsala\t3222\t7632\t1283\nChamba\t3256\t7613\t1283\nKathua\t3237\t7553\t1284\nSāmba\t3256\t7512\t1284\nJammu\t3274\t7487\t1284\nUdhampur\t3292\t7514\t1284\nDoda\t3315\t7555\t1284\nKishtwār\t3331\t7577\t1284\nRajaori\t3338\t7431\t1284\nKulgam\t3364\t7502\t1284\nAnantnag\t3373\t7515\t1284\nPūnch\t3377\t7409\t1284\nBijbehara\t3379\t7511\t1284\nPulwama\t3387\t7490\t1284\nSoyībug\t3408\t7471\t1284\nSrinagar\t3409\t7481\t1284\nBāramūla\t3421\t7434\t1284\nGāndarbal\t3423\t7477\t1284\nSopur\t3429\t7447\t1284\nBandipura\t3442\t7464\t1284\nNoāmundi\t2216\t8550\t1285\nMushābani\t2251\t8646\t1285\nChāībāsa\t2255\t8580\t1285\nGhātsīla\t2259\t8648\t1285\nSimdega\t2262\t8450\t1285\nGobindpur\t2263\t8607\t1285\nChakradharpur\t2268\t8563\t1285\nJamshedpur\t2280\t8619\t1285\nGumlā\t2304\t8454\t1285\nKhunti\t2308\t8528\t1285\nBūndu\t2316\t8559\t1285\nRanchi\t2334\t8531\t1285\nLohārdagā\t2343\t8468\t1285\nKānke\t2343\t8532\t1285\nBarkā Kānā\t2362\t8547\t1285\nRāmgarh\t2363\t8552\t1285\nChās\t2364\t8617\t1285\nPāthardih\t2367\t8643\t1285\nJāmadoba\t2372\t8640\t1285\nKuju\t2373\t8551\t1285\nLātehār\t2374\t8450\t1285\nJharia\t2374\t8641\t1285\nDugda\t2375\t8617\t1285\nSijua\t2378\t8633\t1285\nBokāro\t2379\t8596\t1285\nGumia\t2380\t8583\t1285\nKātrās\t2380\t8630\t1285\nDhanbād\t2380\t8644\t1285\nGomoh\t2387\t8615\t1285\nJāmtāra\t2396\t8680\t1285\nHazāribāgh\t2399\t8536\t1285\nDaltonganj\t2404\t8407\t1285\nGarhwa\t2416\t8381\t1285\nBarki Saria\t2418\t8589\t1285\nGīrīdīh\t2419\t8631\t1285\nChatrā\t2421\t8487\t1285\nMadhupur\t2427\t8664\t1285\nDumka\t2427\t8725\t1285\nJumri Tilaiyā\t2443\t8553\t1285\nKodarmā\t2447\t8559\t1285\nJasidih\t2451\t8665\t1285\nHusainābād\t2453\t8400\t1285\nPakur\t2464\t8784\t1285\nGodda\t2483\t8721\t1285\nSāhibganj\t2524\t8763\t1285\nGundlupēt\t1181\t7669\t1286\nChamrajnagar\t1192\t7694\t1286\nNanjangūd\t1212\t7668\t1286\nKollegāl\t1215\t7711\t1286\nVīrarājendrapet\t1220\t7581\t1286\nHunsūr\t1230\t7629\t1286\nMysore\t1230\t7664\t1286\nPiriyāpatna\t1233\t7610\t1286\nBannūr\t1233\t7686\t1286\nMalavalli\t1239\t7706\t1286\nShrīrangapattana\t1242\t7668\t1286\nMadikeri\t1243\t7574\t1286\nFrench Rocks\t1250\t7667\t1286\nMandya\t1252\t7690\t1286\nKānkānhalli\t1255\t7742\t1286\nSulya\t1256\t7539\t1286\nMaddūr\t1258\t7704\t1286\nChannapatna\t1265\t7721\t1286\nKrishnarājpet\t1267\t7649\t1286\nAnekal\t1271\t7770\t1286\nClosepet\t1272\t7728\t1286\nPuttūr\t1276\t7520\t1286\nArkalgūd\t1276\t7606\t1286\nHole Narsipur\t1279\t7624\t1286\nUllal\t1281\t7486\t1286\nNāgamangala\t1282\t7675\t1286\nBantvāl\t1289\t7503\t1286\nChannarāyapatna\t1291\t7639\t1286\nMangalore\t1292\t7486\t1286\nSakleshpur\t1294\t7578\t1286\nMāgadi\t1296\t7722\t1286\nRobertsonpet\t1296\t7828\t1286\nBengaluru\t1297\t7759\t1286\nBangarapet\t1299\t7818\t1286\nMālūr\t1300\t7794\t1286\nHassan\t1301\t7610\t1286\nKunigal\t1302\t7703\t1286\nMūdbidri\t1307\t7500\t1286\nHoskote\t1307\t7780\t1286\nMūlki\t1309\t7479\t1286\nNelamangala\t1310\t7739\t1286\nYelahanka\t1310\t7760\t1286\nKolār\t1314\t7813\t1286\nMulbāgal\t1316\t7839\t1286\nBelūr\t1317\t7587\t1286\nKārkala\t1321\t7499\t1286\nDevanhalli\t1325\t7771\t1286\nTiptūr\t1326\t7648\t1286\nDod Ballāpur\t1329\t7754\t1286\nVadigenhalli\t1330\t7780\t1286\nArsikere\t1331\t7626\t1286\nGubbi\t1331\t7694\t1286\nChikmagalūr\t1332\t7577\t1286\nUdupi\t1333\t7475\t1286\nTumkūr\t1334\t7710\t1286\nSrīnivāspur\t1334\t7821\t1286\nMalpe\t1335\t7470\t1286\nSidlaghatta\t1339\t7786\t1286\nChintāmani\t1340\t7805\t1286\nChiknāyakanhalli\t1342\t7662\t1286\nChik Ballāpur\t1344\t7773\t1286\nSomeshwar\t1349\t7507\t1286\nKadūr\t1355\t7601\t1286\nBirūr\t1360\t7597\t1286\nGoribidnūr\t1361\t7752\t1286\nCoondapoor\t1363\t7469\t1286\nGangolli\t1365\t7467\t1286\nMaddagiri\t1366\t7721\t1286\nTīrthahalli\t1369\t7525\t1286\nTarikere\t1371\t7581\t1286\nSīra\t1374\t7690\t1286\nBāgepalli\t1378\t7780\t1286\nHosdurga\t1380\t7628\t1286\nBhadrāvati\t1385\t7571\t1286\nByndoor\t1387\t7463\t1286\nShimoga\t1393\t7557\t1286\nHiriyūr\t1394\t7662\t1286\nBhatkal\t1399\t7456\t1286\nChannagiri\t1402\t7593\t1286\nHolalkere\t1404\t7618\t1286\nMurudeshwara\t1409\t7448\t1286\nPāvugada\t1410\t7728\t1286\nSāgar\t1416\t7503\t1286\nChitradurga\t1422\t7640\t1286\nHonnāli\t1424\t7565\t1286\nShikārpur\t1427\t7536\t1286\nHonāvar\t1428\t7444\t1286\nChallakere\t1432\t7665\t1286\nKumta\t1443\t7442\t1286\nHirekerūr\t1446\t7540\t1286\nDavangere\t1447\t7593\t1286\nHarihar\t1451\t7581\t1286\nJagalūr\t1452\t7634\t1286\nGokarna\t1455\t7432\t1286\nSirsi\t1462\t7484\t1286\nRānībennur\t1462\t7563\t1286\nByādgi\t1467\t7549\t1286\nHāngal\t1476\t7512\t1286\nHāveri\t1479\t7540\t1286\nHarpanahalli\t1479\t7599\t1286\nKarwar\t1481\t7413\t1286\nKottūru\t1482\t7622\t1286\nKūdligi\t1491\t7639\t1286\nYellāpur\t1496\t7471\t1286\nMundgod\t1497\t7504\t1286\nSavanūr\t1497\t7534\t1286\nShiggaon\t1499\t7522\t1286\nHadagalli\t1502\t7593\t1286\nSandūr\t1509\t7655\t1286\nLakshmeshwar\t1513\t7547\t1286\nBellary\t1514\t7692\t1286\nKalghatgi\t1518\t7497\t1286\nMundargi\t1521\t7588\t1286\nShirhatti\t1523\t7558\t1286\nKundgol\t1526\t7525\t1286\nDandeli\t1527\t7462\t1286\nHospet\t1527\t7639\t1286\nMulgund\t1528\t7552\t1286\nHaliyal\t1533\t7476\t1286\nHubli\t1535\t7513\t1286\nKoppal\t1535\t7615\t1286\nKampli\t1541\t7660\t1286\nGadag-Betageri\t1542\t7562\t1286\nAlnāvar\t1543\t7474\t1286\nAnnigeri\t1543\t7543\t1286\nGadag\t1543\t7563\t1286\nGangāwati\t1543\t7653\t1286\nTekkalakote\t1553\t7688\t1286\nNavalgund\t1556\t7535\t1286\nNaregal\t1557\t7581\t1286\nSiruguppa\t1563\t7689\t1286\nKhānāpur\t1564\t7451\t1286\nRon\t1570\t7573\t1286\nNargund\t1572\t7539\t1286\nGajendragarh\t1574\t7597\t1286\nKushtagi\t1576\t7619\t1286\nSaundatti\t1577\t7512\t1286\nSindhnūr\t1577\t7676\t1286\nBail-Hongal\t1581\t7486\t1286\nBelgaum\t1585\t7450\t1286\nBādāmi\t1591\t7568\t1286\nIlkal\t1596\t7611\t1286\nMānvi\t1599\t7705\t1286\nKerūr\t1601\t7555\t1286\nMudgal\t1601\t7644\t1286\nGuledagudda\t1605\t7579\t1286\nHungund\t1606\t7606\t1286\nLingsugūr\t1616\t7652\t1286\nGokak\t1617\t7482\t1286\nBagalkot\t1619\t7570\t1286\nKonnūr\t1620\t7475\t1286\nRāichūr\t1621\t7736\t1286\nHukeri\t1623\t7460\t1286\nSankeshwar\t1626\t7448\t1286\nMudhol\t1633\t7528\t1286\nMuddebihāl\t1634\t7613\t1286\nBilgi\t1635\t7562\t1286\nMahālingpur\t1639\t7511\t1286\nChikodi\t1643\t7459\t1286\nTālīkota\t1647\t7631\t1286\nRabkavi\t1648\t7511\t1286\nRāybāg\t1649\t7477\t1286\nTerdāl\t1649\t7505\t1286\nJamkhandi\t1650\t7529\t1286\nShorāpur\t1652\t7676\t1286\nSadalgi\t1656\t7453\t1286\nBasavana Bāgevādi\t1657\t7597\t1286\nKudachi\t1663\t7485\t1286\nShāhpur\t1670\t7684\t1286\nAthni\t1673\t7506\t1286\nYādgīr\t1677\t7714\t1286\nBijapur\t1682\t7572\t1286\nGurmatkāl\t1687\t7739\t1286\nSindgi\t1692\t7623\t1286\nJevargi\t1701\t7677\t1286\nWādi\t1705\t7699\t1286\nChītāpur\t1712\t7708\t1286\nShāhābād\t1713\t7694\t1286\nIndi\t1718\t7595\t1286\nSeram\t1718\t7729\t1286\nAfzalpur\t1720\t7636\t1286\nGulbarga\t1734\t7684\t1286\nChincholi\t1747\t7742\t1286\nAland\t1756\t7657\t1286\nHomnābād\t1777\t7713\t1286\nBasavakalyān\t1787\t7695\t1286\nBīdar\t1791\t7752\t1286\nBhālki\t1804\t7721\t1286\nAurād\t1825\t7742\t1286\nNeyyāttinkara\t840\t7709\t1287\nThiruvananthapuram\t849\t7695\t1287\nNedumangād\t860\t7700\t1287\nKadakkavoor\t868\t7677\t1287\nAttingal\t870\t7682\t1287\nVettūr\t872\t7673\t1287\nVarkala\t873\t7672\t1287\nParavūr Tekkumbhāgam\t879\t7667\t1287\nKollam\t888\t7658\t1287\nPonmana\t901\t7652\t1287\nPunalūr\t902\t7692\t1287\nAdūr\t916\t7673\t1287\nKāyankulam\t918\t7650\t1287\nKattanam\t918\t7656\t1287\nMāvelikara\t926\t7656\t1287\nPathanāmthitta\t927\t7678\t1287\nChengannūr\t932\t7662\t1287\nTiruvalla\t938\t7657\t1287\nChanganācheri\t944\t7654\t1287\nAlappuzha\t949\t7633\t1287\nKalavoor\t957\t7633\t1287\nKottayam\t959\t7652\t1287\nCherthala\t968\t7634\t1287\nShertallai\t969\t7634\t1287\nErāttupetta\t969\t7678\t1287\nVayalār\t971\t7634\t1287\nVaikam\t975\t7640\t1287\nKutiatodu\t980\t7633\t1287\nAroor\t987\t7630\t1287\nArukutti\t987\t7635\t1287\nPiravam\t987\t7650\t1287\nKumbalam\t991\t7631\t1287\nCochin\t994\t7626\t1287\nMuvattupuzha\t998\t7657\t1287\nMūvattupula\t998\t7658\t1287\nKotamangalam\t1006\t7663\t1287\nElūr\t1007\t7628\t1287\nMunnar\t1009\t7706\t1287\nAlwaye\t1011\t7635\t1287\nAluva\t1011\t7635\t1287\nPerumbavoor\t1011\t7647\t1287\nPerumpāvūr\t1012\t7648\t1287\nKuttampuzha\t1015\t7674\t1287\nAngamāli\t1019\t7639\t1287\nKodungallūr\t1023\t7620\t1287\nMarayur\t1028\t7716\t1287\nKizhake Chālakudi\t1030\t7634\t1287\nIrinjālakuda\t1034\t7621\t1287\nThrissur\t1052\t7622\t1287\nChetwayi\t1053\t7605\t1287\nGuruvāyūr\t1059\t7604\t1287\nKunnamkulam\t1065\t7607\t1287\nChittūr\t1070\t7675\t1287\nShōranūr\t1076\t7627\t1287\nPonnāni\t1077\t7593\t1287\nOttappālam\t1077\t7638\t1287\nPālghāt\t1077\t7665\t1287\nCherpulassery\t1088\t7631\t1287\nTirur\t1091\t7592\t1287\nMannārakkāt\t1099\t7646\t1287\nPariyāpuram\t1102\t7587\t1287\nMalappuram\t1104\t7608\t1287\nManjeri\t1112\t7612\t1287\nBeypore\t1117\t7581\t1287\nFerokh\t1118\t7584\t1287\nKozhikode\t1125\t7578\t1287\nMavoor\t1127\t7592\t1287\nKunnamangalam\t1130\t7588\t1287\nNaduvannūr\t1149\t7578\t1287\nIringal\t1156\t7562\t1287\nBadagara\t1160\t7558\t1287\nKalpatta\t1161\t7608\t1287\nNādāpuram\t1168\t7565\t1287\nAzhiyūr\t1169\t7556\t1287\nMahē\t1170\t7553\t1287\nTellicherry\t1175\t7549\t1287\nDharmadam\t1178\t7546\t1287\nMuluppilagadu\t1180\t7545\t1287\nKannur\t1187\t7536\t1287\nMattanur\t1193\t7557\t1287\nPāppinisshēri\t1196\t7534\t1287\nTalipparamba\t1204\t7536\t1287\nPayyannūr\t1209\t7520\t1287\nNīlēshwar\t1226\t7514\t1287\nKānnangād\t1231\t7511\t1287\nKāsaragod\t1250\t7499\t1287\nPadam\t3347\t7688\t1288\nLeh\t3417\t7758\t1288\nKargil\t3456\t7613\t1288\nKavaratti\t1057\t7264\t1289\nShāhpur\t2124\t7623\t1290\nBurhānpur\t2131\t7623\t1290\nNepānagar\t2145\t7639\t1290\nPāndhurnā\t2160\t7853\t1290\nBhainsdehi\t2164\t7763\t1290\nSausar\t2166\t7880\t1290\nSendhwa\t2169\t7510\t1290\nWārāseonī\t2176\t8004\t1290\nMultai\t2177\t7826\t1290\nKatangi\t2177\t7981\t1290\nKhargone\t2182\t7561\t1290\nKhandwa\t2182\t7635\t1290\nBālāghāt\t2182\t8019\t1290\nBhikangaon\t2187\t7596\t1290\nBetūl\t2190\t7790\t1290\nAmla\t2192\t7813\t1290\nRajpur\t2194\t7514\t1290\nBarwāni\t2203\t7490\t1290\nAnjad\t2204\t7506\t1290\nChhindwāra\t2206\t7894\t1290\nSeoni\t2209\t7955\t1290\nBaihar\t2210\t8055\t1290\nKasrāwad\t2213\t7561\t1290\nSanāwad\t2217\t7607\t1290\nKhirkiyān\t2217\t7686\t1290\nMaheshwar\t2218\t7559\t1290\nParāsia\t2219\t7876\t1290\nJāmai\t2220\t7859\t1290\nKukshi\t2221\t7476\t1290\nDhāmnod\t2221\t7547\t1290\nManāwar\t2224\t7509\t1290\nPunāsa\t2224\t7639\t1290\nRajpur\t2230\t7436\t1290\nHarda Khās\t2234\t7710\t1290\nNainpur\t2243\t8011\t1290\nSeoni Mālwa\t2245\t7747\t1290\nDhār\t2259\t7530\t1290\nPithampur\t2260\t7570\t1290\nKhātegaon\t2260\t7691\t1290\nLakhnādon\t2260\t7960\t1290\nMandlā\t2260\t8037\t1290\nItārsi\t2261\t7776\t1290\nKannod\t2267\t7674\t1290\nRājgarh\t2268\t7494\t1290\nNasrullāhganj\t2268\t7727\t1290\nBābai\t2270\t7793\t1290\nSohāgpur\t2270\t7820\t1290\nIndore\t2272\t7583\t1290\nHoshangābād\t2275\t7773\t1290\nJhābua\t2277\t7459\t1290\nDepālpur\t2285\t7554\t1290\nGādarwāra\t2292\t7878\t1290\nKareli\t2292\t7906\t1290\nDindori\t2294\t8108\t1290\nNarsimhapur\t2295\t7918\t1290\nDewas\t2297\t7606\t1290\nBargi\t2299\t7988\t1290\nBadnāwar\t2302\t7523\t1290\nAshta\t2302\t7672\t1290\nUdaipura\t2307\t7851\t1290\nMandideep\t2308\t7753\t1290\nAnūppur\t2310\t8169\t1290\nJabalpur\t2317\t7995\t1290\nUjjain\t2318\t7578\t1290\nSehore\t2320\t7708\t1290\nKotma\t2320\t8198\t1290\nBurhar\t2321\t8153\t1290\nBhopal\t2325\t7740\t1290\nMaksi\t2326\t7615\t1290\nPanāgar\t2329\t8000\t1290\nShahdol\t2329\t8136\t1290\nRatlām\t2333\t7504\t1290\nTarāna\t2333\t7604\t1290\nRaisen\t2333\t7778\t1290\nUnhel\t2334\t7556\t1290\nPāli\t2336\t8104\t1290\nKaimori\t2338\t7974\t1290\nDeori Khās\t2339\t7902\t1290\nShujālpur\t2341\t7671\t1290\nKhāchrod\t2342\t7528\t1290\nShājāpur\t2343\t7628\t1290\nKatangi\t2344\t7980\t1290\nNagda\t2346\t7542\t1290\nSihorā\t2349\t8010\t1290\nUmaria\t2352\t8084\t1290\nVidisha\t2353\t7781\t1290\nSārangpur\t2357\t7647\t1290\nBegamganj\t2360\t7834\t1290\nBerasia\t2363\t7743\t1290\nJaorā\t2364\t7513\t1290\nRehli\t2364\t7906\t1290\nAgar\t2371\t7602\t1290\nNarsinghgarh\t2371\t7709\t1290\nAlot\t2376\t7556\t1290\nGarhākota\t2378\t7914\t1290\nRāhatgarh\t2379\t7839\t1290\nDamoh\t2383\t7944\t1290\nSaugor\t2384\t7874\t1290\nMurwāra\t2384\t8039\t1290\nBāsoda\t2385\t7794\t1290\nPatharia\t2390\t7919\t1290\nHindoria\t2390\t7957\t1290\nBiaora\t2392\t7691\t1290\nRājgarh\t2401\t7673\t1290\nBeohāri\t2402\t8138\t1290\nKhilchipur\t2404\t7658\t1290\nKhurai\t2404\t7833\t1290\nBanda\t2404\t7896\t1290\nLeteri\t2406\t7741\t1290\nMandsaur\t2407\t7507\t1290\nSironj\t2410\t7769\t1290\nKorwai\t2412\t7804\t1290\nHatta\t2413\t7960\t1290\nEtāwa\t2418\t7820\t1290\nShāmgarh\t2419\t7564\t1290\nSingrauli\t2420\t8268\t1290\nMaihar\t2427\t8076\t1290\nAmarpātan\t2431\t8098\t1290\nKumbhrāj\t2437\t7705\t1290\nĀron\t2438\t7742\t1290\nSidhi\t2440\t8188\t1290\nMungaoli\t2441\t7810\t1290\nBhawāniganj\t2442\t7584\t1290\nRāghogarh\t2444\t7720\t1290\nRāmpura\t2447\t7544\t1290\nManāsa\t2448\t7514\t1290\nBhānpura\t2451\t7575\t1290\nRewa\t2453\t8129\t1290\nNāgod\t2457\t8059\t1290\nAshoknagar\t2458\t7773\t1290\nSatna\t2458\t8083\t1290\nJāwad\t2460\t7486\t1290\nBijāwar\t2462\t7949\t1290\nGuna\t2465\t7731\t1290\nMauganj\t2467\t8187\t1290\nChanderi\t2471\t7814\t1290\nPanna\t2472\t8019\t1290\nTīkamgarh\t2474\t7883\t1290\nKhajuraho Group of Monuments\t2485\t7993\t1290\nBāmor Kalān\t2489\t7815\t1290\nChhatarpur\t2492\t7959\t1290\nTeonthar\t2498\t8164\t1290\nJatāra\t2501\t7905\t1290\nPalera\t2502\t7923\t1290\nNaraini\t2519\t8047\t1290\nKolāras\t2522\t7761\t1290\nHarpālpur\t2529\t7933\t1290\nShivpuri\t2542\t7766\t1290\nKarera\t2546\t7814\t1290\nNarwar\t2564\t7791\t1290\nSheopur\t2566\t7670\t1290\nDatia\t2567\t7846\t1290\nBhānder\t2574\t7875\t1290\nBhitarwār\t2579\t7811\t1290\nDabra\t2589\t7833\t1290\nDaboh\t2600\t7888\t1290\nSeondha\t2615\t7878\t1290\nLahār\t2619\t7894\t1290\nGwalior\t2623\t7817\t1290\nMorār\t2623\t7822\t1290\nSabalgarh\t2625\t7741\t1290\nMau\t2627\t7867\t1290\nMihona\t2628\t7898\t1290\nKailāras\t2630\t7762\t1290\nJora\t2634\t7781\t1290\nGohadi\t2643\t7844\t1290\nMahgawān\t2649\t7862\t1290\nMorena\t2650\t7800\t1290\nBhind\t2657\t7879\t1290\nPorsa\t2667\t7837\t1290\nAmbāh\t2670\t7823\t1290\nSāvantvādi\t1590\t7382\t1291\nMālvan\t1606\t7346\t1291\nAjra\t1612\t7421\t1291\nGadhinglaj\t1622\t7435\t1291\nKankauli\t1627\t7371\t1291\nNipāni\t1640\t7438\t1291\nKāgal\t1658\t7432\t1291\nShiraguppi\t1662\t7471\t1291\nKurandvād\t1668\t7459\t1291\nIchalkaranji\t1669\t7446\t1291\nKolhāpur\t1670\t7423\t1291\nJaisingpur\t1678\t7455\t1291\nSāngli\t1685\t7456\t1291\nKodoli\t1688\t7419\t1291\nBhudgaon\t1691\t7460\t1291\nAshta\t1695\t7441\t1291\nRatnagiri\t1699\t7331\t1291\nTāsgaon\t1704\t7460\t1291\nMalkapur\t1726\t7418\t1291\nVite\t1727\t7454\t1291\nKarād\t1729\t7418\t1291\nKoynanagar\t1740\t7377\t1291\nSāngola\t1744\t7519\t1291\nChiplūn\t1753\t7351\t1291\nAkalkot\t1753\t7621\t1291\nRahimatpur\t1759\t7420\t1291\nMhāsvād\t1763\t7479\t1291\nSolāpur\t1767\t7591\t1291\nPandharpur\t1768\t7533\t1291\nSatara\t1769\t7399\t1291\nMoram\t1779\t7647\t1291\nNaldurg\t1782\t7628\t1291\nUmarga\t1784\t7662\t1291\nWai\t1795\t7389\t1291\nPhaltan\t1799\t7443\t1291\nTuljāpur\t1801\t7607\t1291\nSrīvardhan\t1805\t7302\t1291\nMahād\t1808\t7342\t1291\nKurduvādi\t1809\t7542\t1291\nNilanga\t1812\t7675\t1291\nBhor\t1815\t7384\t1291\nBārāmati\t1815\t7458\t1291\nOsmanabad\t1818\t7604\t1291\nBārsi\t1823\t7569\t1291\nAusa\t1825\t7650\t1291\nIndāpur\t1830\t7325\t1291\nSāsvad\t1834\t7403\t1291\nUdgīr\t1839\t7712\t1291\nLatur\t1840\t7657\t1291\nKarmāla\t1841\t7519\t1291\nRoha\t1844\t7312\t1291\nKharakvasla\t1844\t7378\t1291\nBhūm\t1846\t7566\t1291\nDaund\t1847\t7458\t1291\nPune\t1852\t7386\t1291\nDīglūr\t1855\t7758\t1291\nKhadki\t1856\t7385\t1291\nPimpri\t1862\t7381\t1291\nShrīgonda\t1862\t7470\t1291\nAlībāg\t1865\t7288\t1291\nKoregaon\t1865\t7406\t1291\nAlandi\t1868\t7390\t1291\nAhmadpur\t1871\t7694\t1291\nMukher\t1871\t7737\t1291\nAmbājogāi\t1873\t7639\t1291\nPen\t1874\t7310\t1291\nTalegaon Dābhāde\t1874\t7368\t1291\nLonavla\t1875\t7341\t1291\nChākan\t1876\t7386\t1291\nKhopoli\t1879\t7335\t1291\nDhārūr\t1882\t7611\t1291\nSirūr\t1883\t7437\t1291\nParli Vaijnāth\t1885\t7653\t1291\nRājgurunagar\t1887\t7390\t1291\nUran\t1888\t7294\t1291\nDharmābād\t1889\t7785\t1291\nKarjat\t1891\t7332\t1291\nGangākher\t1897\t7675\t1291\nPanvel\t1899\t7311\t1291\nNeral\t1902\t7332\t1291\nĀrangaon\t1903\t7471\t1291\nKalamb\t1904\t7396\t1291\nMumbai\t1907\t7288\t1291\nAhmadnagar\t1909\t7474\t1291\nPowai\t1912\t7290\t1291\nAiroli\t1915\t7300\t1291\nBadlapur\t1916\t7327\t1291\nMājalgaon\t1916\t7621\t1291\nNanded\t1916\t7731\t1291\nMudkhed\t1916\t7750\t1291\nPāthardi\t1917\t7517\t1291\nPūrna\t1918\t7703\t1291\nThāne\t1920\t7296\t1291\nAmarnāth\t1920\t7317\t1291\nJunnar\t1921\t7388\t1291\nDombivli\t1922\t7308\t1291\nUlhasnagar\t1922\t7315\t1291\nBorivli\t1923\t7286\t1291\nKalyān\t1924\t7314\t1291\nMurbād\t1925\t7339\t1291\nGevrai\t1926\t7575\t1291\nPāthri\t1926\t7643\t1291\nParbhani\t1927\t7677\t1291\nBhayandar\t1930\t7285\t1291\nBhiwandi\t1930\t7306\t1291\nMānwat\t1930\t7650\t1291\nBasmat\t1933\t7716\t1291\nRāhuri\t1939\t7465\t1291\nVasind\t1941\t7326\t1291\nVirār\t1946\t7281\t1291\nSelu\t1946\t7644\t1291\nPaithan\t1948\t7539\t1291\nHadgāon\t1950\t7766\t1291\nSangamner\t1957\t7421\t1291\nPartūr\t1960\t7622\t1291\nUmarkhed\t1960\t7769\t1291\nAmbad\t1961\t7579\t1291\nJintūr\t1961\t7669\t1291\nKinwat\t1963\t7820\t1291\nVāda\t1965\t7315\t1291\nKalamnūri\t1967\t7731\t1291\nPālghar\t1970\t7277\t1291\nIgatpuri\t1970\t7356\t1291\nGangāpur\t1970\t7501\t1291\nHingoli\t1971\t7714\t1291\nGhoti Budrukh\t1972\t7363\t1291\nChāndur\t1973\t7917\t1291\nShirdi\t1977\t7448\t1291\nRājūra\t1978\t7936\t1291\nPīpri\t1979\t7554\t1291\nBoisar\t1980\t7276\t1291\nJālna\t1984\t7589\t1291\nSinnar\t1985\t7400\t1291\nKopargaon\t1988\t7448\t1291\nAurangabad\t1988\t7534\t1291\nPusad\t1991\t7758\t1291\nVaijāpur\t1993\t7473\t1291\nDeolāli\t1994\t7383\t1291\nGhugus\t1994\t7911\t1291\nChānda\t1995\t7930\t1291\nDāhānu\t1997\t7271\t1291\nRisod\t1998\t7679\t1291\nLonār\t1999\t7652\t1291\nNashik\t2000\t7379\t1291\nKhuldābād\t2001\t7519\t1291\nDurgāpur\t2001\t7930\t1291\nDeūlgaon Rāja\t2002\t7604\t1291\nYeola\t2004\t7449\t1291\nAnshing\t2004\t7732\t1291\nWani\t2006\t7895\t1291\nMūl\t2007\t7968\t1291\nOzar\t2009\t7393\t1291\nDigras\t2010\t7772\t1291\nWāshīm\t2011\t7713\t1291\nGhātanji\t2014\t7831\t1291\nMehekar\t2015\t7657\t1291\nWarora\t2023\t7900\t1291\nManmād\t2025\t7444\t1291\nKannad\t2026\t7514\t1291\nSillod\t2030\t7565\t1291\nNāndgaon\t2031\t7466\t1291\nMangrūl Pīr\t2031\t7734\t1291\nDārwha\t2031\t7777\t1291\nChāndor\t2033\t7424\t1291\nChikhli\t2035\t7626\t1291\nYavatmāl\t2039\t7813\t1291\nChālisgaon\t2046\t7502\t1291\nPātūr\t2046\t7694\t1291\nKāranja\t2048\t7749\t1291\nBuldāna\t2053\t7618\t1291\nMālegaon\t2055\t7453\t1291\nHinganghāt\t2055\t7884\t1291\nSatānā\t2059\t7420\t1291\nSoygaon\t2060\t7562\t1291\nDeoli\t2065\t7848\t1291\nPāchora\t2067\t7535\t1291\nBālāpur\t2067\t7677\t1291\nKhāmgaon\t2071\t7657\t1291\nAkola\t2071\t7700\t1291\nPulgaon\t2072\t7832\t1291\nMurtajāpur\t2073\t7737\t1291\nWardha\t2074\t7860\t1291\nDattāpur\t2078\t7814\t1291\nShegaon\t2079\t7670\t1291\nPawni\t2079\t7964\t1291\nChāndūr\t2081\t7798\t1291\nNāndūra Buzurg\t2083\t7646\t1291\nUmred\t2085\t7932\t1291\nParola\t2088\t7512\t1291\nMalkāpur\t2089\t7620\t1291\nDhūlia\t2090\t7478\t1291\nErandol\t2092\t7533\t1291\nDaryāpur\t2092\t7733\t1291\nAmrāvati\t2093\t7775\t1291\nJalgaon\t2100\t7557\t1291\nĀrvi\t2100\t7823\t1291\nDharangaon\t2101\t7527\t1291\nVarangaon\t2102\t7591\t1291\nTelhāra\t2103\t7684\t1291\nAmalner\t2104\t7506\t1291\nBhusāval\t2104\t7579\t1291\nJalgaon Jamod\t2105\t7653\t1291\nAkot\t2110\t7706\t1291\nSāvda\t2115\t7589\t1291\nNagpur\t2115\t7908\t1291\nYāval\t2117\t7570\t1291\nFaizpur\t2117\t7586\t1291\nAnjangaon\t2117\t7731\t1291\nBhandāra\t2117\t7965\t1291\nKāmthi\t2122\t7920\t1291\nKalmeshwar\t2123\t7892\t1291\nChāndūr Bāzār\t2124\t7775\t1291\nChopda\t2125\t7530\t1291\nRāver\t2125\t7604\t1291\nAchalpur\t2126\t7751\t1291\nKātol\t2127\t7859\t1291\nDondaicha\t2132\t7457\t1291\nMorsi\t2134\t7801\t1291\nShirpur\t2135\t7488\t1291\nNandurbar\t2137\t7424\t1291\nTumsar\t2138\t7973\t1291\nSaoner\t2139\t7892\t1291\nRāmtek\t2140\t7933\t1291\nKhāpa\t2142\t7898\t1291\nGondiā\t2146\t8019\t1291\nWarud\t2147\t7827\t1291\nChicholi\t2147\t7970\t1291\nShāhāda\t2155\t7447\t1291\nTaloda\t2156\t7421\t1291\nKhetia\t2167\t7459\t1291\nChurāchāndpur\t2433\t9367\t1292\nMoirāng\t2450\t9378\t1292\nKakching\t2450\t9398\t1292\nMayāng Imphāl\t2461\t9389\t1292\nThoubāl\t2464\t9400\t1292\nImphal\t2481\t9394\t1292\nPhek\t2567\t9450\t1292\nTura\t2551\t9020\t1293\nNongstoin\t2552\t9126\t1293\nMankāchar\t2553\t8986\t1293\nShillong\t2557\t9188\t1293\nSaiha\t2249\t9298\t1294\nLunglei\t2289\t9274\t1294\nSerchhīp\t2329\t9285\t1294\nAizawl\t2373\t9272\t1294\nKolasib\t2422\t9268\t1294\nKohima\t2567\t9411\t1295\nDimāpur\t2591\t9372\t1295\nZunheboto\t2597\t9452\t1295\nWokha\t2610\t9426\t1295\nTuensang\t2627\t9482\t1295\nMokokchūng\t2632\t9452\t1295\nMon\t2674\t9506\t1295\nMalakanagiri\t1836\t8189\t1296\nKorāput\t1881\t8271\t1296\nJeypore\t1886\t8257\t1296\nGunupur\t1908\t8381\t1296\nNowrangapur\t1923\t8255\t1296\nBrahmapur\t1931\t8479\t1296\nChatrapur\t1936\t8498\t1296\nHinjilikatu\t1948\t8474\t1296\nĀsika\t1961\t8466\t1296\nPolasara\t1969\t8481\t1296\nSorada\t1976\t8443\t1296\nBānapur\t1978\t8517\t1296\nPuri\t1980\t8582\t1296\nKonārka\t1990\t8611\t1296\nBhawānipatna\t1991\t8317\t1296\nBhanjanagar\t1993\t8458\t1296\nNimāparha\t2006\t8600\t1296\nPipili\t2011\t8583\t1296\nNayāgarh\t2013\t8510\t1296\nJatani\t2016\t8571\t1296\nBālugaon\t2018\t8511\t1296\nKhurda\t2018\t8562\t1296\nKesinga\t2019\t8322\t1296\nJagatsinghapur\t2026\t8617\t1296\nBhubaneshwar\t2027\t8583\t1296\nTitlāgarh\t2029\t8315\t1296\nParādīp Garh\t2032\t8661\t1296\nBānki\t2038\t8553\t1296\nCuttack\t2046\t8588\t1296\nKantābānji\t2047\t8292\t1296\nPhulbāni\t2048\t8423\t1296\nKendrāparha\t2050\t8642\t1296\nĀthagarh\t2052\t8563\t1296\nPatāmundai\t2058\t8656\t1296\nDhenkānāl\t2066\t8560\t1296\nBalāngīr\t2070\t8349\t1296\nPatnāgarh\t2071\t8313\t1296\nSonepur\t2083\t8392\t1296\nBaud\t2084\t8433\t1296\nAngul\t2084\t8510\t1296\nJājpur\t2085\t8634\t1296\nBhuban\t2088\t8583\t1296\nKāmākhyānagar\t2093\t8554\t1296\nTālcher\t2095\t8523\t1296\nPadampur\t2100\t8306\t1296\nBinka\t2103\t8381\t1296\nBhadrakh\t2105\t8652\t1296\nBāsudebpur\t2112\t8673\t1296\nBarpāli\t2119\t8359\t1296\nSoro\t2128\t8669\t1296\nBargarh\t2133\t8362\t1296\nNīlgiri\t2146\t8677\t1296\nSambalpur\t2147\t8398\t1296\nBalasore\t2149\t8693\t1296\nBurla\t2151\t8387\t1296\nHīrākud\t2153\t8387\t1296\nRemuna\t2153\t8687\t1296\nDeogarh\t2154\t8473\t1296\nJaleshwar\t2180\t8722\t1296\nBrājarājnagar\t2182\t8392\t1296\nJharsuguda\t2186\t8401\t1296\nBarbil\t2210\t8538\t1296\nBada Barabīl\t2211\t8539\t1296\nSundargarh\t2212\t8403\t1296\nRaurkela\t2222\t8486\t1296\nKuchaiburi\t2227\t8617\t1296\nBirmitrapur\t2240\t8477\t1296\nKāraikāl\t1092\t7983\t1297\nPuducherry\t1193\t7983\t1297\nSardulgarh\t2969\t7524\t1298\nBudhlāda\t2993\t7556\t1298\nMānsa\t2999\t7540\t1298\nBhīkhi\t3006\t7554\t1298\nMaur\t3008\t7525\t1298\nSunām\t3013\t7580\t1298\nAbohar\t3014\t7420\t1298\nLaungowāl\t3019\t7568\t1298\nGiddarbāha\t3020\t7467\t1298\nMalaut\t3021\t7448\t1298\nBathinda\t3021\t7494\t1298\nSangrūr\t3025\t7584\t1298\nRāmpura\t3026\t7524\t1298\nBhawānīgarh\t3027\t7604\t1298\nDhanaula\t3028\t7557\t1298\nSanaur\t3030\t7646\t1298\nPatiāla\t3034\t7639\t1298\nBarnāla\t3037\t7555\t1298\nDhūri\t3037\t7587\t1298\nNābha\t3038\t7615\t1298\nFāzilka\t3040\t7403\t1298\nJaito\t3045\t7489\t1298\nMuktsar\t3047\t7452\t1298\nBhadaur\t3048\t7533\t1298\nRājpura\t3048\t7659\t1298\nMāler Kotla\t3053\t7588\t1298\nBanūr\t3055\t7672\t1298\nKotkapura\t3058\t7483\t1298\nBasi\t3059\t7684\t1298\nJalālābād\t3061\t7426\t1298\nSirhind\t3064\t7638\t1298\nRāikot\t3065\t7560\t1298\nFarīdkot\t3067\t7476\t1298\nMohali\t3068\t7672\t1298\nBāgha Purāna\t3069\t7510\t1298\nBasi\t3069\t7640\t1298\nGuru Har Sahāi\t3071\t7440\t1298\nKhanna\t3071\t7622\t1298\nKharar\t3075\t7665\t1298\nJagraon\t3079\t7547\t1298\nMorinda\t3079\t7650\t1298\nDorāha\t3080\t7602\t1298\nMoga\t3081\t7517\t1298\nSamrāla\t3084\t7619\t1298\nTalwandi Bhai\t3086\t7493\t1298\nLudhiāna\t3091\t7585\t1298\nMāchhīwāra\t3092\t7620\t1298\nFerozepore\t3093\t7461\t1298\nZira\t3097\t7499\t1298\nRopar\t3097\t7653\t1298\nPhillaur\t3102\t7579\t1298\nBālāchor\t3106\t7630\t1298\nNawanshahr\t3112\t7612\t1298\nNakodar\t3113\t7548\t1298\nJandiāla\t3116\t7562\t1298\nBanga\t3119\t7599\t1298\nSultanpur\t3121\t7520\t1298\nPhagwāra\t3122\t7577\t1298\nGarhshankar\t3122\t7614\t1298\nAnandpur\t3124\t7650\t1298\nPatti\t3128\t7486\t1298\nJalandhar\t3133\t7558\t1298\nKapūrthala\t3138\t7538\t1298\nNangal\t3139\t7638\t1298\nAdampur\t3143\t7571\t1298\nKartārpur\t3144\t7550\t1298\nTarn Tāran\t3145\t7493\t1298\nHoshiārpur\t3154\t7591\t1298\nBhogpur\t3155\t7564\t1298\nAmritsar\t3162\t7488\t1298\nBatāla\t3181\t7520\t1298\nQādiān\t3182\t7538\t1298\nDasūya\t3182\t7565\t1298\nAjnāla\t3184\t7476\t1298\nFatehgarh Chūriān\t3186\t7496\t1298\nTalwāra\t3194\t7589\t1298\nMukeriān\t3195\t7562\t1298\nDhāriwāl\t3196\t7532\t1298\nDīnānagar\t3214\t7547\t1298\nPathānkot\t3227\t7565\t1298\nBānswāra\t2354\t7444\t1299\nDūngarpur\t2384\t7371\t1299\nPratāpgarh\t2403\t7478\t1299\nSālūmbar\t2414\t7404\t1299\nSunel\t2437\t7596\t1299\nChhoti Sādri\t2438\t7470\t1299\nBari Sādri\t2441\t7447\t1299\nAklera\t2441\t7657\t1299\nĀbu Road\t2448\t7278\t1299\nBhindār\t2450\t7419\t1299\nJhālrapātan\t2454\t7617\t1299\nĀbu\t2459\t7272\t1299\nUdaipur\t2459\t7371\t1299\nJhālāwār\t2460\t7616\t1299\nNīmbāhera\t2462\t7468\t1299\nRāmganj Mandi\t2465\t7594\t1299\nSuket\t2465\t7604\t1299\nChhabra\t2466\t7684\t1299\nSānchor\t2475\t7177\t1299\nPindwāra\t2480\t7306\t1299\nSirohi\t2489\t7285\t1299\nChittaurgarh\t2489\t7462\t1299\nRāwatbhāta\t2493\t7559\t1299\nSangod\t2493\t7629\t1299\nNāthdwāra\t2494\t7382\t1299\nBegūn\t2498\t7500\t1299\nBhīnmāl\t2500\t7227\t1299\nRājsamand\t2507\t7388\t1299\nBārān\t2510\t7652\t1299\nSheoganj\t2514\t7307\t1299\nAnta\t2515\t7630\t1299\nKota\t2518\t7584\t1299\nSādri\t2519\t7345\t1299\nMāndalgarh\t2519\t7507\t1299\nBāli\t2520\t7329\t1299\nGangāpur\t2522\t7426\t1299\nKeshorai Pātan\t2529\t7594\t1299\nAmet\t2531\t7393\t1299\nTakhatgarh\t2532\t7300\t1299\nMāngrol\t2533\t7651\t1299\nJalor\t2535\t7262\t1299\nBhīlwāra\t2535\t7464\t1299\nKāpren\t2541\t7607\t1299\nMāndal\t2544\t7457\t1299\nBūndi\t2544\t7564\t1299\nDevgarh\t2553\t7391\t1299\nShāhpura\t2562\t7492\t1299\nJahāzpur\t2562\t7528\t1299\nSiwāna\t2565\t7242\t1299\nLākheri\t2567\t7618\t1299\nĀsind\t2573\t7433\t1299\nBārmer\t2575\t7139\t1299\nDeoli\t2576\t7538\t1299\nPāli\t2577\t7332\t1299\nNainwa\t2577\t7585\t1299\nSamdari\t2581\t7258\t1299\nBālotra\t2583\t7224\t1299\nGulābpura\t2590\t7466\t1299\nSojat\t2592\t7367\t1299\nKekri\t2597\t7515\t1299\nTodaraisingh\t2602\t7548\t1299\nSawāi Mādhopur\t2602\t7634\t1299\nRaipur\t2604\t7402\t1299\nSarwār\t2606\t7501\t1299\nBeāwar\t2610\t7432\t1299\nNīmāj\t2615\t7400\t1299\nTonk\t2617\t7579\t1299\nBilāra\t2618\t7371\t1299\nJaitāran\t2620\t7394\t1299\nJodhpur\t2627\t7301\t1299\nMālpura\t2628\t7536\t1299\nNasīrābād\t2630\t7473\t1299\nNiwai\t2636\t7592\t1299\nPīpār\t2638\t7354\t1299\nAjmer\t2645\t7464\t1299\nGangāpur\t2647\t7672\t1299\nPushkar\t2649\t7455\t1299\nKarauli\t2650\t7703\t1299\nLālsot\t2656\t7633\t1299\nKishangarh\t2659\t7485\t1299\nChaksu\t2661\t7595\t1299\nMerta\t2665\t7403\t1299\nBāri\t2665\t7762\t1299\nDhaulpur\t2669\t7788\t1299\nHindaun\t2673\t7704\t1299\nNaraina\t2679\t7521\t1299\nBasi\t2683\t7605\t1299\nPhulera\t2687\t7524\t1299\nParvatsar\t2689\t7477\t1299\nDausa\t2689\t7634\t1299\nRājākhera\t2690\t7817\t1299\nSāmbhar\t2691\t7519\t1299\nBayāna\t2691\t7729\t1299\nJaisalmer\t2692\t7090\t1299\nPokaran\t2692\t7192\t1299\nJaipur\t2692\t7579\t1299\nTodabhim\t2692\t7682\t1299\nKuchera\t2699\t7397\t1299\nNāwa\t2702\t7500\t1299\nWer\t2702\t7718\t1299\nMakrāna\t2704\t7472\t1299\nBhasāwar\t2704\t7705\t1299\nBāndīkūi\t2705\t7657\t1299\nMahwah\t2705\t7693\t1299\nMūndwa\t2706\t7382\t1299\nPhalodi\t2713\t7237\t1299\nKuchāman\t2715\t7486\t1299\nBaswa\t2715\t7658\t1299\nBasni\t2717\t7365\t1299\nNāgaur\t2720\t7373\t1299\nNādbai\t2722\t7720\t1299\nBharatpur\t2722\t7749\t1299\nRājgarh\t2724\t7662\t1299\nRāmgarh\t2725\t7518\t1299\nManoharpur\t2730\t7595\t1299\nKūmher\t2732\t7737\t1299\nRīngas\t2736\t7557\t1299\nShāhpura\t2739\t7596\t1299\nDīdwāna\t2740\t7458\t1299\nLosal\t2740\t7492\t1299\nNagar\t2742\t7710\t1299\nSri Mādhopur\t2747\t7560\t1299\nDīg\t2747\t7733\t1299\nNokha\t2756\t7347\t1299\nAlwar\t2756\t7663\t1299\nKhandela\t2760\t7550\t1299\nSīkar\t2761\t7514\t1299\nLādnūn\t2765\t7440\t1299\nKāman\t2766\t7727\t1299\nSūjāngarh\t2770\t7447\t1299\nKotputli\t2770\t7620\t1299\nUdaipur\t2772\t7547\t1299\nNeem ka Thana\t2774\t7579\t1299\nDeshnoke\t2780\t7334\t1299\nChhāpar\t2782\t7444\t1299\nLachhmangarh Sīkar\t2782\t7503\t1299\nNawalgarh\t2785\t7527\t1299\nBehror\t2789\t7628\t1299\nTijāra\t2793\t7686\t1299\nNapāsar\t2796\t7356\t1299\nFatehpur\t2799\t7496\t1299\nKhetri\t2800\t7579\t1299\nBīkaner\t2802\t7331\t1299\nRājaldesar\t2803\t7447\t1299\nRatangarh\t2808\t7462\t1299\nSri Dūngargarh\t2810\t7401\t1299\nJhunjhunūn\t2813\t7540\t1299\nBagar\t2819\t7550\t1299\nBhiwadi\t2821\t7686\t1299\nChidawa\t2824\t7564\t1299\nBissāu\t2825\t7508\t1299\nChūru\t2830\t7497\t1299\nBhādāsar\t2831\t7429\t1299\nSūrajgarh\t2831\t7573\t1299\nPilāni\t2837\t7560\t1299\nSardārshahr\t2844\t7449\t1299\nRājgarh\t2864\t7539\t1299\nTārānagar\t2867\t7503\t1299\nBhādra\t2910\t7517\t1299\nNohar\t2918\t7477\t1299\nAnūpgarh\t2919\t7321\t1299\nRāwatsār\t2927\t7440\t1299\nSūratgarh\t2932\t7390\t1299\nPilibangan\t2945\t7410\t1299\nRāisinghnagar\t2954\t7345\t1299\nHanumāngarh\t2958\t7433\t1299\nPadampur\t2971\t7363\t1299\nSangariā\t2980\t7447\t1299\nKaranpur\t2984\t7346\t1299\nGangānagar\t2992\t7387\t1299\nGangtok\t2733\t8861\t1300\nKanniyākumāri\t809\t7754\t1301\nColachel\t818\t7726\t1301\nNāgercoil\t818\t7743\t1301\nPadmanābhapuram\t824\t7733\t1301\nKuzhithurai\t832\t7719\t1301\nTisaiyanvilai\t834\t7787\t1301\nVadakku Valliyūr\t838\t7761\t1301\nUdangudi\t843\t7803\t1301\nTiruchchendur\t850\t7812\t1301\nKalakkādu\t851\t7755\t1301\nArumuganeri\t857\t7809\t1301\nKayalpattinam\t857\t7812\t1301\nSrivaikuntam\t863\t7791\t1301\nKallidaikurichi\t869\t7747\t1301\nVadakku Viravanallur\t870\t7752\t1301\nAmbasamudram\t871\t7745\t1301\nTirunelveli\t873\t7768\t1301\nThoothukudi\t877\t7813\t1301\nĀlangulam\t886\t7750\t1301\nThenkasi\t896\t7732\t1301\nSūrandai\t898\t7742\t1301\nKadayanallur\t907\t7734\t1301\nKalugumalai\t915\t7771\t1301\nPuliyangudi\t917\t7740\t1301\nKovilpatti\t917\t7787\t1301\nKeelakarai\t923\t7879\t1301\nVāsudevanallūr\t924\t7741\t1301\nMandapam\t928\t7912\t1301\nRameswaram\t929\t7931\t1301\nSivagiri\t934\t7743\t1301\nSattur\t936\t7792\t1301\nRamanathapuram\t937\t7883\t1301\nRajapalaiyam\t945\t7755\t1301\nSivakasi\t945\t7780\t1301\nTiruttangal\t948\t7783\t1301\nSrivilliputhur\t951\t7763\t1301\nAruppukkottai\t951\t7810\t1301\nParamagudi\t955\t7859\t1301\nVirudunagar\t959\t7796\t1301\nManamadurai\t967\t7847\t1301\nGudalur\t968\t7725\t1301\nCumbum\t974\t7728\t1301\nTondi\t974\t7902\t1301\nUttamapālaiyam\t981\t7733\t1301\nTiruppuvanam\t983\t7826\t1301\nChinnamanūr\t984\t7738\t1301\nSivaganga\t985\t7848\t1301\nTirupparangunram\t988\t7807\t1301\nMadurai\t992\t7812\t1301\nDevakottai\t995\t7882\t1301\nUsilampatti\t997\t7779\t1301\nĀndippatti\t1000\t7762\t1301\nBodināyakkanūr\t1001\t7735\t1301\nMelur\t1003\t7834\t1301\nKāraikkudi\t1007\t7877\t1301\nVādippatti\t1008\t7796\t1301\nPeriyakulam\t1012\t7754\t1301\nVattalkundu\t1016\t7776\t1301\nNilakottai\t1016\t7785\t1301\nArantāngi\t1017\t7899\t1301\nNattam\t1023\t7823\t1301\nKodaikānāl\t1024\t7749\t1301\nPeravurani\t1029\t7920\t1301\nV.S.K.Valasai (Dindigul-Dist.)\t1032\t7815\t1301\nValparai\t1033\t7695\t1301\nAdirampattinam\t1034\t7938\t1301\nDindigul\t1037\t7798\t1301\nVedaraniyam\t1037\t7985\t1301\nPudukkottai\t1038\t7882\t1301\nMuttupet\t1040\t7949\t1301\nPattukkottai\t1042\t7932\t1301\nVadamadurai\t1044\t7810\t1301\nPalani\t1045\t7752\t1301\nAyakudi\t1045\t7755\t1301\nMadukkūr\t1048\t7940\t1301\nVettaikkaranpudur\t1056\t7691\t1301\nAnamalais\t1058\t7693\t1301\nUdumalaippettai\t1059\t7725\t1301\nManapparai\t1061\t7843\t1301\nPollachi\t1066\t7701\t1301\nMannargudi\t1067\t7945\t1301\nPallappatti\t1072\t7788\t1301\nKoothanallur\t1072\t7952\t1301\nDharapuram\t1074\t7753\t1301\nNegapatam\t1076\t7984\t1301\nThiruvarur\t1077\t7964\t1301\nTanjore\t1079\t7914\t1301\nTiruchirappalli\t1082\t7870\t1301\nLalgudi\t1087\t7882\t1301\nMadukkarai\t1091\t7696\t1301\nChettipālaiyam\t1091\t7704\t1301\nKulittalai\t1093\t7841\t1301\nPapanasam\t1093\t7927\t1301\nMusiri\t1095\t7844\t1301\nKarur\t1096\t7808\t1301\nKumbakonam\t1096\t7939\t1301\nPalladam\t1099\t7729\t1301\nSingānallūr\t1100\t7703\t1301\nCoimbatore\t1101\t7697\t1301\nKangayam\t1101\t7756\t1301\nIrugūr\t1102\t7706\t1301\nSulur\t1102\t7713\t1301\nTharangambadi\t1103\t7985\t1301\nMayiladuthurai\t1110\t7966\t1301\nVelur\t1111\t7800\t1301\nTiruppur\t1112\t7735\t1301\nSivagiri\t1112\t7779\t1301\nAriyalūr\t1114\t7908\t1301\nPeriyanayakkanpalaiyam\t1115\t7695\t1301\nTuraiyūr\t1115\t7860\t1301\nChennimalai\t1116\t7760\t1301\nAvinashi\t1119\t7727\t1301\nJayamkondacholapuram\t1121\t7936\t1301\nNāmakkal\t1122\t7817\t1301\nPerambalur\t1123\t7888\t1301\nKāramadai\t1124\t7696\t1301\nAnnur\t1124\t7711\t1301\nSīrkāzhi\t1124\t7974\t1301\nPerundurai\t1128\t7759\t1301\nMettupalayam\t1130\t7693\t1301\nSirumugai\t1132\t7701\t1301\nErode\t1134\t7773\t1301\nPunjai Puliyampatti\t1135\t7717\t1301\nNambiyūr\t1136\t7732\t1301\nWellington\t1137\t7678\t1301\nTiruchengode\t1138\t7789\t1301\nPennādam\t1140\t7924\t1301\nChidambaram\t1140\t7969\t1301\nOoty\t1141\t7670\t1301\nKotagiri\t1142\t7686\t1301\nKīl Bhuvanagiri\t1144\t7965\t1301\nGobichettipalayam\t1145\t7744\t1301\nBhavāni\t1145\t7768\t1301\nRasipuram\t1146\t7819\t1301\nNāmagiripettai\t1146\t7827\t1301\nMallasamudram\t1149\t7803\t1301\nSathyamangalam\t1151\t7724\t1301\nVriddhāchalam\t1152\t7932\t1301\nKurinjippādi\t1155\t7959\t1301\nAnthiyur\t1158\t7759\t1301\nIdappadi\t1159\t7784\t1301\nAttur\t1159\t7860\t1301\nChinna Salem\t1163\t7887\t1301\nSalem\t1165\t7816\t1301\nTāramangalam\t1169\t7797\t1301\nKallakkurichchi\t1174\t7896\t1301\nCuddalore\t1176\t7977\t1301\nPanruti\t1178\t7955\t1301\nNellikkuppam\t1178\t7967\t1301\nMettur\t1179\t7780\t1301\nPallippatti\t1194\t7840\t1301\nVillupuram\t1194\t7949\t1301\nTirukkoyilur\t1197\t7920\t1301\nHarūr\t1205\t7848\t1301\nPennāgaram\t1213\t7790\t1301\nDharmapuri\t1213\t7816\t1301\nMarakkanam\t1219\t7994\t1301\nTiruvannāmalai\t1223\t7907\t1301\nTindivanam\t1223\t7966\t1301\nGingee\t1225\t7942\t1301\nPālakkodu\t1231\t7807\t1301\nChengam\t1231\t7879\t1301\nVandavāsi\t1250\t7961\t1301\nPolūr\t1251\t7912\t1301\nMadurāntakam\t1251\t7988\t1301\nKrishnagiri\t1252\t7821\t1301\nDenkanikota\t1253\t7779\t1301\nJalārpet\t1257\t7857\t1301\nUttiramerūr\t1261\t7976\t1301\nAlangāyam\t1262\t7875\t1301\nCheyyar\t1266\t7954\t1301\nArni\t1267\t7929\t1301\nVaniyambadi\t1268\t7862\t1301\nChingleput\t1269\t7998\t1301\nHosūr\t1274\t7783\t1301\nAmbur\t1279\t7872\t1301\nKanchipuram\t1284\t7970\t1301\nMadambakkam\t1285\t8005\t1301\nGūduvāncheri\t1285\t8006\t1301\nPallikondai\t1291\t7894\t1301\nArcot\t1291\t7932\t1301\nVellore\t1292\t7913\t1301\nTambaram\t1292\t8013\t1301\nInjambakkam\t1292\t8025\t1301\nPeranāmpattu\t1293\t7872\t1301\nWalajapet\t1293\t7937\t1301\nGudiyatham\t1295\t7887\t1301\nNeelankarai\t1295\t8026\t1301\nMadipakkam\t1296\t8020\t1301\nKātpādi\t1297\t7915\t1301\nSrīperumbūdūr\t1297\t7994\t1301\nPallāvaram\t1297\t8015\t1301\nSaint Thomas Mount\t1300\t8020\t1301\nPorur\t1304\t8016\t1301\nPoonamalle\t1305\t8011\t1301\nArakkonam\t1308\t7967\t1301\nChennai\t1309\t8028\t1301\nAmbattūr\t1310\t8016\t1301\nTinnanūr\t1311\t8003\t1301\nĀvadi\t1311\t8011\t1301\nSholinghur\t1312\t7942\t1301\nTiruvallur\t1314\t7991\t1301\nTiruvottiyūr\t1316\t8030\t1301\nManali\t1317\t8027\t1301\nThiruthani\t1318\t7962\t1301\nNāravārikuppam\t1319\t8018\t1301\nKattivākkam\t1322\t8032\t1301\nMīnjūr\t1328\t8026\t1301\nPonneri\t1334\t8019\t1301\nGummidipundi\t1341\t8011\t1301\nGadwāl\t1624\t7780\t1302\nWanparti\t1637\t7807\t1302\nNāgar Karnūl\t1648\t7832\t1302\nDevarkonda\t1669\t7892\t1302\nMahbūbnagar\t1674\t7799\t1302\nNārāyanpet\t1675\t7750\t1302\nMiriālgūda\t1687\t7956\t1302\nKodār\t1700\t7997\t1302\nNalgonda\t1705\t7927\t1302\nFarrukhnagar\t1708\t7820\t1302\nSuriāpet\t1714\t7962\t1302\nTāndūr\t1725\t7758\t1302\nKhammam\t1725\t8014\t1302\nSathupalli\t1725\t8087\t1302\nSrīrāmnagar\t1727\t7826\t1302\nVikārābād\t1734\t7790\t1302\nLal Bahadur Nagar\t1735\t7856\t1302\nGaddi Annaram\t1737\t7852\t1302\nHyderabad\t1738\t7846\t1302\nUppal Kalan\t1741\t7856\t1302\nDornakal\t1744\t8015\t1302\nMalkajgiri\t1745\t7853\t1302\nGhatkesar\t1745\t7868\t1302\nSingāpur\t1747\t7813\t1302\nKūkatpalli\t1748\t7841\t1302\nSerilingampalle\t1749\t7830\t1302\nQuthbullapur\t1750\t7846\t1302\nSecunderabad\t1750\t7854\t1302\nBhongīr\t1752\t7889\t1302\nPatancheru\t1753\t7826\t1302\nKottagūdem\t1755\t8062\t1302\nPalwancha\t1758\t8068\t1302\nYellandu\t1759\t8032\t1302\nMahbūbābād\t1760\t8000\t1302\nPāloncha\t1760\t8071\t1302\nSadāseopet\t1762\t7795\t1302\nSangāreddi\t1762\t7809\t1302\nBhadrāchalam\t1767\t8089\t1302\nZahirābād\t1768\t7761\t1302\nJangaon\t1773\t7915\t1302\nAndol\t1781\t7808\t1302\nManuguru\t1793\t8083\t1302\nWarangal\t1800\t7958\t1302\nMedak\t1805\t7826\t1302\nSiddipet\t1810\t7885\t1302\nKāmāreddi\t1832\t7834\t1302\nBānswāda\t1838\t7788\t1302\nSirsilla\t1839\t7881\t1302\nKarīmnagar\t1844\t7913\t1302\nVemalwāda\t1847\t7887\t1302\nPeddapalli\t1861\t7937\t1302\nManthani\t1865\t7967\t1302\nBodhan\t1866\t7789\t1302\nNizāmābād\t1867\t7810\t1302\nRamagundam\t1876\t7947\t1302\nJagtiāl\t1879\t7892\t1302\nRāmgundam\t1880\t7945\t1302\nKoratla\t1882\t7871\t1302\nNāspur\t1885\t7946\t1302\nMancherāl\t1887\t7943\t1302\nMandamarri\t1897\t7947\t1302\nBellampalli\t1906\t7949\t1302\nNirmal\t1910\t7834\t1302\nBhaisa\t1911\t7796\t1302\nAsifābād\t1936\t7928\t1302\nDasnapur\t1965\t7851\t1302\nKyathampalle\t1967\t7853\t1302\nĀdilābād\t1967\t7854\t1302\nBelonia\t2325\t9145\t1303\nUdaipur\t2353\t9148\t1303\nBarjala\t2362\t9136\t1303\nAgartala\t2384\t9128\t1303\nKhowai\t2408\t9160\t1303\nKailāshahar\t2433\t9200\t1303\nDharmanagar\t2437\t9217\t1303\nRenukūt\t2422\t8304\t1304\nObra\t2442\t8299\t1304\nLalitpur\t2469\t7842\t1304\nRobertsganj\t2469\t8307\t1304\nAhraura\t2502\t8303\t1304\nChunār\t2513\t8288\t1304\nMirzāpur\t2514\t8257\t1304\nKachhwa\t2521\t8271\t1304\nBabīna\t2524\t7847\t1304\nRānīpur\t2525\t7906\t1304\nChandauli\t2526\t8327\t1304\nRāmnagar\t2527\t8303\t1304\nMughal Sarāi\t2528\t8312\t1304\nMahobā\t2529\t7988\t1304\nAtarra\t2529\t8057\t1304\nKulpahār\t2532\t7964\t1304\nVaranasi\t2532\t8301\t1304\nHandiā\t2536\t8219\t1304\nSarāi Ākil\t2538\t8151\t1304\nCharkhāri\t2540\t7975\t1304\nKabrāi\t2540\t8000\t1304\nBhadohi\t2540\t8257\t1304\nZamānia\t2542\t8356\t1304\nAllahābād\t2544\t8184\t1304\nJhūsi\t2544\t8191\t1304\nJhānsi\t2546\t7858\t1304\nSuriānwān\t2546\t8242\t1304\nBānda\t2548\t8033\t1304\nManjhanpur\t2553\t8138\t1304\nSaidpur\t2554\t8322\t1304\nBaberu\t2555\t8070\t1304\nPhulpur\t2555\t8209\t1304\nBharwāri\t2556\t8149\t1304\nGhazīpur\t2558\t8359\t1304\nRāth\t2559\t7957\t1304\nMariāhu\t2560\t8260\t1304\nGursarāi\t2562\t7918\t1304\nMuhammadābād\t2562\t8376\t1304\nMaudaha\t2568\t8011\t1304\nMachhlīshahr\t2569\t8241\t1304\nMau Aimma\t2570\t8192\t1304\nKunda\t2572\t8151\t1304\nJaunpur\t2575\t8269\t1304\nSamthar\t2584\t7891\t1304\nReoti\t2585\t8438\t1304\nRasrā\t2586\t8385\t1304\nBānsdīh\t2588\t8422\t1304\nBela\t2592\t8200\t1304\nFatehpur\t2593\t8081\t1304\nLālganj\t2593\t8170\t1304\nMau\t2594\t8356\t1304\nHamīrpur\t2596\t8015\t1304\nKonch\t2599\t7915\t1304\nOrai\t2599\t7945\t1304\nManiar\t2599\t8417\t1304\nKopāganj\t2602\t8357\t1304\nSarāi Mīr\t2603\t8292\t1304\nMuhammadābād\t2603\t8338\t1304\nBindki\t2604\t8058\t1304\nSikandarpur\t2604\t8405\t1304\nShāhganj\t2605\t8268\t1304\nAzamgarh\t2607\t8318\t1304\nMubārakpur\t2609\t8329\t1304\nGhosī\t2611\t8354\t1304\nKālpi\t2612\t7973\t1304\nBilthra\t2613\t8389\t1304\nJālaun\t2615\t7934\t1304\nGhātampur\t2615\t8017\t1304\nLar\t2620\t8397\t1304\nPukhrāyān\t2622\t7984\t1304\nRaebareli\t2623\t8123\t1304\nJais\t2626\t8155\t1304\nSultānpur\t2626\t8207\t1304\nChillupār\t2628\t8351\t1304\nJalālpur\t2631\t8274\t1304\nAkbarpur\t2638\t7995\t1304\nAkbarpur\t2643\t8253\t1304\nRūdarpur\t2644\t8361\t1304\nPurwā\t2646\t8077\t1304\nAuraiya\t2647\t7951\t1304\nKanpur\t2647\t8035\t1304\nRura\t2649\t7990\t1304\nDeoria\t2650\t8378\t1304\nUnnāo\t2655\t8049\t1304\nTāndā\t2655\t8266\t1304\nJhīnjhak\t2656\t7973\t1304\nPhaphūnd\t2660\t7946\t1304\nSafīpur\t2674\t8034\t1304\nBharthana\t2675\t7922\t1304\nJagdīshpur\t2675\t8055\t1304\nMaghar\t2676\t8313\t1304\nKhalīlābād\t2677\t8307\t1304\nGorakhpur\t2677\t8337\t1304\nEtāwah\t2678\t7902\t1304\nFyzābād\t2678\t8215\t1304\nBastī\t2679\t8272\t1304\nBidhūna\t2680\t7951\t1304\nAjodhya\t2680\t8220\t1304\nZaidpur\t2683\t8133\t1304\nPipraich\t2683\t8353\t1304\nBilhaur\t2684\t8006\t1304\nLucknow\t2684\t8092\t1304\nNawābganj\t2686\t8214\t1304\nBāh\t2687\t7859\t1304\nKākori\t2687\t8079\t1304\nPināhat\t2688\t7838\t1304\nJaswantnagar\t2688\t7890\t1304\nBāngarmau\t2689\t8021\t1304\nPadrauna\t2690\t8398\t1304\nMalīhābād\t2692\t8071\t1304\nNawābganj\t2693\t8120\t1304\nIndergarh\t2694\t7967\t1304\nMehndāwal\t2698\t8311\t1304\nKarhal\t2700\t7894\t1304\nShamsābād\t2702\t7812\t1304\nFatehābād\t2703\t7830\t1304\nSirsāganj\t2706\t7869\t1304\nKannauj\t2706\t7992\t1304\nSandīla\t2707\t8051\t1304\nFatehpur Sīkri\t2709\t7766\t1304\nShikohābād\t2711\t7859\t1304\nGursahāiganj\t2712\t7973\t1304\nColonelganj\t2713\t8170\t1304\nGondā City\t2713\t8195\t1304\nKiraoli\t2714\t7779\t1304\nMahārāganj\t2714\t8356\t1304\nFīrozābād\t2715\t7840\t1304\nChhibrāmau\t2715\t7950\t1304\nSiswā Bāzār\t2715\t8376\t1304\nJarwal\t2716\t8154\t1304\nFatehpur\t2717\t8121\t1304\nAchhnera\t2718\t7776\t1304\nAgra\t2718\t7802\t1304\nBilgrām\t2718\t8003\t1304\nBānsi\t2718\t8293\t1304\nKhada\t2718\t8388\t1304\nTūndla\t2721\t7824\t1304\nBewar\t2722\t7930\t1304\nMainpuri\t2723\t7903\t1304\nItimādpur\t2724\t7820\t1304\nBhongaon\t2726\t7918\t1304\nKamalganj\t2726\t7963\t1304\nSidhaulī\t2728\t8083\t1304\nSāndi\t2729\t7995\t1304\nMahmudābād\t2729\t8112\t1304\nMuhammadābād\t2731\t7943\t1304\nNichlaul\t2731\t8373\t1304\nUtraula\t2732\t8242\t1304\nFarrukhābād\t2739\t7958\t1304\nHardoī\t2739\t8013\t1304\nMisrikh\t2743\t8053\t1304\nBalrāmpur\t2743\t8219\t1304\nNautanwa\t2743\t8342\t1304\nSadābād\t2744\t7804\t1304\nJalesar\t2747\t7830\t1304\nAlīganj\t2749\t7917\t1304\nGovardhan\t2750\t7746\t1304\nMathura\t2750\t7767\t1304\nBiswān\t2750\t8100\t1304\nPachperwa\t2751\t8264\t1304\nKhairābād\t2753\t8075\t1304\nTulsīpur\t2753\t8242\t1304\nShamsābād\t2754\t7944\t1304\nKaimganj\t2755\t7934\t1304\nRāya\t2756\t7779\t1304\nSītāpur\t2756\t8068\t1304\nBahraigh\t2757\t8159\t1304\nVrindāvan\t2758\t7770\t1304\nHāthras\t2760\t7805\t1304\nPihānī\t2762\t8020\t1304\nShāhābād\t2764\t7994\t1304\nMaholi\t2766\t8047\t1304\nSikandra Rao\t2769\t7838\t1304\nBhinga\t2770\t8193\t1304\nLāharpur\t2771\t8090\t1304\nChhāta\t2772\t7751\t1304\nGanj Dundwāra\t2773\t7894\t1304\nJalālābād\t2773\t7966\t1304\nMārahra\t2774\t7857\t1304\nKosi\t2779\t7744\t1304\nSahāwar\t2780\t7883\t1304\nUsehat\t2780\t7924\t1304\nKāsganj\t2781\t7865\t1304\nKānt\t2781\t7979\t1304\nNānpāra\t2786\t8150\t1304\nJalālī\t2787\t7825\t1304\nAlīgarh\t2788\t7807\t1304\nShāhjānpur\t2788\t7991\t1304\nSoron\t2789\t7875\t1304\nKakrāla\t2789\t7919\t1304\nKheri\t2790\t8080\t1304\nChharra\t2792\t7840\t1304\nKhair\t2794\t7784\t1304\nLakhīmpur\t2795\t8078\t1304\nTilhar\t2796\t7974\t1304\nUjhāni\t2800\t7901\t1304\nDhaurahra\t2800\t8109\t1304\nAtraulī\t2803\t7829\t1304\nDātāganj\t2803\t7941\t1304\nMīrānpur Katra\t2803\t7967\t1304\nBudaun\t2804\t7913\t1304\nSahaswān\t2807\t7875\t1304\nPawāyan\t2807\t8010\t1304\nGola Gokarannāth\t2808\t8047\t1304\nJewar\t2812\t7756\t1304\nBilsi\t2813\t7891\t1304\nPahāsu\t2817\t7806\t1304\nNaraura\t2820\t7839\t1304\nKhūtār\t2820\t8027\t1304\nDibai\t2821\t7826\t1304\nWazīrganj\t2821\t7906\t1304\nFarīdpur\t2821\t7954\t1304\nGunnaur\t2824\t7844\t1304\nBilsanda\t2824\t7995\t1304\nKhurja\t2825\t7786\t1304\nBabrāla\t2826\t7841\t1304\nAonla\t2827\t7917\t1304\nShikārpūr\t2828\t7801\t1304\nBīsalpur\t2829\t7980\t1304\nBisauli\t2831\t7894\t1304\nIslāmnagar\t2833\t7873\t1304\nAnūpshahr\t2836\t7827\t1304\nBareilly\t2837\t7943\t1304\nBulandshahr\t2840\t7786\t1304\nBahjoi\t2840\t7863\t1304\nJahāngīrābād\t2841\t7811\t1304\nPaliā Kalān\t2843\t8058\t1304\nSikandarābād\t2845\t7770\t1304\nChanduasi\t2845\t7878\t1304\nFatehganj West\t2847\t7931\t1304\nNarauli\t2849\t7871\t1304\nSarauli\t2849\t7909\t1304\nGreater Noida\t2850\t7754\t1304\nPūranpur\t2851\t8015\t1304\nMīrganj\t2854\t7921\t1304\nNawābganj\t2854\t7963\t1304\nDādri\t2855\t7755\t1304\nShāhi\t2855\t7932\t1304\nShāhābād\t2857\t7901\t1304\nNoida\t2858\t7733\t1304\nSambhal\t2858\t7857\t1304\nGulāothi\t2859\t7779\t1304\nMilak\t2861\t7917\t1304\nBilāri\t2862\t7880\t1304\nDeoraniān\t2863\t7948\t1304\nPīlibhīt\t2863\t7980\t1304\nSirsi\t2864\t7864\t1304\nGhāziābād\t2867\t7744\t1304\nDāsna\t2868\t7752\t1304\nKundarkhi\t2868\t7879\t1304\nRichha\t2869\t7952\t1304\nPilkhua\t2871\t7766\t1304\nHasanpur\t2872\t7828\t1304\nHāpur\t2873\t7778\t1304\nShīshgarh\t2873\t7931\t1304\nLoni\t2875\t7729\t1304\nBaheri\t2877\t7950\t1304\nMurādnagar\t2878\t7750\t1304\nGarhmuktesar\t2879\t7810\t1304\nRāmpur\t2881\t7903\t1304\nKemrī\t2881\t7920\t1304\nMorādābād\t2884\t7878\t1304\nGajraula\t2885\t7824\t1304\nKhekra\t2887\t7728\t1304\nKithor\t2887\t7794\t1304\nBīlāspur\t2889\t7927\t1304\nAmroha\t2890\t7847\t1304\nBachhraon\t2893\t7823\t1304\nBāghpat\t2894\t7722\t1304\nDhanaura\t2896\t7826\t1304\nMeerut\t2898\t7771\t1304\nParīchhatgarh\t2898\t7793\t1304\nTānda\t2898\t7894\t1304\nSuār\t2903\t7906\t1304\nKānth\t2906\t7863\t1304\nBaraut\t2910\t7726\t1304\nMawāna\t2910\t7792\t1304\nLāwar Khās\t2911\t7778\t1304\nSahaspur\t2912\t7862\t1304\nChāndpur\t2913\t7827\t1304\nSardhana\t2915\t7761\t1304\nNūrpur\t2915\t7841\t1304\nHastināpur\t2916\t7801\t1304\nTājpur\t2916\t7848\t1304\nPhalauda\t2919\t7783\t1304\nThakurdwara\t2919\t7886\t1304\nChhaprauli\t2921\t7717\t1304\nSeohāra\t2921\t7859\t1304\nKhatauli\t2928\t7773\t1304\nBudhāna\t2929\t7748\t1304\nMīrānpur\t2929\t7795\t1304\nHaldaur\t2929\t7828\t1304\nDhāmpur\t2931\t7851\t1304\nKāndhla\t2932\t7727\t1304\nNihtaur\t2932\t7839\t1304\nJānsath\t2933\t7785\t1304\nSherkot\t2933\t7857\t1304\nJhālu\t2934\t7823\t1304\nShāhpur\t2935\t7755\t1304\nBijnor\t2937\t7814\t1304\nAfzalgarh\t2939\t7867\t1304\nKairāna\t2940\t7721\t1304\nSisauli\t2941\t7747\t1304\nNagīna\t2944\t7844\t1304\nShāmli\t2945\t7731\t1304\nBanat\t2946\t7735\t1304\nMuzaffarnagar\t2947\t7770\t1304\nMandāwar\t2949\t7813\t1304\nKīratpur\t2951\t7821\t1304\nJhinjhāna\t2952\t7722\t1304\nCharthāwal\t2955\t7759\t1304\nŪn\t2958\t7726\t1304\nThāna Bhawan\t2959\t7742\t1304\nNajībābād\t2961\t7834\t1304\nJalālābad\t2962\t7744\t1304\nDeoband\t2970\t7768\t1304\nNanauta\t2971\t7742\t1304\nGangoh\t2978\t7726\t1304\nRāmpur\t2981\t7745\t1304\nNakūr\t2992\t7730\t1304\nSahāranpur\t2997\t7755\t1304\nBehat\t3017\t7761\t1304\nKichha\t2891\t7952\t1305\nKhatīma\t2892\t7997\t1305\nSitārganj\t2893\t7970\t1305\nTanakpur\t2907\t8011\t1305\nBāzpur\t2915\t7911\t1305\nKashipur\t2921\t7896\t1305\nHaldwani\t2922\t7953\t1305\nJaspur\t2928\t7883\t1305\nRāmnagar\t2939\t7913\t1305\nNaini Tāl\t2940\t7945\t1305\nPithorāgarh\t2958\t8021\t1305\nAlmora\t2960\t7966\t1305\nRānikhet\t2964\t7943\t1305\nKotdwāra\t2975\t7852\t1305\nLaksar\t2976\t7804\t1305\nManglaur\t2979\t7788\t1305\nRoorkee\t2987\t7789\t1305\nHaridwar\t2995\t7816\t1305\nRishīkesh\t3011\t7829\t1305\nPauri\t3015\t7878\t1305\nSrīnagar\t3022\t7878\t1305\nClement Town\t3026\t7801\t1305\nRāipur\t3031\t7809\t1305\nDehra Dūn\t3032\t7803\t1305\nTehri\t3039\t7848\t1305\nMussoorie\t3045\t7807\t1305\nUttarkāshi\t3073\t7844\t1305\nContai\t2178\t8775\t1306\nEgra\t2190\t8754\t1306\nKultali\t2190\t8840\t1306\nHaldia\t2206\t8811\t1306\nMonoharpur\t2211\t8808\t1306\nGosāba\t2217\t8880\t1306\nJaynagar-Majilpur\t2218\t8842\t1306\nMahīshādal\t2219\t8798\t1306\nDiamond Harbour\t2219\t8818\t1306\nBārāsat\t2223\t8845\t1306\nNabagrām\t2229\t8851\t1306\nTamlūk\t2230\t8793\t1306\nCanning\t2231\t8866\t1306\nKharagpur\t2234\t8733\t1306\nBāruipur\t2235\t8844\t1306\nMedinīpur\t2242\t8732\t1306\nJhārgrām\t2245\t8699\t1306\nPujali\t2247\t8815\t1306\nBaj Baj\t2248\t8818\t1306\nFort Gloster\t2250\t8818\t1306\nNangi\t2251\t8822\t1306\nPānchla\t2254\t8814\t1306\nSānkrāil\t2255\t8823\t1306\nKolkata\t2256\t8836\t1306\nĀmta\t2258\t8801\t1306\nDhulagari\t2258\t8817\t1306\nHāora\t2258\t8832\t1306\nMahiari\t2259\t8824\t1306\nTāki\t2259\t8893\t1306\nBankra\t2260\t8828\t1306\nDumjor\t2262\t8825\t1306\nChakapara\t2263\t8835\t1306\nGarui\t2263\t8840\t1306\nDam Dam\t2263\t8842\t1306\nBāli\t2265\t8834\t1306\nGhātāl\t2266\t8773\t1306\nKāmārhāti\t2267\t8837\t1306\nPānihāti\t2269\t8837\t1306\nMadhyamgram\t2269\t8845\t1306\nKonnagar\t2271\t8834\t1306\nRishra\t2272\t8835\t1306\nKhardah\t2272\t8838\t1306\nBārāsat\t2272\t8848\t1306\nChandrakona\t2273\t8752\t1306\nTitāgarh\t2274\t8837\t1306\nBadūria\t2274\t8879\t1306\nShrīrāmpur\t2275\t8834\t1306\nBārākpur\t2277\t8836\t1306\nBaidyabāti\t2278\t8833\t1306\nSingur\t2281\t8823\t1306\nBhadreswar\t2282\t8834\t1306\nRāmjībanpur\t2283\t8761\t1306\nShyamnagar\t2283\t8837\t1306\nHābra\t2284\t8866\t1306\nĀmlāgora\t2285\t8734\t1306\nChandannagar\t2286\t8837\t1306\nAshoknagar Kalyangarh\t2286\t8864\t1306\nBhātpāra\t2287\t8840\t1306\nArāmbāgh\t2288\t8778\t1306\nGobārdānga\t2288\t8875\t1306\nTarakeswar\t2289\t8801\t1306\nNaihāti\t2289\t8842\t1306\nHugli\t2291\t8840\t1306\nHālīsahar\t2293\t8842\t1306\nSrirāmpur\t2295\t8802\t1306\nBānsbāria\t2295\t8840\t1306\nKānchrāpāra\t2296\t8843\t1306\nKhātra\t2298\t8685\t1306\nKalyani\t2298\t8848\t1306\nBangaon\t2305\t8883\t1306\nBishnupur\t2307\t8732\t1306\nPandua\t2307\t8829\t1306\nBalarāmpur\t2310\t8622\t1306\nMemāri\t2318\t8810\t1306\nRānāghāt\t2318\t8857\t1306\nAistala\t2318\t8858\t1306\nKenda\t2320\t8651\t1306\nKālna\t2322\t8836\t1306\nBānkura\t2323\t8707\t1306\nShāntipur\t2325\t8843\t1306\nBarddhamān\t2326\t8786\t1306\nSonāmukhi\t2331\t8741\t1306\nPuruliya\t2333\t8636\t1306\nBagulā\t2334\t8864\t1306\nJhalidā\t2337\t8598\t1306\nNavadwīp\t2341\t8837\t1306\nKrishnanagar\t2341\t8849\t1306\nGuskhara\t2349\t8773\t1306\nAdra\t2350\t8668\t1306\nDurgapur\t2352\t8731\t1306\nRaghunathpur\t2354\t8667\t1306\nRānīganj\t2362\t8713\t1306\nBahula\t2365\t8716\t1306\nKātoya\t2365\t8813\t1306\nBolpur\t2366\t8770\t1306\nLakhyabad\t2367\t8667\t1306\nĀsansol\t2368\t8698\t1306\nJāmuria\t2370\t8708\t1306\nKulti\t2373\t8684\t1306\nDubrājpur\t2379\t8738\t1306\nChittaranjan\t2386\t8690\t1306\nSiuri\t2391\t8753\t1306\nBeldānga\t2393\t8826\t1306\nSainthia\t2395\t8768\t1306\nKāndi\t2396\t8804\t1306\nBaharampur\t2410\t8825\t1306\nRampur Hat\t2418\t8778\t1306\nMurshidābād\t2418\t8827\t1306\nNalhāti\t2430\t8783\t1306\nLālgola\t2442\t8825\t1306\nJangipur\t2447\t8808\t1306\nDhuliān\t2468\t8795\t1306\nFarakka\t2482\t8790\t1306\nIngrāj Bāzār\t2500\t8815\t1306\nRājmahal\t2505\t8783\t1306\nBālurghāt\t2522\t8878\t1306\nGangārāmpur\t2540\t8853\t1306\nRāiganj\t2561\t8812\t1306\nKāliyāganj\t2563\t8833\t1306\nDalkola\t2588\t8784\t1306\nDīnhāta\t2614\t8946\t1306\nIslāmpur\t2627\t8819\t1306\nTufānganj\t2632\t8967\t1306\nKoch Bihār\t2633\t8945\t1306\nMātābhānga\t2634\t8922\t1306\nAlīpur Duār\t2648\t8952\t1306\nJalpāiguri\t2652\t8873\t1306\nFālākāta\t2652\t8920\t1306\nMaināguri\t2656\t8882\t1306\nDhupgāri\t2659\t8901\t1306\nNaksalbāri\t2668\t8822\t1306\nBagdogra\t2670\t8831\t1306\nGoyerkāta\t2670\t8903\t1306\nBirpara\t2670\t8915\t1306\nSiliguri\t2671\t8843\t1306\nHāsimāra\t2675\t8935\t1306\nJaigaon\t2685\t8938\t1306\nKārsiyāng\t2688\t8828\t1306\nDārjiling\t2703\t8827\t1306\nKālimpong\t2707\t8848\t1306\nNāḩiyat ash Shināfīyah\t3158\t4465\t1307\nNahiyat Ghammas\t3174\t4462\t1307\nAsh Shāmīyah\t3196\t4460\t1307\nAd Dīwānīyah\t3199\t4493\t1307\n‘Afak\t3206\t4525\t1307\nAr Ruţbah\t3304\t4029\t1308\nAl Fallūjah\t3335\t4379\t1308\nRamadi\t3342\t4331\t1308\nHīt\t3364\t4283\t1308\nḨadīthah\t3414\t4238\t1308\n‘Anah\t3437\t4198\t1308\nImam Qasim\t3230\t4468\t1309\nAl Ḩillah\t3246\t4442\t1309\nNāḩīyat Saddat al Hindīyah\t3272\t4428\t1309\nAl Musayyib\t3278\t4429\t1309\nAbū Ghurayb\t3331\t4418\t1310\nBaghdad\t3334\t4440\t1310\nAl Fāw\t2997\t4847\t1311\nUmm Qaşr\t3004\t4792\t1311\nAz Zubayr\t3039\t4770\t1311\nBasrah\t3051\t4778\t1311\nNāḩiyat al Fuhūd\t3097\t4672\t1312\nNasiriyah\t3106\t4626\t1312\nAsh Shaţrah\t3141\t4617\t1312\nBaqubah\t3375\t4461\t1313\nMandalī\t3375\t4556\t1313\nKhāliş\t3381\t4453\t1313\nAl Miqdādīyah\t3398\t4494\t1313\nKifrī\t3469\t4496\t1313\nSīnah\t3681\t4304\t1314\nDihok\t3687\t4299\t1314\nZaxo\t3715\t4269\t1314\nBatifa\t3717\t4301\t1314\nKoysinceq\t3608\t4463\t1315\nErbil\t3618\t4401\t1315\nṞuwandiz\t3661\t4452\t1315\nSoran\t3665\t4454\t1315\nAl Hindīyah\t3255\t4423\t1316\nKarbala\t3262\t4402\t1316\nKirkuk\t3547\t4439\t1317\nAl ‘Amārah\t3184\t4714\t1318\n‘Alī al Gharbī\t3246\t4669\t1318\nAs Samawah\t3133\t4529\t1319\nAr Rumaythah\t3153\t4520\t1319\nAl Mishkhāb\t3180\t4449\t1320\nNajaf\t3203\t4435\t1320\nKufa\t3205\t4444\t1320\nAl-Hamdaniya\t3627\t4338\t1321\nSinjār\t3632\t4188\t1321\nMosul\t3634\t4312\t1321\nTallkayf\t3649\t4312\t1321\n‘Aqrah\t3676\t4389\t1321\nAd Dujayl\t3385\t4423\t1322\nBalad\t3401\t4415\t1322\nSāmarrā’\t3420\t4389\t1322\nTikrīt\t3462\t4368\t1322\nTozkhurmato\t3489\t4463\t1322\nBayjī\t3493\t4349\t1322\nḨalabjah\t3518\t4599\t1323\nJamjamāl\t3553\t4483\t1323\nAs Sulaymānīyah\t3556\t4543\t1323\nBaynjiwayn\t3562\t4595\t1323\nAl Ḩayy\t3217\t4604\t1324\nAl Kūt\t3251\t4582\t1324\nAl ‘Azīzīyah\t3291\t4506\t1324\nAş Şuwayrah\t3293\t4478\t1324\nKaraj\t3583\t5099\t1325\nNaz̧arābād\t3595\t5061\t1325\nKhalkhāl\t3762\t4853\t1326\nArdabīl\t3825\t4829\t1326\nPārsābād\t3965\t4792\t1326\nBushehr\t2897\t5084\t1327\nBorāzjān\t2927\t5122\t1327\nBandar-e Genāveh\t2958\t5052\t1327\nBorūjen\t3197\t5129\t1328\nFārsān\t3226\t5056\t1328\nFarrokh Shahr\t3227\t5098\t1328\nShahr-e Kord\t3233\t5086\t1328\nBonāb\t3734\t4606\t1329\n‘Ajab Shīr\t3748\t4589\t1329\nHashtrūd\t3748\t4705\t1329\nTabriz\t3808\t4629\t1329\nMarand\t3843\t4577\t1329\nAhar\t3848\t4707\t1329\nMohr\t2756\t5288\t1330\nGerāsh\t2767\t5414\t1330\nDārāb\t2875\t5454\t1330\nFīrūzābād\t2884\t5257\t1330\nFasā\t2894\t5365\t1330\nNeyrīz\t2920\t5433\t1330\nAkbarābād\t2925\t5278\t1330\nShiraz\t2961\t5253\t1330\nKāzerūn\t2962\t5165\t1330\nMarvdasht\t2987\t5280\t1330\nNūrābād\t3011\t5152\t1330\nPāsārgād\t3020\t5318\t1330\nĀbādeh\t3116\t5265\t1330\nPādegān-e Manjīl\t3674\t4942\t1331\nRūdsar\t3714\t5029\t1331\nLangarūd\t3720\t5015\t1331\nFūman\t3722\t4931\t1331\nĀstāneh-ye Ashrafīyeh\t3726\t4994\t1331\nRasht\t3728\t4959\t1331\nBandar-e Anzalī\t3747\t4946\t1331\nHashtpar\t3780\t4891\t1331\nĀstārā\t3843\t4887\t1331\nGorgān\t3684\t5444\t1332\nĀzādshahr\t3709\t5517\t1332\nGonbad-e Kāvūs\t3725\t5517\t1332\nKalāleh\t3738\t5549\t1332\nNahāvand\t3419\t4837\t1333\nMalāyer\t3430\t4882\t1333\nAsadābād\t3478\t4812\t1333\nPasragad Branch\t3478\t4847\t1333\nĀzādshahr\t3479\t4857\t1333\nHamadān\t3480\t4851\t1333\nBahār\t3491\t4844\t1333\nKīsh\t2656\t5402\t1334\nBandar-e Lengeh\t2656\t5488\t1334\nQeshm\t2695\t5627\t1334\nMīnāb\t2713\t5709\t1334\nBandar Abbas\t2719\t5628\t1334\nDehlorān\t3269\t4727\t1335\nĀbdānān\t3299\t4742\t1335\nDarreh Shahr\t3314\t4738\t1335\nĪlām\t3364\t4642\t1335\nSemīrom\t3142\t5157\t1336\nKelīshād va Sūdarjān\t3255\t5153\t1336\nFalāvarjān\t3256\t5151\t1336\nAbrīsham\t3256\t5157\t1336\nQahderījān\t3258\t5145\t1336\nDorcheh Pīāz\t3262\t5156\t1336\nNajafābād\t3263\t5137\t1336\nIsfahan\t3265\t5167\t1336\nRehnān\t3268\t5160\t1336\nKhomeynī Shahr\t3269\t5154\t1336\nDowlatābād\t3280\t5170\t1336\nKhvānsār\t3322\t5031\t1336\nArdestān\t3338\t5237\t1336\nGolpāyegān\t3345\t5029\t1336\nBam\t2911\t5836\t1337\nSirjan\t2945\t5568\t1337\nBardsīr\t2992\t5657\t1337\nShahr-e Bābak\t3012\t5512\t1337\nKerman\t3028\t5708\t1337\nRafsanjān\t3041\t5599\t1337\nZarand\t3081\t5656\t1337\nRāvar\t3127\t5681\t1337\nHarsīn\t3427\t4759\t1338\nKermanshah\t3431\t4707\t1338\nKahrīz\t3438\t4706\t1338\nSarpol-e Z̄ahāb\t3446\t4586\t1338\nKangāvar\t3450\t4797\t1338\nSonqor\t3478\t4760\t1338\nJavānrūd\t3480\t4652\t1338\nPāveh\t3504\t4636\t1338\nAbadan\t3034\t4830\t1339\nKhorramshahr\t3044\t4818\t1339\nBehbahān\t3060\t5024\t1339\nShādegān\t3065\t4866\t1339\nAghajari\t3070\t4983\t1339\nOmīdīyeh\t3076\t4970\t1339\nRāmshīr\t3089\t4941\t1339\nRāmhormoz\t3128\t4960\t1339\nAhvaz\t3132\t4868\t1339\nSūsangerd\t3156\t4819\t1339\nMasjed Soleymān\t3194\t4930\t1339\nShūshtar\t3205\t4885\t1339\nShūsh\t3219\t4824\t1339\nDogonbadan\t3036\t5080\t1340\nYasuj\t3067\t5159\t1340\nDehdasht\t3079\t5056\t1340\nKāmyārān\t3480\t4694\t1341\nQorveh\t3517\t4781\t1341\nSanandaj\t3531\t4700\t1341\nMarīvān\t3552\t4618\t1341\nBījār\t3587\t4761\t1341\nBāneh\t3600\t4589\t1341\nSaqqez\t3625\t4627\t1341\nAlīgūdarz\t3340\t4969\t1342\nKhorramabad\t3349\t4836\t1342\nKūhdasht\t3353\t4761\t1342\nAznā\t3361\t4893\t1342\nAleshtar\t3386\t4826\t1342\nBorūjerd\t3390\t4875\t1342\nNūrābād\t3407\t4797\t1342\nKhomeyn\t3364\t5008\t1343\nDelījān\t3399\t5068\t1343\nArāk\t3409\t4970\t1343\nSāveh\t3502\t5036\t1343\nĀbyek\t3607\t5055\t1343\nĀmol\t3647\t5235\t1344\nBābol\t3655\t5268\t1344\nSari\t3656\t5306\t1344\nJūybār\t3664\t5291\t1344\nNowshahr\t3665\t5150\t1344\nNekā\t3665\t5330\t1344\nChālūs\t3666\t5142\t1344\nFereydūn Kenār\t3668\t5252\t1344\nBehshahr\t3669\t5355\t1344\nBābolsar\t3670\t5265\t1344\nTonekābon\t3682\t5087\t1344\nEsfarāyen\t3708\t5751\t1345\nShīrvān\t3740\t5793\t1345\nBojnūrd\t3747\t5733\t1345\nTākestān\t3607\t4970\t1346\nAlvand\t3619\t5006\t1346\nQazvin\t3627\t5000\t1346\nQom\t3464\t5088\t1347\nGonābād\t3435\t5868\t1348\nTāybād\t3474\t6078\t1348\nKāshmar\t3524\t5847\t1348\nTorbat-e Jām\t3524\t6062\t1348\nBardaskan\t3526\t5797\t1348\nTorbat-e Ḩeydarīyeh\t3527\t5922\t1348\nSabzevar\t3621\t5768\t1348\nNeyshābūr\t3621\t5880\t1348\nMashhad\t3632\t5957\t1348\nSarakhs\t3654\t6116\t1348\nChenārān\t3665\t5912\t1348\nQūchān\t3711\t5851\t1348\nĪstgāh-e Rāh Āhan-e Garmsār\t3523\t5231\t1349\nSemnan\t3558\t5339\t1349\nMahdishahr\t3571\t5335\t1349\nDāmghān\t3617\t5434\t1349\nShahrud\t3642\t5498\t1349\nChabahar\t2529\t6064\t1350\nNīkshahr\t2623\t6021\t1350\nQaşr-e Qand\t2625\t6075\t1350\nIranshahr\t2720\t6068\t1350\nKhāsh\t2822\t6122\t1350\nZahedan\t2950\t6086\t1350\nZābol\t3103\t6149\t1350\nBīrjand\t3287\t5922\t1351\nQā’en\t3373\t5918\t1351\nEqbālīyeh\t3530\t5154\t1352\nPīshvā\t3531\t5173\t1352\nVarāmīn\t3532\t5165\t1352\nQarchak\t3543\t5158\t1352\nRobāţ Karīm\t3548\t5108\t1352\nShahrīār\t3566\t5106\t1352\nMalārd\t3567\t5098\t1352\nShahre Jadide Andisheh\t3568\t5102\t1352\nTehran\t3569\t5142\t1352\nDamāvand\t3572\t5207\t1352\nTakāb\t3640\t4711\t1353\nBūkān\t3652\t4621\t1353\nShāhīn Dezh\t3668\t4657\t1353\nPiranshahr\t3670\t4514\t1353\nMahābād\t3676\t4572\t1353\nNaqadeh\t3696\t4539\t1353\nMīāndoāb\t3697\t4611\t1353\nOshnavīyeh\t3704\t4510\t1353\nOrūmīyeh\t3755\t4508\t1353\nSalmās\t3820\t4477\t1353\nKhowy\t3855\t4495\t1353\nQarah Ẕīā’ od Dīn\t3889\t4503\t1353\nBāfq\t3160\t5540\t1354\nTaft\t3174\t5420\t1354\nYazd\t3190\t5437\t1354\nMeybod\t3225\t5402\t1354\nArdakān\t3231\t5402\t1354\nTabas\t3360\t5692\t1354\nAbhar\t3615\t4922\t1355\nKhorramdarreh\t3621\t4920\t1355\nAlvand\t3632\t4917\t1355\nZanjān\t3668\t4850\t1355\nHafnarfjörður\t6407\t-2194\t1356\nKópavogur\t6411\t-2191\t1356\nReykjavík\t6414\t-2190\t1356\nEgilsstaðir\t6527\t-1439\t1357\nAkureyri\t6568\t-1809\t1358\nSauðárkrókur\t6575\t-1964\t1359\nSelfoss\t6393\t-2100\t1360\nKeflavík\t6400\t-2256\t1361\nBorgarnes\t6454\t-2192\t1362\nÍsafjörður\t6607\t-2313\t1363\nAvezzano\t4203\t1343\t1364\nSan Salvo\t4204\t1473\t1364\nSulmona\t4205\t1393\t1364\nVasto\t4211\t1471\t1364\nLanciano\t4223\t1439\t1364\nL'Aquila\t4235\t1340\t1364\nChieti\t4235\t1416\t1364\nFrancavilla al Mare\t4242\t1428\t1364\nPescara\t4246\t1420\t1364\nMontesilvano Marina\t4251\t1415\t1364\nTeramo\t4266\t1370\t1364\nRoseto degli Abruzzi\t4267\t1401\t1364\nGiulianova\t4275\t1397\t1364\nAosta\t4574\t732\t1365\nCasarano\t4001\t1816\t1366\nGallipoli\t4006\t1799\t1366\nGalatina\t4017\t1817\t1366\nNardò\t4018\t1803\t1366\nCopertino\t4027\t1805\t1366\nLecce\t4035\t1817\t1366\nSava\t4040\t1755\t1366\nManduria\t4040\t1764\t1366\nTaranto\t4046\t1725\t1366\nPaolo VI\t4052\t1727\t1366\nFrancavilla Fontana\t4053\t1759\t1366\nGrottaglie\t4054\t1744\t1366\nMesagne\t4056\t1781\t1366\nGinosa\t4058\t1676\t1366\nPalagiano\t4058\t1704\t1366\nMassafra\t4059\t1712\t1366\nBrindisi\t4063\t1794\t1366\nCeglie Messapica\t4065\t1752\t1366\nSan Vito dei Normanni\t4066\t1771\t1366\nMartina Franca\t4070\t1734\t1366\nOstuni\t4073\t1758\t1366\nSanteramo in Colle\t4079\t1676\t1366\nNoci\t4079\t1713\t1366\nGioia del Colle\t4080\t1692\t1366\nGravina in Puglia\t4082\t1642\t1366\nAltamura\t4083\t1655\t1366\nFasano\t4084\t1736\t1366\nPutignano\t4085\t1712\t1366\nAcquaviva delle Fonti\t4090\t1684\t1366\nMonopoli\t4095\t1730\t1366\nCasamassima\t4096\t1692\t1366\nConversano\t4097\t1711\t1366\nAdelfia\t4100\t1687\t1366\nRutigliano\t4101\t1701\t1366\nNoicattaro\t4103\t1699\t1366\nValenzano\t4104\t1688\t1366\nPalo del Colle\t4106\t1670\t1366\nMola di Bari\t4106\t1709\t1366\nTriggiano\t4107\t1693\t1366\nModugno\t4108\t1678\t1366\nBitonto\t4111\t1669\t1366\nRuvo di Puglia\t4112\t1648\t1366\nSan Paolo\t4112\t1679\t1366\nBari\t4112\t1687\t1366\nTerlizzi\t4113\t1655\t1366\nCorato\t4115\t1641\t1366\nGiovinazzo\t4119\t1667\t1366\nMolfetta\t4120\t1660\t1366\nCanosa di Puglia\t4122\t1607\t1366\nAndria\t4123\t1630\t1366\nBisceglie\t4124\t1650\t1366\nCerignola\t4127\t1590\t1366\nTrani\t4128\t1641\t1366\nBarletta\t4131\t1628\t1366\nOrta Nova\t4133\t1571\t1366\nFoggia\t4146\t1555\t1366\nLucera\t4151\t1534\t1366\nManfredonia\t4163\t1592\t1366\nTorremaggiore\t4169\t1529\t1366\nSan Severo\t4169\t1538\t1366\nSan Giovanni Rotondo\t4171\t1573\t1366\nSannicandro Garganico\t4184\t1557\t1366\nPotenza\t4064\t1581\t1367\nMatera\t4067\t1660\t1367\nReggio Calabria\t3811\t1566\t1368\nSiderno\t3827\t1630\t1368\nPalmi\t3836\t1585\t1368\nGioia Tauro\t3843\t1590\t1368\nVibo Valentia\t3868\t1610\t1368\nCatanzaro\t3888\t1660\t1368\nLamezia Terme\t3896\t1631\t1368\nSambiase\t3897\t1628\t1368\nCrotone\t3908\t1713\t1368\nSan Giovanni in Fiore\t3925\t1670\t1368\nCosenza\t3930\t1625\t1368\nQuattromiglia\t3934\t1624\t1368\nRossano Stazione\t3960\t1663\t1368\nCorigliano Scalo\t3963\t1651\t1368\nCastrovillari\t3982\t1620\t1368\nAgropoli\t4035\t1499\t1369\nBattipaglia\t4061\t1498\t1369\nEboli\t4062\t1506\t1369\nSalerno\t4068\t1479\t1369\nGragnano\t4069\t1452\t1369\nCastellammare di Stabia\t4070\t1449\t1369\nCava Dè Tirreni\t4070\t1471\t1369\nSant'Antonio Abate\t4072\t1454\t1369\nForio\t4074\t1386\t1369\nIschia Porto\t4074\t1395\t1369\nIschia\t4074\t1395\t1369\nAngri\t4074\t1457\t1369\nPagani\t4074\t1461\t1369\nNocera Superiore\t4074\t1467\t1369\nTorre Annunziata\t4075\t1445\t1369\nPompei\t4075\t1450\t1369\nNocera Inferiore\t4075\t1465\t1369\nScafati\t4076\t1454\t1369\nBoscoreale\t4077\t1448\t1369\nTorre del Greco\t4079\t1437\t1369\nBacoli\t4080\t1407\t1369\nTerzigno\t4080\t1449\t1369\nPoggiomarino\t4080\t1454\t1369\nBagnoli\t4081\t1417\t1369\nPosillipo\t4081\t1420\t1369\nErcolano\t4081\t1435\t1369\nSarno\t4081\t1462\t1369\nPortici\t4082\t1434\t1369\nFuorigrotta\t4083\t1420\t1369\nSan Giorgio a Cremano\t4083\t1434\t1369\nPozzuoli\t4084\t1410\t1369\nSan Giovanni a Teduccio\t4084\t1431\t1369\nBarra\t4084\t1432\t1369\nSan Giuseppe Vesuviano\t4084\t1450\t1369\nSoccavo\t4085\t1419\t1369\nNaples\t4085\t1427\t1369\nPonticelli\t4085\t1433\t1369\nOttaviano\t4085\t1448\t1369\nPianura\t4086\t1417\t1369\nCercola\t4086\t1436\t1369\nMonterusciello\t4087\t1408\t1369\nPoggioreale\t4087\t1429\t1369\nVolla\t4087\t1434\t1369\nSant'Anastasia\t4087\t1440\t1369\nSomma Vesuviana\t4087\t1444\t1369\nQuarto\t4088\t1414\t1369\nPiscinola\t4089\t1423\t1369\nMiano\t4089\t1425\t1369\nArpino\t4089\t1432\t1369\nMarano di Napoli\t4090\t1419\t1369\nSecondigliano\t4090\t1427\t1369\nCasavatore\t4090\t1428\t1369\nMugnano di Napoli\t4091\t1421\t1369\nArzano\t4091\t1427\t1369\nCasoria\t4091\t1429\t1369\nCasalnuovo di Napoli\t4091\t1434\t1369\nPomigliano d'Arco\t4091\t1438\t1369\nAvellino\t4091\t1479\t1369\nQualiano\t4092\t1415\t1369\nVillaricca\t4092\t1419\t1369\nMelito di Napoli\t4092\t1423\t1369\nAfragola\t4092\t1431\t1369\nBrusciano\t4092\t1442\t1369\nMarigliano\t4092\t1446\t1369\nGiugliano in Campania\t4093\t1420\t1369\nNola\t4093\t1453\t1369\nSant'Antimo\t4094\t1423\t1369\nGrumo Nevano\t4094\t1426\t1369\nFrattamaggiore\t4094\t1428\t1369\nAcerra\t4094\t1437\t1369\nCardito\t4095\t1430\t1369\nFrattaminore\t4096\t1427\t1369\nOrta di Atella\t4096\t1427\t1369\nCaivano\t4096\t1431\t1369\nAversa\t4097\t1421\t1369\nTrentola-Ducenta\t4098\t1417\t1369\nCasal di Principe\t4101\t1413\t1369\nSan Felice A Cancello\t4102\t1449\t1369\nCastel Volturno\t4103\t1394\t1369\nMarcianise\t4103\t1430\t1369\nMaddaloni\t4104\t1438\t1369\nSan Nicola la Strada\t4105\t1433\t1369\nCaserta\t4107\t1433\t1369\nSanta Maria Capua Vetere\t4108\t1425\t1369\nMondragone\t4111\t1389\t1369\nCapua\t4111\t1421\t1369\nBenevento\t4113\t1478\t1369\nCattolica\t4396\t1274\t1370\nRiccione\t4400\t1266\t1370\nRimini\t4406\t1257\t1370\nCesena\t4414\t1224\t1370\nBellaria-Igea Marina\t4414\t1247\t1370\nCesenatico\t4420\t1240\t1370\nForlì\t4422\t1204\t1370\nCervia\t4426\t1235\t1370\nFaenza\t4429\t1188\t1370\nImola\t4436\t1171\t1370\nRavenna\t4441\t1220\t1370\nLugo\t4442\t1191\t1370\nSan Lazzaro\t4447\t1141\t1370\nVignola\t4448\t1101\t1370\nCasalecchio di Reno\t4448\t1127\t1370\nZola Predosa\t4449\t1122\t1370\nBologna\t4449\t1134\t1370\nSassuolo\t4454\t1078\t1370\nFiorano\t4454\t1081\t1370\nFormigine\t4457\t1085\t1370\nCastel Maggiore\t4458\t1136\t1370\nCastelfranco Emilia\t4459\t1105\t1370\nSan Giovanni in Persiceto\t4464\t1118\t1370\nModena\t4465\t1093\t1370\nReggio nell'Emilia\t4470\t1063\t1370\nCento\t4473\t1129\t1370\nCorreggio\t4477\t1078\t1370\nCarpi Centro\t4478\t1088\t1370\nParma\t4480\t1033\t1370\nSalsomaggiore Terme\t4482\t999\t1370\nFerrara\t4484\t1162\t1370\nFidenza\t4487\t1006\t1370\nMirandola\t4489\t1107\t1370\nPiacenza\t4505\t969\t1370\nTrieste\t4565\t1378\t1371\nMonfalcone\t4580\t1353\t1371\nGorizia\t4594\t1362\t1371\nSacile\t4595\t1250\t1371\nPordenone\t4596\t1266\t1371\nCordenons\t4598\t1270\t1371\nUdine\t4607\t1324\t1371\nGaeta\t4121\t1357\t1372\nFormia\t4126\t1361\t1372\nMinturno\t4126\t1375\t1372\nTerracina\t4129\t1324\t1372\nFondi\t4136\t1343\t1372\nAnzio\t4145\t1262\t1372\nNettuno\t4146\t1266\t1372\nLatina\t4147\t1290\t1372\nCassino\t4149\t1383\t1372\nSezze\t4150\t1306\t1372\nMarina di Ardea-Tor San Lorenzo\t4155\t1254\t1372\nAprilia\t4159\t1265\t1372\nCisterna di Latina\t4159\t1283\t1372\nArdea\t4161\t1254\t1372\nTorvaianica\t4162\t1246\t1372\nFrosinone\t4164\t1334\t1372\nPomezia\t4167\t1250\t1372\nVelletri\t4169\t1278\t1372\nGenzano di Roma\t4171\t1269\t1372\nAriccia\t4172\t1267\t1372\nSora\t4172\t1361\t1372\nLido di Ostia\t4173\t1228\t1372\nAlbano Laziale\t4173\t1266\t1372\nColleferro\t4173\t1300\t1372\nAcilia-Castel Fusano-Ostia Antica\t4176\t1233\t1372\nFiumicino-Isola Sacra\t4177\t1224\t1372\nMarino\t4177\t1266\t1372\nRocca di Papa\t4177\t1270\t1372\nGrottaferrata\t4179\t1267\t1372\nCiampino\t4180\t1260\t1372\nFrascati\t4181\t1268\t1372\nRome\t4189\t1251\t1372\nLadispoli\t4195\t1208\t1372\nVillanova\t4196\t1276\t1372\nTivoli\t4196\t1280\t1372\nCerveteri\t4199\t1209\t1372\nGuidonia\t4199\t1272\t1372\nGuidonia Montecelio\t4199\t1272\t1372\nTor Lupara\t4200\t1262\t1372\nMentana\t4204\t1264\t1372\nMonterotondo\t4205\t1262\t1372\nCivitavecchia\t4209\t1180\t1372\nRieti\t4240\t1286\t1372\nViterbo\t4242\t1211\t1372\nVentimiglia\t4379\t761\t1373\nSan Remo\t4382\t778\t1373\nImperia\t4389\t804\t1373\nAlbenga\t4405\t822\t1373\nLa Spezia\t4410\t982\t1373\nSarzana\t4411\t996\t1373\nSestri Levante\t4427\t940\t1373\nSavona\t4431\t848\t1373\nChiavari\t4432\t932\t1373\nRapallo\t4435\t923\t1373\nGenoa\t4440\t894\t1373\nVoghera\t4499\t901\t1374\nSuzzara\t4499\t1074\t1374\nCremona\t4513\t1002\t1374\nMantova\t4516\t1080\t1374\nPavia\t4519\t916\t1374\nVigevano\t4531\t885\t1374\nLodi\t4531\t950\t1374\nMelegnano\t4536\t932\t1374\nCrema\t4536\t968\t1374\nRozzano\t4538\t916\t1374\nSan Giuliano Milanese\t4539\t929\t1374\nCastiglione delle Stiviere\t4539\t1049\t1374\nAbbiategrasso\t4540\t892\t1374\nGhedi\t4540\t1028\t1374\nSan Donato Milanese\t4541\t927\t1374\nMontichiari\t4541\t1040\t1374\nTrezzano sul Naviglio\t4542\t906\t1374\nRomano Banco\t4542\t911\t1374\nCorsico\t4543\t911\t1374\nCesano Boscone\t4544\t909\t1374\nMagenta\t4546\t888\t1374\nMilan\t4546\t919\t1374\nDesenzano del Garda\t4547\t1054\t1374\nBareggio\t4548\t900\t1374\nSegrate\t4549\t930\t1374\nCornaredo\t4550\t903\t1374\nPioltello\t4550\t933\t1374\nMelzo\t4550\t942\t1374\nVimodrone\t4551\t929\t1374\nTreviglio\t4552\t959\t1374\nRomano di Lombardia\t4552\t975\t1374\nRho\t4553\t904\t1374\nNovate Milanese\t4553\t914\t1374\nSesto San Giovanni\t4553\t923\t1374\nCologno Monzese\t4553\t928\t1374\nCernusco sul Naviglio\t4553\t933\t1374\nGorgonzola\t4553\t941\t1374\nCassano d'Adda\t4553\t952\t1374\nBresso\t4554\t919\t1374\nChiari\t4554\t993\t1374\nBrescia\t4554\t1021\t1374\nNerviano\t4555\t898\t1374\nArese\t4555\t908\t1374\nBollate\t4555\t912\t1374\nCormano\t4555\t916\t1374\nCusano\t4555\t918\t1374\nBrugherio\t4555\t930\t1374\nParabiago\t4556\t895\t1374\nCinisello Balsamo\t4556\t921\t1374\nLainate\t4557\t903\t1374\nGarbagnate Milanese\t4557\t908\t1374\nPaderno Dugnano\t4557\t916\t1374\nSenago\t4558\t913\t1374\nMonza\t4558\t927\t1374\nNova Milanese\t4559\t920\t1374\nMuggiò\t4559\t923\t1374\nLegnano\t4560\t892\t1374\nCaronno Pertusella\t4560\t905\t1374\nLimbiate\t4560\t913\t1374\nPalazzolo sull'Oglio\t4560\t989\t1374\nBusto Arsizio\t4561\t885\t1374\nBovisio-Masciago\t4561\t915\t1374\nLissone\t4561\t924\t1374\nDesio\t4562\t920\t1374\nVimercate\t4562\t937\t1374\nSaronno\t4563\t904\t1374\nCesano Maderno\t4563\t915\t1374\nArcore\t4563\t932\t1374\nSeveso\t4565\t914\t1374\nSeregno\t4565\t921\t1374\nDalmine\t4565\t961\t1374\nSan Sebastiano\t4565\t1026\t1374\nLumezzane\t4565\t1026\t1374\nGallarate\t4566\t879\t1374\nMeda\t4566\t915\t1374\nCassano Magnago\t4567\t883\t1374\nCarate Brianza\t4568\t924\t1374\nSeriate\t4569\t972\t1374\nMariano Comense\t4570\t918\t1374\nGiussano\t4570\t921\t1374\nBergamo\t4570\t967\t1374\nTradate\t4571\t891\t1374\nCantù\t4574\t913\t1374\nMalnate\t4579\t888\t1374\nComo\t4581\t908\t1374\nErba\t4581\t923\t1374\nVarese\t4582\t883\t1374\nLecco\t4586\t940\t1374\nSondrio\t4617\t987\t1374\nCampobasso\t4156\t1467\t1375\nIsernia\t4160\t1423\t1375\nTermoli\t4200\t1499\t1375\nCuneo\t4439\t755\t1376\nMondovì\t4440\t782\t1376\nFossano\t4455\t772\t1376\nSaluzzo\t4465\t749\t1376\nSavigliano\t4465\t766\t1376\nAcqui Terme\t4468\t847\t1376\nBra\t4470\t785\t1376\nAlba\t4470\t803\t1376\nNovi Ligure\t4476\t879\t1376\nCarmagnola\t4485\t772\t1376\nPinerolo\t4489\t733\t1376\nAsti\t4490\t821\t1376\nTortona\t4490\t886\t1376\nAlessandria\t4491\t861\t1376\nPiossasco\t4499\t746\t1376\nNichelino\t4500\t765\t1376\nMoncalieri\t4500\t768\t1376\nOrbassano\t4501\t754\t1376\nChieri\t4501\t782\t1376\nValenza\t4501\t864\t1376\nRivoli\t4507\t751\t1376\nGrugliasco\t4507\t758\t1376\nTurin\t4507\t769\t1376\nCollegno\t4508\t757\t1376\nAlpignano\t4509\t752\t1376\nSan Mauro Torinese\t4510\t777\t1376\nVenaria Reale\t4513\t763\t1376\nCasale Monferrato\t4513\t845\t1376\nSettimo Torinese\t4514\t777\t1376\nChivasso\t4519\t789\t1376\nCiriè\t4523\t760\t1376\nVercelli\t4532\t842\t1376\nTrecate\t4543\t874\t1376\nNovara\t4545\t862\t1376\nIvrea\t4547\t788\t1376\nGalliate\t4548\t870\t1376\nBiella\t4556\t806\t1376\nBorgomanero\t4570\t846\t1376\nVerbania\t4592\t855\t1376\nPallanza-Intra-Suna\t4594\t857\t1376\nDomodossola\t4612\t829\t1376\nCarbonia\t3916\t852\t1377\nCagliari\t3923\t912\t1377\nQuartu Sant'Elena\t3923\t925\t1377\nMonserrato\t3926\t914\t1377\nSelargius\t3926\t916\t1377\nAssemini\t3929\t900\t1377\nSestu\t3930\t909\t1377\nSinnai\t3930\t920\t1377\nIglesias\t3931\t854\t1377\nOristano\t3990\t859\t1377\nNuoro\t4032\t933\t1377\nAlghero\t4056\t832\t1377\nSassari\t4073\t856\t1377\nPorto Torres\t4083\t841\t1377\nOlbia\t4092\t950\t1377\nPachino\t3672\t1509\t1378\nPozzallo\t3673\t1485\t1378\nScicli\t3679\t1470\t1378\nRosolini\t3682\t1495\t1378\nModica\t3686\t1476\t1378\nNoto\t3689\t1507\t1378\nAvola\t3691\t1514\t1378\nRagusa\t3693\t1472\t1378\nVittoria\t3695\t1453\t1378\nComiso\t3695\t1461\t1378\nGela\t3707\t1424\t1378\nFloridia\t3708\t1515\t1378\nSiracusa\t3708\t1529\t1378\nLicata\t3710\t1394\t1378\nNiscemi\t3715\t1439\t1378\nPalma di Montechiaro\t3719\t1377\t1378\nCaltagirone\t3724\t1452\t1378\nAugusta\t3724\t1522\t1378\nPorto Empedocle\t3729\t1352\t1378\nLentini\t3729\t1500\t1378\nScordia\t3730\t1484\t1378\nAgrigento\t3731\t1358\t1378\nFavara\t3732\t1366\t1378\nPalagonia\t3733\t1474\t1378\nCanicattì\t3736\t1385\t1378\nPiazza Armerina\t3738\t1437\t1378\nSan Cataldo\t3748\t1399\t1378\nCaltanissetta\t3749\t1406\t1378\nCatania\t3749\t1507\t1378\nRibera\t3750\t1327\t1378\nSciacca\t3751\t1308\t1378\nMisterbianco\t3752\t1501\t1378\nGravina di Catania\t3756\t1506\t1378\nAci Castello\t3756\t1515\t1378\nEnna\t3757\t1427\t1378\nPaternò\t3757\t1490\t1378\nMascalucia\t3757\t1505\t1378\nSan Giovanni la Punta\t3758\t1509\t1378\nBelpasso\t3759\t1498\t1378\nAci Catena\t3761\t1514\t1378\nAcireale\t3761\t1517\t1378\nBiancavilla\t3764\t1487\t1378\nMazara del Vallo\t3766\t1259\t1378\nAdrano\t3766\t1483\t1378\nCastelvetrano\t3768\t1279\t1378\nGiarre\t3772\t1518\t1378\nBronte\t3779\t1483\t1378\nMarsala\t3780\t1244\t1378\nAlcamo\t3798\t1296\t1378\nTermini Imerese\t3798\t1370\t1378\nTrapani\t3802\t1254\t1378\nCasa Santa\t3803\t1255\t1378\nMisilmeri\t3803\t1345\t1378\nPartinico\t3805\t1312\t1378\nMonreale\t3808\t1329\t1378\nVillabate\t3808\t1344\t1378\nBagheria\t3808\t1351\t1378\nCarini\t3813\t1318\t1378\nPalermo\t3813\t1334\t1378\nBarcellona Pozzo di Gotto\t3815\t1521\t1378\nMessina\t3819\t1555\t1378\nMilazzo\t3822\t1524\t1378\nAscoli Piceno\t4285\t1357\t1379\nSan Benedetto del Tronto\t4296\t1388\t1379\nFermo\t4316\t1372\t1379\nPorto San Giorgio\t4318\t1379\t1379\nTolentino\t4321\t1329\t1379\nPorto Sant'Elpidio\t4325\t1376\t1379\nMacerata\t4330\t1345\t1379\nCivitanova Marche\t4330\t1372\t1379\nFabriano\t4334\t1290\t1379\nOsimo\t4349\t1348\t1379\nJesi\t4352\t1324\t1379\nAncona\t4359\t1350\t1379\nFalconara Marittima\t4363\t1340\t1379\nSenigallia\t4372\t1321\t1379\nFano\t4384\t1302\t1379\nPesaro\t4391\t1292\t1379\nRovereto\t4589\t1104\t1380\nTrento\t4607\t1112\t1380\nBolzano\t4649\t1134\t1380\nMerano\t4667\t1116\t1380\nBressanone\t4672\t1166\t1380\nGrosseto\t4276\t1111\t1381\nPiombino\t4293\t1053\t1381\nFollonica\t4293\t1076\t1381\nCecina\t4331\t1052\t1381\nSiena\t4332\t1133\t1381\nRosignano Solvay-Castiglioncello\t4339\t1044\t1381\nColle di Val d'Elsa\t4342\t1113\t1381\nArezzo\t4346\t1188\t1381\nPoggibonsi\t4347\t1115\t1381\nMontevarchi\t4353\t1157\t1381\nLivorno\t4354\t1033\t1381\nSan Giovanni Valdarno\t4357\t1153\t1381\nPontedera\t4366\t1063\t1381\nCascina\t4368\t1055\t1381\nSan Miniato\t4368\t1085\t1381\nSan Miniato Basso\t4369\t1084\t1381\nPisa\t4371\t1040\t1381\nEmpoli\t4372\t1095\t1381\nScandicci\t4375\t1119\t1381\nFlorence\t4378\t1125\t1381\nCampi Bisenzio\t4382\t1113\t1381\nSesto Fiorentino\t4383\t1120\t1381\nLucca\t4384\t1050\t1381\nCapannori\t4384\t1057\t1381\nViareggio\t4387\t1025\t1381\nMontecatini-Terme\t4388\t1077\t1381\nPrato\t4388\t1110\t1381\nFornacelle\t4392\t1104\t1381\nPistoia\t4393\t1092\t1381\nMontemurlo\t4393\t1104\t1381\nCamaiore\t4394\t1030\t1381\nPietrasanta\t4396\t1023\t1381\nMarina di Massa\t4400\t1011\t1381\nMarina di Carrara\t4404\t1004\t1381\nMassa\t4404\t1014\t1381\nCarrara\t4408\t1010\t1381\nTerni\t4256\t1264\t1382\nSpoleto\t4274\t1274\t1382\nFoligno\t4295\t1270\t1382\nBastia umbra\t4306\t1255\t1382\nPerugia\t4311\t1239\t1382\nCittà di Castello\t4347\t1224\t1382\nRovigo\t4507\t1179\t1383\nLegnago\t4519\t1130\t1383\nEste\t4522\t1166\t1383\nChioggia\t4522\t1228\t1383\nMonselice\t4524\t1175\t1383\nVillafranca di Verona\t4535\t1084\t1383\nAlbignasego\t4535\t1187\t1383\nAbano Terme\t4536\t1179\t1383\nSan Giovanni Lupatoto\t4538\t1104\t1383\nSan Bonifacio\t4540\t1127\t1383\nPadova\t4541\t1189\t1383\nLido\t4541\t1237\t1383\nVerona\t4543\t1098\t1383\nMira Taglio\t4543\t1213\t1383\nVenice\t4544\t1233\t1383\nBussolengo\t4547\t1085\t1383\nMirano\t4549\t1211\t1383\nSpinea-Orgnano\t4549\t1216\t1383\nMestre\t4549\t1225\t1383\nMontecchio Maggiore-Alte Ceccato\t4550\t1141\t1383\nArzignano\t4552\t1133\t1383\nVicenza\t4555\t1155\t1383\nMogliano Veneto\t4556\t1224\t1383\nSan Donà di Piave\t4563\t1257\t1383\nValdagno\t4564\t1130\t1383\nCastelfranco Veneto\t4567\t1193\t1383\nTreviso\t4567\t1224\t1383\nSchio\t4571\t1136\t1383\nThiene\t4571\t1148\t1383\nLancenigo-Villorba\t4571\t1226\t1383\nBassano del Grappa\t4577\t1173\t1383\nMontebelluna\t4578\t1205\t1383\nOderzo\t4578\t1249\t1383\nPortogruaro\t4578\t1284\t1383\nConegliano\t4589\t1230\t1383\nVittorio Veneto\t4598\t1230\t1383\nBelluno\t4614\t1222\t1383\nLe Hocq\t4917\t-206\t1384\nSaint Helier\t4919\t-210\t1385\nMay Pen\t1796\t-7725\t1386\nLucea\t1845\t-7817\t1387\nKingston\t1800\t-7679\t1388\nMandeville\t1804\t-7751\t1389\nPort Antonio\t1818\t-7645\t1390\nHalf Way Tree\t1801\t-7680\t1391\nSaint Ann’s Bay\t1844\t-7720\t1392\nOld Harbour\t1794\t-7711\t1393\nPortmore\t1795\t-7688\t1393\nSpanish Town\t1799\t-7696\t1393\nLinstead\t1814\t-7703\t1393\nMontego Bay\t1847\t-7792\t1394\nPort Maria\t1837\t-7689\t1395\nMorant Bay\t1788\t-7641\t1396\nBlack River\t1803\t-7785\t1397\nFalmouth\t1849\t-7766\t1398\nSavanna-la-Mar\t1822\t-7813\t1399\n‘Anjarah\t3231\t3575\t1400\n‘Ajlūn\t3233\t3575\t1400\nSaḩāb\t3187\t3600\t1401\nUmm as Summāq\t3189\t3585\t1401\nWādī as Sīr\t3195\t3582\t1401\nAmman\t3196\t3595\t1401\nAl Jubayhah\t3201\t3590\t1401\nAqaba\t2953\t3501\t1402\nAs Salţ\t3204\t3573\t1403\nKurayyimah\t3228\t3560\t1404\nJudita\t3241\t3571\t1404\nIrbid\t3256\t3585\t1404\nAr Ramthā\t3256\t3601\t1404\nJarash\t3228\t3590\t1405\nSafi\t3104\t3547\t1406\n‘Izrā\t3116\t3569\t1406\nKarak City\t3116\t3576\t1406\nMādabā\t3172\t3579\t1407\nMafraq\t3234\t3621\t1408\nRukban\t3331\t3870\t1408\nMa'an\t3020\t3573\t1409\nQīr Moāv\t3118\t3570\t1409\nAţ Ţafīlah\t3084\t3560\t1410\nRusseifa\t3202\t3605\t1411\nZarqa\t3207\t3609\t1411\nTahara\t3467\t13727\t1412\nToyohama\t3471\t13693\t1412\nToyohashi\t3477\t13738\t1412\nIshiki\t3480\t13702\t1412\nToyokawa\t3482\t13740\t1412\nGamagōri\t3483\t13723\t1412\nTaketoyo\t3485\t13692\t1412\nNishio\t3487\t13705\t1412\nTokoname\t3488\t13685\t1412\nHanda\t3488\t13693\t1412\nHekinan\t3488\t13698\t1412\nShinshiro\t3490\t13750\t1412\nTakahama\t3492\t13698\t1412\nOkazaki\t3495\t13717\t1412\nAnjō\t3496\t13708\t1412\nKariya\t3498\t13698\t1412\nChiryū\t3500\t13703\t1412\nŌbu\t3502\t13695\t1412\nToyota\t3508\t13715\t1412\nKanie\t3513\t13680\t1412\nTsushima\t3517\t13672\t1412\nNagoya\t3518\t13691\t1412\nSeto\t3523\t13710\t1412\nSobue\t3525\t13672\t1412\nInazawa\t3525\t13678\t1412\nKasugai\t3525\t13697\t1412\nIwakura\t3528\t13687\t1412\nKomaki\t3528\t13692\t1412\nIchinomiya\t3530\t13680\t1412\nKōnan\t3533\t13687\t1412\nKuroda\t3535\t13678\t1412\nInuyama\t3538\t13694\t1412\nYuzawa\t3917\t14050\t1413\nYokote\t3932\t14055\t1413\nŌmagari\t3945\t14048\t1413\nAkita\t3972\t14012\t1413\nTennō\t3990\t13997\t1413\nHanawa\t4018\t14079\t1413\nNoshiro\t4021\t14003\t1413\nTakanosu\t4022\t14037\t1413\nŌdate\t4027\t14056\t1413\nHachinohe\t4050\t14150\t1414\nHirosaki\t4059\t14047\t1414\nKuroishi\t4065\t14058\t1414\nMisawa\t4069\t14139\t1414\nNamioka\t4071\t14059\t1414\nGoshogawara\t4080\t14044\t1414\nShimokizukuri\t4082\t14038\t1414\nAomori\t4082\t14073\t1414\nMutsu\t4129\t14122\t1414\nTateyama\t3498\t13987\t1415\nKamogawa\t3510\t14010\t1415\nKatsuura\t3515\t14032\t1415\nŌhara\t3525\t14039\t1415\nFuttsu\t3531\t13982\t1415\nKimitsu\t3535\t13987\t1415\nKisarazu\t3538\t13993\t1415\nMobara\t3543\t14030\t1415\nIchihara\t3552\t14008\t1415\nŌami\t3552\t14032\t1415\nTōgane\t3555\t14037\t1415\nChiba\t3560\t14012\t1415\nNarutō\t3560\t14042\t1415\nYotsukaidō\t3565\t14017\t1415\nYachimata\t3565\t14032\t1415\nYōkaichiba\t3570\t14055\t1415\nSakura\t3572\t14023\t1415\nShisui\t3572\t14027\t1415\nAsahi\t3572\t14065\t1415\nHasaki\t3573\t14083\t1415\nMatsudo\t3578\t13990\t1415\nNarita\t3578\t14032\t1415\nShiroi\t3580\t14007\t1415\nOmigawa\t3585\t14062\t1415\nNagareyama\t3586\t13990\t1415\nKashiwa\t3586\t13998\t1415\nAbiko\t3587\t14002\t1415\nSawara\t3588\t14050\t1415\nKatori-shi\t3590\t14050\t1415\nNoda\t3595\t13987\t1415\nUwajima\t3322\t13256\t1416\nŌzu\t3350\t13255\t1416\nIyo\t3375\t13270\t1416\nMasaki-chō\t3379\t13271\t1416\nMatsuyama\t3384\t13277\t1416\nSaijō\t3392\t13318\t1416\nNiihama\t3396\t13331\t1416\nHōjō\t3398\t13278\t1416\nKawanoechō\t3402\t13358\t1416\nObama\t3550\t13575\t1417\nTsuruga\t3565\t13606\t1417\nTakefu\t3590\t13617\t1417\nSabae\t3595\t13618\t1417\nOno\t3598\t13649\t1417\nFukui-shi\t3606\t13622\t1417\nKatsuyama\t3606\t13650\t1417\nMaruoka\t3615\t13627\t1417\nMikuni\t3622\t13615\t1417\nŌmuta\t3303\t13045\t1418\nSetakamachi-takayanagi\t3315\t13047\t1418\nYanagawa\t3317\t13040\t1418\nŌkawa\t3321\t13038\t1418\nKurume\t3332\t13052\t1418\nTanushimarumachi-toyoki\t3335\t13068\t1418\nAmagi\t3342\t13065\t1418\nChikushino-shi\t3350\t13052\t1418\nDazaifu\t3351\t13052\t1418\nŌnojō\t3354\t13048\t1418\nMaebaru-chūō\t3356\t13020\t1418\nUmi\t3357\t13051\t1418\nFukuoka\t3360\t13042\t1418\nKawasaki\t3360\t13081\t1418\nBuzen\t3361\t13113\t1418\nSasaguri\t3362\t13055\t1418\nTagawa\t3363\t13080\t1418\nIizuka\t3364\t13069\t1418\nShingū\t3371\t13043\t1418\nMiyata\t3371\t13065\t1418\nKoga\t3373\t13047\t1418\nYukuhashi\t3373\t13098\t1418\nNōgata\t3374\t13072\t1418\nNishifukuma\t3377\t13047\t1418\nKanda\t3378\t13098\t1418\nNakama\t3382\t13071\t1418\nKitakyushu\t3385\t13085\t1418\nIwaki\t3705\t14088\t1419\nIshikawa\t3715\t14045\t1419\nSukagawa\t3728\t14038\t1419\nKōriyama\t3740\t14038\t1419\nMiharu\t3743\t14048\t1419\nFunehikimachi-funehiki\t3745\t14058\t1419\nNamie\t3748\t14100\t1419\nMotomiya\t3751\t14040\t1419\nInawashiro\t3757\t14012\t1419\nNihommatsu\t3758\t14043\t1419\nKitakata\t3765\t13987\t1419\nFukushima\t3775\t14047\t1419\nHobaramachi\t3782\t14055\t1419\nYanagawamachi-saiwaichō\t3785\t14060\t1419\nTajimi\t3532\t13713\t1420\nŌgaki\t3535\t13662\t1420\nToki\t3535\t13718\t1420\nTarui\t3537\t13653\t1420\nKasamatsuchō\t3537\t13677\t1420\nMizunami\t3537\t13725\t1420\nGōdo\t3542\t13660\t1420\nGifu-shi\t3542\t13676\t1420\nKakamigahara\t3542\t13687\t1420\nMitake\t3542\t13713\t1420\nMinokamo\t3548\t13702\t1420\nNakatsugawa\t3548\t13750\t1420\nMino\t3553\t13692\t1420\nGujō\t3574\t13696\t1420\nGero\t3580\t13723\t1420\nTakayama\t3613\t13725\t1420\nTomioka\t3625\t13890\t1421\nYoshii\t3625\t13898\t1421\nFujioka\t3625\t13907\t1421\nTatebayashi\t3625\t13953\t1421\nSakai-nakajima\t3627\t13925\t1421\nTamamura\t3630\t13912\t1421\nŌta\t3630\t13937\t1421\nIsesaki\t3632\t13920\t1421\nAnnaka\t3633\t13890\t1421\nTakasaki\t3633\t13902\t1421\nMaebashi\t3640\t13908\t1421\nKiryū\t3640\t13933\t1421\nKanekomachi\t3641\t13900\t1421\nŌmamachō-ōmama\t3643\t13928\t1421\nShibukawa\t3648\t13900\t1421\nNakanojōmachi\t3659\t13884\t1421\nNumata\t3663\t13905\t1421\nŌtake\t3421\t13222\t1422\nKure\t3423\t13257\t1422\nŌno-hara\t3428\t13227\t1422\nInnoshima\t3428\t13318\t1422\nTakehara\t3434\t13292\t1422\nHatsukaichi\t3435\t13233\t1422\nHiroshima\t3440\t13245\t1422\nMihara\t3440\t13308\t1422\nOnomichi\t3442\t13320\t1422\nFukuyama\t3448\t13337\t1422\nShin’ichi\t3456\t13327\t1422\nKannabechō-yahiro\t3456\t13342\t1422\nFuchūchō\t3457\t13324\t1422\nMiyoshi\t3480\t13285\t1422\nShōbara\t3485\t13302\t1422\nHakodate\t4178\t14074\t1423\nKamiiso\t4182\t14064\t1423\nHonchō\t4189\t14069\t1423\nMuroran\t4232\t14099\t1423\nShizunai-furukawachō\t4233\t14237\t1423\nDate\t4247\t14087\t1423\nShiraoi\t4255\t14135\t1423\nTomakomai\t4264\t14160\t1423\nChitose\t4282\t14165\t1423\nObihiro\t4292\t14320\t1423\nIwanai\t4297\t14051\t1423\nKitahiroshima\t4298\t14157\t1423\nKushiro\t4298\t14437\t1423\nOtofuke\t4299\t14320\t1423\nSapporo\t4307\t14135\t1423\nEbetsu\t4311\t14155\t1423\nOtaru\t4319\t14100\t1423\nYoichi\t4320\t14077\t1423\nIwamizawa\t4320\t14176\t1423\nTōbetsu\t4322\t14152\t1423\nIshikari\t4324\t14135\t1423\nBibai\t4332\t14186\t1423\nNemuro\t4332\t14557\t1423\nShimo-furano\t4335\t14238\t1423\nSunagawa\t4349\t14191\t1423\nAshibetsu\t4351\t14219\t1423\nTakikawa\t4355\t14191\t1423\nShibetsu\t4366\t14513\t1423\nFukagawa\t4371\t14204\t1423\nAsahikawa\t4377\t14236\t1423\nKitami\t4380\t14389\t1423\nMotomachi\t4383\t14410\t1423\nRumoi\t4393\t14164\t1423\nAbashiri\t4402\t14427\t1423\nNayoro\t4435\t14246\t1423\nMombetsu\t4435\t14335\t1423\nMakubetsu\t4537\t14182\t1423\nWakkanai\t4541\t14167\t1423\nFukura\t3426\t13472\t1424\nSumoto\t3434\t13489\t1424\nAkashi\t3466\t13501\t1424\nKobe\t3469\t13518\t1424\nNishinomiya-hama\t3472\t13533\t1424\nAmagasaki\t3472\t13542\t1424\nAshiya\t3473\t13530\t1424\nKariya\t3475\t13439\t1424\nKakogawachō-honmachi\t3477\t13483\t1424\nShirahamachō-usazakiminami\t3478\t13472\t1424\nItami\t3478\t13540\t1424\nAioi\t3480\t13447\t1424\nMiki\t3480\t13498\t1424\nTakarazuka\t3480\t13536\t1424\nHimeji\t3482\t13470\t1424\nKawanishi\t3482\t13542\t1424\nOno\t3485\t13493\t1424\nTatsunochō-tominaga\t3486\t13455\t1424\nSandachō\t3488\t13523\t1424\nYashiro\t3492\t13497\t1424\nNishiwaki\t3498\t13497\t1424\nYamazakichō-nakabirose\t3500\t13455\t1424\nSasayama\t3507\t13522\t1424\nToyooka\t3554\t13482\t1424\nToride\t3590\t14008\t1425\nRyūgasaki\t3590\t14018\t1425\nFujishiro\t3592\t14012\t1425\nMoriya\t3593\t14000\t1425\nItako\t3593\t14055\t1425\nEdosaki\t3595\t14032\t1425\nInashiki\t3596\t14032\t1425\nUshiku\t3597\t14013\t1425\nKashima-shi\t3597\t14064\t1425\nMitsukaidō\t3602\t13998\t1425\nAmi\t3603\t14020\t1425\nIwai\t3605\t13990\t1425\nNaka\t3605\t14017\t1425\nSakai\t3610\t13980\t1425\nIshige\t3612\t13997\t1425\nKoga\t3618\t13972\t1425\nIshioka\t3618\t14027\t1425\nTsukuba\t3620\t14010\t1425\nMakabe\t3627\t14010\t1425\nOkunoya\t3628\t14042\t1425\nYūki\t3630\t13988\t1425\nShimodate\t3630\t13998\t1425\nŌarai\t3631\t14058\t1425\nIwase\t3635\t14010\t1425\nTomobe\t3635\t14030\t1425\nMito\t3635\t14045\t1425\nKasama\t3638\t14027\t1425\nKatsuta\t3638\t14053\t1425\nHitachi-Naka\t3640\t14053\t1425\nFunaishikawa\t3647\t14057\t1425\nŌmiya\t3655\t14042\t1425\nHitachi\t3660\t14065\t1425\nTakahagi\t3672\t14072\t1425\nDaigo\t3677\t14035\t1425\nKitaibaraki\t3679\t14075\t1425\nKomatsu\t3640\t13645\t1426\nTsurugi-asahimachi\t3645\t13663\t1426\nMatsutō\t3652\t13657\t1426\nNonoichi\t3653\t13662\t1426\nKanazawa\t3660\t13662\t1426\nTsubata\t3667\t13674\t1426\nHakui\t3688\t13678\t1426\nNanao\t3705\t13697\t1426\nIchinoseki\t3892\t14113\t1427\nŌfunato\t3907\t14172\t1427\nMizusawa\t3913\t14113\t1427\nKitakami\t3928\t14112\t1427\nKamaishi\t3928\t14187\t1427\nTōno\t3932\t14153\t1427\nŌtsuchi\t3937\t14190\t1427\nHanamaki\t3938\t14112\t1427\nYamada\t3947\t14195\t1427\nMiyako\t3965\t14194\t1427\nShizukuishi\t3969\t14098\t1427\nMorioka\t3970\t14115\t1427\nIchinohe\t4022\t14129\t1427\nKan’onjichō\t3413\t13365\t1428\nTadotsu\t3428\t13375\t1428\nMarugame\t3428\t13378\t1428\nSakaidechō\t3432\t13384\t1428\nShido\t3432\t13417\t1428\nTakamatsu\t3433\t13405\t1428\nTonoshō\t3448\t13417\t1428\nNaze\t2837\t12948\t1429\nNishinoomote\t3073\t13100\t1429\nIbusuki\t3123\t13065\t1429\nMakurazaki\t3127\t13032\t1429\nKanoya\t3138\t13085\t1429\nKaseda-shirakame\t3142\t13032\t1429\nTarumizu\t3148\t13070\t1429\nShibushi\t3148\t13110\t1429\nKagoshima\t3157\t13055\t1429\nIjūin\t3162\t13040\t1429\nSueyoshichō-ninokata\t3165\t13102\t1429\nKushikino\t3172\t13027\t1429\nHamanoichi\t3172\t13073\t1429\nKajiki\t3173\t13067\t1429\nKokubu-matsuki\t3173\t13077\t1429\nSatsumasendai\t3182\t13030\t1429\nAkune\t3202\t13020\t1429\nŌkuchi-shinohara\t3207\t13062\t1429\nIzumi\t3208\t13037\t1429\nMiura\t3514\t13962\t1430\nYugawara\t3515\t13907\t1430\nOdawara\t3526\t13916\t1430\nHayama\t3528\t13958\t1430\nYokosuka\t3528\t13967\t1430\nZushi\t3529\t13958\t1430\nNinomiya\t3530\t13926\t1430\nKamakura\t3531\t13955\t1430\nŌiso\t3532\t13932\t1430\nHiratsuka\t3533\t13934\t1430\nChigasaki\t3534\t13940\t1430\nFujisawa\t3535\t13948\t1430\nHadano\t3537\t13922\t1430\nIsehara\t3540\t13931\t1430\nYokohama\t3543\t13965\t1430\nAtsugi\t3544\t13937\t1430\nZama\t3549\t13939\t1430\nMinamirinkan\t3550\t13944\t1430\nKawasaki\t3552\t13972\t1430\nSukumo\t3293\t13273\t1431\nNakamura\t3298\t13293\t1431\nMuroto-misakicho\t3329\t13417\t1431\nSusaki\t3339\t13329\t1431\nAki\t3350\t13390\t1431\nIno\t3355\t13343\t1431\nKochi\t3355\t13353\t1431\nUshibukamachi\t3220\t13002\t1432\nMinamata\t3222\t13040\t1432\nHitoyoshi\t3222\t13075\t1432\nHondomachi-hondo\t3246\t13017\t1432\nHonmachi\t3250\t13060\t1432\nMatsubase\t3265\t13067\t1432\nUto\t3268\t13067\t1432\nKumamoto\t3281\t13069\t1432\nŌzu\t3288\t13087\t1432\nUekimachi-mōno\t3290\t13069\t1432\nAso\t3294\t13108\t1432\nTamana\t3295\t13057\t1432\nKikuchi\t3298\t13082\t1432\nYamaga\t3302\t13069\t1432\nTanabe\t3482\t13577\t1433\nYawata\t3487\t13570\t1433\nUji\t3489\t13580\t1433\nMukō\t3497\t13570\t1433\nKameoka\t3500\t13558\t1433\nArashiyama\t3501\t13568\t1433\nKyoto\t3502\t13575\t1433\nKamigyō-ku\t3503\t13576\t1433\nFukuchiyama\t3530\t13512\t1433\nAyabe\t3530\t13525\t1433\nMaizuru\t3545\t13533\t1433\nMiyazu\t3553\t13518\t1433\nOwase\t3407\t13620\t1434\nIse\t3448\t13670\t1434\nToba\t3448\t13684\t1434\nNabari\t3462\t13608\t1434\nHisai-motomachi\t3467\t13647\t1434\nTsu\t3473\t13652\t1434\nUeno-ebisumachi\t3476\t13613\t1434\nKawage\t3480\t13655\t1434\nKameyama\t3485\t13645\t1434\nSuzuka\t3488\t13658\t1434\nYokkaichi\t3497\t13662\t1434\nKomono\t3500\t13652\t1434\nKuwana\t3505\t13667\t1434\nMarumori\t3792\t14077\t1435\nKakuda\t3797\t14077\t1435\nShiroishi\t3800\t14062\t1435\nWatari\t3803\t14085\t1435\nŌkawara\t3805\t14073\t1435\nIwanuma\t3810\t14086\t1435\nSendai\t3827\t14087\t1435\nShiogama\t3832\t14103\t1435\nRifu\t3833\t14098\t1435\nMatsushima\t3837\t14106\t1435\nTomiya\t3839\t14089\t1435\nIshinomaki\t3842\t14130\t1435\nYamoto\t3843\t14121\t1435\nWakuya\t3854\t14113\t1435\nKogota\t3855\t14105\t1435\nFurukawa\t3857\t14096\t1435\nKushima\t3149\t13124\t1436\nNichinan\t3160\t13137\t1436\nMiyakonojō\t3173\t13107\t1436\nMiyazaki\t3192\t13142\t1436\nKobayashi\t3198\t13098\t1436\nTsuma\t3210\t13140\t1436\nTakanabe\t3213\t13150\t1436\nNobeoka\t3258\t13167\t1436\nIida\t3552\t13782\t1437\nIna\t3583\t13795\t1437\nTatsuno\t3598\t13800\t1437\nChino\t3599\t13815\t1437\nSuwa\t3604\t13811\t1437\nOkaya\t3606\t13805\t1437\nShiojiri\t3610\t13797\t1437\nSaku\t3622\t13848\t1437\nMatsumoto\t3623\t13797\t1437\nToyoshina\t3630\t13790\t1437\nKamimaruko\t3632\t13827\t1437\nKomoro\t3632\t13843\t1437\nHotaka\t3634\t13788\t1437\nUeda\t3640\t13828\t1437\nŌmachi\t3650\t13787\t1437\nNagano\t3665\t13818\t1437\nSuzaka\t3665\t13832\t1437\nNakano\t3675\t13837\t1437\nIiyama\t3685\t13837\t1437\nFukuechō\t3270\t12885\t1438\nNagasaki\t3275\t12988\t1438\nShimabara\t3278\t13037\t1438\nObita\t3282\t12988\t1438\nTogitsu\t3283\t12985\t1438\nIsahaya\t3284\t13004\t1438\nŌmura\t3292\t12995\t1438\nSasebo\t3317\t12973\t1438\nHirado\t3337\t12955\t1438\nGojō\t3435\t13570\t1439\nGose\t3445\t13573\t1439\nSakurai\t3450\t13585\t1439\nKashihara-shi\t3451\t13579\t1439\nHaibara-akanedai\t3453\t13595\t1439\nTawaramoto\t3455\t13579\t1439\nTenri\t3458\t13583\t1439\nHōryūji\t3461\t13574\t1439\nIkoma\t3468\t13570\t1439\nNara-shi\t3469\t13580\t1439\nArai\t3700\t13823\t1440\nItoigawa\t3703\t13785\t1440\nShiozawa\t3704\t13885\t1440\nMuikamachi\t3707\t13888\t1440\nTōkamachi\t3713\t13877\t1440\nJōetsu\t3715\t13824\t1440\nOjiya\t3730\t13880\t1440\nKashiwazaki\t3737\t13855\t1440\nNagaoka\t3745\t13885\t1440\nTochio-honchō\t3748\t13900\t1440\nMitsuke\t3753\t13893\t1440\nSanjō\t3762\t13895\t1440\nTsubame\t3766\t13893\t1440\nKamo\t3766\t13904\t1440\nYoshida-kasugachō\t3768\t13888\t1440\nMuramatsu\t3769\t13917\t1440\nGosen\t3773\t13917\t1440\nMaki\t3775\t13888\t1440\nShirone\t3776\t13902\t1440\nNiitsu-honchō\t3780\t13912\t1440\nSuibara\t3785\t13923\t1440\nKameda-honchō\t3787\t13911\t1440\nNiigata\t3789\t13901\t1440\nShibata\t3795\t13933\t1440\nRyōtsu-minato\t3808\t13844\t1440\nMurakami\t3823\t13948\t1440\nSaiki\t3295\t13190\t1441\nTsukumiura\t3308\t13187\t1441\nUsuki\t3312\t13180\t1441\nŌita\t3323\t13160\t1441\nTsurusaki\t3325\t13169\t1441\nTsukawaki\t3328\t13116\t1441\nBeppu\t3328\t13150\t1441\nHita\t3332\t13094\t1441\nHiji\t3337\t13153\t1441\nKitsuki\t3342\t13162\t1441\nBungo-Takada-shi\t3356\t13145\t1441\nNakatsu\t3360\t13119\t1441\nKasaoka\t3451\t13350\t1442\nTamano\t3452\t13395\t1442\nKamogatachō-kamogata\t3454\t13359\t1442\nKurashiki\t3458\t13377\t1442\nIbara\t3460\t13347\t1442\nOkayama\t3465\t13393\t1442\nSōja\t3468\t13375\t1442\nTakahashi\t3478\t13362\t1442\nNiimi\t3498\t13347\t1442\nTsuyama\t3505\t13400\t1442\nIshigaki\t2434\t12416\t1443\nHirara\t2480\t12530\t1443\nItoman\t2613\t12767\t1443\nTomigusuku\t2619\t12768\t1443\nNaha\t2622\t12768\t1443\nGinowan\t2626\t12776\t1443\nChatan\t2631\t12777\t1443\nKatsuren-haebaru\t2633\t12787\t1443\nOkinawa\t2634\t12780\t1443\nGushikawa\t2636\t12787\t1443\nIshikawa\t2642\t12782\t1443\nNago\t2662\t12799\t1443\nIzumisano\t3442\t13532\t1444\nKaizuka\t3445\t13535\t1444\nKishiwada\t3447\t13537\t1444\nIzumi\t3448\t13543\t1444\nIzumiōtsu\t3450\t13540\t1444\nTondabayashichō\t3450\t13560\t1444\nTakaishi\t3452\t13543\t1444\nMatsubara\t3457\t13555\t1444\nSakai\t3458\t13547\t1444\nKashihara\t3458\t13562\t1444\nYao\t3462\t13560\t1444\nOsaka\t3469\t13550\t1444\nDaitōchō\t3471\t13562\t1444\nMoriguchi\t3473\t13557\t1444\nKadoma\t3474\t13557\t1444\nSuita\t3476\t13552\t1444\nNeyagawa\t3477\t13563\t1444\nToyonaka\t3478\t13547\t1444\nHirakata\t3481\t13565\t1444\nIkeda\t3482\t13543\t1444\nIbaraki\t3482\t13557\t1444\nMino\t3483\t13547\t1444\nTakatsuki\t3485\t13562\t1444\nUreshinomachi-shimojuku\t3311\t13000\t1445\nKashima\t3311\t13009\t1445\nTakeochō-takeo\t3319\t13002\t1445\nSaga\t3323\t13030\t1445\nImarichō-kō\t3327\t12988\t1445\nKanzakimachi-kanzaki\t3331\t13037\t1445\nTosu\t3337\t13052\t1445\nKaratsu\t3344\t12997\t1445\nWako\t3579\t13962\t1446\nTokorozawa\t3580\t13947\t1446\nAsaka\t3580\t13960\t1446\nKawaguchi\t3581\t13971\t1446\nShimotoda\t3582\t13969\t1446\nYashio\t3582\t13984\t1446\nShiki\t3583\t13958\t1446\nHatogaya-honchō\t3583\t13974\t1446\nSōka\t3584\t13980\t1446\nHannō\t3585\t13932\t1446\nSayama\t3585\t13941\t1446\nŌi\t3585\t13952\t1446\nKamifukuoka\t3587\t13951\t1446\nYono\t3588\t13963\t1446\nKoshigaya\t3589\t13979\t1446\nYoshikawa\t3589\t13984\t1446\nKawagoe\t3591\t13949\t1446\nSaitama\t3591\t13966\t1446\nMorohongō\t3594\t13930\t1446\nSakado\t3596\t13939\t1446\nIwatsuki\t3596\t13970\t1446\nAgeoshimo\t3597\t13961\t1446\nHasuda\t3597\t13965\t1446\nKasukabe\t3598\t13975\t1446\nChichibu\t3599\t13908\t1446\nOkegawa\t3600\t13956\t1446\nShiraoka\t3602\t13966\t1446\nSugito\t3603\t13973\t1446\nOgawa\t3605\t13927\t1446\nKōnosu\t3607\t13952\t1446\nShōbu\t3607\t13960\t1446\nKukichūō\t3607\t13967\t1446\nSatte\t3607\t13973\t1446\nFukiage-fujimi\t3610\t13945\t1446\nKisai\t3610\t13958\t1446\nYorii\t3612\t13919\t1446\nKazo\t3612\t13960\t1446\nKumagaya\t3613\t13939\t1446\nKurihashi\t3613\t13970\t1446\nGyōda\t3614\t13946\t1446\nHanyū\t3617\t13953\t1446\nKodamachō-kodamaminami\t3618\t13913\t1446\nMenuma\t3622\t13938\t1446\nHonjō\t3624\t13919\t1446\nMinakuchichō-matoba\t3497\t13617\t1447\nŌtsu\t3500\t13587\t1447\nHino\t3500\t13625\t1447\nKusatsu\t3502\t13597\t1447\nMoriyama\t3507\t13598\t1447\nYoukaichi\t3512\t13620\t1447\nŌmihachiman\t3513\t13610\t1447\nKitahama\t3517\t13592\t1447\nHikone\t3525\t13625\t1447\nNagahama\t3538\t13627\t1447\nMasuda\t3467\t13185\t1448\nHamada\t3488\t13208\t1448\nGōtsuchō\t3501\t13223\t1448\nŌdachō-ōda\t3519\t13251\t1448\nIzumo\t3537\t13277\t1448\nYasugichō\t3542\t13324\t1448\nHiratachō\t3543\t13282\t1448\nMatsue\t3548\t13305\t1448\nŌyama\t3460\t13822\t1449\nShimoda\t3468\t13894\t1449\nSagara\t3469\t13820\t1449\nHamamatsu\t3470\t13773\t1449\nIwata\t3470\t13785\t1449\nFukuroi\t3475\t13792\t1449\nKakegawa\t3477\t13802\t1449\nHamakita\t3480\t13778\t1449\nKanaya\t3482\t13813\t1449\nShimada\t3482\t13818\t1449\nMori\t3483\t13793\t1449\nFujieda\t3487\t13827\t1449\nYaizu\t3487\t13832\t1449\nItō\t3497\t13908\t1449\nShizuoka\t3498\t13838\t1449\nAtami\t3509\t13905\t1449\nNumazu\t3510\t13887\t1449\nMishima\t3512\t13892\t1449\nFuji\t3517\t13868\t1449\nFujinomiya\t3522\t13862\t1449\nGotenba\t3532\t13894\t1449\nFujioka\t3625\t13965\t1450\nOyama\t3630\t13980\t1450\nSano\t3632\t13958\t1450\nAshikaga\t3633\t13945\t1450\nTanuma\t3637\t13958\t1450\nTochigi\t3638\t13973\t1450\nMibu\t3642\t13980\t1450\nKaminokawa\t3643\t13992\t1450\nMooka\t3643\t14002\t1450\nMashiko\t3647\t14010\t1450\nMotegi\t3652\t14018\t1450\nKanuma\t3655\t13973\t1450\nUtsunomiya\t3657\t13988\t1450\nKarasuyama\t3665\t14015\t1450\nUjiie\t3668\t13997\t1450\nImaichi\t3672\t13968\t1450\nNikkō\t3675\t13962\t1450\nYaita\t3680\t13993\t1450\nŌtawara\t3687\t14003\t1450\nKuroiso\t3697\t14005\t1450\nAnan\t3392\t13465\t1451\nKomatsushimachō\t3400\t13458\t1451\nIkedachō\t3403\t13381\t1451\nWakimachi\t3407\t13415\t1451\nKamojimachō-jōgejima\t3407\t13435\t1451\nIshii\t3407\t13444\t1451\nTokushima\t3407\t13457\t1451\nNarutochō-mitsuishi\t3420\t13461\t1451\nMachida\t3554\t13945\t1452\nHachiōji\t3566\t13932\t1452\nChōfu\t3566\t13955\t1452\nHino\t3567\t13940\t1452\nUrayasu\t3567\t13989\t1452\nTokyo\t3569\t13969\t1452\nKokubunji\t3570\t13948\t1452\nMusashino\t3571\t13956\t1452\nItsukaichi\t3573\t13922\t1452\nNishi-Tokyo-shi\t3573\t13954\t1452\nFussa\t3574\t13932\t1452\nHigashimurayama\t3575\t13947\t1452\nŌme\t3578\t13924\t1452\nYonago\t3543\t13333\t1453\nKurayoshi\t3543\t13382\t1453\nTottori\t3550\t13423\t1453\nSakaiminato\t3554\t13323\t1453\nFukumitsu\t3656\t13687\t1454\nNanto-shi\t3657\t13691\t1454\nYatsuomachi-higashikumisaka\t3657\t13713\t1454\nToyama\t3670\t13722\t1454\nKamiichi\t3670\t13737\t1454\nTakaoka\t3675\t13702\t1454\nNamerikawa\t3676\t13736\t1454\nNishishinminato\t3678\t13708\t1454\nUozu\t3680\t13740\t1454\nHimimachi\t3686\t13699\t1454\nKurobe-shi\t3690\t13745\t1454\nNyūzen\t3694\t13750\t1454\nTanabe\t3373\t13537\t1455\nShingū\t3373\t13598\t1455\nGobō\t3388\t13517\t1455\nKainan\t3415\t13521\t1455\nMinato\t3422\t13515\t1455\nWakayama\t3423\t13517\t1455\nIwade\t3425\t13532\t1455\nHashimoto\t3432\t13562\t1455\nYonezawa\t3791\t14012\t1456\nTakahata\t3800\t14019\t1456\nNagai\t3810\t14004\t1456\nKaminoyama\t3815\t14027\t1456\nYamagata\t3823\t14037\t1456\nTendō\t3835\t14037\t1456\nSagae\t3837\t14027\t1456\nHigashine\t3844\t14040\t1456\nObanazawa\t3860\t14040\t1456\nTsuruoka\t3872\t13982\t1456\nShinjō\t3876\t14030\t1456\nSakata\t3892\t13985\t1456\nYuza\t3902\t13993\t1456\nUbe\t3394\t13125\t1457\nShimonoseki\t3395\t13095\t1457\nHikari\t3396\t13195\t1457\nYanai\t3397\t13212\t1457\nOnoda\t3400\t13118\t1457\nKudamatsu\t3400\t13187\t1457\nHōfu\t3405\t13157\t1457\nTokuyama\t3405\t13182\t1457\nOgōri-shimogō\t3410\t13140\t1457\nIwakuni\t3416\t13222\t1457\nYamaguchi\t3418\t13147\t1457\nNagato\t3438\t13120\t1457\nHagi\t3440\t13142\t1457\nFujiyoshida\t3544\t13880\t1458\nFujikawaguchiko\t3549\t13869\t1458\nŌtsuki\t3562\t13897\t1458\nUenohara\t3562\t13912\t1458\nRyūō\t3565\t13850\t1458\nIsawa\t3565\t13863\t1458\nKōfu\t3567\t13857\t1458\nNirasaki\t3570\t13845\t1458\nEnzan\t3570\t13873\t1458\nHokuto\t3583\t13840\t1458\nKabarnet\t49\t3574\t1459\nSotik Post\t-78\t3534\t1460\nBungoma\t56\t3456\t1461\nWebuye\t60\t3477\t1461\nLugulu\t39\t3430\t1462\nBusia\t46\t3411\t1462\nIten\t67\t3551\t1463\nEmbu\t-54\t3746\t1464\nGarissa\t-45\t3965\t1465\nHoma Bay\t-53\t3446\t1466\nIsiolo\t35\t3758\t1467\nKajiado\t-185\t3678\t1468\nKakamega\t28\t3475\t1469\nMumias\t33\t3449\t1469\nKericho\t-37\t3528\t1470\nKiambu\t-117\t3684\t1471\nKilifi\t-363\t3985\t1472\nMalindi\t-322\t4012\t1472\nKerugoya\t-50\t3728\t1473\nKisii\t-68\t3477\t1474\nMuhoroni\t-16\t3520\t1475\nKisumu\t-10\t3476\t1475\nKitui\t-137\t3801\t1476\nKwale\t-417\t3945\t1477\nNanyuki\t1\t3707\t1478\nNyahururu\t4\t3636\t1478\nRumuruti\t27\t3654\t1478\nLamu\t-227\t4090\t1479\nMachakos\t-152\t3727\t1480\nAthi River\t-146\t3698\t1480\nMakueni Boma\t-180\t3762\t1481\nWote\t-178\t3763\t1481\nMandera\t394\t4186\t1482\nMarsabit\t233\t3799\t1483\nMoyale\t353\t3906\t1483\nMeru\t5\t3766\t1484\nMigori\t-106\t3447\t1485\nMombasa\t-405\t3966\t1486\nMurang’a\t-72\t3715\t1487\nKaruri\t-70\t3718\t1487\nNairobi\t-128\t3682\t1488\nThika\t-103\t3707\t1488\nNaivasha\t-71\t3643\t1489\nNakuru\t-31\t3607\t1489\nMolo\t-25\t3573\t1489\nRongai\t-17\t3586\t1489\nKapsabet\t20\t3510\t1490\nNarok\t-108\t3587\t1491\nNyamira\t-56\t3494\t1492\nOl Kalou\t-27\t3638\t1493\nNyeri\t-42\t3695\t1494\nMaralal\t110\t3670\t1495\nSiaya\t6\t3429\t1496\nMwatate\t-350\t3838\t1497\nVoi\t-340\t3856\t1497\nHola\t-148\t4003\t1498\nKathwana\t-33\t3787\t1499\nKitale\t102\t3501\t1500\nLodwar\t312\t3560\t1501\nEldoret\t52\t3527\t1502\nMbale\t8\t3472\t1503\nWajir\t175\t4006\t1504\nKapenguria\t124\t3511\t1505\nIsfana\t3984\t6953\t1506\nSuluktu\t3994\t6957\t1506\nBatken\t4006\t7082\t1506\nKyzyl-Kyya\t4026\t7213\t1506\nIradan\t4027\t7210\t1506\nBishkek\t4287\t7459\t1507\nKara-Balta\t4281\t7385\t1508\nTokmok\t4284\t7530\t1508\nKant\t4289\t7485\t1508\nKyzyl-Suu\t4234\t7801\t1509\nBalykchy\t4246\t7619\t1509\nKarakol\t4249\t7839\t1509\nCholpon-Ata\t4265\t7708\t1509\nJalal-Abad\t4093\t7300\t1510\nBazar-Korgon\t4104\t7275\t1510\nTash-Kumyr\t4135\t7222\t1510\nToktogul\t4187\t7294\t1510\nAt-Bashi\t4117\t7580\t1511\nNaryn\t4143\t7599\t1511\nOsh\t4053\t7280\t1512\nKara Suu\t4070\t7287\t1512\nUzgen\t4077\t7330\t1512\nTalas\t4252\t7224\t1513\nSisophon\t1359\t10297\t1514\nPaoy Paet\t1366\t10256\t1514\nBattambang\t1310\t10320\t1515\nKampong Cham\t1199\t10546\t1516\nKampong Chhnang\t1225\t10467\t1517\nKampong Speu\t1145\t10452\t1518\nKampong Thom\t1271\t10489\t1519\nKampot\t1061\t10418\t1520\nTa Khmau\t1148\t10495\t1521\nKrong Kep\t1048\t10432\t1522\nSmach Mean Chey\t1155\t10304\t1523\nKoh Kong\t1162\t10298\t1523\nKratié\t1249\t10602\t1524\nSen Monorom\t1246\t10719\t1525\nPailin\t1285\t10261\t1526\nPhnom Penh\t1156\t10492\t1527\nSihanoukville\t1061\t10353\t1528\nTbeng Meanchey\t1381\t10498\t1529\nPrey Veng\t1149\t10533\t1530\nPursat\t1254\t10392\t1531\nLumphat\t1349\t10698\t1532\nBanlung\t1374\t10699\t1532\nSiem Reap\t1336\t10386\t1533\nStung Treng\t1353\t10597\t1534\nSvay Rieng\t1109\t10580\t1535\nPhumĭ Véal Srê\t1098\t10478\t1536\nTakeo\t1099\t10478\t1536\nSuong\t1191\t10566\t1537\nSamraong\t1418\t10352\t1538\nTarawa\t133\t17298\t1539\nMoutsamoudou\t-1217\t4440\t1540\nMoroni\t-1170\t4326\t1541\nFomboni\t-1229\t4374\t1542\nNicola Town\t1738\t-6275\t1543\nMiddle Island\t1733\t-6281\t1544\nSandy Point Town\t1736\t-6285\t1545\nBasseterre\t1730\t-6272\t1546\nMarket Shop\t1713\t-6257\t1547\nNewcastle\t1720\t-6258\t1548\nDieppe Bay Town\t1741\t-6281\t1549\nFig Tree\t1713\t-6260\t1550\nCayon\t1735\t-6273\t1551\nSaint Paul’s\t1741\t-6284\t1552\nCharlestown\t1713\t-6262\t1553\nMonkey Hill\t1732\t-6273\t1554\nCotton Ground\t1717\t-6262\t1555\nTrinity\t1730\t-6278\t1556\nKanggye\t4097\t12659\t1557\nManp’o\t4115\t12629\t1557\nHoeyang\t3871\t12760\t1558\nKosan\t3886\t12742\t1558\nT’ongch’ŏn-ŭp\t3895\t12789\t1558\nAnbyŏn-ŭp\t3904\t12752\t1558\nWŏnsan\t3915\t12744\t1558\nKilju\t4096\t12933\t1559\nKyŏngsŏng\t4159\t12961\t1559\nRanam\t4171\t12968\t1559\nChongjin\t4180\t12978\t1559\nMusan-ŭp\t4223\t12921\t1559\nHoeryŏng\t4244\t12975\t1559\nAoji\t4252\t13040\t1559\nNamyang\t4295\t12986\t1559\nOnsŏng\t4296\t12999\t1559\nSinmak\t3842\t12623\t1560\nAnak\t3851\t12549\t1560\nSariwŏn\t3851\t12576\t1560\nHwangju-ŭp\t3867\t12578\t1560\nSongnim\t3875\t12565\t1560\nHŭkkyo-ri\t3880\t12579\t1560\nChŏngju\t3969\t12521\t1561\nKujang-ŭp\t3987\t12603\t1561\nKusŏng\t3998\t12524\t1561\nSinŭiju\t4010\t12440\t1561\nŬiju\t4020\t12453\t1561\nSakchu-ŭp\t4039\t12505\t1561\nChunghwa\t3886\t12580\t1562\nSŭngho 1-tong\t3899\t12598\t1562\nPyongyang\t3903\t12575\t1562\nKangdong-ŭp\t3914\t12610\t1562\nSunan\t3920\t12569\t1562\nRajin\t4226\t13028\t1563\nSŏnbong\t4235\t13038\t1563\nKowŏn-ŭp\t3944\t12724\t1564\nHŭngnam\t3983\t12762\t1564\nHamhŭng\t3992\t12754\t1564\nSamho-rodongjagu\t3995\t12787\t1564\nYŏnggwang-ŭp\t4002\t12745\t1564\nYuktae-dong\t4002\t12816\t1564\nHongwŏn\t4003\t12796\t1564\nIwŏn-ŭp\t4032\t12866\t1564\nYŏnan-ŭp\t3791\t12616\t1565\nOngjin\t3793\t12536\t1565\nKaesŏng\t3797\t12655\t1565\nHaeju\t3804\t12571\t1565\nAyang-ni\t3824\t12578\t1565\nChangyŏn\t3825\t12510\t1565\nChaeryŏng-ŭp\t3840\t12562\t1565\nNamp’o\t3874\t12541\t1566\nP’yŏngsŏng\t3925\t12587\t1566\nSunch’ŏn\t3943\t12593\t1566\nSil-li\t3949\t12547\t1566\nSinanju\t3960\t12561\t1566\nAnju\t3962\t12566\t1566\nKapsan-ŭp\t4109\t12829\t1567\nHyesan\t4140\t12818\t1567\nHyesan-dong\t4140\t12819\t1567\nBusan\t3510\t12903\t1568\nGijang\t3524\t12921\t1568\nKinzan\t3610\t12749\t1569\nYŏnmu\t3613\t12710\t1569\nNonsan\t3620\t12708\t1569\nBuyeo\t3627\t12691\t1569\nBoryeong\t3635\t12660\t1569\nGongju\t3646\t12712\t1569\nHongseong\t3660\t12667\t1569\nYesan\t3668\t12684\t1569\nSeosan\t3678\t12645\t1569\nAsan\t3678\t12700\t1569\nCheonan\t3681\t12715\t1569\nTangjin\t3689\t12663\t1569\nSeonghwan\t3692\t12713\t1569\nTaesal-li\t3697\t12645\t1569\nHwawŏn\t3580\t12850\t1570\nDaegu\t3587\t12859\t1570\nDaejeon\t3635\t12738\t1571\nSintansin\t3645\t12743\t1571\nNeietsu\t3718\t12847\t1572\nT’aebaek\t3718\t12899\t1572\nWŏnju\t3735\t12795\t1572\nSantyoku\t3744\t12917\t1572\nTonghae\t3754\t12911\t1572\nHongch’ŏn\t3769\t12789\t1572\nGangneung\t3775\t12887\t1572\nChuncheon\t3787\t12773\t1572\nHwacheon\t3811\t12771\t1572\nYanggu\t3811\t12799\t1572\nSokcho\t3821\t12859\t1572\nKosong\t3838\t12847\t1572\nMasan\t3513\t12683\t1573\nGwangju\t3515\t12692\t1573\nAnseong\t3701\t12727\t1574\nOsan\t3715\t12707\t1574\nHwaseong-si\t3721\t12682\t1574\nIcheon-si\t3728\t12744\t1574\nSuwon\t3729\t12701\t1574\nPubal\t3729\t12751\t1574\nYeoju\t3730\t12763\t1574\nAnsan-si\t3732\t12682\t1574\nAnyang-si\t3739\t12693\t1574\nGwangju\t3741\t12726\t1574\nSeongnam-si\t3744\t12714\t1574\nKwangmyŏng\t3748\t12687\t1574\nYangp'yŏng\t3749\t12749\t1574\nBucheon-si\t3750\t12678\t1574\nHanam\t3754\t12721\t1574\nWabu\t3759\t12722\t1574\nGuri-si\t3760\t12714\t1574\nNamyangju\t3764\t12721\t1574\nHwado\t3765\t12731\t1574\nGoyang-si\t3766\t12684\t1574\nUijeongbu-si\t3774\t12705\t1574\nYangju\t3783\t12706\t1574\nGapyeong\t3783\t12751\t1574\nMunsan\t3786\t12679\t1574\nGyeongsan-si\t3582\t12874\t1575\nGyeongju\t3584\t12921\t1575\nHayang\t3591\t12882\t1575\nEisen\t3597\t12893\t1575\nWaegwan\t3599\t12840\t1575\nYeonil\t3600\t12935\t1575\nPohang\t3603\t12936\t1575\nBakjagol\t3604\t12805\t1575\nGumi\t3611\t12834\t1575\nHeunghae\t3611\t12935\t1575\nGimcheon\t3612\t12812\t1575\nKunwi\t3623\t12857\t1575\nJenzan\t3624\t12830\t1575\nSangju\t3642\t12816\t1575\nCheongsong gun\t3643\t12906\t1575\nAndong\t3657\t12872\t1575\nMungyeong\t3659\t12820\t1575\nEisen\t3682\t12863\t1575\nKyosai\t3485\t12859\t1576\nSinhyeon\t3488\t12863\t1576\nGoseong\t3498\t12832\t1576\nChinju\t3519\t12808\t1576\nChangwon\t3523\t12868\t1576\nKimhae\t3523\t12888\t1576\nNaesŏ\t3525\t12852\t1576\nYangsan\t3534\t12903\t1576\nUngsang\t3541\t12917\t1576\nMiryang\t3549\t12875\t1576\nChangnyeong\t3554\t12850\t1576\nIncheon\t3746\t12671\t1577\nGanghwa-gun\t3775\t12649\t1577\nSeogwipo\t3325\t12656\t1578\nGaigeturi\t3346\t12632\t1578\nJeju City\t3351\t12652\t1578\nNangen\t3541\t12739\t1579\nKoch'ang\t3543\t12670\t1579\nJeongeup\t3560\t12692\t1579\nImsil\t3561\t12728\t1579\nChangsu\t3565\t12752\t1579\nPuan\t3573\t12673\t1579\nJinan-gun\t3579\t12743\t1579\nKimje\t3580\t12689\t1579\nJeonju\t3582\t12715\t1579\nWanju\t3585\t12715\t1579\nIksan\t3594\t12695\t1579\nGunsan\t3598\t12671\t1579\nHaenam\t3457\t12660\t1580\nYeosu\t3476\t12766\t1580\nYeongam\t3480\t12670\t1580\nMokpo\t3481\t12639\t1580\nSinan\t3483\t12611\t1580\nBeolgyo\t3485\t12734\t1580\nSuncheon\t3495\t12749\t1580\nKwangyang\t3498\t12759\t1580\nMuan\t3499\t12648\t1580\nNaju\t3503\t12672\t1580\nHwasun\t3506\t12699\t1580\nKurye\t3521\t12746\t1580\nYeonggwang\t3528\t12651\t1580\nYeongdong\t3617\t12778\t1581\nOkcheon\t3630\t12757\t1581\nCheongju-si\t3664\t12749\t1581\nKoesan\t3681\t12779\t1581\nChinch'ŏn\t3686\t12744\t1581\nSejong\t3659\t12729\t1582\nSeoul\t3757\t12698\t1583\nUlsan\t3554\t12932\t1584\nKuwait City\t2937\t4798\t1585\nAd Dasmah\t2937\t4800\t1585\nAl Aḩmadī\t2908\t4808\t1586\nAl Faḩāḩīl\t2908\t4813\t1586\nAl Manqaf\t2910\t4813\t1586\nAr Riqqah\t2915\t4809\t1586\nAl Mahbūlah\t2915\t4813\t1586\nAl Finţās\t2917\t4812\t1586\nJanūb as Surrah\t2927\t4798\t1587\nAl Farwānīyah\t2928\t4796\t1587\nAl Jahrā’\t2934\t4766\t1588\nḨawallī\t2933\t4803\t1589\nMubārak al Kabīr\t2919\t4809\t1590\nŞabāḩ as Sālim\t2926\t4806\t1590\nBodden Town\t1928\t-8125\t1591\nEast End\t1930\t-8112\t1592\nGeorge Town\t1929\t-8137\t1593\nNorth Side\t1935\t-8120\t1594\nLittle Cayman\t1966\t-8011\t1595\nWest Bay\t1937\t-8142\t1596\nShalqar\t4783\t5960\t1597\nEmbi\t4883\t5815\t1597\nKandyagash\t4947\t5742\t1597\nKhromtau\t5025\t5844\t1597\nAktobe\t5028\t5721\t1597\nAlmaty\t4326\t7693\t1598\nTalghar\t4330\t7724\t1599\nBurunday\t4336\t7685\t1599\nEsik\t4336\t7745\t1599\nOtegen Batyra\t4342\t7702\t1599\nKapshagay\t4387\t7706\t1599\nZharkent\t4417\t8001\t1599\nTekeli\t4483\t7883\t1599\nTaldykorgan\t4502\t7837\t1599\nUsh-Tyube\t4525\t7798\t1599\nSarkand\t4541\t7992\t1599\nAtbasar\t5181\t6836\t1600\nStepnogorsk\t5235\t7188\t1600\nMakinsk\t5263\t7042\t1600\nShchuchinsk\t5294\t7019\t1600\nKokshetau\t5328\t6940\t1600\nAkkol’\t5330\t6960\t1600\nNur-Sultan\t5118\t7145\t1601\nQulsary\t4695\t5402\t1602\nBalykshi\t4707\t5187\t1602\nAtyrau\t4712\t5188\t1602\nShalkar\t4803\t4890\t1602\nBaikonur\t4562\t6332\t1603\nZaysan\t4747\t8487\t1604\nAyagoz\t4796\t8043\t1604\nGeorgīevka\t4933\t8157\t1604\nZyryanovsk\t4973\t8427\t1604\nUst-Kamenogorsk\t4997\t8261\t1604\nRidder\t5034\t8351\t1604\nSemey\t5043\t8027\t1604\nShemonaīkha\t5063\t8191\t1604\nBalqash\t4685\t7500\t1605\nZhezqazghan\t4778\t6777\t1605\nAbay\t4964\t7286\t1605\nShakhtinsk\t4971\t7259\t1605\nSoran\t4979\t7284\t1605\nKaragandy\t4980\t7310\t1605\nTemirtau\t5005\t7296\t1605\nArkalyk\t5025\t6692\t1606\nDzhetygara\t5219\t6120\t1606\nLisakovsk\t5255\t6250\t1606\nRudnyy\t5297\t6312\t1606\nKostanay\t5321\t6362\t1606\nYanykurgan\t4391\t6725\t1607\nShīeli\t4417\t6674\t1607\nTasbuget\t4477\t6555\t1607\nKyzylorda\t4485\t6551\t1607\nZhosaly\t4549\t6408\t1607\nNovokazalinsk\t4585\t6215\t1607\nAral\t4680\t6166\t1607\nZhanaozen\t4334\t5286\t1608\nAktau\t4365\t5117\t1608\nPetropavl\t5487\t6915\t1609\nEkibastuz\t5172\t7532\t1610\nAksu\t5204\t7693\t1610\nPavlodar\t5228\t7697\t1610\nShymkent\t4230\t6960\t1611\nChardara\t4126\t6797\t1612\nSaryaghash\t4146\t6917\t1612\nLenger\t4218\t6989\t1612\nBelyye Vody\t4242\t6983\t1612\nArys\t4243\t6881\t1612\nTurar Ryskulov\t4253\t7035\t1612\nTurkestan\t4330\t6825\t1612\nKentau\t4352\t6850\t1612\nAqsay\t5117\t5300\t1613\nOral\t5123\t5137\t1613\nMerke\t4287\t7318\t1614\nTaraz\t4290\t7137\t1614\nSarykemer\t4300\t7150\t1614\nKaratau\t4318\t7047\t1614\nZhangatas\t4356\t6973\t1614\nChu\t4360\t7376\t1614\nAttapeu\t1481\t10683\t1615\nBan Houakhoua\t2025\t10045\t1616\nBan Houayxay\t2027\t10042\t1616\nPakxan\t1839\t10366\t1617\nMuang Không\t1412\t10585\t1618\nPakse\t1512\t10580\t1618\nXam Nua\t2042\t10405\t1619\nThakhèk\t1741\t10483\t1620\nLuang Namtha\t2095\t10140\t1621\nLuang Prabang\t1989\t10214\t1622\nMuang Xay\t2069\t10198\t1623\nPhôngsali\t2168\t10210\t1624\nSalavan\t1572\t10642\t1625\nSavannakhet\t1657\t10476\t1626\nMuang Phôn-Hông\t1850\t10242\t1627\nVangviang\t1892\t10245\t1627\nVientiane\t1797\t10260\t1628\nSainyabuli\t1926\t10171\t1629\nMuang Phônsavan\t1945\t10319\t1630\nSekong\t1535\t10672\t1631\nHalba\t3454\t3608\t1632\nBaalbek\t3401\t3622\t1633\nBeirut\t3389\t3550\t1634\nZahlé\t3385\t3590\t1635\nBaabda\t3383\t3554\t1636\nJounieh\t3398\t3562\t1636\nJbaïl\t3412\t3565\t1636\nNabatîyé et Tahta\t3338\t3548\t1637\nHabboûch\t3341\t3548\t1637\nBcharré\t3425\t3601\t1638\nTripoli\t3443\t3584\t1638\nEn Nâqoûra\t3312\t3514\t1639\nTyre\t3327\t3519\t1639\nGhazieh\t3352\t3537\t1639\nSidon\t3356\t3537\t1639\nAnse La Raye\t1395\t-6104\t1640\nCastries\t1400\t-6101\t1641\nChoiseul\t1377\t-6105\t1642\nDennery\t1391\t-6089\t1643\nGros Islet\t1407\t-6095\t1644\nLaborie\t1375\t-6098\t1645\nMicoud\t1382\t-6090\t1646\nSoufrière\t1386\t-6106\t1647\nVieux Fort\t1372\t-6095\t1648\nBalzers\t4707\t950\t1649\nEschen\t4721\t952\t1650\nGamprin\t4722\t951\t1651\nMauren\t4722\t954\t1652\nPlanken\t4719\t954\t1653\nRuggell\t4724\t953\t1654\nSchaan\t4716\t951\t1655\nSchellenberg\t4723\t955\t1656\nTriesen\t4711\t953\t1657\nTriesenberg\t4712\t954\t1658\nVaduz\t4714\t952\t1659\nHatton\t689\t8060\t1660\nNuwara Eliya\t697\t8078\t1660\nGampola\t716\t8057\t1660\nKandy\t729\t8063\t1660\nMatale\t747\t8062\t1660\nDambulla\t786\t8065\t1660\nAmpara\t730\t8168\t1661\nKalmunai\t741\t8183\t1661\nBatticaloa\t771\t8169\t1661\nEravur Town\t778\t8160\t1661\nVakarai\t813\t8143\t1661\nTrincomalee\t858\t8123\t1661\nAnuradhapura\t831\t8041\t1662\nKurunegala\t748\t8037\t1663\nChilaw\t758\t7980\t1663\nPuttalam\t804\t7983\t1663\nVavuniya\t875\t8050\t1664\nJaffna\t967\t8001\t1664\nValvedditturai\t982\t8017\t1664\nPoint Pedro\t982\t8023\t1664\nRatnapura\t669\t8040\t1665\nKegalle\t725\t8034\t1665\nDevinuwara\t593\t8059\t1666\nMatara\t595\t8054\t1666\nWeligama\t598\t8043\t1666\nGalle\t605\t8021\t1666\nAmbalangoda\t624\t8005\t1666\nBentota\t643\t8000\t1666\nKataragama\t641\t8133\t1667\nBadulla\t698\t8106\t1667\nBeruwala\t648\t7998\t1668\nKalutara\t658\t7996\t1668\nPanadura\t671\t7990\t1668\nMoratuwa\t677\t7988\t1668\nDehiwala-Mount Lavinia\t684\t7987\t1668\nHomagama\t684\t8000\t1668\nMaharagama\t685\t7993\t1668\nSri Jayewardenepura Kotte\t688\t7991\t1668\nPita Kotte\t689\t7990\t1668\nBattaramulla South\t690\t7992\t1668\nHanwella Ihala\t690\t8009\t1668\nKolonnawa\t693\t7988\t1668\nKotikawatta\t693\t7991\t1668\nMulleriyawa\t693\t7993\t1668\nColombo\t694\t7985\t1668\nKelaniya\t696\t7992\t1668\nPeliyagoda\t697\t7988\t1668\nHendala\t699\t7988\t1668\nWattala\t699\t7989\t1668\nWelisara\t703\t7990\t1668\nKandana\t705\t7989\t1668\nJa Ela\t707\t7989\t1668\nKatunayaka\t717\t7989\t1668\nNegombo\t721\t7984\t1668\nTubmanburg\t687\t-1082\t1669\nGbarnga\t700\t-947\t1670\nBopolu\t707\t-1049\t1671\nBuchanan\t588\t-1005\t1672\nRobertsport\t675\t-1137\t1673\nZwedru\t607\t-814\t1674\nBarclayville\t467\t-823\t1675\nVoinjama\t842\t-975\t1676\nKakata\t653\t-1035\t1677\nHarper\t438\t-771\t1678\nMonrovia\t630\t-1080\t1679\nBensonville\t645\t-1061\t1679\nSanniquellie\t736\t-871\t1680\nNew Yekepa\t758\t-854\t1680\nCestos City\t546\t-958\t1681\nFish Town\t520\t-788\t1682\nGreenville\t501\t-904\t1683\nTeyateyaneng\t-2915\t2775\t1684\nButha-Buthe\t-2877\t2825\t1685\nMaputsoe\t-2889\t2790\t1686\nLeribe\t-2887\t2805\t1686\nMafeteng\t-2982\t2724\t1687\nMaseru\t-2932\t2748\t1688\nMohale’s Hoek\t-3015\t2748\t1689\nMokhotlong\t-2929\t2907\t1690\nQacha’s Nek\t-3012\t2869\t1691\nQuthing\t-3040\t2770\t1692\nThaba-Tseka\t-2952\t2861\t1693\nDruskininkai\t5402\t2399\t1694\nAlytus\t5440\t2404\t1694\nKaunas\t5490\t2391\t1695\nJonava\t5508\t2428\t1695\nKėdainiai\t5529\t2397\t1695\nSilute\t5535\t2148\t1696\nKlaipėda\t5571\t2114\t1696\nGargždai\t5571\t2139\t1696\nKretinga\t5589\t2124\t1696\nPalanga\t5592\t2107\t1696\nMarijampolė\t5456\t2335\t1697\nPanevėžys\t5573\t2435\t1698\nRokiškis\t5596\t2559\t1698\nRadviliskis\t5582\t2353\t1699\nŠiauliai\t5593\t2332\t1699\nTaurage\t5525\t2229\t1700\nPlunge\t5591\t2184\t1701\nTelsiai\t5598\t2225\t1701\nMazeikiai\t5632\t2233\t1701\nUtena\t5550\t2560\t1702\nVisaginas\t5560\t2644\t1702\nVilnius\t5469\t2528\t1703\nUkmerge\t5525\t2475\t1703\nDiekirch\t4987\t616\t1704\nDudelange\t4948\t609\t1705\nEsch-sur-Alzette\t4950\t598\t1705\nGrevenmacher\t4968\t644\t1706\nLuxembourg\t4961\t613\t1707\nMersch\t4975\t611\t1708\nRedange-sur-Attert\t4976\t589\t1709\nWiltz\t4997\t593\t1710\nDaugavpils\t5588\t2653\t1711\nIlūkste\t5598\t2630\t1711\nDagda\t5610\t2754\t1711\nAglona\t5613\t2701\t1711\nRucava\t5616\t2116\t1711\nAknīste\t5616\t2575\t1711\nNereta\t5620\t2531\t1711\nVecvārkava\t5620\t2651\t1711\nRiebiņi\t5634\t2680\t1711\nNīca\t5635\t2106\t1711\nViesīte\t5635\t2556\t1711\nZilupe\t5639\t2812\t1711\nVaiņode\t5642\t2185\t1711\nPilsrundāle\t5642\t2402\t1711\nPriekule\t5645\t2159\t1711\nZelmeņi\t5645\t2335\t1711\nAuce\t5646\t2290\t1711\nSala\t5651\t2576\t1711\nGrobiņa\t5654\t2117\t1711\nViļāni\t5655\t2692\t1711\nCibla\t5655\t2788\t1711\nLieģi\t5658\t2133\t1711\nIecava\t5660\t2421\t1711\nVecumnieki\t5661\t2452\t1711\nJaunjelgava\t5661\t2508\t1711\nPļaviņas\t5662\t2573\t1711\nSkrīveri\t5665\t2512\t1711\nKoknese\t5665\t2544\t1711\nSkrunda\t5668\t2202\t1711\nBrocēni\t5668\t2257\t1711\nOzolnieki\t5669\t2378\t1711\nAizpute\t5672\t2160\t1711\nLielvārde\t5672\t2481\t1711\nJaunpils\t5673\t2301\t1711\nBaldone\t5674\t2440\t1711\nĶegums\t5675\t2472\t1711\nKārsava\t5678\t2769\t1711\nIkšķile\t5683\t2450\t1711\nPāvilosta\t5689\t2119\t1711\nĒrgļi\t5690\t2564\t1711\nLubāna\t5690\t2672\t1711\nPiņķi\t5694\t2391\t1711\nUlbroka\t5694\t2430\t1711\nBaltinava\t5694\t2764\t1711\nSmārde\t5695\t2334\t1711\nCesvaine\t5697\t2631\t1711\nAlsunga\t5698\t2156\t1711\nRugāji\t5700\t2713\t1711\nMālpils\t5701\t2496\t1711\nKandava\t5704\t2277\t1711\nGarkalne\t5704\t2442\t1711\nVecpiebalga\t5706\t2582\t1711\nInčukalns\t5710\t2469\t1711\nCarnikava\t5713\t2428\t1711\nLoja\t5715\t2464\t1711\nRagana\t5718\t2471\t1711\nJaunpiebalga\t5718\t2603\t1711\nViļaka\t5718\t2767\t1711\nLīgatne\t5723\t2504\t1711\nDrabeši\t5724\t2528\t1711\nPriekuļi\t5732\t2536\t1711\nRauna\t5733\t2561\t1711\nMērsrags\t5734\t2312\t1711\nStalbe\t5737\t2503\t1711\nMūrmuiža\t5747\t2549\t1711\nDundaga\t5750\t2235\t1711\nRoja\t5750\t2281\t1711\nKocēni\t5752\t2534\t1711\nApe\t5754\t2669\t1711\nStrenči\t5763\t2569\t1711\nMatīši\t5770\t2516\t1711\nSalacgrīva\t5775\t2436\t1711\nAloja\t5777\t2488\t1711\nMazsalaca\t5786\t2505\t1711\nNaukšēni\t5788\t2546\t1711\nRūjiena\t5790\t2533\t1711\nAizkraukle\t5660\t2526\t1712\nAlūksne\t5742\t2705\t1713\nBalvi\t5713\t2727\t1714\nBauska\t5641\t2419\t1715\nCēsis\t5731\t2527\t1716\nDobele\t5662\t2328\t1717\nGulbene\t5718\t2675\t1718\nJelgava\t5665\t2371\t1719\nJēkabpils\t5650\t2586\t1720\nJūrmala\t5697\t2377\t1721\nKrāslava\t5590\t2717\t1722\nKuldīga\t5697\t2196\t1723\nLiepāja\t5650\t2101\t1724\nLimbaži\t5751\t2472\t1725\nLudza\t5654\t2772\t1726\nLīvāni\t5635\t2618\t1727\nMadona\t5685\t2622\t1728\nMārupe\t5691\t2405\t1729\nOgre\t5682\t2461\t1730\nOlaine\t5679\t2394\t1731\nPreiļi\t5629\t2672\t1732\nRiga\t5695\t2411\t1733\nBerģi\t5699\t2430\t1733\nRopaži\t5697\t2463\t1734\nRēzekne\t5651\t2734\t1735\nSalaspils\t5686\t2437\t1736\nSaldus\t5666\t2249\t1737\nSaulkrasti\t5726\t2441\t1738\nSigulda\t5715\t2486\t1739\nSmiltene\t5742\t2590\t1740\nTalsi\t5725\t2258\t1741\nTukums\t5697\t2316\t1742\nValka\t5778\t2601\t1743\nValmiera\t5754\t2543\t1744\nVarakļāni\t5661\t2675\t1745\nVentspils\t5739\t2156\t1746\nĀdaži\t5707\t2434\t1747\nĶekava\t5683\t2423\t1748\nTobruk\t3209\t2395\t1749\nAl Bayḑā’\t3276\t2176\t1750\nAl ‘Azīzīyah\t3253\t1302\t1751\nHūn\t2913\t1595\t1752\nWaddān\t2916\t1614\t1752\nAt Tāj\t2420\t2329\t1753\nAl Jawf\t2420\t2329\t1753\nAl Abyār\t3219\t2060\t1754\nAl Marj\t3249\t2083\t1754\nTūkrah\t3253\t2058\t1754\nTarhuna\t3244\t1363\t1755\nMasallātah\t3262\t1400\t1755\nAl Khums\t3265\t1426\t1755\nAjdabiya\t3076\t2023\t1756\nAz Zuwaytīnah\t3095\t2012\t1756\nAl Ajaylat\t3276\t1238\t1757\nZuwārah\t3293\t1208\t1757\nZalţan\t3295\t1187\t1757\nZawiya\t3275\t1273\t1758\nŞurmān\t3276\t1257\t1758\nAz Zāwīyah\t3276\t1273\t1758\nŞabrātah\t3279\t1249\t1758\nQaryat Sulūq\t3167\t2025\t1759\nBenghazi\t3211\t2007\t1759\nAl Qubbah\t3276\t2224\t1760\nDarnah\t3277\t2264\t1760\nGhat\t2496\t1018\t1761\nMizdah\t3145\t1299\t1762\nZintan\t3193\t1225\t1762\nYafran\t3206\t1253\t1762\nGharyan\t3217\t1302\t1762\nBani Walid\t3175\t1398\t1763\nMişrātah\t3238\t1509\t1763\nZliten\t3247\t1457\t1763\nMurzuq\t2592\t1392\t1764\nNālūt\t3187\t1098\t1765\nSabhā\t2704\t1443\t1766\nAl Jadīd\t2705\t1440\t1766\nSirte\t3121\t1659\t1767\nTagiura\t3288\t1335\t1768\nTripoli\t3289\t1319\t1768\nUbari\t2659\t1278\t1769\nIdrī\t2745\t1305\t1770\nBrak\t2755\t1427\t1770\nBeni Mellal\t3234\t-635\t1771\nAl Fqih Ben Çalah\t3250\t-669\t1771\nKasba Tadla\t3260\t-627\t1771\nMidelt\t3269\t-475\t1771\nOued Zem\t3286\t-657\t1771\nKhouribga\t3288\t-691\t1771\nBoujniba\t3290\t-677\t1771\nKhenifra\t3293\t-566\t1771\nSidi Bennour\t3265\t-843\t1772\nSettat\t3300\t-762\t1772\nEl Jadid\t3326\t-851\t1772\nBerrechid\t3327\t-759\t1772\nAzemmour\t3329\t-834\t1772\nCasablanca\t3359\t-761\t1772\nMohammedia\t3369\t-738\t1772\nBouznika\t3379\t-716\t1772\nZagora\t3033\t-584\t1773\nOuarzazat\t3092\t-689\t1773\nReçani\t3128\t-427\t1773\nArfoud\t3144\t-423\t1773\nTinghir\t3151\t-553\t1773\nErrachidia\t3193\t-443\t1773\nAzrou\t3343\t-522\t1774\nIfrane\t3353\t-511\t1774\nEl Hajeb\t3369\t-537\t1774\nSefrou\t3383\t-483\t1774\nMeknès\t3389\t-555\t1774\nFès\t3403\t-500\t1774\nTahla\t3405\t-442\t1774\nTaza\t3421\t-401\t1774\nGuercif\t3423\t-335\t1774\nTaounate\t3454\t-464\t1774\nTan-Tan\t2844\t-1110\t1775\nGuelmim\t2899\t-1006\t1775\nSmara\t2674\t-1167\t1776\nSetti Fatma\t3123\t-768\t1777\nEssaouira\t3151\t-977\t1777\nMarrakesh\t3163\t-800\t1777\nYoussoufia\t3225\t-853\t1777\nSafi\t3230\t-924\t1777\nBouarfa\t3253\t-196\t1778\nAïn Beni Mathar\t3401\t-203\t1778\nJerada\t3431\t-216\t1778\nTaourirt\t3441\t-290\t1778\nEl Aïoun\t3458\t-251\t1778\nOujda-Angad\t3468\t-191\t1778\nBerkane\t3492\t-232\t1778\nZaïo\t3494\t-273\t1778\nAhfir\t3495\t-210\t1778\nAl Aaroui\t3501\t-301\t1778\nNador\t3517\t-293\t1778\nOulmes\t3343\t-600\t1779\nKhemisset\t3382\t-607\t1779\nSkhirate\t3385\t-703\t1779\nTiflet\t3389\t-631\t1779\nTemara\t3393\t-691\t1779\nSalé Al Jadida\t3400\t-674\t1779\nRabat\t3401\t-683\t1779\nSale\t3405\t-680\t1779\nSidi Qacem\t3422\t-571\t1779\nKenitra\t3426\t-658\t1779\nSidi Slimane\t3426\t-593\t1779\nSidi Yahia El Gharb\t3430\t-630\t1779\nMechraa Bel Ksiri\t3457\t-596\t1779\nSouq Larb’a al Gharb\t3469\t-600\t1779\nSidi Ifni\t2938\t-1017\t1780\nTiznit\t2970\t-973\t1780\nOulad Teïma\t3039\t-921\t1780\nAgadir\t3042\t-960\t1780\nTaroudant\t3047\t-888\t1780\nOuezzane\t3480\t-558\t1781\nKsar El Kebir\t3500\t-590\t1781\nBni Bouayach\t3511\t-384\t1781\nImzouren\t3515\t-385\t1781\nChefchaouene\t3517\t-526\t1781\nLarache\t3519\t-616\t1781\nTirhanimîne\t3524\t-395\t1781\nAl Hoceïma\t3525\t-394\t1781\nAsilah\t3547\t-603\t1781\nTétouan\t3558\t-537\t1781\nMartil\t3562\t-528\t1781\nTangier\t3577\t-580\t1781\nFnidek\t3585\t-536\t1781\nMonaco\t4373\t742\t1782\nAnenii Noi\t4688\t2923\t1783\nBasarabeasca\t4633\t2896\t1784\nBender\t4683\t2948\t1785\nBriceni\t4836\t2708\t1786\nBălţi\t4776\t2793\t1787\nCahul\t4590\t2820\t1788\nCantemir\t4628\t2820\t1789\nChisinau\t4701\t2886\t1790\nCimişlia\t4653\t2876\t1791\nCriuleni\t4721\t2916\t1792\nCălăraşi\t4726\t2831\t1793\nCăuşeni\t4664\t2941\t1794\nDonduşeni\t4824\t2761\t1795\nDrochia\t4804\t2781\t1796\nCocieri\t4730\t2912\t1797\nFloreşti\t4789\t2829\t1798\nFălești\t4758\t2771\t1799\nCeadîr-Lunga\t4606\t2883\t1800\nComrat\t4629\t2866\t1800\nGlodeni\t4778\t2752\t1801\nHînceşti\t4683\t2859\t1802\nIaloveni\t4694\t2878\t1803\nLeova\t4648\t2825\t1804\nNisporeni\t4708\t2817\t1805\nOrhei\t4738\t2882\t1806\nEdineţ\t4817\t2730\t1807\nOcniţa\t4838\t2744\t1808\nRezina\t4775\t2897\t1809\nRîşcani\t4795\t2756\t1810\nSoroca\t4816\t2828\t1811\nŞtefan Vodă\t4651\t2966\t1812\nStrășeni\t4714\t2861\t1813\nSîngerei\t4764\t2814\t1814\nBilicenii Vechi\t4766\t2805\t1814\nTaraclia\t4590\t2867\t1815\nTeleneşti\t4750\t2837\t1816\nSlobozia\t4673\t2970\t1817\nTiraspol\t4684\t2963\t1817\nDubăsari\t4727\t2917\t1817\nRîbniţa\t4777\t2901\t1817\nUngheni\t4721\t2780\t1818\nŞoldăneşti\t4782\t2880\t1819\nAndrijevica\t4273\t1979\t1820\nBar\t4209\t1910\t1821\nBerane\t4284\t1987\t1822\nBijelo Polje\t4304\t1975\t1823\nBudva\t4229\t1884\t1824\nCetinje\t4239\t1891\t1825\nDanilovgrad\t4255\t1915\t1826\nGusinje\t4256\t1983\t1827\nHerceg Novi\t4245\t1854\t1828\nKotor\t4242\t1877\t1829\nMojkovac\t4296\t1958\t1830\nKolašin\t4282\t1952\t1831\nNikšić\t4277\t1894\t1832\nPlav\t4260\t1995\t1833\nPlužine\t4315\t1884\t1834\nŠavnik\t4296\t1910\t1835\nŽabljak\t4315\t1912\t1836\nPetnjica\t4291\t1996\t1837\nPljevlja\t4336\t1936\t1838\nPodgorica\t4244\t1926\t1839\nRožaje\t4283\t2017\t1840\nTivat\t4244\t1869\t1841\nTuzi\t4237\t1933\t1842\nUlcinj\t4193\t1922\t1843\nMarigot\t1807\t-6308\t1844\nIfatsy\t-2240\t4775\t1845\nManakara\t-2215\t4801\t1845\nAmboanjo\t-2200\t4785\t1845\nIkongo\t-2188\t4743\t1845\nIfanadiana\t-2130\t4763\t1845\nMananjary\t-2123\t4834\t1845\nSahavato\t-2060\t4833\t1845\nNosy Varika\t-2058\t4853\t1845\nMoramanga\t-1895\t4823\t1846\nAmbatondrazaka\t-1783\t4842\t1846\nAmparafaravola\t-1759\t4822\t1846\nAndilamena\t-1701\t4857\t1846\nAmbatofinandrahana\t-2055\t4680\t1847\nAmbositra\t-2053\t4724\t1847\nFandriana\t-2023\t4738\t1847\nAlarobia\t-1897\t4773\t1848\nManjakandriana\t-1892\t4780\t1848\nAntananarivo\t-1891\t4754\t1848\nAmbohitrolomahitsy\t-1870\t4768\t1848\nAnkazondandy\t-1870\t4778\t1848\nSadabe\t-1863\t4770\t1848\nAnjozorobe\t-1840\t4787\t1848\nAnkazobe\t-1832\t4712\t1848\nVavatenina\t-1747\t4920\t1849\nFenoarivo Atsinanana\t-1738\t4941\t1849\nSoanierana Ivongo\t-1692\t4958\t1849\nMananara\t-1617\t4977\t1849\nMaroantsetra\t-1544\t4974\t1849\nTsiombe\t-2530\t4548\t1850\nKopoky\t-2520\t4520\t1850\nAmbovombe\t-2518\t4609\t1850\nBeloha\t-2517\t4505\t1850\nAmboasary\t-2503\t4638\t1851\nTôlanaro\t-2503\t4698\t1851\nAmpanihy\t-2469\t4475\t1852\nBetioky\t-2372\t4438\t1852\nToliara\t-2335\t4367\t1852\nSakaraha\t-2290\t4453\t1852\nAnkazoabo\t-2228\t4452\t1852\nBeroroha\t-2167\t4517\t1852\nVohipaho\t-2355\t4750\t1853\nVangaindrano\t-2335\t4760\t1853\nVondrozo\t-2282\t4728\t1853\nFarafangana\t-2282\t4783\t1853\nMarolambo\t-2005\t4812\t1854\nMahanoro\t-1990\t4880\t1854\nAmpasimanolotra\t-1882\t4907\t1854\nToamasina\t-1815\t4940\t1854\nVohibinany\t-1735\t4903\t1854\nMaevatanana\t-1695\t4683\t1855\nTsaratanana\t-1680\t4765\t1855\nSitampiky\t-1667\t4610\t1856\nAmbato Boeny\t-1647\t4672\t1856\nMarovoay\t-1611\t4664\t1856\nMahajanga\t-1572\t4632\t1856\nTsiroanomandidy\t-1877\t4605\t1857\nFenoarivo Be\t-1843\t4657\t1857\nAmbanja\t-1367\t4845\t1858\nAmbarakaraka\t-1350\t4887\t1858\nHell-Ville\t-1340\t4827\t1858\nAmbilobe\t-1320\t4905\t1858\nAntsohimbondrona\t-1308\t4885\t1858\nAntsiranana\t-1232\t4929\t1858\nIhosy\t-2240\t4613\t1859\nSoavinandriana\t-1917\t4673\t1860\nArivonimamo\t-1902\t4718\t1860\nMiarinarivo\t-1896\t4691\t1860\nMaintirano\t-1806\t4403\t1861\nMorondava\t-2029\t4432\t1862\nBelo sur Tsiribihina\t-1970\t4455\t1862\nMiandrivazo\t-1953\t4546\t1862\nAntalaha\t-1490\t5028\t1863\nAmpahana\t-1475\t5022\t1863\nAndapa\t-1465\t4965\t1863\nSambava\t-1427\t5017\t1863\nAntsohihy\t-1488\t4799\t1864\nBealanana\t-1454\t4875\t1864\nAmbalavao\t-2183\t4693\t1865\nFianarantsoa\t-2145\t4709\t1865\nIkalamavony\t-2115\t4658\t1865\nSoanindrariny\t-1990\t4723\t1866\nAntsirabe\t-1987\t4703\t1866\nBetafo\t-1983\t4685\t1866\nAntanifotsy\t-1965\t4732\t1866\nMiandrarivo\t-1943\t4675\t1866\nFaratsiho\t-1940\t4695\t1866\nAmbatolampy\t-1938\t4742\t1866\nAiruk\t728\t16882\t1867\nAiluk\t1022\t16998\t1868\nArno\t707\t17155\t1869\nAur\t815\t17117\t1870\nEbon\t458\t16870\t1871\nEnewetak\t1135\t16234\t1872\nJabat\t775\t16898\t1873\nJabor\t592\t16964\t1874\nKili\t564\t16912\t1875\nEbaye\t877\t16774\t1876\nLae\t892\t16626\t1877\nLib\t831\t16738\t1878\nLikiep\t983\t16931\t1879\nMajuro\t709\t17138\t1880\nTaroa\t871\t17123\t1881\nMejit\t1028\t17086\t1882\nMili\t608\t17174\t1883\nNamdrik\t560\t16810\t1884\nLoen\t776\t16823\t1885\nRongelap\t1116\t16689\t1886\nUjae\t893\t16576\t1887\nUtrik\t1123\t16985\t1888\nWotho\t1017\t16601\t1889\nWotje\t945\t17024\t1890\nАрачиново\t4203\t2156\t1891\nBerovo\t4170\t2286\t1892\nBitola\t4103\t2133\t1893\nBogdanci\t4120\t2258\t1894\nBogovinje\t4192\t2091\t1895\nKamenjane\t4195\t2093\t1895\nBosilovo\t4144\t2273\t1896\nBrvenica\t4197\t2098\t1897\nCentar Župa\t4148\t2056\t1898\nČaška\t4165\t2166\t1899\nЧучер - Сандево\t4210\t2138\t1900\nDebar\t4152\t2052\t1901\nBelčišta\t4130\t2083\t1902\nDelcevo\t4197\t2277\t1903\nDemir Hisar\t4122\t2120\t1904\nDemir Kapija\t4141\t2225\t1905\nStar Dojran\t4119\t2272\t1906\nDolneni\t4143\t2145\t1907\nGevgelija\t4114\t2250\t1908\nGostivar\t4180\t2091\t1909\nKisela Voda\t4195\t2150\t1910\nSkopje\t4200\t2143\t1910\nČair\t4202\t2144\t1910\nButel\t4203\t2145\t1910\nŠuto Orizare\t4204\t2143\t1910\nGradsko\t4158\t2194\t1911\nIlinden\t4199\t2158\t1912\nJegunovce\t4207\t2112\t1913\nKarbinci\t4182\t2224\t1914\nKavadarci\t4143\t2201\t1915\nKičevo\t4151\t2096\t1916\nKochani\t4192\t2241\t1917\nKonče\t4150\t2238\t1918\nKratovo\t4208\t2218\t1919\nKriva Palanka\t4220\t2233\t1920\nKrivogashtani\t4134\t2133\t1921\nKrusevo\t4137\t2125\t1922\nKumanovo\t4213\t2171\t1923\nLipkovo\t4216\t2159\t1924\nLozovo\t4178\t2191\t1925\nMakedonska Kamenica\t4202\t2259\t1926\nMakedonski Brod\t4151\t2122\t1927\nRostusa\t4161\t2060\t1928\nMogila\t4111\t2138\t1929\nNegotino\t4148\t2209\t1930\nNovaci\t4104\t2146\t1931\nNovo Selo\t4141\t2288\t1932\nOhrid\t4112\t2080\t1933\nPehčevo\t4176\t2289\t1934\nПетровец\t4194\t2162\t1935\nPlasnica\t4147\t2112\t1936\nPrilep\t4135\t2156\t1937\nProbishtip\t4200\t2218\t1938\nRadovis\t4164\t2246\t1939\nРанковце\t4217\t2212\t1940\nResen\t4109\t2101\t1941\nRosoman\t4152\t2195\t1942\nShtip\t4175\t2220\t1943\nСопиште\t4195\t2143\t1944\nСтаро Нагоричане\t4220\t2183\t1945\nStruga\t4118\t2068\t1946\nStrumica\t4144\t2264\t1947\nStudeničane\t4192\t2153\t1948\nSveti Nikole\t4187\t2195\t1949\nTearce\t4208\t2105\t1950\nTetovo\t4201\t2097\t1951\nValandovo\t4132\t2256\t1952\nVasilevo\t4147\t2264\t1953\nVeles\t4172\t2178\t1954\nVevčani\t4124\t2059\t1955\nVinica\t4188\t2251\t1956\nVrapčište\t4183\t2089\t1957\nNegotino\t4188\t2088\t1957\nZelenikovo\t4188\t2159\t1958\nZelino\t4198\t2106\t1959\nZrnovci\t4185\t2244\t1960\nBamako\t1265\t-800\t1961\nGao\t1627\t-4\t1962\nSagalo\t1220\t-1070\t1963\nBafoulabé\t1381\t-1083\t1963\nKayes\t1445\t-1144\t1963\nKidal\t1844\t141\t1964\nKangaba\t1193\t-842\t1965\nKati\t1274\t-807\t1965\nKoulikoro\t1286\t-756\t1965\nBanamba\t1355\t-745\t1965\nKolokani\t1357\t-803\t1965\nDjénné\t1391\t-455\t1966\nMopti\t1448\t-418\t1966\nMénaka\t1592\t240\t1967\nSikasso\t1132\t-567\t1968\nBougouni\t1142\t-748\t1968\nYorosso\t1236\t-478\t1968\nKoutiala\t1239\t-546\t1968\nSan\t1330\t-490\t1969\nSégou\t1343\t-622\t1969\nMarkala\t1370\t-607\t1969\nTaoudenni\t2267\t-398\t1970\nTimbuktu\t1677\t-301\t1971\nBogale\t1629\t9540\t1972\nPyapon\t1629\t9568\t1972\nMawlamyinegyunn\t1638\t9526\t1972\nKyaiklat\t1645\t9572\t1972\nWakema\t1660\t9518\t1972\nMaubin\t1673\t9565\t1972\nPathein\t1678\t9473\t1972\nNyaungdon\t1704\t9564\t1972\nHinthada\t1765\t9546\t1972\nMyanaung\t1829\t9532\t1972\nThanatpin\t1729\t9658\t1973\nBago\t1734\t9648\t1973\nTharyarwady\t1765\t9579\t1973\nLetpandan\t1779\t9575\t1973\nNyaunglebin\t1795\t9672\t1973\nPyu\t1848\t9644\t1973\nPaungde\t1849\t9551\t1973\nPyay\t1882\t9522\t1973\nTaungoo\t1894\t9643\t1973\nHakha\t2264\t9361\t1974\nBhamo\t2425\t9723\t1975\nMyitkyina\t2538\t9740\t1975\nLoikaw\t1968\t9721\t1976\nKyain Seikgyi Township\t1582\t9825\t1977\nMyawadi\t1669\t9851\t1977\nHpa-An\t1689\t9763\t1977\nThayetmyo\t1932\t9518\t1978\nMyaydo\t1937\t9522\t1978\nTaungdwingyi\t2001\t9555\t1978\nMagway\t2015\t9493\t1978\nMinbu\t2018\t9488\t1978\nYenangyaung\t2047\t9487\t1978\nChauk\t2090\t9482\t1978\nPakokku\t2133\t9508\t1978\nYamethin\t2043\t9614\t1979\nMeiktila\t2088\t9586\t1979\nMyingyan\t2146\t9539\t1979\nKyaukse\t2161\t9614\t1979\nMandalay\t2197\t9608\t1979\nPyin Oo Lwin\t2204\t9646\t1979\nMogok\t2292\t9651\t1979\nKyaikkami\t1608\t9756\t1980\nMudon\t1626\t9772\t1980\nMawlamyine\t1649\t9763\t1980\nMartaban\t1653\t9762\t1980\nThaton\t1692\t9737\t1980\nKyaikto\t1731\t9701\t1980\nPyinmana\t1974\t9621\t1981\nNay Pyi Taw\t1975\t9613\t1981\nSittwe\t2015\t9290\t1982\nSagaing\t2188\t9598\t1983\nMonywa\t2211\t9514\t1983\nShwebo\t2257\t9570\t1983\nMawlaik\t2364\t9440\t1983\nTachilek\t2045\t9988\t1984\nTaunggyi\t2079\t9704\t1984\nLashio\t2294\t9775\t1984\nKawthoung\t998\t9855\t1985\nMyeik\t1244\t9860\t1985\nDawei\t1408\t9819\t1985\nTwante\t1671\t9593\t1986\nKanbe\t1671\t9600\t1986\nThongwa\t1676\t9652\t1986\nSyriam\t1677\t9625\t1986\nYangon\t1681\t9616\t1986\nKayan\t1691\t9656\t1986\nTsetserleg\t4748\t10145\t1987\nÖlgii\t4897\t8996\t1988\nBayanhongor\t4619\t10072\t1989\nBulgan\t4881\t10353\t1990\nDzuunmod\t4771\t10695\t1991\nЗуунмод\t4771\t10695\t1991\nDarhan\t4949\t10592\t1992\nUliastay\t4774\t9684\t1993\nChoibalsan\t4807\t11453\t1994\nSaynshand\t4488\t11012\t1995\nAltai\t4637\t9626\t1996\nChoyr\t4636\t10836\t1997\nUndurkhaan\t4732\t11066\t1998\nKhovd\t4801\t9164\t1999\nMurun-kuren\t4963\t10016\t2000\nMandalgovi\t4576\t10627\t2001\nErdenet\t4903\t10408\t2002\nDzüünharaa\t4885\t10646\t2003\nSühbaatar\t5023\t10621\t2003\nBaruun-Urt\t4668\t11328\t2004\nUlan Bator\t4791\t10688\t2005\nUlaangom\t4998\t9207\t2006\nDalandzadgad\t4357\t10443\t2007\nHovd\t4467\t10217\t2008\nArvayheer\t4626\t10278\t2008\nMacau\t2220\t11355\t2009\nSaipan\t1521\t14575\t2010\nSan Jose Village\t1497\t14562\t2011\nDucos\t1458\t-6097\t2012\nFort-de-France\t1460\t-6107\t2012\nLe Lamentin\t1461\t-6100\t2012\nLe François\t1462\t-6090\t2012\nSaint-Joseph\t1467\t-6104\t2012\nLe Robert\t1468\t-6094\t2012\nLa Trinité\t1474\t-6096\t2012\nSainte-Marie\t1478\t-6099\t2012\nNouakchott\t1809\t-1598\t2013\nAtar\t2052\t-1305\t2014\nKiffa\t1662\t-1140\t2015\nAleg\t1705\t-1391\t2016\nNouadhibou\t2094\t-1704\t2017\nKaédi\t1615\t-1350\t2018\nSélibaby\t1516\t-1218\t2019\nNéma\t1662\t-726\t2020\nAioun\t1666\t-961\t2021\nAkjoujt\t1975\t-1439\t2022\nDar Naim\t1811\t-1593\t2023\nArafat\t1805\t-1597\t2024\nTevragh Zeina\t1810\t-1599\t2025\nTidjikja\t1856\t-1143\t2026\nZouerate\t2274\t-1247\t2027\nRosso\t1651\t-1581\t2028\nTékane\t1660\t-1535\t2028\nPlymouth\t1671\t-6221\t2029\nSaint Peters\t1677\t-6222\t2030\nAttard\t3589\t1444\t2031\nBalzan\t3590\t1446\t2032\nBirkirkara\t3590\t1446\t2033\nBirżebbuġa\t3583\t1453\t2034\nCospicua\t3589\t1453\t2035\nDingli\t3586\t1438\t2036\nFloriana\t3590\t1451\t2037\nGħajnsielem\t3603\t1429\t2038\nVittoriosa\t3589\t1452\t2039\nFontana\t3604\t1424\t2040\nGudja\t3585\t1450\t2041\nGżira\t3591\t1449\t2042\nKalkara\t3589\t1453\t2043\nMarsa\t3588\t1450\t2044\nMellieħa\t3596\t1436\t2045\nMosta\t3591\t1443\t2046\nMunxar\t3603\t1423\t2047\nQrendi\t3583\t1446\t2048\nĦamrun\t3588\t1448\t2049\nNadur\t3604\t1429\t2050\nNaxxar\t3591\t1444\t2051\nSiġġiewi\t3586\t1444\t2052\nSwieqi\t3592\t1448\t2053\nXagħra\t3605\t1426\t2054\nXewkija\t3603\t1426\t2055\nXgħajra\t3589\t1455\t2056\nŻebbuġ\t3607\t1424\t2057\nŻejtun\t3586\t1453\t2058\nŻurrieq\t3583\t1447\t2059\nKirkop\t3584\t1449\t2060\nGħarb\t3606\t1421\t2061\nL-Iklin\t3590\t1445\t2062\nImdina\t3589\t1440\t2063\nMqabba\t3585\t1447\t2064\nImsida\t3589\t1448\t2065\nImġarr\t3592\t1437\t2066\nLija\t3590\t1445\t2067\nLuqa\t3586\t1449\t2068\nMarsaskala\t3586\t1457\t2069\nMarsaxlokk\t3584\t1454\t2070\nImtarfa\t3589\t1440\t2071\nPaola\t3587\t1450\t2072\nPembroke\t3593\t1448\t2073\nQormi\t3588\t1447\t2074\nSafi\t3583\t1448\t2075\nSaint John\t3591\t1448\t2076\nSan Ġiljan\t3592\t1449\t2077\nSan Lawrenz\t3606\t1420\t2078\nSaint Lucia\t3604\t1422\t2079\nSan Pawl il-Baħar\t3595\t1442\t2080\nSanta Venera\t3589\t1447\t2081\nSannat\t3602\t1424\t2082\nSenglea\t3589\t1452\t2083\nPietà\t3589\t1450\t2084\nTarxien\t3587\t1452\t2085\nSliema\t3591\t1450\t2086\nKerċem\t3604\t1423\t2087\nTa’ Xbiex\t3590\t1449\t2088\nValletta\t3590\t1451\t2089\nVictoria\t3604\t1424\t2090\nHal Gharghur\t3592\t1445\t2091\nGħaxaq\t3585\t1452\t2092\nŻabbar\t3588\t1454\t2093\nHaz-Zebbug\t3587\t1444\t2094\nVingt Cinq\t-1039\t5662\t2095\nTamarin\t-2033\t5737\t2096\nBambous\t-2026\t5741\t2096\nCargados Carajos\t-1660\t5966\t2097\nBel Air Rivière Sèche\t-2026\t5775\t2098\nCentre de Flacq\t-2019\t5771\t2098\nMahébourg\t-2041\t5770\t2099\nRose Belle\t-2040\t5760\t2099\nQuartier Militaire\t-2025\t5760\t2100\nSaint Pierre\t-2022\t5752\t2100\nLe Hochet\t-2014\t5752\t2101\nPamplemousses\t-2010\t5757\t2101\nTriolet\t-2006\t5755\t2101\nCurepipe\t-2032\t5753\t2102\nVacoas\t-2030\t5748\t2102\nQuatre Bornes\t-2026\t5748\t2102\nBeau Bassin-Rose Hill\t-2023\t5747\t2102\nPort Louis\t-2016\t5750\t2103\nRivière du Rempart\t-2010\t5768\t2104\nGoodlands\t-2004\t5765\t2104\nPort Mathurin\t-1968\t6342\t2105\nSouillac\t-2052\t5752\t2106\nEydhafushi\t510\t7307\t2107\nKudahuvadhoo\t267\t7289\t2108\nNaifaru\t544\t7337\t2109\nViligili\t76\t7343\t2110\nThinadhoo\t53\t7300\t2111\nFuvahmulah\t-30\t7342\t2112\nDhidhdhoo\t689\t7311\t2113\nKulhudhuffushi\t662\t7307\t2114\nMale\t418\t7351\t2115\nFonadhoo\t183\t7350\t2116\nMuli\t292\t7357\t2117\nManadhoo\t577\t7341\t2118\nUgoofaaru\t567\t7303\t2119\nFunadhoo\t615\t7329\t2120\nMahibadhoo\t376\t7297\t2121\nVeymandoo\t219\t7310\t2122\nFelidhoo\t347\t7355\t2123\nDedza\t-1438\t3433\t2124\nLilongwe\t-1397\t3379\t2124\nMchinji\t-1380\t3288\t2124\nSalima\t-1378\t3446\t2124\nKasungu\t-1303\t3348\t2124\nNkhotakota\t-1293\t3430\t2124\nMzimba\t-1190\t3360\t2125\nMzuzu\t-1147\t3402\t2125\nRumphi\t-1102\t3386\t2125\nKaronga\t-993\t3393\t2125\nNsanje\t-1692\t3526\t2126\nMulanje\t-1603\t3550\t2126\nBlantyre\t-1578\t3501\t2126\nZomba\t-1539\t3532\t2126\nLiwonde\t-1507\t3523\t2126\nBalaka\t-1498\t3496\t2126\nMangochi\t-1448\t3526\t2126\nCalvillo\t2185\t-10272\t2127\nAguascalientes\t2188\t-10228\t2127\nJesús María\t2196\t-10234\t2127\nSan Francisco de los Romo\t2208\t-10227\t2127\nPabellón de Arteaga\t2215\t-10228\t2127\nRincón de Romos\t2223\t-10232\t2127\nLázaro Cárdenas\t3053\t-11593\t2128\nSan Felipe\t3102\t-11484\t2128\nRodolfo Sánchez Taboada\t3172\t-11657\t2128\nEnsenada\t3187\t-11660\t2128\nGuadalupe Victoria\t3229\t-11511\t2128\nRosarito\t3236\t-11705\t2128\nLas Delicias\t3241\t-11694\t2128\nVilla del Prado 2da Sección\t3242\t-11697\t2128\nPórticos de San Antonio\t3244\t-11703\t2128\nRancho La Gloria\t3245\t-11700\t2128\nTerrazas del Valle\t3249\t-11683\t2128\nTijuana\t3250\t-11700\t2128\nTecate\t3257\t-11663\t2128\nPuebla\t3257\t-11535\t2128\nSanta Isabel\t3263\t-11558\t2128\nMexicali\t3263\t-11545\t2128\nCabo San Lucas\t2289\t-10991\t2129\nColonia del Sol\t2291\t-10993\t2129\nSan José del Cabo\t2306\t-10970\t2129\nLa Paz\t2414\t-11030\t2129\nCiudad Constitución\t2503\t-11166\t2129\nEscárcega\t1861\t-9075\t2130\nCiudad del Carmen\t1865\t-9183\t2130\nChampotón\t1935\t-9072\t2130\nCampeche\t1984\t-9053\t2130\nTapachula\t1490\t-9226\t2131\nCacahoatán\t1499\t-9216\t2131\nHuixtla\t1514\t-9246\t2131\nMotozintla\t1537\t-9225\t2131\nMapastepec\t1543\t-9290\t2131\nComalapa\t1566\t-9214\t2131\nPijijiapan\t1569\t-9321\t2131\nTonalá\t1609\t-9375\t2131\nVillaflores\t1623\t-9327\t2131\nArriaga\t1624\t-9390\t2131\nComitán\t1625\t-9214\t2131\nLas Margaritas\t1631\t-9198\t2131\nVenustiano Carranza\t1634\t-9256\t2131\nLas Rosas\t1637\t-9237\t2131\nTeopisca\t1654\t-9247\t2131\nSuchiapa\t1663\t-9310\t2131\nCintalapa de Figueroa\t1668\t-9372\t2131\nChiapa de Corzo\t1671\t-9301\t2131\nSan Cristóbal de las Casas\t1673\t-9264\t2131\nOcozocoautla de Espinosa\t1676\t-9337\t2131\nTuxtla\t1676\t-9311\t2131\nBerriozábal\t1680\t-9327\t2131\nOcosingo\t1691\t-9209\t2131\nYajalón\t1717\t-9233\t2131\nPalenque\t1751\t-9198\t2131\nEmiliano Zapata\t1774\t-9177\t2131\nReforma\t1787\t-9315\t2131\nParral\t2693\t-10567\t2132\nCamargo\t2768\t-10517\t2132\nCiudad Delicias\t2819\t-10547\t2132\nMeoqui\t2827\t-10548\t2132\nJiménez\t2833\t-10540\t2132\nCuauhtémoc\t2841\t-10686\t2132\nChihuahua\t2864\t-10609\t2132\nAldama\t2884\t-10591\t2132\nMadera\t2919\t-10815\t2132\nManuel Ojinaga\t2956\t-10442\t2132\nOjinaga\t2957\t-10454\t2132\nNuevo Casas Grandes\t3042\t-10791\t2132\nJuárez\t3172\t-10646\t2132\nSaltillo\t2542\t-10101\t2133\nSan Pedro\t2543\t-10322\t2133\nParras de la Fuente\t2544\t-10218\t2133\nMatamoros\t2553\t-10323\t2133\nTorreón\t2554\t-10342\t2133\nRamos Arizpe\t2554\t-10095\t2133\nSan Pedro\t2576\t-10298\t2133\nFrancisco I. Madero\t2577\t-10327\t2133\nCastaños\t2679\t-10143\t2133\nMonclova\t2691\t-10142\t2133\nFrontera\t2693\t-10145\t2133\nSan Buenaventura\t2706\t-10155\t2133\nSabinas\t2786\t-10112\t2133\nCiudad Melchor Múzquiz\t2788\t-10152\t2133\nPalau\t2789\t-10142\t2133\nNueva Rosita\t2794\t-10122\t2133\nAllende\t2834\t-10085\t2133\nNava\t2842\t-10077\t2133\nPiedras Negras\t2870\t-10052\t2133\nCiudad Acuña\t2932\t-10095\t2133\nTecomán\t1892\t-10388\t2134\nCiudad de Armería\t1894\t-10396\t2134\nManzanillo\t1912\t-10434\t2134\nColima\t1925\t-10373\t2134\nCiudad de Villa de Álvarez\t1927\t-10374\t2134\nPueblo Nuevo\t2338\t-10538\t2135\nVicente Guerrero\t2373\t-10398\t2135\nEl Salto\t2378\t-10536\t2135\nVictoria de Durango\t2402\t-10466\t2135\nCiudad Guadalupe Victoria\t2444\t-10412\t2135\nSantiago Papasquiaro\t2504\t-10542\t2135\nCiudad Lerdo\t2554\t-10352\t2135\nGómez Palacio\t2557\t-10350\t2135\nAcámbaro\t2003\t-10072\t2136\nMoroleón\t2013\t-10119\t2136\nUriangato\t2014\t-10118\t2136\nYuriria\t2021\t-10113\t2136\nSalvatierra\t2021\t-10088\t2136\nJaral del Progreso\t2037\t-10106\t2136\nValle de Santiago\t2039\t-10119\t2136\nPénjamo\t2043\t-10172\t2136\nAbasolo\t2045\t-10153\t2136\nApaseo el Alto\t2046\t-10062\t2136\nCortazar\t2048\t-10096\t2136\nVillagrán\t2051\t-10100\t2136\nCelaya\t2052\t-10082\t2136\nApaseo el Grande\t2054\t-10068\t2136\nSalamanca\t2057\t-10119\t2136\nJuventino Rosas\t2064\t-10099\t2136\nIrapuato\t2068\t-10136\t2136\nComonfort\t2072\t-10076\t2136\nRomita\t2087\t-10152\t2136\nSan Miguel de Allende\t2092\t-10074\t2136\nSilao\t2094\t-10143\t2136\nMarfil\t2099\t-10128\t2136\nSan José Iturbide\t2100\t-10038\t2136\nSan Francisco del Rincón\t2102\t-10186\t2136\nGuanajuato\t2102\t-10126\t2136\nPurísima de Bustos\t2103\t-10188\t2136\nLeón de los Aldama\t2113\t-10167\t2136\nCentro Familiar la Soledad\t2114\t-10175\t2136\nLa Ermita\t2115\t-10173\t2136\nMedina\t2115\t-10162\t2136\nDolores Hidalgo Cuna de la Independencia Nacional\t2116\t-10093\t2136\nSan Luis de la Paz\t2130\t-10052\t2136\nSan Felipe\t2148\t-10122\t2136\nOmetepec\t1669\t-9841\t2137\nAcapulco de Juárez\t1685\t-9991\t2137\nAyutla de los Libres\t1696\t-9910\t2137\nAtoyac de Álvarez\t1721\t-10043\t2137\nTécpan de Galeana\t1722\t-10063\t2137\nPetatlán\t1754\t-10127\t2137\nChilpancingo\t1755\t-9951\t2137\nTlapa de Comonfort\t1755\t-9858\t2137\nTixtla de Guerrero\t1757\t-9940\t2137\nChilapa de Álvarez\t1760\t-9917\t2137\nIxtapa-Zihuatanejo\t1764\t-10155\t2137\nZumpango del Río\t1765\t-9953\t2137\nCiudad de Huitzuco\t1830\t-9933\t2137\nArcelia\t1832\t-10028\t2137\nIguala de la Independencia\t1835\t-9954\t2137\nCiudad Altamirano\t1836\t-10067\t2137\nTeloloapan\t1837\t-9987\t2137\nTaxco de Alarcón\t1855\t-9961\t2137\nApan\t1971\t-9845\t2138\nCiudad Sahagun\t1978\t-9857\t2138\nTepeapulco\t1979\t-9855\t2138\nTizayuca\t1984\t-9898\t2138\nDon Antonio\t1987\t-9893\t2138\nTepeji del Río de Ocampo\t1990\t-9934\t2138\nSantiago Tulantepec\t2004\t-9836\t2138\nCuautepec de Hinojosa\t2004\t-9831\t2138\nTula de Allende\t2005\t-9934\t2138\nLa Providencia Siglo XXI\t2006\t-9872\t2138\nTulancingo\t2008\t-9836\t2138\nPachuca de Soto\t2012\t-9873\t2138\nMixquiahuala de Juarez\t2023\t-9921\t2138\nProgreso de Alvaro Obregon\t2025\t-9919\t2138\nActopan\t2027\t-9894\t2138\nIxmiquilpan\t2048\t-9922\t2138\nZacualtipán\t2065\t-9866\t2138\nHuejutla de Reyes\t2114\t-9842\t2138\nCihuatlán\t1924\t-10457\t2139\nTuxpan\t1956\t-10338\t2139\nZapotiltic\t1963\t-10342\t2139\nTamazula de Gordiano\t1968\t-10325\t2139\nCiudad Guzmán\t1970\t-10346\t2139\nAutlán de Navarro\t1977\t-10437\t2139\nEl Grullo\t1981\t-10422\t2139\nSayula\t1988\t-10360\t2139\nZacoalco de Torres\t2023\t-10357\t2139\nJocotepec\t2029\t-10343\t2139\nJamay\t2029\t-10271\t2139\nLa Barca\t2029\t-10255\t2139\nChapala\t2030\t-10319\t2139\nEl Salto\t2033\t-10450\t2139\nOcotlán\t2036\t-10277\t2139\nTlajomulco de Zúñiga\t2047\t-10345\t2139\nLomas del Sur\t2049\t-10342\t2139\nSan José del Castillo\t2051\t-10324\t2139\nHacienda Santa Fe\t2052\t-10338\t2139\nEl Salto\t2052\t-10318\t2139\nSan Sebastián el Grande\t2053\t-10343\t2139\nEl Quince\t2054\t-10328\t2139\nAmeca\t2055\t-10405\t2139\nNicolás R Casillas\t2055\t-10347\t2139\nSanta Anita\t2055\t-10344\t2139\nAtotonilco el Alto\t2055\t-10251\t2139\nLas Pintitas\t2056\t-10330\t2139\nLas Pintas de Arriba\t2057\t-10332\t2139\nPuerto Vallarta\t2062\t-10523\t2139\nTonalá\t2062\t-10323\t2139\nZapotlanejo\t2062\t-10307\t2139\nTlaquepaque\t2064\t-10329\t2139\nTala\t2065\t-10370\t2139\nCoyula\t2066\t-10323\t2139\nGuadalajara\t2067\t-10339\t2139\nAhualulco de Mercado\t2070\t-10397\t2139\nArandas\t2071\t-10235\t2139\nIxtapa\t2072\t-10520\t2139\nZapopan\t2072\t-10338\t2139\nSan José del Valle\t2076\t-10523\t2139\nNuevo México\t2076\t-10344\t2139\nTesistán\t2080\t-10347\t2139\nTepatitlán de Morelos\t2082\t-10276\t2139\nTequila\t2088\t-10384\t2139\nMagdalena\t2091\t-10398\t2139\nSan Miguel el Alto\t2103\t-10240\t2139\nJalostotitlán\t2117\t-10246\t2139\nSan Juan de los Lagos\t2125\t-10233\t2139\nLagos de Moreno\t2136\t-10194\t2139\nTeocaltiche\t2143\t-10257\t2139\nEncarnación de Díaz\t2153\t-10224\t2139\nVilla Hidalgo\t2168\t-10259\t2139\nSan Pablo Oztotepec\t1919\t-9907\t2140\nMilpa Alta\t1919\t-9902\t2140\nSan Miguel Topilejo\t1920\t-9914\t2140\nSan Miguel Ajusco\t1922\t-9920\t2140\nSan Antonio Tecómitl\t1922\t-9899\t2140\nSan Juan Ixtayopan\t1923\t-9900\t2140\nXochimilco\t1925\t-9910\t2140\nTláhuac\t1929\t-9901\t2140\nTlalpan\t1930\t-9916\t2140\nMagdalena Contreras\t1933\t-9921\t2140\nCoyoacán\t1935\t-9916\t2140\nIztapalapa\t1936\t-9906\t2140\nDelegación Cuajimalpa de Morelos\t1937\t-9929\t2140\nBenito Juarez\t1940\t-9916\t2140\nIztacalco\t1940\t-9910\t2140\nMiguel Hidalgo\t1943\t-9920\t2140\nMexico City\t1943\t-9913\t2140\nCuauhtémoc\t1945\t-9915\t2140\nAzcapotzalco\t1949\t-9919\t2140\nGustavo Adolfo Madero\t1949\t-9911\t2140\nCiudad Lázaro Cárdenas\t1797\t-10222\t2141\nLa Orilla\t1800\t-10223\t2141\nGuacamayas\t1802\t-10221\t2141\nHuetamo de Núñez\t1863\t-10090\t2141\nNueva Italia de Ruiz\t1902\t-10209\t2141\nApatzingán\t1909\t-10236\t2141\nTepalcatepec\t1919\t-10285\t2141\nTuzantla\t1920\t-10057\t2141\nArio de Rosales\t1921\t-10171\t2141\nTacámbaro de Codallos\t1924\t-10146\t2141\nUruapan\t1941\t-10206\t2141\nHeróica Zitácuaro\t1944\t-10036\t2141\nPeribán de Ramos\t1952\t-10241\t2141\nPátzcuaro\t1952\t-10161\t2141\nLos Reyes de Salgado\t1959\t-10247\t2141\nParacho de Verduzco\t1965\t-10205\t2141\nCiudad Hidalgo\t1969\t-10055\t2141\nMorelia\t1970\t-10118\t2141\nZacapú\t1981\t-10179\t2141\nZinapécuaro\t1986\t-10083\t2141\nMaravatío de Ocampo\t1989\t-10044\t2141\nJiquílpan de Juárez\t1999\t-10272\t2141\nZamora\t1999\t-10228\t2141\nSahuayo de Morelos\t2006\t-10272\t2141\nPuruándiro\t2009\t-10152\t2141\nYurécuaro\t2034\t-10228\t2141\nLa Piedad\t2034\t-10203\t2141\nAxochiapan\t1850\t-9875\t2142\nPuente de Ixtla\t1861\t-9932\t2142\nJojutla\t1861\t-9918\t2142\nTlaquiltenango\t1863\t-9916\t2142\nZacatepec\t1865\t-9919\t2142\nXoxocotla\t1868\t-9925\t2142\nSanta Rosa Treinta\t1870\t-9918\t2142\nXochitepec\t1878\t-9923\t2142\nCuautla\t1881\t-9894\t2142\nEmiliano Zapata\t1884\t-9918\t2142\nTemixco\t1885\t-9923\t2142\nTres de Mayo\t1887\t-9921\t2142\nJiutepec\t1888\t-9918\t2142\nYautepec\t1888\t-9907\t2142\nYecapixtla\t1888\t-9886\t2142\nCuernavaca\t1893\t-9923\t2142\nSan Pedro Totoltepec\t1931\t-9957\t2142\nSan Mateo Otzacatipan\t1933\t-9960\t2142\nSan Pablo Autopan\t1936\t-9966\t2142\nSan Andrés Cuexcontitlán\t1936\t-9962\t2142\nSanta María Ajoloapan\t1976\t-9896\t2142\nReyes Acozac\t1978\t-9898\t2142\nSan Juan Zitlaltepec\t1981\t-9915\t2142\nIxtapan de la Sal\t1884\t-9968\t2143\nTejupilco de Hidalgo\t1890\t-10015\t2143\nOzumba de Alzate\t1904\t-9880\t2143\nTenango de Arista\t1910\t-9959\t2143\nJuchitepec\t1910\t-9888\t2143\nAmecameca\t1912\t-9877\t2143\nXalatlaco\t1918\t-9942\t2143\nCapulhuac de Mirafuentes\t1919\t-9947\t2143\nValle de Bravo\t1920\t-10013\t2143\nSan Rafael\t1921\t-9876\t2143\nSantiago Tlacotepec\t1923\t-9967\t2143\nSan Mateo Huitzilzingo\t1923\t-9893\t2143\nSan Jorge Pueblo Nuevo\t1925\t-9963\t2143\nMetepec\t1926\t-9960\t2143\nSan Salvador Tizatlalli\t1926\t-9959\t2143\nChalco\t1926\t-9890\t2143\nSan Antonio Acahualco\t1927\t-9977\t2143\nSan Mateo Atenco\t1927\t-9953\t2143\nOcoyoacac\t1927\t-9946\t2143\nXico\t1927\t-9895\t2143\nZinacantepec\t1928\t-9973\t2143\nSan Martín Cuautlalpan\t1928\t-9883\t2143\nSan Francisco Tlalcilalcalpan\t1929\t-9977\t2143\nToluca\t1929\t-9965\t2143\nLerma de Villada\t1929\t-9951\t2143\nSan Jerónimo Cuatro Vientos\t1929\t-9884\t2143\nSan Buenaventura\t1930\t-9886\t2143\nIxtapaluca\t1932\t-9888\t2143\nSan José Guadalupe Otzacatipan\t1934\t-9959\t2143\nEmiliano Zapata\t1934\t-9897\t2143\nSan Isidro\t1934\t-9895\t2143\nSan Francisco Acuautla\t1935\t-9886\t2143\nHuixquilucan\t1936\t-9935\t2143\nLos Reyes Acaquilpan\t1936\t-9898\t2143\nJesús del Monte\t1938\t-9929\t2143\nCiudad Nezahualcoyotl\t1940\t-9901\t2143\nXonacatlán\t1941\t-9953\t2143\nSanta María Chimalhuacán\t1942\t-9895\t2143\nChicoloapan\t1942\t-9890\t2143\nSan Miguel Coatlinchán\t1945\t-9887\t2143\nNaucalpan de Juárez\t1948\t-9924\t2143\nTexcoco de Mora\t1951\t-9888\t2143\nTulantongo\t1953\t-9887\t2143\nTlalnepantla\t1954\t-9920\t2143\nSan Salvador Atenco\t1955\t-9892\t2143\nCiudad López Mateos\t1956\t-9926\t2143\nChiconcuac\t1956\t-9890\t2143\nTezoyuca\t1959\t-9891\t2143\nEcatepec de Morelos\t1960\t-9906\t2143\nBuenavista\t1961\t-9917\t2143\nTepexpan\t1961\t-9894\t2143\nAmpliación San Mateo (Colonia Solidaridad)\t1962\t-9915\t2143\nFuentes del Valle\t1963\t-9914\t2143\nCoacalco\t1963\t-9911\t2143\nNicolás Romero\t1964\t-9931\t2143\nCuautitlán Izcalli\t1964\t-9922\t2143\nTultitlán de Mariano Escobedo\t1965\t-9917\t2143\nSantiago Teyahualco\t1966\t-9912\t2143\nAlborada Jaltenco\t1966\t-9907\t2143\nCuautitlán\t1967\t-9918\t2143\nSan Pablo de las Salinas\t1967\t-9909\t2143\nHuilango\t1968\t-9926\t2143\nTultepec\t1968\t-9913\t2143\nOjo de Agua\t1968\t-9901\t2143\nSan Martín Azcatepec\t1969\t-9897\t2143\nTeotihuacán\t1969\t-9886\t2143\nTeotihuacán de Arista\t1969\t-9886\t2143\nMelchor Ocampo\t1970\t-9914\t2143\nTecámac\t1971\t-9897\t2143\nTecámac de Felipe Villanueva\t1971\t-9897\t2143\nTepotzotlán\t1972\t-9922\t2143\nTeoloyucan\t1974\t-9918\t2143\nCoyotepec\t1978\t-9921\t2143\nAtlacomulco de Fabela\t1980\t-9987\t2143\nZumpango\t1980\t-9910\t2143\nSanta Teresa\t1985\t-9923\t2143\nTangancícuaro de Arista\t1989\t-10221\t2143\nTequixquiac\t1991\t-9914\t2143\nJacona de Plancarte\t1995\t-10231\t2143\nMezcales\t2073\t-10528\t2144\nIxtlán del Río\t2104\t-10437\t2144\nCompostela\t2124\t-10490\t2144\nXalisco\t2145\t-10490\t2144\nTepic\t2151\t-10490\t2144\nSantiago Ixcuintla\t2181\t-10521\t2144\nTuxpan\t2194\t-10530\t2144\nAcaponeta\t2249\t-10536\t2144\nLinares\t2486\t-9957\t2145\nMazatlan\t2519\t-9983\t2145\nCiudad de Allende\t2528\t-10001\t2145\nSantiago\t2543\t-10015\t2145\nCadereyta\t2558\t-9998\t2145\nCadereyta Jiménez\t2559\t-10000\t2145\nJardines de la Silla (Jardines)\t2563\t-10019\t2145\nCiudad Benito Juárez\t2565\t-10010\t2145\nSan Pedro Garza García\t2566\t-10041\t2145\nSan Pedro Garza Garcia\t2566\t-10040\t2145\nSanta Catarina\t2567\t-10046\t2145\nMonterrey\t2568\t-10032\t2145\nGuadalupe\t2568\t-10026\t2145\nSan Nicolás de los Garza\t2574\t-10030\t2145\nMitras Poniente\t2578\t-10043\t2145\nCiudad Apodaca\t2578\t-10019\t2145\nParque Industrial Ciudad Mitras\t2579\t-10045\t2145\nCiudad General Escobedo\t2580\t-10032\t2145\nGarcía\t2581\t-10060\t2145\nFraccionamiento Real Palmas\t2590\t-10016\t2145\nCiénega de Flores\t2595\t-10017\t2145\nHidalgo\t2597\t-10045\t2145\nCiudad Sabinas Hidalgo\t2650\t-10018\t2145\nAnáhuac\t2724\t-10013\t2145\nCrucecita\t1577\t-9613\t2146\nPuerto Escondido\t1587\t-9708\t2146\nSalina Cruz\t1618\t-9519\t2146\nSanto Domingo Tehuantepec\t1632\t-9524\t2146\nMiahuatlán de Porfirio Díaz\t1633\t-9660\t2146\nPinotepa Nacional\t1634\t-9805\t2146\nJuchitán de Zaragoza\t1644\t-9502\t2146\nIxtepec\t1656\t-9510\t2146\nOcotlán de Morelos\t1679\t-9667\t2146\nMatías Romero\t1688\t-9504\t2146\nSanta Cruz Xoxocotlán\t1703\t-9674\t2146\nSan Antonio de la Cal\t1703\t-9670\t2146\nOaxaca\t1707\t-9672\t2146\nSanta María Atzompa\t1710\t-9678\t2146\nHeroica Ciudad de Tlaxiaco\t1727\t-9768\t2146\nCiudad de Huajuapan de León\t1781\t-9778\t2146\nTuxtepec\t1809\t-9613\t2146\nLoma Bonita\t1811\t-9588\t2146\nAcatlán de Osorio\t1820\t-9805\t2147\nZinacatepec\t1834\t-9725\t2147\nAltepexi\t1837\t-9730\t2147\nAjalpan\t1838\t-9726\t2147\nTehuacán\t1846\t-9740\t2147\nIzúcar de Matamoros\t1860\t-9846\t2147\nTecamachalco\t1888\t-9773\t2147\nPalmarito Tochapan\t1890\t-9764\t2147\nAtlixco\t1891\t-9844\t2147\nLos Reyes de Juárez\t1895\t-9780\t2147\nTepeaca\t1897\t-9790\t2147\nAcatzingo\t1898\t-9778\t2147\nCiudad Serdán\t1899\t-9745\t2147\nSan Bernardino Tlaxcalancingo\t1903\t-9828\t2147\nPuebla\t1904\t-9820\t2147\nCasa Blanca\t1904\t-9812\t2147\nSan Andrés Cholula\t1905\t-9830\t2147\nAmozoc de Mota\t1905\t-9804\t2147\nCholula\t1906\t-9830\t2147\nSantiago Momoxpan\t1907\t-9827\t2147\nTepatlaxco de Hidalgo\t1908\t-9797\t2147\nCuautlancingo\t1909\t-9827\t2147\nSanctorum\t1910\t-9825\t2147\nAcajete\t1911\t-9795\t2147\nSan Salvador El Seco\t1913\t-9764\t2147\nHuejotzingo\t1916\t-9841\t2147\nSanta Ana Xalmimilulco\t1921\t-9838\t2147\nMoyotzingo\t1925\t-9840\t2147\nSan Martin Texmelucan de Labastida\t1928\t-9844\t2147\nSan Rafael Tlanalapan\t1929\t-9847\t2147\nLibres\t1947\t-9769\t2147\nTeziutlan\t1982\t-9736\t2147\nChignahuapan\t1984\t-9803\t2147\nZacatlán\t1994\t-9796\t2147\nHuauchinango\t2017\t-9805\t2147\nXicotepec de Juárez\t2028\t-9796\t2147\nSan Juan del Río\t2039\t-10000\t2148\nTequisquiapan\t2052\t-9989\t2148\nEl Pueblito\t2054\t-10044\t2148\nVenceremos\t2055\t-10040\t2148\nSantiago de Querétaro\t2059\t-10039\t2148\nSanta Rosa Jauregui\t2074\t-10045\t2148\nChetumal\t1851\t-8830\t2149\nFelipe Carrillo Puerto\t1958\t-8805\t2149\nTulum\t2021\t-8746\t2149\nCozumel\t2050\t-8694\t2149\nPlaya del Carmen\t2063\t-8708\t2149\nCancún\t2117\t-8685\t2149\nTamazunchale\t2126\t-9879\t2150\nRioverde\t2193\t-9999\t2150\nCiudad Fernández\t2194\t-10001\t2150\nCárdenas\t2200\t-9964\t2150\nCiudad Valles\t2200\t-9901\t2150\nTamuín\t2201\t-9878\t2150\nSan Luis Potosí\t2215\t-10098\t2150\nSoledad de Graciano Sánchez\t2219\t-10094\t2150\nÉbano\t2222\t-9838\t2150\nSalinas de Hidalgo\t2263\t-10171\t2150\nMatehuala\t2365\t-10064\t2150\nEscuinapa\t2283\t-10578\t2151\nEl Rosario\t2299\t-10586\t2151\nMazatlán\t2323\t-10641\t2151\nLa Cruz\t2392\t-10689\t2151\nVilla de Costa Rica\t2459\t-10739\t2151\nVilla Juárez\t2466\t-10754\t2151\nLicenciado Benito Juárez (Campo Gobierno)\t2466\t-10754\t2151\nNavolato\t2477\t-10770\t2151\nCuliacán\t2479\t-10739\t2151\nGuamúchil\t2546\t-10808\t2151\nGuasave\t2557\t-10847\t2151\nLeyva Solano\t2566\t-10864\t2151\nJuan José Ríos\t2576\t-10882\t2151\nLos Mochis\t2579\t-10900\t2151\nHuatabampo\t2683\t-10964\t2152\nNavojoa\t2707\t-10944\t2152\nCiudad Obregón\t2749\t-10994\t2152\nEsperanza\t2758\t-10993\t2152\nHeroica Guaymas\t2792\t-11090\t2152\nEmpalme\t2796\t-11081\t2152\nMiguel Alemán (La Doce)\t2884\t-11148\t2152\nHermosillo\t2910\t-11098\t2152\nMagdalena de Kino\t3063\t-11096\t2152\nHeroica Caborca\t3072\t-11216\t2152\nCananea\t3099\t-11029\t2152\nNogales\t3131\t-11094\t2152\nPuerto Peñasco\t3132\t-11354\t2152\nAgua Prieta\t3133\t-10955\t2152\nSan Luis Río Colorado\t3246\t-11477\t2152\nTenosique\t1747\t-9142\t2153\nTeapa\t1755\t-9295\t2153\nMacuspana\t1776\t-9260\t2153\nRío de Teapa\t1778\t-9290\t2153\nHuimanguillo\t1783\t-9339\t2153\nPlayas del Rosario\t1785\t-9293\t2153\nVillahermosa\t1799\t-9293\t2153\nCárdenas\t1800\t-9338\t2153\nCunduacán\t1807\t-9317\t2153\nJalpa de Méndez\t1818\t-9306\t2153\nComalcalco\t1826\t-9322\t2153\nParaiso\t1840\t-9321\t2153\nFrontera\t1854\t-9265\t2153\nCiudad Madero\t2227\t-9784\t2154\nTampico\t2229\t-9788\t2154\nMiramar\t2236\t-9790\t2154\nAltamira\t2239\t-9794\t2154\nCiudad Mante\t2274\t-9897\t2154\nCiudad Victoria\t2374\t-9915\t2154\nSan Fernando\t2485\t-9815\t2154\nValle Hermoso\t2567\t-9781\t2154\nHeroica Matamoros\t2588\t-9750\t2154\nCiudad Río Bravo\t2599\t-9809\t2154\nReynosa\t2608\t-9829\t2154\nCiudad Miguel Alemán\t2640\t-9903\t2154\nNuevo Laredo\t2748\t-9952\t2154\nVilla Vicente Guerrero\t1912\t-9817\t2155\nPapalotla\t1917\t-9820\t2155\nZacatelco\t1922\t-9824\t2155\nTeolocholco\t1924\t-9819\t2155\nLa Magdalena Tlaltelulco\t1928\t-9820\t2155\nSanta Ana Chiautempan\t1931\t-9819\t2155\nHuamantla\t1931\t-9793\t2155\nTlaxcala\t1932\t-9820\t2155\nContla\t1933\t-9817\t2155\nApizaco\t1941\t-9814\t2155\nTetla\t1944\t-9810\t2155\nCalpulalpan\t1959\t-9857\t2155\nLas Choapas\t1791\t-9410\t2156\nAcayucan\t1795\t-9491\t2156\nJáltipan de Morelos\t1797\t-9471\t2156\nCosoleacaque\t1800\t-9464\t2156\nMinatitlán\t1800\t-9456\t2156\nIsla\t1803\t-9553\t2156\nNanchital de Lázaro Cárdenas del Río\t1807\t-9441\t2156\nAgua Dulce\t1814\t-9415\t2156\nFraccionamiento Ciudad Olmeca\t1815\t-9455\t2156\nCoatzacoalcos\t1815\t-9444\t2156\nAllende\t1816\t-9439\t2156\nTres Valles\t1824\t-9614\t2156\nCosamaloapan\t1837\t-9580\t2156\nCarlos A. Carrillo\t1837\t-9575\t2156\nCatemaco\t1842\t-9511\t2156\nTierra Blanca\t1845\t-9636\t2156\nSan Andrés Tuxtla\t1845\t-9521\t2156\nSantiago Tuxtla\t1847\t-9530\t2156\nLa Isla\t1860\t-9615\t2156\nLerdo de Tejada\t1863\t-9552\t2156\nAlvarado\t1877\t-9576\t2156\nCiudad Mendoza\t1881\t-9718\t2156\nRío Blanco\t1883\t-9716\t2156\nNogales\t1883\t-9716\t2156\nOrizaba\t1885\t-9710\t2156\nIxtaczoquitlán\t1885\t-9706\t2156\nCórdoba\t1888\t-9693\t2156\nFortín de las Flores\t1891\t-9700\t2156\nCoscomatepec de Bravo\t1907\t-9705\t2156\nHuatusco\t1915\t-9697\t2156\nValente Diaz\t1916\t-9622\t2156\nVeracruz\t1918\t-9614\t2156\nJosé Cardel\t1937\t-9637\t2156\nXico\t1942\t-9701\t2156\nCoatepec\t1945\t-9696\t2156\nXalapa de Enríquez\t1953\t-9692\t2156\nPerote\t1956\t-9724\t2156\nBanderilla\t1959\t-9694\t2156\nAltotonga\t1977\t-9725\t2156\nMisantla\t1993\t-9685\t2156\nTlapacoyan\t1996\t-9721\t2156\nVilla Independencia\t2006\t-9705\t2156\nMartínez de la Torre\t2007\t-9706\t2156\nPapantla de Olarte\t2045\t-9732\t2156\nCoatzintla\t2049\t-9747\t2156\nPoza Rica de Hidalgo\t2053\t-9746\t2156\nÁlamo\t2091\t-9768\t2156\nAlto Lucero\t2095\t-9744\t2156\nTúxpam de Rodríguez Cano\t2096\t-9741\t2156\nCerro Azul\t2119\t-9774\t2156\nTantoyuca\t2135\t-9823\t2156\nNaranjos\t2135\t-9769\t2156\nPánuco\t2205\t-9818\t2156\nPeto\t2013\t-8892\t2157\nTecax\t2021\t-8929\t2157\nOxkutzkab\t2031\t-8942\t2157\nTicul\t2040\t-8954\t2157\nChichén-Itzá\t2067\t-8857\t2157\nValladolid\t2069\t-8820\t2157\nUman\t2088\t-8975\t2157\nKanasín\t2093\t-8956\t2157\nIzamal\t2094\t-8902\t2157\nMérida\t2098\t-8962\t2157\nHunucmá\t2102\t-8988\t2157\nMotul\t2110\t-8928\t2157\nTizimín\t2114\t-8815\t2157\nProgreso\t2128\t-8966\t2157\nNochistlán de Mejía\t2136\t-10285\t2158\nTlaltenango de Sánchez Román\t2178\t-10330\t2158\nLoreto\t2227\t-10199\t2158\nJerez de García Salinas\t2265\t-10299\t2158\nGuadalupe\t2275\t-10252\t2158\nZacatecas\t2277\t-10258\t2158\nVíctor Rosales\t2295\t-10270\t2158\nFresnillo\t2318\t-10287\t2158\nSombrerete\t2363\t-10364\t2158\nRío Grande\t2383\t-10303\t2158\nJuan Aldama\t2429\t-10339\t2158\nJohor Bahru\t147\t10376\t2159\nKampung Pasir Gudang Baru\t147\t10388\t2159\nPontian Kechil\t149\t10339\t2159\nPekan Nenas\t151\t10351\t2159\nTaman Senai\t160\t10364\t2159\nUlu Tiram\t160\t10382\t2159\nKulai\t166\t10360\t2159\nKota Tinggi\t174\t10390\t2159\nKampung Simpang Renggam\t183\t10330\t2159\nBatu Pahat\t185\t10293\t2159\nParit Raja\t187\t10311\t2159\nYong Peng\t201\t10307\t2159\nKluang\t203\t10332\t2159\nMuar\t204\t10257\t2159\nBakri\t204\t10265\t2159\nTangkak\t227\t10255\t2159\nLabis\t238\t10302\t2159\nMersing\t243\t10384\t2159\nSegamat\t251\t10282\t2159\nKulim\t536\t10056\t2160\nSungai Petani\t565\t10049\t2160\nBedong\t573\t10051\t2160\nGurun\t582\t10047\t2160\nKuala Kedah\t610\t10030\t2160\nAlor Setar\t612\t10036\t2160\nJitra\t627\t10042\t2160\nKuah\t633\t9984\t2160\nGua Musang\t488\t10197\t2161\nTanah Merah\t580\t10215\t2161\nKampong Pangkal Kalong\t592\t10222\t2161\nKampong Kadok\t600\t10225\t2161\nPeringat\t603\t10228\t2161\nPasir Mas\t605\t10214\t2161\nKota Bharu\t612\t10224\t2161\nKuala Lumpur\t314\t10169\t2162\nLabuan\t528\t11525\t2163\nMalacca\t220\t10224\t2164\nKampung Ayer Molek\t221\t10233\t2164\nKlebang Besar\t222\t10220\t2164\nKampung Bukit Baharu\t222\t10229\t2164\nBatu Berendam\t225\t10225\t2164\nBukit Rambai\t226\t10218\t2164\nSungai Udang\t227\t10214\t2164\nKampung Ayer Keroh\t227\t10228\t2164\nKampong Masjid Tanah\t235\t10212\t2164\nAlor Gajah\t238\t10221\t2164\nTampin\t247\t10223\t2165\nPort Dickson\t254\t10181\t2165\nSeremban\t273\t10194\t2165\nKuala Pilah\t274\t10225\t2165\nKampung Baharu Nilai\t280\t10180\t2165\nBahau\t281\t10240\t2165\nTemerluh\t345\t10242\t2166\nPekan\t348\t10340\t2166\nMentekab\t349\t10235\t2166\nBentong Town\t352\t10191\t2166\nRaub\t379\t10186\t2166\nKuantan\t381\t10333\t2166\nJerantut\t394\t10236\t2166\nKuala Lipis\t418\t10205\t2166\nNibong Tebal\t517\t10048\t2167\nKampung Sungai Ara\t533\t10027\t2167\nBukit Mertajam\t536\t10047\t2167\nPerai\t538\t10038\t2167\nButterworth\t540\t10036\t2167\nGeorge Town\t541\t10034\t2167\nTanjung Tokong\t546\t10031\t2167\nPermatang Kuching\t546\t10038\t2167\nBatu Feringgi\t547\t10025\t2167\nTasek Glugor\t548\t10050\t2167\nKepala Batas\t552\t10043\t2167\nKampong Dungun\t322\t10132\t2168\nTeluk Intan\t402\t10102\t2168\nBidur\t412\t10128\t2168\nTapah Road\t417\t10120\t2168\nLumut\t423\t10063\t2168\nKampar\t430\t10115\t2168\nPantai Remis\t446\t10063\t2168\nBatu Gajah\t447\t10104\t2168\nIpoh\t458\t10108\t2168\nKuala Kangsar\t477\t10093\t2168\nTaiping\t485\t10073\t2168\nSimpang Empat\t495\t10063\t2168\nBagan Serai\t501\t10054\t2168\nParit Buntar\t513\t10049\t2168\nPantai Cenang\t629\t9973\t2169\nKangar\t644\t10020\t2169\nPutrajaya\t294\t10169\t2170\nTawau\t424\t11789\t2171\nSemporna\t448\t11861\t2171\nLahad Datu\t502\t11833\t2171\nBandar Labuan\t529\t11527\t2171\nKeningau\t534\t11616\t2171\nBeaufort\t535\t11575\t2171\nPapar\t573\t11593\t2171\nKinarut\t582\t11605\t2171\nSandakan\t584\t11812\t2171\nDonggongon\t591\t11610\t2171\nPutatan\t593\t11606\t2171\nRanau\t595\t11666\t2171\nKota Kinabalu\t597\t11607\t2171\nKudat\t689\t11682\t2171\nSimanggang\t125\t11145\t2172\nKuching\t155\t11033\t2172\nKapit\t200\t11293\t2172\nSarikei\t212\t11152\t2172\nSibu\t230\t11182\t2172\nMukah\t289\t11209\t2172\nBintulu\t317\t11303\t2172\nMarudi\t418\t11432\t2172\nMiri\t440\t11399\t2172\nLimbang\t475\t11500\t2172\nLawas\t486\t11541\t2172\nTanjung Sepat\t266\t10156\t2173\nSepang\t269\t10175\t2173\nBanting\t281\t10150\t2173\nJenjarum\t287\t10149\t2173\nSemenyih\t295\t10184\t2173\nPutra Heights\t299\t10157\t2173\nPelabuhan Klang\t300\t10139\t2173\nKampong Baharu Balakong\t303\t10175\t2173\nKlang\t304\t10144\t2173\nShah Alam\t309\t10153\t2173\nPetaling Jaya\t311\t10161\t2173\nKampung Baru Subang\t315\t10153\t2173\nAmpang\t315\t10177\t2173\nKuang\t326\t10155\t2173\nLadang Seri Kundang\t329\t10152\t2173\nBatu Arang\t332\t10147\t2173\nRawang\t332\t10158\t2173\nKuala Selangor\t335\t10125\t2173\nSerendah\t336\t10160\t2173\nBatang Berjuntai\t338\t10142\t2173\nKampung Tanjung Karang\t342\t10118\t2173\nSungai Besar\t367\t10099\t2173\nSabak Bernam\t377\t10099\t2173\nCukai\t425\t10342\t2174\nKertih\t451\t10345\t2174\nPaka\t464\t10344\t2174\nMarang\t521\t10321\t2174\nKuala Terengganu\t533\t10314\t2174\nMontepuez\t-1313\t3900\t2175\nPemba\t-1297\t4052\t2175\nMocímboa\t-1132\t4035\t2175\nXai-Xai\t-2505\t3364\t2176\nMacia\t-2503\t3310\t2176\nChibuto\t-2469\t3353\t2176\nChokwé\t-2453\t3298\t2176\nMaxixe\t-2386\t3535\t2177\nInhambane\t-2386\t3538\t2177\nChimoio\t-1912\t3348\t2178\nMaputo\t-2597\t3258\t2179\nMatola\t-2596\t3246\t2180\nRessano Garcia\t-2544\t3200\t2180\nAntónio Enes\t-1623\t3991\t2181\nNampula\t-1512\t3927\t2181\nIlha de Moçambique\t-1503\t4074\t2181\nMutuáli\t-1487\t3700\t2181\nNacala\t-1456\t4069\t2181\nCuamba\t-1480\t3654\t2182\nMandimba\t-1435\t3565\t2182\nLichinga\t-1331\t3524\t2182\nBeira\t-1984\t3484\t2183\nDondo\t-1961\t3474\t2183\nTete\t-1616\t3359\t2184\nChinde\t-1858\t3646\t2185\nQuelimane\t-1788\t3689\t2185\nWalvis Bay\t-2296\t1451\t2186\nSwakopmund\t-2268\t1453\t2186\nMariental\t-2463\t1797\t2187\nRehoboth\t-2332\t1709\t2187\nLüderitz\t-2665\t1515\t2188\nKeetmanshoop\t-2658\t1813\t2188\nRundu\t-1793\t1977\t2189\nNkurenkuru\t-1762\t1860\t2190\nWindhoek\t-2256\t1708\t2191\nOpuwo\t-1806\t1384\t2192\nEenhana\t-1747\t1633\t2193\nGobabis\t-2245\t1897\t2194\nOutapi\t-1750\t1498\t2195\nOshakati\t-1779\t1570\t2196\nOmuthiya\t-1836\t1658\t2197\nOkahandja\t-2198\t1692\t2198\nOtjiwarongo\t-2046\t1665\t2198\nGrootfontein\t-1957\t1812\t2198\nKatima Mulilo\t-1750\t2427\t2199\nWé\t-2092\t16726\t2200\nKoné\t-2106\t16487\t2201\nNouméa\t-2227\t16645\t2202\nMont-Dore\t-2226\t16657\t2202\nDumbéa\t-2216\t16646\t2202\nLa Foa\t-2171\t16583\t2202\nAgadez\t1697\t799\t2203\nAlaghsas\t1702\t802\t2203\nDiffa\t1332\t1261\t2204\nNguigmi\t1425\t1311\t2204\nGaya\t1188\t345\t2205\nDosso\t1305\t319\t2205\nDogondoutchi\t1364\t403\t2205\nMaradi\t1350\t710\t2206\nTibiri\t1356\t705\t2206\nTessaoua\t1376\t799\t2206\nMayahi\t1396\t767\t2206\nDakoro\t1451\t677\t2206\nNiamey\t1351\t211\t2207\nBirni N Konni\t1380\t525\t2208\nMadaoua\t1407\t596\t2208\nIlléla\t1446\t524\t2208\nTahoua\t1489\t527\t2208\nTéra\t1401\t75\t2209\nTillabéri\t1421\t145\t2209\nAyorou\t1473\t92\t2209\nMagaria\t1300\t891\t2210\nMatamey\t1342\t847\t2210\nMirriah\t1371\t915\t2210\nZinder\t1381\t899\t2210\nTanout\t1497\t889\t2210\nKingston\t-2905\t16797\t2211\nAba\t511\t737\t2212\nUmuahia\t552\t749\t2212\nBende\t556\t763\t2212\nOhafia-Ifigh\t561\t781\t2212\nAmaigbo\t579\t784\t2212\nGanye\t843\t1205\t2213\nYola\t921\t1248\t2213\nJimeta\t928\t1246\t2213\nNuman\t946\t1203\t2213\nGombi\t1017\t1274\t2213\nMubi\t1027\t1327\t2213\nEket\t464\t792\t2214\nEsuk Oron\t480\t825\t2214\nUyo\t505\t793\t2214\nIkot Ekpene\t518\t771\t2214\nItu\t520\t798\t2214\nIhiala\t585\t686\t2215\nUga\t594\t708\t2215\nOzubulu\t596\t685\t2215\nAtani\t601\t675\t2215\nNnewi\t602\t692\t2215\nIgbo-Ukwu\t602\t702\t2215\nAgulu\t610\t706\t2215\nOnitsha\t615\t679\t2215\nNkpor\t615\t683\t2215\nEnugu-Ukwu\t617\t701\t2215\nAwka\t621\t707\t2215\nBauchi\t1031\t984\t2216\nDarazo\t1100\t1041\t2216\nKari\t1125\t1056\t2216\nAzare\t1167\t1019\t2216\nYenagoa\t493\t627\t2217\nOtukpa\t710\t766\t2218\nKatsina-Ala\t717\t928\t2218\nTakum\t727\t998\t2218\nIgbor\t745\t861\t2218\nMakurdi\t773\t852\t2218\nBiu\t1061\t1219\t2219\nGwoza\t1108\t1370\t2219\nDamboa\t1116\t1276\t2219\nBama\t1152\t1369\t2219\nMaiduguri\t1185\t1316\t2219\nDikwa\t1204\t1392\t2219\nMagumeri\t1211\t1283\t2219\nMarte\t1237\t1383\t2219\nGamboru\t1237\t1421\t2219\nMonguno\t1267\t1361\t2219\nKukawa\t1292\t1357\t2219\nCalabar\t496\t833\t2220\nUgep\t581\t808\t2220\nIkom\t597\t871\t2220\nOgoja\t666\t880\t2220\nObudu\t667\t916\t2220\nBurutu\t535\t551\t2221\nUghelli\t549\t600\t2221\nWarri\t552\t575\t2221\nKwale\t571\t643\t2221\nSapele\t589\t568\t2221\nOgwashi-Uku\t618\t652\t2221\nAsaba\t620\t673\t2221\nAgbor\t625\t619\t2221\nAfikpo\t589\t794\t2222\nAbakaliki\t632\t811\t2222\nIsieke\t638\t804\t2222\nEzza-Ohu\t644\t808\t2222\nEffium\t663\t806\t2222\nBenin City\t634\t563\t2223\nUbiaja\t666\t638\t2223\nUromi\t670\t633\t2223\nEkpoma\t674\t614\t2223\nAuchi\t707\t626\t2223\nEmure-Ekiti\t744\t546\t2224\nIse-Ekiti\t746\t542\t2224\nIgbara-Odo\t750\t506\t2224\nIkere-Ekiti\t750\t523\t2224\nAdo-Ekiti\t762\t522\t2224\nEfon-Alaaye\t766\t492\t2224\nIgede-Ekiti\t767\t513\t2224\nAramoko-Ekiti\t770\t504\t2224\nIjero-Ekiti\t782\t507\t2224\nIpoti\t787\t508\t2224\nOke Ila\t795\t498\t2224\nAwgu\t607\t748\t2225\nEnugu\t644\t750\t2225\nEha Amufu\t666\t776\t2225\nAku\t671\t732\t2225\nNsukka\t686\t740\t2225\nEnugu-Ezike\t698\t746\t2225\nKuje\t888\t723\t2226\nAbuja\t906\t750\t2226\nBilliri\t987\t1123\t2227\nPindiga\t998\t1095\t2227\nKumo\t1005\t1121\t2227\nGarko\t1018\t1116\t2227\nDeba\t1021\t1139\t2227\nGombe\t1029\t1117\t2227\nDukku\t1082\t1077\t2227\nNafada\t1110\t1133\t2227\nOwerri\t548\t703\t2228\nOguta\t571\t681\t2228\nNkwerre\t576\t710\t2228\nOkigwe\t583\t735\t2228\nGwaram\t1128\t988\t2229\nBirnin Kudu\t1145\t948\t2229\nChakwama\t1156\t966\t2229\nDutse\t1176\t934\t2229\nKiyawa\t1178\t961\t2229\nHadejia\t1245\t1004\t2229\nGumel\t1263\t939\t2229\nKafanchan\t958\t829\t2230\nKagoro\t961\t839\t2230\nKachia\t987\t795\t2230\nLere\t1039\t857\t2230\nKaduna\t1053\t744\t2230\nDutsen Wai\t1085\t820\t2230\nAnchau\t1096\t839\t2230\nSoba\t1098\t806\t2230\nSofo-Birnin-Gwari\t1102\t678\t2230\nZaria\t1111\t772\t2230\nRano\t1156\t858\t2231\nWudil\t1181\t884\t2231\nGaya\t1186\t900\t2231\nGwarzo\t1192\t793\t2231\nKano\t1200\t852\t2231\nFuntua\t1152\t731\t2232\nMalumfashi\t1179\t762\t2232\nKatsina\t1299\t760\t2232\nDaura\t1303\t832\t2232\nZuru\t1144\t523\t2233\nKamba\t1185\t365\t2233\nJega\t1222\t438\t2233\nBirnin Kebbi\t1245\t420\t2233\nArgungu\t1274\t453\t2233\nIdah\t711\t674\t2234\nOkene\t755\t624\t2234\nAjaokuta\t756\t665\t2234\nOgaminana\t759\t622\t2234\nLokoja\t780\t674\t2234\nKabba\t783\t608\t2234\nEgbe\t822\t552\t2234\nIsanlu-Itedoijowa\t827\t584\t2234\nOffa\t815\t472\t2235\nIlorin\t850\t454\t2235\nPatigi\t873\t576\t2235\nLafiagi\t885\t542\t2235\nBode Saadu\t894\t478\t2235\nJebba\t912\t482\t2235\nOkuta\t922\t318\t2235\nKaiama\t961\t394\t2235\nLekki\t641\t409\t2236\nBadagry\t642\t288\t2236\nLagos\t645\t339\t2236\nEpe\t658\t398\t2236\nIkeja\t660\t334\t2236\nEbute Ikorodu\t660\t349\t2236\nDoma\t839\t836\t2237\nLafia\t849\t852\t2237\nNasarawa\t854\t771\t2237\nKeffi\t885\t787\t2237\nAkwanga\t891\t841\t2237\nWamba\t894\t860\t2237\nBaro\t862\t642\t2238\nLapai\t904\t657\t2238\nBida\t908\t601\t2238\nSuleja\t918\t718\t2238\nMokwa\t929\t505\t2238\nMinna\t962\t655\t2238\nZungeru\t981\t615\t2238\nTegina\t1007\t619\t2238\nKontagora\t1040\t547\t2238\nBabana\t1043\t381\t2238\nIbeto\t1049\t515\t2238\nRijau\t1110\t526\t2238\nAdo-Odo\t660\t294\t2239\nIfo\t681\t320\t2239\nIjebu-Ode\t682\t392\t2239\nShagamu\t685\t365\t2239\nIlaro\t689\t301\t2239\nIperu\t691\t367\t2239\nIjebu-Igbo\t697\t400\t2239\nAbeokuta\t716\t335\t2239\nOndo\t709\t484\t2240\nIdanre\t711\t512\t2240\nOwo\t720\t559\t2240\nAkure\t725\t519\t2240\nOde\t779\t571\t2240\nApomu\t735\t418\t2241\nIkire\t737\t419\t2241\nModakeke\t738\t426\t2241\nGbongan\t748\t435\t2241\nOlupona\t760\t418\t2241\nIlesa\t763\t474\t2241\nIwo\t764\t418\t2241\nIjebu-Jesa\t768\t482\t2241\nOsogbo\t777\t456\t2241\nOke Mesi\t782\t492\t2241\nIlobu\t784\t449\t2241\nInisa\t785\t433\t2241\nEjigbo\t790\t431\t2241\nIkirun\t791\t467\t2241\nOtan Ayegbaju\t795\t479\t2241\nIla Orangun\t802\t490\t2241\nOyan\t805\t477\t2241\nIbadan\t738\t391\t2242\nIgbo-Ora\t743\t329\t2242\nLalupon\t747\t407\t2242\nOrita Eruwa\t755\t343\t2242\nFiditi\t771\t392\t2242\nOyo\t785\t393\t2242\nSaki\t867\t339\t2242\nIgbeti\t875\t413\t2242\nIgboho\t884\t376\t2242\nKisi\t908\t385\t2242\nPankshin\t933\t944\t2243\nBukuru\t979\t886\t2243\nJos\t993\t889\t2243\nBonny\t445\t717\t2244\nObonoma\t471\t679\t2244\nBuguma\t474\t686\t2244\nOkrika\t474\t708\t2244\nDegema Hulk\t476\t675\t2244\nPort Harcourt\t478\t701\t2244\nElele\t510\t681\t2244\nTambuwal\t1241\t465\t2245\nSokoto\t1306\t524\t2245\nGwadabawa\t1336\t524\t2245\nIllela\t1373\t530\t2245\nGembu\t673\t1126\t2246\nBeli\t786\t1097\t2246\nWukari\t787\t978\t2246\nIbi\t818\t974\t2246\nJalingo\t889\t1136\t2246\nDaura\t1155\t1141\t2247\nPotiskum\t1171\t1108\t2247\nDamaturu\t1175\t1196\t2247\nGashua\t1287\t1104\t2247\nNguru\t1288\t1046\t2247\nGeidam\t1289\t1193\t2247\nKumagunnam\t1315\t1063\t2247\nGummi\t1214\t512\t2248\nGusau\t1217\t666\t2248\nTalata Mafara\t1257\t606\t2248\nKaura Namoda\t1259\t659\t2248\nMoriki\t1287\t649\t2248\nCamoapa\t1238\t-8551\t2249\nBoaco\t1247\t-8566\t2249\nJinotepe\t1185\t-8620\t2250\nDiriamba\t1186\t-8624\t2250\nSan Marcos\t1191\t-8620\t2250\nCorinto\t1248\t-8717\t2251\nChichigalpa\t1258\t-8703\t2251\nChinandega\t1263\t-8713\t2251\nEl Viejo\t1266\t-8717\t2251\nSomotillo\t1304\t-8691\t2251\nJuigalpa\t1211\t-8536\t2252\nEstelí\t1309\t-8635\t2253\nNandaime\t1176\t-8605\t2254\nGranada\t1193\t-8596\t2254\nJinotega\t1309\t-8600\t2255\nNagarote\t1227\t-8656\t2256\nLa Paz Centro\t1234\t-8668\t2256\nLeón\t1244\t-8688\t2256\nSomoto\t1348\t-8658\t2257\nSan Rafael del Sur\t1185\t-8644\t2258\nEl Crucero\t1199\t-8631\t2258\nManagua\t1213\t-8625\t2258\nCiudad Sandino\t1216\t-8634\t2258\nTipitapa\t1220\t-8610\t2258\nMasatepe\t1191\t-8614\t2259\nMasaya\t1197\t-8609\t2259\nMatagalpa\t1293\t-8592\t2260\nRío Blanco\t1293\t-8522\t2260\nSiuna\t1373\t-8478\t2261\nPuerto Cabezas\t1404\t-8339\t2261\nOcotal\t1363\t-8648\t2262\nJalapa\t1392\t-8612\t2262\nRivas\t1144\t-8583\t2263\nSan Carlos\t1112\t-8478\t2264\nNueva Guinea\t1169\t-8446\t2265\nBluefields\t1201\t-8376\t2265\nEl Rama\t1216\t-8422\t2265\nMeppel\t5270\t619\t2266\nHoogeveen\t5272\t648\t2266\nEmmen\t5278\t691\t2266\nAssen\t5300\t656\t2266\nZeewolde\t5233\t554\t2267\nAlmere Stad\t5237\t521\t2267\nLelystad\t5251\t548\t2267\nDronten\t5253\t572\t2267\nUrk\t5266\t560\t2267\nEmmeloord\t5271\t575\t2267\nHeerenveen\t5296\t592\t2268\nSneek\t5303\t566\t2268\nDrachten\t5311\t610\t2268\nHarlingen\t5317\t542\t2268\nLeeuwarden\t5320\t581\t2268\nGroesbeek\t5178\t594\t2269\nZaltbommel\t5181\t524\t2269\nWijchen\t5181\t573\t2269\nNijmegen\t5184\t585\t2269\nBeuningen\t5186\t577\t2269\nGeldermalsen\t5188\t529\t2269\nTiel\t5189\t543\t2269\nElst\t5192\t584\t2269\nZevenaar\t5193\t607\t2269\nWisch\t5193\t642\t2269\nAalten\t5193\t658\t2269\nDuiven\t5195\t601\t2269\nCulemborg\t5196\t523\t2269\nWageningen\t5197\t567\t2269\nDoetinchem\t5197\t629\t2269\nWinterswijk\t5197\t672\t2269\nArnhem\t5198\t591\t2269\nLichtenvoorde\t5199\t657\t2269\nVelp\t5200\t597\t2269\nEde\t5203\t566\t2269\nBrummen\t5209\t616\t2269\nEibergen\t5210\t665\t2269\nBarneveld\t5214\t558\t2269\nZutphen\t5214\t620\t2269\nApeldoorn\t5221\t597\t2269\nNijkerk\t5222\t549\t2269\nPutten\t5226\t561\t2269\nHarderwijk\t5234\t562\t2269\nEpe\t5235\t598\t2269\nNunspeet\t5238\t579\t2269\nElburg\t5245\t584\t2269\nStadskanaal\t5299\t695\t2270\nVeendam\t5311\t688\t2270\nWinschoten\t5314\t703\t2270\nLeek\t5316\t638\t2270\nHoogezand\t5316\t676\t2270\nGroningen\t5322\t657\t2270\nDelfzijl\t5333\t692\t2270\nMaastricht\t5085\t569\t2271\nKerkrade\t5087\t606\t2271\nHeerlen\t5088\t598\t2271\nHoensbroek\t5092\t593\t2271\nBrunssum\t5095\t597\t2271\nGeleen\t5097\t583\t2271\nSittard\t5100\t587\t2271\nRoermond\t5119\t599\t2271\nWeert\t5125\t571\t2271\nTegelen\t5134\t614\t2271\nVenlo\t5137\t617\t2271\nVenray\t5153\t598\t2271\nGennep\t5170\t597\t2271\nCranendonck\t5130\t559\t2272\nBergeijk\t5132\t536\t2272\nValkenswaard\t5135\t546\t2272\nEersel\t5136\t532\t2272\nGeldrop\t5142\t556\t2272\nEindhoven\t5144\t548\t2272\nNuenen\t5147\t555\t2272\nHelmond\t5148\t566\t2272\nBergen op Zoom\t5150\t429\t2272\nBest\t5151\t539\t2272\nGoirle\t5152\t507\t2272\nRoosendaal\t5153\t447\t2272\nTilburg\t5156\t509\t2272\nGemert\t5156\t569\t2272\nSint-Oedenrode\t5157\t546\t2272\nSteenbergen\t5158\t432\t2272\nOisterwijk\t5158\t519\t2272\nBreda\t5159\t478\t2272\nRijen\t5159\t492\t2272\nBoxtel\t5159\t533\t2272\nSchijndel\t5162\t543\t2272\nVeghel\t5162\t555\t2272\nDongen\t5163\t494\t2272\nLoon op Zand\t5163\t508\t2272\nOosterhout\t5165\t486\t2272\nVught\t5165\t529\t2272\nUden\t5166\t562\t2272\nWaalwijk\t5168\t507\t2272\nGeertruidenberg\t5170\t486\t2272\n's-Hertogenbosch\t5170\t530\t2272\nOss\t5177\t552\t2272\nWerkendam\t5181\t489\t2272\nHilversum\t5222\t518\t2273\nUithoorn\t5224\t483\t2273\nAalsmeer\t5226\t476\t2273\nBussum\t5227\t516\t2273\nHoofddorp\t5230\t469\t2273\nAmstelveen\t5230\t486\t2273\nNaarden\t5230\t516\t2273\nHuizen\t5230\t524\t2273\nWeesp\t5231\t504\t2273\nDiemen\t5234\t496\t2273\nHeemstede\t5235\t462\t2273\nZandvoort\t5237\t453\t2273\nAmsterdam\t5237\t489\t2273\nHaarlem\t5238\t464\t2273\nZaandam\t5244\t483\t2273\nZaanstad\t5245\t481\t2273\nIJmuiden\t5246\t461\t2273\nVelsen-Zuid\t5246\t465\t2273\nBeverwijk\t5248\t466\t2273\nVolendam\t5250\t507\t2273\nHeemskerk\t5251\t467\t2273\nPurmerend\t5251\t496\t2273\nCastricum\t5255\t467\t2273\nHeiloo\t5260\t469\t2273\nAlkmaar\t5263\t475\t2273\nHoorn\t5264\t506\t2273\nHeerhugowaard\t5267\t485\t2273\nEnkhuizen\t5270\t529\t2273\nHarenkarspel\t5273\t478\t2273\nMedemblik\t5277\t511\t2273\nDen Helder\t5296\t476\t2273\nHaaksbergen\t5216\t674\t2274\nEnschede\t5222\t690\t2274\nDeventer\t5226\t616\t2274\nLosser\t5226\t700\t2274\nHengelo\t5227\t679\t2274\nBorne\t5230\t675\t2274\nOldenzaal\t5231\t693\t2274\nWierden\t5236\t659\t2274\nAlmelo\t5236\t666\t2274\nRaalte\t5239\t628\t2274\nTubbergen\t5241\t678\t2274\nZwolle\t5251\t609\t2274\nDalfsen\t5251\t626\t2274\nKampen\t5256\t591\t2274\nHardenberg\t5258\t662\t2274\nStaphorst\t5265\t621\t2274\nSteenwijk\t5279\t612\t2274\nMiddelharnis\t5176\t417\t2275\nDordrecht\t5181\t467\t2275\nOud-Beijerland\t5182\t441\t2275\nZwijndrecht\t5182\t463\t2275\nSliedrecht\t5182\t478\t2275\nHellevoetsluis\t5183\t413\t2275\nPapendrecht\t5183\t469\t2275\nHendrik-Ido-Ambacht\t5184\t464\t2275\nGorinchem\t5184\t497\t2275\nSpijkenisse\t5185\t433\t2275\nHoogvliet\t5186\t436\t2275\nRhoon\t5186\t442\t2275\nBarendrecht\t5186\t453\t2275\nRidderkerk\t5187\t460\t2275\nAlblasserdam\t5187\t466\t2275\nVlaardingen\t5191\t434\t2275\nMaassluis\t5192\t425\t2275\nSchiedam\t5192\t439\t2275\nRotterdam\t5192\t448\t2275\nKrimpen aan den IJssel\t5192\t460\t2275\nCapelle aan den IJssel\t5193\t458\t2275\nNaaldwijk\t5199\t421\t2275\nBerkel en Rodenrijs\t5199\t448\t2275\nBergschenhoek\t5199\t450\t2275\n's-Gravenzande\t5200\t417\t2275\nDelft\t5201\t436\t2275\nPijnacker\t5202\t443\t2275\nGouda\t5202\t471\t2275\nRijswijk\t5204\t433\t2275\nYpenburg\t5204\t437\t2275\nWaddinxveen\t5205\t465\t2275\nZoetermeer\t5206\t449\t2275\nVoorburg\t5207\t436\t2275\nThe Hague\t5208\t430\t2275\nBenthuizen\t5208\t454\t2275\nBoskoop\t5208\t466\t2275\nBodegraven\t5208\t475\t2275\nScheveningen\t5210\t428\t2275\nVoorschoten\t5213\t445\t2275\nAlphen aan den Rijn\t5213\t466\t2275\nWassenaar\t5215\t440\t2275\nLeiden\t5216\t449\t2275\nLeiderdorp\t5216\t453\t2275\nOegstgeest\t5218\t447\t2275\nKatwijk aan Zee\t5220\t440\t2275\nNoordwijk-Binnen\t5223\t444\t2275\nSassenheim\t5223\t452\t2275\nLisse\t5226\t456\t2275\nHillegom\t5229\t458\t2275\nLeerdam\t5189\t509\t2276\nRhenen\t5196\t557\t2276\nWijk bij Duurstede\t5197\t534\t2276\nVianen\t5199\t509\t2276\nIJsselstein\t5202\t504\t2276\nNieuwegein\t5203\t508\t2276\nVeenendaal\t5203\t556\t2276\nDriebergen-Rijsenburg\t5205\t528\t2276\nWoerden\t5209\t488\t2276\nUtrecht\t5209\t512\t2276\nZeist\t5209\t523\t2276\nLeusden\t5213\t543\t2276\nMaarssen\t5214\t504\t2276\nAmersfoort\t5216\t539\t2276\nSoest\t5217\t529\t2276\nMijdrecht\t5221\t486\t2276\nBaarn\t5221\t529\t2276\nTerneuzen\t5134\t383\t2277\nBorssele\t5142\t373\t2277\nVlissingen\t5144\t357\t2277\nMiddelburg\t5150\t361\t2277\nGoes\t5150\t389\t2277\nLarvik\t5905\t1004\t2278\nHalden\t5912\t1139\t2278\nSandefjord\t5913\t1022\t2278\nPorsgrunn\t5914\t966\t2278\nSkien\t5921\t961\t2278\nFredrikstad\t5922\t1093\t2278\nTønsberg\t5927\t1041\t2278\nSarpsborg\t5928\t1111\t2278\nHorten\t5942\t1048\t2278\nMoss\t5943\t1066\t2278\nKongsberg\t5967\t965\t2278\nDrammen\t5974\t1020\t2278\nAsker\t5983\t1044\t2278\nHarstad\t6880\t1654\t2278\nTromsø\t6965\t1896\t2278\nVadsø\t7007\t2975\t2278\nKristiansand\t5815\t800\t2279\nArendal\t5846\t877\t2279\nHamar\t6079\t1107\t2280\nGjøvik\t6080\t1069\t2280\nLillehammer\t6112\t1047\t2280\nÅlesund\t6247\t615\t2281\nMolde\t6274\t716\t2281\nKristiansund\t6311\t773\t2281\nMo i Rana\t6631\t1414\t2282\nBodø\t6728\t1441\t2282\nOslo\t5991\t1075\t2283\nSandnes\t5885\t574\t2284\nStavanger\t5897\t573\t2284\nHaugesund\t5941\t527\t2284\nTrondheim\t6343\t1040\t2285\nSteinkjer\t6401\t1150\t2285\nBergen\t6039\t532\t2286\nAskøy\t6040\t518\t2286\nHermansverk\t6118\t685\t2286\nHetauda\t2743\t8503\t2287\nPanauti̇̄\t2758\t8551\t2287\nPanauti\t2758\t8552\t2287\nDhulikhel\t2762\t8554\t2287\nBanepā\t2763\t8552\t2287\nBharatpur\t2768\t8444\t2287\nKirtipur\t2768\t8528\t2287\nPātan\t2768\t8531\t2287\nMadhyapur Thimi\t2768\t8539\t2287\nKathmandu\t2770\t8532\t2287\nWāliṅ\t2798\t8376\t2288\nBāglung\t2827\t8359\t2288\nPokhara\t2827\t8397\t2288\nBirendranagar\t2860\t8163\t2289\nDailekh\t2884\t8171\t2289\nBiratnagar\t2646\t8727\t2290\nBhadrapur\t2654\t8809\t2290\nInaruwa\t2661\t8715\t2290\nTitahari\t2666\t8727\t2290\nTriyuga\t2679\t8670\t2290\nDharān\t2681\t8728\t2290\nIlām\t2691\t8793\t2290\nDhankutā\t2698\t8733\t2290\nKhanbari\t2738\t8721\t2290\nSiddharthanagar\t2750\t8345\t2291\nButwāl\t2770\t8345\t2291\nTānsen\t2787\t8355\t2291\nNepalgunj\t2805\t8162\t2291\nTulsīpur\t2813\t8230\t2291\nGulariyā\t2821\t8135\t2291\nRājbirāj\t2654\t8675\t2292\nJaleshwar\t2665\t8580\t2292\nSiraha\t2665\t8621\t2292\nLahān\t2672\t8648\t2292\nJanakpur\t2673\t8593\t2292\nGaur\t2676\t8528\t2292\nMalaṅgawā\t2686\t8556\t2292\nBirgañj\t2702\t8488\t2292\nṬikāpur\t2853\t8112\t2293\nDhangaḍhi̇̄\t2870\t8059\t2293\nMahendranagar\t2896\t8018\t2293\nDipayal\t2926\t8094\t2293\nDadeldhurā\t2930\t8058\t2293\nDārchulā\t2983\t8055\t2293\nYangor\t-54\t16691\t2294\nAnabar\t-51\t16695\t2295\nAnibare\t-53\t16695\t2296\nBaiti\t-51\t16693\t2297\nIjuw\t-52\t16696\t2298\nUaboe\t-51\t16692\t2299\nYaren\t-55\t16693\t2300\nAlofi\t-1905\t-16992\t2301\nPukekohe East\t-3720\t17495\t2302\nPapakura\t-3707\t17494\t2302\nManukau City\t-3699\t17488\t2302\nMangere\t-3697\t17480\t2302\nAuckland\t-3685\t17476\t2302\nRotorua\t-3814\t17625\t2303\nWhakatane\t-3796\t17699\t2303\nTauranga\t-3769\t17617\t2303\nTimaru\t-4440\t17125\t2304\nAshburton\t-4390\t17173\t2304\nChristchurch\t-4353\t17263\t2304\nWaitangi\t-4395\t-17656\t2305\nGisborne\t-3865\t17800\t2306\nHastings\t-3964\t17685\t2307\nNapier\t-3949\t17691\t2307\nLevin\t-4063\t17528\t2308\nPalmerston North\t-4036\t17561\t2308\nWanganui\t-3993\t17505\t2308\nBlenheim\t-4152\t17395\t2309\nNelson\t-4127\t17328\t2310\nWhangarei\t-3573\t17432\t2311\nDunedin\t-4587\t17050\t2312\nInvercargill\t-4640\t16835\t2313\nNew Plymouth\t-3907\t17408\t2314\nRichmond\t-4133\t17318\t2315\nTaupo\t-3868\t17608\t2316\nCambridge\t-3788\t17544\t2316\nHamilton\t-3778\t17528\t2316\nWellington\t-4129\t17478\t2317\nLower Hutt\t-4122\t17492\t2317\nUpper Hutt\t-4114\t17505\t2317\nPorirua\t-4113\t17485\t2317\nMasterton\t-4096\t17566\t2317\nParaparaumu\t-4092\t17502\t2317\nGreymouth\t-4247\t17120\t2318\nAdam\t2238\t5753\t2319\nNizwá\t2293\t5753\t2319\nIzkī\t2293\t5777\t2319\nBahlā’\t2298\t5730\t2319\nSufālat Samā’il\t2332\t5802\t2319\nBidbid\t2341\t5813\t2319\n‘Ibrī\t2323\t5652\t2320\nYanqul\t2359\t5654\t2320\nAs Suwayq\t2385\t5744\t2321\nAl Khābūrah\t2397\t5709\t2321\nŞaḩam\t2417\t5689\t2321\nSohar\t2435\t5671\t2321\nLiwá\t2453\t5656\t2321\nShināş\t2474\t5647\t2321\nRustaq\t2339\t5742\t2322\nOman Smart Future City\t2365\t5760\t2322\nAl Buraymī\t2425\t5579\t2323\nHaymā’\t1996\t5628\t2324\nŞalālah\t1702\t5409\t2325\nKhasab\t2618\t5625\t2326\nBawshar\t2358\t5840\t2327\nMuscat\t2358\t5841\t2327\nSeeb\t2367\t5819\t2327\nBadīyah\t2245\t5880\t2328\nIbrā’\t2269\t5853\t2328\nSur\t2257\t5953\t2329\nBocas del Toro\t934\t-8224\t2330\nChanguinola\t943\t-8252\t2330\nPedregal\t837\t-8244\t2331\nDavid\t843\t-8243\t2331\nLa Concepción\t851\t-8262\t2331\nPenonomé\t852\t-8036\t2332\nSabanitas\t934\t-7981\t2333\nColón\t935\t-7990\t2333\nCativá\t936\t-7983\t2333\nLa Palma\t841\t-7814\t2334\nUnión Chocó\t808\t-7754\t2335\nEl Porvenir\t955\t-7895\t2336\nChitré\t796\t-8043\t2337\nLas Tablas\t776\t-8027\t2338\nBuabidi\t847\t-8170\t2339\nAncón\t896\t-7955\t2340\nCurundú\t897\t-7955\t2340\nPanamá\t899\t-7952\t2340\nSan Miguelito\t905\t-7947\t2340\nJuan Díaz\t905\t-7945\t2340\nPedregal\t907\t-7943\t2340\nTocumen\t909\t-7938\t2340\nAlcalde Díaz\t912\t-7956\t2340\nChilibre\t915\t-7962\t2340\nLa Chorrera\t888\t-7978\t2341\nVeracruz\t889\t-7963\t2341\nArraiján\t895\t-7966\t2341\nSantiago de Veraguas\t810\t-8098\t2342\nChachapoyas\t-623\t-7787\t2343\nBagua Grande\t-576\t-7844\t2343\nLa Peca\t-561\t-7843\t2343\nHuarmey\t-1007\t-7815\t2344\nHuaraz\t-953\t-7753\t2344\nChimbote\t-909\t-7858\t2344\nCoishco\t-902\t-7862\t2344\nAndahuaylas\t-1366\t-7339\t2345\nAbancay\t-1363\t-7288\t2345\nMollendo\t-1702\t-7201\t2346\nCamaná\t-1662\t-7271\t2346\nArequipa\t-1640\t-7153\t2346\nAyacucho\t-1316\t-7422\t2347\nHuanta\t-1293\t-7425\t2347\nCajamarca\t-716\t-7850\t2348\nJaén\t-571\t-7881\t2348\nCallao\t-1206\t-7712\t2349\nSicuani\t-1427\t-7123\t2350\nCusco\t-1352\t-7197\t2350\nSanta Ana\t-1287\t-7272\t2350\nHuancavelica\t-1278\t-7497\t2351\nYanacancha\t-1024\t-7665\t2352\nHuánuco\t-993\t-7624\t2352\nTingo María\t-930\t-7600\t2352\nMinas de Marcona\t-1521\t-7511\t2353\nNazca\t-1483\t-7494\t2353\nIca\t-1407\t-7573\t2353\nPisco\t-1371\t-7621\t2353\nSan Clemente\t-1367\t-7615\t2353\nChincha Alta\t-1341\t-7613\t2353\nHuancayo\t-1207\t-7520\t2354\nJauja\t-1178\t-7550\t2354\nLa Oroya\t-1152\t-7590\t2354\nTarma\t-1142\t-7569\t2354\nSatipo\t-1125\t-7464\t2354\nJunín\t-1116\t-7599\t2354\nVirú\t-842\t-7875\t2355\nMoche\t-817\t-7901\t2355\nTrujillo\t-812\t-7903\t2355\nLaredo\t-809\t-7896\t2355\nSantiago de Cao\t-796\t-7924\t2355\nHuamachuco\t-780\t-7807\t2355\nChocope\t-779\t-7922\t2355\nPaiján\t-773\t-7930\t2355\nSan Pedro de Lloc\t-743\t-7950\t2355\nPacasmayo\t-740\t-7957\t2355\nGuadalupe\t-725\t-7948\t2355\nChepén\t-722\t-7942\t2355\nSaña\t-692\t-7958\t2356\nMonsefú\t-687\t-7987\t2356\nPimentel\t-684\t-7993\t2356\nChiclayo\t-677\t-7984\t2356\nPicsi\t-672\t-7977\t2356\nLambayeque\t-670\t-7991\t2356\nFerreñafe\t-664\t-7979\t2356\nChongoyape\t-664\t-7939\t2356\nLima\t-1204\t-7703\t2357\nSan Vicente de Cañete\t-1308\t-7639\t2358\nNuevo Imperial\t-1308\t-7632\t2358\nImperial\t-1306\t-7635\t2358\nMala\t-1266\t-7663\t2358\nSan Isidro\t-1212\t-7705\t2358\nChosica\t-1194\t-7671\t2358\nChancay\t-1157\t-7727\t2358\nHuaral\t-1149\t-7721\t2358\nHuacho\t-1111\t-7760\t2358\nHualmay\t-1110\t-7761\t2358\nHuaura\t-1107\t-7760\t2358\nBarranca\t-1075\t-7777\t2358\nParamonga\t-1067\t-7783\t2358\nYurimaguas\t-590\t-7612\t2359\nIquitos\t-375\t-7325\t2359\nTambopata\t-1267\t-6936\t2360\nPuerto Maldonado\t-1259\t-6919\t2360\nIlo\t-1763\t-7134\t2361\nMoquegua\t-1720\t-7094\t2361\nCerro de Pasco\t-1067\t-7626\t2362\nChaupimarca\t-1041\t-7646\t2362\nSechura\t-556\t-8082\t2363\nLa Unión\t-540\t-8074\t2363\nCatacaos\t-527\t-8068\t2363\nPiura\t-519\t-8063\t2363\nPaita\t-509\t-8111\t2363\nChulucanas\t-509\t-8016\t2363\nTambo Grande\t-493\t-8034\t2363\nSullana\t-490\t-8069\t2363\nMarcavelica\t-488\t-8071\t2363\nQuerecotillo\t-484\t-8065\t2363\nTalara\t-458\t-8127\t2363\nLa Breita\t-426\t-8089\t2363\nYunguyo\t-1625\t-6908\t2364\nIlave\t-1608\t-6967\t2364\nPuno\t-1584\t-7002\t2364\nJuliaca\t-1550\t-7013\t2364\nAyaviri\t-1489\t-7059\t2364\nLa Rinconada\t-1463\t-6945\t2364\nUchiza\t-846\t-7646\t2365\nTocache\t-819\t-7652\t2365\nJuanjuí\t-718\t-7673\t2365\nBellavista\t-706\t-7659\t2365\nRioja\t-606\t-7717\t2365\nMoyobamba\t-603\t-7697\t2365\nTacna\t-1801\t-7025\t2366\nTumbes\t-357\t-8045\t2367\nZarumilla\t-350\t-8027\t2367\nPucallpa\t-838\t-7455\t2368\nUturoa\t-1673\t-15144\t2369\nTaiohae\t-891\t-14010\t2370\nPunaauia\t-1763\t-14960\t2371\nFaaa\t-1755\t-14960\t2371\nPapeete\t-1754\t-14957\t2371\nArawa\t-623\t15557\t2372\nBuka\t-543\t15467\t2372\nKundiawa\t-602\t14497\t2373\nKokopo\t-434\t15227\t2374\nWewak\t-355\t14363\t2375\nGoroka\t-608\t14539\t2376\nWabag\t-549\t14372\t2377\nKerema\t-796\t14577\t2378\nTari\t-584\t14295\t2379\nKurumul\t-585\t14463\t2380\nMadang\t-522\t14579\t2381\nLorengau\t-203\t14727\t2382\nAlotau\t-1032\t15046\t2383\nBulolo\t-720\t14664\t2384\nLae\t-672\t14700\t2384\nPort Moresby\t-948\t14715\t2385\nKavieng\t-257\t15080\t2386\nPopondetta\t-877\t14823\t2387\nVanimo\t-268\t14130\t2388\nMendi\t-615\t14366\t2389\nKimbe\t-555\t15014\t2390\nMount Hagen\t-586\t14423\t2391\nDaru\t-908\t14321\t2392\nSitangkai\t466\t11940\t2393\nBongao\t503\t11977\t2393\nJolo\t605\t12100\t2393\nMaluso\t654\t12188\t2393\nCity of Isabela\t670\t12197\t2393\nBuluan\t672\t12480\t2393\nMaganoy\t686\t12444\t2393\nPagaluñgan\t714\t12438\t2393\nBudta\t720\t12444\t2393\nCotabato\t722\t12425\t2393\nParang\t737\t12427\t2393\nWao\t768\t12467\t2393\nMarawi City\t800\t12428\t2393\nMasbate\t1237\t12362\t2394\nBulan\t1267\t12388\t2394\nIrosin\t1270\t12403\t2394\nSorsogon\t1297\t12399\t2394\nLegaspi\t1314\t12374\t2394\nTagas\t1317\t12372\t2394\nPolangui\t1329\t12349\t2394\nLibon\t1330\t12344\t2394\nMalilipot\t1332\t12374\t2394\nBato\t1335\t12337\t2394\nSan Jose\t1335\t12355\t2394\nTabaco\t1336\t12373\t2394\nNabua\t1341\t12337\t2394\nIriga City\t1343\t12341\t2394\nBuhi\t1343\t12352\t2394\nBaao\t1345\t12337\t2394\nTiwi\t1346\t12368\t2394\nVirac\t1358\t12424\t2394\nNaga\t1362\t12318\t2394\nMagarao\t1366\t12319\t2394\nGoa\t1370\t12349\t2394\nCalabanga\t1371\t12321\t2394\nDaet\t1411\t12296\t2394\nMercedes\t1411\t12301\t2394\nLabo\t1415\t12283\t2394\nJose Pañganiban\t1429\t12269\t2394\nBambang\t1639\t12111\t2395\nBayombong\t1648\t12115\t2395\nBaggabag B\t1651\t12119\t2395\nSolano\t1652\t12118\t2395\nSantiago\t1669\t12155\t2395\nDiadi\t1673\t12136\t2395\nRamon\t1678\t12154\t2395\nAlicia\t1678\t12170\t2395\nSan Mateo\t1688\t12159\t2395\nRoxas\t1712\t12162\t2395\nIlagan\t1715\t12189\t2395\nCabagan\t1743\t12177\t2395\nTuguegarao\t1762\t12172\t2395\nSolana\t1765\t12169\t2395\nAparri\t1836\t12164\t2395\nAurora\t1335\t12252\t2396\nCatanauan\t1359\t12232\t2396\nBatangas\t1376\t12106\t2396\nBauan\t1379\t12101\t2396\nSan Pascual\t1381\t12102\t2396\nCalatagan\t1383\t12063\t2396\nBanaybanay\t1385\t12120\t2396\nBignay Uno\t1386\t12149\t2396\nTaal\t1388\t12092\t2396\nLopez\t1388\t12226\t2396\nCuenca\t1390\t12105\t2396\nConcepcion Ibaba\t1392\t12146\t2396\nGumaca\t1392\t12210\t2396\nCalaca\t1393\t12081\t2396\nCandelaria\t1393\t12142\t2396\nLucena\t1393\t12162\t2396\nBalayan\t1394\t12073\t2396\nLipa City\t1394\t12116\t2396\nMalabanban Norte\t1395\t12143\t2396\nSariaya\t1396\t12153\t2396\nCalauag\t1396\t12229\t2396\nPagbilao\t1397\t12170\t2396\nAtimonan\t1400\t12192\t2396\nTayabas\t1403\t12159\t2396\nMalvar\t1404\t12116\t2396\nAlaminos\t1406\t12125\t2396\nNasugbu\t1407\t12063\t2396\nSan Pablo\t1407\t12133\t2396\nTalisay\t1409\t12102\t2396\nTanauan\t1409\t12115\t2396\nTagaytay\t1410\t12093\t2396\nSanto Tomas\t1411\t12114\t2396\nLucban\t1411\t12156\t2396\nPatuto\t1412\t12097\t2396\nMendez-Nuñez\t1413\t12091\t2396\nLilio\t1413\t12144\t2396\nNagcarlan\t1414\t12142\t2396\nCalauan\t1415\t12132\t2396\nAmadeo\t1417\t12092\t2396\nLos Baños\t1417\t12124\t2396\nBay\t1418\t12129\t2396\nMauban\t1419\t12173\t2396\nIndang\t1420\t12088\t2396\nCalamba\t1421\t12117\t2396\nSilang\t1422\t12097\t2396\nMamatid\t1423\t12116\t2396\nVictoria\t1423\t12133\t2396\nPila\t1423\t12136\t2396\nMaragondon\t1427\t12074\t2396\nPulong Santa Cruz\t1427\t12108\t2396\nCabuyao\t1427\t12113\t2396\nSanta Cruz\t1428\t12142\t2396\nTernate\t1429\t12072\t2396\nLumbang\t1430\t12146\t2396\nCarmona\t1431\t12106\t2396\nSanta Rosa\t1431\t12111\t2396\nNaic\t1432\t12077\t2396\nDasmariñas\t1433\t12094\t2396\nBiñan\t1434\t12108\t2396\nJalajala\t1435\t12132\t2396\nSan Pedro\t1436\t12105\t2396\nPaete\t1436\t12148\t2396\nGeneral Trias\t1439\t12088\t2396\nPangil\t1440\t12147\t2396\nNoveleta\t1443\t12088\t2396\nImus\t1443\t12094\t2396\nKawit\t1444\t12090\t2396\nBacoor\t1446\t12094\t2396\nBinangonan\t1446\t12119\t2396\nCavite City\t1448\t12090\t2396\nCardona\t1449\t12123\t2396\nPililla\t1449\t12131\t2396\nTanay\t1450\t12128\t2396\nMorong\t1452\t12124\t2396\nBaras\t1452\t12127\t2396\nAngono\t1453\t12115\t2396\nSampaloc\t1454\t12136\t2396\nTaytay\t1456\t12113\t2396\nTeresa\t1456\t12122\t2396\nCainta\t1458\t12112\t2396\nAntipolo\t1463\t12112\t2396\nBagong Pagasa\t1466\t12103\t2396\nSan Mateo\t1470\t12112\t2396\nMalanday\t1471\t12113\t2396\nRodriguez\t1476\t12120\t2396\nTrento\t805\t12606\t2397\nVeruela\t807\t12596\t2397\nBunawan\t817\t12599\t2397\nBislig\t822\t12632\t2397\nTalacogon\t846\t12578\t2397\nSan Francisco\t854\t12595\t2397\nBah-Bah\t861\t12591\t2397\nBayugan\t876\t12577\t2397\nLibertad\t894\t12550\t2397\nButuan\t895\t12554\t2397\nBuenavista\t898\t12541\t2397\nTandag\t908\t12620\t2397\nCabadbaran\t912\t12554\t2397\nSurigao\t979\t12550\t2397\nMariveles\t1443\t12049\t2398\nLimay\t1456\t12060\t2398\nOrion\t1462\t12058\t2398\nPilar\t1466\t12057\t2398\nMorong\t1468\t12027\t2398\nBalanga\t1468\t12054\t2398\nObando\t1471\t12094\t2398\nAbucay\t1473\t12053\t2398\nMeycauayan\t1474\t12096\t2398\nMarilao\t1476\t12095\t2398\nSamal\t1477\t12054\t2398\nBulacan\t1479\t12088\t2398\nLoma de Gato\t1479\t12100\t2398\nOrani\t1480\t12054\t2398\nBocaue\t1480\t12093\t2398\nSan Jose del Monte\t1481\t12105\t2398\nBalagtas\t1482\t12087\t2398\nOlongapo\t1483\t12028\t2398\nHermosa\t1483\t12051\t2398\nHagonoy\t1483\t12073\t2398\nPaombong\t1483\t12079\t2398\nGuiguinto\t1483\t12088\t2398\nMalolos\t1484\t12081\t2398\nGuyong\t1484\t12098\t2398\nPandi\t1487\t12096\t2398\nSubic\t1488\t12023\t2398\nDinalupihan\t1488\t12045\t2398\nPlaridel\t1489\t12086\t2398\nMasantol\t1490\t12071\t2398\nPulilan\t1490\t12085\t2398\nSanta Cruz\t1491\t12057\t2398\nNorzagaray\t1491\t12105\t2398\nCalumpit\t1492\t12077\t2398\nCastillejos\t1493\t12020\t2398\nAngat\t1493\t12103\t2398\nLubao\t1494\t12060\t2398\nSexmoan\t1494\t12062\t2398\nSan Antonio\t1495\t12009\t2398\nApalit\t1495\t12077\t2398\nBaliuag\t1495\t12090\t2398\nBustos\t1496\t12092\t2398\nSan Marcelino\t1497\t12016\t2398\nPantubig\t1497\t12095\t2398\nSan Simon\t1500\t12078\t2398\nSan Narciso\t1501\t12008\t2398\nSan Fernando\t1503\t12068\t2398\nDel Pilar\t1504\t12070\t2398\nSan Luis\t1504\t12079\t2398\nPio\t1505\t12052\t2398\nMexico\t1506\t12072\t2398\nPorac\t1507\t12054\t2398\nBabo-Pangulo\t1508\t12052\t2398\nBulaon\t1508\t12066\t2398\nSan Ildefonso\t1508\t12094\t2398\nManibaug Pasig\t1510\t12056\t2398\nSanta Ana\t1510\t12077\t2398\nCandaba\t1510\t12083\t2398\nTelabastagan\t1512\t12061\t2398\nSan Miguel\t1514\t12098\t2398\nAngeles City\t1515\t12058\t2398\nArayat\t1515\t12077\t2398\nSantol\t1516\t12057\t2398\nPandacaqui\t1517\t12065\t2398\nMabalacat City\t1522\t12057\t2398\nMagalang\t1522\t12066\t2398\nCabiao\t1525\t12085\t2398\nBotolan\t1529\t12002\t2398\nSan Vicente\t1529\t12065\t2398\nSan Antonio\t1531\t12086\t2398\nGapan\t1531\t12095\t2398\nPapaya\t1532\t12084\t2398\nIba\t1533\t11998\t2398\nCapas\t1533\t12059\t2398\nConcepcion\t1533\t12066\t2398\nJaen\t1533\t12092\t2398\nPeñaranda\t1535\t12100\t2398\nGeneral Tinio\t1535\t12105\t2398\nSan Francisco\t1536\t12084\t2398\nSan Leonardo\t1536\t12096\t2398\nSan Miguel\t1544\t12060\t2398\nLa Paz\t1544\t12073\t2398\nTarlac City\t1548\t12060\t2398\nCabanatuan City\t1549\t12097\t2398\nAliaga\t1550\t12084\t2398\nMasinloc\t1554\t11995\t2398\nPalayan City\t1554\t12108\t2398\nQuezon\t1555\t12081\t2398\nTalavera\t1559\t12092\t2398\nLaur\t1559\t12118\t2398\nGeneral Mamerto Natividad\t1560\t12105\t2398\nGerona\t1561\t12060\t2398\nBongabon\t1563\t12114\t2398\nGuimba\t1566\t12077\t2398\nPaniqui\t1567\t12058\t2398\nRamos\t1567\t12064\t2398\nCamiling\t1569\t12041\t2398\nRizal\t1571\t12111\t2398\nMuñoz\t1572\t12090\t2398\nBurgos\t1573\t12057\t2398\nSanta Cruz\t1577\t11991\t2398\nDumaguete\t931\t12330\t2399\nSanta Catalina\t933\t12286\t2399\nBayawan\t936\t12280\t2399\nSibulan\t936\t12329\t2399\nTanjay\t952\t12316\t2399\nDanao\t955\t12376\t2399\nBais\t959\t12312\t2399\nLoboc\t964\t12403\t2399\nJagna\t965\t12437\t2399\nTagbilaran City\t966\t12385\t2399\nCarcar\t1011\t12364\t2399\nGuihulñgan\t1012\t12327\t2399\nSan Fernando\t1016\t12371\t2399\nNaga\t1021\t12376\t2399\nMinglanilla\t1024\t12380\t2399\nTalisay\t1024\t12385\t2399\nPinamungahan\t1027\t12358\t2399\nLapu-Lapu City\t1031\t12395\t2399\nCebu City\t1032\t12389\t2399\nMandaue City\t1032\t12392\t2399\nApas\t1034\t12390\t2399\nToledo\t1038\t12364\t2399\nConsolacion\t1038\t12396\t2399\nCanlaon\t1039\t12322\t2399\nLiloan\t1040\t12400\t2399\nCompostela\t1046\t12401\t2399\nBalamban\t1050\t12372\t2399\nDanao\t1052\t12403\t2399\nCogan\t1059\t12402\t2399\nBogo\t1105\t12401\t2399\nBantayan\t1117\t12372\t2399\nItogon\t1636\t12068\t2400\nBaguio\t1642\t12059\t2400\nLa Trinidad\t1645\t12059\t2400\nMankayan\t1686\t12078\t2400\nTabuk\t1747\t12147\t2400\nMalita\t642\t12561\t2401\nSanta Maria\t655\t12547\t2401\nDigos\t675\t12536\t2401\nMagsaysay\t677\t12518\t2401\nBansalan\t679\t12521\t2401\nLupon\t690\t12601\t2401\nMati\t696\t12622\t2401\nDavao\t707\t12561\t2401\nSamal\t707\t12571\t2401\nManay\t722\t12654\t2401\nPanabo\t731\t12568\t2401\nCabayangan\t741\t12573\t2401\nMagugpo Poblacion\t745\t12580\t2401\nSan Mariano\t750\t12600\t2401\nNew Corella\t759\t12582\t2401\nNabunturan\t761\t12597\t2401\nCompostela\t767\t12609\t2401\nMonkayo\t782\t12605\t2401\nMaasin\t1013\t12484\t2402\nBaybay\t1068\t12480\t2402\nAbuyog\t1075\t12501\t2402\nOrmoc\t1101\t12461\t2402\nTanauan\t1111\t12502\t2402\nPalo\t1116\t12499\t2402\nTacloban\t1124\t12500\t2402\nPanalanoy\t1125\t12501\t2402\nCarigara\t1130\t12468\t2402\nBorongan\t1161\t12543\t2402\nCatbalogan\t1178\t12489\t2402\nCalbayog City\t1207\t12460\t2402\nCatarman\t1250\t12464\t2402\nLaoang\t1257\t12501\t2402\nBayambang\t1581\t12046\t2403\nUrdaneta\t1598\t12057\t2403\nDomalanoan\t1600\t12021\t2403\nSanta Barbara\t1600\t12040\t2403\nCalasiao\t1601\t12036\t2403\nLingayen\t1602\t12023\t2403\nBinmaley\t1603\t12027\t2403\nDagupan\t1604\t12033\t2403\nManaoag\t1604\t12049\t2403\nMangaldan\t1607\t12040\t2403\nGuiset East\t1607\t12068\t2403\nAgoo\t1608\t12010\t2403\nAringay\t1639\t12035\t2403\nBauang\t1653\t12033\t2403\nSan Fernando\t1662\t12032\t2403\nTagudin\t1694\t12044\t2403\nSanta Maria\t1695\t12044\t2403\nVigan\t1757\t12039\t2403\nBatac City\t1806\t12056\t2403\nSan Nicolas\t1817\t12060\t2403\nLaoag\t1820\t12060\t2403\nNarra\t927\t11840\t2404\nPuerto Princesa\t974\t11874\t2404\nRoxas\t1032\t11935\t2404\nSan Jose\t1235\t12107\t2404\nMansalay\t1252\t12144\t2404\nRomblon\t1258\t12227\t2404\nSablayan\t1283\t12077\t2404\nPinamalayan\t1305\t12146\t2404\nMamburao\t1322\t12060\t2404\nCalapan\t1341\t12118\t2404\nLas Piñas\t1445\t12098\t2405\nTaguig\t1452\t12108\t2405\nPasay\t1454\t12100\t2405\nMakati City\t1455\t12103\t2405\nMandaluyong City\t1458\t12104\t2405\nPasig City\t1459\t12106\t2405\nManila\t1460\t12098\t2405\nSan Juan\t1460\t12103\t2405\nCalumpang\t1462\t12109\t2405\nCaloocan City\t1465\t12097\t2405\nQuezon City\t1465\t12105\t2405\nNavotas\t1467\t12095\t2405\nTanza\t1468\t12094\t2405\nDon Carlos\t768\t12501\t2406\nQuezon\t773\t12510\t2406\nMaramag\t776\t12501\t2406\nDologon\t784\t12504\t2406\nNIA Valencia\t791\t12509\t2406\nTangub\t806\t12375\t2406\nOzamiz City\t815\t12384\t2406\nMalaybalay\t816\t12513\t2406\nMantampay\t817\t12422\t2406\nBoroon\t818\t12418\t2406\nIligan\t823\t12424\t2406\nManolo Fortich\t837\t12486\t2406\nCagayan de Oro\t848\t12465\t2406\nOroquieta\t849\t12380\t2406\nBugo\t851\t12476\t2406\nTagoloan\t854\t12475\t2406\nJasaan\t865\t12476\t2406\nMariano\t883\t12512\t2406\nGlan\t582\t12520\t2407\nMalapatan\t597\t12529\t2407\nAlabel\t610\t12529\t2407\nGeneral Santos\t611\t12517\t2407\nLake Sebu\t622\t12471\t2407\nPolomolok\t622\t12506\t2407\nMaluñgun\t628\t12528\t2407\nTupi\t633\t12495\t2407\nSurallah\t638\t12475\t2407\nBañga\t642\t12478\t2407\nKoronadal\t650\t12485\t2407\nIsulan\t663\t12461\t2407\nLaguilayan\t667\t12452\t2407\nTacurong\t669\t12468\t2407\nKidapawan\t701\t12509\t2407\nKabacan\t711\t12483\t2407\nMalingao\t716\t12448\t2407\nMidsayap\t719\t12453\t2407\nIligan City\t825\t12440\t2407\nAsia\t955\t12252\t2408\nSipalay\t975\t12240\t2408\nKabankalan\t998\t12281\t2408\nSuay\t1005\t12284\t2408\nHimamaylan\t1010\t12287\t2408\nBinalbagan\t1019\t12286\t2408\nIsabela\t1020\t12299\t2408\nTinongan\t1022\t12304\t2408\nHinigaran\t1027\t12285\t2408\nLa Castellana\t1032\t12302\t2408\nLa Carlota\t1042\t12292\t2408\nPacol\t1045\t12282\t2408\nMaao\t1049\t12299\t2408\nPulupandan\t1052\t12280\t2408\nBago City\t1053\t12283\t2408\nTaloc\t1057\t12290\t2408\nUalog\t1057\t12339\t2408\nSumag\t1060\t12292\t2408\nMurcia\t1061\t12304\t2408\nMansilingan\t1063\t12298\t2408\nBacolod City\t1067\t12295\t2408\nIloilo\t1070\t12256\t2408\nTalisay\t1074\t12297\t2408\nBinonga\t1077\t12298\t2408\nEscalante\t1084\t12350\t2408\nSaravia\t1088\t12297\t2408\nParaiso\t1088\t12336\t2408\nVictorias\t1090\t12307\t2408\nSagay\t1094\t12342\t2408\nCadiz\t1095\t12329\t2408\nManapla\t1096\t12312\t2408\nPassi\t1111\t12264\t2408\nRoxas City\t1159\t12275\t2408\nKalibo (poblacion)\t1171\t12236\t2408\nPandan\t1174\t12210\t2408\nZamboanga\t691\t12207\t2409\nRecodo\t695\t12196\t2409\nIpil\t778\t12259\t2409\nPagadian\t783\t12344\t2409\nMuricay\t783\t12348\t2409\nMolave\t808\t12349\t2409\nMahayag\t812\t12345\t2409\nDipolog\t857\t12333\t2409\nDapitan\t866\t12342\t2409\nBhimbar\t3297\t7408\t2410\nNew Mirpur\t3315\t7375\t2410\nKotli\t3352\t7390\t2410\nRawala Kot\t3386\t7376\t2410\nMuzaffarābād\t3437\t7347\t2410\nJiwani\t2505\t6175\t2411\nGwadar\t2512\t6233\t2411\nPasni\t2526\t6347\t2411\nUthal\t2581\t6662\t2411\nTurbat\t2600\t6305\t2411\nBela\t2623\t6631\t2411\nKhuzdar\t2781\t6661\t2411\nMehrabpur\t2811\t6803\t2411\nUsta Muhammad\t2818\t6804\t2411\nKharan\t2858\t6542\t2411\nKalat\t2903\t6659\t2411\nDera Bugti\t2904\t6916\t2411\nDadhar\t2947\t6765\t2411\nSibi\t2954\t6788\t2411\nNushki\t2955\t6602\t2411\nMastung\t2980\t6685\t2411\nMach\t2986\t6733\t2411\nQuetta\t3018\t6700\t2411\nLoralai\t3037\t6860\t2411\nPishin\t3058\t6699\t2411\nChaman\t3092\t6645\t2411\nZhob\t3134\t6945\t2411\nGilgit\t3592\t7431\t2412\nIslamabad\t3372\t7304\t2413\nDera Ismail Khan\t3183\t7090\t2414\nShorkot\t3191\t7088\t2414\nKulachi\t3193\t7046\t2414\nPaharpur\t3211\t7097\t2414\nTank\t3222\t7038\t2414\nLakki\t3261\t7091\t2414\nSarai Naurang\t3283\t7078\t2414\nBannu\t3299\t7060\t2414\nLachi\t3338\t7134\t2414\nHangu\t3353\t7106\t2414\nKohat\t3358\t7145\t2414\nTordher\t3399\t7229\t2414\nNowshera Cantonment\t3400\t7200\t2414\nAkora\t3400\t7213\t2414\nHaripur\t3400\t7293\t2414\nPeshawar\t3401\t7158\t2414\nPabbi\t3401\t7179\t2414\nAman Garh\t3401\t7193\t2414\nHavelian\t3405\t7316\t2414\nRisalpur Cantonment\t3406\t7199\t2414\nZaida\t3406\t7247\t2414\nTopi\t3407\t7262\t2414\nSwabi\t3412\t7247\t2414\nCharsadda\t3415\t7174\t2414\nAbbottabad\t3415\t7321\t2414\nUtmanzai\t3419\t7176\t2414\nMardan\t3420\t7205\t2414\nShabqadar\t3422\t7155\t2414\nTangi\t3430\t7165\t2414\nMansehra\t3433\t7320\t2414\nBat Khela\t3462\t7197\t2414\nBattagram\t3468\t7302\t2414\nMingora\t3478\t7236\t2414\nUpper Dir\t3521\t7188\t2414\nThal\t3548\t7224\t2414\nSaddiqabad\t2831\t7013\t2415\nRahim Yar Khan\t2842\t7030\t2415\nKot Samaba\t2855\t7047\t2415\nKhanpur\t2865\t7066\t2415\nZahir Pir\t2881\t7052\t2415\nRajanpur\t2910\t7033\t2415\nYazman\t2912\t7174\t2415\nAhmadpur East\t2914\t7126\t2415\nFort Abbas\t2919\t7286\t2415\nAlipur\t2938\t7091\t2415\nBahawalpur\t2940\t7168\t2415\nFaqirwali\t2947\t7303\t2415\nJalalpur Pirwala\t2951\t7122\t2415\nJatoi Shimali\t2952\t7084\t2415\nLodhran\t2953\t7163\t2415\nDajal\t2956\t7038\t2415\nShahr Sultan\t2958\t7102\t2415\nDhanot\t2958\t7175\t2415\nKhairpur Tamewah\t2958\t7224\t2415\nHarunabad\t2961\t7314\t2415\nKahror Pakka\t2962\t7191\t2415\nJampur\t2964\t7060\t2415\nHasilpur\t2969\t7255\t2415\nDunga Bunga\t2975\t7324\t2415\nDunyapur\t2980\t7174\t2415\nMailsi\t2980\t7217\t2415\nChishtian\t2980\t7286\t2415\nShujaabad\t2988\t7129\t2415\nKhangarh\t2991\t7116\t2415\nBahawalnagar\t3000\t7325\t2415\nVihari\t3004\t7236\t2415\nDera Ghazi Khan\t3005\t7064\t2415\nMuzaffargarh\t3007\t7119\t2415\nMinchianabad\t3016\t7357\t2415\nBūrewāla\t3017\t7265\t2415\nMultan\t3020\t7148\t2415\nQadirpur Ran\t3029\t7167\t2415\nArifwala\t3029\t7307\t2415\nPakpattan\t3034\t7339\t2415\nKabirwala\t3040\t7186\t2415\nChak Thirty-one -Eleven Left\t3042\t7270\t2415\nChak One Hundred Twenty Nine Left\t3043\t7305\t2415\nMian Channun\t3044\t7236\t2415\nHaveli Lakha\t3045\t7369\t2415\nKot Addu\t3047\t7097\t2415\nTalamba\t3053\t7224\t2415\nChichawatni\t3053\t7269\t2415\nBahawalnagar\t3055\t7339\t2415\nBasirpur\t3058\t7384\t2415\nSarai Sidhu\t3059\t7197\t2415\nSahiwal\t3067\t7310\t2415\nDipalpur\t3067\t7365\t2415\nAhmadpur Sial\t3068\t7174\t2415\nTaunsa\t3070\t7065\t2415\nKamalia\t3073\t7265\t2415\nHujra Shah Muqim\t3074\t7382\t2415\nChak Azam Sahu\t3075\t7303\t2415\nKanganpur\t3076\t7412\t2415\nPir Mahal\t3077\t7243\t2415\nOkara\t3081\t7345\t2415\nGarh Maharaja\t3083\t7190\t2415\nMamu Kanjan\t3083\t7280\t2415\nRenala Khurd\t3088\t7360\t2415\nMustafābād\t3089\t7350\t2415\nLayyah\t3096\t7094\t2415\nToba Tek Singh\t3097\t7248\t2415\nChunian\t3097\t7398\t2415\nPattoki\t3102\t7385\t2415\nTandlianwala\t3103\t7313\t2415\nKasur\t3112\t7445\t2415\nGojra\t3115\t7268\t2415\nKot Radha Kishan\t3117\t7410\t2415\nChak Two Hundred Forty-nine Thal Development Authority\t3118\t7120\t2415\nMianke Mor\t3120\t7395\t2415\nKaror\t3122\t7095\t2415\nDijkot\t3122\t7300\t2415\nRaja Jang\t3122\t7425\t2415\nRaiwind\t3125\t7422\t2415\nJhang Sadr\t3127\t7232\t2415\nJaranwala\t3133\t7342\t2415\nKahna Nau\t3137\t7437\t2415\nFaisalabad\t3142\t7309\t2415\nNankana Sahib\t3145\t7371\t2415\nSharqpur Sharif\t3146\t7410\t2415\nKhurrianwala\t3150\t7327\t2415\nChak Five Hundred Seventy-five\t3155\t7383\t2415\nLahore\t3156\t7435\t2415\nBhawana\t3157\t7265\t2415\nChak Jhumra\t3157\t7318\t2415\nShahkot\t3157\t7349\t2415\nMananwala\t3159\t7369\t2415\nBhakkar\t3163\t7106\t2415\nShekhupura\t3171\t7399\t2415\nChiniot\t3172\t7298\t2415\nSangla Hill\t3172\t7338\t2415\nChuchar-kana Mandi\t3175\t7380\t2415\nChenab Nagar\t3176\t7291\t2415\nDarya Khan\t3178\t7110\t2415\nMuridke\t3180\t7426\t2415\nJahanian Shah\t3181\t7228\t2415\nLalian\t3182\t7280\t2415\nDullewala\t3183\t7144\t2415\nSillanwali\t3183\t7254\t2415\nKhangah Dogran\t3183\t7362\t2415\nSukheke Mandi\t3187\t7351\t2415\nMangla\t3189\t7238\t2415\nFaruka\t3189\t7241\t2415\nPindi Bhattian\t3190\t7327\t2415\nNarang Mandi\t3190\t7452\t2415\nNaushahra Virkan\t3196\t7397\t2415\nSahiwal\t3197\t7233\t2415\nKaleke Mandi\t3198\t7360\t2415\nKamoke\t3198\t7422\t2415\nBaddomalhi\t3199\t7466\t2415\nEminabad\t3204\t7426\t2415\nHafizabad\t3207\t7369\t2415\nSargodha\t3209\t7267\t2415\nNarowal\t3210\t7487\t2415\nKalur Kot\t3216\t7127\t2415\nGujranwala\t3216\t7419\t2415\nFazilpur\t3218\t7507\t2415\nKot Mumin\t3219\t7303\t2415\nMitha Tiwana\t3225\t7211\t2415\nPasrur\t3226\t7466\t2415\nShakargarh\t3226\t7516\t2415\nBhalwal\t3227\t7290\t2415\nHarnoli\t3228\t7155\t2415\nJauharabad\t3229\t7228\t2415\nKhushāb\t3230\t7235\t2415\nKot Ghulam Muhammad\t3233\t7455\t2415\nChawinda\t3234\t7471\t2415\nZafarwal\t3234\t7490\t2415\nJhawarian\t3236\t7262\t2415\nPhalia\t3243\t7358\t2415\nBhopalwala\t3243\t7436\t2415\nWazirabad\t3244\t7412\t2415\nKundian\t3246\t7148\t2415\nSodhri\t3246\t7418\t2415\nBhera\t3248\t7291\t2415\nSambrial\t3248\t7435\t2415\nSialkot\t3249\t7453\t2415\nKunjah\t3253\t7397\t2415\nMalakwal\t3255\t7321\t2415\nMalakwal City\t3255\t7321\t2415\nGujrat\t3257\t7408\t2415\nMianwali\t3258\t7153\t2415\nPind Dadan Khan\t3259\t7304\t2415\nMandi Bahauddin\t3259\t7349\t2415\nKotli Loharan\t3259\t7449\t2415\nDinga\t3264\t7372\t2415\nJalalpur Jattan\t3264\t7421\t2415\nHadali\t3264\t7457\t2415\nKhewra\t3265\t7301\t2415\nLala Musa\t3270\t7396\t2415\nChoa Saidan Shah\t3272\t7299\t2415\nSurkhpur\t3272\t7445\t2415\nKallar Kahar\t3278\t7270\t2415\nKharian\t3282\t7389\t2415\nKamar Mushani\t3284\t7136\t2415\nDaud Khel\t3288\t7157\t2415\nSarai Alamgir\t3290\t7376\t2415\nTalagang\t3293\t7242\t2415\nChakwal\t3293\t7285\t2415\nJhelum\t3293\t7373\t2415\nKalabagh\t3296\t7155\t2415\nPindi Gheb\t3324\t7226\t2415\nGujar Khan\t3325\t7330\t2415\nJand\t3343\t7202\t2415\nKahuta\t3359\t7339\t2415\nRawalpindi\t3360\t7305\t2415\nKamra\t3375\t7351\t2415\nAttock City\t3377\t7236\t2415\nHazro City\t3391\t7249\t2415\nMurree\t3391\t7339\t2415\nChuhar Jamali\t2439\t6799\t2416\nBadin\t2466\t6884\t2416\nGharo\t2474\t6759\t2416\nMithi\t2474\t6980\t2416\nThatta\t2475\t6792\t2416\nKarachi\t2486\t6701\t2416\nNaukot\t2486\t6940\t2416\nTalhar\t2488\t6881\t2416\nMatli\t2504\t6866\t2416\nTando Muhammad Khan\t2512\t6854\t2416\nDigri\t2516\t6911\t2416\nKunri\t2518\t6957\t2416\nUmarkot\t2536\t6974\t2416\nKotri\t2537\t6831\t2416\nHyderabad\t2539\t6837\t2416\nTando Jam\t2543\t6853\t2416\nTando Allahyar\t2546\t6872\t2416\nDhoro Naro\t2550\t6957\t2416\nChhor\t2551\t6978\t2416\nMirpur Khas\t2553\t6901\t2416\nMatiari\t2560\t6845\t2416\nTando Adam\t2577\t6866\t2416\nHala\t2581\t6842\t2416\nBhit Shah\t2581\t6849\t2416\nShahdadpur\t2593\t6862\t2416\nJhol\t2596\t6889\t2416\nSinjhoro\t2603\t6881\t2416\nSanghar\t2605\t6895\t2416\nSakrand\t2614\t6827\t2416\nShahpur Chakar\t2615\t6865\t2416\nNawabshah\t2624\t6840\t2416\nSehwan\t2642\t6786\t2416\nDaur\t2646\t6832\t2416\nBhan\t2656\t6772\t2416\nMoro\t2666\t6800\t2416\nJohi\t2669\t6761\t2416\nDadu\t2673\t6778\t2416\nPad Idan\t2677\t6830\t2416\nNaushahro Firoz\t2684\t6812\t2416\nTharu Shah\t2694\t6812\t2416\nSīta Road\t2703\t6785\t2416\nKandiaro\t2706\t6821\t2416\nKhairpur Nathan Shah\t2709\t6773\t2416\nMehar\t2718\t6782\t2416\nGoth Radhan\t2720\t6795\t2416\nHingorja\t2721\t6842\t2416\nSetharja Old\t2721\t6847\t2416\nRanipur\t2729\t6851\t2416\nNew Bādāh\t2734\t6803\t2416\nKot Diji\t2734\t6871\t2416\nGambat\t2735\t6852\t2416\nNasirabad\t2738\t6792\t2416\nWarah\t2745\t6780\t2416\nKhairpur Mir’s\t2753\t6876\t2416\nLarkana\t2756\t6821\t2416\nKambar\t2759\t6800\t2416\nPir Jo Goth\t2759\t6862\t2416\nNaudero\t2767\t6836\t2416\nRohri\t2769\t6890\t2416\nSukkur\t2770\t6886\t2416\nRatodero\t2780\t6829\t2416\nKhanpur Mahar\t2784\t6941\t2416\nShahdad Kot\t2785\t6791\t2416\nPano Aqil\t2786\t6911\t2416\nShikarpur\t2796\t6864\t2416\nGhotki\t2800\t6932\t2416\nMirpur Mathelo\t2802\t6955\t2416\nKhairpur\t2806\t6970\t2416\nGhauspur\t2814\t6908\t2416\nUbauro\t2816\t6973\t2416\nThul\t2824\t6878\t2416\nKandhkot\t2825\t6918\t2416\nJacobabad\t2828\t6844\t2416\nKashmor\t2843\t6958\t2416\nRawicz\t5161\t1686\t2417\nOstrów Wielkopolski\t5166\t1781\t2417\nKrotoszyn\t5170\t1744\t2417\nKalisz\t5176\t1809\t2417\nLeszno\t5184\t1657\t2417\nGostyń\t5188\t1701\t2417\nPleszew\t5190\t1779\t2417\nJarocin\t5197\t1750\t2417\nTurek\t5202\t1850\t2417\nKościan\t5209\t1665\t2417\nŚrem\t5209\t1702\t2417\nKoło\t5220\t1864\t2417\nKonin\t5222\t1825\t2417\nŚroda Wielkopolska\t5223\t1728\t2417\nNowy Tomyśl\t5232\t1613\t2417\nWrześnia\t5233\t1757\t2417\nLuboń\t5235\t1689\t2417\nPoznań\t5241\t1693\t2417\nSwarzędz\t5241\t1709\t2417\nGniezno\t5253\t1758\t2417\nSzamotuły\t5261\t1658\t2417\nOborniki\t5265\t1681\t2417\nWągrowiec\t5281\t1720\t2417\nChodzież\t5300\t1692\t2417\nTrzcianka\t5304\t1646\t2417\nPiła\t5315\t1674\t2417\nZłotów\t5336\t1704\t2417\nWłocławek\t5265\t1907\t2418\nInowrocław\t5280\t1826\t2418\nToruń\t5301\t1860\t2418\nRypin\t5307\t1941\t2418\nSolec Kujawski\t5308\t1823\t2418\nBydgoszcz\t5312\t1801\t2418\nNakło nad Notecią\t5314\t1760\t2418\nFordon\t5315\t1817\t2418\nChełmża\t5318\t1860\t2418\nBrodnica\t5326\t1940\t2418\nChełmno\t5335\t1843\t2418\nŚwiecie\t5341\t1845\t2418\nGrudziądz\t5348\t1875\t2418\nZakopane\t4930\t1995\t2419\nNowy Targ\t4948\t2003\t2419\nNowy Sącz\t4962\t2070\t2419\nGorlice\t4966\t2116\t2419\nMyślenice\t4983\t1994\t2419\nAndrychów\t4985\t1934\t2419\nKęty\t4988\t1922\t2419\nWadowice\t4988\t1949\t2419\nBochnia\t4997\t2043\t2419\nBrzesko\t4997\t2061\t2419\nSkawina\t4998\t1983\t2419\nWieliczka\t4999\t2006\t2419\nTarnów\t5001\t2099\t2419\nOświęcim\t5003\t1921\t2419\nKraków\t5006\t1994\t2419\nLibiąż\t5010\t1932\t2419\nChrzanów\t5014\t1940\t2419\nTrzebinia\t5016\t1947\t2419\nOlkusz\t5028\t1957\t2419\nKłodzko\t5043\t1666\t2420\nNowa Ruda\t5058\t1650\t2420\nZąbkowice Śląskie\t5059\t1681\t2420\nBielawa\t5069\t1662\t2420\nDzierżoniów\t5073\t1665\t2420\nBoguszów-Gorce\t5076\t1620\t2420\nWałbrzych\t5077\t1628\t2420\nKamienna Góra\t5078\t1603\t2420\nŚwidnica\t5084\t1649\t2420\nŚwiebodzice\t5086\t1632\t2420\nCieplice Śląskie Zdrój\t5087\t1568\t2420\nJelenia Góra\t5090\t1573\t2420\nBogatynia\t5091\t1496\t2420\nOława\t5095\t1729\t2420\nStrzegom\t5096\t1635\t2420\nJelcz Laskowice\t5102\t1732\t2420\nJawor\t5105\t1619\t2420\nWrocław\t5110\t1703\t2420\nLubań\t5112\t1529\t2420\nZłotoryja\t5113\t1592\t2420\nZgorzelec\t5115\t1501\t2420\nLegnica\t5121\t1616\t2420\nOleśnica\t5121\t1739\t2420\nBolesławiec\t5126\t1557\t2420\nLubin\t5140\t1620\t2420\nPolkowice\t5150\t1607\t2420\nGłogów\t5166\t1608\t2420\nTomaszów Lubelski\t5045\t2342\t2421\nBiłgoraj\t5054\t2272\t2421\nZamość\t5072\t2325\t2421\nHrubieszów\t5081\t2389\t2421\nKraśnik\t5092\t2223\t2421\nKrasnystaw\t5098\t2317\t2421\nChełm\t5114\t2347\t2421\nŚwidnik\t5122\t2270\t2421\nLublin\t5125\t2257\t2421\nŁęczna\t5130\t2288\t2421\nPuławy\t5142\t2197\t2421\nLubartów\t5146\t2261\t2421\nDęblin\t5156\t2185\t2421\nRadzyń Podlaski\t5178\t2262\t2421\nŁuków\t5193\t2238\t2421\nMiędzyrzec Podlaski\t5199\t2278\t2421\nBiała Podlaska\t5203\t2312\t2421\nŻagań\t5162\t1531\t2422\nŻary\t5164\t1514\t2422\nNowa Sól\t5180\t1572\t2422\nZielona Góra\t5194\t1551\t2422\nGubin\t5195\t1473\t2422\nSulechów\t5208\t1563\t2422\nŚwiebodzin\t5225\t1553\t2422\nSłubice\t5235\t1456\t2422\nMiędzyrzecz\t5244\t1558\t2422\nKostrzyn nad Odrą\t5259\t1465\t2422\nGorzów Wielkopolski\t5274\t1523\t2422\nRadom\t5140\t2115\t2423\nPionki\t5148\t2145\t2423\nKozienice\t5158\t2155\t2423\nGarwolin\t5190\t2161\t2423\nŻyrardów\t5205\t2045\t2423\nPiaseczno\t5208\t2102\t2423\nKonstancin-Jeziorna\t5209\t2112\t2423\nGrodzisk Mazowiecki\t5210\t2063\t2423\nOtwock\t5211\t2126\t2423\nMilanówek\t5212\t2067\t2423\nJózefów\t5214\t2124\t2423\nUrsynów\t5215\t2105\t2423\nPruszków\t5217\t2081\t2423\nSiedlce\t5217\t2229\t2423\nPiastów\t5218\t2084\t2423\nWłochy\t5218\t2095\t2423\nMińsk Mazowiecki\t5218\t2157\t2423\nMokotów\t5219\t2103\t2423\nUrsus\t5220\t2088\t2423\nWawer\t5220\t2118\t2423\nOchota\t5222\t2099\t2423\nSochaczew\t5223\t2024\t2423\nWarsaw\t5223\t2101\t2423\nŚródmieście\t5223\t2102\t2423\nWola\t5224\t2099\t2423\nPraga Południe\t5224\t2109\t2423\nBemowo\t5225\t2091\t2423\nPraga Północ\t5225\t2103\t2423\nWesoła\t5225\t2122\t2423\nSulejówek\t5225\t2127\t2423\nRembertów\t5226\t2116\t2423\nŻoliborz\t5227\t2099\t2423\nBielany\t5229\t2094\t2423\nTargówek\t5229\t2105\t2423\nZąbki\t5229\t2111\t2423\nZielonka\t5230\t2116\t2423\nBiałołeka\t5232\t2097\t2423\nMarki\t5232\t2110\t2423\nŁomianki\t5233\t2089\t2423\nKobyłka\t5234\t2120\t2423\nWołomin\t5234\t2124\t2423\nLegionowo\t5240\t2093\t2423\nSokołów Podlaski\t5241\t2225\t2423\nGostynin\t5243\t1946\t2423\nNowy Dwór Mazowiecki\t5243\t2072\t2423\nPłock\t5255\t1971\t2423\nWyszków\t5259\t2146\t2423\nPłońsk\t5262\t2038\t2423\nPułtusk\t5270\t2108\t2423\nOstrów Mazowiecka\t5280\t2190\t2423\nSierpc\t5286\t1967\t2423\nCiechanów\t5288\t2062\t2423\nPrzasnysz\t5302\t2088\t2423\nOstrołęka\t5309\t2158\t2423\nMława\t5311\t2038\t2423\nGłuchołazy\t5032\t1738\t2424\nPrudnik\t5032\t1757\t2424\nKędzierzyn-Koźle\t5035\t1823\t2424\nNysa\t5047\t1733\t2424\nKrapkowice\t5048\t1797\t2424\nStrzelce Opolskie\t5051\t1830\t2424\nOpole\t5067\t1793\t2424\nBrzeg\t5086\t1747\t2424\nKluczbork\t5097\t1822\t2424\nNamysłów\t5108\t1772\t2424\nSiemiatycze\t5243\t2286\t2425\nHajnówka\t5274\t2358\t2425\nBielsk Podlaski\t5277\t2319\t2425\nZambrów\t5299\t2224\t2425\nŁapy\t5299\t2288\t2425\nBiałystok\t5313\t2316\t2425\nŁomża\t5318\t2206\t2425\nSokółka\t5341\t2350\t2425\nGrajewo\t5365\t2246\t2425\nAugustów\t5384\t2298\t2425\nSuwałki\t5411\t2293\t2425\nChojnice\t5370\t1756\t2426\nKwidzyn\t5372\t1893\t2426\nStarogard Gdański\t5396\t1853\t2426\nMalbork\t5404\t1903\t2426\nTczew\t5409\t1878\t2426\nKościerzyna\t5412\t1798\t2426\nBytów\t5417\t1749\t2426\nPruszcz Gdański\t5426\t1864\t2426\nKartuzy\t5433\t1820\t2426\nGdańsk\t5435\t1865\t2426\nSopot\t5444\t1856\t2426\nSłupsk\t5446\t1703\t2426\nGdynia\t5452\t1853\t2426\nLębork\t5454\t1775\t2426\nRumia\t5457\t1839\t2426\nUstka\t5458\t1686\t2426\nWejherowo\t5461\t1824\t2426\nReda\t5461\t1835\t2426\nŻywiec\t4969\t1919\t2427\nUstroń\t4972\t1880\t2427\nCieszyn\t4975\t1863\t2427\nBielsko-Biala\t4982\t1905\t2427\nCzechowice-Dziedzice\t4991\t1900\t2427\nJastrzębie Zdrój\t4996\t1857\t2427\nPszczyna\t4998\t1895\t2427\nWodzisław Śląski\t5000\t1847\t2427\nRadlin\t5005\t1848\t2427\nŻory\t5005\t1870\t2427\nRydułtowy\t5006\t1842\t2427\nRacibórz\t5009\t1822\t2427\nBieruń\t5009\t1909\t2427\nRybnik\t5010\t1854\t2427\nTychy\t5014\t1897\t2427\nLędziny\t5014\t1913\t2427\nCzerwionka-Leszczyny\t5015\t1868\t2427\nŁaziska Górne\t5015\t1884\t2427\nOrzesze\t5016\t1878\t2427\nMikołów\t5017\t1890\t2427\nMysłowice\t5021\t1917\t2427\nJaworzno\t5021\t1927\t2427\nKnurów\t5022\t1865\t2427\nRuda Śląska\t5026\t1886\t2427\nKatowice\t5026\t1903\t2427\nSosnowiec\t5029\t1910\t2427\nGliwice\t5030\t1868\t2427\nŚwiętochłowice\t5030\t1892\t2427\nChorzów\t5031\t1897\t2427\nZabrze\t5032\t1879\t2427\nCzeladź\t5032\t1908\t2427\nSiemianowice Śląskie\t5033\t1903\t2427\nBędzin\t5033\t1913\t2427\nDąbrowa Górnicza\t5033\t1920\t2427\nBytom\t5035\t1893\t2427\nPiekary Śląskie\t5038\t1893\t2427\nPyskowice\t5040\t1863\t2427\nRadzionków\t5040\t1890\t2427\nTarnowskie Góry\t5045\t1886\t2427\nZawiercie\t5049\t1942\t2427\nMyszków\t5058\t1932\t2427\nLubliniec\t5067\t1868\t2427\nCzęstochowa\t5080\t1912\t2427\nSanok\t4956\t2221\t2428\nKrosno\t4969\t2177\t2428\nJasło\t4975\t2147\t2428\nPrzemyśl\t4978\t2277\t2428\nJarosław\t5002\t2268\t2428\nRzeszów\t5004\t2200\t2428\nDębica\t5005\t2141\t2428\nRopczyce\t5005\t2161\t2428\nPrzeworsk\t5006\t2249\t2428\nŁańcut\t5007\t2223\t2428\nMielec\t5029\t2142\t2428\nNisko\t5052\t2214\t2428\nTarnobrzeg\t5057\t2168\t2428\nStalowa Wola\t5058\t2205\t2428\nDziałdowo\t5324\t2017\t2429\nSzczytno\t5356\t2099\t2429\nIława\t5360\t1957\t2429\nPisz\t5363\t2181\t2429\nOstróda\t5370\t1996\t2429\nOlsztyn\t5378\t2049\t2429\nEłk\t5383\t2236\t2429\nMrągowo\t5386\t2131\t2429\nOlecko\t5403\t2251\t2429\nGiżycko\t5404\t2176\t2429\nKętrzyn\t5408\t2138\t2429\nGierłoż\t5408\t2150\t2429\nLidzbark Warmiński\t5413\t2058\t2429\nElbląg\t5415\t1941\t2429\nBartoszyce\t5425\t2081\t2429\nBraniewo\t5438\t1982\t2429\nChoszczno\t5317\t1542\t2430\nGryfino\t5325\t1449\t2430\nWałcz\t5328\t1647\t2430\nStargard\t5334\t1505\t2430\nSzczecin\t5343\t1455\t2430\nPolice\t5355\t1457\t2430\nGoleniów\t5356\t1483\t2430\nNowogard\t5367\t1512\t2430\nSzczecinek\t5371\t1670\t2430\nŚwidwin\t5377\t1578\t2430\nŚwinoujście\t5391\t1425\t2430\nGryfice\t5392\t1520\t2430\nBiałogard\t5401\t1599\t2430\nKołobrzeg\t5418\t1558\t2430\nKoszalin\t5419\t1617\t2430\nRadomsko\t5107\t1944\t2431\nWieluń\t5122\t1857\t2431\nBełchatów\t5137\t1936\t2431\nOpoczno\t5138\t2028\t2431\nPiotrków Trybunalski\t5141\t1970\t2431\nTomaszów Mazowiecki\t5153\t2001\t2431\nŁask\t5159\t1913\t2431\nSieradz\t5160\t1873\t2431\nZduńska Wola\t5160\t1894\t2431\nPabianice\t5166\t1935\t2431\nKonstantynów Łódzki\t5175\t1933\t2431\nRawa Mazowiecka\t5176\t2025\t2431\nŁódź\t5177\t1947\t2431\nAleksandrów Łódzki\t5182\t1930\t2431\nZgierz\t5186\t1941\t2431\nSkierniewice\t5195\t2016\t2431\nOzorków\t5196\t1929\t2431\nGłowno\t5196\t1972\t2431\nŁęczyca\t5206\t1920\t2431\nŁowicz\t5211\t1995\t2431\nKutno\t5223\t1936\t2431\nBusko-Zdrój\t5047\t2072\t2432\nStaszów\t5056\t2117\t2432\nJędrzejów\t5064\t2030\t2432\nSandomierz\t5068\t2175\t2432\nKielce\t5087\t2063\t2432\nOstrowiec Świętokrzyski\t5093\t2139\t2432\nStarachowice\t5104\t2107\t2432\nSkarżysko-Kamienna\t5111\t2087\t2432\nKońskie\t5119\t2041\t2432\nMiquelon\t4710\t-5638\t2433\nSaint-Pierre\t4678\t-5618\t2434\nAdamstown\t-2507\t-13010\t2435\nAdjuntas\t1816\t-6672\t2436\nAguada\t1838\t-6719\t2437\nAguadilla\t1843\t-6715\t2438\nAguas Buenas\t1826\t-6610\t2439\nAibonito\t1814\t-6627\t2440\nArecibo\t1847\t-6672\t2441\nArroyo\t1797\t-6606\t2442\nAñasco\t1828\t-6714\t2443\nBarceloneta\t1845\t-6654\t2444\nBarranquitas\t1819\t-6631\t2445\nBayamón\t1840\t-6616\t2446\nCabo Rojo\t1809\t-6715\t2447\nCaguas\t1823\t-6605\t2448\nCamuy\t1848\t-6684\t2449\nCanovanas\t1838\t-6590\t2450\nCarolina\t1838\t-6596\t2451\nCataño\t1844\t-6612\t2452\nCayey\t1811\t-6617\t2453\nCeiba\t1826\t-6565\t2454\nCiales\t1834\t-6647\t2455\nCidra\t1818\t-6616\t2456\nCoamo\t1808\t-6636\t2457\nComerío\t1822\t-6623\t2458\nCorozal\t1834\t-6632\t2459\nCulebra\t1830\t-6530\t2460\nDorado\t1846\t-6627\t2461\nFajardo\t1833\t-6565\t2462\nFlorida\t1836\t-6656\t2463\nGuayama\t1798\t-6611\t2464\nGuayanilla\t1802\t-6679\t2465\nGuaynabo\t1836\t-6611\t2466\nGurabo\t1825\t-6597\t2467\nGuánica\t1797\t-6691\t2468\nHatillo\t1849\t-6683\t2469\nHormigueros\t1814\t-6713\t2470\nHumacao\t1815\t-6583\t2471\nIsabela\t1850\t-6702\t2472\nJayuya\t1822\t-6659\t2473\nJuana Díaz\t1805\t-6651\t2474\nJuncos\t1823\t-6592\t2475\nLajas\t1805\t-6706\t2476\nLares\t1829\t-6688\t2477\nLas Marías\t1825\t-6699\t2478\nLas Piedras\t1818\t-6587\t2479\nLoíza\t1843\t-6588\t2480\nLuquillo\t1837\t-6572\t2481\nManatí\t1843\t-6649\t2482\nMaricao\t1818\t-6698\t2483\nMaunabo\t1801\t-6590\t2484\nMayagüez\t1820\t-6714\t2485\nMoca\t1839\t-6711\t2486\nMorovis\t1833\t-6641\t2487\nNaguabo\t1821\t-6573\t2488\nNaranjito\t1830\t-6624\t2489\nOrocovis\t1823\t-6639\t2490\nPatillas\t1801\t-6602\t2491\nPeñuelas\t1806\t-6672\t2492\nPonce\t1801\t-6662\t2493\nQuebradillas\t1847\t-6694\t2494\nRincón\t1834\t-6725\t2495\nRío Grande\t1838\t-6583\t2496\nSabana Grande\t1808\t-6696\t2497\nSalinas\t1798\t-6630\t2498\nSan Germán\t1808\t-6704\t2499\nSan Juan\t1847\t-6611\t2500\nSan Lorenzo\t1819\t-6596\t2501\nSan Sebastián\t1834\t-6699\t2502\nSanta Isabel\t1797\t-6640\t2503\nToa Alta\t1839\t-6625\t2504\nCandelaria\t1840\t-6621\t2505\nToa Baja\t1844\t-6626\t2505\nLevittown\t1845\t-6618\t2505\nTrujillo Alto\t1835\t-6601\t2506\nUtuado\t1827\t-6670\t2507\nVega Alta\t1841\t-6633\t2508\nVega Baja\t1844\t-6639\t2509\nIsabel Segunda\t1815\t-6544\t2510\nVillalba\t1813\t-6649\t2511\nYabucoa\t1805\t-6588\t2512\nYauco\t1803\t-6685\t2513\nRafaḩ\t3130\t3424\t2514\n‘Abasān al Kabīrah\t3132\t3434\t2514\nKhān Yūnis\t3134\t3431\t2514\nBanī Suhaylā\t3134\t3432\t2514\nAl Qarārah\t3137\t3434\t2514\nDayr al Balaḩ\t3142\t3435\t2514\nAz Zuwāydah\t3144\t3438\t2514\nAl Burayj\t3144\t3440\t2514\nAn Nuşayrāt\t3145\t3439\t2514\nGaza\t3150\t3447\t2514\nJabālyā\t3153\t3448\t2514\nBayt Ḩānūn\t3154\t3454\t2514\nBayt Lāhyā\t3155\t3450\t2514\nAr Rām wa Ḑāḩiyat al Barīd\t3185\t3523\t2514\nAs Samū‘\t3140\t3507\t2515\nAz̧ Z̧āhirīyah\t3141\t3497\t2515\nYuta\t3145\t3509\t2515\nDūrā\t3151\t3503\t2515\nBanī Na‘īm\t3152\t3516\t2515\nHebron\t3153\t3509\t2515\nIdhnā\t3156\t3497\t2515\nḨalḩūl\t3158\t3510\t2515\nSa‘īr\t3158\t3514\t2515\nBethlehem\t3170\t3520\t2515\nBayt Jālā\t3172\t3519\t2515\nAl ‘Ayzarīyah\t3177\t3527\t2515\nKalandia\t3187\t3522\t2515\nJericho\t3187\t3545\t2515\nRamallah\t3190\t3520\t2515\nAl Bīrah\t3191\t3522\t2515\nQalqīlyah\t3219\t3497\t2515\nBalāţah\t3221\t3529\t2515\nNablus\t3222\t3525\t2515\nŢūlkarm\t3231\t3503\t2515\nŢūbās\t3232\t3537\t2515\nQabāţīyah\t3241\t3528\t2515\nJanīn\t3246\t3530\t2515\nAl Yāmūn\t3249\t3523\t2515\nÍlhavo\t4060\t-867\t2516\nAveiro\t4064\t-865\t2516\nOvar\t4086\t-863\t2516\nSão João da Madeira\t4090\t-849\t2516\nFeira\t4093\t-854\t2516\nEspinho\t4101\t-864\t2516\nPonta Delgada\t3774\t-2567\t2517\nBeja\t3802\t-786\t2518\nGuimarães\t4144\t-830\t2519\nFafe\t4145\t-817\t2519\nCabeceiras de Basto\t4151\t-799\t2519\nBarcelos\t4153\t-862\t2519\nEsposende\t4154\t-878\t2519\nBraga\t4155\t-842\t2519\nBragança\t4181\t-676\t2520\nCastelo Branco\t3982\t-749\t2521\nCovilhã\t4028\t-751\t2521\nCondeixa-a-Nova\t4011\t-850\t2522\nFigueira da Foz\t4015\t-886\t2522\nCoimbra\t4021\t-842\t2522\nSanto António dos Olivais\t4022\t-841\t2522\nFaro\t3702\t-793\t2523\nOlhão\t3703\t-784\t2523\nQuarteira\t3707\t-810\t2523\nLaranjeiro\t3707\t-781\t2523\nAlbufeira\t3709\t-825\t2523\nLagos\t3710\t-867\t2523\nTavira\t3713\t-765\t2523\nPortimão\t3714\t-854\t2523\nLoulé\t3714\t-802\t2523\nGuarda\t4054\t-727\t2524\nSequeira\t4055\t-723\t2524\nCustoias\t4111\t-732\t2524\nPeniche\t3936\t-938\t2525\nCaldas da Rainha\t3940\t-914\t2525\nAlcobaça\t3955\t-898\t2525\nLeiria\t3974\t-881\t2525\nMarinha Grande\t3975\t-893\t2525\nPombal\t3992\t-863\t2525\nParede\t3869\t-935\t2526\nCarcavelos\t3869\t-932\t2526\nOeiras\t3869\t-931\t2526\nCascais\t3870\t-942\t2526\nSão Domingos de Rana\t3870\t-934\t2526\nPaço de Arcos\t3870\t-929\t2526\nAlgés\t3870\t-923\t2526\nMonte Estoril\t3871\t-941\t2526\nEstoril\t3871\t-940\t2526\nLinda-a-Velha\t3871\t-924\t2526\nLisbon\t3872\t-913\t2526\nAlcabideche\t3873\t-941\t2526\nCarnaxide\t3873\t-925\t2526\nAlfragide\t3873\t-922\t2526\nMassamá\t3875\t-928\t2526\nAmadora\t3875\t-923\t2526\nBenfica\t3875\t-920\t2526\nAlvalade\t3875\t-914\t2526\nQueluz\t3876\t-925\t2526\nRio de Mouro\t3877\t-933\t2526\nCacém\t3877\t-930\t2526\nPontinha\t3877\t-920\t2526\nOlivais\t3877\t-911\t2526\nBelas\t3878\t-926\t2526\nMoscavide e Portela\t3878\t-910\t2526\nOdivelas\t3879\t-918\t2526\nSacavém\t3879\t-911\t2526\nSintra\t3880\t-938\t2526\nAlgueirão\t3880\t-934\t2526\nRamada\t3880\t-919\t2526\nCamarate\t3880\t-913\t2526\nSão João da Talha\t3882\t-910\t2526\nLoures\t3883\t-917\t2526\nSanta Iria da Azóia\t3884\t-910\t2526\nPóvoa de Santa Iria\t3886\t-906\t2526\nVialonga\t3887\t-908\t2526\nVila Franca de Xira\t3896\t-899\t2526\nTorres Vedras\t3909\t-926\t2526\nSão Martinho\t3264\t-1694\t2527\nCâmara de Lobos\t3265\t-1698\t2527\nCaniço\t3265\t-1684\t2527\nFunchal\t3267\t-1693\t2527\nPortalegre\t3929\t-743\t2528\nVilar de Andorinho\t4111\t-859\t2529\nCanidelo\t4112\t-865\t2529\nVila Nova de Gaia\t4112\t-861\t2529\nOliveira do Douro\t4112\t-858\t2529\nGondomar\t4114\t-853\t2529\nSão Pedro da Cova\t4114\t-850\t2529\nPorto\t4115\t-861\t2529\nBaião\t4116\t-803\t2529\nFânzeres\t4117\t-853\t2529\nMatosinhos\t4118\t-869\t2529\nRio Tinto\t4118\t-856\t2529\nLeça da Palmeira\t4119\t-870\t2529\nSenhora da Hora\t4119\t-865\t2529\nSão Mamede de Infesta\t4119\t-861\t2529\nBaguim do Monte\t4119\t-854\t2529\nValongo\t4119\t-850\t2529\nParedes\t4120\t-833\t2529\nLeça do Bailio\t4121\t-863\t2529\nÁguas Santas\t4121\t-858\t2529\nErmesinde\t4122\t-855\t2529\nMaia\t4124\t-862\t2529\nAlfena\t4124\t-852\t2529\nTrofa\t4134\t-856\t2529\nBougado\t4134\t-855\t2529\nVila do Conde\t4135\t-875\t2529\nFelgueiras\t4137\t-819\t2529\nPóvoa de Varzim\t4138\t-876\t2529\nPedroso\t4141\t-875\t2529\nSantarém\t3923\t-868\t2530\nMonsanto\t3946\t-871\t2530\nEntroncamento\t3947\t-847\t2530\nTorres Novas\t3948\t-854\t2530\nTomar\t3960\t-841\t2530\nSesimbra\t3844\t-910\t2531\nAzeitão\t3852\t-901\t2531\nSetúbal\t3852\t-889\t2531\nQuinta Do Conde\t3857\t-904\t2531\nPalmela\t3857\t-890\t2531\nCharneca de Caparica\t3862\t-919\t2531\nAmora\t3863\t-912\t2531\nArrentela\t3863\t-910\t2531\nPinhal Novo\t3863\t-891\t2531\nCorroios\t3864\t-915\t2531\nMoita\t3865\t-899\t2531\nCaparica\t3866\t-920\t2531\nLaranjeira\t3866\t-915\t2531\nBarreiro\t3866\t-907\t2531\nPiedade\t3867\t-916\t2531\nLavradio\t3867\t-905\t2531\nAlmada\t3868\t-916\t2531\nMontijo\t3871\t-897\t2531\nViana do Castelo\t4169\t-883\t2532\nPonte de Lima\t4177\t-858\t2532\nArcos de Valdevez\t4185\t-842\t2532\nMonção\t4208\t-848\t2532\nVila Real\t4130\t-774\t2533\nChaves\t4174\t-747\t2533\nViseu\t4066\t-791\t2534\nÉvora\t3857\t-790\t2535\nNgchemiangel\t745\t13448\t2536\nNgetkib\t736\t13451\t2537\nAngaur State\t691\t13413\t2538\nTobi Village\t300\t13112\t2539\nKayangel\t808\t13472\t2540\nKoror\t734\t13447\t2541\nNgerulmud\t750\t13462\t2542\nMelekeok Village\t750\t13464\t2542\nUlimang\t762\t13464\t2543\nMengellang\t770\t13463\t2544\nNgardmau\t761\t13457\t2545\nNgereklmadel\t749\t13449\t2546\nNgchesar Hamlet\t747\t13461\t2547\nImeong Hamlet\t753\t13453\t2548\nNgerkeai\t755\t13464\t2549\nKloulklubed\t704\t13426\t2550\nSonsorol Village\t533\t13222\t2551\nFuerte Olimpo\t-2104\t-5787\t2552\nPresidente Franco\t-2556\t-5461\t2553\nCiudad del Este\t-2551\t-5461\t2553\nPedro Juan Caballero\t-2255\t-5573\t2554\nAsunción\t-2529\t-5765\t2555\nFiladelfia\t-2234\t-6003\t2556\nCaaguazú\t-2547\t-5602\t2557\nCoronel Oviedo\t-2544\t-5644\t2557\nCaazapá\t-2620\t-5637\t2558\nSalto del Guairá\t-2406\t-5431\t2559\nItá\t-2550\t-5737\t2560\nSan Antonio\t-2542\t-5755\t2560\nNemby\t-2539\t-5754\t2560\nItauguá\t-2539\t-5735\t2560\nVilla Elisa\t-2537\t-5759\t2560\nCapiatá\t-2536\t-5745\t2560\nLambaré\t-2535\t-5761\t2560\nFernando de la Mora\t-2534\t-5752\t2560\nSan Lorenzo\t-2534\t-5751\t2560\nAreguá\t-2531\t-5738\t2560\nMariano Roque Alonso\t-2521\t-5753\t2560\nLimpio\t-2517\t-5749\t2560\nConcepción\t-2340\t-5743\t2561\nCaacupé\t-2539\t-5714\t2562\nVillarrica\t-2575\t-5644\t2563\nEncarnación\t-2733\t-5587\t2564\nSan Juan Bautista\t-2667\t-5715\t2565\nParaguarí\t-2562\t-5715\t2566\nVilla Hayes\t-2509\t-5752\t2567\nSan Pedro de Ycuamandiyú\t-2409\t-5709\t2568\nPilar\t-2686\t-5831\t2569\nAz̧ Z̧a‘āyin\t2558\t5148\t2570\nAl Khawr\t2568\t5151\t2571\nAl Wakrah\t2517\t5160\t2572\nAsh Shīḩānīyah\t2537\t5122\t2573\nDoha\t2529\t5153\t2574\nAr Rayyān\t2529\t5142\t2575\nMadīnat ash Shamāl\t2613\t5120\t2576\nUmm Şalāl Muḩammad\t2542\t5141\t2577\nUmm Şalāl ‘Alī\t2547\t5140\t2577\nSaint-Joseph\t-2138\t5562\t2578\nSaint-Pierre\t-2134\t5548\t2578\nSaint-Louis\t-2129\t5541\t2578\nLe Tampon\t-2128\t5552\t2578\nPiton Saint-Leu\t-2122\t5532\t2578\nSaint-Leu\t-2117\t5529\t2578\nSaint-Benoît\t-2104\t5572\t2578\nSaint-Paul\t-2101\t5527\t2578\nSaint-André\t-2096\t5565\t2578\nLe Port\t-2094\t5529\t2578\nLa Possession\t-2093\t5533\t2578\nSainte-Suzanne\t-2091\t5561\t2578\nSainte-Marie\t-2090\t5555\t2578\nSaint-Denis\t-2088\t5545\t2578\nCugir\t4584\t2337\t2579\nSebeş\t4596\t2357\t2579\nAlba Iulia\t4607\t2358\t2579\nBlaj\t4618\t2392\t2579\nAiud\t4631\t2372\t2579\nOcna Mureş\t4638\t2385\t2579\nArad\t4618\t2132\t2580\nPiteşti\t4485\t2487\t2581\nMioveni\t4496\t2494\t2581\nCurtea de Argeş\t4513\t2467\t2581\nComăneşti\t4642\t2644\t2582\nMoineşti\t4648\t2649\t2582\nBacău\t4657\t2691\t2582\nBuhuşi\t4672\t2670\t2582\nSalonta\t4680\t2165\t2583\nOradea\t4705\t2192\t2583\nBistriţa\t4713\t2450\t2584\nBotoşani\t4775\t2667\t2585\nDorohoi\t4795\t2640\t2585\nZărnești\t4556\t2532\t2586\nRâşnov\t4558\t2545\t2586\nSăcele\t4562\t2571\t2586\nBraşov\t4565\t2561\t2586\nCodlea\t4570\t2545\t2586\nFăgăraș\t4585\t2497\t2586\nBrăila\t4527\t2797\t2587\nBucharest\t4443\t2611\t2588\nBuzău\t4515\t2683\t2589\nRâmnicu Sărat\t4538\t2705\t2589\nReşiţa\t4530\t2189\t2590\nBocşa\t4537\t2171\t2590\nCaransebeş\t4542\t2222\t2590\nCâmpia Turzii\t4655\t2388\t2591\nTurda\t4657\t2378\t2591\nCluj-Napoca\t4677\t2360\t2591\nGherla\t4703\t2392\t2591\nDej\t4715\t2387\t2591\nMangalia\t4380\t2858\t2592\nConstanţa\t4418\t2863\t2592\nMedgidia\t4425\t2828\t2592\nNăvodari\t4432\t2860\t2592\nCernavodă\t4434\t2803\t2592\nSfântu Gheorghe\t4587\t2578\t2593\nTârgu Secuiesc\t4600\t2613\t2593\nOlteniţa\t4408\t2663\t2594\nCălăraşi\t4421\t2731\t2594\nCalafat\t4399\t2293\t2595\nBăileşti\t4402\t2335\t2595\nCraiova\t4432\t2380\t2595\nFiliaşi\t4455\t2352\t2595\nGăeşti\t4472\t2532\t2596\nTârgovişte\t4493\t2546\t2596\nMoreni\t4498\t2564\t2596\nGalaţi\t4544\t2805\t2597\nTecuci\t4585\t2743\t2597\nGiurgiu\t4389\t2596\t2598\nMotru\t4480\t2297\t2599\nTârgu Jiu\t4505\t2328\t2599\nOdorheiu Secuiesc\t4630\t2530\t2600\nMiercurea-Ciuc\t4635\t2580\t2600\nGheorgheni\t4672\t2560\t2600\nLupeni\t4536\t2324\t2601\nVulcan\t4538\t2327\t2601\nPetroşani\t4542\t2337\t2601\nPetrila\t4545\t2342\t2601\nHunedoara\t4575\t2290\t2601\nOrăştie\t4583\t2320\t2601\nDeva\t4588\t2290\t2601\nBrad\t4613\t2278\t2601\nFeteşti\t4438\t2783\t2602\nSlobozia\t4456\t2736\t2602\nUrziceni\t4472\t2663\t2602\nIaşi\t4717\t2760\t2603\nPaşcani\t4725\t2672\t2603\nPopeşti-Leordeni\t4438\t2617\t2604\nPantelimon\t4445\t2620\t2604\nVoluntari\t4449\t2617\t2604\nBuftea\t4456\t2595\t2604\nBaia Mare\t4766\t2357\t2605\nBaia Sprie\t4766\t2369\t2605\nBorşa\t4766\t2466\t2605\nVişeu de Sus\t4772\t2443\t2605\nSighetu Marmaţiei\t4793\t2389\t2605\nDrobeta-Turnu Severin\t4463\t2265\t2606\nSighișoara\t4622\t2479\t2607\nTârnăveni\t4633\t2430\t2607\nLuduş\t4648\t2410\t2607\nTârgu-Mureş\t4654\t2456\t2607\nPiatra Neamţ\t4692\t2633\t2608\nRoman\t4692\t2693\t2608\nTârgu Neamţ\t4720\t2637\t2608\nCorabia\t4378\t2450\t2609\nCaracal\t4412\t2435\t2609\nBalş\t4435\t2410\t2609\nSlatina\t4443\t2437\t2609\nPloieşti\t4495\t2602\t2610\nMizil\t4502\t2645\t2610\nBăicoi\t4503\t2585\t2610\nCâmpina\t4513\t2573\t2610\nBreaza\t4518\t2567\t2610\nCarei\t4768\t2247\t2611\nSatu Mare\t4780\t2286\t2611\nCisnădie\t4572\t2415\t2612\nSibiu\t4580\t2415\t2612\nMediaş\t4617\t2435\t2612\nVatra Dornei\t4735\t2537\t2613\nFălticeni\t4745\t2630\t2613\nCâmpulung Moldovenesc\t4753\t2557\t2613\nGura Humorului\t4755\t2590\t2613\nSuceava\t4763\t2625\t2613\nRădăuți\t4785\t2592\t2613\nZalău\t4720\t2305\t2614\nŞimleu Silvaniei\t4723\t2280\t2614\nZimnicea\t4366\t2536\t2615\nTurnu Măgurele\t4375\t2487\t2615\nAlexandria\t4398\t2533\t2615\nRoșiorii de Vede\t4412\t2498\t2615\nLugoj\t4569\t2190\t2616\nTimişoara\t4575\t2123\t2616\nTulcea\t4518\t2881\t2617\nBârlad\t4623\t2767\t2618\nVaslui\t4663\t2773\t2618\nHuşi\t4667\t2806\t2618\nFocșani\t4570\t2718\t2619\nAdjud\t4610\t2717\t2619\nDrăgăşani\t4465\t2427\t2620\nRâmnicu Vâlcea\t4510\t2437\t2620\nVranje\t4255\t2190\t2621\nLeskovac\t4300\t2195\t2621\nNovi Pazar\t4314\t2051\t2621\nPirot\t4315\t2259\t2621\nProkuplje\t4323\t2159\t2621\nNiš\t4332\t2190\t2621\nKnjazevac\t4357\t2226\t2621\nKruševac\t4358\t2133\t2621\nTrstenik\t4362\t2100\t2621\nKraljevo\t4373\t2069\t2621\nUžice\t4386\t1985\t2621\nČačak\t4389\t2035\t2621\nZaječar\t4390\t2226\t2621\nĆuprija\t4393\t2137\t2621\nJagodina\t4398\t2126\t2621\nKragujevac\t4402\t2092\t2621\nGornji Milanovac\t4403\t2046\t2621\nBor\t4407\t2210\t2621\nNegotin\t4423\t2253\t2621\nValjevo\t4428\t1990\t2621\nAranđelovac\t4431\t2056\t2621\nSmederevska Palanka\t4437\t2096\t2621\nLazarevac\t4439\t2026\t2621\nPožarevac\t4462\t2119\t2621\nObrenovac\t4465\t2020\t2621\nSmederevo\t4466\t2093\t2621\nSremčica\t4468\t2039\t2621\nŠabac\t4475\t1969\t2621\nBelgrade\t4480\t2047\t2621\nZemun\t4485\t2040\t2621\nPančevo\t4487\t2064\t2622\nNova Pazova\t4494\t2022\t2622\nSremska Mitrovica\t4498\t1961\t2622\nStara Pazova\t4499\t2016\t2622\nRuma\t4501\t1982\t2622\nInđija\t4505\t2008\t2622\nVršac\t4512\t2130\t2622\nBačka Palanka\t4525\t1940\t2622\nNovi Sad\t4525\t1984\t2622\nZrenjanin\t4538\t2038\t2622\nVrbas\t4557\t1964\t2622\nBečej\t4562\t2003\t2622\nApatin\t4567\t1898\t2622\nSombor\t4577\t1911\t2622\nBačka Topola\t4582\t1963\t2622\nKikinda\t4583\t2047\t2622\nSenta\t4593\t2008\t2622\nSubotica\t4610\t1967\t2622\nMaykop\t4461\t4011\t2623\nGiaginskaya\t4486\t4007\t2623\nEnem\t4493\t3891\t2623\nYablonovskiy\t4499\t3894\t2623\nGorno-Altaysk\t5196\t8592\t2624\nMayma\t5202\t8591\t2624\nGornyak\t5099\t8147\t2625\nRubtsovsk\t5151\t8121\t2625\nAleysk\t5249\t8278\t2625\nBiysk\t5254\t8521\t2625\nKulunda\t5257\t7894\t2625\nYarovoye\t5293\t7858\t2625\nSlavgorod\t5300\t7864\t2625\nYuzhnyy\t5325\t8369\t2625\nNovosilikatnyy\t5331\t8362\t2625\nBarnaul\t5336\t8376\t2625\nNovoaltaysk\t5339\t8394\t2625\nZarinsk\t5371\t8495\t2625\nKamen’-na-Obi\t5379\t8134\t2625\nTal’menka\t5382\t8357\t2625\nRaychikhinsk\t4979\t12941\t2626\nBlagoveshchensk\t5028\t12754\t2626\nBelogorsk\t5092\t12848\t2626\nSvobodnyy\t5138\t12814\t2626\nShimanovsk\t5201\t12768\t2626\nZeya\t5374\t12726\t2626\nTynda\t5516\t12472\t2626\nVel’sk\t6107\t4210\t2627\nKotlas\t6126\t4665\t2627\nKoryazhma\t6131\t4717\t2627\nMirnyy\t6133\t4454\t2627\nNyandoma\t6167\t4020\t2627\nMirnyy\t6276\t4034\t2627\nOnega\t6391\t3811\t2627\nNovodvinsk\t6442\t4081\t2627\nIsakogorka\t6445\t4065\t2627\nArkhangel’sk\t6454\t4054\t2627\nSeverodvinsk\t6456\t3983\t2627\nYagry\t6459\t3981\t2627\nKamyzyak\t4611\t4807\t2628\nAstrakhan\t4635\t4804\t2628\nKharabali\t4742\t4726\t2628\nAkhtubinsk\t4828\t4617\t2628\nZnamensk\t4858\t4573\t2628\nBaymak\t5259\t5832\t2629\nSibay\t5272\t5867\t2629\nKumertau\t5277\t5578\t2629\nMeleuz\t5296\t5593\t2629\nSalavat\t5338\t5591\t2629\nIshimbay\t5345\t5604\t2629\nSterlitamak\t5362\t5595\t2629\nPriyutovo\t5390\t5393\t2629\nBeloretsk\t5396\t5840\t2629\nMezgor'e\t5405\t5782\t2629\nRayevskiy\t5407\t5495\t2629\nBelebey\t5412\t5412\t2629\nDavlekanovo\t5422\t5503\t2629\nUchaly\t5436\t5944\t2629\nOktyabr’skiy\t5448\t5347\t2629\nChishmy\t5458\t5538\t2629\nTuymazy\t5461\t5371\t2629\nUfa\t5474\t5597\t2629\nBlagoveshchensk\t5504\t5598\t2629\nBirsk\t5542\t5554\t2629\nDyurtyuli\t5549\t5487\t2629\nAgidel’\t5591\t5394\t2629\nNeftekamsk\t5609\t5427\t2629\nYanaul\t5628\t5493\t2629\nValuyki\t5020\t3811\t2630\nShebekino\t5041\t3691\t2630\nBelgorod\t5061\t3658\t2630\nAlekseyevka\t5063\t3869\t2630\nNovyy Oskol\t5076\t3786\t2630\nStroitel’\t5079\t3648\t2630\nChernyanka\t5093\t3782\t2630\nGubkin\t5128\t3755\t2630\nStaryy Oskol\t5130\t3784\t2630\nNovozybkov\t5254\t3193\t2631\nStarodub\t5258\t3276\t2631\nTrubchevsk\t5258\t3376\t2631\nKlintsy\t5276\t3224\t2631\nUnecha\t5285\t3267\t2631\nPochep\t5293\t3345\t2631\nKarachev\t5312\t3499\t2631\nBryansk\t5325\t3437\t2631\nSel’tso\t5337\t3410\t2631\nZhukovka\t5353\t3373\t2631\nDyat’kovo\t5360\t3434\t2631\nKyakhta\t5036\t10645\t2632\nGusinoozyorsk\t5128\t10650\t2632\nUlan-Ude\t5183\t10761\t2632\nSeverobaykal’sk\t5564\t10932\t2632\nUrus-Martan\t4313\t4554\t2633\nShali\t4315\t4590\t2633\nAvtury\t4316\t4600\t2633\nAchkhoy-Martan\t4319\t4528\t2633\nKurchaloy\t4320\t4609\t2633\nTsotsin-Yurt\t4324\t4600\t2633\nArgun\t4330\t4587\t2633\nGroznyy\t4331\t4569\t2633\nGudermes\t4335\t4611\t2633\nKartaly\t5305\t6065\t2634\nMagnitogorsk\t5342\t5905\t2634\nTroitsk\t5410\t6158\t2634\nPlast\t5437\t6081\t2634\nYuzhnoural’sk\t5444\t6125\t2634\nKatav-Ivanovsk\t5475\t5820\t2634\nYemanzhelinsk\t5475\t6132\t2634\nTrëkhgornyy\t5482\t5846\t2634\nKorkino\t5489\t6140\t2634\nUst’-Katav\t5494\t5818\t2634\nBakal\t5494\t5881\t2634\nChebarkul’\t5497\t6036\t2634\nSim\t5499\t5770\t2634\nAsha\t5500\t5727\t2634\nSatka\t5504\t5904\t2634\nMiass\t5505\t6011\t2634\nKopeysk\t5512\t6163\t2634\nChelyabinsk\t5515\t6143\t2634\nZlatoust\t5517\t5965\t2634\nKusa\t5534\t5944\t2634\nKarabash\t5548\t6022\t2634\nKyshtym\t5571\t6055\t2634\nOzersk\t5576\t6070\t2634\nKasli\t5589\t6076\t2634\nVerkhniy Ufaley\t5606\t6024\t2634\nSnezhinsk\t5609\t6073\t2634\nAnadyr\t6473\t17751\t2635\nAlatyr’\t5484\t4658\t2636\nShumerlya\t5550\t4641\t2636\nKanash\t5551\t4749\t2636\nNovocheboksarsk\t5611\t4748\t2636\nCheboksary\t5613\t4725\t2636\nBelidzhi\t4189\t4841\t2637\nDerbent\t4207\t4829\t2637\nDagestanskiye Ogni\t4212\t4819\t2637\nIzberbash\t4257\t4786\t2637\nBuynaksk\t4282\t4712\t2637\nKaspiysk\t4288\t4764\t2637\nMakhachkala\t4298\t4750\t2637\nKizilyurt\t4319\t4689\t2637\nKhasavyurt\t4325\t4659\t2637\nKizlyar\t4385\t4671\t2637\nSurkhakhi\t4319\t4490\t2638\nEkazhevo\t4321\t4482\t2638\nMagas\t4322\t4477\t2638\nKantyshevo\t4323\t4463\t2638\nNazran’\t4323\t4477\t2638\nNesterovskaya\t4324\t4505\t2638\nKarabulak\t4331\t4490\t2638\nTroitskaya\t4331\t4498\t2638\nSunzha\t4332\t4505\t2638\nMalgobek\t4351\t4459\t2638\nStaryy Malgobek\t4354\t4460\t2638\nBaykal’sk\t5152\t10414\t2639\nSlyudyanka\t5166\t10371\t2639\nShelekhov\t5221\t10409\t2639\nMarkova\t5221\t10422\t2639\nIrkutsk\t5230\t10430\t2639\nAngarsk\t5254\t10389\t2639\nUsol’ye-Sibirskoye\t5275\t10365\t2639\nCheremkhovo\t5316\t10307\t2639\nZima\t5392\t10204\t2639\nSayansk\t5411\t10216\t2639\nTulun\t5456\t10058\t2639\nNizhneudinsk\t5491\t9903\t2639\nTayshet\t5593\t9800\t2639\nChunskiy\t5608\t9963\t2639\nVikhorevka\t5612\t10118\t2639\nBratsk\t5613\t10161\t2639\nZheleznogorsk-Ilimskiy\t5658\t10412\t2639\nUst’-Kut\t5679\t10577\t2639\nBodaybo\t5785\t11419\t2639\nUst’-Ilimsk\t5800\t10266\t2639\nShuya\t5685\t4139\t2640\nTeykovo\t5686\t4054\t2640\nKokhma\t5693\t4109\t2640\nIvanovo\t5700\t4097\t2640\nRodniki\t5711\t4173\t2640\nVichuga\t5721\t4193\t2640\nFurmanov\t5725\t4111\t2640\nPrivolzhsk\t5739\t4129\t2640\nKineshma\t5744\t4213\t2640\nBirobidzhan\t4879\t13292\t2641\nTyrnyauz\t4338\t4292\t2642\nTerek\t4348\t4414\t2642\nNal’chik\t4350\t4362\t2642\nChegem\t4356\t4359\t2642\nNartkala\t4356\t4385\t2642\nDugulubgey\t4366\t4354\t2642\nBaksan\t4369\t4354\t2642\nProkhladnyy\t4376\t4403\t2642\nGusev\t5459\t2220\t2643\nChernyakhovsk\t5463\t2182\t2643\nBaltiysk\t5465\t1991\t2643\nSvetlyy\t5468\t2013\t2643\nKaliningrad\t5471\t2051\t2643\nZelenogradsk\t5496\t2048\t2643\nSovetsk\t5508\t2188\t2643\nElista\t4631\t4426\t2644\nLyudinovo\t5387\t3445\t2645\nKozel’sk\t5404\t3577\t2645\nKirov\t5407\t3430\t2645\nSukhinichi\t5410\t3534\t2645\nKaluga\t5453\t3628\t2645\nKondrovo\t5481\t3593\t2645\nMaloyaroslavets\t5501\t3647\t2645\nObninsk\t5510\t3661\t2645\nBalabanovo\t5518\t3666\t2645\nVilyuchinsk\t5293\t15840\t2646\nPetropavlovsk-Kamchatsky\t5304\t15865\t2646\nYelizovo\t5319\t15838\t2646\nKarachayevsk\t4377\t4191\t2647\nZelenchukskaya\t4386\t4159\t2647\nUchkeken\t4394\t4251\t2647\nUst’-Dzheguta\t4408\t4198\t2647\nCherkessk\t4422\t4206\t2647\nSortavala\t6171\t3071\t2648\nPetrozavodsk\t6178\t3435\t2648\nKondopoga\t6221\t3426\t2648\nMedvezh’yegorsk\t6292\t3446\t2648\nSegezha\t6374\t3432\t2648\nKostomuksha\t6457\t3058\t2648\nBikin\t4681\t13425\t2649\nVyazemskiy\t4754\t13476\t2649\nKhabarovsk\t4848\t13508\t2649\nSovetskaya Gavan’\t4897\t14029\t2649\nVanino\t4910\t14025\t2649\nAmursk\t5024\t13688\t2649\nKomsomolsk-on-Amur\t5055\t13701\t2649\nNikolayevsk-on-Amure\t5315\t14072\t2649\nAbaza\t5266\t9009\t2650\nSayanogorsk\t5309\t9140\t2650\nAbakan\t5372\t9143\t2650\nChernogorsk\t5382\t9128\t2650\nUray\t6013\t6479\t2651\nPyt-Yakh\t6075\t7286\t2651\nNizhnevartovsk\t6093\t7655\t2651\nIzluchinsk\t6098\t7692\t2651\nKhanty-Mansiysk\t6100\t6900\t2651\nMegion\t6103\t7611\t2651\nNefteyugansk\t6110\t7260\t2651\nPoykovskiy\t6123\t7333\t2651\nSurgut\t6125\t7342\t2651\nLangepas\t6125\t7521\t2651\nYugorsk\t6131\t6333\t2651\nSovetskiy\t6136\t6358\t2651\nFedorovskiy\t6161\t7371\t2651\nLyantor\t6162\t7216\t2651\nPokachi\t6172\t7537\t2651\nRaduzhny\t6210\t7747\t2651\nNyagan\t6214\t6539\t2651\nKogalym\t6227\t7448\t2651\nNizhnesortymskiy\t6244\t7176\t2651\nBeloyarskiy\t6371\t6667\t2651\nVyatskiye Polyany\t5623\t5107\t2652\nYaransk\t5730\t4789\t2652\nSovetsk\t5758\t4896\t2652\nKotel’nich\t5831\t4835\t2652\nKirovo-Chepetsk\t5855\t5004\t2652\nKirov\t5860\t4966\t2652\nOmutninsk\t5867\t5219\t2652\nSlobodskoy\t5873\t5018\t2652\nSyktyvkar\t6166\t5082\t2653\nEzhva\t6181\t5073\t2653\nYemva\t6259\t5086\t2653\nUkhta\t6357\t5368\t2653\nSosnogorsk\t6360\t5388\t2653\nPechora\t6515\t5722\t2653\nUsinsk\t6599\t5753\t2653\nVorkuta\t6750\t6405\t2653\nVorgashor\t6758\t6379\t2653\nVolgorechensk\t5744\t4116\t2654\nNerekhta\t5746\t4057\t2654\nKostroma\t5777\t4093\t2654\nManturovo\t5833\t4476\t2654\nShar’ya\t5837\t4552\t2654\nBuy\t5848\t4154\t2654\nAdler\t4343\t3992\t2655\nKudepsta\t4350\t3989\t2655\nKhosta\t4351\t3987\t2655\nSochi\t4360\t3973\t2655\nDagomys\t4367\t3967\t2655\nLazarevskoye\t4391\t3933\t2655\nTuapse\t4411\t3908\t2655\nOtradnaya\t4439\t4152\t2655\nMostovskoy\t4441\t4079\t2655\nKhadyzhensk\t4443\t3954\t2655\nApsheronsk\t4446\t3973\t2655\nGelendzhik\t4456\t3808\t2655\nGoryachiy Klyuch\t4463\t3913\t2655\nLabinsk\t4463\t4074\t2655\nNovorossiysk\t4472\t3777\t2655\nBelorechensk\t4477\t3988\t2655\nIl’skiy\t4484\t3857\t2655\nAkhtyrskiy\t4485\t3830\t2655\nKholmskiy\t4485\t3839\t2655\nSeverskaya\t4485\t3868\t2655\nAbinsk\t4487\t3816\t2655\nKurganinsk\t4488\t4060\t2655\nAnapa\t4489\t3732\t2655\nAfipskiy\t4490\t3884\t2655\nKrymsk\t4493\t3799\t2655\nArmavir\t4499\t4112\t2655\nKrasnodar\t4504\t3898\t2655\nYelizavetinskaya\t4505\t3879\t2655\nNovokubansk\t4512\t4103\t2655\nUst’-Labinsk\t4521\t3969\t2655\nDinskaya\t4522\t3923\t2655\nNovotitarovskaya\t4524\t3898\t2655\nSlavyansk-na-Kubani\t4526\t3813\t2655\nTemryuk\t4527\t3739\t2655\nGul’kevichi\t4535\t4069\t2655\nTbilisskaya\t4536\t4019\t2655\nKrasnoarmeyskaya\t4537\t3821\t2655\nKropotkin\t4544\t4058\t2655\nMedvedovskaya\t4545\t3902\t2655\nKorenovsk\t4547\t3945\t2655\nVyselki\t4558\t3966\t2655\nTimashëvsk\t4562\t3895\t2655\nBryukhovetskaya\t4581\t3900\t2655\nTikhoretsk\t4585\t4013\t2655\nNovopokrovskaya\t4595\t4070\t2655\nPrimorsko-Akhtarsk\t4605\t3817\t2655\nKanevskaya\t4608\t3896\t2655\nBelaya Glina\t4608\t4087\t2655\nPavlovskaya\t4614\t3978\t2655\nLeningradskaya\t4632\t3939\t2655\nStarominskaya\t4653\t3905\t2655\nKushchëvskaya\t4656\t3963\t2655\nStaroshcherbinovskaya\t4663\t3867\t2655\nYeysk\t4671\t3827\t2655\nShushenskoye\t5333\t9194\t2656\nMinusinsk\t5371\t9169\t2656\nUzhur\t5531\t8983\t2656\nSharypovo\t5554\t8920\t2656\nBorodino\t5591\t9491\t2656\nDivnogorsk\t5596\t9237\t2656\nNazarovo\t5601\t9040\t2656\nKrasnoyarsk\t5602\t9287\t2656\nBerëzovka\t5603\t9311\t2656\nZelenogorsk\t5611\t9460\t2656\nSosnovoborsk\t5612\t9334\t2656\nKansk\t5620\t9572\t2656\nBogotol\t5621\t8953\t2656\nIlanskiy\t5623\t9607\t2656\nZheleznogorsk\t5625\t9353\t2656\nAchinsk\t5627\t9050\t2656\nLesosibirsk\t5824\t9248\t2656\nYeniseysk\t5845\t9218\t2656\nKodinsk\t5861\t9917\t2656\nNorilsk\t6935\t8820\t2656\nKayyerkan\t6938\t8774\t2656\nDudinka\t6941\t8618\t2656\nTalnakh\t6949\t8840\t2656\nKurtamysh\t5491\t6443\t2657\nShumikha\t5523\t6330\t2657\nKurgan\t5545\t6533\t2657\nShadrinsk\t5609\t6363\t2657\nKataysk\t5629\t6258\t2657\nRyl’sk\t5157\t3468\t2658\nL’govskiy\t5163\t3528\t2658\nKurchatov\t5166\t3565\t2658\nKursk\t5174\t3619\t2658\nShchigry\t5188\t3690\t2658\nZheleznogorsk\t5233\t3537\t2658\nTashtagol\t5277\t8789\t2659\nKaltan\t5353\t8725\t2659\nOsinniki\t5362\t8736\t2659\nMezhdurechensk\t5369\t8806\t2659\nMyski\t5371\t8780\t2659\nNovokuznetsk\t5376\t8711\t2659\nProkop’yevsk\t5391\t8672\t2659\nKiselëvsk\t5399\t8666\t2659\nGur’yevsk\t5428\t8593\t2659\nBelovo\t5442\t8630\t2659\nPolysayevo\t5460\t8625\t2659\nLeninsk-Kuznetsky\t5466\t8617\t2659\nPromyshlennaya\t5492\t8564\t2659\nTopki\t5528\t8562\t2659\nKemerovo\t5533\t8608\t2659\nKedrovka\t5552\t8610\t2659\nBerëzovskiy\t5560\t8620\t2659\nYashkino\t5587\t8543\t2659\nTayga\t5606\t8562\t2659\nAnzhero-Sudzhensk\t5608\t8603\t2659\nMariinsk\t5621\t8775\t2659\nLuga\t5874\t2985\t2660\nSlantsy\t5912\t2809\t2660\nKingisepp\t5937\t2861\t2660\nKirishi\t5945\t3202\t2660\nBoksitogorsk\t5947\t3385\t2660\nPikalëvo\t5952\t3417\t2660\nTosno\t5954\t3088\t2660\nGatchina\t5958\t3013\t2660\nKommunar\t5962\t3039\t2660\nTikhvin\t5965\t3353\t2660\nNikol’skoye\t5970\t3078\t2660\nOtradnoye\t5978\t3082\t2660\nKirovsk\t5988\t3100\t2660\nSosnovyy Bor\t5990\t2909\t2660\nVolkhov\t5993\t3234\t2660\nVsevolozhsk\t6002\t3067\t2660\nSertolovo\t6014\t3020\t2660\nVyborg\t6071\t2875\t2660\nLodeynoye Pole\t6073\t3355\t2660\nPodporozh’ye\t6091\t3417\t2660\nPriozërsk\t6104\t3013\t2660\nSvetogorsk\t6111\t2886\t2660\nUsman’\t5205\t3973\t2661\nGryazi\t5250\t3994\t2661\nLipetsk\t5260\t3957\t2661\nYelets\t5262\t3850\t2661\nLebedyan’\t5302\t3917\t2661\nDankov\t5325\t3916\t2661\nMagadan\t5956\t15080\t2662\nVolzhsk\t5587\t4836\t2663\nKoz’modem’yansk\t5634\t4656\t2663\nMedvedevo\t5663\t4780\t2663\nYoshkar-Ola\t5664\t4789\t2663\nKovylkino\t5404\t4391\t2664\nRuzayevka\t5406\t4495\t2664\nSaransk\t5418\t4517\t2664\nTroitsk\t5548\t3731\t2665\nShcherbinka\t5550\t3756\t2665\nMoskovskiy\t5560\t3735\t2665\nVnukovo\t5561\t3730\t2665\nNovo-Peredelkino\t5565\t3734\t2665\nCherëmushki\t5566\t3756\t2665\nMoscow\t5575\t3762\t2665\nVostochnoe Degunino\t5588\t3756\t2665\nZelenograd\t5598\t3718\t2665\nZaraysk\t5476\t3888\t2666\nPushchino\t5483\t3761\t2666\nKashira\t5484\t3817\t2666\nOzëry\t5486\t3855\t2666\nProtvino\t5487\t3722\t2666\nStupino\t5490\t3807\t2666\nSerpukhov\t5492\t3741\t2666\nLukhovitsy\t5498\t3904\t2666\nKolomna\t5508\t3878\t2666\nChekhov\t5515\t3748\t2666\nVoskresensk\t5532\t3865\t2666\nKlimovsk\t5536\t3753\t2666\nYegor’yevsk\t5538\t3903\t2666\nNaro-Fominsk\t5539\t3673\t2666\nVostryakovo\t5540\t3781\t2666\nPodolsk\t5542\t3755\t2666\nBronnitsy\t5542\t3826\t2666\nDomodedovo\t5544\t3775\t2666\nBeloozërskiy\t5546\t3844\t2666\nMozhaysk\t5550\t3603\t2666\nAprelevka\t5555\t3708\t2666\nVidnoye\t5555\t3771\t2666\nPetrovskaya\t5555\t3778\t2666\nAndreyevskoye\t5555\t3793\t2666\nRamenskoye\t5557\t3823\t2666\nShatura\t5557\t3954\t2666\nKubinka\t5558\t3670\t2666\nAnnino\t5558\t3726\t2666\nLytkarino\t5558\t3791\t2666\nKurovskoye\t5558\t3892\t2666\nTuchkovo\t5560\t3647\t2666\nKrasnoznamensk\t5560\t3704\t2666\nZhukovskiy\t5560\t3812\t2666\nGolitsyno\t5561\t3698\t2666\nDzerzhinskiy\t5563\t3786\t2666\nDzerzhinsky\t5563\t3786\t2666\nKotel’niki\t5564\t3784\t2666\nMalakhovka\t5565\t3802\t2666\nTomilino\t5566\t3795\t2666\nRoshal’\t5567\t3987\t2666\nOdintsovo\t5568\t3728\t2666\nLyubertsy\t5568\t3789\t2666\nLikino-Dulevo\t5571\t3895\t2666\nElektrougli\t5572\t3821\t2666\nZvenigorod\t5573\t3686\t2666\nFryazevo\t5573\t3846\t2666\nZheleznodorozhnyy\t5574\t3802\t2666\nKabanovo\t5575\t3894\t2666\nReutov\t5576\t3786\t2666\nPavlovskiy Posad\t5578\t3865\t2666\nElektrostal’\t5579\t3845\t2666\nBalashikha\t5581\t3796\t2666\nStaraya Kupavna\t5581\t3818\t2666\nOrekhovo-Zuyevo\t5581\t3896\t2666\nKrasnogorsk\t5582\t3733\t2666\nMonino\t5584\t3819\t2666\nNakhabino\t5585\t3718\t2666\nDedovsk\t5587\t3712\t2666\nLosino-Petrovskiy\t5587\t3820\t2666\nNoginsk\t5587\t3844\t2666\nElektrogorsk\t5588\t3879\t2666\nKhimki\t5590\t3743\t2666\nMytishchi\t5591\t3773\t2666\nKorolev\t5591\t3783\t2666\nIstra\t5592\t3687\t2666\nShchelkovo\t5592\t3797\t2666\nYubileyny\t5593\t3783\t2666\nSkhodnya\t5595\t3730\t2666\nDolgoprudnyy\t5595\t3750\t2666\nFryazino\t5596\t3805\t2666\nIvanteyevka\t5597\t3792\t2666\nChernogolovka\t5600\t3837\t2666\nLobnya\t5601\t3748\t2666\nPushkino\t5602\t3787\t2666\nVolokolamsk\t5603\t3597\t2666\nKrasnoarmeysk\t5610\t3813\t2666\nSofrino\t5615\t3793\t2666\nSolnechnogorsk\t5618\t3698\t2666\nKhot'kovo\t5626\t3800\t2666\nSergiyev Posad\t5630\t3813\t2666\nKlin\t5633\t3673\t2666\nDmitrov\t5634\t3752\t2666\nPeresvet\t5642\t3818\t2666\nDubna\t5673\t3717\t2666\nKandalaksha\t6716\t3241\t2667\nPolyarnyye Zori\t6737\t3250\t2667\nApatity\t6756\t3340\t2667\nKovdor\t6757\t3048\t2667\nKirovsk\t6761\t3367\t2667\nMonchegorsk\t6794\t3287\t2667\nOlenegorsk\t6814\t3325\t2667\nMurmansk\t6898\t3309\t2667\nSeveromorsk\t6907\t3342\t2667\nPolyarnyy\t6920\t3345\t2667\nNikel\t6941\t3022\t2667\nZapolyarnyy\t6942\t3081\t2667\nNar'yan-Mar\t6764\t5300\t2668\nSarov\t5494\t4332\t2669\nVyksa\t5532\t4217\t2669\nArzamas\t5539\t4384\t2669\nKulebaki\t5541\t4253\t2669\nSergach\t5553\t4547\t2669\nPavlovo\t5597\t4309\t2669\nLyskovo\t5603\t4504\t2669\nBogorodsk\t5611\t4351\t2669\nKstovo\t5615\t4420\t2669\nDzerzhinsk\t5624\t4346\t2669\nNizhniy Novgorod\t5633\t4400\t2669\nBor\t5636\t4407\t2669\nNovaya Balakhna\t5649\t4360\t2669\nZavolzh’ye\t5664\t4339\t2669\nGorodets\t5665\t4347\t2669\nSemënov\t5679\t4449\t2669\nShakhun’ya\t5768\t4661\t2669\nAlagir\t4304\t4422\t2670\nVladikavkaz\t4304\t4467\t2670\nArdon\t4318\t4430\t2670\nBeslan\t4319\t4454\t2670\nMozdok\t4374\t4465\t2670\nValday\t5798\t3325\t2671\nStaraya Russa\t5799\t3136\t2671\nBorovichi\t5839\t3392\t2671\nVelikiy Novgorod\t5852\t3127\t2671\nPestovo\t5859\t3580\t2671\nChudovo\t5912\t3168\t2671\nKarasuk\t5374\t7804\t2672\nSuzun\t5378\t8231\t2672\nCherepanovo\t5422\t8338\t2672\nKupino\t5437\t7730\t2672\nLinëvo\t5446\t8338\t2672\nIskitim\t5464\t8330\t2672\nBerdsk\t5476\t8310\t2672\nKrasnoobsk\t5492\t8299\t2672\nOb’\t5499\t8272\t2672\nKochenëvo\t5502\t8220\t2672\nNovosibirsk\t5504\t8293\t2672\nTatarsk\t5522\t7598\t2672\nToguchin\t5524\t8439\t2672\nBarabinsk\t5536\t7836\t2672\nKuybyshev\t5545\t7832\t2672\nBolotnoye\t5567\t8440\t2672\nOmsk\t5499\t7337\t2673\nKalachinsk\t5505\t7458\t2673\nTara\t5689\t7437\t2673\nYasnyy\t5103\t5987\t2674\nSol’-Iletsk\t5116\t5499\t2674\nNovotroitsk\t5120\t5833\t2674\nOrsk\t5120\t5857\t2674\nMednogorsk\t5141\t5760\t2674\nGay\t5147\t5846\t2674\nKuvandyk\t5148\t5736\t2674\nOrenburg\t5177\t5510\t2674\nSaraktash\t5179\t5636\t2674\nSorochinsk\t5243\t5316\t2674\nBuzuluk\t5278\t5226\t2674\nBuguruslan\t5366\t5244\t2674\nAbdulino\t5370\t5367\t2674\nLivny\t5243\t3761\t2675\nOrël\t5297\t3608\t2675\nMtsensk\t5328\t3657\t2675\nSerdobsk\t5246\t4422\t2676\nKuznetsk\t5312\t4660\t2676\nZarechnyy\t5313\t4658\t2676\nPenza\t5320\t4500\t2676\nZarechnyy\t5320\t4519\t2676\nNizhniy Lomov\t5353\t4368\t2676\nNikol’sk\t5372\t4607\t2676\nChernushka\t5651\t5608\t2677\nChaykovskiy\t5677\t5411\t2677\nOsa\t5728\t5546\t2677\nKungur\t5744\t5696\t2677\nOchër\t5789\t5472\t2677\nNytva\t5794\t5534\t2677\nPerm\t5801\t5625\t2677\nVereshchagino\t5808\t5466\t2677\nKrasnokamsk\t5808\t5576\t2677\nLys’va\t5811\t5781\t2677\nChusovoy\t5830\t5781\t2677\nDobryanka\t5846\t5641\t2677\nGubakha\t5884\t5755\t2677\nKudymkar\t5901\t5466\t2677\nKizel\t5905\t5765\t2677\nAleksandrovsk\t5916\t5757\t2677\nBerezniki\t5941\t5682\t2677\nSolikamsk\t5963\t5677\t2677\nKrasnovishersk\t6041\t5708\t2677\nVrangel’\t4273\t13308\t2678\nNakhodka\t4281\t13287\t2678\nFokino\t4297\t13241\t2678\nVladivostok\t4311\t13187\t2678\nBol’shoy Kamen’\t4311\t13235\t2678\nPartizansk\t4312\t13312\t2678\nTrudovoye\t4330\t13207\t2678\nArtëm\t4336\t13219\t2678\nUssuriysk\t4380\t13195\t2678\nArsen’yev\t4415\t13328\t2678\nKavalerovo\t4427\t13505\t2678\nDalnegorsk\t4456\t13562\t2678\nSpassk-Dal’niy\t4460\t13283\t2678\nLesozavodsk\t4548\t13343\t2678\nDalnerechensk\t4593\t13374\t2678\nLuchegorsk\t4648\t13420\t2678\nNevel’\t5602\t2993\t2679\nVelikiye Luki\t5634\t3055\t2679\nOstrov\t5734\t2835\t2679\nPskov\t5781\t2835\t2679\nKyzyl\t5171\t9445\t2680\nSal’sk\t4647\t4154\t2681\nYegorlykskaya\t4657\t4066\t2681\nProletarsk\t4670\t4173\t2681\nZernograd\t4685\t4031\t2681\nOrlovskiy\t4687\t4206\t2681\nAzov\t4711\t3942\t2681\nBataysk\t4714\t3975\t2681\nZimovniki\t4715\t4247\t2681\nRostov-na-Donu\t4723\t3972\t2681\nTaganrog\t4724\t3890\t2681\nAksay\t4726\t3987\t2681\nBagayevskaya\t4732\t4039\t2681\nNovocherkassk\t4742\t4009\t2681\nVolgodonsk\t4751\t4215\t2681\nSemikarakorsk\t4752\t4081\t2681\nPersianovka\t4753\t3942\t2681\nKonstantinovsk\t4758\t4109\t2681\nTsimlyansk\t4765\t4210\t2681\nShakhty\t4771\t4021\t2681\nNovoshakhtinsk\t4776\t3993\t2681\nKrasnyy Sulin\t4789\t4007\t2681\nZverevo\t4802\t4012\t2681\nGukovo\t4806\t3994\t2681\nBelaya Kalitva\t4819\t4077\t2681\nKamensk-Shakhtinskiy\t4832\t4026\t2681\nDonetsk\t4834\t3996\t2681\nMorozovsk\t4836\t4183\t2681\nMillerovo\t4892\t4040\t2681\nRyazhsk\t5370\t4011\t2682\nSkopin\t5382\t3955\t2682\nNovomichurinsk\t5404\t3975\t2682\nShilovo\t5432\t4087\t2682\nSasovo\t5435\t4192\t2682\nRyazan’\t5463\t3969\t2682\nRybnoye\t5473\t3952\t2682\nKasimov\t5494\t4140\t2682\nNeryungri\t5667\t12464\t2683\nAldan\t5861\t12540\t2683\nLensk\t6073\t11493\t2683\nYakutsk\t6203\t12973\t2683\nMirny\t6254\t11396\t2683\nAykhal\t6593\t11148\t2683\nUdachny\t6643\t11240\t2683\nKorsakov\t4663\t14278\t2684\nNevel’sk\t4668\t14186\t2684\nYuzhno-Sakhalinsk\t4695\t14274\t2684\nKholmsk\t4705\t14205\t2684\nPoronaysk\t4922\t14310\t2684\nOkha\t5359\t14295\t2684\nNeftegorsk\t5280\t5117\t2685\nBezenchuk\t5298\t4943\t2685\nChapayevsk\t5298\t4971\t2685\nNovokuybyshevsk\t5310\t4995\t2685\nSyzran’\t5316\t4847\t2685\nOktyabr’sk\t5317\t4870\t2685\nSamara\t5320\t5015\t2685\nKinel’\t5323\t5063\t2685\nOtradnyy\t5338\t5135\t2685\nZhigulevsk\t5340\t4950\t2685\nKinel’-Cherkassy\t5347\t5147\t2685\nTol’yatti\t5353\t4935\t2685\nPokhvistnevo\t5365\t5213\t2685\nNovouzensk\t5046\t4814\t2686\nKrasnoarmeysk\t5102\t4570\t2686\nYershov\t5135\t4828\t2686\nPrivolzhskiy\t5141\t4605\t2686\nEngel’s\t5148\t4611\t2686\nKalininsk\t5150\t4448\t2686\nSaratov\t5154\t4601\t2686\nBalashov\t5155\t4317\t2686\nMarks\t5171\t4675\t2686\nAtkarsk\t5187\t4501\t2686\nPugachev\t5201\t4880\t2686\nBalakovo\t5203\t4780\t2686\nVol’sk\t5205\t4738\t2686\nRtishchevo\t5226\t4379\t2686\nPetrovsk\t5231\t4539\t2686\nRoslavl’\t5395\t3286\t2687\nDesnogorsk\t5415\t3328\t2687\nSmolensk\t5478\t3204\t2687\nYartsevo\t5507\t3270\t2687\nSafonovo\t5511\t3323\t2687\nVyaz’ma\t5521\t3430\t2687\nGagarin\t5555\t3500\t2687\nPavlovsk\t5968\t3043\t2688\nPushkin\t5971\t3040\t2688\nKolpino\t5975\t3059\t2688\nMetallostroy\t5980\t3055\t2688\nShushary\t5981\t3038\t2688\nPeterhof\t5988\t2990\t2688\nPetrodvorets\t5990\t2980\t2688\nLomonosov\t5991\t2977\t2688\nSaint Petersburg\t5994\t3031\t2688\nKronstadt\t6000\t2977\t2688\nSestroretsk\t6010\t2996\t2688\nKislovodsk\t4391\t4272\t2689\nNovopavlovsk\t4396\t4363\t2689\nGoryachevodskiy\t4402\t4309\t2689\nYessentukskaya\t4403\t4288\t2689\nSvobody\t4403\t4305\t2689\nYessentuki\t4404\t4286\t2689\nPyatigorsk\t4405\t4306\t2689\nInozemtsevo\t4409\t4309\t2689\nLermontov\t4411\t4297\t2689\nNezlobnaya\t4412\t4340\t2689\nZheleznovodsk\t4414\t4302\t2689\nGeorgiyevsk\t4415\t4347\t2689\nSuvorovskaya\t4419\t4266\t2689\nMineralnye Vody\t4421\t4314\t2689\nZelenokumsk\t4441\t4388\t2689\nNevinnomyssk\t4463\t4194\t2689\nKochubeyevskoye\t4464\t4185\t2689\nAleksandrovskoye\t4471\t4300\t2689\nNeftekumsk\t4476\t4499\t2689\nBudënnovsk\t4478\t4417\t2689\nStavropol’\t4504\t4197\t2689\nBlagodarnyy\t4510\t4344\t2689\nMikhaylovsk\t4513\t4203\t2689\nSvetlograd\t4534\t4285\t2689\nIzobil’nyy\t4537\t4171\t2689\nArzgir\t4537\t4422\t2689\nDonskoye\t4546\t4197\t2689\nNovoaleksandrovsk\t4549\t4122\t2689\nIpatovo\t4572\t4290\t2689\nKrasnogvardeyskoye\t4585\t4152\t2689\nDivnoye\t4591\t4335\t2689\nKamensk-Ural’skiy\t5642\t6193\t2690\nPolevskoy\t5644\t6019\t2690\nSysert’\t5650\t6082\t2690\nKrasnoufimsk\t5661\t5777\t2690\nDegtyarsk\t5670\t6009\t2690\nAramil\t5670\t6084\t2690\nBogdanovich\t5678\t6205\t2690\nRevda\t5680\t5993\t2690\nZarechnyy\t5681\t6133\t2690\nKamyshlov\t5684\t6271\t2690\nYekaterinburg\t5685\t6061\t2690\nPervoural’sk\t5691\t5994\t2690\nBeryozovsky\t5691\t6080\t2690\nSukhoy Log\t5691\t6203\t2690\nVerkhnyaya Pyshma\t5697\t6058\t2690\nSredneuralsk\t5699\t6047\t2690\nAsbest\t5701\t6146\t2690\nTalitsa\t5701\t6373\t2690\nReftinskiy\t5709\t6168\t2690\nNovoural’sk\t5724\t6008\t2690\nArtëmovskiy\t5736\t6187\t2690\nRezh\t5737\t6140\t2690\nKirovgrad\t5743\t6006\t2690\nNev’yansk\t5750\t6021\t2690\nLesnoy\t5762\t6308\t2690\nIrbit\t5767\t6307\t2690\nAlapayevsk\t5785\t6170\t2690\nNizhny Tagil\t5792\t5997\t2690\nTavda\t5804\t6527\t2690\nVerkhnyaya Salda\t5805\t6056\t2690\nTurinsk\t5805\t6370\t2690\nNizhnyaya Salda\t5808\t6072\t2690\nKushva\t5829\t5976\t2690\nKrasnoural’sk\t5836\t6004\t2690\nNizhnyaya Tura\t5863\t5981\t2690\nLesnoy\t5864\t5980\t2690\nKachkanar\t5870\t5948\t2690\nSerov\t5960\t6058\t2690\nKarpinsk\t5977\t6000\t2690\nKrasnotur’insk\t5977\t6021\t2690\nSeveroural’sk\t6015\t5995\t2690\nIvdel’\t6069\t6042\t2690\nZherdevka\t5185\t4146\t2691\nUvarovo\t5198\t4226\t2691\nKotovsk\t5259\t4150\t2691\nKirsanov\t5265\t4272\t2691\nRasskazovo\t5266\t4188\t2691\nTambov\t5273\t4144\t2691\nMichurinsk\t5290\t4049\t2691\nMorshansk\t5344\t4181\t2691\nBavly\t5439\t5326\t2692\nNurlat\t5443\t5081\t2692\nBugul’ma\t5454\t5280\t2692\nLeninogorsk\t5460\t5246\t2692\nAl’met’yevsk\t5490\t5232\t2692\nBuinsk\t5497\t4829\t2692\nZainsk\t5532\t5207\t2692\nChistopol’\t5536\t5064\t2692\nNizhnekamsk\t5564\t5182\t2692\nNaberezhnyye Chelny\t5573\t5241\t2692\nMenzelinsk\t5573\t5310\t2692\nYelabuga\t5576\t5206\t2692\nKazan\t5579\t4912\t2692\nVasil’yevo\t5583\t4872\t2692\nZelenodolsk\t5584\t4852\t2692\nMendeleyevsk\t5591\t5229\t2692\nArsk\t5609\t4988\t2692\nKukmor\t5619\t5089\t2692\nAgryz\t5652\t5299\t2692\nTomsk\t5650\t8497\t2693\nSeversk\t5660\t8489\t2693\nAsino\t5700\t8614\t2693\nKolpashevo\t5831\t8291\t2693\nStrezhevoy\t6073\t7759\t2693\nYefremov\t5315\t3810\t2694\nPlavsk\t5371\t3729\t2694\nBogoroditsk\t5377\t3812\t2694\nBelëv\t5381\t3613\t2694\nKireyevsk\t5393\t3793\t2694\nDonskoy\t5397\t3834\t2694\nKimovsk\t5397\t3853\t2694\nUzlovaya\t5398\t3817\t2694\nShchëkino\t5401\t3752\t2694\nNovomoskovsk\t5401\t3828\t2694\nSevero-Zadonsk\t5403\t3840\t2694\nSuvorov\t5412\t3650\t2694\nTula\t5420\t3762\t2694\nVenëv\t5436\t3827\t2694\nYasnogorsk\t5448\t3770\t2694\nAleksin\t5451\t3707\t2694\nNelidovo\t5622\t3278\t2695\nRzhev\t5626\t3433\t2695\nKonakovo\t5670\t3677\t2695\nTver\t5686\t3590\t2695\nKimry\t5687\t3735\t2695\nTorzhok\t5704\t3496\t2695\nOstashkov\t5715\t3311\t2695\nKashin\t5736\t3761\t2695\nVyshniy Volochëk\t5759\t3456\t2695\nBezhetsk\t5779\t3670\t2695\nUdomlya\t5788\t3499\t2695\nBologoye\t5789\t3405\t2695\nIshim\t5611\t6949\t2696\nZavodoukovsk\t5650\t6655\t2696\nYalutorovsk\t5665\t6630\t2696\nBorovskiy\t5704\t6572\t2696\nTyumen\t5715\t6553\t2696\nTobol’sk\t5820\t6825\t2696\nMozhga\t5644\t5223\t2697\nSarapul\t5648\t5380\t2697\nIzhevsk\t5685\t5320\t2697\nUva\t5699\t5219\t2697\nVotkinsk\t5705\t5399\t2697\nIgra\t5755\t5305\t2697\nBalezino\t5798\t5301\t2697\nGlazov\t5814\t5266\t2697\nBarysh\t5366\t4711\t2698\nInza\t5386\t4636\t2698\nNovoul’yanovsk\t5415\t4839\t2698\nDimitrovgrad\t5421\t4962\t2698\nUlyanovsk\t5433\t4839\t2698\nMelenki\t5533\t4163\t2699\nMurom\t5558\t4204\t2699\nGus’-Khrustal’nyy\t5561\t4065\t2699\nPokrov\t5592\t3917\t2699\nPetushki\t5593\t3946\t2699\nSobinka\t5599\t4001\t2699\nRaduzhnyy\t5600\t4034\t2699\nLakinsk\t5602\t3995\t2699\nVladimir\t5614\t4040\t2699\nKirzhach\t5615\t3886\t2699\nVyazniki\t5624\t4216\t2699\nKol’chugino\t5630\t3938\t2699\nKarabanovo\t5632\t3870\t2699\nKovrov\t5636\t4132\t2699\nStrunino\t5637\t3858\t2699\nAleksandrov\t5640\t3871\t2699\nYur’yev-Pol’skiy\t5650\t3968\t2699\nKotel’nikovo\t4763\t4314\t2700\nSurovikino\t4861\t4285\t2700\nKalach-na-Donu\t4869\t4353\t2700\nLeninsk\t4870\t4520\t2700\nVolgograd\t4872\t4450\t2700\nVolzhskiy\t4879\t4478\t2700\nGorodishche\t4880\t4447\t2700\nDubovka\t4906\t4483\t2700\nFrolovo\t4977\t4366\t2700\nNikolayevsk\t5003\t4546\t2700\nPallasovka\t5005\t4688\t2700\nMikhaylovka\t5006\t4324\t2700\nKamyshin\t5010\t4542\t2700\nKotovo\t5032\t4480\t2700\nNovoanninskiy\t5053\t4267\t2700\nUryupinsk\t5080\t4201\t2700\nYelan’\t5095\t4374\t2700\nZhirnovsk\t5098\t4477\t2700\nGryazovets\t5888\t4025\t2701\nCherepovets\t5913\t3790\t2701\nSheksna\t5921\t3851\t2701\nVologda\t5922\t3988\t2701\nSokol\t5946\t4012\t2701\nVelikiy Ustyug\t6076\t4631\t2701\nBoguchar\t4994\t4055\t2702\nRossosh’\t5020\t3957\t2702\nKalach\t5043\t4103\t2702\nPavlovsk\t5046\t4011\t2702\nButurlinovka\t5083\t4061\t2702\nOstrogozhsk\t5087\t3908\t2702\nLiski\t5098\t3952\t2702\nBobrov\t5110\t4002\t2702\nRossosh’\t5112\t3851\t2702\nPovorino\t5119\t4225\t2702\nNovovoronezh\t5131\t3922\t2702\nBorisoglebsk\t5137\t4208\t2702\nGribanovskiy\t5146\t4198\t2702\nAnna\t5148\t4043\t2702\nNovaya Usman’\t5163\t3941\t2702\nVoronezh\t5167\t3918\t2702\nSemiluki\t5168\t3903\t2702\nPridonskoy\t5168\t3907\t2702\nNoyabrsk\t6319\t7544\t2703\nMuravlenko\t6379\t7452\t2703\nGubkinskiy\t6443\t7650\t2703\nTarko-Sale\t6492\t7777\t2703\nNadym\t6553\t7252\t2703\nNovyy Urengoy\t6608\t7663\t2703\nSalekhard\t6653\t6660\t2703\nLabytnangi\t6666\t6642\t2703\nPereslavl’-Zalesskiy\t5674\t3886\t2704\nRostov\t5719\t3941\t2704\nGavrilov-Yam\t5730\t3985\t2704\nUglich\t5753\t3833\t2704\nYaroslavl\t5763\t3987\t2704\nTutayev\t5789\t3954\t2704\nRybinsk\t5804\t3884\t2704\nDanilov\t5819\t4017\t2704\nKrasnokamensk\t5010\t11804\t2705\nBorzya\t5038\t11652\t2705\nAginskoye\t5110\t11453\t2705\nPetrovsk-Zabaykal’skiy\t5128\t10884\t2705\nNerchinsk\t5198\t11658\t2705\nChita\t5203\t11350\t2705\nKibungo\t-216\t3054\t2706\nRwamagana\t-195\t3043\t2706\nKigali\t-195\t3006\t2707\nByumba\t-158\t3007\t2708\nMusanze\t-150\t2963\t2708\nButare\t-260\t2974\t2709\nNzega\t-248\t2956\t2709\nNyanza\t-235\t2975\t2709\nGitarama\t-207\t2976\t2709\nCyangugu\t-248\t2891\t2710\nKibuye\t-206\t2935\t2710\nGisenyi\t-170\t2926\t2710\nAbha\t1822\t4251\t2711\nKhamis Mushait\t1830\t4273\t2711\nAn Nimāş\t1915\t4212\t2711\nQal‘at Bīshah\t2000\t4261\t2711\nAl Bahah\t2001\t4147\t2712\nSakakah\t2997\t4021\t2713\nŢubarjal\t3050\t3822\t2713\nQurayyat\t3133\t3734\t2713\nAl Mithnab\t2586\t4422\t2714\nAr Rass\t2587\t4350\t2714\nAdh Dhibiyah\t2603\t4316\t2714\nAl Bukayrīyah\t2614\t4366\t2714\nBuraydah\t2633\t4397\t2714\nAl Hufūf\t2536\t4959\t2715\nAţ Ţaraf\t2536\t4973\t2715\nAl Munayzilah\t2538\t4967\t2715\nAl Mubarraz\t2541\t4959\t2715\nAl Baţţālīyah\t2543\t4963\t2715\nAbqaiq\t2593\t4967\t2715\nKhobar\t2628\t5021\t2715\nDhahran\t2629\t5011\t2715\nDammam\t2643\t5010\t2715\nSayhāt\t2648\t5005\t2715\nAl Qaţīf\t2657\t5001\t2715\nTārūt\t2657\t5004\t2715\nŞafwá\t2665\t4996\t2715\nRaḩīmah\t2671\t5006\t2715\nAl Jubayl\t2702\t4962\t2715\nQaisumah\t2831\t4613\t2715\nHafar Al-Batin\t2843\t4597\t2715\nAl Khafjī\t2844\t4849\t2715\nHa'il\t2752\t4169\t2716\nŞāmitah\t1660\t4294\t2717\nJizan\t1689\t4255\t2717\nAbū ‘Arīsh\t1697\t4283\t2717\nŞabyā\t1715\t4263\t2717\nAsh Shafā\t2107\t4032\t2718\nTurabah\t2121\t4163\t2718\nTa’if\t2127\t4042\t2718\nMecca\t2143\t3983\t2718\nJeddah\t2149\t3919\t2718\nAl Jumūm\t2162\t3970\t2718\nRābigh\t2280\t3903\t2718\nBadr Ḩunayn\t2378\t3879\t2719\nYanbu\t2409\t3806\t2719\nMedina\t2447\t3961\t2719\nSulţānah\t2449\t3959\t2719\nAl-`Ula\t2661\t3792\t2719\nNajrān\t1749\t4413\t2720\nArar\t3098\t4104\t2721\nTuraif\t3167\t3866\t2721\nAs Sulayyil\t2046\t4558\t2722\nAfif\t2391\t4292\t2722\nAd Dilam\t2399\t4716\t2722\nAl Kharj\t2416\t4733\t2722\nAd Dawādimī\t2451\t4439\t2722\nRiyadh\t2469\t4672\t2722\nAz Zulfī\t2630\t4482\t2722\nUmluj\t2502\t3727\t2723\nAl Wajh\t2625\t3645\t2723\nDuba\t2735\t3569\t2723\nTabuk\t2840\t3657\t2723\nTulagi\t-910\t16015\t2724\nTaro\t-671\t15640\t2725\nHoniara\t-943\t15995\t2726\nBuala\t-814\t15959\t2727\nKirakira\t-1045\t16192\t2728\nAuki\t-877\t16070\t2729\nLata\t-1072\t16580\t2730\nGizo\t-810\t15684\t2731\nAnse Boileau\t-472\t5548\t2732\nAnse Royale\t-473\t5552\t2733\nBeau Vallon\t-462\t5543\t2734\nBel Ombre\t-462\t5542\t2735\nCascade\t-467\t5550\t2736\nLa Passe\t-435\t5583\t2737\nVictoria\t-462\t5546\t2738\nPort Glaud\t-467\t5542\t2739\nTakamaka\t-477\t5550\t2740\nAl Manāqil\t1425\t3299\t2741\nWad Medani\t1440\t3352\t2741\nAl Hasaheisa\t1475\t3330\t2741\nAl Hilāliyya\t1494\t3323\t2741\nAl Ḩawātah\t1342\t3463\t2742\nDoka\t1352\t3577\t2742\nAl Qadarif\t1403\t3538\t2742\nAd-Damazin\t1179\t3436\t2743\nAr Ruseris\t1187\t3439\t2743\nZalingei\t1291\t2347\t2744\nEl Daein\t1146\t2613\t2745\nKassala\t1545\t3640\t2746\nKhartoum\t1555\t3253\t2747\nOmdurman\t1564\t3248\t2747\nAr Rahad\t1272\t3065\t2748\nUmm Ruwaba\t1291\t3122\t2748\nEl Obeid\t1318\t3022\t2748\nBārah\t1370\t3037\t2748\nEl Fasher\t1363\t2535\t2749\nKuraymah\t1855\t3185\t2750\nDongola\t1918\t3048\t2750\nTokār\t1843\t3773\t2751\nSawākin\t1911\t3733\t2751\nPort Sudan\t1962\t3722\t2751\nShendi\t1669\t3343\t2752\nEd Damer\t1760\t3397\t2752\nAtbara\t1770\t3399\t2752\nBerber\t1802\t3398\t2752\nEl Bauga\t1826\t3391\t2752\nSinga\t1315\t3393\t2753\nAd Dindar\t1320\t3417\t2753\nAs Sūkī\t1332\t3388\t2753\nMaiurno\t1342\t3367\t2753\nSinnar\t1357\t3357\t2753\nKināna\t1404\t3317\t2753\nGereida\t1128\t2514\t2754\nNyala\t1205\t2488\t2754\nKadugli\t1101\t2972\t2755\nAbu Jibeha\t1146\t3123\t2755\nDilling\t1205\t2965\t2755\nAl Mijlad\t1103\t2773\t2756\nEl Fula\t1171\t2835\t2756\nAbū Zabad\t1235\t2925\t2756\nAn Nuhūd\t1270\t2843\t2756\nGeneina\t1345\t2245\t2757\nTandaltī\t1302\t3187\t2758\nKosti\t1316\t3266\t2758\nRabak\t1318\t3274\t2758\nAd Douiem\t1400\t3231\t2758\nAl Qiţena\t1486\t3237\t2758\nKarlskrona\t5616\t1559\t2759\nKarlshamn\t5617\t1486\t2759\nLudvika\t6015\t1519\t2760\nBorlänge\t6049\t1544\t2760\nFalun\t6060\t1563\t2760\nVisby\t5764\t1830\t2761\nSandviken\t6062\t1677\t2762\nGävle\t6067\t1714\t2762\nHudiksvall\t6173\t1711\t2762\nHalmstad\t5667\t1286\t2763\nFalkenberg\t5691\t1249\t2763\nVarberg\t5711\t1225\t2763\nKungsbacka\t5749\t1208\t2763\nÖstersund\t6318\t1464\t2764\nVärnamo\t5719\t1404\t2765\nNässjö\t5765\t1470\t2765\nJönköping\t5778\t1416\t2765\nHuskvarna\t5779\t1430\t2765\nKalmar\t5666\t1636\t2766\nOskarshamn\t5726\t1645\t2766\nVästervik\t5776\t1664\t2766\nLjungby\t5683\t1394\t2767\nVäxjö\t5688\t1481\t2767\nPiteå\t6532\t2148\t2768\nLuleå\t6558\t2215\t2768\nBoden\t6583\t2169\t2768\nKiruna\t6786\t2023\t2768\nTrelleborg\t5538\t1316\t2769\nYstad\t5543\t1382\t2769\nMalmö\t5561\t1300\t2769\nStaffanstorp\t5564\t1321\t2769\nLund\t5571\t1319\t2769\nEslöv\t5584\t1330\t2769\nLandskrona\t5587\t1283\t2769\nKristianstad\t5603\t1415\t2769\nHelsingborg\t5605\t1269\t2769\nHässleholm\t5616\t1377\t2769\nÄngelholm\t5624\t1286\t2769\nHaninge\t5917\t1814\t2770\nSödertälje\t5920\t1763\t2770\nTumba\t5920\t1783\t2770\nTullinge\t5920\t1790\t2770\nHuddinge\t5924\t1798\t2770\nNacka\t5931\t1816\t2770\nStockholm\t5933\t1807\t2770\nGustavsberg\t5933\t1839\t2770\nSundbyberg\t5936\t1797\t2770\nSolna\t5936\t1800\t2770\nLidingö\t5937\t1813\t2770\nJakobsberg\t5942\t1784\t2770\nSollentuna\t5943\t1795\t2770\nTäby\t5944\t1807\t2770\nÅkersberga\t5948\t1830\t2770\nUpplands Väsby\t5952\t1791\t2770\nVallentuna\t5953\t1808\t2770\nMärsta\t5962\t1785\t2770\nNorrtälje\t5976\t1870\t2770\nNyköping\t5875\t1701\t2771\nKatrineholm\t5900\t1621\t2771\nEskilstuna\t5937\t1651\t2771\nEnköping\t5964\t1708\t2772\nUppsala\t5986\t1764\t2772\nKristinehamn\t5931\t1411\t2773\nKarlstad\t5938\t1350\t2773\nUmeå\t6383\t2026\t2774\nSkellefteå\t6475\t2095\t2774\nSundsvall\t6239\t1731\t2775\nHärnösand\t6263\t1794\t2775\nÖrnsköldsvik\t6329\t1872\t2775\nKöping\t5951\t1599\t2776\nVästerås\t5962\t1655\t2776\nKinna\t5751\t1269\t2777\nVästra Frölunda\t5765\t1193\t2777\nMölndal\t5766\t1201\t2777\nMölnlycke\t5766\t1212\t2777\nGöteborg\t5771\t1197\t2777\nBorås\t5772\t1294\t2777\nPartille\t5774\t1211\t2777\nBjörlanda\t5777\t1183\t2777\nLerum\t5777\t1227\t2777\nKungälv\t5787\t1198\t2777\nAlingsås\t5793\t1253\t2777\nFalköping\t5817\t1355\t2777\nTrollhättan\t5828\t1229\t2777\nUddevalla\t5835\t1194\t2777\nVänersborg\t5838\t1232\t2777\nSkövde\t5839\t1385\t2777\nLidköping\t5851\t1316\t2777\nMariestad\t5871\t1382\t2777\nKumla\t5913\t1514\t2778\nÖrebro\t5927\t1521\t2778\nKarlskoga\t5933\t1452\t2778\nLinköping\t5841\t1562\t2779\nMotala\t5854\t1504\t2779\nNorrköping\t5859\t1618\t2779\nSingapore\t129\t10385\t2780\nWoodlands\t144\t10379\t2780\nGeorgetown\t-793\t-1441\t2781\nJamestown\t-1594\t-572\t2782\nEdinburgh of the Seven Seas\t-3707\t-1231\t2783\nDestrnik\t4649\t1588\t2784\nDobrna\t4634\t1523\t2785\nDol pri Ljubljani\t4609\t1460\t2786\nDolenjske Toplice\t4576\t1506\t2787\nZgornje Gorje\t4638\t1407\t2788\nGrad\t4680\t1610\t2789\nSpodnja Hajdina\t4641\t1585\t2790\nKomenda\t4620\t1454\t2791\nLjubljana\t4605\t1451\t2792\nLjutomer\t4652\t1620\t2793\nLogatec\t4591\t1423\t2794\nLog pri Brezovici\t4602\t1437\t2795\nLukovica pri Domžalah\t4617\t1469\t2796\nAjdovščina\t4589\t1391\t2797\nAnkaran\t4558\t1374\t2798\nApače\t4670\t1591\t2799\nBeltinci\t4661\t1624\t2800\nBenedikt\t4661\t1589\t2801\nBistrica ob Sotli\t4606\t1566\t2802\nBled\t4637\t1411\t2803\nNova Vas\t4577\t1451\t2804\nBohinjska Bistrica\t4627\t1395\t2805\nBorovnica\t4592\t1436\t2806\nBovec\t4634\t1355\t2807\nBraslovče\t4629\t1504\t2808\nDobrovo\t4600\t1353\t2809\nBrezovica pri Ljubljani\t4603\t1440\t2810\nBrežice\t4590\t1559\t2811\nCankova\t4672\t1602\t2812\nCerklje na Gorenjskem\t4625\t1449\t2813\nCerknica\t4579\t1436\t2814\nCerkno\t4613\t1398\t2815\nCerkvenjak\t4657\t1594\t2816\nCirkulane\t4634\t1599\t2817\nDivača\t4568\t1397\t2818\nDobje pri Planini\t4614\t1539\t2819\nVidem\t4585\t1469\t2820\nDobrova\t4605\t1439\t2821\nDobrovnik\t4665\t1635\t2822\nDomžale\t4614\t1459\t2823\nDornava\t4644\t1595\t2824\nDravograd\t4659\t1502\t2825\nSpodnji Duplek\t4650\t1575\t2826\nGorenja Vas\t4611\t1415\t2827\nGorišnica\t4641\t1601\t2828\nGornja Radgona\t4667\t1599\t2829\nGornji Grad\t4630\t1481\t2830\nGornji Petrovci\t4681\t1622\t2831\nGrosuplje\t4596\t1466\t2832\nHodoš\t4682\t1633\t2833\nHorjul\t4602\t1430\t2834\nSpodnje Hoče\t4650\t1565\t2835\nHrastnik\t4615\t1508\t2836\nKozina\t4561\t1394\t2837\nIdrija\t4600\t1403\t2838\nIg\t4596\t1453\t2839\nIlirska Bistrica\t4557\t1425\t2840\nIvančna Gorica\t4594\t1480\t2841\nIzola\t4554\t1366\t2842\nJesenice\t4643\t1407\t2843\nZgornje Jezersko\t4639\t1451\t2844\nJuršinci\t4648\t1597\t2845\nKamnik\t4623\t1461\t2846\nKanal\t4609\t1364\t2847\nKidričevo\t4640\t1579\t2848\nKobarid\t4625\t1358\t2849\nKobilje\t4668\t1640\t2850\nKomen\t4582\t1375\t2851\nKostanjevica na Krki\t4585\t1542\t2852\nKostel\t4551\t1491\t2853\nKozje\t4608\t1556\t2854\nKočevje\t4564\t1486\t2855\nKranjska Gora\t4646\t1378\t2856\nKriževci pri Ljutomeru\t4657\t1614\t2857\nZgornja Kungota\t4664\t1562\t2858\nKuzma\t4684\t1608\t2859\nLaško\t4615\t1524\t2860\nLenart v Slov. Goricah\t4658\t1583\t2861\nLendava\t4656\t1645\t2862\nLitija\t4606\t1482\t2863\nLjubno ob Savinji\t4634\t1483\t2864\nLovrenc na Pohorju\t4654\t1539\t2865\nLeskova Dolina\t4562\t1446\t2866\nHrib-Loški Potok\t4571\t1462\t2867\nLuče\t4636\t1475\t2868\nMajšperk\t4635\t1573\t2869\nMakole\t4632\t1567\t2870\nMarkovci\t4640\t1593\t2871\nMedvode\t4614\t1441\t2872\nMengeš\t4617\t1458\t2873\nMetlika\t4565\t1531\t2874\nMežica\t4652\t1485\t2875\nMiklavž na Dravskem Polju\t4651\t1570\t2876\nMiren\t4590\t1361\t2877\nMirna\t4596\t1506\t2878\nMirna Peč\t4586\t1508\t2879\nMislinja\t4644\t1520\t2880\nMokronog\t4593\t1514\t2881\nMoravske Toplice\t4668\t1622\t2882\nMoravče\t4614\t1475\t2883\nMozirje\t4634\t1496\t2884\nMuta\t4661\t1517\t2885\nNaklo\t4627\t1432\t2886\nNazarje\t4632\t1495\t2887\nOdranci\t4659\t1628\t2888\nOplotnica\t4639\t1545\t2889\nOrmož\t4641\t1615\t2890\nOsilnica\t4553\t1470\t2891\nPiran\t4553\t1357\t2892\nPodlehnik\t4634\t1588\t2893\nPodvelka\t4659\t1533\t2894\nPodčetrtek\t4616\t1560\t2895\nPoljčane\t4631\t1558\t2896\nPolzela\t4628\t1507\t2897\nPostojna\t4577\t1422\t2898\nPreddvor\t4630\t1442\t2899\nPrevalje\t4655\t1492\t2900\nPuconci\t4671\t1616\t2901\nRadenci\t4664\t1604\t2902\nRadeče\t4607\t1518\t2903\nRadlje ob Dravi\t4661\t1523\t2904\nRavne na Koroškem\t4654\t1497\t2905\nRazkrižje\t4652\t1628\t2906\nRače\t4645\t1568\t2907\nVolčja Draga\t4591\t1368\t2908\nRečica ob Savinji\t4632\t1492\t2909\nRibnica\t4574\t1473\t2910\nRibnica na Pohorju\t4654\t1527\t2911\nRogatec\t4623\t1570\t2912\nRogaška Slatina\t4624\t1564\t2913\nRogašovci\t4680\t1603\t2914\nRuše\t4654\t1552\t2915\nSelnica ob Dravi\t4655\t1550\t2916\nSemič\t4565\t1518\t2917\nSevnica\t4601\t1532\t2918\nSežana\t4571\t1387\t2919\nSlovenska Bistrica\t4639\t1557\t2920\nSlovenske Konjice\t4634\t1543\t2921\nSodražica\t4576\t1464\t2922\nSolčava\t4642\t1469\t2923\nSredišče ob Dravi\t4639\t1627\t2924\nStarše\t4647\t1577\t2925\nStraža\t4578\t1507\t2926\nSv. Ana v Slov. Goricah\t4665\t1584\t2927\nSv. Trojica v Slov. Goricah\t4658\t1588\t2928\nVitomarci\t4653\t1594\t2929\nSveti Jurij\t4657\t1602\t2930\nJurovski Dol\t4661\t1578\t2931\nSveti Tomaž\t4648\t1608\t2932\nTabor\t4624\t1502\t2933\nTišina\t4666\t1609\t2934\nTolmin\t4618\t1373\t2935\nTrbovlje\t4616\t1505\t2936\nTrnovska Vas\t4652\t1589\t2937\nTrzin\t4613\t1457\t2938\nTržič\t4636\t1431\t2939\nTurnišče\t4663\t1632\t2940\nVelika Polana\t4657\t1635\t2941\nVelike Lašče\t4583\t1464\t2942\nVeržej\t4658\t1617\t2943\nVidem pri Ptuju\t4637\t1591\t2944\nVipava\t4585\t1396\t2945\nVitanje\t4638\t1530\t2946\nVodice\t4619\t1449\t2947\nVojnik\t4629\t1530\t2948\nVransko\t4624\t1495\t2949\nVrhnika\t4596\t1429\t2950\nVuzenica\t4660\t1517\t2951\nZagorje ob Savi\t4613\t1500\t2952\nZavrč\t4639\t1605\t2953\nZreče\t4638\t1538\t2954\nČrenšovci\t4656\t1630\t2955\nČrna na Koroškem\t4647\t1485\t2956\nČrnomelj\t4557\t1519\t2957\nŠalovci\t4683\t1630\t2958\nŠempeter pri Gorici\t4593\t1364\t2959\nŠentilj v Slov. Goricah\t4668\t1565\t2960\nŠentjernej\t4584\t1534\t2961\nŠentrupert\t4598\t1510\t2962\nŠenčur\t4625\t1442\t2963\nŠkocjan\t4591\t1529\t2964\nŠkofljica\t4598\t1458\t2965\nŠmarje pri Jelšah\t4623\t1552\t2966\nŠmarjeta\t4588\t1525\t2967\nŠmartno ob Paki\t4633\t1503\t2968\nŠmartno pri Litiji\t4604\t1484\t2969\nŠoštanj\t4638\t1505\t2970\nŠtore\t4622\t1531\t2971\nŽalec\t4625\t1516\t2972\nŽelezniki\t4622\t1417\t2973\nŽetale\t4627\t1583\t2974\nŽiri\t4604\t1411\t2975\nŽirovnica\t4640\t1414\t2976\nŽužemberk\t4583\t1493\t2977\nPesnica\t4661\t1568\t2978\nPivka\t4568\t1420\t2979\nPrebold\t4624\t1509\t2980\nRadovljica\t4634\t1417\t2981\nŠentjur\t4622\t1540\t2982\nTrebnje\t4590\t1502\t2983\nCelje\t4623\t1526\t2984\nKoper\t4555\t1373\t2985\nKranj\t4624\t1436\t2986\nKrško\t4596\t1549\t2987\nMaribor\t4655\t1565\t2988\nMurska Sobota\t4666\t1617\t2989\nNova Gorica\t4596\t1365\t2990\nNovo Mesto\t4580\t1517\t2991\nPtuj\t4642\t1587\t2992\nSlovenj Gradec\t4651\t1508\t2993\nVelenje\t4636\t1511\t2994\nŠkofja Loka\t4617\t1431\t2995\nOlonkinbyen\t7092\t-872\t2996\nLongyearbyen\t7822\t1565\t2997\nLučenec\t4833\t1967\t2998\nRimavská Sobota\t4838\t2002\t2998\nDetva\t4856\t1942\t2998\nZvolen\t4857\t1915\t2998\nŽiar nad Hronom\t4859\t1885\t2998\nBanská Bystrica\t4874\t1915\t2998\nBrezno\t4880\t1964\t2998\nBratislava\t4815\t1711\t2999\nPezinok\t4829\t1727\t2999\nMalacky\t4844\t1702\t2999\nTrebišov\t4863\t2172\t3000\nRožňava\t4866\t2054\t3000\nKošice\t4871\t2126\t3000\nMichalovce\t4875\t2192\t3000\nSpišská Nová Ves\t4894\t2056\t3000\nKomárno\t4776\t1812\t3001\nNové Zámky\t4799\t1816\t3001\nŠaľa\t4815\t1788\t3001\nLevice\t4822\t1861\t3001\nNitra\t4831\t1808\t3001\nZlaté Moravce\t4839\t1840\t3001\nVranov nad Topľou\t4889\t2168\t3002\nHumenné\t4894\t2192\t3002\nSnina\t4899\t2215\t3002\nPrešov\t4900\t2123\t3002\nPoprad\t4906\t2030\t3002\nKežmarok\t4914\t2043\t3002\nBardejov\t4929\t2127\t3002\nStará Ľubovňa\t4930\t2069\t3002\nPartizánske\t4863\t1838\t3003\nBánovce nad Bebravou\t4872\t1826\t3003\nHandlová\t4873\t1876\t3003\nNové Mesto nad Váhom\t4876\t1783\t3003\nPrievidza\t4877\t1863\t3003\nTrenčín\t4889\t1804\t3003\nDubnica nad Váhom\t4896\t1817\t3003\nPúchov\t4912\t1833\t3003\nPovažská Bystrica\t4912\t1842\t3003\nDunajská Streda\t4799\t1761\t3004\nGalanta\t4819\t1773\t3004\nTrnava\t4838\t1759\t3004\nHlohovec\t4843\t1780\t3004\nPiešťany\t4859\t1783\t3004\nSenica\t4868\t1737\t3004\nSkalica\t4884\t1723\t3004\nMartin\t4907\t1892\t3005\nRužomberok\t4907\t1931\t3005\nLiptovský Mikuláš\t4908\t1962\t3005\nDolný Kubín\t4921\t1930\t3005\nŽilina\t4922\t1874\t3005\nKysucké Nové Mesto\t4930\t1878\t3005\nČadca\t4944\t1879\t3005\nKenema\t788\t-1119\t3006\nSegbwema\t799\t-1095\t3006\nKoidu\t864\t-1097\t3006\nPort Loko\t877\t-1279\t3007\nLunsar\t868\t-1253\t3008\nMakeni\t889\t-1204\t3008\nKabala\t959\t-1155\t3008\nBo\t796\t-1174\t3009\nWaterloo\t834\t-1307\t3010\nFreetown\t849\t-1324\t3010\nAcquaviva\t4395\t1242\t3011\nBorgo Maggiore\t4394\t1245\t3012\nPoggio di Chiesanuova\t4390\t1242\t3013\nDomagnano\t4395\t1247\t3014\nFaetano\t4393\t1250\t3015\nFiorentino\t4391\t1246\t3016\nMonte Giardino\t4391\t1248\t3017\nSan Marino\t4394\t1245\t3018\nSerravalle\t4397\t1248\t3019\nDakar\t1469\t-1744\t3020\nMermoz Boabab\t1471\t-1748\t3020\nPikine\t1476\t-1739\t3020\nN’diareme limamoulaye\t1478\t-1738\t3020\nTiébo\t1463\t-1623\t3021\nDiourbel\t1465\t-1624\t3021\nMbaké\t1479\t-1591\t3021\nTouba\t1485\t-1588\t3021\nGuinguinéo\t1427\t-1595\t3022\nFatick\t1433\t-1641\t3022\nPourham\t1435\t-1642\t3022\nKaffrine\t1411\t-1555\t3023\nNioro du Rip\t1375\t-1580\t3024\nKaolack\t1415\t-1607\t3024\nKédougou\t1256\t-1218\t3025\nKolda\t1289\t-1494\t3026\nVélingara\t1315\t-1412\t3026\nNdibène Dahra\t1533\t-1548\t3027\nDara\t1535\t-1548\t3027\nLouga\t1562\t-1622\t3027\nMatam\t1566\t-1326\t3028\nSaint-Louis\t1602\t-1649\t3029\nRichard-Toll\t1646\t-1570\t3029\nSédhiou\t1271\t-1556\t3030\nTambacounda\t1377\t-1367\t3031\nJoal-Fadiout\t1417\t-1683\t3032\nNguékhokh\t1451\t-1700\t3032\nPout\t1477\t-1706\t3032\nThiès Nones\t1478\t-1697\t3032\nThiès\t1479\t-1693\t3032\nKayar\t1492\t-1712\t3032\nMékhé\t1511\t-1662\t3032\nZiguinchor\t1257\t-1627\t3033\nBignona\t1281\t-1623\t3033\nBaki\t989\t4339\t3034\nXuddur\t412\t4389\t3035\nMogadishu\t204\t4534\t3036\nBosaso\t1128\t4918\t3037\nQandala\t1147\t4987\t3037\nBuurhakaba\t280\t4408\t3038\nBaidoa\t311\t4365\t3038\nCeeldheer\t385\t4718\t3039\nDhuusamarreeb\t554\t4639\t3039\nBaardheere\t234\t4228\t3040\nGarbahaarrey\t333\t4222\t3040\nLuuq\t380\t4254\t3040\nBuulobarde\t385\t4557\t3041\nBeledweyne\t474\t4520\t3041\nKismayo\t-36\t4255\t3042\nJamaame\t7\t4274\t3042\nMarka\t172\t4477\t3043\nQoryooley\t179\t4453\t3043\nAfgooye\t214\t4512\t3043\nWanlaweyn\t262\t4489\t3043\nJilib\t49\t4279\t3044\nBu’aale\t108\t4258\t3044\nJawhar\t278\t4550\t3045\nGaalkacyo\t677\t4743\t3046\nEyl\t798\t4982\t3047\nGaroowe\t840\t4848\t3047\nCeerigaabo\t1062\t4737\t3048\nLaascaanood\t848\t4736\t3049\nBurao\t952\t4553\t3050\nHargeysa\t956\t4407\t3051\nBerbera\t1044\t4501\t3051\nBrokopondo\t506\t-5498\t3052\nNieuw Amsterdam\t589\t-5509\t3053\nTotness\t588\t-5633\t3054\nAlbina\t550\t-5406\t3055\nNieuw Nickerie\t593\t-5697\t3056\nOnverwacht\t559\t-5519\t3057\nParamaribo\t587\t-5517\t3058\nGroningen\t580\t-5547\t3059\nLelydorp\t570\t-5523\t3060\nPajok\t387\t3248\t3061\nYei\t409\t3068\t3061\nTorit\t441\t3257\t3061\nYambio\t457\t2839\t3061\nKapoeta\t477\t3359\t3061\nJuba\t485\t3158\t3061\nMaridi\t492\t2947\t3061\nMundri\t535\t3032\t3061\nTerekeka\t544\t3175\t3061\nTambura\t560\t2747\t3061\nBor\t621\t3156\t3061\nYirol\t655\t3050\t3061\nPibor\t680\t3313\t3061\nRumbek\t681\t2968\t3061\nCueibet\t703\t2925\t3061\nTonj\t727\t2868\t3061\nWau\t770\t2799\t3061\nAkobo\t779\t3300\t3061\nAyod\t812\t3141\t3061\nWaat\t818\t3215\t3061\nKuacjok\t830\t2798\t3061\nLeer\t830\t3014\t3061\nRaja\t847\t2568\t3061\nGogrial\t853\t2810\t3061\nMaiwut\t861\t3393\t3061\nNasir\t862\t3306\t3061\nAweil\t876\t2739\t3061\nWinejok\t901\t2757\t3061\nMayen Abun\t914\t2835\t3061\nBentiu\t926\t2980\t3061\nMalakal\t953\t3166\t3061\nKodok\t989\t3211\t3061\nPariang\t992\t2998\t3061\nRenk\t1174\t3280\t3061\nSanto António\t164\t742\t3062\nSão Tomé\t34\t673\t3063\nAhuachapán\t1392\t-8984\t3064\nSensuntepeque\t1387\t-8863\t3065\nChalatenango\t1403\t-8893\t3066\nCojutepeque\t1372\t-8893\t3067\nSan Martín\t1378\t-8892\t3067\nLa Libertad\t1349\t-8932\t3068\nAntiguo Cuscatlán\t1366\t-8925\t3068\nSanta Tecla\t1368\t-8928\t3068\nQuezaltepeque\t1383\t-8927\t3068\nZacatecoluca\t1350\t-8887\t3069\nLa Unión\t1334\t-8784\t3070\nSan Francisco\t1370\t-8810\t3071\nSan Rafael Oriente\t1338\t-8835\t3072\nSan Miguel\t1348\t-8818\t3072\nSan Marcos\t1366\t-8918\t3073\nSan Salvador\t1369\t-8919\t3073\nIlopango\t1370\t-8911\t3073\nSoyapango\t1371\t-8914\t3073\nMejicanos\t1372\t-8919\t3073\nDelgado\t1372\t-8917\t3073\nCuscatancingo\t1373\t-8918\t3073\nAyutuxtepeque\t1374\t-8920\t3073\nApopa\t1381\t-8918\t3073\nAguilares\t1396\t-8919\t3073\nSan Vicente\t1363\t-8880\t3074\nChalchuapa\t1399\t-8968\t3075\nSanta Ana\t1399\t-8956\t3075\nMetapán\t1433\t-8945\t3075\nAcajutla\t1359\t-8983\t3076\nSonsonate\t1372\t-8972\t3076\nSonzacate\t1373\t-8971\t3076\nIzalco\t1374\t-8967\t3076\nPuerto El Triunfo\t1328\t-8855\t3077\nUsulután\t1335\t-8845\t3077\nSantiago de María\t1348\t-8847\t3077\nPhilipsburg\t1803\t-6305\t3078\nAl Ḩasakah\t3650\t4075\t3079\nAd Darbāsīyah\t3707\t4065\t3079\nAs Safīrah\t3608\t3737\t3080\nDayr Ḩāfir\t3616\t3771\t3080\nAleppo\t3620\t3716\t3080\nTādif\t3635\t3753\t3080\nAl Bāb\t3637\t3752\t3080\nNubl\t3638\t3699\t3080\nTall Rif‘at\t3647\t3709\t3080\n‘Afrīn\t3651\t3687\t3080\nManbij\t3653\t3795\t3080\nI‘zāz\t3659\t3705\t3080\nJarābulus\t3682\t3801\t3080\n‘Ayn al ‘Arab\t3689\t3835\t3080\nDamascus\t3351\t3629\t3081\nDar‘ā\t3262\t3610\t3082\nŢafas\t3274\t3607\t3082\nAl Ḩarāk\t3275\t3631\t3082\nAsh Shaykh Miskīn\t3283\t3616\t3082\nJāsim\t3299\t3606\t3082\nInkhil\t3302\t3613\t3082\nAş Şanamayn\t3307\t3618\t3082\nĀlbū Kamāl\t3445\t4092\t3083\nHajīn\t3470\t4083\t3083\nSubaykhān\t3485\t4060\t3083\nAl Mayādīn\t3502\t4045\t3083\nDeir ez-Zor\t3534\t4014\t3083\nAs Salamīyah\t3501\t3705\t3084\nMaşyāf\t3507\t3634\t3084\nḨamāh\t3513\t3676\t3084\nḨalfāyā\t3526\t3661\t3084\nŢayyibat al Imām\t3527\t3671\t3084\nSouran\t3529\t3675\t3084\nKafr Zaytā\t3537\t3660\t3084\nAl Qaryatayn\t3423\t3724\t3085\nAl Quşayr\t3451\t3658\t3085\nTadmur\t3456\t3828\t3085\nTallkalakh\t3467\t3626\t3085\nHoms\t3473\t3672\t3085\nTallbīsah\t3484\t3673\t3085\nKafr Lāhā\t3489\t3650\t3085\nAr Rastan\t3493\t3673\t3085\nKhān Shaykhūn\t3544\t3665\t3086\nKafranbel\t3561\t3656\t3086\nJisr ash Shughūr\t3581\t3632\t3086\nSarāqib\t3586\t3681\t3086\nIdlib\t3593\t3663\t3086\nBinnish\t3596\t3671\t3086\nMa‘arratmişrīn\t3601\t3667\t3086\nKafr Takhārīm\t3612\t3652\t3086\nSalqīn\t3614\t3645\t3086\nAd Dānā\t3621\t3677\t3086\nJablah\t3536\t3593\t3087\nLatakia\t3553\t3579\t3087\nAl Qunayţirah\t3313\t3582\t3088\nAth Thawrah\t3584\t3855\t3089\nAr Raqqah\t3595\t3901\t3089\nAl Kiswah\t3336\t3624\t3090\nQaţanā\t3344\t3608\t3090\nDārayyā\t3346\t3623\t3090\n‘Irbīn\t3354\t3637\t3090\nḨarastā\t3356\t3637\t3090\nDouma\t3357\t3640\t3090\nAt Tall\t3361\t3631\t3090\nAz Zabadānī\t3372\t3610\t3090\nAl Quţayfah\t3374\t3660\t3090\nJayrūd\t3381\t3674\t3090\nYabrūd\t3397\t3666\t3090\nAn Nabk\t3402\t3673\t3090\nQārah\t3416\t3674\t3090\nAs-Suwayda\t3271\t3657\t3091\nSatita\t3482\t3612\t3092\nTartouss\t3489\t3589\t3092\nBāniyās\t3518\t3595\t3092\nMbabane\t-2632\t3113\t3093\nPiggs Peak\t-2596\t3125\t3093\nSiteki\t-2645\t3195\t3094\nManzini\t-2650\t3138\t3095\nNhlangano\t-2711\t3120\t3096\nCockburn Town\t2146\t-7114\t3097\nMoussoro\t1364\t1649\t3098\nAti\t1322\t1834\t3099\nOum Hadjer\t1330\t1970\t3099\nFaya-Largeau\t1793\t1910\t3100\nMassenya\t1140\t1617\t3101\nDourbali\t1181\t1587\t3101\nAm Djarass\t1607\t2284\t3102\nFada\t1719\t2158\t3103\nBitkine\t1198\t1821\t3104\nMongo\t1218\t1869\t3104\nMassaguet\t1248\t1544\t3105\nMassakory\t1300\t1573\t3105\nMao\t1412\t1531\t3106\nBol\t1347\t1471\t3107\nMoundou\t857\t1608\t3108\nBenoy\t898\t1632\t3108\nDoba\t865\t1685\t3109\nKoumra\t891\t1755\t3110\nBongor\t1028\t1537\t3111\nPala\t936\t1490\t3112\nMboursou Léré\t976\t1415\t3112\nSarh\t914\t1839\t3113\nKyabé\t945\t1894\t3113\nN'Djamena\t1211\t1504\t3114\nAbéché\t1383\t2083\t3115\nAm Timan\t1103\t2028\t3116\nGoz Beïda\t1222\t2141\t3117\nKelo\t931\t1581\t3118\nLaï\t940\t1630\t3118\nBardaï\t2135\t1700\t3119\nBiltine\t1453\t2093\t3120\nPort-aux-Français\t-4935\t7022\t3121\nSotouboua\t856\t98\t3122\nSokodé\t898\t113\t3122\nTchamba\t903\t142\t3122\nBassar\t925\t78\t3123\nBafilo\t935\t127\t3123\nKara\t955\t119\t3123\nNiamtougou\t977\t111\t3123\nLomé\t613\t122\t3124\nAného\t623\t159\t3124\nVogan\t633\t153\t3124\nTsévié\t643\t121\t3124\nKpalimé\t690\t63\t3125\nNotsé\t695\t117\t3125\nAtakpamé\t753\t113\t3125\nBadou\t758\t60\t3125\nSansanné-Mango\t1036\t47\t3126\nDapaong\t1086\t21\t3126\nAmnat Charoen\t1586\t10463\t3127\nWiset Chaichan\t1459\t10034\t3128\nAng Thong\t1459\t10045\t3128\nBangkok\t1375\t10050\t3129\nSeka\t1793\t10396\t3130\nBueng Kan\t1836\t10365\t3130\nPrakhon Chai\t1461\t10312\t3131\nNang Rong\t1464\t10279\t3131\nBuri Ram\t1499\t10310\t3131\nBang Pakong\t1354\t10099\t3132\nChachoengsao\t1369\t10107\t3132\nPhanom Sarakham\t1375\t10135\t3132\nChai Nat\t1519\t10012\t3133\nChaiyaphum\t1581\t10203\t3134\nKaeng Khro\t1611\t10226\t3134\nKaset Sombun\t1628\t10195\t3134\nPhu Khiao\t1638\t10213\t3134\nLaem Sing\t1248\t10207\t3135\nChanthaburi\t1261\t10210\t3135\nTha Mai\t1262\t10200\t3135\nSan Pa Tong\t1863\t9890\t3136\nHang Dong\t1869\t9892\t3136\nSan Kamphaeng\t1874\t9912\t3136\nChiang Mai\t1879\t9898\t3136\nChiang Rai\t1991\t9983\t3137\nMae Chan\t2015\t9985\t3137\nMae Sai\t2043\t9988\t3137\nSattahip\t1267\t10090\t3138\nPattaya\t1293\t10088\t3138\nBang Lamung\t1305\t10093\t3138\nBan Talat Bueng\t1307\t10100\t3138\nSi Racha\t1317\t10093\t3138\nBan Bueng\t1331\t10111\t3138\nChon Buri\t1336\t10098\t3138\nPhanat Nikhom\t1345\t10118\t3138\nPhan Thong\t1347\t10110\t3138\nLang Suan\t995\t9908\t3139\nChumphon\t1050\t9918\t3139\nKamalasai\t1634\t10358\t3140\nKalasin\t1643\t10351\t3140\nKuchinarai\t1654\t10405\t3140\nNong Kung Si\t1665\t10330\t3140\nKhao Wong\t1670\t10409\t3140\nKhanu Woralaksaburi\t1606\t9986\t3141\nKamphaeng Phet\t1648\t9952\t3141\nTha Maka\t1390\t9977\t3142\nTha Muang\t1396\t9964\t3142\nKanchanaburi\t1400\t9955\t3142\nBo Phloi\t1433\t9951\t3142\nBan Phai\t1606\t10273\t3143\nKhon Kaen\t1645\t10283\t3143\nChum Phae\t1654\t10210\t3143\nKrabi\t807\t9891\t3144\nThoen\t1761\t9922\t3145\nLampang\t1829\t9949\t3145\nPa Sang\t1853\t9894\t3146\nLamphun\t1858\t9901\t3146\nPhu Kradueng\t1688\t10188\t3147\nWang Saphung\t1730\t10177\t3147\nLoei\t1749\t10173\t3147\nLop Buri\t1480\t10065\t3148\nChai Badan\t1520\t10113\t3148\nMae Hong Son\t1930\t9797\t3149\nMaha Sarakham\t1618\t10330\t3150\nMukdahan\t1655\t10472\t3151\nNakhon Nayok\t1420\t10121\t3152\nSam Phran\t1373\t10022\t3153\nNakhon Pathom\t1382\t10004\t3153\nBang Len\t1402\t10017\t3153\nNakhon Phanom\t1741\t10478\t3154\nKhon Buri\t1453\t10225\t3155\nPak Chong\t1471\t10142\t3155\nChok Chai\t1473\t10217\t3155\nAmphoe Sikhiu\t1490\t10171\t3155\nNakhon Ratchasima\t1497\t10210\t3155\nBan Huai Thalaeng\t1498\t10265\t3155\nNon Sung\t1518\t10226\t3155\nDan Khun Thot\t1521\t10177\t3155\nBua Yai\t1559\t10243\t3155\nNakhon Sawan\t1570\t10014\t3156\nLat Yao\t1575\t9979\t3156\nThung Song\t816\t9968\t3157\nRon Phibun\t818\t9985\t3157\nPak Phanang\t835\t10020\t3157\nNakhon Si Thammarat\t843\t9997\t3157\nNan\t1878\t10078\t3158\nSu-ngai Kolok\t603\t10197\t3159\nTak Bai\t626\t10205\t3159\nRa-ngae\t630\t10173\t3159\nNarathiwat\t643\t10182\t3159\nNong Bua Lamphu\t1720\t10244\t3160\nNa Klang\t1731\t10219\t3160\nTha Bo\t1785\t10258\t3161\nNong Khai\t1788\t10274\t3161\nPhon Charoen\t1803\t10317\t3161\nBang Kruai\t1381\t10047\t3162\nMueang Nonthaburi\t1386\t10051\t3162\nPak Kret\t1391\t10050\t3162\nBang Bua Thong\t1392\t10042\t3162\nBan Lam Luk Ka\t1398\t10078\t3163\nPathum Thani\t1401\t10053\t3163\nKhlong Luang\t1406\t10065\t3163\nPattani\t687\t10125\t3164\nYaring\t687\t10137\t3164\nPhang Nga\t845\t9853\t3165\nPhatthalung\t762\t10008\t3166\nDok Kham Tai\t1916\t9999\t3167\nPhayao\t1919\t9988\t3167\nWichian Buri\t1566\t10111\t3168\nNong Phai\t1599\t10106\t3168\nChon Daen\t1619\t10086\t3168\nPhetchabun\t1642\t10116\t3168\nLom Sak\t1678\t10124\t3168\nCha-am\t1280\t9997\t3169\nTha Yang\t1296\t9991\t3169\nPhetchaburi\t1311\t9994\t3169\nKhao Yoi\t1324\t9982\t3169\nBang Mun Nak\t1603\t10038\t3170\nThap Khlo\t1616\t10060\t3170\nTaphan Hin\t1622\t10042\t3170\nPhichit\t1644\t10035\t3170\nBang Krathum\t1658\t10030\t3171\nBang Rakam\t1676\t10012\t3171\nPhitsanulok\t1682\t10026\t3171\nBan Bang Kadi Pathum Thani\t1400\t10055\t3172\nBang Pa-in\t1423\t10058\t3172\nWang Noi\t1423\t10072\t3172\nPhra Nakhon Si Ayutthaya\t1435\t10058\t3172\nBang Ban\t1437\t10049\t3172\nPhak Hai\t1446\t10037\t3172\nNakhon Luang\t1446\t10061\t3172\nTha Ruea\t1457\t10073\t3172\nDen Chai\t1798\t10005\t3173\nPhrae\t1815\t10014\t3173\nBan Chalong\t784\t9834\t3174\nBan Talat Nua\t788\t9839\t3174\nBan Talat Yai\t788\t9840\t3174\nWichit\t789\t9839\t3174\nPhuket\t789\t9840\t3174\nBan Ratsada\t791\t9840\t3174\nKathu\t792\t9833\t3174\nKabin Buri\t1395\t10172\t3175\nPrachin Buri\t1405\t10137\t3175\nBang Saphan\t1121\t9951\t3176\nPrachuap Khiri Khan\t1182\t9978\t3176\nKui Buri\t1208\t9985\t3176\nSam Roi Yot\t1227\t9987\t3176\nPran Buri\t1238\t9990\t3176\nHua Hin\t1257\t9996\t3176\nRanong\t997\t9863\t3177\nDamnoen Saduak\t1352\t9995\t3178\nRatchaburi\t1354\t9982\t3178\nChom Bueng\t1362\t9959\t3178\nPhotharam\t1369\t9985\t3178\nBang Phae\t1369\t9993\t3178\nBan Pong\t1382\t9988\t3178\nBan Phe\t1263\t10144\t3179\nRayong\t1268\t10126\t3179\nBan Chang\t1273\t10106\t3179\nKlaeng\t1278\t10165\t3179\nKaset Wisai\t1566\t10358\t3180\nBan Selaphum\t1602\t10395\t3180\nRoi Et\t1606\t10365\t3180\nWang Nam Yen\t1350\t10218\t3181\nAranyaprathet\t1369\t10250\t3181\nSa Kaeo\t1381\t10207\t3181\nSakon Nakhon\t1716\t10415\t3182\nSawang Daen Din\t1748\t10346\t3182\nBang Bo District\t1358\t10082\t3183\nSamut Prakan\t1360\t10060\t3183\nBan Khlong Bang Sao Thong\t1364\t10083\t3183\nPhra Pradaeng\t1366\t10053\t3183\nSamut Sakhon\t1355\t10027\t3184\nBan Phaeo\t1359\t10011\t3184\nKrathum Baen\t1365\t10026\t3184\nSamut Songkhram\t1341\t10000\t3185\nNong Khae\t1434\t10087\t3186\nSaraburi\t1453\t10092\t3186\nKaeng Khoi\t1459\t10100\t3186\nBan Mo\t1462\t10073\t3186\nPhra Phutthabat\t1473\t10080\t3186\nSatun\t662\t10007\t3187\nKantharalak\t1464\t10465\t3188\nSi Sa Ket\t1511\t10433\t3188\nBang Racham\t1489\t10032\t3189\nSing Buri\t1489\t10040\t3189\nSadao\t664\t10042\t3190\nHat Yai\t701\t10048\t3190\nBan Mai\t720\t10055\t3190\nSongkhla\t720\t10060\t3190\nRanot\t778\t10032\t3190\nSukhothai\t1701\t9982\t3191\nBan Na\t1702\t9973\t3191\nSawankhalok\t1732\t9983\t3191\nSi Satchanalai\t1752\t9976\t3191\nSuphan Buri\t1447\t10012\t3192\nBan Na San\t880\t9936\t3193\nTha Kham\t911\t9923\t3193\nSurat Thani\t914\t9933\t3193\nKo Samui\t954\t9994\t3193\nSurin\t1488\t10349\t3194\nMae Sot\t1672\t9857\t3195\nTak\t1687\t9913\t3195\nMae Ramat\t1698\t9852\t3195\nBan Tak\t1704\t9908\t3195\nTrang\t756\t9961\t3196\nHuai Yot\t779\t9963\t3196\nTrat\t1224\t10252\t3197\nDet Udom\t1491\t10508\t3198\nWarin Chamrap\t1519\t10486\t3198\nUbon Ratchathani\t1524\t10485\t3198\nPhibun Mangsahan\t1524\t10523\t3198\nBan Phan Don\t1714\t10297\t3199\nBan Nong Wua So\t1727\t10322\t3199\nUdon Thani\t1742\t10279\t3199\nKut Chap\t1743\t10257\t3199\nBan Dung\t1770\t10326\t3199\nNam Som\t1777\t10219\t3199\nUthai Thani\t1538\t10002\t3200\nThap Than\t1546\t9989\t3200\nUttaradit\t1763\t10009\t3201\nBetong\t577\t10107\t3202\nYala\t654\t10128\t3202\nYasothon\t1579\t10415\t3203\nBoshkengash\t3847\t6881\t3204\nDushanbe\t3854\t6878\t3204\nIshqoshim\t3672\t7161\t3205\nKhorugh\t3749\t7155\t3205\nFarkhor\t3749\t6940\t3206\nKolkhozobod\t3759\t6866\t3206\nMoskovskiy\t3761\t6858\t3206\nChubek\t3761\t6971\t3206\nVakhsh\t3771\t6883\t3206\nVose’\t3780\t6964\t3206\nQŭrghonteppa\t3783\t6878\t3206\nKŭlob\t3791\t6978\t3206\nDanghara\t3810\t6934\t3206\nYovon\t3831\t6904\t3206\nNorak\t3839\t6932\t3206\nTursunzoda\t3851\t6823\t3207\nHisor\t3853\t6855\t3207\nVahdat\t3856\t6901\t3207\nPanjakent\t3950\t6761\t3208\nIstaravshan\t3991\t6900\t3208\nIsfara\t4013\t7063\t3208\nProletar\t4017\t6950\t3208\nBuston\t4023\t6969\t3208\nKhujand\t4028\t6962\t3208\nKonibodom\t4029\t7043\t3208\nAtafu Village\t-854\t-17252\t3209\nFale old settlement\t-939\t-17125\t3210\nNukunonu\t-920\t-17185\t3211\nAileu\t-873\t12557\t3212\nAinaro\t-899\t12551\t3213\nVenilale\t-864\t12638\t3214\nBaukau\t-848\t12646\t3214\nMaliana\t-899\t12522\t3215\nSuai\t-931\t12526\t3216\nDili\t-856\t12557\t3217\nLospalos\t-852\t12700\t3218\nMaubara\t-861\t12521\t3219\nLikisá\t-859\t12534\t3219\nManatutu\t-851\t12601\t3220\nSame\t-900\t12565\t3221\nPante Makasar\t-920\t12438\t3222\nViqueque\t-886\t12636\t3223\nKaka\t3735\t5961\t3224\nTejen\t3738\t6051\t3224\nAnnau\t3789\t5852\t3224\nAbadan\t3805\t5820\t3224\nBaharly\t3844\t5743\t3224\nAshgabat\t3795\t5838\t3225\nGumdag\t3921\t5459\t3226\nBereket\t3924\t5552\t3226\nBalkanabat\t3951\t5437\t3226\nTürkmenbaşy\t4002\t5296\t3226\nTagta\t4165\t5992\t3227\nYylanly\t4183\t5965\t3227\nDaşoguz\t4184\t5997\t3227\nBoldumsaz\t4213\t5967\t3227\nKöneürgench\t4233\t5915\t3227\nGowurdak\t3781\t6605\t3228\nAtamyrat\t3784\t6521\t3228\nSaýat\t3878\t6388\t3228\nTürkmenabat\t3907\t6358\t3228\nGazojak\t4119\t6140\t3228\nYolöten\t3730\t6236\t3229\nMary\t3759\t6183\t3229\nBayramaly\t3762\t6217\t3229\nSeydi\t3948\t6291\t3229\nAriana\t3686\t1019\t3230\nGalaat el Andeless\t3706\t1012\t3230\nLa Sebala du Mornag\t3668\t1029\t3231\nHammam-Lif\t3673\t1034\t3231\nBen Arous\t3675\t1022\t3231\nRadès\t3677\t1027\t3231\nMateur\t3704\t967\t3232\nMenzel Bourguiba\t3715\t979\t3232\nDouar Tindja\t3717\t975\t3232\nEl Alia\t3717\t1003\t3232\nMenzel Abderhaman\t3724\t986\t3232\nMenzel Jemil\t3724\t991\t3232\nBizerte\t3727\t987\t3232\nMedjez el Bab\t3665\t961\t3233\nBéja\t3673\t918\t3233\nGabès\t3388\t1010\t3234\nEl Hamma\t3389\t980\t3234\nMetlaoui\t3432\t840\t3235\nAr Rudayyif\t3438\t816\t3235\nGafsa\t3442\t878\t3235\nJendouba\t3650\t878\t3236\nKairouan\t3568\t1010\t3237\nKasserine\t3517\t884\t3238\nThala\t3557\t867\t3238\nDouz\t3347\t902\t3239\nKebili\t3370\t897\t3239\nTajerouine\t3589\t855\t3240\nEl Kef\t3617\t870\t3240\nChebba\t3524\t1112\t3241\nEl Jem\t3530\t1072\t3241\nKsour Essaf\t3542\t1099\t3241\nMahdia\t3550\t1106\t3241\nManouba\t3681\t1010\t3242\nOued Lill\t3683\t1004\t3242\nMedenine\t3335\t1051\t3243\nZarzis\t3350\t1111\t3243\nMidoun\t3381\t1099\t3243\nHoumt El Souk\t3388\t1086\t3243\nDjemmal\t3562\t1076\t3244\nBekalta\t3562\t1099\t3244\nKsar Hellal\t3565\t1089\t3244\nOuardenine\t3571\t1067\t3244\nSkanes\t3578\t1080\t3244\nMonastir\t3578\t1083\t3244\nHammamet\t3640\t1062\t3245\nDouane\t3645\t1076\t3245\nNabeul\t3646\t1074\t3245\nDar Chabanne\t3647\t1075\t3245\nBeni Khiar\t3647\t1078\t3245\nKorba\t3658\t1086\t3245\nMennzel Bou Zelfa\t3668\t1058\t3245\nTakelsa\t3678\t1063\t3245\nKélibia\t3685\t1109\t3245\nSfax\t3474\t1076\t3246\nGremda\t3475\t1078\t3246\nSidi Bouzid\t3504\t948\t3247\nSiliana\t3608\t937\t3248\nMsaken\t3573\t1058\t3249\nSousse\t3583\t1064\t3249\nHammam Sousse\t3586\t1060\t3249\nAkouda\t3587\t1057\t3249\nTataouine\t3293\t1045\t3250\nNefta\t3387\t788\t3251\nTozeur\t3392\t813\t3251\nLa Mohammedia\t3667\t1016\t3252\nTunis\t3682\t1017\t3252\nLa Goulette\t3682\t1031\t3252\nCarthage\t3686\t1033\t3252\nAl Marsá\t3688\t1032\t3252\nEl Fahs\t3637\t991\t3253\nZaghouan\t3640\t1014\t3253\nPangai\t-1981\t-17435\t3254\nHihifo\t-1595\t-17380\t3255\nNuku‘alofa\t-2114\t-17520\t3256\nNeiafu\t-1865\t-17398\t3257\n‘Ohonua\t-2133\t-17495\t3258\nAdana\t3699\t3533\t3259\nCeyhan\t3702\t3582\t3259\nBahçe\t3720\t3658\t3259\nİmamoğlu\t3727\t3566\t3259\nKozan\t3746\t3582\t3259\nBesni\t3769\t3786\t3260\nAdıyaman\t3776\t3828\t3260\nGölbaşı\t3778\t3764\t3260\nKâhta\t3779\t3862\t3260\nDinar\t3807\t3017\t3261\nSandıklı\t3846\t3027\t3261\nÇay\t3859\t3103\t3261\nBolvadin\t3871\t3105\t3261\nAfyonkarahisar\t3876\t3054\t3261\nEmirdağ\t3902\t3115\t3261\nAksaray\t3837\t3403\t3262\nOrtaköy\t3874\t3404\t3262\nAmasya\t4065\t3583\t3263\nTaşova\t4076\t3632\t3263\nSuluova\t4083\t3565\t3263\nMerzifon\t4087\t3546\t3263\nŞereflikoçhisar\t3894\t3354\t3264\nPolatlı\t3958\t3214\t3264\nAnkara\t3992\t3285\t3264\nÇankaya\t3992\t3286\t3264\nElmadağ\t3992\t3323\t3264\nBeypazarı\t4017\t3192\t3264\nNallıhan\t4019\t3135\t3264\nKazan\t4023\t3268\t3264\nÇubuk\t4024\t3303\t3264\nKızılcahamam\t4047\t3265\t3264\nGazipaşa\t3627\t3232\t3265\nBeykonak\t3633\t3030\t3265\nMahmutlar\t3649\t3209\t3265\nTekirova\t3650\t3053\t3265\nAlanya\t3654\t3200\t3265\nKemer\t3660\t3056\t3265\nElmalı\t3674\t2992\t3265\nManavgat\t3679\t3144\t3265\nBelek\t3686\t3106\t3265\nMuratpaşa\t3689\t3076\t3265\nAntalya\t3691\t3070\t3265\nSerik\t3692\t3110\t3265\nKorkuteli\t3706\t3020\t3265\nArdahan\t4111\t4270\t3266\nArtvin\t4118\t4182\t3267\nArhavi\t4135\t4130\t3267\nHopa\t4139\t4142\t3267\nDidim\t3738\t2726\t3268\nÇine\t3761\t2806\t3268\nSöke\t3775\t2741\t3268\nİncirliova\t3785\t2772\t3268\nAydın\t3785\t2784\t3268\nKuşadası\t3786\t2726\t3268\nNazilli\t3792\t2832\t3268\nPatnos\t3922\t4286\t3269\nDiyadin\t3954\t4367\t3269\nDoğubayazıt\t3955\t4408\t3269\nAğrı\t3972\t4305\t3269\nEleşkirt\t3980\t4268\t3269\nAyvalık\t3932\t2669\t3270\nBigadiç\t3939\t2813\t3270\nBurhaniye\t3950\t2697\t3270\nDursunbey\t3959\t2863\t3270\nEdremit\t3960\t2702\t3270\nBalıkesir\t3965\t2789\t3270\nSusurluk\t3991\t2816\t3270\nGönen\t4010\t2765\t3270\nBandırma\t4035\t2798\t3270\nErdek\t4040\t2779\t3270\nBartın\t4164\t3234\t3271\nBatman\t3789\t4113\t3272\nKozluk\t3819\t4148\t3272\nBayburt\t4026\t4022\t3273\nBozüyük\t3991\t3004\t3274\nBilecik\t4014\t2998\t3274\nOsmaneli\t4036\t3001\t3274\nGenç\t3875\t4055\t3275\nBingöl\t3888\t4049\t3275\nSolhan\t3897\t4105\t3275\nHizan\t3822\t4242\t3276\nBitlis\t3840\t4211\t3276\nTatvan\t3849\t4228\t3276\nGüroymak\t3858\t4202\t3276\nAhlat\t3875\t4248\t3276\nAdilcevaz\t3880\t4273\t3276\nBolu\t4074\t3161\t3277\nGerede\t4080\t3220\t3277\nBucak\t3746\t3060\t3278\nBurdur\t3772\t3029\t3278\nMustafakemalpaşa\t4004\t2841\t3279\nİnegol\t4008\t2951\t3279\nBursa\t4020\t2906\t3279\nKestel\t4020\t2921\t3279\nKaracabey\t4021\t2836\t3279\nGürsu\t4022\t2919\t3279\nYenişehir\t4026\t2965\t3279\nMudanya\t4038\t2888\t3279\nGemlik\t4043\t2916\t3279\nİznik\t4043\t2972\t3279\nOrhangazi\t4049\t2931\t3279\nEzine\t3979\t2634\t3280\nÇan\t4003\t2705\t3280\nÇanakkale\t4016\t2641\t3280\nBiga\t4023\t2724\t3280\nGelibolu\t4041\t2667\t3280\nSerinhisar\t3758\t2927\t3281\nDenizli\t3777\t2909\t3281\nMerkezefendi\t3781\t2904\t3281\nSarayköy\t3792\t2893\t3281\nBismil\t3785\t4066\t3282\nDiyarbakır\t3791\t4022\t3282\nÇermik\t3814\t3945\t3282\nSilvan\t3814\t4101\t3282\nErgani\t3827\t3975\t3282\nLice\t3846\t4064\t3282\nKulp\t3850\t4101\t3282\nDüzce\t4084\t3116\t3283\nAkçakoca\t4109\t3112\t3283\nKeşan\t4086\t2663\t3284\nUzunköprü\t4127\t2669\t3284\nEdirne\t4168\t2656\t3284\nBaskil\t3857\t3882\t3285\nElazığ\t3867\t3922\t3285\nKovancılar\t3872\t3986\t3285\nKarakoçan\t3895\t4003\t3285\nCimin\t3971\t3970\t3286\nErzincan\t3974\t3949\t3286\nKaraçoban\t3934\t4210\t3287\nHınıs\t3936\t4169\t3287\nErzurum\t3991\t4128\t3287\nAşkale\t3992\t4070\t3287\nPasinler\t3998\t4167\t3287\nHorasan\t4004\t4216\t3287\nOltu\t4054\t4199\t3287\nEskişehir\t3978\t3052\t3288\nNizip\t3701\t3779\t3289\nGaziantep\t3706\t3738\t3289\nŞebin Karahisar\t4029\t3842\t3290\nGiresun\t4092\t3839\t3290\nBulancak\t4094\t3823\t3290\nEspiye\t4095\t3870\t3290\nTirebolu\t4101\t3881\t3290\nGörele\t4103\t3900\t3290\nKelkit\t4013\t3943\t3291\nGumushkhane\t4046\t3947\t3291\nŞemdinli\t3731\t4457\t3292\nHakkâri\t3757\t4374\t3292\nYüksekova\t3757\t4429\t3292\nAntakya\t3621\t3616\t3293\nReyhanlı\t3627\t3657\t3293\nSerinyol\t3636\t3621\t3293\nBelen\t3649\t3619\t3293\nKırıkhan\t3650\t3636\t3293\nİskenderun\t3659\t3617\t3293\nDenizciler\t3664\t3621\t3293\nDörtyol\t3684\t3623\t3293\nErzin\t3695\t3620\t3293\nIsparta\t3776\t3055\t3294\nEğirdir\t3787\t3085\t3294\nŞarkîkaraağaç\t3808\t3137\t3294\nSenirkent\t3810\t3055\t3294\nYalvaç\t3830\t3118\t3294\nMaltepe\t4094\t2916\t3295\nSultanbeyli\t4096\t2927\t3295\nBeylikdüzü\t4098\t2864\t3295\nAtaşehir\t4098\t2912\t3295\nGürpınar\t4099\t2861\t3295\nYakuplu\t4099\t2868\t3295\nZeytinburnu\t4099\t2890\t3295\nBahçelievler\t4100\t2886\t3295\nSancaktepe\t4100\t2923\t3295\nIstanbul\t4101\t2895\t3295\nMimarsinan\t4102\t2856\t3295\nBüyükçekmece\t4102\t2859\t3295\nÜsküdar\t4102\t2901\t3295\nUmraniye\t4102\t2912\t3295\nTepecik\t4103\t2855\t3295\nEsenyurt\t4103\t2868\t3295\nBağcılar\t4104\t2886\t3295\nEsenler\t4104\t2888\t3295\nŞişli\t4106\t2899\t3295\nSilivri\t4107\t2825\t3295\nKavaklı\t4109\t2833\t3295\nBaşakşehir\t4109\t2880\t3295\nSultangazi\t4111\t2887\t3295\nÇatalca\t4114\t2846\t3295\nArnavutköy\t4118\t2874\t3295\nIğdır\t3992\t4405\t3296\nPazarcık\t3749\t3730\t3297\nKahramanmaraş\t3758\t3693\t3297\nÇağlayancerit\t3775\t3729\t3297\nGöksun\t3802\t3650\t3297\nElbistan\t3821\t3720\t3297\nAfşin\t3825\t3691\t3297\nKarabük\t4120\t3263\t3298\nSafranbolu\t4125\t3269\t3298\nErmenek\t3664\t3289\t3299\nKaraman\t3718\t3322\t3299\nKağızman\t4016\t4313\t3300\nSarıkamış\t4033\t4259\t3300\nKars\t4060\t4309\t3300\nTosya\t4102\t3404\t3301\nKastamonu\t4138\t3378\t3301\nTaşköprü\t4151\t3421\t3301\nYahyalı\t3810\t3536\t3302\nDeveli\t3839\t3549\t3302\nHacılar\t3865\t3545\t3302\nTalas\t3869\t3555\t3302\nKayseri\t3873\t3549\t3302\nKilis\t3672\t3712\t3303\nKaramürsel\t4069\t2962\t3304\nGölcük\t4070\t2987\t3304\nDerince\t4076\t2981\t3304\nİzmit\t4076\t2993\t3304\nKörfez\t4077\t2978\t3304\nGebze\t4080\t2943\t3304\nHadim\t3699\t3246\t3305\nSeydişehir\t3742\t3185\t3305\nEreğli\t3751\t3405\t3305\nÇumra\t3757\t3277\t3305\nBeyşehir\t3768\t3172\t3305\nKarapınar\t3772\t3355\t3305\nKonya\t3787\t3248\t3305\nKadınhanı\t3824\t3221\t3305\nIlgın\t3828\t3191\t3305\nAkşehir\t3836\t3142\t3305\nKulu\t3910\t3308\t3305\nGediz\t3899\t2939\t3306\nSimav\t3909\t2898\t3306\nEmet\t3934\t2926\t3306\nKütahya\t3942\t2998\t3306\nTavşanlı\t3954\t2950\t3306\nLüleburgaz\t4140\t2736\t3307\nBabaeski\t4143\t2709\t3307\nKırklareli\t4174\t2723\t3307\nKeskin\t3967\t3361\t3308\nKırıkkale\t3985\t3351\t3308\nMucur\t3906\t3438\t3309\nKırşehir\t3915\t3416\t3309\nKaman\t3936\t3372\t3309\nMalatya\t3835\t3832\t3310\nDarende\t3855\t3751\t3310\nAlaşehir\t3835\t2852\t3311\nSalihli\t3848\t2815\t3311\nTurgutlu\t3850\t2770\t3311\nKula\t3855\t2865\t3311\nManisa\t3861\t2743\t3311\nAkhisar\t3892\t2784\t3311\nDemirci\t3905\t2866\t3311\nKırkağaç\t3911\t2767\t3311\nSoma\t3919\t2761\t3311\nNusaybin\t3707\t4121\t3312\nKızıltepe\t3719\t4058\t3312\nMardin\t3731\t4074\t3312\nYeşilli\t3734\t4082\t3312\nMidyat\t3742\t4134\t3312\nDargeçit\t3755\t4172\t3312\nAnamur\t3608\t3284\t3313\nBozyazı\t3611\t3296\t3313\nSilifke\t3638\t3393\t3313\nErdemli\t3660\t3431\t3313\nMut\t3664\t3344\t3313\nMersin\t3681\t3464\t3313\nTarsus\t3692\t3489\t3313\nFethiye\t3664\t2913\t3314\nSarigerme\t3672\t2870\t3314\nDalaman\t3677\t2880\t3314\nOrtaca\t3684\t2876\t3314\nMarmaris\t3685\t2827\t3314\nTurgutreis\t3702\t2727\t3314\nBodrum\t3704\t2743\t3314\nMuğla\t3722\t2837\t3314\nMilas\t3732\t2778\t3314\nYatağan\t3734\t2814\t3314\nMuş\t3873\t4148\t3315\nBulanık\t3909\t4227\t3315\nMalazgirt\t3915\t4254\t3315\nVarto\t3917\t4145\t3315\nNevşehir\t3863\t3471\t3316\nÜrgüp\t3863\t3491\t3316\nBor\t3789\t3456\t3317\nNiğde\t3797\t3468\t3317\nGürgentepe\t4079\t3759\t3318\nKorgan\t4082\t3735\t3318\nKumru\t4087\t3726\t3318\nOrdu\t4098\t3789\t3318\nFatsa\t4103\t3750\t3318\nÜnye\t4113\t3728\t3318\nOsmaniye\t3707\t3625\t3319\nKadirli\t3737\t3610\t3319\nRize\t4102\t4052\t3320\nÇayeli\t4109\t4072\t3320\nArdeşen\t4119\t4099\t3320\nGeyve\t4051\t3029\t3321\nSapanca\t4069\t3027\t3321\nAkyazı\t4069\t3062\t3321\nAdapazarı\t4078\t3040\t3321\nHendek\t4080\t3075\t3321\nFerizli\t4094\t3049\t3321\nKocaali\t4105\t3085\t3321\nKarasu Mahallesi\t4107\t3079\t3321\nKarasu\t4110\t3070\t3321\nHavza\t4097\t3566\t3322\nVezirköprü\t4114\t3545\t3322\nÇarşamba\t4120\t3672\t3322\nTekkeköy\t4121\t3646\t3322\nTerme\t4121\t3697\t3322\nSamsun\t4128\t3634\t3322\nBafra\t4157\t3591\t3322\nKurtalan\t3793\t4168\t3323\nSiirt\t3793\t4194\t3323\nBoyabat\t4147\t3477\t3324\nSinop\t4203\t3516\t3324\nGemerek\t3918\t3607\t3325\nŞarkışla\t3935\t3641\t3325\nSivas\t3975\t3702\t3325\nSuşehri\t4016\t3808\t3325\nMalkara\t4089\t2690\t3326\nTekirdağ\t4098\t2751\t3326\nÇorlu\t4116\t2780\t3326\nHayrabolu\t4121\t2711\t3326\nÇerkezköy\t4129\t2800\t3326\nZile\t4030\t3589\t3327\nTokat\t4031\t3655\t3327\nTurhal\t4039\t3608\t3327\nNiksar\t4059\t3695\t3327\nErbaa\t4067\t3657\t3327\nSürmene\t4091\t4013\t3328\nAraklı\t4094\t4006\t3328\nOf\t4094\t4026\t3328\nYomra\t4095\t3986\t3328\nArsin\t4095\t3993\t3328\nTrabzon\t4101\t3973\t3328\nAkçaabat\t4102\t3957\t3328\nBeşikdüzü\t4105\t3923\t3328\nVakfıkebir\t4105\t3928\t3328\nTunceli\t3910\t3954\t3329\nUşak\t3867\t2941\t3330\nBanaz\t3874\t2975\t3330\nVan\t3849\t4338\t3331\nErciş\t3903\t4336\t3331\nYalova\t4066\t2928\t3332\nYerköy\t3964\t3447\t3333\nAkdağmadeni\t3966\t3588\t3333\nSorgun\t3981\t3519\t3333\nYozgat\t3982\t3480\t3333\nAlaplı\t4118\t3139\t3334\nDevrek\t4122\t3196\t3334\nEreğli\t4128\t3142\t3334\nÇaycuma\t4143\t3208\t3334\nZonguldak\t4145\t3179\t3334\nKhanjarah\t4060\t3362\t3335\nÇerkeş\t4081\t3289\t3335\nSungurlu\t4017\t3437\t3336\nAlaca\t4017\t3484\t3336\nÇorum\t4055\t3495\t3336\nİskilip\t4074\t3447\t3336\nOsmancık\t4098\t3480\t3336\nSelçuk\t3795\t2737\t3337\nTire\t3809\t2774\t3337\nTorbalı\t3815\t2736\t3337\nSeferihisar\t3820\t2684\t3337\nBayındır\t3822\t2765\t3337\nÖdemiş\t3823\t2797\t3337\nMenderes\t3825\t2713\t3337\nUrla\t3832\t2676\t3337\nÇeşme\t3833\t2631\t3337\nKarabağlar\t3837\t2714\t3337\nİzmir\t3841\t2714\t3337\nKemalpaşa\t3843\t2742\t3337\nMenemen\t3861\t2707\t3337\nFoça\t3867\t2676\t3337\nAliağa\t3880\t2697\t3337\nBergama\t3912\t2718\t3337\nAkçakale\t3671\t3895\t3338\nCeylanpınar\t3685\t4005\t3338\nSuruç\t3698\t3843\t3338\nBirecik\t3703\t3798\t3338\nŞanlıurfa\t3717\t3879\t3338\nViranşehir\t3722\t3976\t3338\nBozova\t3736\t3853\t3338\nHilvan\t3759\t3896\t3338\nSiverek\t3776\t3932\t3338\nSilopi\t3724\t4246\t3339\nİdil\t3733\t4189\t3339\nCizre\t3733\t4218\t3339\nŞırnak\t3751\t4245\t3339\nArima\t1064\t-6128\t3340\nChaguanas\t1052\t-6142\t3341\nCouva\t1042\t-6147\t3342\nDiego Martin\t1072\t-6157\t3343\nRio Claro\t1031\t-6118\t3344\nPeñal\t1017\t-6147\t3345\nPoint Fortin\t1017\t-6168\t3346\nPort of Spain\t1067\t-6152\t3347\nPrinces Town\t1027\t-6137\t3348\nSan Fernando\t1028\t-6147\t3349\nMon Repos\t1028\t-6145\t3349\nMarabella\t1031\t-6145\t3349\nLaventille\t1065\t-6150\t3350\nSangre Grande\t1059\t-6113\t3351\nSiparia\t1015\t-6151\t3352\nScarborough\t1118\t-6074\t3353\nTunapuna\t1065\t-6139\t3354\nParadise\t1065\t-6136\t3354\nFunafuti\t-852\t17919\t3355\nToga Village\t-629\t17631\t3356\nKulia Village\t-611\t17733\t3357\nTanrake Village\t-725\t17715\t3358\nSavave Village\t-803\t17831\t3359\nAsau Village\t-749\t17868\t3360\nJincheng\t2443\t11832\t3361\nBanqiao\t2501\t12147\t3362\nHengchun\t2200\t12074\t3363\nDonggang\t2247\t12045\t3363\nTaitung City\t2276\t12114\t3363\nTainan\t2299\t12021\t3363\nYujing\t2312\t12046\t3363\nMagong\t2357\t11959\t3363\nDouliu\t2371\t12054\t3363\nLugu\t2375\t12075\t3363\nNantou\t2392\t12066\t3363\nYuanlin\t2396\t12058\t3363\nZhongxing New Village\t2396\t12069\t3363\nPuli\t2397\t12097\t3363\nHualien City\t2398\t12160\t3363\nTaichung\t2415\t12068\t3363\nYilan\t2476\t12175\t3363\nHsinchu\t2480\t12097\t3363\nDaxi\t2488\t12129\t3363\nTaoyuan City\t2499\t12130\t3363\nTaipei\t2505\t12153\t3363\nKeelung\t2513\t12174\t3363\nKaohsiung\t2262\t12031\t3364\nMbuguni\t-357\t3695\t3365\nMerelani\t-356\t3698\t3365\nArusha\t-337\t3668\t3365\nUsa River\t-337\t3685\t3365\nMto wa Mbu\t-335\t3585\t3365\nKiratu\t-333\t3567\t3365\nKingori\t-328\t3698\t3365\nDar es Salaam\t-682\t3927\t3366\nKibakwe\t-672\t3637\t3367\nMpwapwa\t-635\t3648\t3367\nDodoma\t-617\t3574\t3367\nKondoa\t-490\t3578\t3367\nMasumbwe\t-363\t3218\t3368\nUshirombo\t-349\t3196\t3368\nUyovu\t-328\t3153\t3368\nBuseresere\t-302\t3187\t3368\nKatoro\t-302\t3190\t3368\nGeita\t-287\t3223\t3368\nKasamwa\t-285\t3243\t3368\nChato\t-264\t3177\t3368\nIringa\t-777\t3570\t3369\nIlula\t-768\t3604\t3369\nMafinga\t-725\t3507\t3369\nIzazi\t-720\t3573\t3369\nBugarama\t-287\t3053\t3370\nRulenge\t-272\t3063\t3370\nKabanga\t-264\t3047\t3370\nBiharamulo\t-263\t3131\t3370\nNgara\t-251\t3066\t3370\nNshamba\t-180\t3155\t3370\nKamachumu\t-162\t3162\t3370\nKaterero\t-140\t3173\t3370\nBukoba\t-133\t3181\t3370\nNsunga\t-114\t3139\t3370\nUsevia\t-710\t3123\t3371\nMpanda\t-634\t3107\t3371\nNguruka\t-511\t3104\t3372\nUvinza\t-510\t3039\t3372\nKigoma\t-488\t2963\t3372\nMwandiga\t-483\t2966\t3372\nKasulu\t-458\t3010\t3372\nKibondo\t-359\t3072\t3372\nKakonko\t-328\t3096\t3372\nHedaru\t-450\t3790\t3373\nSame\t-407\t3773\t3373\nLembeni\t-378\t3762\t3373\nMoshi\t-335\t3733\t3373\nNachingwea\t-1037\t3876\t3374\nNyangao\t-1033\t3928\t3374\nLindi\t-1000\t3972\t3374\nLiwale\t-977\t3793\t3374\nNangwa\t-447\t3545\t3375\nBasotu\t-437\t3508\t3375\nGalappo\t-427\t3585\t3375\nBashanet\t-423\t3542\t3375\nDareda\t-422\t3555\t3375\nBabati\t-422\t3575\t3375\nDongobesh\t-407\t3538\t3375\nMagugu\t-402\t3577\t3375\nKibara\t-215\t3345\t3376\nBunda\t-205\t3387\t3376\nMuriti\t-198\t3292\t3376\nNyamuswa\t-190\t3402\t3376\nMugumu\t-185\t3470\t3376\nButiama\t-177\t3397\t3376\nMusoma\t-150\t3380\t3376\nTarime\t-135\t3437\t3376\nSirari\t-125\t3448\t3376\nKyela\t-958\t3385\t3377\nIpinda\t-948\t3390\t3377\nTukuyu\t-925\t3365\t3377\nKatumba\t-923\t3362\t3377\nKiwira\t-917\t3354\t3377\nMbeya\t-890\t3345\t3377\nChimala\t-886\t3402\t3377\nIgurusi\t-885\t3385\t3377\nRujewa\t-870\t3438\t3377\nMalinyi\t-893\t3613\t3378\nMlimba\t-880\t3582\t3378\nIfakara\t-813\t3668\t3378\nKidatu\t-770\t3696\t3378\nKidodi\t-760\t3700\t3378\nMikumi\t-740\t3698\t3378\nKilosa\t-683\t3698\t3378\nMorogoro\t-682\t3766\t3378\nNgerengere\t-675\t3812\t3378\nMsowero\t-653\t3720\t3378\nMagole\t-638\t3737\t3378\nGeiro\t-615\t3687\t3378\nNewala Kisimani\t-1095\t3928\t3379\nNangomba\t-1090\t3850\t3379\nLuchingu\t-1090\t3933\t3379\nTandahimba\t-1075\t3963\t3379\nMasasi\t-1072\t3880\t3379\nKitama\t-1072\t3973\t3379\nNanyamba\t-1068\t3983\t3379\nLukuledi\t-1057\t3880\t3379\nNanganga\t-1038\t3915\t3379\nMtwara\t-1027\t4018\t3379\nNgudu\t-297\t3333\t3380\nMisungwi\t-285\t3308\t3380\nUsagara\t-268\t3300\t3380\nKihangara\t-258\t3335\t3380\nMwanza\t-252\t3290\t3380\nMlangali\t-978\t3452\t3381\nNjombe\t-935\t3477\t3381\nMtwango\t-902\t3480\t3381\nIlembula\t-890\t3458\t3381\nMakumbako\t-885\t3483\t3381\nWete\t-506\t3973\t3382\nChake Chake\t-525\t3977\t3383\nKibiti\t-772\t3894\t3384\nBungu\t-763\t3906\t3384\nMkuranga\t-712\t3921\t3384\nVikindu\t-701\t3930\t3384\nKibaha\t-677\t3892\t3384\nMlandizi\t-670\t3873\t3384\nChalinze\t-664\t3835\t3384\nLugoba\t-645\t3833\t3384\nBagamoyo\t-644\t3890\t3384\nMvomero\t-625\t3867\t3384\nLaela\t-857\t3205\t3385\nMatai\t-830\t3152\t3385\nSumbawanga\t-797\t3162\t3385\nChala\t-758\t3127\t3385\nNamanyere\t-752\t3105\t3385\nKirando\t-742\t3060\t3385\nTingi\t-1130\t3503\t3386\nMbinga\t-1093\t3502\t3386\nKigonsera\t-1080\t3505\t3386\nMatiri\t-1075\t3490\t3386\nSongea\t-1068\t3565\t3386\nMaposeni\t-1058\t3540\t3386\nMahanje\t-993\t3533\t3386\nIsaka\t-390\t3293\t3387\nTinde\t-388\t3320\t3387\nKahama\t-383\t3260\t3387\nShinyanga\t-366\t3342\t3387\nKishapu\t-362\t3387\t3387\nOld Shinyanga\t-355\t3340\t3387\nMwadui\t-355\t3360\t3387\nSongwa\t-352\t3352\t3387\nMhango\t-328\t3285\t3387\nLalago\t-345\t3395\t3388\nSomanda\t-337\t3395\t3388\nNyalikungu\t-318\t3378\t3388\nMalampaka\t-313\t3353\t3388\nKisesa\t-308\t3415\t3388\nBariadi\t-280\t3398\t3388\nMaswa\t-268\t3398\t3388\nNyakabindi\t-263\t3398\t3388\nMgandu\t-595\t3413\t3389\nItigi\t-570\t3448\t3389\nIkungi\t-513\t3477\t3389\nPuma\t-500\t3473\t3389\nMungaa\t-497\t3488\t3389\nSingida\t-482\t3474\t3389\nSepuka\t-475\t3453\t3389\nIlongero\t-467\t3487\t3389\nIgugunu\t-457\t3463\t3389\nMtinko\t-455\t3485\t3389\nShelui\t-437\t3420\t3389\nKiomboi\t-427\t3437\t3389\nTunduma\t-930\t3277\t3390\nVwawa\t-911\t3293\t3390\nMlowo\t-900\t3298\t3390\nSikonge\t-563\t3277\t3391\nMabama\t-513\t3253\t3391\nUrambo\t-507\t3205\t3391\nTumbi\t-507\t3273\t3391\nTabora\t-502\t3283\t3391\nIgunga\t-428\t3388\t3391\nNzega\t-422\t3318\t3391\nChanika\t-542\t3802\t3392\nMuheza\t-517\t3878\t3392\nTanga\t-507\t3910\t3392\nMaramba\t-505\t3862\t3392\nMlalo\t-493\t3893\t3392\nMazinde\t-480\t3822\t3392\nMatui\t-480\t3825\t3392\nLushoto\t-478\t3828\t3392\nMakuyuni\t-473\t3810\t3392\nSokoni\t-643\t3955\t3393\nKoani\t-613\t3928\t3393\nMkokotoni\t-588\t3926\t3394\nZanzibar\t-616\t3920\t3395\nUman\t4875\t3022\t3396\nTalne\t4889\t3069\t3396\nShpola\t4901\t3139\t3396\nVatutine\t4902\t3106\t3396\nZvenihorodka\t4908\t3097\t3396\nSmila\t4922\t3189\t3396\nZhashkiv\t4925\t3011\t3396\nHorodyshche\t4928\t3145\t3396\nKorsun-Shevchenkivskyi\t4942\t3126\t3396\nCherkasy\t4943\t3206\t3396\nZolotonosha\t4967\t3204\t3396\nKaniv\t4975\t3146\t3396\nPryluky\t5059\t3239\t3397\nNosivka\t5093\t3158\t3397\nNizhyn\t5105\t3189\t3397\nBakhmach\t5118\t3283\t3397\nChernihiv\t5151\t3128\t3397\nChernivtsi\t4829\t2594\t3398\nYalta\t4450\t3417\t3399\nAlushta\t4468\t3441\t3399\nBakhchysarai\t4476\t3386\t3399\nSudak\t4485\t3497\t3399\nSimferopol\t4496\t3411\t3399\nFeodosiya\t4503\t3538\t3399\nBilohirsk\t4505\t3460\t3399\nSaki\t4513\t3360\t3399\nYevpatoriya\t4520\t3337\t3399\nKerch\t4536\t3648\t3399\nDzhankoy\t4571\t3439\t3399\nYany Kapu\t4596\t3379\t3399\nArmyansk\t4611\t3369\t3399\nNikopol\t4757\t3440\t3400\nMarhanets’\t4764\t3463\t3400\nApostolove\t4766\t3371\t3400\nKryvyi Rih\t4791\t3338\t3400\nSynel’nykove\t4832\t3552\t3400\nZhovti Vody\t4834\t3350\t3400\nPiatykhatky\t4841\t3371\t3400\nDnipro\t4846\t3504\t3400\nKamianske\t4851\t3460\t3400\nPavlohrad\t4853\t3587\t3400\nPidhorodne\t4858\t3511\t3400\nNovomoskovs’k\t4864\t3525\t3400\nMariupol\t4710\t3754\t3401\nVolnovakha\t4760\t3750\t3401\nDokuchayevs’k\t4775\t3768\t3401\nAmvrosiyivka\t4779\t3848\t3401\nIlovays’k\t4792\t3820\t3401\nKurakhovo\t4799\t3728\t3401\nZuhres\t4801\t3826\t3401\nDonetsk\t4802\t3780\t3401\nSnizhne\t4803\t3877\t3401\nKhartsyz’k\t4804\t3815\t3401\nChystyakove\t4804\t3860\t3401\nMakiyivka\t4805\t3793\t3401\nShakhtars’k\t4806\t3844\t3401\nYasynuvata\t4813\t3786\t3401\nAvdiyivka\t4814\t3774\t3401\nSelydove\t4815\t3730\t3401\nYenakiyeve\t4823\t3821\t3401\nPokrovsk\t4828\t3718\t3401\nMyrnohrad\t4831\t3726\t3401\nHorlivka\t4834\t3805\t3401\nDebal’tseve\t4834\t3840\t3401\nToretsk\t4840\t3785\t3401\nDobropillya\t4846\t3709\t3401\nKostyantynivka\t4853\t3771\t3401\nBakhmut\t4859\t3800\t3401\nDruzhkivka\t4863\t3755\t3401\nKramators’k\t4872\t3756\t3401\nSloviansk\t4887\t3762\t3401\nLyman\t4899\t3780\t3401\nKolomyia\t4853\t2504\t3402\nNadvirna\t4863\t2457\t3402\nIvano-Frankivsk\t4892\t2471\t3402\nDolyna\t4897\t2401\t3402\nKalush\t4901\t2437\t3402\nLozova\t4889\t3632\t3403\nIzyum\t4921\t3725\t3403\nKrasnohrad\t4938\t3544\t3403\nPervomays’kyy\t4939\t3621\t3403\nBalakliya\t4946\t3686\t3403\nSlobozhans’ke\t4960\t3653\t3403\nKivsharivka\t4963\t3769\t3403\nZmiyiv\t4967\t3635\t3403\nKupjansk\t4971\t3762\t3403\nMerefa\t4982\t3605\t3403\nChuhuyiv\t4984\t3669\t3403\nLyubotyn\t4995\t3593\t3403\nKharkiv\t4998\t3625\t3403\nDerhachi\t5011\t3612\t3403\nBohodukhiv\t5016\t3553\t3403\nVovchans’k\t5029\t3694\t3403\nSkadovs’k\t4612\t3291\t3404\nHeniches’k\t4618\t3480\t3404\nHola Prystan’\t4653\t3252\t3404\nTsyurupyns’k\t4662\t3272\t3404\nKherson\t4666\t3262\t3404\nNova Kakhovka\t4675\t3335\t3404\nKakhovka\t4681\t3349\t3404\nKamianets-Podilskyi\t4868\t2659\t3405\nDunaivtsi\t4889\t2686\t3405\nHorodok\t4916\t2658\t3405\nKhmelnytskyi\t4942\t2700\t3405\nKrasyliv\t4965\t2697\t3405\nStarokostiantyniv\t4976\t2720\t3405\nIzyaslav\t5012\t2682\t3405\nPolonne\t5012\t2751\t3405\nShepetivka\t5019\t2706\t3405\nSlavuta\t5030\t2687\t3405\nNetishyn\t5034\t2664\t3405\nDolyns'ka\t4811\t3276\t3406\nNovoukrayinka\t4833\t3153\t3406\nHayvoron\t4834\t2987\t3406\nKropyvnytskyi\t4851\t3226\t3406\nOleksandriya\t4867\t3312\t3406\nZnomenka\t4871\t3266\t3406\nSvitlovods’k\t4905\t3324\t3406\nKyiv\t5045\t3052\t3407\nBohuslav\t4955\t3087\t3408\nSkvyra\t4973\t2967\t3408\nBila Tserkva\t4981\t3011\t3408\nPereiaslav-Khmelnytskyi\t5007\t3145\t3408\nFastiv\t5008\t2992\t3408\nObukhiv\t5011\t3062\t3408\nVasylkiv\t5019\t3031\t3408\nYahotyn\t5028\t3176\t3408\nBoyarka\t5032\t3030\t3408\nBoryspil’\t5035\t3096\t3408\nVyshneve\t5039\t3037\t3408\nIrpin\t5052\t3025\t3408\nBrovary\t5052\t3081\t3408\nBucha\t5054\t3021\t3408\nVyshhorod\t5058\t3049\t3408\nSlavutych\t5152\t3072\t3408\nRoven’ky\t4808\t3938\t3409\nChervonopartyzans’k\t4808\t3980\t3409\nSverdlovs’k\t4809\t3965\t3409\nAntratsyt\t4812\t3909\t3409\nKrasnyy Luch\t4814\t3894\t3409\nSorokyne\t4829\t3974\t3409\nMolodohvardiys’k\t4835\t3965\t3409\nLutuhyne\t4841\t3923\t3409\nPereval’s’k\t4844\t3884\t3409\nAlchevs’k\t4847\t3882\t3409\nBryanka\t4851\t3867\t3409\nKadiyivka\t4857\t3864\t3409\nLuhansk\t4857\t3932\t3409\nPopasna\t4863\t3838\t3409\nPervomays’k\t4863\t3855\t3409\nKirovs’k\t4864\t3864\t3409\nLysychans’k\t4890\t3844\t3409\nSyevyerodonets’k\t4895\t3849\t3409\nRubizhne\t4901\t3838\t3409\nKreminna\t4905\t3822\t3409\nStarobil’s’k\t4928\t3891\t3409\nSvatove\t4941\t3815\t3409\nStryi\t4926\t2386\t3410\nTruskavets’\t4928\t2351\t3410\nBoryslav\t4929\t2343\t3410\nStebnyk\t4929\t2356\t3410\nDrohobych\t4935\t2351\t3410\nSambir\t4952\t2320\t3410\nHorodok\t4978\t2365\t3410\nZolochiv\t4981\t2489\t3410\nLviv\t4984\t2402\t3410\nNovoyavorivs'k\t4993\t2357\t3410\nBrody\t5009\t2515\t3410\nChervonohrad\t5039\t2424\t3410\nSokal’\t5047\t2428\t3410\nOchakiv\t4661\t3155\t3411\nMykolayiv\t4697\t3200\t3411\nVoznesensk\t4756\t3133\t3411\nNovyy Buh\t4769\t3252\t3411\nYuzhnoukrains'k\t4782\t3118\t3411\nPervomays’k\t4804\t3085\t3411\nIzmail\t4535\t2884\t3412\nKiliya\t4544\t2926\t3412\nReni\t4545\t2828\t3412\nBolhrad\t4568\t2862\t3412\nBilhorod-Dnistrovskyi\t4619\t3035\t3412\nChornomors’k\t4630\t3065\t3412\nOdessa\t4648\t3073\t3412\nYuzhne\t4662\t3110\t3412\nRozdil’na\t4684\t3008\t3412\nPodilsk\t4775\t2953\t3412\nBalta\t4794\t2962\t3412\nHorishni Plavni\t4901\t3364\t3413\nKremenchuk\t4907\t3342\t3413\nKarlivka\t4946\t3513\t3413\nPoltava\t4959\t3454\t3413\nMyrhorod\t4997\t3361\t3413\nLubny\t5002\t3300\t3413\nPyriatyn\t5024\t3251\t3413\nHadyach\t5037\t3399\t3413\nDubno\t5042\t2573\t3414\nZdolbuniv\t5052\t2624\t3414\nRivne\t5062\t2623\t3414\nKostopil’\t5088\t2645\t3414\nSarny\t5134\t2660\t3414\nVarash\t5135\t2585\t3414\nBalaklava\t4451\t3360\t3415\nSevastopol\t4461\t3352\t3415\nOkhtyrka\t5031\t3490\t3416\nLebedyn\t5059\t3448\t3416\nRomny\t5075\t3347\t3416\nSumy\t5092\t3480\t3416\nBilopillya\t5115\t3431\t3416\nKonotop\t5124\t3320\t3416\nPutyvl’\t5134\t3387\t3416\nKrolevets’\t5155\t3338\t3416\nHlukhiv\t5168\t3392\t3416\nShostka\t5186\t3347\t3416\nChortkiv\t4902\t2580\t3417\nБережани\t4945\t2493\t3417\nTernopil\t4955\t2559\t3417\nKremenets\t5010\t2572\t3417\nMohyliv-Podilskyi\t4845\t2780\t3418\nTulchyn\t4867\t2885\t3418\nLadyzhyn\t4868\t2924\t3418\nHaisyn\t4881\t2939\t3418\nZhmerynka\t4904\t2811\t3418\nBar\t4908\t2768\t3418\nVinnytsia\t4923\t2848\t3418\nKalynivka\t4945\t2853\t3418\nKhmilnyk\t4956\t2796\t3418\nKozyatyn\t4971\t2883\t3418\nNovovolyns’k\t5073\t2416\t3419\nLutsk\t5076\t2534\t3419\nKivertsi\t5083\t2546\t3419\nVolodymyr-Volynskyi\t5085\t2432\t3419\nKovel\t5122\t2471\t3419\nVynohradiv\t4814\t2303\t3420\nKhust\t4818\t2330\t3420\nBerehove\t4821\t2264\t3420\nMukacheve\t4844\t2272\t3420\nSvalyava\t4855\t2300\t3420\nUzhgorod\t4862\t2230\t3420\nBerdyansk\t4677\t3680\t3421\nMelitopol\t4685\t3537\t3421\nTokmak\t4726\t3571\t3421\nDniprorudne\t4738\t3498\t3421\nVasylivka\t4744\t3527\t3421\nPolohy\t4748\t3625\t3421\nEnergodar\t4750\t3466\t3421\nOrikhiv\t4757\t3579\t3421\nHulyaypole\t4766\t3626\t3421\nZaporizhia\t4782\t3519\t3421\nBerdychiv\t4990\t2860\t3422\nZhytomyr\t5026\t2868\t3422\nKorostyshiv\t5032\t2906\t3422\nRadomyshl\t5050\t2923\t3422\nNovohrad-Volynskyi\t5059\t2762\t3422\nMalyn\t5077\t2924\t3422\nKorosten’\t5096\t2864\t3422\nOvruch\t5132\t2880\t3422\nKasaali\t-62\t3155\t3423\nMasaka\t-33\t3173\t3423\nEntebbe\t6\t3248\t3423\nKampala\t32\t3258\t3423\nKireka\t35\t3265\t3423\nMukono\t35\t3276\t3423\nLugazi\t37\t3294\t3423\nWakiso\t40\t3246\t3423\nMityana\t42\t3202\t3423\nNjeru\t44\t3318\t3423\nMubende\t56\t3139\t3423\nNamasuba\t69\t3242\t3423\nButalangu\t70\t3225\t3423\nKayunga\t70\t3289\t3423\nWobulenzi\t73\t3251\t3423\nLuwero\t85\t3247\t3423\nJinja\t44\t3320\t3424\nBusia\t47\t3409\t3424\nBugiri\t57\t3374\t3424\nIganga\t61\t3347\t3424\nBuwenge\t65\t3317\t3424\nTororo\t69\t3418\t3424\nBusembatia\t78\t3362\t3424\nMbale\t108\t3418\t3424\nPallisa\t115\t3371\t3424\nSoroti\t171\t3361\t3424\nLira\t225\t3290\t3425\nPaidha\t242\t3099\t3425\nNebbi\t248\t3109\t3425\nGulu\t277\t3230\t3425\nKotido\t298\t3413\t3425\nArua\t302\t3091\t3425\nKitgum\t328\t3289\t3425\nAdjumani\t338\t3179\t3425\nYumbe\t347\t3125\t3425\nMoyo\t366\t3172\t3425\nKabale\t-125\t2999\t3426\nNyachera\t-90\t3042\t3426\nNtungamo\t-88\t2965\t3426\nNtungamo\t-88\t3026\t3426\nMbarara\t-60\t3065\t3426\nBwizibwera\t-59\t3063\t3426\nIbanda\t-13\t3050\t3426\nKasese\t18\t3008\t3426\nKamwenge\t19\t3045\t3426\nKyenjojo\t63\t3062\t3426\nFort Portal\t66\t3027\t3426\nBundibugyo\t71\t3006\t3426\nHoima\t143\t3135\t3426\nMasindi\t167\t3172\t3426\nFoley\t3041\t-8768\t3427\nFairhope\t3052\t-8790\t3427\nTillmans Corner\t3059\t-8817\t3427\nDaphne\t3060\t-8790\t3427\nMobile\t3069\t-8804\t3427\nPrichard\t3074\t-8808\t3427\nDothan\t3122\t-8539\t3427\nEnterprise\t3132\t-8586\t3427\nTroy\t3181\t-8597\t3427\nMontgomery\t3237\t-8630\t3427\nSelma\t3241\t-8702\t3427\nPrattville\t3246\t-8646\t3427\nPhenix City\t3247\t-8500\t3427\nMillbrook\t3248\t-8636\t3427\nAuburn\t3261\t-8548\t3427\nOpelika\t3265\t-8538\t3427\nTuscaloosa\t3321\t-8757\t3427\nNorthport\t3323\t-8758\t3427\nAlabaster\t3324\t-8682\t3427\nPelham\t3329\t-8681\t3427\nHelena\t3330\t-8684\t3427\nBessemer\t3340\t-8695\t3427\nHoover\t3341\t-8681\t3427\nTalladega\t3344\t-8611\t3427\nHueytown\t3345\t-8700\t3427\nVestavia Hills\t3345\t-8679\t3427\nHomewood\t3347\t-8680\t3427\nMountain Brook\t3350\t-8675\t3427\nBirmingham\t3352\t-8680\t3427\nOxford\t3361\t-8583\t3427\nTrussville\t3362\t-8661\t3427\nCenter Point\t3365\t-8668\t3427\nAnniston\t3366\t-8583\t3427\nDixiana\t3374\t-8665\t3427\nGadsden\t3401\t-8601\t3427\nCullman\t3417\t-8684\t3427\nAlbertville\t3427\t-8621\t3427\nDecatur\t3461\t-8698\t3427\nMadison\t3470\t-8675\t3427\nHuntsville\t3473\t-8659\t3427\nFlorence\t3480\t-8768\t3427\nAthens\t3480\t-8697\t3427\nEast Florence\t3481\t-8765\t3427\nJuneau\t5830\t-13442\t3428\nAnchorage\t6122\t-14990\t3428\nEagle River\t6132\t-14957\t3428\nBadger\t6480\t-14753\t3428\nFairbanks\t6484\t-14772\t3428\nNogales\t3134\t-11093\t3429\nDouglas\t3134\t-10955\t3429\nRio Rico\t3147\t-11098\t3429\nSierra Vista\t3155\t-11030\t3429\nGreen Valley\t3185\t-11099\t3429\nSahuarita\t3196\t-11096\t3429\nDrexel Heights\t3214\t-11103\t3429\nTucson\t3222\t-11093\t3429\nTanque Verde\t3225\t-11074\t3429\nFlowing Wells\t3229\t-11101\t3429\nCatalina Foothills\t3230\t-11092\t3429\nCasas Adobes\t3232\t-11100\t3429\nOro Valley\t3239\t-11097\t3429\nMarana\t3244\t-11123\t3429\nSan Luis\t3249\t-11478\t3429\nSomerton\t3260\t-11471\t3429\nFortuna Foothills\t3266\t-11441\t3429\nYuma\t3273\t-11462\t3429\nEloy\t3276\t-11155\t3429\nCasa Grande\t3288\t-11176\t3429\nFlorence\t3303\t-11139\t3429\nMaricopa\t3306\t-11205\t3429\nSan Tan Valley\t3319\t-11153\t3429\nQueen Creek\t3325\t-11163\t3429\nChandler\t3331\t-11184\t3429\nAhwatukee Foothills\t3334\t-11198\t3429\nGilbert\t3335\t-11179\t3429\nBuckeye\t3337\t-11258\t3429\nTempe Junction\t3341\t-11194\t3429\nTempe\t3341\t-11191\t3429\nMesa\t3342\t-11182\t3429\nApache Junction\t3342\t-11155\t3429\nGoodyear\t3344\t-11236\t3429\nAvondale\t3344\t-11235\t3429\nPhoenix\t3345\t-11207\t3429\nMaryvale\t3350\t-11218\t3429\nAlhambra\t3350\t-11213\t3429\nScottsdale\t3351\t-11190\t3429\nGlendale\t3354\t-11219\t3429\nPeoria\t3358\t-11224\t3429\nSun City\t3360\t-11227\t3429\nEl Mirage\t3361\t-11232\t3429\nFountain Hills\t3361\t-11172\t3429\nSurprise\t3363\t-11233\t3429\nSun City West\t3366\t-11234\t3429\nDeer Valley\t3368\t-11213\t3429\nAnthem\t3387\t-11215\t3429\nPayson\t3423\t-11133\t3429\nLake Havasu City\t3448\t-11432\t3429\nPrescott\t3454\t-11247\t3429\nPrescott Valley\t3461\t-11232\t3429\nBullhead City\t3515\t-11457\t3429\nKingman\t3519\t-11405\t3429\nFlagstaff\t3520\t-11165\t3429\nEl Dorado\t3321\t-9267\t3430\nTexarkana\t3344\t-9404\t3430\nPine Bluff\t3423\t-9200\t3430\nHot Springs\t3450\t-9306\t3430\nHot Springs National Park\t3453\t-9306\t3430\nBenton\t3456\t-9259\t3430\nBryant\t3460\t-9249\t3430\nLittle Rock\t3475\t-9229\t3430\nNorth Little Rock\t3477\t-9227\t3430\nSherwood\t3482\t-9222\t3430\nMaumelle\t3487\t-9240\t3430\nJacksonville\t3487\t-9211\t3430\nCabot\t3497\t-9202\t3430\nConway\t3509\t-9244\t3430\nWest Memphis\t3515\t-9018\t3430\nSearcy\t3525\t-9174\t3430\nRussellville\t3528\t-9313\t3430\nFort Smith\t3539\t-9440\t3430\nVan Buren\t3544\t-9435\t3430\nJonesboro\t3584\t-9070\t3430\nFayetteville\t3606\t-9416\t3430\nParagould\t3606\t-9050\t3430\nSiloam Springs\t3619\t-9454\t3430\nSpringdale\t3619\t-9413\t3430\nRogers\t3633\t-9412\t3430\nBentonville\t3637\t-9421\t3430\nBella Vista\t3648\t-9427\t3430\nImperial Beach\t3258\t-11711\t3431\nChula Vista\t3264\t-11708\t3431\nNational City\t3268\t-11710\t3431\nCalexico\t3268\t-11550\t3431\nCoronado\t3269\t-11718\t3431\nLa Presa\t3271\t-11700\t3431\nSan Diego\t3272\t-11716\t3431\nLemon Grove\t3274\t-11703\t3431\nSpring Valley\t3274\t-11700\t3431\nRancho San Diego\t3275\t-11694\t3431\nCasa de Oro-Mount Helix\t3276\t-11697\t3431\nLa Mesa\t3277\t-11702\t3431\nEl Cajon\t3279\t-11696\t3431\nEl Centro\t3279\t-11556\t3431\nBostonia\t3281\t-11694\t3431\nWinter Gardens\t3283\t-11693\t3431\nSantee\t3284\t-11697\t3431\nImperial\t3285\t-11557\t3431\nLakeside\t3286\t-11692\t3431\nPoway\t3296\t-11704\t3431\nBrawley\t3298\t-11553\t3431\nEncinitas\t3304\t-11729\t3431\nRamona\t3304\t-11687\t3431\nEscondido\t3312\t-11709\t3431\nSan Marcos\t3314\t-11717\t3431\nCarlsbad\t3316\t-11735\t3431\nOceanside\t3320\t-11738\t3431\nVista\t3320\t-11724\t3431\nFallbrook\t3338\t-11725\t3431\nSan Clemente\t3343\t-11761\t3431\nDana Point\t3347\t-11770\t3431\nTemecula\t3349\t-11715\t3431\nSan Juan Capistrano\t3350\t-11766\t3431\nLaguna Niguel\t3352\t-11771\t3431\nLaguna Beach\t3354\t-11778\t3431\nMurrieta\t3355\t-11721\t3431\nAliso Viejo\t3357\t-11773\t3431\nLadera Ranch\t3357\t-11764\t3431\nMission Viejo\t3360\t-11767\t3431\nWildomar\t3360\t-11728\t3431\nLaguna Woods\t3361\t-11773\t3431\nLaguna Hills\t3361\t-11771\t3431\nBlythe\t3361\t-11460\t3431\nNewport Beach\t3362\t-11793\t3431\nCosta Mesa\t3364\t-11792\t3431\nRancho Santa Margarita\t3364\t-11760\t3431\nLake Forest\t3365\t-11769\t3431\nHuntington Beach\t3366\t-11800\t3431\nLa Quinta\t3366\t-11631\t3431\nIrvine\t3367\t-11782\t3431\nLake Elsinore\t3367\t-11733\t3431\nCoachella\t3368\t-11617\t3431\nFountain Valley\t3371\t-11795\t3431\nPalm Desert\t3372\t-11638\t3431\nIndio\t3372\t-11622\t3431\nMenifee\t3373\t-11715\t3431\nRancho Palos Verdes\t3374\t-11839\t3431\nSeal Beach\t3374\t-11810\t3431\nEast Hemet\t3374\t-11694\t3431\nRancho Mirage\t3374\t-11641\t3431\nSanta Ana\t3375\t-11787\t3431\nTustin\t3375\t-11783\t3431\nHemet\t3375\t-11697\t3431\nWestminster\t3376\t-11801\t3431\nNorth Tustin\t3376\t-11779\t3431\nLong Beach\t3377\t-11819\t3431\nGarden Grove\t3377\t-11794\t3431\nPerris\t3378\t-11723\t3431\nSan Jacinto\t3378\t-11696\t3431\nCathedral City\t3378\t-11647\t3431\nLomita\t3379\t-11832\t3431\nOrange\t3379\t-11785\t3431\nStanton\t3380\t-11799\t3431\nWest Carson\t3382\t-11829\t3431\nCypress\t3382\t-11804\t3431\nCarson\t3383\t-11828\t3431\nMead Valley\t3383\t-11730\t3431\nPalm Springs\t3383\t-11655\t3431\nTorrance\t3384\t-11834\t3431\nAnaheim\t3384\t-11791\t3431\nRedondo Beach\t3385\t-11839\t3431\nLakewood\t3385\t-11813\t3431\nLa Palma\t3385\t-11805\t3431\nHermosa Beach\t3386\t-11840\t3431\nCerritos\t3386\t-11806\t3431\nArtesia\t3387\t-11808\t3431\nBuena Park\t3387\t-11800\t3431\nFullerton\t3387\t-11793\t3431\nPlacentia\t3387\t-11787\t3431\nManhattan Beach\t3388\t-11841\t3431\nBellflower\t3388\t-11812\t3431\nCorona\t3388\t-11757\t3431\nLawndale\t3389\t-11835\t3431\nGardena\t3389\t-11831\t3431\nParamount\t3389\t-11816\t3431\nYorba Linda\t3389\t-11781\t3431\nCompton\t3390\t-11822\t3431\nEast Rancho Dominguez\t3390\t-11820\t3431\nNorwalk\t3390\t-11808\t3431\nEl Segundo\t3392\t-11842\t3431\nHawthorne\t3392\t-11835\t3431\nWillowbrook\t3392\t-11826\t3431\nLa Mirada\t3392\t-11801\t3431\nBrea\t3392\t-11790\t3431\nLynwood\t3393\t-11821\t3431\nLa Habra\t3393\t-11795\t3431\nNorco\t3393\t-11755\t3431\nBeaumont\t3393\t-11698\t3431\nBanning\t3393\t-11688\t3431\nLennox\t3394\t-11835\t3431\nWestmont\t3394\t-11830\t3431\nDowney\t3394\t-11813\t3431\nMoreno Valley\t3394\t-11723\t3431\nSouth Gate\t3395\t-11821\t3431\nSanta Fe Springs\t3395\t-11809\t3431\nSouth Whittier\t3395\t-11804\t3431\nRiverside\t3395\t-11740\t3431\nInglewood\t3396\t-11835\t3431\nCudahy\t3396\t-11819\t3431\nEastvale\t3396\t-11756\t3431\nDesert Hot Springs\t3396\t-11650\t3431\nFlorence-Graham\t3397\t-11824\t3431\nWalnut Park\t3397\t-11823\t3431\nBell Gardens\t3397\t-11815\t3431\nHuntington Park\t3398\t-11823\t3431\nBell\t3398\t-11819\t3431\nPico Rivera\t3398\t-11810\t3431\nWest Whittier-Los Nietos\t3398\t-11807\t3431\nWhittier\t3398\t-11803\t3431\nRowland Heights\t3398\t-11791\t3431\nMaywood\t3399\t-11819\t3431\nHacienda Heights\t3399\t-11797\t3431\nChino Hills\t3399\t-11776\t3431\nJurupa Valley\t3399\t-11752\t3431\nRubidoux\t3400\t-11741\t3431\nMontebello\t3401\t-11811\t3431\nSouth San Jose Hills\t3401\t-11790\t3431\nChino\t3401\t-11769\t3431\nGlen Avon\t3401\t-11748\t3431\nSanta Monica\t3402\t-11849\t3431\nEast Los Angeles\t3402\t-11817\t3431\nLa Puente\t3402\t-11795\t3431\nWalnut\t3402\t-11787\t3431\nDiamond Bar\t3403\t-11781\t3431\nYucaipa\t3403\t-11704\t3431\nAvocado Heights\t3404\t-11799\t3431\nLos Angeles\t3405\t-11824\t3431\nSouth El Monte\t3405\t-11805\t3431\nWest Puente Valley\t3405\t-11797\t3431\nValinda\t3405\t-11794\t3431\nLoma Linda\t3405\t-11726\t3431\nMonterey Park\t3406\t-11812\t3431\nPomona\t3406\t-11775\t3431\nOntario\t3406\t-11765\t3431\nRedlands\t3406\t-11718\t3431\nBeverly Hills\t3407\t-11840\t3431\nEl Monte\t3407\t-11803\t3431\nWest Covina\t3407\t-11794\t3431\nBloomington\t3407\t-11740\t3431\nColton\t3407\t-11731\t3431\nRosemead\t3408\t-11807\t3431\nMontclair\t3408\t-11769\t3431\nBaldwin Park\t3409\t-11796\t3431\nCovina\t3409\t-11789\t3431\nFontana\t3409\t-11744\t3431\nAlhambra\t3410\t-11813\t3431\nSan Gabriel\t3410\t-11811\t3431\nVincent\t3410\t-11792\t3431\nLa Verne\t3410\t-11777\t3431\nClaremont\t3410\t-11772\t3431\nUpland\t3410\t-11765\t3431\nTemple City\t3411\t-11806\t3431\nSan Dimas\t3411\t-11781\t3431\nRancho Cucamonga\t3411\t-11759\t3431\nRialto\t3411\t-11737\t3431\nSan Bernardino\t3411\t-11729\t3431\nYucca Valley\t3411\t-11643\t3431\nSouth Pasadena\t3412\t-11815\t3431\nAzusa\t3413\t-11791\t3431\nHighland\t3413\t-11721\t3431\nAgoura Hills\t3414\t-11877\t3431\nAgoura\t3414\t-11874\t3431\nGlendale\t3414\t-11826\t3431\nArcadia\t3414\t-11804\t3431\nDuarte\t3414\t-11798\t3431\nGlendora\t3414\t-11787\t3431\nTwentynine Palms\t3414\t-11605\t3431\nPort Hueneme\t3415\t-11920\t3431\nPasadena\t3415\t-11814\t3431\nMonrovia\t3415\t-11800\t3431\nCalabasas\t3416\t-11864\t3431\nThousand Oaks\t3417\t-11884\t3431\nBurbank\t3418\t-11831\t3431\nAltadena\t3419\t-11813\t3431\nOxnard\t3420\t-11918\t3431\nLa Cañada Flintridge\t3420\t-11819\t3431\nCamarillo\t3422\t-11904\t3431\nLa Crescenta-Montrose\t3423\t-11824\t3431\nSimi Valley\t3427\t-11878\t3431\nVentura\t3428\t-11929\t3431\nMoorpark\t3429\t-11888\t3431\nSanta Paula\t3435\t-11906\t3431\nStevenson Ranch\t3439\t-11857\t3431\nSanta Clarita\t3439\t-11854\t3431\nFillmore\t3440\t-11892\t3431\nIsla Vista\t3441\t-11986\t3431\nSanta Barbara\t3442\t-11970\t3431\nHesperia\t3443\t-11730\t3431\nGoleta\t3444\t-11983\t3431\nValencia\t3444\t-11861\t3431\nCastaic\t3449\t-11862\t3431\nVincent\t3450\t-11812\t3431\nApple Valley\t3450\t-11719\t3431\nVictorville\t3454\t-11729\t3431\nPalmdale\t3458\t-11812\t3431\nAdelanto\t3458\t-11741\t3431\nLompoc\t3464\t-12046\t3431\nLancaster\t3470\t-11814\t3431\nRosamond\t3486\t-11816\t3431\nOrcutt\t3487\t-12044\t3431\nBarstow Heights\t3487\t-11706\t3431\nBarstow\t3490\t-11702\t3431\nSanta Maria\t3495\t-12044\t3431\nNipomo\t3504\t-12048\t3431\nArroyo Grande\t3512\t-12059\t3431\nArvin\t3521\t-11883\t3431\nLamont\t3526\t-11891\t3431\nSan Luis Obispo\t3528\t-12066\t3431\nBakersfield\t3537\t-11902\t3431\nOildale\t3542\t-11902\t3431\nAtascadero\t3549\t-12067\t3431\nShafter\t3550\t-11927\t3431\nWasco\t3559\t-11934\t3431\nRidgecrest\t3562\t-11767\t3431\nPaso Robles\t3563\t-12069\t3431\nDelano\t3577\t-11925\t3431\nPorterville\t3607\t-11902\t3431\nCorcoran\t3610\t-11956\t3431\nCoalinga\t3614\t-12036\t3431\nTulare\t3621\t-11935\t3431\nLemoore\t3630\t-11978\t3431\nGreenfield\t3632\t-12124\t3431\nHanford\t3633\t-11965\t3431\nVisalia\t3633\t-11929\t3431\nSoledad\t3642\t-12133\t3431\nDinuba\t3654\t-11939\t3431\nSelma\t3657\t-11961\t3431\nMonterey\t3660\t-12189\t3431\nReedley\t3660\t-11945\t3431\nSeaside\t3661\t-12185\t3431\nParlier\t3661\t-11953\t3431\nPacific Grove\t3662\t-12192\t3431\nMarina\t3668\t-12180\t3431\nSalinas\t3668\t-12166\t3431\nSanger\t3671\t-11956\t3431\nFresno\t3675\t-11977\t3431\nPrunedale\t3678\t-12167\t3431\nClovis\t3683\t-11970\t3431\nHollister\t3685\t-12140\t3431\nWatsonville\t3691\t-12176\t3431\nMadera\t3696\t-12006\t3431\nSanta Cruz\t3697\t-12203\t3431\nLive Oak\t3698\t-12198\t3431\nGilroy\t3701\t-12157\t3431\nLos Banos\t3706\t-12085\t3431\nChowchilla\t3712\t-12026\t3431\nMorgan Hill\t3713\t-12165\t3431\nLos Gatos\t3723\t-12197\t3431\nSaratoga\t3726\t-12202\t3431\nCampbell\t3729\t-12195\t3431\nMerced\t3730\t-12048\t3431\nCupertino\t3732\t-12203\t3431\nSan Jose\t3734\t-12189\t3431\nSanta Clara\t3735\t-12196\t3431\nAtwater\t3735\t-12061\t3431\nSunnyvale\t3737\t-12204\t3431\nLos Altos\t3739\t-12211\t3431\nMountain View\t3739\t-12208\t3431\nMilpitas\t3743\t-12191\t3431\nPalo Alto\t3744\t-12214\t3431\nMenlo Park\t3745\t-12218\t3431\nEast Palo Alto\t3747\t-12214\t3431\nPatterson\t3747\t-12113\t3431\nRedwood City\t3749\t-12224\t3431\nTurlock\t3749\t-12085\t3431\nSan Carlos\t3751\t-12226\t3431\nBelmont\t3752\t-12228\t3431\nFremont\t3755\t-12199\t3431\nSan Mateo\t3756\t-12233\t3431\nFoster City\t3756\t-12227\t3431\nBurlingame\t3758\t-12237\t3431\nCeres\t3759\t-12096\t3431\nMillbrae\t3760\t-12239\t3431\nUnion City\t3760\t-12202\t3431\nPacifica\t3761\t-12249\t3431\nSan Bruno\t3763\t-12241\t3431\nModesto\t3764\t-12100\t3431\nSouth San Francisco\t3765\t-12241\t3431\nPleasanton\t3766\t-12187\t3431\nHayward\t3767\t-12208\t3431\nSan Lorenzo\t3768\t-12212\t3431\nLivermore\t3768\t-12177\t3431\nAshland\t3769\t-12211\t3431\nCastro Valley\t3769\t-12209\t3431\nDublin\t3770\t-12194\t3431\nDaly City\t3771\t-12246\t3431\nSan Leandro\t3772\t-12216\t3431\nTracy\t3774\t-12143\t3431\nRipon\t3774\t-12112\t3431\nRiverbank\t3774\t-12094\t3431\nSan Francisco\t3777\t-12242\t3431\nAlameda\t3777\t-12226\t3431\nOakdale\t3777\t-12085\t3431\nSan Ramon\t3778\t-12198\t3431\nOakland\t3780\t-12227\t3431\nManteca\t3780\t-12122\t3431\nDanville\t3782\t-12200\t3431\nLathrop\t3782\t-12128\t3431\nMoraga\t3783\t-12213\t3431\nBerkeley\t3787\t-12227\t3431\nOrinda\t3788\t-12218\t3431\nAlbany\t3789\t-12230\t3431\nLafayette\t3789\t-12212\t3431\nWalnut Creek\t3791\t-12206\t3431\nEl Cerrito\t3792\t-12231\t3431\nBrentwood\t3793\t-12170\t3431\nRichmond\t3794\t-12235\t3431\nPleasant Hill\t3795\t-12206\t3431\nSan Pablo\t3796\t-12235\t3431\nStockton\t3796\t-12129\t3431\nSan Rafael\t3797\t-12253\t3431\nConcord\t3798\t-12203\t3431\nPinole\t3800\t-12230\t3431\nAntioch\t3800\t-12181\t3431\nOakley\t3800\t-12171\t3431\nHercules\t3802\t-12229\t3431\nMartinez\t3802\t-12213\t3431\nBay Point\t3803\t-12196\t3431\nPittsburg\t3803\t-12188\t3431\nBenicia\t3805\t-12216\t3431\nVallejo\t3810\t-12226\t3431\nNovato\t3811\t-12257\t3431\nLodi\t3813\t-12127\t3431\nAmerican Canyon\t3817\t-12226\t3431\nPetaluma\t3823\t-12264\t3431\nSuisun\t3824\t-12204\t3431\nFairfield\t3825\t-12204\t3431\nGalt\t3825\t-12130\t3431\nNapa\t3830\t-12229\t3431\nRohnert Park\t3834\t-12270\t3431\nVacaville\t3836\t-12199\t3431\nElk Grove\t3841\t-12137\t3431\nSanta Rosa\t3844\t-12271\t3431\nDixon\t3845\t-12182\t3431\nVineyard\t3846\t-12135\t3431\nFlorin\t3850\t-12141\t3431\nDavis\t3854\t-12174\t3431\nWindsor\t3855\t-12282\t3431\nRosemont\t3855\t-12136\t3431\nWest Sacramento\t3858\t-12153\t3431\nSacramento\t3858\t-12149\t3431\nRancho Cordova\t3859\t-12130\t3431\nArden-Arcade\t3860\t-12138\t3431\nCarmichael\t3862\t-12133\t3431\nFair Oaks\t3864\t-12127\t3431\nCameron Park\t3867\t-12099\t3431\nWoodland\t3868\t-12177\t3431\nFoothill Farms\t3868\t-12135\t3431\nOrangevale\t3868\t-12123\t3431\nFolsom\t3868\t-12118\t3431\nRio Linda\t3869\t-12145\t3431\nNorth Highlands\t3869\t-12137\t3431\nEl Dorado Hills\t3869\t-12108\t3431\nAntelope\t3871\t-12133\t3431\nCitrus Heights\t3871\t-12128\t3431\nRoseville\t3875\t-12129\t3431\nGranite Bay\t3876\t-12116\t3431\nRocklin\t3879\t-12124\t3431\nLincoln\t3889\t-12129\t3431\nSouth Lake Tahoe\t3893\t-11998\t3431\nClearlake\t3896\t-12263\t3431\nSouth Yuba City\t3912\t-12164\t3431\nLinda\t3913\t-12155\t3431\nYuba City\t3914\t-12162\t3431\nUkiah\t3915\t-12321\t3431\nTruckee\t3933\t-12018\t3431\nOroville\t3951\t-12156\t3431\nChico\t3973\t-12184\t3431\nParadise\t3976\t-12162\t3431\nSusanville\t4042\t-12065\t3431\nRedding\t4059\t-12239\t3431\nEureka\t4080\t-12416\t3431\nBayside\t4084\t-12406\t3431\nArcata\t4087\t-12408\t3431\nMcKinleyville\t4095\t-12410\t3431\nDurango\t3728\t-10788\t3432\nPueblo\t3825\t-10461\t3432\nPueblo West\t3835\t-10472\t3432\nCañon City\t3844\t-10524\t3432\nMontrose\t3848\t-10788\t3432\nFountain\t3868\t-10470\t3432\nSecurity-Widefield\t3875\t-10471\t3432\nColorado Springs\t3883\t-10482\t3432\nGrand Junction\t3906\t-10855\t3432\nClifton\t3909\t-10845\t3432\nCastle Rock\t3937\t-10486\t3432\nParker\t3952\t-10476\t3432\nHighlands Ranch\t3955\t-10497\t3432\nKen Caryl\t3958\t-10511\t3432\nCentennial\t3958\t-10488\t3432\nColumbine\t3959\t-10507\t3432\nLittleton\t3961\t-10502\t3432\nGreenwood Village\t3962\t-10495\t3432\nEnglewood\t3965\t-10499\t3432\nLakewood\t3970\t-10508\t3432\nAurora\t3973\t-10483\t3432\nDenver\t3974\t-10498\t3432\nGolden\t3976\t-10522\t3432\nWheat Ridge\t3977\t-10508\t3432\nArvada\t3980\t-10509\t3432\nCommerce City\t3981\t-10493\t3432\nWestminster\t3984\t-10504\t3432\nSherrelwood\t3984\t-10500\t3432\nThornton\t3987\t-10497\t3432\nNorthglenn\t3989\t-10499\t3432\nBroomfield\t3992\t-10509\t3432\nLouisville\t3998\t-10513\t3432\nLafayette\t3999\t-10509\t3432\nBrighton\t3999\t-10482\t3432\nBoulder\t4001\t-10527\t3432\nErie\t4005\t-10505\t3432\nLongmont\t4017\t-10510\t3432\nEvans\t4038\t-10469\t3432\nLoveland\t4040\t-10507\t3432\nGreeley\t4042\t-10471\t3432\nWindsor\t4048\t-10490\t3432\nFort Collins\t4059\t-10508\t3432\nStamford\t4105\t-7354\t3433\nDarien\t4108\t-7347\t3433\nEast Norwalk\t4111\t-7340\t3433\nNorwalk\t4112\t-7341\t3433\nNorth Stamford\t4114\t-7354\t3433\nWestport\t4114\t-7336\t3433\nFairfield\t4114\t-7326\t3433\nNew Canaan\t4115\t-7349\t3433\nBridgeport\t4118\t-7319\t3433\nStratford\t4118\t-7313\t3433\nWilton\t4120\t-7344\t3433\nMilford\t4122\t-7306\t3433\nCity of Milford (balance)\t4122\t-7306\t3433\nTrumbull\t4124\t-7320\t3433\nWest Haven\t4127\t-7295\t3433\nEast Haven\t4128\t-7287\t3433\nBranford\t4128\t-7282\t3433\nMadison\t4128\t-7260\t3433\nGuilford\t4129\t-7268\t3433\nNew Haven\t4131\t-7293\t3433\nShelton\t4132\t-7309\t3433\nWaterford\t4134\t-7214\t3433\nAnsonia\t4135\t-7308\t3433\nNew London\t4136\t-7210\t3433\nDanbury\t4139\t-7345\t3433\nNorth Haven\t4139\t-7286\t3433\nSeymour\t4140\t-7308\t3433\nHamden\t4140\t-7290\t3433\nLedyard\t4144\t-7201\t3433\nWallingford Center\t4145\t-7282\t3433\nWallingford\t4146\t-7282\t3433\nSouthbury\t4148\t-7321\t3433\nMontville Center\t4148\t-7215\t3433\nNaugatuck\t4149\t-7305\t3433\nCheshire\t4150\t-7290\t3433\nNorwich\t4152\t-7208\t3433\nMeriden\t4154\t-7281\t3433\nWaterbury\t4156\t-7305\t3433\nMiddletown\t4156\t-7265\t3433\nWolcott\t4160\t-7299\t3433\nNew Britain\t4166\t-7278\t3433\nBristol\t4167\t-7295\t3433\nPlainville\t4167\t-7286\t3433\nPlainfield\t4168\t-7192\t3433\nNewington\t4170\t-7272\t3433\nWindham\t4170\t-7216\t3433\nWethersfield\t4171\t-7265\t3433\nGlastonbury\t4171\t-7261\t3433\nWillimantic\t4171\t-7221\t3433\nFarmington\t4172\t-7283\t3433\nWest Hartford\t4176\t-7274\t3433\nHartford\t4176\t-7269\t3433\nMansfield City\t4177\t-7223\t3433\nEast Hartford\t4178\t-7261\t3433\nManchester\t4178\t-7252\t3433\nTorrington\t4180\t-7312\t3433\nStorrs\t4181\t-7225\t3433\nWest Torrington\t4182\t-7314\t3433\nSouth Windsor\t4182\t-7262\t3433\nKillingly Center\t4184\t-7187\t3433\nWindsor\t4185\t-7264\t3433\nEnfield\t4198\t-7259\t3433\nDover\t3916\t-7552\t3434\nMiddletown\t3945\t-7572\t3434\nBear\t3963\t-7566\t3434\nNewark\t3968\t-7575\t3434\nWilmington\t3975\t-7555\t3434\nWashington, D.C.\t3890\t-7704\t3435\nShaw\t3891\t-7702\t3435\nAdams Morgan\t3892\t-7704\t3435\nKey West\t2456\t-8178\t3436\nHomestead\t2547\t-8048\t3436\nLeisure City\t2550\t-8043\t3436\nPrinceton\t2554\t-8041\t3436\nCutler Ridge\t2558\t-8035\t3436\nCutler Bay\t2558\t-8034\t3436\nSouth Miami Heights\t2560\t-8038\t3436\nRichmond West\t2561\t-8043\t3436\nPalmetto Bay\t2562\t-8032\t3436\nCutler\t2562\t-8031\t3436\nCountry Walk\t2563\t-8043\t3436\nThree Lakes\t2564\t-8040\t3436\nThe Hammocks\t2567\t-8044\t3436\nThe Crossings\t2567\t-8040\t3436\nPinecrest\t2567\t-8031\t3436\nKendall\t2568\t-8032\t3436\nKendall West\t2571\t-8044\t3436\nKendale Lakes\t2571\t-8041\t3436\nSunset\t2571\t-8035\t3436\nGlenvar Heights\t2571\t-8033\t3436\nCoconut Grove\t2571\t-8026\t3436\nCoral Gables\t2572\t-8027\t3436\nUniversity Park\t2575\t-8037\t3436\nWestchester\t2575\t-8033\t3436\nCoral Terrace\t2575\t-8030\t3436\nTamiami\t2576\t-8040\t3436\nSweetwater\t2576\t-8037\t3436\nFlagami\t2576\t-8032\t3436\nFountainebleau\t2577\t-8035\t3436\nMiami\t2577\t-8019\t3436\nMiami Beach\t2579\t-8013\t3436\nAllapattah\t2581\t-8022\t3436\nDoral\t2582\t-8036\t3436\nBrownsville\t2582\t-8024\t3436\nHialeah\t2586\t-8028\t3436\nWest Little River\t2586\t-8024\t3436\nHialeah Gardens\t2587\t-8032\t3436\nPinewood\t2587\t-8022\t3436\nNorth Miami\t2589\t-8019\t3436\nOpa-locka\t2590\t-8025\t3436\nMiami Lakes\t2591\t-8031\t3436\nGolden Glades\t2591\t-8020\t3436\nNorth Miami Beach\t2593\t-8016\t3436\nMarco Island\t2594\t-8172\t3436\nCarol City\t2594\t-8025\t3436\nMiami Gardens\t2594\t-8025\t3436\nCountry Club\t2595\t-8032\t3436\nNorland\t2595\t-8021\t3436\nOjus\t2595\t-8015\t3436\nSunny Isles Beach\t2595\t-8012\t3436\nIves Estates\t2596\t-8018\t3436\nAventura\t2596\t-8014\t3436\nWest Park\t2598\t-8020\t3436\nHallandale Beach\t2598\t-8015\t3436\nMiramar\t2599\t-8023\t3436\nPembroke Pines\t2600\t-8022\t3436\nHollywood\t2601\t-8015\t3436\nDania Beach\t2605\t-8014\t3436\nCooper City\t2606\t-8027\t3436\nDavie\t2606\t-8023\t3436\nWeston\t2610\t-8040\t3436\nFort Lauderdale\t2612\t-8014\t3436\nPlantation\t2613\t-8023\t3436\nSunrise\t2613\t-8011\t3436\nNaples\t2614\t-8180\t3436\nEast Naples\t2614\t-8177\t3436\nLauderhill\t2614\t-8021\t3436\nLauderdale Lakes\t2617\t-8021\t3436\nOakland Park\t2617\t-8013\t3436\nGolden Gate\t2619\t-8170\t3436\nTamarac\t2621\t-8025\t3436\nNorth Lauderdale\t2622\t-8023\t3436\nMargate\t2624\t-8021\t3436\nPompano Beach\t2624\t-8012\t3436\nCoconut Creek\t2625\t-8018\t3436\nCoral Springs\t2627\t-8027\t3436\nParkland\t2631\t-8024\t3436\nDeerfield Beach\t2632\t-8010\t3436\nBonita Springs\t2634\t-8178\t3436\nSandalfoot Cove\t2634\t-8019\t3436\nBoca Del Mar\t2635\t-8015\t3436\nBoca Raton\t2636\t-8008\t3436\nImmokalee\t2642\t-8142\t3436\nEstero\t2644\t-8181\t3436\nDelray Beach\t2646\t-8007\t3436\nSan Carlos Park\t2647\t-8180\t3436\nIona\t2652\t-8196\t3436\nBoynton Beach\t2653\t-8007\t3436\nCape Coral\t2656\t-8195\t3436\nFort Myers\t2662\t-8184\t3436\nGreenacres City\t2662\t-8013\t3436\nLake Worth Corridor\t2662\t-8010\t3436\nLake Worth\t2662\t-8007\t3436\nLehigh Acres\t2663\t-8162\t3436\nPalm Springs\t2664\t-8010\t3436\nWellington\t2666\t-8024\t3436\nNorth Fort Myers\t2667\t-8188\t3436\nBelle Glade\t2668\t-8067\t3436\nRoyal Palm Beach\t2671\t-8023\t3436\nWest Palm Beach\t2672\t-8005\t3436\nRiviera Beach\t2678\t-8006\t3436\nThe Acreage\t2679\t-8027\t3436\nPalm Beach Gardens\t2682\t-8014\t3436\nPunta Gorda Isles\t2692\t-8208\t3436\nPunta Gorda\t2693\t-8205\t3436\nJupiter\t2693\t-8009\t3436\nPort Charlotte\t2698\t-8209\t3436\nNorth Port\t2704\t-8224\t3436\nVenice\t2710\t-8245\t3436\nPalm City\t2717\t-8027\t3436\nStuart\t2720\t-8025\t3436\nPort Saint Lucie\t2729\t-8035\t3436\nSarasota\t2734\t-8253\t3436\nBayshore Gardens\t2743\t-8259\t3436\nFort Pierce\t2745\t-8033\t3436\nSouth Bradenton\t2746\t-8258\t3436\nBradenton\t2750\t-8257\t3436\nFlorida Ridge\t2758\t-8039\t3436\nVero Beach South\t2762\t-8041\t3436\nVero Beach\t2764\t-8040\t3436\nRuskin\t2772\t-8243\t3436\nSun City Center\t2772\t-8235\t3436\nSt. Petersburg\t2777\t-8268\t3436\nWest and East Lealman\t2782\t-8269\t3436\nLealman\t2782\t-8268\t3436\nSebastian\t2782\t-8047\t3436\nSeminole\t2784\t-8279\t3436\nPinellas Park\t2784\t-8270\t3436\nRiverview\t2787\t-8233\t3436\nBloomingdale\t2789\t-8224\t3436\nBartow\t2790\t-8184\t3436\nLake Wales\t2790\t-8159\t3436\nLargo\t2791\t-8279\t3436\nPalm River-Clair Mel\t2792\t-8238\t3436\nBrandon\t2794\t-8229\t3436\nValrico\t2794\t-8224\t3436\nTampa\t2795\t-8246\t3436\nClearwater\t2797\t-8280\t3436\nEast Lake-Orient Park\t2798\t-8238\t3436\nSafety Harbor\t2799\t-8269\t3436\nTown 'n' Country\t2801\t-8258\t3436\nDunedin\t2802\t-8277\t3436\nEgypt Lake-Leto\t2802\t-8251\t3436\nPlant City\t2802\t-8211\t3436\nWinter Haven\t2802\t-8173\t3436\nPalm Bay\t2803\t-8059\t3436\nTemple Terrace\t2804\t-8239\t3436\nLakeland\t2804\t-8195\t3436\nCarrollwood\t2805\t-8249\t3436\nWestchase\t2806\t-8261\t3436\nCarrollwood Village\t2807\t-8252\t3436\nLake Magdalene\t2807\t-8247\t3436\nUniversity\t2807\t-8244\t3436\nAuburndale\t2807\t-8179\t3436\nWest Melbourne\t2807\t-8065\t3436\nPalm Harbor\t2808\t-8276\t3436\nCitrus Park\t2808\t-8257\t3436\nMelbourne\t2808\t-8061\t3436\nNorthdale\t2809\t-8251\t3436\nEast Lake\t2811\t-8269\t3436\nGreater Northdale\t2811\t-8253\t3436\nHaines City\t2811\t-8162\t3436\nPoinciana\t2814\t-8146\t3436\nTarpon Springs\t2815\t-8276\t3436\nLutz\t2815\t-8246\t3436\nKeystone\t2816\t-8262\t3436\nHoliday\t2819\t-8274\t3436\nLand O' Lakes\t2822\t-8246\t3436\nNew Port Richey\t2824\t-8272\t3436\nWesley Chapel\t2824\t-8233\t3436\nSaint Cloud\t2825\t-8128\t3436\nJasmine Estates\t2829\t-8269\t3436\nKissimmee\t2830\t-8142\t3436\nBayonet Point\t2833\t-8268\t3436\nFour Corners\t2833\t-8165\t3436\nBuenaventura Lakes\t2834\t-8135\t3436\nRockledge\t2835\t-8073\t3436\nSouthchase\t2839\t-8138\t3436\nMeadow Woods\t2839\t-8137\t3436\nCocoa\t2839\t-8074\t3436\nOak Ridge\t2847\t-8142\t3436\nSpring Hill\t2848\t-8253\t3436\nLake Butler\t2850\t-8154\t3436\nOrlando\t2854\t-8138\t3436\nMerritt Island\t2854\t-8067\t3436\nClermont\t2855\t-8177\t3436\nPine Hills\t2856\t-8145\t3436\nAlafaya\t2856\t-8121\t3436\nWinter Garden\t2857\t-8159\t3436\nOcoee\t2857\t-8154\t3436\nWinter Park\t2860\t-8134\t3436\nTitusville\t2861\t-8081\t3436\nMaitland\t2863\t-8136\t3436\nAltamonte Springs\t2866\t-8137\t3436\nOviedo\t2867\t-8121\t3436\nApopka\t2868\t-8151\t3436\nCasselberry\t2868\t-8133\t3436\nWekiwa Springs\t2870\t-8143\t3436\nWinter Springs\t2870\t-8131\t3436\nLake Mary\t2876\t-8132\t3436\nTavares\t2880\t-8173\t3436\nSanford\t2880\t-8127\t3436\nLeesburg\t2881\t-8188\t3436\nEustis\t2885\t-8169\t3436\nDeBary\t2888\t-8131\t3436\nDeltona\t2890\t-8126\t3436\nThe Villages\t2893\t-8196\t3436\nEdgewater\t2899\t-8090\t3436\nDeLand\t2903\t-8130\t3436\nNew Smyrna Beach\t2903\t-8093\t3436\nPort Orange\t2914\t-8100\t3436\nOcala\t2919\t-8214\t3436\nDaytona Beach\t2921\t-8102\t3436\nOrmond Beach\t2929\t-8106\t3436\nPalm Coast\t2958\t-8121\t3436\nGainesville\t2965\t-8232\t3436\nFleming Island\t3009\t-8172\t3436\nFruit Cove\t3011\t-8164\t3436\nLakeside\t3013\t-8177\t3436\nPanama City\t3016\t-8566\t3436\nOakleaf Plantation\t3017\t-8184\t3436\nPalm Valley\t3018\t-8139\t3436\nPonte Vedra Beach\t3024\t-8139\t3436\nLynn Haven\t3025\t-8565\t3436\nJacksonville Beach\t3029\t-8139\t3436\nJacksonville\t3033\t-8166\t3436\nNavarre\t3040\t-8686\t3436\nMidway\t3041\t-8701\t3436\nMyrtle Grove\t3042\t-8731\t3436\nPensacola\t3042\t-8722\t3436\nFort Walton Beach\t3042\t-8662\t3436\nWest Pensacola\t3043\t-8728\t3436\nEast Pensacola Heights\t3043\t-8718\t3436\nTallahassee\t3044\t-8428\t3436\nBellview\t3046\t-8731\t3436\nWright\t3046\t-8664\t3436\nBrent\t3047\t-8724\t3436\nFerry Pass\t3051\t-8721\t3436\nEnsley\t3052\t-8727\t3436\nPace\t3060\t-8716\t3436\nCrestview\t3076\t-8657\t3436\nSt. Marys\t3073\t-8155\t3437\nKingsland\t3080\t-8169\t3437\nValdosta\t3083\t-8328\t3437\nThomasville\t3084\t-8398\t3437\nBrunswick\t3115\t-8149\t3437\nTifton\t3145\t-8351\t3437\nAlbany\t3158\t-8416\t3437\nHinesville\t3185\t-8160\t3437\nWilmington Island\t3200\t-8097\t3437\nAmericus\t3207\t-8423\t3437\nSavannah\t3208\t-8110\t3437\nPooler\t3212\t-8125\t3437\nStatesboro\t3245\t-8178\t3437\nColumbus\t3246\t-8499\t3437\nPerry\t3246\t-8373\t3437\nDublin\t3254\t-8290\t3437\nWarner Robins\t3262\t-8363\t3437\nMacon\t3284\t-8363\t3437\nLaGrange\t3304\t-8503\t3437\nMilledgeville\t3308\t-8323\t3437\nGriffin\t3325\t-8426\t3437\nNewnan\t3338\t-8480\t3437\nPeachtree City\t3340\t-8460\t3437\nFayetteville\t3345\t-8445\t3437\nMcDonough\t3345\t-8415\t3437\nAugusta\t3347\t-8197\t3437\nMartinez\t3352\t-8208\t3437\nEvans\t3353\t-8213\t3437\nStockbridge\t3354\t-8423\t3437\nRiverdale\t3357\t-8441\t3437\nCarrollton\t3358\t-8508\t3437\nUnion City\t3359\t-8454\t3437\nForest Park\t3362\t-8437\t3437\nConyers\t3367\t-8402\t3437\nEast Point\t3368\t-8444\t3437\nStonecrest\t3371\t-8413\t3437\nCandler-McAfee\t3373\t-8427\t3437\nDouglasville\t3375\t-8475\t3437\nAtlanta\t3375\t-8439\t3437\nBelvedere Park\t3375\t-8427\t3437\nRedan\t3375\t-8413\t3437\nDecatur\t3377\t-8430\t3437\nLithia Springs\t3379\t-8466\t3437\nNorth Decatur\t3379\t-8431\t3437\nMableton\t3382\t-8458\t3437\nNorth Druid Hills\t3382\t-8431\t3437\nTucker\t3385\t-8422\t3437\nBrookhaven\t3386\t-8434\t3437\nSnellville\t3386\t-8402\t3437\nNorth Atlanta\t3387\t-8434\t3437\nSmyrna\t3388\t-8451\t3437\nChamblee\t3389\t-8430\t3437\nSandy Springs\t3392\t-8438\t3437\nNorcross\t3394\t-8421\t3437\nMarietta\t3395\t-8455\t3437\nDunwoody\t3395\t-8433\t3437\nLawrenceville\t3396\t-8399\t3437\nAthens\t3396\t-8338\t3437\nPeachtree Corners\t3397\t-8422\t3437\nWinder\t3399\t-8372\t3437\nDuluth\t3400\t-8414\t3437\nKennesaw\t3402\t-8462\t3437\nRoswell\t3402\t-8436\t3437\nJohns Creek\t3403\t-8420\t3437\nSuwanee\t3405\t-8407\t3437\nAcworth\t3407\t-8468\t3437\nAlpharetta\t3408\t-8429\t3437\nWoodstock\t3410\t-8452\t3437\nSugar Hill\t3411\t-8403\t3437\nMilton\t3413\t-8430\t3437\nCartersville\t3417\t-8480\t3437\nCanton\t3424\t-8449\t3437\nRome\t3426\t-8516\t3437\nGainesville\t3430\t-8382\t3437\nCalhoun\t3450\t-8495\t3437\nDalton\t3477\t-8497\t3437\nHilo\t1973\t-15509\t3438\nKīhei\t2076\t-15645\t3438\nWailuku\t2089\t-15651\t3438\nKahului\t2089\t-15647\t3438\nEast Honolulu\t2129\t-15772\t3438\nHonolulu\t2131\t-15786\t3438\nKapolei\t2134\t-15806\t3438\n‘Ewa Gentry\t2134\t-15803\t3438\nMakakilo City\t2135\t-15809\t3438\nMakakilo\t2135\t-15809\t3438\nWaipahu\t2139\t-15801\t3438\nPearl City\t2140\t-15798\t3438\nKaneohe\t2140\t-15780\t3438\nKailua\t2140\t-15774\t3438\nMililani Town\t2145\t-15802\t3438\nSchofield Barracks\t2150\t-15807\t3438\nWahiawā\t2150\t-15802\t3438\nTwin Falls\t4256\t-11446\t3439\nPocatello\t4287\t-11245\t3439\nIdaho Falls\t4347\t-11203\t3439\nKuna\t4349\t-11642\t3439\nNampa\t4354\t-11656\t3439\nMeridian\t4361\t-11639\t3439\nBoise\t4361\t-11620\t3439\nCaldwell\t4366\t-11669\t3439\nEagle\t4370\t-11635\t3439\nRexburg\t4383\t-11179\t3439\nLewiston Orchards\t4638\t-11698\t3439\nLewiston\t4642\t-11702\t3439\nMoscow\t4673\t-11700\t3439\nCoeur d'Alene\t4768\t-11678\t3439\nPost Falls\t4772\t-11695\t3439\nCarbondale\t3773\t-8922\t3440\nMarion\t3773\t-8893\t3440\nMount Vernon\t3832\t-8890\t3440\nBelleville\t3852\t-8998\t3440\nFairview Heights\t3859\t-8999\t3440\nO'Fallon\t3859\t-8991\t3440\nEast Saint Louis\t3862\t-9015\t3440\nCollinsville\t3867\t-8998\t3440\nGranite City\t3870\t-9015\t3440\nEdwardsville\t3881\t-8995\t3440\nAlton\t3889\t-9018\t3440\nUpper Alton\t3891\t-9015\t3440\nGodfrey\t3896\t-9019\t3440\nMattoon\t3948\t-8837\t3440\nCharleston\t3950\t-8818\t3440\nJacksonville\t3973\t-9023\t3440\nSpringfield\t3980\t-8964\t3440\nDecatur\t3984\t-8895\t3440\nQuincy\t3994\t-9141\t3440\nUrbana\t4011\t-8821\t3440\nChampaign\t4012\t-8824\t3440\nDanville\t4012\t-8763\t3440\nMacomb\t4046\t-9067\t3440\nBloomington\t4048\t-8899\t3440\nNormal\t4051\t-8899\t3440\nPekin\t4057\t-8964\t3440\nMorton\t4061\t-8946\t3440\nEast Peoria\t4067\t-8958\t3440\nPeoria\t4069\t-8959\t3440\nWashington\t4070\t-8941\t3440\nNorth Peoria\t4072\t-8958\t3440\nGalesburg\t4095\t-9037\t3440\nKankakee\t4112\t-8786\t3440\nBradley\t4114\t-8786\t3440\nBourbonnais\t4115\t-8789\t3440\nOttawa\t4135\t-8884\t3440\nPark Forest\t4149\t-8767\t3440\nEast Moline\t4150\t-9044\t3440\nFrankfort\t4150\t-8785\t3440\nMatteson\t4150\t-8771\t3440\nRock Island\t4151\t-9058\t3440\nMoline\t4151\t-9052\t3440\nNew Lenox\t4151\t-8797\t3440\nChicago Heights\t4151\t-8764\t3440\nShorewood\t4152\t-8820\t3440\nJoliet\t4153\t-8808\t3440\nMokena\t4153\t-8789\t3440\nCrest Hill\t4155\t-8810\t3440\nHomewood\t4156\t-8767\t3440\nLansing\t4156\t-8754\t3440\nTinley Park\t4157\t-8778\t3440\nCountry Club Hills\t4157\t-8772\t3440\nLockport\t4159\t-8806\t3440\nHomer Glen\t4160\t-8794\t3440\nOak Forest\t4160\t-8774\t3440\nSouth Holland\t4160\t-8761\t3440\nHarvey\t4161\t-8765\t3440\nCalumet City\t4162\t-8753\t3440\nPlainfield\t4163\t-8820\t3440\nGoodings Grove\t4163\t-8793\t3440\nOrland Park\t4163\t-8785\t3440\nYorkville\t4164\t-8845\t3440\nDolton\t4164\t-8761\t3440\nRomeoville\t4165\t-8809\t3440\nBlue Island\t4166\t-8768\t3440\nLemont\t4167\t-8800\t3440\nAlsip\t4167\t-8774\t3440\nOswego\t4168\t-8835\t3440\nBolingbrook\t4170\t-8807\t3440\nPalos Hills\t4170\t-8782\t3440\nOak Lawn\t4171\t-8776\t3440\nEvergreen Park\t4172\t-8770\t3440\nMontgomery\t4173\t-8835\t3440\nBurbank\t4173\t-8778\t3440\nSouth Chicago\t4174\t-8755\t3440\nWoodridge\t4175\t-8805\t3440\nDarien\t4175\t-8797\t3440\nBridgeview\t4175\t-8780\t3440\nAurora\t4176\t-8832\t3440\nSterling\t4179\t-8970\t3440\nNaperville\t4179\t-8815\t3440\nLisle\t4180\t-8807\t3440\nWestmont\t4180\t-8798\t3440\nHinsdale\t4180\t-8794\t3440\nNorth Aurora\t4181\t-8833\t3440\nDowners Grove\t4181\t-8801\t3440\nLa Grange\t4181\t-8787\t3440\nBrookfield\t4182\t-8785\t3440\nDixon\t4184\t-8948\t3440\nBatavia\t4185\t-8831\t3440\nWestchester\t4185\t-8788\t3440\nBerwyn\t4185\t-8779\t3440\nCicero\t4185\t-8775\t3440\nChicago\t4185\t-8765\t3440\nWheaton\t4187\t-8811\t3440\nWest Chicago\t4188\t-8820\t3440\nGlen Ellyn\t4188\t-8807\t3440\nLombard\t4188\t-8801\t3440\nBellwood\t4188\t-8788\t3440\nMaywood\t4188\t-8784\t3440\nGeneva\t4189\t-8831\t3440\nVilla Park\t4189\t-8799\t3440\nOak Park\t4189\t-8778\t3440\nElmhurst\t4190\t-8794\t3440\nMelrose Park\t4190\t-8786\t3440\nSaint Charles\t4191\t-8831\t3440\nCarol Stream\t4191\t-8813\t3440\nGlendale Heights\t4191\t-8806\t3440\nElmwood Park\t4192\t-8781\t3440\nDeKalb\t4193\t-8875\t3440\nAddison\t4193\t-8799\t3440\nWasco\t4194\t-8840\t3440\nFranklin Park\t4194\t-8787\t3440\nBloomingdale\t4196\t-8808\t3440\nBensenville\t4196\t-8794\t3440\nRoselle\t4198\t-8808\t3440\nSycamore\t4199\t-8869\t3440\nSouth Elgin\t4199\t-8829\t3440\nBartlett\t4200\t-8819\t3440\nHanover Park\t4200\t-8815\t3440\nElk Grove Village\t4200\t-8797\t3440\nPark Ridge\t4201\t-8784\t3440\nNiles\t4202\t-8780\t3440\nStreamwood\t4203\t-8818\t3440\nSchaumburg\t4203\t-8808\t3440\nDes Plaines\t4203\t-8788\t3440\nSkokie\t4203\t-8773\t3440\nElgin\t4204\t-8828\t3440\nHoffman Estates\t4204\t-8808\t3440\nMorton Grove\t4204\t-8778\t3440\nEvanston\t4204\t-8769\t3440\nMount Prospect\t4207\t-8794\t3440\nGlenview\t4207\t-8779\t3440\nWilmette\t4207\t-8772\t3440\nRolling Meadows\t4208\t-8801\t3440\nArlington Heights\t4209\t-8798\t3440\nProspect Heights\t4210\t-8794\t3440\nPalatine\t4211\t-8803\t3440\nCarpentersville\t4212\t-8826\t3440\nNorthbrook\t4213\t-8783\t3440\nWheeling\t4214\t-8793\t3440\nBuffalo Grove\t4215\t-8796\t3440\nHuntley\t4217\t-8843\t3440\nAlgonquin\t4217\t-8829\t3440\nDeerfield\t4217\t-8784\t3440\nLake in the Hills\t4218\t-8833\t3440\nHighland Park\t4218\t-8780\t3440\nLake Zurich\t4220\t-8809\t3440\nCary\t4221\t-8824\t3440\nVernon Hills\t4222\t-8798\t3440\nCrystal Lake\t4224\t-8832\t3440\nBelvidere\t4226\t-8884\t3440\nMundelein\t4226\t-8800\t3440\nLake Forest\t4226\t-8784\t3440\nRockford\t4227\t-8909\t3440\nLibertyville\t4228\t-8795\t3440\nFreeport\t4230\t-8962\t3440\nWoodstock\t4231\t-8845\t3440\nLoves Park\t4232\t-8906\t3440\nMcHenry\t4233\t-8827\t3440\nNorth Chicago\t4233\t-8784\t3440\nGrayslake\t4234\t-8804\t3440\nMachesney Park\t4235\t-8904\t3440\nRound Lake\t4235\t-8809\t3440\nWaukegan\t4236\t-8784\t3440\nRound Lake Beach\t4237\t-8809\t3440\nGurnee\t4237\t-8790\t3440\nZion\t4245\t-8783\t3440\nEvansville\t3797\t-8756\t3441\nJeffersonville\t3828\t-8574\t3441\nNew Albany\t3829\t-8582\t3441\nClarksville\t3830\t-8576\t3441\nJasper\t3839\t-8693\t3441\nVincennes\t3868\t-8753\t3441\nSeymour\t3896\t-8589\t3441\nBloomington\t3917\t-8653\t3441\nColumbus\t3920\t-8592\t3441\nTerre Haute\t3947\t-8741\t3441\nFranklin\t3948\t-8605\t3441\nShelbyville\t3952\t-8578\t3441\nGreenwood\t3961\t-8611\t3441\nPlainfield\t3970\t-8640\t3441\nAvon\t3976\t-8640\t3441\nIndianapolis\t3977\t-8616\t3441\nGreenfield\t3979\t-8577\t3441\nFairfield Heights\t3983\t-8638\t3441\nRichmond\t3983\t-8489\t3441\nBrownsburg\t3984\t-8640\t3441\nLawrence\t3984\t-8603\t3441\nBroad Ripple\t3987\t-8614\t3441\nNew Castle\t3993\t-8537\t3441\nZionsville\t3995\t-8626\t3441\nFishers\t3996\t-8601\t3441\nCarmel\t3998\t-8612\t3441\nCrawfordsville\t4004\t-8687\t3441\nWestfield\t4004\t-8613\t3441\nLebanon\t4005\t-8647\t3441\nNoblesville\t4005\t-8601\t3441\nAnderson\t4011\t-8568\t3441\nMuncie\t4019\t-8539\t3441\nFrankfort\t4028\t-8651\t3441\nLafayette\t4042\t-8688\t3441\nWest Lafayette\t4043\t-8691\t3441\nKokomo\t4049\t-8613\t3441\nMarion\t4056\t-8566\t3441\nLogansport\t4075\t-8636\t3441\nHuntington\t4088\t-8550\t3441\nNew Haven\t4107\t-8501\t3441\nFort Wayne\t4113\t-8513\t3441\nCrown Point\t4142\t-8737\t3441\nValparaiso\t4147\t-8706\t3441\nSchererville\t4148\t-8745\t3441\nMerrillville\t4148\t-8733\t3441\nDyer\t4149\t-8752\t3441\nGriffith\t4153\t-8742\t3441\nHobart\t4153\t-8726\t3441\nHighland\t4155\t-8745\t3441\nMunster\t4156\t-8751\t3441\nHammond\t4158\t-8750\t3441\nPortage\t4158\t-8718\t3441\nGoshen\t4158\t-8583\t3441\nGary\t4159\t-8735\t3441\nLaPorte\t4161\t-8672\t3441\nLa Porte\t4161\t-8671\t3441\nEast Chicago\t4164\t-8745\t3441\nMishawaka\t4166\t-8616\t3441\nSouth Bend\t4168\t-8625\t3441\nElkhart\t4168\t-8598\t3441\nMichigan City\t4171\t-8690\t3441\nGranger\t4175\t-8611\t3441\nBurlington\t4081\t-9111\t3442\nOttumwa\t4102\t-9241\t3442\nCouncil Bluffs\t4126\t-9586\t3442\nIndianola\t4136\t-9356\t3442\nMuscatine\t4142\t-9104\t3442\nDavenport\t4152\t-9058\t3442\nBettendorf\t4152\t-9052\t3442\nWest Des Moines\t4158\t-9371\t3442\nClive\t4160\t-9372\t3442\nDes Moines\t4160\t-9361\t3442\nWaukee\t4161\t-9389\t3442\nUrbandale\t4163\t-9371\t3442\nAltoona\t4164\t-9346\t3442\nIowa City\t4166\t-9153\t3442\nJohnston\t4167\t-9370\t3442\nCoralville\t4168\t-9158\t3442\nNewton\t4170\t-9305\t3442\nAnkeny\t4173\t-9361\t3442\nNorth Liberty\t4175\t-9160\t3442\nClinton\t4184\t-9019\t3442\nCedar Rapids\t4201\t-9164\t3442\nAmes\t4203\t-9362\t3442\nMarion\t4203\t-9160\t3442\nMarshalltown\t4205\t-9291\t3442\nWaterloo\t4249\t-9234\t3442\nSioux City\t4250\t-9640\t3442\nFort Dodge\t4250\t-9417\t3442\nDubuque\t4250\t-9066\t3442\nCedar Falls\t4253\t-9245\t3442\nMason City\t4315\t-9320\t3442\nLiberal\t3704\t-10092\t3443\nPittsburg\t3741\t-9470\t3443\nDerby\t3755\t-9727\t3443\nWichita\t3769\t-9734\t3443\nDodge City\t3775\t-10002\t3443\nGarden City\t3797\t-10087\t3443\nNewton\t3805\t-9735\t3443\nHutchinson\t3806\t-9793\t3443\nGreat Bend\t3836\t-9876\t3443\nEmporia\t3840\t-9618\t3443\nGardner\t3881\t-9493\t3443\nSalina\t3884\t-9761\t3443\nHays\t3888\t-9933\t3443\nOlathe\t3888\t-9482\t3443\nLenexa\t3895\t-9473\t3443\nLawrence\t3897\t-9524\t3443\nLeawood\t3897\t-9462\t3443\nOverland Park\t3898\t-9467\t3443\nPrairie Village\t3899\t-9463\t3443\nJunction City\t3903\t-9683\t3443\nShawnee\t3904\t-9472\t3443\nTopeka\t3905\t-9568\t3443\nKansas City\t3911\t-9463\t3443\nManhattan\t3918\t-9657\t3443\nLeavenworth\t3931\t-9492\t3443\nMurray\t3661\t-8831\t3444\nHopkinsville\t3687\t-8749\t3444\nBowling Green\t3699\t-8644\t3444\nPaducah\t3708\t-8860\t3444\nMadisonville\t3733\t-8750\t3444\nDanville\t3765\t-8477\t3444\nElizabethtown\t3769\t-8586\t3444\nRichmond\t3775\t-8429\t3444\nOwensboro\t3777\t-8711\t3444\nHenderson\t3784\t-8759\t3444\nRadcliff\t3784\t-8595\t3444\nNicholasville\t3788\t-8457\t3444\nLexington\t3799\t-8448\t3444\nWinchester\t3799\t-8418\t3444\nLexington-Fayette\t3805\t-8446\t3444\nValley Station\t3811\t-8587\t3444\nOkolona\t3814\t-8569\t3444\nHighview\t3814\t-8562\t3444\nNewburg\t3816\t-8566\t3444\nFern Creek\t3816\t-8559\t3444\nJeffersontown\t3819\t-8556\t3444\nShively\t3820\t-8582\t3444\nFrankfort\t3820\t-8487\t3444\nShelbyville\t3821\t-8522\t3444\nGeorgetown\t3821\t-8456\t3444\nLouisville\t3825\t-8576\t3444\nSaint Matthews\t3825\t-8566\t3444\nMeads\t3841\t-8271\t3444\nIronville\t3846\t-8269\t3444\nAshland\t3848\t-8264\t3444\nIndependence\t3894\t-8454\t3444\nFlorence\t3900\t-8463\t3444\nErlanger\t3902\t-8460\t3444\nBurlington\t3903\t-8472\t3444\nCovington\t3908\t-8451\t3444\nFort Thomas\t3908\t-8445\t3444\nNewport\t3909\t-8450\t3444\nHouma\t2960\t-9072\t3445\nBayou Cane\t2962\t-9075\t3445\nEstelle\t2985\t-9011\t3445\nMarrero\t2990\t-9010\t3445\nHarvey\t2990\t-9008\t3445\nGretna\t2991\t-9005\t3445\nTerrytown\t2991\t-9003\t3445\nChalmette\t2994\t-8997\t3445\nNew Orleans\t2995\t-9008\t3445\nMetairie Terrace\t2998\t-9016\t3445\nMetairie\t2998\t-9015\t3445\nKenner\t2999\t-9024\t3445\nNew Iberia\t3000\t-9182\t3445\nLaplace\t3007\t-9048\t3445\nLake Charles\t3021\t-9320\t3445\nLafayette\t3022\t-9202\t3445\nSulphur\t3024\t-9338\t3445\nSlidell\t3028\t-8978\t3445\nPrairieville\t3030\t-9097\t3445\nShenandoah\t3040\t-9100\t3445\nBaton Rouge\t3044\t-9119\t3445\nHammond\t3050\t-9046\t3445\nOpelousas\t3053\t-9208\t3445\nCentral\t3055\t-9104\t3445\nZachary\t3065\t-9116\t3445\nAlexandria\t3131\t-9245\t3445\nNatchitoches\t3176\t-9309\t3445\nMonroe\t3251\t-9212\t3445\nBossier City\t3252\t-9373\t3445\nRuston\t3252\t-9264\t3445\nShreveport\t3253\t-9375\t3445\nSanford\t4344\t-7077\t3446\nBiddeford\t4349\t-7045\t3446\nSaco\t4350\t-7044\t3446\nWest Scarborough\t4357\t-7039\t3446\nSouth Portland Gardens\t4364\t-7032\t3446\nSouth Portland\t4364\t-7024\t3446\nPortland\t4366\t-7026\t3446\nWestbrook\t4368\t-7037\t3446\nBrunswick\t4391\t-6997\t3446\nAuburn\t4410\t-7023\t3446\nLewiston\t4410\t-7021\t3446\nAugusta\t4431\t-6978\t3446\nWaterville\t4455\t-6963\t3446\nBangor\t4480\t-6878\t3446\nSalisbury\t3836\t-7560\t3447\nSaint Charles\t3860\t-7694\t3447\nSt. Charles\t3861\t-7692\t3447\nWaldorf\t3862\t-7694\t3447\nFort Washington\t3871\t-7702\t3447\nClinton\t3877\t-7690\t3447\nEaston\t3877\t-7608\t3447\nOxon Hill\t3880\t-7699\t3447\nOxon Hill-Glassmanor\t3880\t-7697\t3447\nCamp Springs\t3880\t-7691\t3447\nGlassmanor\t3882\t-7700\t3447\nHillcrest Heights\t3883\t-7696\t3447\nGreater Upper Marlboro\t3883\t-7675\t3447\nSuitland-Silver Hill\t3885\t-7693\t3447\nSuitland\t3885\t-7692\t3447\nLandover\t3893\t-7690\t3447\nBowie\t3894\t-7673\t3447\nChillum\t3896\t-7699\t3447\nHyattsville\t3896\t-7695\t3447\nEast Riverdale\t3896\t-7692\t3447\nSeabrook\t3897\t-7685\t3447\nLanham-Seabrook\t3897\t-7685\t3447\nBethesda\t3898\t-7710\t3447\nTakoma Park\t3898\t-7701\t3447\nCollege Park\t3898\t-7694\t3447\nParole\t3898\t-7653\t3447\nAnnapolis\t3898\t-7649\t3447\nSilver Spring\t3899\t-7703\t3447\nLangley Park\t3899\t-7698\t3447\nAdelphi\t3900\t-7697\t3447\nGreenbelt\t3900\t-7688\t3447\nCrofton\t3900\t-7669\t3447\nPotomac\t3902\t-7721\t3447\nBeltsville\t3903\t-7691\t3447\nArnold\t3903\t-7650\t3447\nNorth Bethesda\t3904\t-7712\t3447\nWheaton\t3904\t-7706\t3447\nWhite Oak\t3904\t-7699\t3447\nCalverton\t3906\t-7694\t3447\nSouth Laurel\t3907\t-7685\t3447\nSeverna Park\t3907\t-7655\t3447\nNorth Potomac\t3908\t-7726\t3447\nRockville\t3908\t-7715\t3447\nAspen Hill\t3908\t-7707\t3447\nFairland\t3908\t-7696\t3447\nOdenton\t3908\t-7670\t3447\nMaryland City\t3909\t-7682\t3447\nLaurel\t3910\t-7685\t3447\nCloverly\t3911\t-7700\t3447\nPasadena\t3911\t-7657\t3447\nLake Shore\t3911\t-7648\t3447\nSouth Gate\t3913\t-7663\t3447\nGaithersburg\t3914\t-7720\t3447\nSevern\t3914\t-7670\t3447\nGreen Haven\t3914\t-7655\t3447\nOlney\t3915\t-7707\t3447\nScaggsville\t3915\t-7690\t3447\nGlen Burnie\t3916\t-7662\t3447\nGermantown\t3917\t-7727\t3447\nMontgomery Village\t3918\t-7720\t3447\nFerndale\t3918\t-7664\t3447\nHanover\t3919\t-7672\t3447\nWest Elkridge\t3921\t-7673\t3447\nElkridge\t3921\t-7671\t3447\nColumbia\t3924\t-7684\t3447\nIlchester\t3925\t-7676\t3447\nArbutus\t3925\t-7670\t3447\nDundalk\t3925\t-7652\t3447\nEllicott City\t3927\t-7680\t3447\nCatonsville\t3927\t-7673\t3447\nDamascus\t3929\t-7720\t3447\nBaltimore\t3929\t-7661\t3447\nEssex\t3931\t-7647\t3447\nWoodlawn\t3932\t-7673\t3447\nRosedale\t3932\t-7652\t3447\nMiddle River\t3933\t-7644\t3447\nLochearn\t3934\t-7672\t3447\nRossville\t3934\t-7648\t3447\nMilford Mill\t3935\t-7677\t3447\nBallenger Creek\t3937\t-7744\t3447\nRandallstown\t3937\t-7680\t3447\nPikesville\t3937\t-7672\t3447\nParkville\t3938\t-7654\t3447\nCarney\t3939\t-7652\t3447\nEldersburg\t3940\t-7695\t3447\nTowson\t3940\t-7660\t3447\nFrederick\t3941\t-7741\t3447\nPerry Hall\t3941\t-7646\t3447\nOwings Mills\t3942\t-7678\t3447\nEdgewood\t3942\t-7629\t3447\nLutherville-Timonium\t3944\t-7661\t3447\nReisterstown\t3947\t-7683\t3447\nCockeysville\t3948\t-7664\t3447\nHunt Valley\t3950\t-7664\t3447\nBel Air South\t3951\t-7632\t3447\nAberdeen\t3951\t-7616\t3447\nBel Air North\t3955\t-7637\t3447\nWestminster\t3958\t-7700\t3447\nElkton\t3961\t-7583\t3447\nHagerstown\t3964\t-7772\t3447\nCumberland\t3965\t-7876\t3447\nNew Bedford\t4164\t-7093\t3448\nFairhaven\t4164\t-7090\t3448\nFall River\t4170\t-7116\t3448\nBarnstable\t4170\t-7030\t3448\nYarmouth\t4171\t-7023\t3448\nSwansea\t4175\t-7119\t3448\nSomerset\t4177\t-7113\t3448\nMiddleborough\t4189\t-7091\t3448\nTaunton\t4190\t-7109\t3448\nAttleboro\t4194\t-7129\t3448\nNorth Attleborough Center\t4197\t-7132\t3448\nNorton\t4197\t-7119\t3448\nEaston\t4202\t-7113\t3448\nMansfield\t4203\t-7122\t3448\nLongmeadow\t4205\t-7258\t3448\nEast Longmeadow\t4206\t-7251\t3448\nAgawam\t4207\t-7261\t3448\nSouthbridge\t4208\t-7203\t3448\nFranklin\t4208\t-7140\t3448\nBrockton\t4208\t-7102\t3448\nSpringfield\t4210\t-7259\t3448\nAbington\t4210\t-7095\t3448\nWest Springfield\t4211\t-7262\t3448\nHanover\t4211\t-7081\t3448\nWestfield\t4213\t-7275\t3448\nStoughton\t4213\t-7110\t3448\nRockland\t4213\t-7092\t3448\nMilford\t4214\t-7152\t3448\nChicopee\t4215\t-7261\t3448\nLudlow\t4216\t-7248\t3448\nPalmer\t4216\t-7233\t3448\nCanton\t4216\t-7114\t3448\nRandolph\t4216\t-7104\t3448\nNorth Chicopee\t4218\t-7260\t3448\nAuburn\t4219\t-7184\t3448\nNorwood\t4219\t-7120\t3448\nHolyoke\t4220\t-7262\t3448\nBraintree\t4220\t-7100\t3448\nGrafton\t4221\t-7169\t3448\nWeymouth\t4222\t-7094\t3448\nDedham\t4224\t-7117\t3448\nMilton\t4225\t-7107\t3448\nQuincy\t4225\t-7100\t3448\nSouth Hadley\t4226\t-7257\t3448\nWorcester\t4226\t-7180\t3448\nAshland\t4226\t-7146\t3448\nEasthampton\t4227\t-7267\t3448\nFramingham\t4228\t-7142\t3448\nNatick\t4228\t-7135\t3448\nNeedham\t4228\t-7123\t3448\nShrewsbury\t4230\t-7171\t3448\nFramingham Center\t4230\t-7144\t3448\nWellesley\t4230\t-7129\t3448\nJamaica Plain\t4231\t-7112\t3448\nNorthampton\t4233\t-7264\t3448\nBrookline\t4233\t-7112\t3448\nNewton\t4234\t-7121\t3448\nHolden\t4235\t-7186\t3448\nMarlborough\t4235\t-7155\t3448\nBoston\t4236\t-7106\t3448\nAmherst\t4237\t-7252\t3448\nWatertown\t4237\t-7118\t3448\nAmherst Center\t4238\t-7252\t3448\nSudbury\t4238\t-7142\t3448\nWaltham\t4238\t-7124\t3448\nCambridge\t4238\t-7111\t3448\nWinthrop\t4238\t-7098\t3448\nSomerville\t4239\t-7110\t3448\nChelsea\t4239\t-7103\t3448\nBelmont\t4240\t-7118\t3448\nEverett\t4241\t-7105\t3448\nRevere\t4241\t-7101\t3448\nArlington\t4242\t-7116\t3448\nMedford\t4242\t-7111\t3448\nMalden\t4243\t-7107\t3448\nPittsfield\t4245\t-7325\t3448\nLexington\t4245\t-7122\t3448\nWinchester\t4245\t-7114\t3448\nConcord\t4246\t-7135\t3448\nMelrose\t4246\t-7107\t3448\nSaugus\t4246\t-7101\t3448\nLynn\t4247\t-7095\t3448\nWoburn\t4248\t-7115\t3448\nStoneham\t4248\t-7110\t3448\nActon\t4249\t-7143\t3448\nBurlington\t4250\t-7120\t3448\nMarblehead\t4250\t-7086\t3448\nWakefield\t4251\t-7107\t3448\nSouth Peabody\t4251\t-7095\t3448\nSalem\t4252\t-7090\t3448\nLeominster\t4253\t-7176\t3448\nReading\t4253\t-7110\t3448\nPeabody\t4253\t-7093\t3448\nWilmington\t4255\t-7117\t3448\nBeverly Cove\t4255\t-7085\t3448\nBillerica\t4256\t-7127\t3448\nBeverly\t4256\t-7088\t3448\nGardner\t4258\t-7200\t3448\nFitchburg\t4258\t-7180\t3448\nWestford\t4258\t-7144\t3448\nDanvers\t4258\t-7093\t3448\nGreenfield\t4259\t-7260\t3448\nChelmsford\t4260\t-7137\t3448\nTewksbury\t4261\t-7123\t3448\nGloucester\t4261\t-7066\t3448\nLowell\t4263\t-7132\t3448\nDracut\t4267\t-7130\t3448\nNorth Andover\t4270\t-7114\t3448\nLawrence\t4271\t-7116\t3448\nMethuen\t4273\t-7119\t3448\nHaverhill\t4278\t-7108\t3448\nNewburyport\t4281\t-7088\t3448\nAmesbury\t4286\t-7093\t3448\nAdrian\t4190\t-8404\t3449\nMonroe\t4192\t-8340\t3449\nTrenton\t4214\t-8318\t3449\nPortage\t4220\t-8558\t3449\nSouthgate\t4221\t-8319\t3449\nWyandotte\t4221\t-8315\t3449\nRomulus\t4222\t-8340\t3449\nYpsilanti\t4224\t-8361\t3449\nTaylor\t4224\t-8327\t3449\nJackson\t4225\t-8440\t3449\nLincoln Park\t4225\t-8318\t3449\nAllen Park\t4226\t-8321\t3449\nAnn Arbor\t4228\t-8374\t3449\nWayne\t4228\t-8339\t3449\nKalamazoo\t4229\t-8559\t3449\nInkster\t4229\t-8331\t3449\nCanton\t4231\t-8348\t3449\nBattle Creek\t4232\t-8518\t3449\nWestland\t4232\t-8340\t3449\nDearborn\t4232\t-8318\t3449\nGarden City\t4233\t-8333\t3449\nDetroit\t4233\t-8305\t3449\nDearborn Heights\t4234\t-8327\t3449\nLivonia\t4237\t-8335\t3449\nRedford\t4238\t-8330\t3449\nHamtramck\t4239\t-8305\t3449\nGrosse Pointe Woods\t4244\t-8291\t3449\nOak Park\t4246\t-8318\t3449\nFerndale\t4246\t-8313\t3449\nHazel Park\t4246\t-8310\t3449\nSouthfield\t4247\t-8322\t3449\nEastpointe\t4247\t-8296\t3449\nNovi\t4248\t-8348\t3449\nFarmington Hills\t4249\t-8338\t3449\nRoyal Oak\t4249\t-8314\t3449\nMadison Heights\t4249\t-8311\t3449\nWarren\t4249\t-8301\t3449\nBerkley\t4250\t-8318\t3449\nRoseville\t4250\t-8294\t3449\nSaint Clair Shores\t4250\t-8289\t3449\nBirmingham\t4255\t-8321\t3449\nWest Bloomfield Township\t4257\t-8338\t3449\nSterling Heights\t4258\t-8303\t3449\nClinton Township\t4259\t-8292\t3449\nMount Clemens\t4260\t-8288\t3449\nTroy\t4261\t-8315\t3449\nHolt\t4264\t-8452\t3449\nPontiac\t4264\t-8329\t3449\nRochester Hills\t4266\t-8315\t3449\nShelby\t4267\t-8303\t3449\nWaterford\t4269\t-8341\t3449\nAuburn Hills\t4269\t-8323\t3449\nOkemos\t4272\t-8443\t3449\nLansing\t4273\t-8456\t3449\nWaverly\t4274\t-8462\t3449\nEast Lansing\t4274\t-8448\t3449\nHaslett\t4275\t-8440\t3449\nHolland\t4279\t-8611\t3449\nKentwood\t4287\t-8564\t3449\nJenison\t4291\t-8579\t3449\nGrandville\t4291\t-8576\t3449\nWyoming\t4291\t-8571\t3449\nGrand Rapids\t4296\t-8567\t3449\nForest Hills\t4296\t-8549\t3449\nAllendale\t4297\t-8595\t3449\nPort Huron\t4297\t-8242\t3449\nWalker\t4300\t-8577\t3449\nBurton\t4300\t-8362\t3449\nFlint\t4301\t-8369\t3449\nNorton Shores\t4317\t-8626\t3449\nMuskegon\t4323\t-8625\t3449\nSaginaw\t4342\t-8395\t3449\nSaginaw Township North\t4346\t-8401\t3449\nBay City\t4359\t-8389\t3449\nMount Pleasant\t4360\t-8477\t3449\nMidland\t4362\t-8425\t3449\nTraverse City\t4476\t-8562\t3449\nMarquette\t4654\t-8740\t3449\nAlbert Lea\t4365\t-9337\t3450\nAustin\t4367\t-9297\t3450\nRochester\t4402\t-9247\t3450\nWinona\t4405\t-9164\t3450\nOwatonna\t4408\t-9323\t3450\nMankato\t4416\t-9401\t3450\nFaribault\t4429\t-9327\t3450\nNorthfield\t4446\t-9316\t3450\nRed Wing\t4456\t-9253\t3450\nFarmington\t4464\t-9314\t3450\nLakeville\t4465\t-9324\t3450\nPrior Lake\t4471\t-9342\t3450\nApple Valley\t4473\t-9322\t3450\nRosemount\t4474\t-9313\t3450\nHastings\t4474\t-9285\t3450\nBurnsville\t4477\t-9328\t3450\nSavage\t4478\t-9334\t3450\nChaska\t4479\t-9360\t3450\nShakopee\t4480\t-9353\t3450\nEagan\t4480\t-9317\t3450\nCottage Grove\t4483\t-9294\t3450\nBloomington\t4484\t-9330\t3450\nEden Prairie\t4485\t-9347\t3450\nInver Grove Heights\t4485\t-9304\t3450\nChanhassen\t4486\t-9353\t3450\nRichfield\t4488\t-9328\t3450\nEdina\t4489\t-9335\t3450\nSouth Saint Paul\t4489\t-9303\t3450\nMinnetonka\t4491\t-9350\t3450\nHopkins\t4492\t-9346\t3450\nWest Saint Paul\t4492\t-9310\t3450\nWoodbury\t4492\t-9296\t3450\nMinnetonka Mills\t4494\t-9344\t3450\nSaint Paul\t4494\t-9309\t3450\nSaint Louis Park\t4495\t-9335\t3450\nMaplewood\t4495\t-9300\t3450\nOakdale\t4496\t-9296\t3450\nMinneapolis\t4498\t-9326\t3450\nPlymouth\t4501\t-9346\t3450\nGolden Valley\t4501\t-9335\t3450\nRoseville\t4501\t-9316\t3450\nCrystal\t4503\t-9336\t3450\nNew Hope\t4504\t-9339\t3450\nColumbia Heights\t4504\t-9326\t3450\nStillwater\t4506\t-9281\t3450\nMaple Grove\t4507\t-9346\t3450\nNew Brighton\t4507\t-9320\t3450\nBrooklyn Center\t4508\t-9333\t3450\nShoreview\t4508\t-9315\t3450\nWhite Bear Lake\t4508\t-9301\t3450\nBrooklyn Park\t4509\t-9336\t3450\nFridley\t4509\t-9326\t3450\nWillmar\t4512\t-9504\t3450\nCoon Rapids\t4512\t-9329\t3450\nWest Coon Rapids\t4516\t-9335\t3450\nBlaine\t4516\t-9323\t3450\nLino Lakes\t4516\t-9309\t3450\nBuffalo\t4517\t-9387\t3450\nChamplin\t4519\t-9340\t3450\nAnoka\t4520\t-9339\t3450\nSaint Michael\t4521\t-9366\t3450\nAndover\t4523\t-9329\t3450\nHam Lake\t4525\t-9325\t3450\nRamsey\t4526\t-9345\t3450\nOtsego\t4527\t-9359\t3450\nForest Lake\t4528\t-9299\t3450\nElk River\t4530\t-9357\t3450\nSaint Cloud\t4556\t-9416\t3450\nSartell\t4562\t-9421\t3450\nDuluth\t4678\t-9211\t3450\nMoorhead\t4687\t-9677\t3450\nHibbing\t4743\t-9294\t3450\nLong Beach\t3035\t-8915\t3451\nGulfport\t3037\t-8909\t3451\nPascagoula\t3037\t-8856\t3451\nGautier\t3039\t-8861\t3451\nWest Gulfport\t3040\t-8909\t3451\nBiloxi\t3040\t-8889\t3451\nOcean Springs\t3041\t-8883\t3451\nHattiesburg\t3133\t-8929\t3451\nNatchez\t3156\t-9140\t3451\nLaurel\t3169\t-8913\t3451\nPearl\t3227\t-9013\t3451\nBrandon\t3227\t-8999\t3451\nJackson\t3230\t-9018\t3451\nClinton\t3234\t-9032\t3451\nVicksburg\t3235\t-9088\t3451\nMeridian\t3236\t-8870\t3451\nRidgeland\t3243\t-9013\t3451\nMadison\t3246\t-9012\t3451\nGreenville\t3341\t-9106\t3451\nStarkville\t3345\t-8882\t3451\nColumbus\t3350\t-8843\t3451\nGreenwood\t3352\t-9018\t3451\nClarksdale\t3420\t-9057\t3451\nTupelo\t3426\t-8870\t3451\nOxford\t3437\t-8952\t3451\nHernando\t3482\t-8999\t3451\nHorn Lake\t3496\t-9003\t3451\nOlive Branch\t3496\t-8983\t3451\nSouthaven\t3499\t-9001\t3451\nPoplar Bluff\t3676\t-9039\t3452\nSikeston\t3688\t-8959\t3452\nOzark\t3702\t-9321\t3452\nNixa\t3704\t-9329\t3452\nJoplin\t3708\t-9451\t3452\nRepublic\t3712\t-9348\t3452\nSpringfield\t3722\t-9330\t3452\nCape Girardeau\t3731\t-8952\t3452\nFort Leonard Wood\t3771\t-9216\t3452\nFarmington\t3778\t-9042\t3452\nRolla\t3795\t-9177\t3452\nArnold\t3843\t-9038\t3452\nOakville\t3847\t-9030\t3452\nMehlville\t3851\t-9032\t3452\nConcord\t3852\t-9036\t3452\nLemay\t3853\t-9028\t3452\nAffton\t3855\t-9033\t3452\nJefferson City\t3858\t-9217\t3452\nWildwood\t3858\t-9066\t3452\nKirkwood\t3858\t-9041\t3452\nWebster Groves\t3859\t-9036\t3452\nBallwin\t3860\t-9055\t3452\nManchester\t3860\t-9051\t3452\nSt. Louis\t3863\t-9020\t3452\nClayton\t3864\t-9032\t3452\nChesterfield\t3866\t-9058\t3452\nCreve Coeur\t3866\t-9042\t3452\nUniversity City\t3866\t-9031\t3452\nSedalia\t3870\t-9323\t3452\nOverland\t3870\t-9036\t3452\nMaryland Heights\t3871\t-9043\t3452\nFerguson\t3874\t-9031\t3452\nWarrensburg\t3876\t-9374\t3452\nHazelwood\t3877\t-9037\t3452\nSaint Charles\t3878\t-9048\t3452\nFlorissant\t3879\t-9032\t3452\nSpanish Lake\t3879\t-9022\t3452\nRaymore\t3880\t-9445\t3452\nSaint Peters\t3880\t-9063\t3452\nBelton\t3881\t-9453\t3452\nWentzville\t3881\t-9085\t3452\nO'Fallon\t3881\t-9070\t3452\nOld Jamestown\t3883\t-9029\t3452\nGrandview\t3889\t-9453\t3452\nLee's Summit\t3891\t-9438\t3452\nColumbia\t3895\t-9233\t3452\nRaytown\t3901\t-9446\t3452\nBlue Springs\t3902\t-9428\t3452\nIndependence\t3909\t-9442\t3452\nKansas City\t3910\t-9458\t3452\nEast Independence\t3910\t-9436\t3452\nGladstone\t3920\t-9455\t3452\nLiberty\t3925\t-9442\t3452\nHannibal\t3971\t-9136\t3452\nSaint Joseph\t3977\t-9485\t3452\nKirksville\t4019\t-9258\t3452\nBozeman\t4568\t-11104\t3453\nBillings\t4578\t-10850\t3453\nButte\t4600\t-11253\t3453\nHelena\t4659\t-11204\t3453\nMissoula\t4687\t-11399\t3453\nGreat Falls\t4750\t-11130\t3453\nKalispell\t4820\t-11431\t3453\nHastings\t4059\t-9839\t3454\nKearney\t4070\t-9908\t3454\nLincoln\t4080\t-9667\t3454\nGrand Island\t4093\t-9834\t3454\nNorth Platte\t4112\t-10077\t3454\nBellevue\t4114\t-9589\t3454\nPapillion\t4115\t-9604\t3454\nLa Vista\t4118\t-9603\t3454\nOmaha\t4126\t-9594\t3454\nColumbus\t4143\t-9737\t3454\nFremont\t4143\t-9650\t3454\nNorfolk\t4203\t-9742\t3454\nBoulder City\t3598\t-11483\t3455\nEnterprise\t3603\t-11524\t3455\nHenderson\t3604\t-11498\t3455\nParadise\t3610\t-11515\t3455\nWhitney\t3610\t-11504\t3455\nSpring Valley\t3611\t-11524\t3455\nSummerlin South\t3612\t-11533\t3455\nWinchester\t3613\t-11512\t3455\nLas Vegas\t3617\t-11514\t3455\nNorth Las Vegas\t3620\t-11512\t3455\nPahrump\t3621\t-11598\t3455\nSunrise Manor\t3621\t-11507\t3455\nMesquite\t3681\t-11407\t3455\nCarson City\t3916\t-11977\t3455\nReno\t3953\t-11981\t3455\nSparks\t3953\t-11975\t3455\nSun Valley\t3960\t-11978\t3455\nFernley\t3961\t-11925\t3455\nSpanish Springs\t3965\t-11971\t3455\nElko\t4083\t-11576\t3455\nNashua\t4277\t-7147\t3456\nSalem\t4279\t-7120\t3456\nMerrimack\t4287\t-7149\t3456\nDerry\t4288\t-7133\t3456\nDerry Village\t4289\t-7131\t3456\nKeene\t4293\t-7228\t3456\nBedford\t4295\t-7152\t3456\nManchester\t4300\t-7145\t3456\nPortsmouth\t4308\t-7076\t3456\nDover\t4320\t-7087\t3456\nConcord\t4321\t-7154\t3456\nEast Concord\t4324\t-7154\t3456\nRochester\t4330\t-7098\t3456\nLaconia\t4353\t-7147\t3456\nAtlantic City\t3936\t-7442\t3457\nPleasantville\t3939\t-7452\t3457\nMillville\t3940\t-7504\t3457\nBridgeton\t3943\t-7523\t3457\nSouth Vineland\t3945\t-7503\t3457\nVineland\t3949\t-7503\t3457\nWilliamstown\t3969\t-7500\t3457\nGlassboro\t3970\t-7511\t3457\nSicklerville\t3972\t-7497\t3457\nOcean Acres\t3974\t-7428\t3457\nJackson\t3978\t-7486\t3457\nLindenwold\t3982\t-7500\t3457\nBayville\t3991\t-7415\t3457\nCamden\t3993\t-7512\t3457\nCherry Hill\t3993\t-7503\t3457\nMount Laurel\t3993\t-7489\t3457\nVincentown\t3993\t-7475\t3457\nMaple Shade\t3995\t-7499\t3457\nToms River\t3995\t-7420\t3457\nPennsauken\t3996\t-7506\t3457\nWillingboro\t4003\t-7487\t3457\nPoint Pleasant\t4008\t-7407\t3457\nLakewood\t4010\t-7422\t3457\nTrenton\t4022\t-7474\t3457\nAsbury Park\t4022\t-7401\t3457\nMercerville-Hamilton Square\t4023\t-7467\t3457\nEwing\t4027\t-7480\t3457\nTinton Falls\t4030\t-7410\t3457\nLong Branch\t4030\t-7399\t3457\nMarlboro\t4032\t-7425\t3457\nPrinceton\t4035\t-7466\t3457\nOld Bridge\t4041\t-7437\t3457\nSouth Old Bridge\t4041\t-7435\t3457\nEast Brunswick\t4043\t-7442\t3457\nSouth River\t4045\t-7439\t3457\nSayreville\t4046\t-7436\t3457\nSayreville Junction\t4047\t-7433\t3457\nVoorhees\t4048\t-7448\t3457\nNew Brunswick\t4049\t-7445\t3457\nSomerset\t4050\t-7449\t3457\nPiscataway\t4050\t-7440\t3457\nPerth Amboy\t4051\t-7427\t3457\nEdison\t4052\t-7441\t3457\nFords\t4053\t-7432\t3457\nWoodbridge\t4056\t-7428\t3457\nColonia\t4057\t-7430\t3457\nSouth Plainfield\t4058\t-7441\t3457\nIselin\t4058\t-7432\t3457\nAvenel\t4058\t-7429\t3457\nCarteret\t4058\t-7423\t3457\nBridgewater\t4060\t-7465\t3457\nWarren Township\t4061\t-7452\t3457\nRahway\t4061\t-7428\t3457\nLinden\t4062\t-7424\t3457\nNorth Plainfield\t4063\t-7443\t3457\nPlainfield\t4063\t-7441\t3457\nRoselle\t4065\t-7426\t3457\nScotch Plains\t4066\t-7439\t3457\nWestfield\t4066\t-7435\t3457\nCranford\t4066\t-7430\t3457\nElizabeth\t4066\t-7421\t3457\nBayonne\t4067\t-7411\t3457\nUnion\t4070\t-7426\t3457\nHillside\t4070\t-7423\t3457\nSummit\t4072\t-7436\t3457\nMaplewood\t4073\t-7427\t3457\nIrvington\t4073\t-7423\t3457\nJersey City\t4073\t-7408\t3457\nNewark\t4074\t-7417\t3457\nHoboken\t4074\t-7403\t3457\nSouth Orange\t4075\t-7426\t3457\nHarrison\t4075\t-7416\t3457\nMadison\t4076\t-7442\t3457\nOrange\t4077\t-7423\t3457\nEast Orange\t4077\t-7420\t3457\nKearny\t4077\t-7415\t3457\nUnion City\t4078\t-7402\t3457\nBelleville\t4079\t-7415\t3457\nNorth Arlington\t4079\t-7413\t3457\nSecaucus\t4079\t-7406\t3457\nWest New York\t4079\t-7401\t3457\nMorristown\t4080\t-7448\t3457\nLivingston\t4080\t-7431\t3457\nWest Orange\t4080\t-7424\t3457\nNorth Bergen\t4080\t-7401\t3457\nBloomfield\t4081\t-7419\t3457\nLyndhurst\t4081\t-7412\t3457\nNutley\t4082\t-7416\t3457\nCliffside Park\t4082\t-7399\t3457\nMontclair\t4083\t-7421\t3457\nRutherford\t4083\t-7411\t3457\nRandolph\t4085\t-7458\t3457\nPalisades Park\t4085\t-7400\t3457\nFort Lee\t4085\t-7397\t3457\nParsippany\t4086\t-7443\t3457\nClifton\t4086\t-7416\t3457\nPassaic\t4086\t-7413\t3457\nDover\t4088\t-7456\t3457\nGarfield\t4088\t-7411\t3457\nLodi\t4088\t-7408\t3457\nHackensack\t4089\t-7404\t3457\nEnglewood\t4089\t-7397\t3457\nElmwood Park\t4090\t-7412\t3457\nTeaneck\t4090\t-7402\t3457\nPaterson\t4092\t-7417\t3457\nWayne\t4093\t-7428\t3457\nBergenfield\t4093\t-7400\t3457\nHopatcong Hills\t4094\t-7467\t3457\nFair Lawn\t4094\t-7413\t3457\nParamus\t4094\t-7408\t3457\nNew Milford\t4094\t-7402\t3457\nDumont\t4094\t-7400\t3457\nHawthorne\t4095\t-7415\t3457\nRidgewood\t4098\t-7412\t3457\nWyckoff\t4101\t-7417\t3457\nSparta\t4103\t-7464\t3457\nRamsey\t4106\t-7414\t3457\nMahwah\t4109\t-7414\t3457\nWest Milford\t4113\t-7437\t3457\nSunland Park\t3180\t-10658\t3458\nLas Cruces\t3231\t-10678\t3458\nCarlsbad\t3242\t-10423\t3458\nHobbs\t3270\t-10314\t3458\nAlamogordo\t3290\t-10596\t3458\nRoswell\t3339\t-10452\t3458\nClovis\t3440\t-10321\t3458\nLos Lunas\t3481\t-10673\t3458\nSouth Valley\t3501\t-10668\t3458\nAlbuquerque\t3508\t-10665\t3458\nRio Rancho\t3523\t-10666\t3458\nEnchanted Hills\t3534\t-10659\t3458\nGallup\t3553\t-10874\t3458\nSanta Fe\t3569\t-10594\t3458\nFarmington\t3673\t-10822\t3458\nWoodrow\t4054\t-7420\t3459\nGreat Kills\t4055\t-7415\t3459\nRossville\t4056\t-7421\t3459\nStaten Island\t4056\t-7414\t3459\nConey Island\t4058\t-7399\t3459\nBrighton Beach\t4058\t-7396\t3459\nNew Springville\t4059\t-7416\t3459\nSheepshead Bay\t4059\t-7394\t3459\nLong Beach\t4059\t-7366\t3459\nBath Beach\t4060\t-7400\t3459\nBensonhurst\t4060\t-7399\t3459\nGravesend\t4060\t-7397\t3459\nEmerson Hill\t4061\t-7410\t3459\nFar Rockaway\t4061\t-7376\t3459\nGraniteville\t4062\t-7415\t3459\nFort Hamilton\t4062\t-7403\t3459\nDyker Heights\t4062\t-7401\t3459\nFlatlands\t4062\t-7393\t3459\nPort Richmond\t4063\t-7414\t3459\nBorough Park\t4063\t-7400\t3459\nWoodmere\t4063\t-7371\t3459\nMariners Harbor\t4064\t-7416\t3459\nCanarsie\t4064\t-7390\t3459\nOceanside\t4064\t-7364\t3459\nKensington\t4065\t-7397\t3459\nFlatbush\t4065\t-7396\t3459\nBrooklyn\t4065\t-7395\t3459\nEast Flatbush\t4065\t-7393\t3459\nLynbrook\t4065\t-7367\t3459\nBrownsville\t4066\t-7392\t3459\nHoward Beach\t4066\t-7384\t3459\nSpringfield Gardens\t4066\t-7376\t3459\nRosedale\t4066\t-7374\t3459\nValley Stream\t4066\t-7371\t3459\nRockville Centre\t4066\t-7364\t3459\nBaldwin\t4066\t-7361\t3459\nFreeport\t4066\t-7358\t3459\nMerrick\t4066\t-7355\t3459\nLaurelton\t4067\t-7375\t3459\nBellmore\t4067\t-7353\t3459\nSeaford\t4067\t-7349\t3459\nEast Massapequa\t4067\t-7344\t3459\nCypress Hills\t4068\t-7389\t3459\nOzone Park\t4068\t-7384\t3459\nQueens\t4068\t-7384\t3459\nRoosevelt\t4068\t-7359\t3459\nWantagh\t4068\t-7351\t3459\nMassapequa\t4068\t-7347\t3459\nMassapequa Park\t4068\t-7346\t3459\nCopiague\t4068\t-7340\t3459\nBushwick\t4069\t-7392\t3459\nWoodhaven\t4069\t-7386\t3459\nJamaica\t4069\t-7381\t3459\nCambria Heights\t4069\t-7374\t3459\nNorth Valley Stream\t4069\t-7370\t3459\nNorth Bellmore\t4069\t-7353\t3459\nLindenhurst\t4069\t-7337\t3459\nGlendale\t4070\t-7389\t3459\nRichmond Hill\t4070\t-7383\t3459\nElmont\t4070\t-7371\t3459\nWest Hempstead\t4070\t-7365\t3459\nUniondale\t4070\t-7359\t3459\nNorth Massapequa\t4070\t-7346\t3459\nNorth Amityville\t4070\t-7343\t3459\nNew York City\t4071\t-7401\t3459\nKew Gardens\t4071\t-7383\t3459\nBriarwood\t4071\t-7382\t3459\nHillside\t4071\t-7379\t3459\nHollis\t4071\t-7377\t3459\nFranklin Square\t4071\t-7368\t3459\nHempstead\t4071\t-7362\t3459\nEast Meadow\t4071\t-7356\t3459\nWest Islip\t4071\t-7331\t3459\nMaspeth\t4072\t-7391\t3459\nMiddle Village\t4072\t-7388\t3459\nForest Hills\t4072\t-7385\t3459\nTerrace Heights\t4072\t-7377\t3459\nFloral Park\t4072\t-7370\t3459\nWest Babylon\t4072\t-7335\t3459\nNorth Babylon\t4072\t-7332\t3459\nRego Park\t4073\t-7385\t3459\nKew Gardens Hills\t4073\t-7382\t3459\nFresh Meadows\t4073\t-7379\t3459\nQueens Village\t4073\t-7374\t3459\nGarden City\t4073\t-7363\t3459\nLevittown\t4073\t-7351\t3459\nBay Shore\t4073\t-7325\t3459\nIslip\t4073\t-7321\t3459\nSunnyside\t4074\t-7394\t3459\nElmhurst\t4074\t-7388\t3459\nBethpage\t4074\t-7348\t3459\nNorth Bay Shore\t4074\t-7326\t3459\nSayville\t4074\t-7308\t3459\nWoodside\t4075\t-7391\t3459\nCorona\t4075\t-7386\t3459\nMineola\t4075\t-7364\t3459\nJackson Heights\t4076\t-7389\t3459\nEast Elmhurst\t4076\t-7387\t3459\nWestbury\t4076\t-7359\t3459\nDeer Park\t4076\t-7333\t3459\nAstoria\t4077\t-7393\t3459\nBayside\t4077\t-7378\t3459\nHicksville\t4077\t-7353\t3459\nEast Patchogue\t4077\t-7300\t3459\nManhattan\t4078\t-7397\t3459\nPlainview\t4078\t-7347\t3459\nBrentwood\t4078\t-7325\t3459\nEast Harlem\t4079\t-7394\t3459\nCollege Point\t4079\t-7385\t3459\nWhitestone\t4079\t-7382\t3459\nMelville\t4079\t-7342\t3459\nCentral Islip\t4079\t-7320\t3459\nDix Hills\t4080\t-7334\t3459\nShirley\t4080\t-7287\t3459\nMastic\t4080\t-7284\t3459\nMott Haven\t4081\t-7392\t3459\nHunts Point\t4081\t-7388\t3459\nHolbrook\t4081\t-7308\t3459\nMelrose\t4082\t-7391\t3459\nThrogs Neck\t4082\t-7382\t3459\nRonkonkoma\t4082\t-7311\t3459\nHoltsville\t4082\t-7305\t3459\nMedford\t4082\t-7300\t3459\nMorrisania\t4083\t-7391\t3459\nUnionport\t4083\t-7385\t3459\nPort Washington\t4083\t-7370\t3459\nSyosset\t4083\t-7350\t3459\nHauppauge\t4083\t-7320\t3459\nFarmingville\t4083\t-7303\t3459\nParkchester\t4084\t-7386\t3459\nCommack\t4084\t-7329\t3459\nLake Ronkonkoma\t4084\t-7313\t3459\nWashington Heights\t4085\t-7394\t3459\nMorris Heights\t4085\t-7392\t3459\nTremont\t4085\t-7391\t3459\nEast Tremont\t4085\t-7389\t3459\nThe Bronx\t4085\t-7387\t3459\nHuntington Station\t4085\t-7341\t3459\nUniversity Heights\t4086\t-7391\t3459\nFordham\t4086\t-7390\t3459\nGlen Cove\t4086\t-7363\t3459\nSmithtown\t4086\t-7320\t3459\nCentereach\t4086\t-7310\t3459\nBaychester\t4087\t-7384\t3459\nHuntington\t4087\t-7343\t3459\nSelden\t4087\t-7304\t3459\nCoram\t4087\t-7300\t3459\nKings Bridge\t4088\t-7391\t3459\nEast Northport\t4088\t-7332\t3459\nKings Park\t4089\t-7326\t3459\nWakefield\t4090\t-7385\t3459\nMount Vernon\t4091\t-7384\t3459\nNew Rochelle\t4091\t-7378\t3459\nYonkers\t4093\t-7390\t3459\nSetauket-East Setauket\t4093\t-7310\t3459\nEast Setauket\t4094\t-7311\t3459\nMamaroneck\t4095\t-7373\t3459\nHarrison\t4097\t-7371\t3459\nRye\t4098\t-7368\t3459\nPort Chester\t4100\t-7367\t3459\nScarsdale\t4101\t-7378\t3459\nGreenburgh\t4103\t-7384\t3459\nWhite Plains\t4103\t-7376\t3459\nPearl River\t4106\t-7402\t3459\nNanuet\t4109\t-7401\t3459\nMonsey\t4111\t-7407\t3459\nSpring Valley\t4111\t-7404\t3459\nNew City\t4115\t-7399\t3459\nOssining\t4116\t-7386\t3459\nPeekskill\t4129\t-7392\t3459\nKiryas Joel\t4134\t-7417\t3459\nMiddletown\t4145\t-7442\t3459\nNewburgh\t4150\t-7401\t3459\nPoughkeepsie\t4170\t-7392\t3459\nKingston\t4193\t-7400\t3459\nElmira\t4209\t-7681\t3459\nJamestown\t4210\t-7924\t3459\nBinghamton\t4210\t-7592\t3459\nIthaca\t4244\t-7650\t3459\nCortland\t4260\t-7618\t3459\nAlbany\t4265\t-7376\t3459\nWest Albany\t4268\t-7378\t3459\nTroy\t4273\t-7369\t3459\nLatham\t4275\t-7376\t3459\nCohoes\t4277\t-7370\t3459\nRotterdam\t4279\t-7397\t3459\nSchenectady\t4281\t-7394\t3459\nLackawanna\t4283\t-7882\t3459\nWest Seneca\t4285\t-7880\t3459\nBuffalo\t4289\t-7888\t3459\nCheektowaga\t4290\t-7875\t3459\nDepew\t4290\t-7869\t3459\nAuburn\t4293\t-7657\t3459\nAmsterdam\t4294\t-7419\t3459\nEggertsville\t4296\t-7880\t3459\nKenmore\t4297\t-7887\t3459\nAmherst\t4298\t-7880\t3459\nBatavia\t4300\t-7819\t3459\nGrand Island\t4303\t-7896\t3459\nNorth Tonawanda\t4304\t-7886\t3459\nSyracuse\t4305\t-7615\t3459\nGloversville\t4305\t-7434\t3459\nSaratoga Springs\t4308\t-7378\t3459\nNiagara Falls\t4309\t-7906\t3459\nUtica\t4310\t-7523\t3459\nRochester\t4315\t-7762\t3459\nBrighton\t4315\t-7755\t3459\nLockport\t4317\t-7869\t3459\nGates-North Gates\t4317\t-7770\t3459\nIrondequoit\t4321\t-7758\t3459\nRome\t4321\t-7546\t3459\nQueensbury\t4338\t-7361\t3459\nOswego\t4346\t-7651\t3459\nWatertown\t4397\t-7591\t3459\nPlattsburgh\t4470\t-7345\t3459\nWilmington\t3423\t-7794\t3460\nLeland\t3426\t-7804\t3460\nLumberton\t3462\t-7901\t3460\nJacksonville\t3475\t-7743\t3460\nLaurinburg\t3477\t-7946\t3460\nHavelock\t3488\t-7690\t3460\nHope Mills\t3497\t-7895\t3460\nMonroe\t3499\t-8055\t3460\nFayetteville\t3505\t-7888\t3460\nIndian Trail\t3508\t-8067\t3460\nStallings\t3509\t-8069\t3460\nNew Bern\t3511\t-7704\t3460\nMatthews\t3512\t-8072\t3460\nFort Bragg\t3514\t-7901\t3460\nMint Hill\t3518\t-8065\t3460\nPinehurst\t3520\t-7947\t3460\nCharlotte\t3523\t-8084\t3460\nGastonia\t3526\t-8119\t3460\nKinston\t3526\t-7758\t3460\nShelby\t3529\t-8154\t3460\nAlbemarle\t3535\t-8020\t3460\nGoldsboro\t3538\t-7799\t3460\nHuntersville\t3541\t-8084\t3460\nConcord\t3541\t-8058\t3460\nSanford\t3548\t-7918\t3460\nCornelius\t3549\t-8086\t3460\nKannapolis\t3549\t-8062\t3460\nMooresville\t3558\t-8081\t3460\nFuquay-Varina\t3558\t-7880\t3460\nAsheville\t3560\t-8255\t3460\nGreenville\t3561\t-7737\t3460\nHolly Springs\t3565\t-7883\t3460\nClayton\t3565\t-7846\t3460\nSalisbury\t3567\t-8047\t3460\nAsheboro\t3571\t-7981\t3460\nGarner\t3571\t-7861\t3460\nWilson\t3572\t-7792\t3460\nHickory\t3573\t-8134\t3460\nApex\t3573\t-7885\t3460\nMorganton\t3575\t-8168\t3460\nRaleigh\t3577\t-7864\t3460\nStatesville\t3578\t-8089\t3460\nCary\t3579\t-7878\t3460\nLexington\t3582\t-8025\t3460\nMorrisville\t3582\t-7883\t3460\nThomasville\t3588\t-8008\t3460\nLenoir\t3591\t-8154\t3460\nCarrboro\t3591\t-7908\t3460\nChapel Hill\t3591\t-7906\t3460\nRocky Mount\t3594\t-7779\t3460\nHigh Point\t3596\t-8001\t3460\nWake Forest\t3598\t-7851\t3460\nDurham\t3599\t-7890\t3460\nClemmons\t3602\t-8038\t3460\nGreensboro\t3607\t-7979\t3460\nWinston-Salem\t3610\t-8024\t3460\nBurlington\t3610\t-7944\t3460\nKernersville\t3612\t-8007\t3460\nBoone\t3622\t-8167\t3460\nElizabeth City\t3629\t-7625\t3460\nHenderson\t3633\t-7840\t3460\nRoanoke Rapids\t3646\t-7765\t3460\nEden\t3649\t-7977\t3460\nBismarck\t4681\t-10078\t3461\nMandan\t4683\t-10089\t3461\nWest Fargo\t4687\t-9690\t3461\nDickinson\t4688\t-10279\t3461\nFargo\t4688\t-9679\t3461\nJamestown\t4691\t-9871\t3461\nGrand Forks\t4793\t-9703\t3461\nWilliston\t4815\t-10362\t3461\nMinot\t4823\t-10130\t3461\nPortsmouth\t3873\t-8300\t3462\nCincinnati\t3913\t-8451\t3462\nNorwood\t3916\t-8446\t3462\nWhite Oak\t3921\t-8460\t3462\nForest Park\t3929\t-8450\t3462\nChillicothe\t3933\t-8298\t3462\nAthens\t3933\t-8210\t3462\nFairfield\t3935\t-8456\t3462\nMason\t3936\t-8431\t3462\nHamilton\t3940\t-8456\t3462\nLebanon\t3944\t-8420\t3462\nOxford\t3951\t-8475\t3462\nMiddletown\t3952\t-8440\t3462\nSpringboro\t3955\t-8423\t3462\nCenterville\t3963\t-8416\t3462\nMiamisburg\t3964\t-8429\t3462\nXenia\t3968\t-8393\t3462\nKettering\t3969\t-8417\t3462\nBeavercreek\t3971\t-8406\t3462\nLancaster\t3971\t-8260\t3462\nDayton\t3976\t-8419\t3462\nRiverside\t3978\t-8412\t3462\nTrotwood\t3980\t-8431\t3462\nFairborn\t3982\t-8402\t3462\nHuber Heights\t3984\t-8412\t3462\nGrove City\t3988\t-8309\t3462\nPickerington\t3988\t-8275\t3462\nVandalia\t3989\t-8420\t3462\nSpringfield\t3992\t-8381\t3462\nZanesville\t3994\t-8201\t3462\nReynoldsburg\t3995\t-8281\t3462\nColumbus\t3996\t-8300\t3462\nWhitehall\t3997\t-8289\t3462\nUpper Arlington\t3999\t-8306\t3462\nPataskala\t4000\t-8267\t3462\nGahanna\t4002\t-8288\t3462\nHilliard\t4003\t-8316\t3462\nTroy\t4004\t-8420\t3462\nNewark\t4006\t-8240\t3462\nDublin\t4010\t-8311\t3462\nWesterville\t4013\t-8293\t3462\nPiqua\t4014\t-8424\t3462\nMarysville\t4024\t-8337\t3462\nSidney\t4028\t-8416\t3462\nDelaware\t4030\t-8307\t3462\nSteubenville\t4037\t-8063\t3462\nMount Vernon\t4039\t-8249\t3462\nNew Philadelphia\t4049\t-8145\t3462\nMarion\t4059\t-8313\t3462\nLima\t4074\t-8411\t3462\nMansfield\t4076\t-8252\t3462\nMassillon\t4080\t-8152\t3462\nCanton\t4080\t-8138\t3462\nWooster\t4081\t-8194\t3462\nAshland\t4087\t-8232\t3462\nNorth Canton\t4088\t-8140\t3462\nAlliance\t4092\t-8111\t3462\nGreen\t4095\t-8148\t3462\nBarberton\t4101\t-8161\t3462\nBoardman\t4102\t-8066\t3462\nWadsworth\t4103\t-8173\t3462\nFindlay\t4104\t-8365\t3462\nAkron\t4108\t-8152\t3462\nTallmadge\t4110\t-8144\t3462\nAustintown\t4110\t-8076\t3462\nYoungstown\t4110\t-8065\t3462\nTiffin\t4111\t-8318\t3462\nCuyahoga Falls\t4113\t-8148\t3462\nMedina\t4114\t-8186\t3462\nKent\t4115\t-8136\t3462\nStow\t4116\t-8144\t3462\nNiles\t4118\t-8077\t3462\nNorwalk\t4124\t-8262\t3462\nBrunswick\t4124\t-8184\t3462\nHudson\t4124\t-8144\t3462\nStreetsboro\t4124\t-8135\t3462\nWarren\t4124\t-8082\t3462\nDefiance\t4128\t-8436\t3462\nStrongsville\t4131\t-8184\t3462\nNorth Royalton\t4131\t-8172\t3462\nBroadview Heights\t4131\t-8169\t3462\nTwinsburg\t4131\t-8144\t3462\nAurora\t4132\t-8135\t3462\nFremont\t4135\t-8312\t3462\nMiddleburg Heights\t4136\t-8181\t3462\nBowling Green\t4137\t-8365\t3462\nElyria\t4137\t-8211\t3462\nBerea\t4137\t-8185\t3462\nNorth Ridgeville\t4139\t-8202\t3462\nParma Heights\t4139\t-8176\t3462\nSolon\t4139\t-8144\t3462\nBrook Park\t4140\t-8180\t3462\nParma\t4140\t-8172\t3462\nNorth Olmsted\t4142\t-8192\t3462\nGarfield Heights\t4142\t-8161\t3462\nMaple Heights\t4142\t-8157\t3462\nFairview Park\t4144\t-8186\t3462\nSandusky\t4145\t-8271\t3462\nLorain\t4145\t-8218\t3462\nAvon\t4145\t-8204\t3462\nAvon Center\t4146\t-8202\t3462\nWestlake\t4146\t-8192\t3462\nClark-Fulton\t4146\t-8171\t3462\nShaker Heights\t4147\t-8154\t3462\nBay Village\t4148\t-8192\t3462\nRocky River\t4148\t-8184\t3462\nLakewood\t4148\t-8180\t3462\nDetroit-Shoreway\t4148\t-8173\t3462\nCleveland\t4150\t-8170\t3462\nAvon Lake\t4151\t-8203\t3462\nHough\t4151\t-8164\t3462\nCleveland Heights\t4152\t-8156\t3462\nSouth Euclid\t4152\t-8152\t3462\nMayfield Heights\t4152\t-8146\t3462\nGlenville\t4153\t-8162\t3462\nEast Cleveland\t4153\t-8158\t3462\nPerrysburg\t4156\t-8363\t3462\nCollinwood\t4156\t-8157\t3462\nEuclid\t4159\t-8153\t3462\nOregon\t4164\t-8349\t3462\nWilloughby\t4164\t-8141\t3462\nEastlake\t4165\t-8145\t3462\nToledo\t4166\t-8356\t3462\nMentor\t4167\t-8134\t3462\nSylvania\t4172\t-8371\t3462\nPainesville\t4172\t-8125\t3462\nAshtabula\t4187\t-8079\t3462\nDurant\t3399\t-9637\t3463\nArdmore\t3417\t-9714\t3463\nDuncan\t3450\t-9796\t3463\nLawton\t3461\t-9839\t3463\nAltus\t3464\t-9933\t3463\nAda\t3477\t-9668\t3463\nMcAlester\t3493\t-9577\t3463\nChickasha\t3505\t-9794\t3463\nNorman\t3522\t-9744\t3463\nShawnee\t3533\t-9693\t3463\nMoore\t3534\t-9749\t3463\nMustang\t3538\t-9772\t3463\nDel City\t3544\t-9744\t3463\nMidwest City\t3545\t-9740\t3463\nOklahoma City\t3547\t-9752\t3463\nYukon\t3551\t-9776\t3463\nBethany\t3552\t-9763\t3463\nEl Reno\t3553\t-9796\t3463\nEdmond\t3565\t-9748\t3463\nMuskogee\t3575\t-9537\t3463\nTahlequah\t3592\t-9497\t3463\nBixby\t3594\t-9588\t3463\nSapulpa\t3600\t-9611\t3463\nJenks\t3602\t-9597\t3463\nBroken Arrow\t3605\t-9579\t3463\nStillwater\t3612\t-9706\t3463\nSand Springs\t3614\t-9611\t3463\nTulsa\t3615\t-9599\t3463\nOwasso\t3627\t-9585\t3463\nClaremore\t3631\t-9562\t3463\nEnid\t3640\t-9788\t3463\nPonca City\t3671\t-9709\t3463\nBartlesville\t3675\t-9598\t3463\nAshland\t4219\t-12271\t3464\nAltamont\t4221\t-12174\t3464\nKlamath Falls\t4222\t-12178\t3464\nMedford\t4233\t-12288\t3464\nCentral Point\t4238\t-12292\t3464\nGrants Pass\t4244\t-12333\t3464\nRoseburg\t4322\t-12334\t3464\nCoos Bay\t4337\t-12422\t3464\nEugene\t4405\t-12309\t3464\nSpringfield\t4405\t-12302\t3464\nBend\t4406\t-12132\t3464\nRedmond\t4427\t-12117\t3464\nLebanon\t4454\t-12291\t3464\nCorvallis\t4456\t-12326\t3464\nAlbany\t4464\t-12311\t3464\nDallas\t4492\t-12332\t3464\nFour Corners\t4493\t-12298\t3464\nSalem\t4494\t-12304\t3464\nKeizer\t4499\t-12303\t3464\nHayesville\t4499\t-12298\t3464\nWoodburn\t4514\t-12286\t3464\nMcMinnville\t4521\t-12320\t3464\nCanby\t4526\t-12269\t3464\nNewberg\t4530\t-12297\t3464\nWilsonville\t4530\t-12277\t3464\nSherwood\t4536\t-12284\t3464\nOregon City\t4536\t-12261\t3464\nWest Linn\t4537\t-12261\t3464\nTualatin\t4538\t-12276\t3464\nLake Oswego\t4542\t-12267\t3464\nOak Grove\t4542\t-12264\t3464\nTigard\t4543\t-12277\t3464\nMilwaukie\t4545\t-12264\t3464\nHappy Valley\t4545\t-12253\t3464\nAloha\t4549\t-12287\t3464\nBeaverton\t4549\t-12280\t3464\nGresham\t4550\t-12243\t3464\nForest Grove\t4552\t-12311\t3464\nHillsboro\t4552\t-12299\t3464\nPortland\t4552\t-12268\t3464\nTroutdale\t4554\t-12239\t3464\nBethany\t4556\t-12287\t3464\nThe Dalles\t4559\t-12118\t3464\nPendleton\t4567\t-11879\t3464\nHermiston\t4584\t-11929\t3464\nHanover\t3980\t-7698\t3465\nChester\t3985\t-7536\t3465\nSpringfield\t3993\t-7532\t3465\nChambersburg\t3994\t-7766\t3465\nDrexel Hill\t3995\t-7529\t3465\nPhiladelphia\t3995\t-7516\t3465\nYork\t3996\t-7673\t3465\nWest Chester\t3996\t-7561\t3465\nLancaster\t4004\t-7631\t3465\nWayne\t4004\t-7539\t3465\nRadnor\t4005\t-7536\t3465\nKing of Prussia\t4009\t-7540\t3465\nNorristown\t4012\t-7534\t3465\nPhoenixville\t4013\t-7551\t3465\nWillow Grove\t4014\t-7512\t3465\nLevittown\t4016\t-7483\t3465\nCarlisle\t4020\t-7719\t3465\nLimerick\t4023\t-7552\t3465\nLansdale\t4024\t-7528\t3465\nPottstown\t4025\t-7565\t3465\nHarrisburg\t4027\t-7688\t3465\nBethel Park\t4033\t-8004\t3465\nJohnstown\t4033\t-7892\t3465\nUpper Saint Clair\t4034\t-8008\t3465\nBaldwin\t4034\t-7998\t3465\nLebanon\t4034\t-7641\t3465\nReading\t4034\t-7593\t3465\nMcKeesport\t4035\t-7986\t3465\nMount Lebanon\t4036\t-8005\t3465\nWest Mifflin\t4036\t-7987\t3465\nMonroeville\t4042\t-7979\t3465\nMurrysville\t4043\t-7970\t3465\nPittsburgh\t4044\t-8000\t3465\nWilkinsburg\t4044\t-7988\t3465\nPlum\t4050\t-7975\t3465\nAltoona\t4052\t-7839\t3465\nAllison Park\t4056\t-7996\t3465\nAllentown\t4061\t-7549\t3465\nBethlehem\t4063\t-7537\t3465\nWhitehall Township\t4067\t-7550\t3465\nCranberry Township\t4068\t-8011\t3465\nEaston\t4069\t-7522\t3465\nState College\t4079\t-7786\t3465\nHazleton\t4096\t-7597\t3465\nNew Castle\t4100\t-8035\t3465\nHermitage\t4123\t-8045\t3465\nWilliamsport\t4124\t-7700\t3465\nWilkes-Barre\t4125\t-7588\t3465\nBack Mountain\t4134\t-7600\t3465\nScranton\t4141\t-7566\t3465\nErie\t4213\t-8009\t3465\nWesterly\t4138\t-7183\t3466\nSouth Kingstown\t4145\t-7152\t3466\nNarragansett\t4145\t-7145\t3466\nNewport\t4149\t-7131\t3466\nNorth Kingstown\t4155\t-7147\t3466\nMiddletown\t4155\t-7129\t3466\nPortsmouth\t4160\t-7125\t3466\nBristol\t4168\t-7127\t3466\nCoventry\t4170\t-7168\t3466\nWest Warwick\t4170\t-7152\t3466\nWarwick\t4170\t-7142\t3466\nBarrington\t4174\t-7131\t3466\nCranston\t4178\t-7144\t3466\nEast Providence\t4181\t-7137\t3466\nJohnston\t4182\t-7151\t3466\nProvidence\t4182\t-7141\t3466\nNorth Providence\t4185\t-7147\t3466\nPawtucket\t4188\t-7138\t3466\nCentral Falls\t4189\t-7139\t3466\nSmithfield\t4192\t-7155\t3466\nLincoln\t4192\t-7143\t3466\nCumberland\t4197\t-7143\t3466\nWoonsocket\t4200\t-7151\t3466\nHilton Head Island\t3219\t-8074\t3467\nHilton Head\t3222\t-8075\t3467\nBluffton\t3224\t-8086\t3467\nCharleston\t3278\t-7993\t3467\nMount Pleasant\t3279\t-7986\t3467\nNorth Charleston\t3285\t-7997\t3467\nHanahan\t3292\t-8002\t3467\nGoose Creek\t3298\t-8003\t3467\nSummerville\t3302\t-8018\t3467\nNorth Augusta\t3350\t-8197\t3467\nAiken\t3356\t-8172\t3467\nSocastee\t3368\t-7900\t3467\nMyrtle Beach\t3369\t-7889\t3467\nNorth Myrtle Beach\t3382\t-7868\t3467\nConway\t3384\t-7905\t3467\nSumter\t3392\t-8034\t3467\nLexington\t3398\t-8124\t3467\nWest Columbia\t3399\t-8107\t3467\nColumbia\t3400\t-8103\t3467\nSeven Oaks\t3405\t-8115\t3467\nSaint Andrews\t3405\t-8113\t3467\nGreenwood\t3420\t-8216\t3467\nFlorence\t3420\t-7976\t3467\nAnderson\t3450\t-8265\t3467\nClemson\t3468\t-8284\t3467\nSimpsonville\t3474\t-8225\t3467\nMauldin\t3478\t-8231\t3467\nEasley\t3483\t-8260\t3467\nGreenville\t3485\t-8239\t3467\nWade Hampton\t3490\t-8233\t3467\nTaylors\t3492\t-8230\t3467\nRock Hill\t3492\t-8103\t3467\nGreer\t3494\t-8223\t3467\nSpartanburg\t3495\t-8193\t3467\nSioux Falls\t4355\t-9670\t3468\nMitchell\t4371\t-9803\t3468\nRapid City\t4408\t-10323\t3468\nBrookings\t4431\t-9680\t3468\nPierre\t4437\t-10035\t3468\nWatertown\t4490\t-9712\t3468\nAberdeen\t4546\t-9849\t3468\nEast Brainerd\t3500\t-8515\t3469\nEast Ridge\t3501\t-8525\t3469\nCollierville\t3504\t-8966\t3469\nChattanooga\t3505\t-8531\t3469\nEast Chattanooga\t3507\t-8525\t3469\nGermantown\t3509\t-8981\t3469\nMemphis\t3515\t-9005\t3469\nCleveland\t3516\t-8488\t3469\nBartlett\t3520\t-8987\t3469\nTullahoma\t3536\t-8621\t3469\nShelbyville\t3548\t-8646\t3469\nJackson\t3561\t-8881\t3469\nColumbia\t3562\t-8704\t3469\nSpring Hill\t3575\t-8693\t3469\nMaryville\t3576\t-8397\t3469\nMurfreesboro\t3585\t-8639\t3469\nSevierville\t3587\t-8356\t3469\nFarragut\t3588\t-8415\t3469\nFranklin\t3593\t-8687\t3469\nKnoxville\t3596\t-8392\t3469\nSmyrna\t3598\t-8652\t3469\nOak Ridge\t3601\t-8427\t3469\nLa Vergne\t3602\t-8658\t3469\nDyersburg\t3603\t-8939\t3469\nBrentwood\t3603\t-8678\t3469\nDickson\t3608\t-8739\t3469\nCookeville\t3616\t-8550\t3469\nGreeneville\t3616\t-8283\t3469\nNashville\t3617\t-8678\t3469\nMount Juliet\t3620\t-8652\t3469\nLebanon\t3621\t-8629\t3469\nMorristown\t3621\t-8329\t3469\nHendersonville\t3630\t-8662\t3469\nJohnson City\t3631\t-8235\t3469\nGoodlettsville\t3632\t-8671\t3469\nGallatin\t3639\t-8645\t3469\nSpringfield\t3651\t-8688\t3469\nClarksville\t3653\t-8736\t3469\nKingsport\t3655\t-8256\t3469\nBristol\t3660\t-8219\t3469\nBrownsville\t2590\t-9750\t3470\nSan Benito\t2613\t-9763\t3470\nMercedes\t2615\t-9791\t3470\nWeslaco\t2616\t-9799\t3470\nDonna\t2617\t-9805\t3470\nAlamo\t2618\t-9812\t3470\nPharr\t2619\t-9818\t3470\nSan Juan\t2619\t-9816\t3470\nHarlingen\t2619\t-9770\t3470\nMcAllen\t2620\t-9823\t3470\nMission\t2622\t-9833\t3470\nAlton\t2629\t-9831\t3470\nEdinburg\t2630\t-9816\t3470\nLaredo\t2751\t-9951\t3470\nKingsville\t2752\t-9786\t3470\nAlice\t2775\t-9807\t3470\nCorpus Christi\t2780\t-9740\t3470\nPortland\t2788\t-9732\t3470\nEagle Pass\t2871\t-10050\t3470\nVictoria\t2881\t-9700\t3470\nBay City\t2898\t-9597\t3470\nLake Jackson\t2903\t-9543\t3470\nAngleton\t2917\t-9543\t3470\nUvalde\t2921\t-9979\t3470\nGalveston\t2930\t-9480\t3470\nDel Rio\t2936\t-10090\t3470\nLa Marque\t2937\t-9497\t3470\nTexas City\t2938\t-9490\t3470\nSan Antonio\t2942\t-9849\t3470\nAlvin\t2942\t-9524\t3470\nDickinson\t2946\t-9505\t3470\nLeague City\t2951\t-9509\t3470\nConverse\t2952\t-9832\t3470\nFriendswood\t2953\t-9520\t3470\nFresno\t2954\t-9545\t3470\nUniversal City\t2955\t-9829\t3470\nSchertz\t2955\t-9827\t3470\nCibolo\t2956\t-9823\t3470\nRosenberg\t2956\t-9581\t3470\nPearland\t2956\t-9529\t3470\nLive Oak\t2957\t-9834\t3470\nSeguin\t2957\t-9796\t3470\nNew Territory\t2959\t-9568\t3470\nSugar Land\t2962\t-9563\t3470\nStafford\t2962\t-9556\t3470\nMissouri City\t2962\t-9554\t3470\nPecan Grove\t2963\t-9573\t3470\nSouth Houston\t2966\t-9524\t3470\nLa Porte\t2967\t-9502\t3470\nMission Bend\t2969\t-9566\t3470\nPasadena\t2969\t-9521\t3470\nNew Braunfels\t2970\t-9812\t3470\nAlief\t2971\t-9560\t3470\nBellaire\t2971\t-9546\t3470\nDeer Park\t2971\t-9512\t3470\nWest University Place\t2972\t-9543\t3470\nCinco Ranch\t2974\t-9576\t3470\nBaytown\t2974\t-9498\t3470\nHouston\t2976\t-9536\t3470\nCloverleaf\t2978\t-9517\t3470\nChannelview\t2978\t-9511\t3470\nKaty\t2979\t-9582\t3470\nCanyon Lake\t2988\t-9826\t3470\nSan Marcos\t2988\t-9794\t3470\nPort Arthur\t2989\t-9394\t3470\nAldine\t2993\t-9538\t3470\nGroves\t2995\t-9392\t3470\nCypress\t2997\t-9570\t3470\nNederland\t2997\t-9399\t3470\nKyle\t2999\t-9788\t3470\nHumble\t3000\t-9526\t3470\nAtascocita\t3000\t-9518\t3470\nKerrville\t3005\t-9914\t3470\nSpring\t3008\t-9542\t3470\nBeaumont\t3009\t-9410\t3470\nOrange\t3009\t-9374\t3470\nThe Woodlands\t3016\t-9549\t3470\nBrenham\t3017\t-9640\t3470\nAustin\t3027\t-9774\t3470\nConroe\t3031\t-9546\t3470\nJollyville\t3044\t-9778\t3470\nPflugerville\t3044\t-9762\t3470\nCedar Park\t3051\t-9782\t3470\nBrushy Creek\t3051\t-9774\t3470\nRound Rock\t3051\t-9768\t3470\nHutto\t3054\t-9755\t3470\nTaylor\t3057\t-9741\t3470\nLeander\t3058\t-9785\t3470\nGeorgetown\t3063\t-9768\t3470\nCollege Station\t3063\t-9633\t3470\nBryan\t3067\t-9637\t3470\nHuntsville\t3072\t-9555\t3470\nBelton\t3106\t-9746\t3470\nHarker Heights\t3108\t-9766\t3470\nTemple\t3110\t-9734\t3470\nCopperas Cove\t3112\t-9790\t3470\nKilleen\t3112\t-9773\t3470\nFort Hood\t3113\t-9778\t3470\nLufkin\t3134\t-9473\t3470\nGatesville\t3144\t-9774\t3470\nSan Angelo\t3146\t-10044\t3470\nWaco\t3155\t-9715\t3470\nNacogdoches\t3160\t-9466\t3470\nSocorro Mission Number 1 Colonia\t3164\t-10629\t3470\nSocorro\t3165\t-10630\t3470\nHorizon City\t3169\t-10621\t3470\nBrownwood\t3171\t-9899\t3470\nEl Paso\t3176\t-10649\t3470\nPalestine\t3176\t-9563\t3470\nWest Odessa\t3184\t-10250\t3470\nOdessa\t3185\t-10237\t3470\nMidland\t3200\t-10208\t3470\nCorsicana\t3210\t-9647\t3470\nStephenville\t3222\t-9820\t3470\nBig Spring\t3225\t-10148\t3470\nEnnis\t3233\t-9663\t3470\nCleburne\t3235\t-9739\t3470\nTyler\t3235\t-9530\t3470\nWaxahachie\t3239\t-9685\t3470\nAbilene\t3245\t-9973\t3470\nMidlothian\t3248\t-9699\t3470\nLongview\t3250\t-9474\t3470\nBurleson\t3254\t-9732\t3470\nMarshall\t3254\t-9437\t3470\nMansfield\t3256\t-9714\t3470\nCedar Hill\t3259\t-9696\t3470\nDeSoto\t3259\t-9686\t3470\nLancaster\t3259\t-9676\t3470\nSeagoville\t3264\t-9654\t3470\nDuncanville\t3265\t-9691\t3470\nBenbrook\t3267\t-9746\t3470\nFort Worth\t3273\t-9732\t3470\nBalch Springs\t3273\t-9662\t3470\nArlington\t3274\t-9711\t3470\nTerrell\t3274\t-9628\t3470\nGrand Prairie\t3275\t-9700\t3470\nForney\t3275\t-9647\t3470\nWeatherford\t3276\t-9780\t3470\nWhite Settlement\t3276\t-9746\t3470\nMesquite\t3277\t-9660\t3470\nDallas\t3278\t-9681\t3470\nHaltom City\t3280\t-9727\t3470\nIrving\t3281\t-9695\t3470\nHurst\t3282\t-9717\t3470\nNorth Richland Hills\t3283\t-9723\t3470\nBedford\t3284\t-9714\t3470\nEuless\t3284\t-9708\t3470\nUniversity Park\t3285\t-9680\t3470\nSaginaw\t3286\t-9736\t3470\nWatauga\t3286\t-9725\t3470\nColleyville\t3288\t-9716\t3470\nRowlett\t3290\t-9656\t3470\nGarland\t3291\t-9664\t3470\nKeller\t3293\t-9725\t3470\nGrapevine\t3293\t-9708\t3470\nFarmers Branch\t3293\t-9690\t3470\nRockwall\t3293\t-9646\t3470\nSouthlake\t3294\t-9713\t3470\nCoppell\t3295\t-9702\t3470\nCarrollton\t3295\t-9689\t3470\nRichardson\t3295\t-9673\t3470\nAddison\t3296\t-9683\t3470\nSachse\t3298\t-9660\t3470\nFlower Mound\t3301\t-9710\t3470\nPlano\t3302\t-9670\t3470\nMurphy\t3302\t-9661\t3470\nWylie\t3302\t-9654\t3470\nLewisville\t3305\t-9699\t3470\nHighland Village\t3309\t-9705\t3470\nThe Colony\t3309\t-9689\t3470\nAllen\t3310\t-9667\t3470\nGreenville\t3314\t-9611\t3470\nSulphur Springs\t3314\t-9560\t3470\nCorinth\t3315\t-9706\t3470\nFrisco\t3315\t-9682\t3470\nLittle Elm\t3316\t-9694\t3470\nMount Pleasant\t3316\t-9497\t3470\nMcKinney\t3320\t-9662\t3470\nDenton\t3321\t-9713\t3470\nProsper\t3324\t-9680\t3470\nTexarkana\t3343\t-9405\t3470\nLubbock\t3358\t-10186\t3470\nGainesville\t3363\t-9713\t3470\nSherman\t3364\t-9661\t3470\nParis\t3366\t-9556\t3470\nDenison\t3376\t-9654\t3470\nWichita Falls\t3391\t-9849\t3470\nPlainview\t3418\t-10171\t3470\nHereford\t3482\t-10240\t3470\nAmarillo\t3522\t-10183\t3470\nPampa\t3554\t-10096\t3470\nDumas\t3587\t-10197\t3470\nSaint George\t3710\t-11358\t3471\nWashington\t3713\t-11351\t3471\nHurricane\t3718\t-11329\t3471\nCedar City\t3768\t-11306\t3471\nPayson\t4004\t-11173\t3471\nSpanish Fork\t4011\t-11165\t3471\nSpringville\t4017\t-11161\t3471\nProvo\t4023\t-11166\t3471\nOrem\t4030\t-11169\t3471\nEagle Mountain\t4031\t-11201\t3471\nSaratoga Springs\t4035\t-11190\t3471\nPleasant Grove\t4036\t-11174\t3471\nAmerican Fork\t4038\t-11180\t3471\nLehi\t4039\t-11185\t3471\nHighland\t4043\t-11179\t3471\nHerriman\t4051\t-11203\t3471\nRiverton\t4052\t-11194\t3471\nDraper\t4052\t-11186\t3471\nTooele\t4053\t-11230\t3471\nSouth Jordan\t4056\t-11193\t3471\nSandy\t4059\t-11188\t3471\nWest Jordan\t4061\t-11194\t3471\nMidvale\t4061\t-11190\t3471\nCottonwood Heights\t4062\t-11181\t3471\nKearns\t4066\t-11200\t3471\nTaylorsville\t4067\t-11194\t3471\nMurray\t4067\t-11189\t3471\nHolladay\t4067\t-11182\t3471\nWest Valley City\t4069\t-11200\t3471\nMillcreek\t4069\t-11188\t3471\nEast Millcreek\t4070\t-11181\t3471\nMagna\t4071\t-11210\t3471\nSouth Salt Lake\t4072\t-11189\t3471\nSalt Lake City\t4076\t-11189\t3471\nNorth Salt Lake\t4085\t-11191\t3471\nBountiful\t4089\t-11188\t3471\nCenterville\t4092\t-11187\t3471\nFarmington\t4098\t-11189\t3471\nKaysville\t4104\t-11194\t3471\nLayton\t4106\t-11197\t3471\nSyracuse\t4109\t-11206\t3471\nClearfield\t4111\t-11203\t3471\nClinton\t4114\t-11205\t3471\nRoy\t4116\t-11203\t3471\nSouth Ogden\t4119\t-11197\t3471\nOgden\t4122\t-11197\t3471\nNorth Ogden\t4131\t-11196\t3471\nBrigham City\t4151\t-11202\t3471\nLogan\t4174\t-11183\t3471\nRutland\t4361\t-7297\t3472\nMontpelier\t4426\t-7258\t3472\nSouth Burlington\t4447\t-7317\t3472\nBurlington\t4448\t-7321\t3472\nColchester\t4454\t-7315\t3472\nDanville\t3659\t-7940\t3473\nBristol\t3660\t-8219\t3473\nSouth Suffolk\t3672\t-7659\t3473\nSuffolk\t3673\t-7658\t3473\nPortsmouth Heights\t3682\t-7637\t3473\nChesapeake\t3682\t-7627\t3473\nPortsmouth\t3684\t-7630\t3473\nNorfolk\t3685\t-7629\t3473\nVirginia Beach\t3685\t-7598\t3473\nHampton\t3703\t-7635\t3473\nEast Hampton\t3704\t-7633\t3473\nNewport News\t3708\t-7647\t3473\nRadford\t3713\t-8058\t3473\nChristiansburg\t3713\t-8041\t3473\nBlacksburg\t3723\t-8041\t3473\nCave Spring\t3723\t-8001\t3473\nPetersburg\t3723\t-7740\t3473\nRoanoke\t3727\t-7994\t3473\nColonial Heights\t3727\t-7741\t3473\nWilliamsburg\t3727\t-7671\t3473\nSalem\t3729\t-8005\t3473\nHopewell\t3730\t-7729\t3473\nChester\t3736\t-7744\t3473\nWest Lynchburg\t3740\t-7918\t3473\nLynchburg\t3741\t-7914\t3473\nMeadowbrook\t3745\t-7747\t3473\nBon Air\t3752\t-7756\t3473\nRichmond\t3755\t-7746\t3473\nHighland Springs\t3755\t-7733\t3473\nTuckahoe\t3759\t-7756\t3473\nMechanicsville\t3761\t-7737\t3473\nLaurel\t3764\t-7751\t3473\nShort Pump\t3765\t-7761\t3473\nCharlottesville\t3803\t-7848\t3473\nWaynesboro\t3807\t-7889\t3473\nStaunton\t3815\t-7907\t3473\nFredericksburg\t3830\t-7746\t3473\nHarrisonburg\t3845\t-7887\t3473\nCulpeper\t3847\t-7800\t3473\nCherry Hill\t3857\t-7727\t3473\nMontclair\t3861\t-7734\t3473\nDale City\t3864\t-7731\t3473\nLake Ridge\t3869\t-7730\t3473\nLorton\t3870\t-7723\t3473\nWoodlawn\t3872\t-7713\t3473\nBuckhall\t3873\t-7743\t3473\nFort Hunt\t3873\t-7706\t3473\nManassas\t3875\t-7748\t3473\nHybla Valley\t3875\t-7708\t3473\nLinton Hall\t3876\t-7757\t3473\nWest Springfield\t3877\t-7722\t3473\nManassas Park\t3878\t-7747\t3473\nFranconia\t3878\t-7715\t3473\nSudley\t3879\t-7750\t3473\nBurke\t3879\t-7727\t3473\nSpringfield\t3879\t-7719\t3473\nRose Hill\t3879\t-7711\t3473\nAlexandria\t3880\t-7705\t3473\nLincolnia\t3882\t-7714\t3473\nAnnandale\t3883\t-7720\t3473\nCentreville\t3884\t-7743\t3473\nFairfax\t3885\t-7731\t3473\nBaileys Crossroads\t3885\t-7713\t3473\nWest Falls Church\t3886\t-7719\t3473\nMerrifield\t3887\t-7723\t3473\nOakton\t3888\t-7730\t3473\nArlington\t3888\t-7710\t3473\nChantilly\t3889\t-7743\t3473\nVienna\t3890\t-7727\t3473\nIdylwood\t3890\t-7721\t3473\nFront Royal\t3892\t-7819\t3473\nSouth Riding\t3892\t-7750\t3473\nTysons Corner\t3892\t-7723\t3473\nOak Hill\t3893\t-7740\t3473\nMcLean\t3893\t-7718\t3473\nWolf Trap\t3894\t-7729\t3473\nHerndon\t3897\t-7739\t3473\nReston\t3897\t-7734\t3473\nGreat Falls\t3900\t-7729\t3473\nSterling\t3901\t-7743\t3473\nAshburn\t3904\t-7749\t3473\nLeesburg\t3912\t-7756\t3473\nWinchester\t3919\t-7816\t3473\nWashougal\t4558\t-12235\t3474\nCamas\t4559\t-12240\t3474\nVancouver\t4564\t-12266\t3474\nHazel Dell\t4567\t-12266\t3474\nOrchards\t4567\t-12256\t3474\nFive Corners\t4568\t-12258\t3474\nSalmon Creek\t4571\t-12265\t3474\nBattle Ground\t4578\t-12253\t3474\nWalla Walla\t4606\t-11834\t3474\nLongview\t4614\t-12294\t3474\nKennewick\t4621\t-11914\t3474\nPasco\t4624\t-11910\t3474\nRichland\t4629\t-11928\t3474\nSunnyside\t4632\t-12001\t3474\nYakima\t4660\t-12051\t3474\nCentralia\t4672\t-12295\t3474\nPullman\t4673\t-11718\t3474\nAberdeen\t4698\t-12382\t3474\nEllensburg\t4700\t-12055\t3474\nTumwater\t4701\t-12291\t3474\nLacey\t4703\t-12282\t3474\nOlympia\t4704\t-12290\t3474\nGraham\t4705\t-12229\t3474\nSpanaway\t4710\t-12243\t3474\nFrederickson\t4710\t-12236\t3474\nMoses Lake\t4713\t-11928\t3474\nSouth Hill\t4714\t-12227\t3474\nParkland\t4716\t-12243\t3474\nLakewood\t4717\t-12252\t3474\nBonney Lake\t4718\t-12219\t3474\nPuyallup\t4719\t-12229\t3474\nUniversity Place\t4724\t-12255\t3474\nTacoma\t4725\t-12244\t3474\nAuburn\t4731\t-12223\t3474\nFederal Way\t4732\t-12231\t3474\nCovington\t4736\t-12212\t3474\nKent\t4738\t-12223\t3474\nMaple Valley\t4739\t-12205\t3474\nDes Moines\t4740\t-12232\t3474\nEast Hill-Meridian\t4741\t-12217\t3474\nWenatchee\t4742\t-12031\t3474\nSeaTac\t4745\t-12229\t3474\nFairwood\t4745\t-12216\t3474\nBurien\t4747\t-12235\t3474\nTukwila\t4747\t-12226\t3474\nRenton\t4748\t-12222\t3474\nBryn Mawr-Skyway\t4749\t-12224\t3474\nIssaquah\t4753\t-12203\t3474\nBremerton\t4757\t-12263\t3474\nMercer Island\t4757\t-12222\t3474\nWest Lake Sammamish\t4758\t-12210\t3474\nCity of Sammamish\t4760\t-12204\t3474\nSeattle\t4761\t-12233\t3474\nBellevue\t4761\t-12220\t3474\nBainbridge Island\t4763\t-12252\t3474\nSilverdale\t4764\t-12269\t3474\nSammamish\t4764\t-12208\t3474\nSpokane\t4766\t-11743\t3474\nRedmond\t4767\t-12212\t3474\nSpokane Valley\t4767\t-11724\t3474\nKirkland\t4768\t-12221\t3474\nUnion Hill-Novelty Hill\t4768\t-12203\t3474\nInglewood-Finn Hill\t4772\t-12223\t3474\nCottage Lake\t4774\t-12208\t3474\nShoreline\t4776\t-12234\t3474\nKenmore\t4776\t-12224\t3474\nBothell\t4776\t-12221\t3474\nMountlake Terrace\t4779\t-12231\t3474\nEdmonds\t4781\t-12238\t3474\nBothell West\t4781\t-12224\t3474\nLynnwood\t4782\t-12232\t3474\nNorth Creek\t4782\t-12218\t3474\nMill Creek East\t4784\t-12219\t3474\nMartha Lake\t4785\t-12224\t3474\nPicnic Point-North Lynnwood\t4786\t-12229\t3474\nMill Creek\t4786\t-12220\t3474\nMonroe\t4786\t-12197\t3474\nSilver Firs\t4787\t-12216\t3474\nEastmont\t4790\t-12218\t3474\nMukilteo\t4794\t-12230\t3474\nEverett\t4798\t-12220\t3474\nWest Lake Stevens\t4799\t-12210\t3474\nLake Stevens\t4802\t-12206\t3474\nMarysville\t4805\t-12218\t3474\nPort Angeles\t4812\t-12343\t3474\nArlington\t4820\t-12213\t3474\nOak Harbor\t4829\t-12264\t3474\nMount Vernon\t4842\t-12233\t3474\nAnacortes\t4851\t-12261\t3474\nBellingham\t4876\t-12249\t3474\nBeckley\t3778\t-8119\t3475\nCharleston\t3835\t-8163\t3475\nHuntington\t3842\t-8245\t3475\nParkersburg\t3927\t-8156\t3475\nClarksburg\t3928\t-8034\t3475\nMartinsburg\t3946\t-7796\t3475\nFairmont\t3949\t-8014\t3475\nMorgantown\t3963\t-7996\t3475\nWheeling\t4006\t-8072\t3475\nWeirton Heights\t4041\t-8054\t3475\nWeirton\t4042\t-8059\t3475\nBeloit\t4251\t-8903\t3476\nPleasant Prairie\t4255\t-8793\t3476\nKenosha\t4258\t-8782\t3476\nJanesville\t4268\t-8902\t3476\nMount Pleasant\t4270\t-8786\t3476\nRacine\t4273\t-8778\t3476\nCaledonia\t4281\t-8792\t3476\nFranklin\t4289\t-8804\t3476\nOak Creek\t4289\t-8786\t3476\nMuskego\t4291\t-8814\t3476\nSouth Milwaukee\t4291\t-8786\t3476\nFitchburg\t4296\t-8947\t3476\nGreenfield\t4296\t-8801\t3476\nCudahy\t4296\t-8786\t3476\nNew Berlin\t4298\t-8811\t3476\nWaukesha\t4301\t-8823\t3476\nWest Allis\t4302\t-8801\t3476\nMilwaukee\t4304\t-8791\t3476\nWauwatosa\t4305\t-8801\t3476\nBrookfield\t4306\t-8811\t3476\nMadison\t4307\t-8940\t3476\nMiddleton\t4310\t-8950\t3476\nOconomowoc\t4311\t-8850\t3476\nSun Prairie\t4318\t-8921\t3476\nMenomonee Falls\t4318\t-8812\t3476\nWatertown\t4319\t-8873\t3476\nMequon\t4322\t-8803\t3476\nGermantown\t4323\t-8811\t3476\nWest Bend\t4343\t-8818\t3476\nBeaver Dam\t4346\t-8884\t3476\nSheboygan\t4375\t-8771\t3476\nFond du Lac\t4378\t-8844\t3476\nLa Crosse\t4380\t-9124\t3476\nNorth La Crosse\t4385\t-9125\t3476\nOnalaska\t4388\t-9124\t3476\nOshkosh\t4402\t-8854\t3476\nManitowoc\t4409\t-8766\t3476\nNeenah\t4419\t-8846\t3476\nMenasha\t4420\t-8845\t3476\nAppleton\t4426\t-8842\t3476\nKaukauna\t4428\t-8827\t3476\nWisconsin Rapids\t4438\t-8982\t3476\nBellevue\t4444\t-8792\t3476\nDe Pere\t4445\t-8806\t3476\nAshwaubenon\t4448\t-8807\t3476\nStevens Point\t4452\t-8957\t3476\nGreen Bay\t4452\t-8802\t3476\nHoward\t4454\t-8809\t3476\nMarshfield\t4467\t-9017\t3476\nEau Claire\t4481\t-9150\t3476\nRiver Falls\t4486\t-9262\t3476\nMenomonie\t4488\t-9192\t3476\nWeston\t4489\t-8955\t3476\nWausau\t4496\t-8963\t3476\nSuperior\t4672\t-9210\t3476\nCheyenne\t4114\t-10482\t3477\nLaramie\t4131\t-10559\t3477\nRock Springs\t4159\t-10920\t3477\nCasper\t4287\t-10631\t3477\nGillette\t4429\t-10550\t3477\nSheridan\t4480\t-10696\t3477\nArtigas\t-3040\t-5647\t3478\nPaso de Carrasco\t-3486\t-5605\t3479\nLa Paz\t-3476\t-5623\t3479\nBarros Blancos\t-3475\t-5600\t3479\nLas Piedras\t-3473\t-5622\t3479\nPando\t-3472\t-5596\t3479\nProgreso\t-3467\t-5622\t3479\nCanelones\t-3452\t-5628\t3479\nSanta Lucía\t-3445\t-5639\t3479\nMelo\t-3237\t-5417\t3480\nColonia del Sacramento\t-3446\t-5784\t3481\nCarmelo\t-3400\t-5828\t3481\nDurazno\t-3338\t-5652\t3482\nTrinidad\t-3352\t-5690\t3483\nFlorida\t-3410\t-5621\t3484\nMinas\t-3438\t-5524\t3485\nMaldonado\t-3490\t-5495\t3486\nSan Carlos\t-3479\t-5492\t3486\nMontevideo\t-3490\t-5619\t3487\nPaysandú\t-3232\t-5808\t3488\nRivera\t-3091\t-5555\t3489\nRocha\t-3448\t-5433\t3490\nFray Bentos\t-3312\t-5831\t3491\nYoung\t-3270\t-5763\t3491\nSalto\t-3138\t-5797\t3492\nDelta del Tigre\t-3476\t-5636\t3493\nSan José de Mayo\t-3434\t-5671\t3493\nDolores\t-3353\t-5822\t3494\nMercedes\t-3325\t-5803\t3494\nTacuarembó\t-3172\t-5598\t3495\nTreinta y Tres\t-3323\t-5438\t3496\nAsaka\t4064\t7224\t3497\nXo‘jaobod\t4067\t7256\t3497\nQo‘rg‘ontepa\t4073\t7276\t3497\nAndijon\t4078\t7234\t3497\nKarakul’\t3953\t6383\t3498\nKogon Shahri\t3973\t6455\t3498\nBukhara\t3977\t6443\t3498\nGalaosiyo Shahri\t3986\t6445\t3498\nVobkent Shahri\t4000\t6450\t3498\nG’ijduvon Shahri\t4010\t6468\t3498\nShofirkon Shahri\t4012\t6450\t3498\nQuvasoy\t4030\t7198\t3499\nYaypan\t4038\t7082\t3499\nFergana\t4038\t7178\t3499\nOltiariq\t4039\t7147\t3499\nBeshariq\t4044\t7061\t3499\nKirguli\t4044\t7177\t3499\nMarg‘ilon\t4047\t7172\t3499\nToshloq\t4048\t7177\t3499\nQuva\t4052\t7207\t3499\nQo‘qon\t4053\t7094\t3499\nZomin Shaharchasi\t3996\t6840\t3500\nJizzax\t4012\t6783\t3500\nDashtobod\t4013\t6849\t3500\nPaxtakor Shahri\t4031\t6796\t3500\nDo’stlik Shahri\t4053\t6803\t3500\nGagarin Shahri\t4066\t6817\t3500\nNovyy Turtkul’\t4155\t6102\t3501\nBeruniy\t4169\t6075\t3501\nManghit\t4212\t6006\t3501\nXo‘jayli Shahri\t4241\t5945\t3501\nNukus\t4245\t5961\t3501\nOltinko‘l\t4307\t5890\t3501\nPop\t4087\t7111\t3502\nToshbuloq\t4092\t7158\t3502\nHaqqulobod\t4092\t7212\t3502\nChust\t4100\t7124\t3502\nTo‘rqao‘rg‘on\t4100\t7151\t3502\nNamangan\t4100\t7167\t3502\nChortoq\t4107\t7182\t3502\nUychi\t4108\t7192\t3502\nUchqŭrghon Shahri\t4111\t7208\t3502\nYangiqo‘rg‘on\t4119\t7172\t3502\nKosonsoy\t4125\t7155\t3502\nYangirabot\t4003\t6596\t3503\nNavoiy\t4008\t6538\t3503\nNurota\t4056\t6569\t3503\nG‘uzor\t3862\t6625\t3504\nBeshkent\t3882\t6565\t3504\nQarshi\t3886\t6579\t3504\nChiroqchi\t3903\t6657\t3504\nKoson\t3904\t6558\t3504\nShahrisabz\t3906\t6683\t3504\nKitob\t3912\t6689\t3504\nMuborak\t3926\t6515\t3504\nUrgut Shahri\t3942\t6726\t3505\nSamarkand\t3965\t6696\t3505\nJuma Shahri\t3972\t6666\t3505\nBulung’ur Shahri\t3976\t6727\t3505\nKattaqo’rg’on Shahri\t3991\t6627\t3505\nOqtosh\t3992\t6593\t3505\nChelak\t3992\t6686\t3505\nPayshamba Shahri\t4001\t6623\t3505\nYangiyer\t4028\t6882\t3506\nGuliston\t4049\t6878\t3506\nSirdaryo\t4084\t6866\t3506\nTirmiz\t3722\t6728\t3507\nSho‘rchi\t3800\t6779\t3507\nBoysun\t3821\t6721\t3507\nDenov\t3827\t6790\t3507\nBektemir\t4121\t6933\t3508\nTashkent\t4126\t6922\t3508\nBekobod\t4022\t6927\t3509\nBo‘ka\t4081\t6919\t3509\nOlmaliq\t4084\t6960\t3509\nPiskent\t4090\t6935\t3509\nOhangaron\t4091\t6964\t3509\nChinoz\t4094\t6876\t3509\nZafar\t4098\t6890\t3509\nAmir Timur\t4102\t6894\t3509\nAngren\t4102\t7014\t3509\nTŭytepa\t4103\t6936\t3509\nYangiyŭl\t4111\t6905\t3509\nYangiobod\t4112\t7009\t3509\nParkent\t4129\t6968\t3509\nSalor\t4137\t6938\t3509\nQibray\t4139\t6947\t3509\nChirchiq\t4147\t6958\t3509\nIskandar\t4155\t6970\t3509\nG‘azalkent\t4156\t6977\t3509\nHazorasp\t4132\t6107\t3510\nKhiwa\t4138\t6036\t3510\nQŭshkŭpir\t4154\t6035\t3510\nUrganch\t4155\t6063\t3510\nShowot\t4166\t6030\t3510\nGurlan\t4184\t6039\t3510\nVatican City\t4190\t1245\t3511\nGeorgetown\t1328\t-6112\t3512\nPort Elizabeth\t1301\t-6124\t3513\nLayou\t1320\t-6127\t3514\nChateaubelair\t1329\t-6124\t3515\nKingstown\t1316\t-6123\t3516\nBarrouallie\t1324\t-6127\t3517\nPuerto Ayacucho\t566\t-6758\t3518\nEl Tigre\t889\t-6425\t3519\nSan José de Guanipa\t889\t-6417\t3519\nCantaura\t931\t-6436\t3519\nAnaco\t943\t-6446\t3519\nBarcelona\t1014\t-6469\t3519\nPuerto La Cruz\t1021\t-6463\t3519\nGuasdualito\t724\t-7073\t3520\nSan Fernando de Apure\t789\t-6747\t3520\nVilla de Cura\t1004\t-6749\t3521\nPalo Negro\t1017\t-6754\t3521\nCagua\t1019\t-6746\t3521\nSan Mateo\t1021\t-6742\t3521\nTurmero\t1023\t-6747\t3521\nLa Victoria\t1023\t-6733\t3521\nMaracay\t1024\t-6759\t3521\nLas Tejerías\t1025\t-6717\t3521\nEl Limón\t1031\t-6763\t3521\nAlto Barinas\t859\t-7023\t3522\nBarinas\t862\t-7021\t3522\nBarinitas\t876\t-7041\t3522\nSanta Elena de Uairén\t460\t-6111\t3523\nUpata\t802\t-6241\t3523\nCiudad Bolívar\t813\t-6354\t3523\nCiudad Guayana\t835\t-6264\t3523\nGüigüe\t1008\t-6778\t3524\nTacarigua\t1009\t-6792\t3524\nValencia\t1016\t-6801\t3524\nGuacara\t1023\t-6788\t3524\nSan Joaquín\t1026\t-6779\t3524\nMariara\t1030\t-6772\t3524\nPuerto Cabello\t1047\t-6801\t3524\nMorón\t1049\t-6820\t3524\nSan Carlos\t966\t-6858\t3525\nTinaquillo\t992\t-6830\t3525\nTucupita\t906\t-6205\t3526\nCaracas\t1049\t-6688\t3527\nCoro\t1140\t-6967\t3528\nPunta Cardón\t1166\t-7021\t3528\nPunto Fijo\t1169\t-7020\t3528\nCalabozo\t892\t-6743\t3529\nValle de La Pascua\t922\t-6601\t3529\nZaraza\t935\t-6532\t3529\nAltagracia de Orituco\t986\t-6638\t3529\nSan Juan de los Morros\t991\t-6735\t3529\nEl Tocuyo\t979\t-6979\t3530\nQuíbor\t993\t-6962\t3530\nLos Rastrojos\t1003\t-6924\t3530\nBarquisimeto\t1006\t-6936\t3530\nCarora\t1017\t-7008\t3530\nOcumare del Tuy\t1012\t-6678\t3531\nCúa\t1016\t-6688\t3531\nSanta Teresa del Tuy\t1023\t-6666\t3531\nCharallave\t1024\t-6686\t3531\nLos Teques\t1034\t-6704\t3531\nCarrizal\t1035\t-6699\t3531\nCaucaguita\t1036\t-6680\t3531\nSan Antonio de Los Altos\t1039\t-6695\t3531\nEl Hatillo\t1042\t-6683\t3531\nBaruta\t1043\t-6688\t3531\nGuarenas\t1047\t-6662\t3531\nGuatire\t1047\t-6654\t3531\nPetare\t1048\t-6681\t3531\nLos Dos Caminos\t1049\t-6683\t3531\nCaucagüito\t1049\t-6674\t3531\nChacao\t1050\t-6685\t3531\nMaturín\t975\t-6318\t3532\nMucumpiz\t842\t-7113\t3533\nEjido\t855\t-7124\t3533\nMérida\t859\t-7116\t3533\nEl Vigía\t861\t-7166\t3533\nPorlamar\t1096\t-6387\t3534\nLa Asunción\t1103\t-6386\t3534\nJuan Griego\t1108\t-6397\t3534\nGuanare\t904\t-6974\t3535\nVilla Bruzual\t933\t-6912\t3535\nAcarigua\t955\t-6920\t3535\nAraure\t958\t-6924\t3535\nCumaná\t1045\t-6418\t3536\nGüiria\t1058\t-6230\t3536\nCarúpano\t1067\t-6325\t3536\nValera\t932\t-7060\t3537\nTrujillo\t937\t-7044\t3537\nRubio\t770\t-7236\t3538\nSan Cristóbal\t777\t-7222\t3538\nSan Antonio del Táchira\t781\t-7244\t3538\nTáriba\t782\t-7222\t3538\nColón\t803\t-7226\t3538\nLa Fría\t822\t-7225\t3538\nMaiquetía\t1059\t-6696\t3539\nLa Guaira\t1060\t-6693\t3539\nCatia La Mar\t1061\t-6703\t3539\nCaraballeda\t1061\t-6685\t3539\nYaritagua\t1008\t-6912\t3540\nNirgua\t1015\t-6856\t3540\nChivacoa\t1016\t-6889\t3540\nSan Felipe\t1034\t-6874\t3540\nSan Carlos del Zulia\t900\t-7193\t3541\nMachiques\t1006\t-7255\t3541\nLagunillas\t1013\t-7126\t3541\nLa Villa del Rosario\t1033\t-7231\t3541\nCabimas\t1040\t-7145\t3541\nSanta Rita\t1054\t-7151\t3541\nMaracaibo\t1067\t-7161\t3541\nRoad Town\t1843\t-6462\t3542\nSaint Croix\t1773\t-6475\t3543\nCruz Bay\t1833\t-6479\t3544\nCharlotte Amalie\t1834\t-6493\t3545\nCà Mau\t918\t10515\t3546\nBạc Liêu\t929\t10573\t3546\nSóc Trăng\t960\t10597\t3546\nVị Thanh\t978\t10547\t3546\nTrà Vinh\t995\t10634\t3546\nRạch Giá\t1001\t10508\t3546\nCần Thơ\t1004\t10579\t3546\nDương Đông\t1022\t10396\t3546\nBến Tre\t1024\t10638\t3546\nVĩnh Long\t1025\t10597\t3546\nThị Trấn Tân Thành\t1026\t10559\t3546\nSa Dec\t1029\t10576\t3546\nVũng Tàu\t1035\t10708\t3546\nHà Tiên\t1038\t10449\t3546\nCao Lãnh\t1046\t10563\t3546\nThành Phố Bà Rịa\t1050\t10717\t3546\nLa Gi\t1066\t10777\t3546\nPhan Thiết\t1093\t10810\t3546\nBiên Hòa\t1094\t10682\t3546\nDon Luan\t1153\t10688\t3546\nBảo Lộc\t1155\t10781\t3546\nPhan Rang-Tháp Chàm\t1156\t10899\t3546\nBình Long\t1165\t10661\t3546\nĐưc Trọng\t1174\t10837\t3546\nĐinh Văn\t1179\t10824\t3546\nCam Ranh\t1192\t10916\t3546\nÐà Lạt\t1195\t10844\t3546\nNha Trang\t1225\t10919\t3546\nBuôn Ma Thuột\t1267\t10804\t3546\nTuy Hòa\t1310\t10932\t3546\nSông Cầu\t1346\t10922\t3546\nPleiku\t1398\t10800\t3546\nKon Tum\t1435\t10801\t3546\nQuảng Ngãi\t1512\t10879\t3546\nTam Kỳ\t1557\t10847\t3546\nHội An\t1588\t10834\t3546\nDa Nang\t1607\t10822\t3546\nÐông Hà\t1682\t10710\t3546\nKwang Binh\t1747\t10662\t3546\nYên Vinh\t1867\t10567\t3546\nVinh\t1867\t10569\t3546\nThanh Hóa\t1980\t10577\t3546\nBỉm Sơn\t2008\t10586\t3546\nNinh Bình\t2026\t10598\t3546\nThái Bình\t2045\t10634\t3546\nHưng Yên\t2065\t10605\t3546\nCát Bà\t2073\t10705\t3546\nHòa Bình\t2082\t10534\t3546\nHaiphong\t2086\t10668\t3546\nHạ Long\t2095\t10707\t3546\nCẩm Phả Mines\t2102\t10730\t3546\nThành Phố Uông Bí\t2103\t10677\t3546\nBắc Ninh\t2119\t10608\t3546\nCung Kiệm\t2119\t10616\t3546\nBắc Giang\t2127\t10619\t3546\nViệt Trì\t2132\t10540\t3546\nSơn La\t2133\t10392\t3546\nMóng Cái\t2152\t10797\t3546\nThái Nguyên\t2159\t10585\t3546\nYên Bái\t2172\t10491\t3546\nLạng Sơn\t2185\t10676\t3546\nBắc Kạn\t2215\t10583\t3546\nLai Châu\t2240\t10346\t3546\nLào Cai\t2249\t10397\t3546\nCao Bằng\t2267\t10626\t3546\nHà Giang\t2282\t10498\t3546\nGia Nghĩa\t1200\t10769\t3547\nTân An\t1054\t10641\t3548\nCần Giuộc\t1061\t10667\t3548\nDien Bien Phu\t2139\t10302\t3549\nHuế\t1646\t10760\t3550\nThủ Dầu Một\t1098\t10665\t3551\nNam Định\t2043\t10618\t3552\nHà Tĩnh\t1834\t10591\t3553\nLong Xuyên\t1039\t10544\t3554\nCho Dok\t1070\t10512\t3554\nHải Dương\t2094\t10633\t3555\nPhú Khương\t1128\t10613\t3556\nTây Ninh\t1131\t10610\t3556\nTuyên Quang\t2182\t10521\t3557\nCần Giờ\t1041\t10695\t3558\nHo Chi Minh City\t1082\t10663\t3558\nCủ Chi\t1097\t10649\t3558\nMỹ Tho\t1036\t10636\t3559\nHà Đông\t2097\t10578\t3560\nHanoi\t2102\t10584\t3560\nSơn Tây\t2114\t10551\t3560\nPhủ Lý\t2055\t10591\t3561\nQui Nhon\t1378\t10922\t3562\nVĩnh Yên\t2131\t10560\t3563\nLakatoro\t-1610\t16742\t3564\nSaratamata\t-1529\t16797\t3565\nLuganville\t-1552\t16716\t3566\nPort-Vila\t-1774\t16831\t3567\nIsangel\t-1954\t16928\t3568\nSola\t-1388\t16755\t3569\nAlo\t-1431\t-17811\t3570\nLeava\t-1429\t-17816\t3571\nMata-Utu\t-1328\t-17617\t3572\nLeulumoega\t-1382\t-17196\t3573\nMulifanua\t-1383\t-17204\t3574\nLufilufi\t-1387\t-17160\t3575\nSafotulafai\t-1367\t-17218\t3576\nSafotu\t-1345\t-17240\t3577\nVailoa\t-1376\t-17231\t3578\nSatupa‘itea\t-1377\t-17233\t3579\nApia\t-1383\t-17177\t3580\nAfega\t-1380\t-17185\t3580\nSamamea\t-1393\t-17153\t3581\nAsau\t-1352\t-17264\t3582\nFerizaj\t4237\t2116\t3583\nShtime\t4243\t2104\t3583\nGjakovë\t4238\t2043\t3584\nOrahovac\t4240\t2065\t3584\nDeçan\t4254\t2029\t3584\nVitina\t4232\t2136\t3585\nGjilan\t4246\t2147\t3585\nVushtrri\t4282\t2097\t3586\nMitrovicë\t4288\t2087\t3586\nZvečan\t4291\t2084\t3586\nLeposaviq\t4310\t2080\t3586\nPeć\t4266\t2029\t3587\nIstok\t4278\t2049\t3587\nGlogovac\t4263\t2089\t3588\nKosovo Polje\t4266\t2110\t3588\nPristina\t4267\t2117\t3588\nPodujeva\t4291\t2119\t3588\nDragash\t4203\t2065\t3589\nPrizren\t4221\t2074\t3589\nSuva Reka\t4236\t2083\t3589\nLlazicë\t4256\t2076\t3589\nZinjibār\t1313\t4538\t3590\nAden\t1278\t4504\t3591\nAl Bayda\t1399\t4557\t3592\nZabīd\t1420\t4332\t3593\nBayt al Faqīh\t1452\t4332\t3593\nAl Ḩudaydah\t1480\t4295\t3593\nBājil\t1506\t4329\t3593\nAl Ḩazm\t1616\t4478\t3594\nAl Ghayz̧ah\t1621\t5218\t3595\nAl Maḩwīt\t1547\t4354\t3596\nDhalie\t1370\t4473\t3597\nDhamār\t1454\t4441\t3598\nDhī as Sufāl\t1383\t4411\t3599\nIbb\t1397\t4418\t3599\nYarīm\t1430\t4438\t3599\nLaḩij\t1306\t4488\t3600\nMa'rib\t1546\t4533\t3601\nMukalla\t1454\t4912\t3602\n‘Amrān\t1566\t4394\t3603\nAl Jabīn\t1470\t4360\t3604\nSayyān\t1517\t4432\t3605\nSaḩar\t1532\t4431\t3605\nSanaa\t1535\t4421\t3605\nAtaq\t1454\t4683\t3606\nTa‘izz\t1358\t4402\t3607\nSa'dah\t1694\t4376\t3608\nḨajjah\t1569\t4361\t3609\nAcoua\t-1272\t4506\t3610\nBandraboua\t-1270\t4512\t3611\nBandrélé\t-1291\t4519\t3612\nBouéni\t-1290\t4508\t3613\nChiconi\t-1283\t4511\t3614\nChirongui\t-1293\t4515\t3615\nDembeni\t-1284\t4518\t3616\nDzaoudzi\t-1278\t4526\t3617\nKani Kéli\t-1295\t4510\t3618\nKoungou\t-1273\t4520\t3619\nM'Tsangamouji\t-1276\t4508\t3620\nMamoudzou\t-1278\t4523\t3621\nMtsamboro\t-1270\t4507\t3622\nOuangani\t-1285\t4514\t3623\nPamandzi\t-1280\t4528\t3624\nSada\t-1285\t4510\t3625\nTsingoni\t-1279\t4510\t3626\nKruisfontein\t-3400\t2473\t3627\nPort Elizabeth\t-3396\t2561\t3627\nUitenhage\t-3376\t2540\t3627\nPort Alfred\t-3359\t2688\t3627\nGrahamstown\t-3330\t2653\t3627\nEast London\t-3302\t2791\t3627\nBhisho\t-3285\t2744\t3627\nFort Beaufort\t-3277\t2663\t3627\nSomerset East\t-3272\t2559\t3627\nStutterheim\t-3257\t2742\t3627\nButterworth\t-3233\t2815\t3627\nGraaff-Reinet\t-3225\t2453\t3627\nCradock\t-3216\t2562\t3627\nQueenstown\t-3190\t2688\t3627\nQueensdale\t-3187\t2698\t3627\nLady Frere\t-3170\t2723\t3627\nMthatha\t-3159\t2878\t3627\nMiddelburg\t-3149\t2501\t3627\nAliwal North\t-3069\t2671\t3627\nBotshabelo\t-2927\t2673\t3628\nThaba Nchu\t-2921\t2684\t3628\nLadybrand\t-2919\t2746\t3628\nBloemfontein\t-2912\t2621\t3628\nPhuthaditjhaba\t-2852\t2882\t3628\nTheunissen\t-2841\t2670\t3628\nSenekal\t-2832\t2762\t3628\nHarrismith\t-2827\t2913\t3628\nBethlehem\t-2823\t2831\t3628\nVirginia\t-2810\t2687\t3628\nWelkom\t-2798\t2674\t3628\nHennenman\t-2798\t2702\t3628\nWesselsbron\t-2785\t2637\t3628\nKutloanong\t-2783\t2675\t3628\nReitz\t-2780\t2843\t3628\nAllanridge\t-2775\t2664\t3628\nKroonstad\t-2765\t2723\t3628\nBothaville\t-2739\t2662\t3628\nHeilbron\t-2728\t2797\t3628\nViljoenskroon\t-2721\t2695\t3628\nParys\t-2690\t2746\t3628\nSasolburg\t-2681\t2782\t3628\nVanderbijlpark\t-2671\t2784\t3629\nVereeniging\t-2667\t2793\t3629\nHeidelberg\t-2650\t2836\t3629\nNigel\t-2643\t2848\t3629\nCarletonville\t-2636\t2740\t3629\nWestonaria\t-2632\t2765\t3629\nSoweto\t-2627\t2786\t3629\nAlberton\t-2627\t2812\t3629\nBrakpan\t-2624\t2837\t3629\nBoksburg\t-2621\t2826\t3629\nJohannesburg\t-2620\t2804\t3629\nBenoni\t-2619\t2832\t3629\nRandfontein\t-2618\t2770\t3629\nRoodepoort\t-2616\t2787\t3629\nEdenvale\t-2614\t2815\t3629\nKrugersdorp\t-2609\t2778\t3629\nRandburg\t-2609\t2800\t3629\nTembisa\t-2600\t2823\t3629\nMidrand\t-2599\t2813\t3629\nMidstream\t-2592\t2820\t3629\nCenturion\t-2586\t2819\t3629\nBronkhorstspruit\t-2581\t2874\t3629\nPretoria\t-2574\t2819\t3629\nEkangala\t-2570\t2875\t3629\nCullinan\t-2567\t2852\t3629\nMabopane\t-2550\t2810\t3629\nMargate\t-3086\t3037\t3630\nPort Shepstone\t-3074\t3045\t3630\nKokstad\t-3055\t2942\t3630\nScottburgh\t-3029\t3075\t3630\neMkhomazi\t-3021\t3080\t3630\nRichmond\t-2987\t3027\t3630\nDurban\t-2986\t3103\t3630\nBerea\t-2985\t3099\t3630\nMpumalanga\t-2981\t3064\t3630\nPietermaritzburg\t-2962\t3039\t3630\nMpophomeni\t-2957\t3019\t3630\nBallito\t-2954\t3121\t3630\nHowick\t-2948\t3023\t3630\nKwaDukuza\t-2933\t3129\t3630\neSikhaleni\t-2887\t3190\t3630\nRichards Bay\t-2878\t3204\t3630\nEmpangeni\t-2876\t3189\t3630\nUlundi\t-2834\t3142\t3630\nDundee\t-2817\t3023\t3630\nMondlo\t-2798\t3072\t3630\nVryheid\t-2777\t3079\t3630\nNewcastle\t-2776\t2993\t3630\nWarmbaths\t-2488\t2828\t3631\nModimolle\t-2470\t2840\t3631\nLebowakgomo\t-2420\t2950\t3631\nMokopane\t-2419\t2901\t3631\nPhalaborwa\t-2394\t3114\t3631\nPolokwane\t-2390\t2947\t3631\nNkowakowa\t-2389\t3029\t3631\nTzaneen\t-2383\t3016\t3631\nDuiwelskloof\t-2369\t3014\t3631\nGiyani\t-2330\t3072\t3631\nLouis Trichardt\t-2304\t2990\t3631\nThohoyandou\t-2295\t3048\t3631\nVolksrust\t-2737\t2988\t3632\nDriefontein\t-2702\t3045\t3632\nPiet Retief\t-2701\t3081\t3632\nStanderton\t-2693\t2924\t3632\nBalfour\t-2666\t2859\t3632\nSecunda\t-2655\t2917\t3632\neMbalenhle\t-2653\t2907\t3632\nErmelo\t-2653\t2998\t3632\nBethal\t-2646\t2947\t3632\nKriel\t-2627\t2923\t3632\nHendrina\t-2616\t2972\t3632\nDelmas\t-2615\t2868\t3632\nWitbank\t-2587\t2923\t3632\nBarberton\t-2579\t3105\t3632\nMiddelburg\t-2578\t2946\t3632\nNelspruit\t-2547\t3097\t3632\nKomatipoort\t-2543\t3195\t3632\nWhite River\t-2533\t3101\t3632\nSiyabuswa\t-2511\t2904\t3632\nLydenburg\t-2510\t3044\t3632\nChristiana\t-2791\t2516\t3633\nBloemhof\t-2765\t2561\t3633\nWolmaransstad\t-2720\t2598\t3633\nSchweizer-Reneke\t-2719\t2533\t3633\nOrkney\t-2698\t2667\t3633\nVryburg\t-2696\t2473\t3633\nKlerksdorp\t-2685\t2667\t3633\nStilfontein\t-2684\t2677\t3633\nPotchefstroom\t-2672\t2710\t3633\nFochville\t-2649\t2749\t3633\nLichtenburg\t-2615\t2616\t3633\nMahikeng\t-2587\t2564\t3633\nRustenburg\t-2567\t2724\t3633\nBrits\t-2563\t2778\t3633\nGa-Rankuwa\t-2562\t2799\t3633\nZeerust\t-2554\t2608\t3633\nDe Aar\t-3065\t2401\t3634\nKimberley\t-2873\t2476\t3634\nUpington\t-2845\t2126\t3634\nPostmasburg\t-2833\t2307\t3634\nWarrenton\t-2811\t2485\t3634\nPampierstad\t-2778\t2469\t3634\nHermanus\t-3442\t1923\t3635\nMossel Bay\t-3418\t2215\t3635\nGrabouw\t-3415\t1902\t3635\nRiversdale\t-3409\t2126\t3635\nRetreat\t-3406\t1848\t3635\nPlettenberg Bay\t-3405\t2337\t3635\nKnysna\t-3404\t2305\t3635\nRondebosch\t-3396\t1848\t3635\nCape Town\t-3393\t1842\t3635\nStellenbosch\t-3393\t1887\t3635\nKraaifontein\t-3385\t1872\t3635\nRobertson\t-3380\t1989\t3635\nMontagu\t-3379\t2012\t3635\nPaarl\t-3373\t1898\t3635\nWorcester\t-3365\t1945\t3635\nWellington\t-3364\t1901\t3635\nOudtshoorn\t-3360\t2220\t3635\nAtlantis\t-3357\t1848\t3635\nMalmesbury\t-3346\t1873\t3635\nCeres\t-3337\t1931\t3635\nSaldanha\t-3301\t1794\t3635\nVredenburg\t-3291\t1799\t3635\nBeaufort West\t-3236\t2258\t3635\nMumbwa\t-1498\t2706\t3636\nKabwe\t-1445\t2845\t3636\nKapiri Mposhi\t-1397\t2867\t3636\nLuanshya\t-1314\t2842\t3637\nNdola\t-1296\t2864\t3637\nKalulushi\t-1284\t2809\t3637\nKitwe\t-1280\t2821\t3637\nMufulira\t-1255\t2824\t3637\nChingola\t-1253\t2788\t3637\nChililabombwe\t-1236\t2782\t3637\nPetauke\t-1424\t3132\t3638\nChipata\t-1363\t3265\t3638\nSamfya\t-1136\t2956\t3639\nMansa\t-1120\t2889\t3639\nKawambwa\t-979\t2908\t3639\nNchelenge\t-935\t2873\t3639\nKafue\t-1577\t2818\t3640\nLusaka\t-1541\t2829\t3640\nMpika\t-1183\t3145\t3641\nChinsali\t-1054\t3208\t3641\nSolwezi\t-1217\t2639\t3642\nKansanshi\t-1210\t2643\t3642\nKasama\t-1021\t3118\t3643\nMbala\t-884\t3137\t3643\nLivingstone\t-1784\t2585\t3644\nChoma\t-1681\t2699\t3644\nSiavonga\t-1654\t2871\t3644\nMonze\t-1628\t2748\t3644\nMazabuka\t-1586\t2775\t3644\nSesheke\t-1748\t2430\t3645\nMongu\t-1525\t2313\t3645\nBulawayo\t-2015\t2858\t3646\nChitungwiza\t-1801\t3108\t3647\nHarare\t-1783\t3105\t3647\nChipinge\t-2019\t3262\t3648\nMutare\t-1897\t3267\t3648\nRusape\t-1853\t3213\t3648\nBindura\t-1730\t3133\t3649\nMarondera\t-1819\t3155\t3650\nRuwa\t-1789\t3124\t3650\nKadoma\t-1833\t2992\t3651\nChegutu\t-1813\t3014\t3651\nNorton\t-1788\t3070\t3651\nChinhoyi\t-1737\t3020\t3651\nKaroi\t-1681\t2969\t3651\nKariba\t-1652\t2880\t3651\nChiredzi\t-2105\t3167\t3652\nZvishavane\t-2033\t3007\t3652\nMasvingo\t-2006\t3083\t3652\nLupane\t-1893\t2781\t3653\nHwange\t-1836\t2650\t3653\nVictoria Falls\t-1793\t2583\t3653\nBeitbridge\t-2222\t3000\t3654\nGwanda\t-2094\t2901\t3654\nShurugwi\t-1967\t3001\t3655\nGweru\t-1945\t2982\t3655\nRedcliff\t-1903\t2978\t3655\nKwekwe\t-1893\t2981\t3655\nGokwe\t-1820\t2893\t3655";
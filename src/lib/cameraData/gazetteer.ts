@@ -0,0 +1,90 @@
+// Offline reverse geocoding: the nearest populated place (with its first-level admin region) to
+// a point, from a compact GeoNames extract bundled with the app (regenerate with
+// `pnpm data:gazetteer`). Normalization uses it to fill rows scraped without a city or region.
+
+import { haversineKm } from '@/lib/geo';
+import { GAZETTEER_PLACES, GAZETTEER_REGIONS } from './gazetteer.data';
+
+export interface GazetteerPlace {
+  name: string;
+  /** Admin-1 name (state, province, …); empty when GeoNames has none. */
+  region: string;
+  /** ISO 3166-1 alpha-2. */
+  country_code: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface ReverseGeocodeResult {
+  place: GazetteerPlace;
+  distanceKm: number;
+}
+
+export interface ReverseGeocodeOptions {
+  /** Only consider places in this country (ISO alpha-2). */
+  countryCode?: string;
+  /** Default 50 km. */
+  maxDistanceKm?: number;
+}
+
+const DEFAULT_MAX_DISTANCE_KM = 50;
+const KM_PER_DEGREE = 111.2;
+
+interface GazetteerIndex {
+  places: GazetteerPlace[];
+  /** Place indexes per 1° cell, keyed by `cellKey`. */
+  cells: Map<number, number[]>;
+}
+
+let index: GazetteerIndex | null = null;
+
+const cellKey = (latCell: number, lonCell: number) => latCell * 360 + lonCell;
+const latCellOf = (lat: number) => Math.min(179, Math.floor(lat + 90));
+const lonCellOf = (lon: number) => (((Math.floor(lon + 180) % 360) + 360) % 360);
+
+function parseGazetteer(): GazetteerIndex {
+  const regions = GAZETTEER_REGIONS.split('\n').map((line) => {
+    const [country_code, region] = line.split('\t');
+    return { country_code, region };
+  });
+  const places: GazetteerPlace[] = [];
+  const cells = new Map<number, number[]>();
+  for (const line of GAZETTEER_PLACES.split('\n')) {
+    const [name, lat, lon, regionLine] = line.split('\t');
+    const place = { name, ...regions[Number(regionLine)], latitude: Number(lat) / 100, longitude: Number(lon) / 100 };
+    const key = cellKey(latCellOf(place.latitude), lonCellOf(place.longitude));
+    const cell = cells.get(key);
+    if (cell) cell.push(places.length);
+    else cells.set(key, [places.length]);
+    places.push(place);
+  }
+  return { places, cells };
+}
+
+/** Nearest gazetteer place within `maxDistanceKm`, or null. The index is built on first use. */
+export function reverseGeocode(latitude: number, longitude: number, options: ReverseGeocodeOptions = {}): ReverseGeocodeResult | null {
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  const maxDistanceKm = options.maxDistanceKm ?? DEFAULT_MAX_DISTANCE_KM;
+  index ??= parseGazetteer();
+
+  // Scan every 1° cell the search radius can reach; longitude cells narrow towards the poles.
+  const latSpan = Math.ceil(maxDistanceKm / KM_PER_DEGREE);
+  const cosLat = Math.cos((Math.min(89, Math.abs(latitude) + latSpan) * Math.PI) / 180);
+  const lonSpan = Math.min(180, Math.ceil(maxDistanceKm / (KM_PER_DEGREE * cosLat)));
+  const latCell = latCellOf(latitude);
+
+  let best: ReverseGeocodeResult | null = null;
+  for (let la = Math.max(0, latCell - latSpan); la <= Math.min(179, latCell + latSpan); la++) {
+    for (let k = 0; k <= Math.min(359, 2 * lonSpan); k++) {
+      const cell = index.cells.get(cellKey(la, lonCellOf(longitude - lonSpan + k)));
+      if (!cell) continue;
+      for (const i of cell) {
+        const place = index.places[i];
+        if (options.countryCode && place.country_code !== options.countryCode) continue;
+        const distanceKm = haversineKm({ lat: latitude, lon: longitude }, { lat: place.latitude, lon: place.longitude });
+        if (distanceKm <= maxDistanceKm && (!best || distanceKm < best.distanceKm)) best = { place, distanceKm };
+      }
+    }
+  }
+  return best;
+}
@@ -0,0 +1,69 @@
+// Stable camera identifiers derived from raw rows.
+
+import { findProviderForSource, findProviderForUrl, type ProviderAdapter } from './providers';
+
+export function fnv1a32(input: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+type UrlFields = { page_url?: unknown; image_url?: unknown; source?: unknown };
+
+export function computeCameraId(cam: UrlFields, index: number): string {
+  const page = typeof cam?.page_url === 'string' ? cam.page_url : '';
+  const image = typeof cam?.image_url === 'string' ? cam.image_url : '';
+  const key = `${page}|${image}`;
+  if (key !== '|') return `cam-${fnv1a32(key)}`;
+  return `cam-${String(index).padStart(5, '0')}`;
+}
+
+/**
+ * Canonical per-camera key used to match duplicates across sources. Known providers (see
+ * `providers/`) yield `<namespace>:<provider id>`; everything else falls back to the page URL.
+ */
+export function computeNetworkKey(cam: UrlFields): string | null {
+  const page = typeof cam?.page_url === 'string' ? cam.page_url : '';
+  const image = typeof cam?.image_url === 'string' ? cam.image_url : '';
+  const source = typeof cam?.source === 'string' ? cam.source : '';
+
+  const url = page || image;
+  if (!url) return null;
+
+  const src = (source || 'unknown').toLowerCase();
+
+  const normalized = (v: string) => v.replace(/\/+$/, '');
+
+  // Fallback: use full host+path (stricter than host-only), stripped of query/hash.
+  const hostPathKey = (u: URL) => `${u.hostname.toLowerCase()}${normalized(u.pathname)}`;
+
+  try {
+    const u = new URL(url);
+    // The key is *canonical* (based on URL host, not `source`), so duplicates across sources can match.
+    // This intentionally avoids grouping by hostname alone.
+    const provider = findProviderForUrl(u);
+    if (provider) return `${provider.keyNamespace}:${provider.extractId(u) ?? hostPathKey(u)}`;
+
+    // Unknown providers: namespace by source to avoid accidental cross-provider collisions.
+    return `${src}:${hostPathKey(u)}`;
+  } catch {
+    // If URL parsing fails, fallback to a normalized raw string.
+    return `${src}:${normalized(url)}`;
+  }
+}
+
+/** Provider adapter for a row: by its `source` value first, then by the host of its page/image URL. */
+export function resolveRowProvider(cam: UrlFields): ProviderAdapter | null {
+  const bySource = findProviderForSource(typeof cam?.source === 'string' ? cam.source : null);
+  if (bySource) return bySource;
+  const url = (typeof cam?.page_url === 'string' && cam.page_url) || (typeof cam?.image_url === 'string' && cam.image_url);
+  if (!url) return null;
+  try {
+    return findProviderForUrl(new URL(url));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,128 @@
+// Normalization and its lookup tables (`normalize`, `gazetteer`, `timezone`, `locationCheck`)
+// are left out on purpose: they run in the dataset worker, and importing them from here would
+// put the tables in the main bundle too. Import those modules directly.
+
+export {
+  deriveCameraIdAliases,
+  fetchCameraIdAliasTable,
+  mergeCameraIdAliases,
+  migrateCameraIds,
+  parseCameraIdAliasTable,
+  resolveCameraIdAlias,
+  type CameraIdAliasTable,
+  type MigratedCameraIds,
+} from './aliases';
+export { decodeCameraDataBinary, encodeCameraDataBinary, isCameraDataBinary } from './binary';
+export {
+  CAMERA_DATA_CACHE_VERSION,
+  readCameraDataCache,
+  readCameraDataShardCache,
+  readCameraDataShardIndexCache,
+  readCameraIdAliasCache,
+  writeCameraDataCache,
+  writeCameraDataShardCache,
+  writeCameraDataShardIndexCache,
+  writeCameraIdAliasCache,
+  type CameraDataCacheRecord,
+  type CameraDataShardCacheRecord,
+  type CameraDataShardIndexCacheRecord,
+  type CameraIdAliasCacheRecord,
+} from './cache';
+export {
+  diffCameraDatasets,
+  hasCameraDatasetChanges,
+  mergeCameraDatasetChanges,
+  RELOCATION_THRESHOLD_KM,
+  type CameraDatasetChanges,
+  type DiffCameraDatasetsOptions,
+  type RelocatedCamera,
+} from './changelog';
+export {
+  COUNTRIES,
+  UNKNOWN_COUNTRY_CODE,
+  countryLookupKey,
+  getContinent,
+  getCountryByCode,
+  getCountryName,
+  resolveCountry,
+  type CountryRecord,
+} from './countries';
+export { dedupeCameras, type DedupeOptions, type DedupedCameraDataset } from './dedup';
+export { CAMERA_DATA_URL, fetchCameraData, type FetchCameraDataResult } from './fetch';
+export { computeCameraId, computeNetworkKey, fnv1a32, resolveRowProvider } from './ids';
+export {
+  annotateRelocatedCameras,
+  getPreviousLocations,
+  locationHistoryKey,
+  readCameraLocationHistory,
+  updateCameraLocationHistory,
+  writeCameraLocationHistory,
+  type CameraLocationHistory,
+} from './locationHistory';
+export { formatLocalTime, formatUtcOffset } from './localTime';
+export {
+  flagSharedCoordinates,
+  isVerifiedLocation,
+  LOCATION_FLAG_LABELS,
+  SHARED_COORDINATE_MIN_CAMERAS,
+} from './locationQuality';
+export {
+  CAMERA_DATA_MANIFEST_URL,
+  parseDatasetManifest,
+  parseDatasetPatch,
+  resolvePatchChain,
+  type DatasetManifest,
+  type DatasetPatch,
+  type DatasetPatchRef,
+  type DatasetShardRef,
+  type ShardBounds,
+} from './manifest';
+export { applyDatasetPatch, applyPatchesToPayload, createDatasetPatch } from './patch';
+export {
+  datasetFormatForFile,
+  decodeDatasetPayload,
+  encodeDatasetPayload,
+  hashDatasetPayload,
+  type DatasetFormat,
+  type DatasetPayload,
+} from './payload';
+export {
+  PROVIDER_ADAPTERS,
+  findProviderForSource,
+  findProviderForUrl,
+  getProviderAdapter,
+  type ProviderAccessPolicy,
+  type ProviderAdapter,
+  type ProviderFixture,
+} from './providers';
+export {
+  PLACEHOLDER_TEXT,
+  mergeLoadReports,
+  summarizeLoadReport,
+  validateRawRow,
+  type CameraDataLoadReport,
+  type RawCameraRow,
+  type RejectedRow,
+  type RepairedRow,
+  type RowRejectReason,
+  type RowRepairReason,
+} from './schema';
+export {
+  createDatasetShards,
+  fetchDatasetShard,
+  prioritizeShards,
+  type DatasetShard,
+  type ShardPriority,
+} from './shards';
+export {
+  fetchDatasetManifest,
+  syncCameraDataset,
+  type CachedDatasetState,
+  type SyncCameraDatasetResult,
+} from './sync';
+export {
+  loadCameraDataset,
+  patchCameraDataset,
+  type LoadCameraDatasetOptions,
+  type LoadedCameraDataset,
+} from './workerClient';
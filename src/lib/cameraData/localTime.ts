@@ -0,0 +1,44 @@
+// Local-time formatting for cameras, in the zone normalization stored on each (`timezone`).
+
+// Intl formatters are expensive to build and search results format many cameras per tick.
+const formatterCache = new Map<string, Intl.DateTimeFormat | null>();
+
+function getFormatter(timeZone: string, kind: 'time' | 'short-time' | 'offset'): Intl.DateTimeFormat | null {
+  const key = `${kind}|${timeZone}`;
+  if (formatterCache.has(key)) return formatterCache.get(key) ?? null;
+  let formatter: Intl.DateTimeFormat | null = null;
+  try {
+    formatter =
+      kind === 'offset'
+        ? new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'longOffset' })
+        : new Intl.DateTimeFormat(undefined, {
+            timeZone,
+            hour: '2-digit',
+            minute: '2-digit',
+            second: kind === 'time' ? '2-digit' : undefined,
+            // Not `hour12: false`, which picks h24 in V8 and shows half past midnight as 24:30.
+            hourCycle: 'h23',
+          });
+  } catch {
+    // Unknown zone (older browser tz database) or no `longOffset` support.
+  }
+  formatterCache.set(key, formatter);
+  return formatter;
+}
+
+/** Wall-clock time in `timeZone` (`HH:MM:SS`, or `HH:MM` with `seconds: false`); null if unknown. */
+export function formatLocalTime(date: Date, timeZone: string, options: { seconds?: boolean } = {}): string | null {
+  const formatter = getFormatter(timeZone, options.seconds === false ? 'short-time' : 'time');
+  return formatter ? formatter.format(date) : null;
+}
+
+/** Offset of `timeZone` from UTC at `date`, e.g. `UTC+05:30`, `UTC−03:00` or `UTC`; null if unknown. */
+export function formatUtcOffset(date: Date, timeZone: string): string | null {
+  const formatter = getFormatter(timeZone, 'offset');
+  if (!formatter) return null;
+  const name = formatter.formatToParts(date).find((p) => p.type === 'timeZoneName')?.value;
+  if (!name) return null;
+  // `longOffset` yields "GMT" for zero and "GMT+05:30" otherwise.
+  const offset = name.replace(/^GMT/, '');
+  return offset ? `UTC${offset.replace('-', '−')}` : 'UTC';
+}
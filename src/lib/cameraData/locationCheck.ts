@@ -0,0 +1,22 @@
+// Per-row coordinate checks run during normalization (see `locationQuality.ts` for the flags).
+
+import { iso1A2Codes } from '@rapideditor/country-coder';
+import type { LocationQuality } from '@/types/camera';
+import { UNKNOWN_COUNTRY_CODE } from './countries';
+import { toLocationQuality } from './locationQuality';
+
+/** Within this many degrees of (0, 0). */
+const NULL_ISLAND_TOLERANCE = 0.001;
+
+/**
+ * Per-row checks: null island, and whether the point falls inside the declared country. The
+ * bundled borders (country-coder) include territorial waters, so harbour and coastal cameras
+ * pass; a territory counts as inside its sovereign (Puerto Rico is in the US).
+ */
+export function assessCameraLocation(latitude: number, longitude: number, countryCode: string | undefined): LocationQuality {
+  if (Math.abs(latitude) < NULL_ISLAND_TOLERANCE && Math.abs(longitude) < NULL_ISLAND_TOLERANCE) {
+    return toLocationQuality(['null_island']);
+  }
+  if (!countryCode || countryCode === UNKNOWN_COUNTRY_CODE) return toLocationQuality(['unknown_country']);
+  return toLocationQuality(iso1A2Codes([longitude, latitude]).includes(countryCode) ? [] : ['outside_country']);
+}
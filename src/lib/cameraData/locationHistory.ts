@@ -0,0 +1,112 @@
+// Where each camera has been across dataset versions.
+//
+// Providers occasionally republish a camera (same `network_key`, e.g. `worldcam:35075`) at new
+// coordinates: a corrected geocode, or the camera really moved. The history keeps every distinct
+// position per camera in the `user` store, which is never evicted, so moves are still known after
+// the dataset that had the old position is gone. Cameras missing from the current dataset keep
+// their history in case they reappear.
+
+import { storageGet, storagePut } from '@/lib/storage';
+import type { CameraData, LocationHistoryPoint } from '@/types/camera';
+import { haversineKm } from '@/lib/geo';
+import { RELOCATION_THRESHOLD_KM } from './changelog';
+
+/** Oldest positions are dropped beyond this many per camera. */
+const MAX_POINTS_PER_CAMERA = 10;
+
+const LOCATION_HISTORY_KEY = 'location_history';
+const LOCATION_HISTORY_VERSION = 1;
+
+/** Camera key -> distinct positions, oldest first; the last one is the latest position seen. */
+export type CameraLocationHistory = Map<string, LocationHistoryPoint[]>;
+
+type LocationHistoryRecord = {
+  v: number;
+  ts: number;
+  // [latitude, longitude, seen] per point, to keep tens of thousands of cameras compact.
+  entries: Record<string, [number, number, number][]>;
+};
+
+const distanceFromCameraKm = (cam: CameraData, point: LocationHistoryPoint) =>
+  haversineKm({ lat: cam.latitude, lon: cam.longitude }, point);
+
+/** The provider's ID when known (it survives URL changes), the camera ID otherwise. */
+export function locationHistoryKey(cam: CameraData): string | null {
+  return cam.network_key ?? cam.id ?? null;
+}
+
+export async function readCameraLocationHistory(): Promise<CameraLocationHistory> {
+  const val = await storageGet<Partial<LocationHistoryRecord>>('user', LOCATION_HISTORY_KEY);
+  const history: CameraLocationHistory = new Map();
+  if (!val || typeof val !== 'object' || val.v !== LOCATION_HISTORY_VERSION || !val.entries) return history;
+  for (const [key, points] of Object.entries(val.entries)) {
+    if (!Array.isArray(points)) continue;
+    history.set(key, points.map(([lat, lon, seen]) => ({ lat, lon, seen })));
+  }
+  return history;
+}
+
+export function writeCameraLocationHistory(history: CameraLocationHistory): Promise<void> {
+  const record: LocationHistoryRecord = {
+    v: LOCATION_HISTORY_VERSION,
+    ts: Date.now(),
+    entries: Object.fromEntries(Array.from(history, ([key, points]) => [key, points.map((p) => [p.lat, p.lon, p.seen])])),
+  };
+  return storagePut('user', LOCATION_HISTORY_KEY, record);
+}
+
+/**
+ * Record the current position of every camera, stamped `seen` (ms since epoch). Returns the same
+ * map when nothing moved or appeared, a new one otherwise.
+ */
+export function updateCameraLocationHistory(
+  history: CameraLocationHistory,
+  cameras: readonly CameraData[],
+  seen: number,
+  thresholdKm = RELOCATION_THRESHOLD_KM
+): CameraLocationHistory {
+  let next: CameraLocationHistory | null = null;
+  for (const cam of cameras) {
+    const key = locationHistoryKey(cam);
+    if (!key) continue;
+    const points = (next ?? history).get(key);
+    const last = points?.[points.length - 1];
+    if (last && distanceFromCameraKm(cam, last) < thresholdKm) continue;
+    next ??= new Map(history);
+    const point = { lat: cam.latitude, lon: cam.longitude, seen };
+    next.set(key, [...(points ?? []), point].slice(-MAX_POINTS_PER_CAMERA));
+  }
+  return next ?? history;
+}
+
+/**
+ * Positions a camera was previously seen at, oldest first: its history minus the entry for where
+ * it is now (which is only there once the current dataset has been recorded).
+ */
+export function getPreviousLocations(
+  history: CameraLocationHistory,
+  cam: CameraData,
+  thresholdKm = RELOCATION_THRESHOLD_KM
+): LocationHistoryPoint[] {
+  const key = locationHistoryKey(cam);
+  const points = key ? history.get(key) : undefined;
+  if (!points || points.length === 0) return [];
+  const last = points[points.length - 1];
+  return distanceFromCameraKm(cam, last) < thresholdKm ? points.slice(0, -1) : points;
+}
+
+/**
+ * Set `previous_locations` on cameras that moved more than the threshold since an earlier dataset.
+ * Returns the same array when none did; relocated cameras are copied.
+ */
+export function annotateRelocatedCameras(cameras: CameraData[], history: CameraLocationHistory): CameraData[] {
+  if (history.size === 0) return cameras;
+  let out: CameraData[] | null = null;
+  cameras.forEach((cam, i) => {
+    const previous = getPreviousLocations(history, cam);
+    if (previous.length === 0) return;
+    out ??= cameras.slice();
+    out[i] = { ...cam, previous_locations: previous };
+  });
+  return out ?? cameras;
+}
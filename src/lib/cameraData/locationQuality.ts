@@ -0,0 +1,58 @@
+// How far a camera's coordinates can be trusted.
+//
+// Scrapers geocode badly: failed lookups come back as (0, 0), cameras whose address couldn't
+// be resolved get their city's or country's centroid (so dozens pile up on one point), and
+// swapped or truncated coordinates land in another country or the ocean. Each row is checked
+// on its own during normalization (`assessCameraLocation`, in `locationCheck.ts` so the border
+// tables stay out of the UI bundle); coordinates shared by many cameras can only be spotted
+// across the whole dataset (`flagSharedCoordinates`).
+
+import type { CameraData, LocationFlag, LocationQuality } from '@/types/camera';
+
+/** A single site rarely has this many cameras on one exact point; geocoder fallbacks stack far more. */
+export const SHARED_COORDINATE_MIN_CAMERAS = 10;
+
+export const LOCATION_FLAG_LABELS: Record<LocationFlag, string> = {
+  null_island: 'At (0, 0)',
+  outside_country: 'Outside its country',
+  shared_coordinates: 'Shared point',
+  unknown_country: 'Country unknown',
+};
+
+// Multiplied into the score (1 = nothing suspicious).
+const FLAG_WEIGHTS: Record<LocationFlag, number> = {
+  null_island: 0,
+  outside_country: 0.25,
+  shared_coordinates: 0.5,
+  unknown_country: 0.75,
+};
+
+export function toLocationQuality(flags: LocationFlag[]): LocationQuality {
+  const score = flags.reduce((s, flag) => s * FLAG_WEIGHTS[flag], 1);
+  return { score: Math.round(score * 100) / 100, flags };
+}
+
+const coordinateKey = (cam: CameraData) => `${cam.latitude.toFixed(5)}|${cam.longitude.toFixed(5)}`;
+
+/**
+ * Flag cameras whose exact coordinates are shared by at least `minCameras` cameras (run after
+ * dedup, so one camera listed by several sources counts once). Returns the same array when
+ * nothing is shared; flagged cameras are copied.
+ */
+export function flagSharedCoordinates(cameras: CameraData[], minCameras = SHARED_COORDINATE_MIN_CAMERAS): CameraData[] {
+  const counts = new Map<string, number>();
+  for (const cam of cameras) counts.set(coordinateKey(cam), (counts.get(coordinateKey(cam)) ?? 0) + 1);
+  if (!Array.from(counts.values()).some((n) => n >= minCameras)) return cameras;
+
+  return cameras.map((cam) => {
+    if ((counts.get(coordinateKey(cam)) ?? 0) < minCameras) return cam;
+    const flags = cam.location_quality?.flags ?? [];
+    if (flags.includes('shared_coordinates')) return cam;
+    return { ...cam, location_quality: toLocationQuality([...flags, 'shared_coordinates']) };
+  });
+}
+
+/** No flags: inside its declared country, off null island and not on a shared point. */
+export function isVerifiedLocation(cam: CameraData): boolean {
+  return !!cam.location_quality && cam.location_quality.flags.length === 0;
+}
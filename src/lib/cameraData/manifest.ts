@@ -0,0 +1,139 @@
+// Dataset manifest: tells clients which dataset version is current and how to reach it
+// from an older cached version via patch files, or (when `shards` are listed) which
+// per-continent shard files make up the dataset.
+//
+// Served from `public/` (no build step needed) so it can be updated independently of the
+// app bundle. A missing manifest means "legacy deployment": clients fall back to the
+// ETag-revalidated full download.
+
+import type { RawCameraRow } from './schema';
+
+export const CAMERA_DATA_MANIFEST_URL = '/camera_data.manifest.json';
+
+export interface DatasetPatchRef {
+  from: number;
+  to: number;
+  /** Path relative to the manifest URL. */
+  file: string;
+}
+
+/** [west, south, east, north] in degrees. */
+export type ShardBounds = [number, number, number, number];
+
+export interface DatasetShardRef {
+  /** Continent name as returned by `getContinent` (matches `selectedRegions`). */
+  key: string;
+  /** Path relative to the manifest URL; `.bin` files use the columnar binary encoding. */
+  file: string;
+  /** SHA-256 (hex) of the shard file as published. */
+  hash: string;
+  count: number;
+  /** Bounds of the shard's rows; null when no row has usable coordinates. */
+  bbox: ShardBounds | null;
+}
+
+export interface DatasetManifest {
+  version: number;
+  /** SHA-256 (hex) of the full dataset file for `version`, as published (JSON text or binary bytes). */
+  hash: string;
+  /** Full dataset file, relative to the manifest URL. `.bin` files use the columnar binary encoding. */
+  file: string;
+  patches: DatasetPatchRef[];
+  /** Per-continent split of the same version. When present, shard-aware clients load these instead of `file`. */
+  shards: DatasetShardRef[];
+  /** Camera ID alias table (retired ID -> current ID), relative to the manifest URL. */
+  aliases: string | null;
+}
+
+/**
+ * Rows changed between two consecutive dataset versions, keyed by `computeCameraId`.
+ * See `applyDatasetPatch` for the (order-preserving) application rules.
+ */
+export interface DatasetPatch {
+  from: number;
+  to: number;
+  add: RawCameraRow[];
+  remove: string[];
+  update: { id: string; row: RawCameraRow }[];
+}
+
+function isVersion(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+export function parseDatasetManifest(json: unknown): DatasetManifest {
+  if (!json || typeof json !== 'object') throw new Error('Dataset manifest is not an object');
+  const m = json as Record<string, unknown>;
+  if (!isVersion(m.version)) throw new Error('Dataset manifest has an invalid version');
+  if (typeof m.hash !== 'string' || !m.hash) throw new Error('Dataset manifest has no hash');
+  if (typeof m.file !== 'string' || !m.file) throw new Error('Dataset manifest has no file');
+
+  const patches: DatasetPatchRef[] = [];
+  if (Array.isArray(m.patches)) {
+    for (const p of m.patches) {
+      if (!p || typeof p !== 'object') continue;
+      const ref = p as Record<string, unknown>;
+      if (!isVersion(ref.from) || !isVersion(ref.to) || typeof ref.file !== 'string') continue;
+      if (ref.to !== ref.from + 1) continue;
+      patches.push({ from: ref.from, to: ref.to, file: ref.file });
+    }
+  }
+
+  const shards: DatasetShardRef[] = [];
+  if (Array.isArray(m.shards)) {
+    for (const s of m.shards) {
+      if (!s || typeof s !== 'object') continue;
+      const ref = s as Record<string, unknown>;
+      if (typeof ref.key !== 'string' || typeof ref.file !== 'string' || typeof ref.hash !== 'string') continue;
+      const bbox =
+        Array.isArray(ref.bbox) && ref.bbox.length === 4 && ref.bbox.every((n) => typeof n === 'number')
+          ? (ref.bbox as ShardBounds)
+          : null;
+      shards.push({ key: ref.key, file: ref.file, hash: ref.hash, count: typeof ref.count === 'number' ? ref.count : 0, bbox });
+    }
+  }
+
+  const aliases = typeof m.aliases === 'string' && m.aliases ? m.aliases : null;
+
+  return { version: m.version, hash: m.hash, file: m.file, patches, shards, aliases };
+}
+
+export function parseDatasetPatch(json: unknown): DatasetPatch {
+  if (!json || typeof json !== 'object') throw new Error('Dataset patch is not an object');
+  const p = json as Record<string, unknown>;
+  if (!isVersion(p.from) || !isVersion(p.to)) throw new Error('Dataset patch has invalid versions');
+
+  const add = Array.isArray(p.add) ? (p.add as RawCameraRow[]) : [];
+  const remove = Array.isArray(p.remove) ? p.remove.filter((id): id is string => typeof id === 'string') : [];
+  const update = Array.isArray(p.update)
+    ? (p.update as unknown[]).filter(
+        (u): u is { id: string; row: RawCameraRow } =>
+          !!u && typeof u === 'object' && typeof (u as { id?: unknown }).id === 'string' && !!(u as { row?: unknown }).row
+      )
+    : [];
+
+  return { from: p.from, to: p.to, add, remove, update };
+}
+
+/**
+ * Ordered list of patches leading from `from` to `manifest.version`,
+ * or null when the chain has a gap (the caller then downloads the full file).
+ */
+export function resolvePatchChain(manifest: DatasetManifest, from: number): DatasetPatchRef[] | null {
+  if (from >= manifest.version) return null;
+  const byFrom = new Map(manifest.patches.map((p) => [p.from, p]));
+  const chain: DatasetPatchRef[] = [];
+  let v = from;
+  while (v < manifest.version) {
+    const next = byFrom.get(v);
+    if (!next) return null;
+    chain.push(next);
+    v = next.to;
+  }
+  return chain;
+}
+
+export function resolveManifestUrl(file: string): string {
+  const base = typeof window !== 'undefined' ? window.location.href : 'http://localhost/';
+  return new URL(file, new URL(CAMERA_DATA_MANIFEST_URL, base)).toString();
+}
@@ -0,0 +1,131 @@
+import type { CameraData, InferredField } from '@/types/camera';
+import { getCountryByCode, UNKNOWN_COUNTRY_CODE } from './countries';
+import { reverseGeocode } from './gazetteer';
+import { computeCameraId, computeNetworkKey, resolveRowProvider } from './ids';
+import { assessCameraLocation } from './locationCheck';
+import { lookupTimezone } from './timezone';
+import {
+  createLoadReport,
+  PLACEHOLDER_TEXT,
+  validateRawRow,
+  type CameraDataLoadReport,
+  type RawCameraRow,
+  type RowRejectReason,
+  type RowRepairReason,
+  type ValidRawCameraRow,
+} from './schema';
+
+export interface NormalizedCameraDataset {
+  cameras: CameraData[];
+  report: CameraDataLoadReport;
+}
+
+export type NormalizedRowResult =
+  | { ok: true; camera: CameraData; repairs: RowRepairReason[] }
+  | { ok: false; reason: RowRejectReason; detail?: string };
+
+// Further than this from any gazetteer place, a row keeps its placeholder city; the admin-1
+// region of the nearest place is still a safe guess a little further out.
+const INFERRED_CITY_MAX_KM = 25;
+const INFERRED_REGION_MAX_KM = 100;
+
+/** City/region for a row that lacks them, from the nearest place in the same country. */
+function inferPlaceNames(row: ValidRawCameraRow): { city: string; region: string; inferred: InferredField[] } {
+  const inferred: InferredField[] = [];
+  let { city, region } = row;
+  if (city !== PLACEHOLDER_TEXT && region !== PLACEHOLDER_TEXT) return { city, region, inferred };
+
+  const match = reverseGeocode(row.latitude, row.longitude, {
+    countryCode: row.country_code !== UNKNOWN_COUNTRY_CODE ? row.country_code : undefined,
+    maxDistanceKm: region === PLACEHOLDER_TEXT ? INFERRED_REGION_MAX_KM : INFERRED_CITY_MAX_KM,
+  });
+  if (!match) return { city, region, inferred };
+  if (city === PLACEHOLDER_TEXT && match.distanceKm <= INFERRED_CITY_MAX_KM) {
+    city = match.place.name;
+    inferred.push('city');
+  }
+  if (region === PLACEHOLDER_TEXT && match.place.region) {
+    region = match.place.region;
+    inferred.push('region');
+  }
+  return { city, region, inferred };
+}
+
+/**
+ * Turn one raw row into a `CameraData`, or return the validation failure.
+ * IDs and network keys are derived from the *unrepaired* row so they match what
+ * earlier builds stored in favorites/recents and share links.
+ */
+export function normalizeCameraRow(input: unknown, index: number): NormalizedRowResult {
+  const result = validateRawRow(input);
+  if (result.ok === false) return result;
+
+  const raw = input as Partial<RawCameraRow>;
+  const { row } = result;
+  const provider = resolveRowProvider(raw);
+  const place = inferPlaceNames(row);
+  const camera: CameraData = {
+    id: computeCameraId(raw, index),
+    latitude: row.latitude,
+    longitude: row.longitude,
+    continent: getCountryByCode(row.country_code)?.continent ?? 'Other',
+    country: row.country,
+    country_code: row.country_code,
+    city: place.city,
+    region: place.region,
+    manufacturer: row.manufacturer,
+    image_url: row.image_url,
+    page_url: row.page_url,
+    source: row.source,
+    network_key: computeNetworkKey(raw) ?? undefined,
+    provider: provider?.id,
+    access_level: provider?.access ?? 'public',
+    timezone: lookupTimezone(row.latitude, row.longitude),
+    location_quality: assessCameraLocation(row.latitude, row.longitude, row.country_code),
+  };
+  if (place.inferred.length > 0) camera.inferred_fields = place.inferred;
+  return { ok: true, camera, repairs: result.repairs };
+}
+
+export interface NormalizeOptions {
+  /** Called with the cameras accepted from each run of `batchSize` input rows. */
+  onBatch?: (cameras: CameraData[]) => void;
+  batchSize?: number;
+}
+
+export function normalizeCameraRows(rows: readonly unknown[], options: NormalizeOptions = {}): NormalizedCameraDataset {
+  const { onBatch, batchSize = 5000 } = options;
+  const report = createLoadReport();
+  const cameras: CameraData[] = [];
+  let batchStart = 0;
+
+  rows.forEach((input, index) => {
+    report.total += 1;
+    const result = normalizeCameraRow(input, index);
+
+    if (result.ok === false) {
+      report.rejectedByReason[result.reason] = (report.rejectedByReason[result.reason] ?? 0) + 1;
+      report.rejected.push({ index, reason: result.reason, detail: result.detail });
+    } else {
+      if (result.repairs.length > 0) {
+        for (const reason of result.repairs) {
+          report.repairedByReason[reason] = (report.repairedByReason[reason] ?? 0) + 1;
+        }
+        report.repaired.push({ index, reasons: result.repairs });
+      }
+
+      report.accepted += 1;
+      cameras.push(result.camera);
+    }
+
+    // Batches are cut on input rows so progress stays even when many rows are rejected.
+    if (onBatch && (index + 1) % batchSize === 0) {
+      onBatch(cameras.slice(batchStart));
+      batchStart = cameras.length;
+    }
+  });
+
+  if (onBatch && batchStart < cameras.length) onBatch(cameras.slice(batchStart));
+
+  return { cameras, report };
+}
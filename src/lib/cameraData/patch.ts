@@ -0,0 +1,83 @@
+import { computeCameraId } from './ids';
+import type { DatasetPatch } from './manifest';
+import { decodeDatasetPayload, encodeDatasetPayload, hashDatasetPayload, type DatasetPayload } from './payload';
+import type { RawCameraRow } from './schema';
+
+function rowId(row: unknown, index: number): string {
+  return computeCameraId((row ?? {}) as Partial<RawCameraRow>, index);
+}
+
+/**
+ * Apply one patch to a list of raw rows.
+ *
+ * The result order is canonical: surviving rows keep their position (updates are replaced in
+ * place) and added rows are appended. Published full files must use the same order so a
+ * patched cache hashes identically to a fresh download.
+ */
+export function applyDatasetPatch(rows: readonly unknown[], patch: DatasetPatch): unknown[] {
+  const remove = new Set(patch.remove);
+  const update = new Map(patch.update.map((u) => [u.id, u.row]));
+  const seen = new Set<string>();
+  const out: unknown[] = [];
+
+  rows.forEach((row, index) => {
+    const id = rowId(row, index);
+    if (remove.has(id)) {
+      seen.add(id);
+      return;
+    }
+    const next = update.get(id);
+    if (next) seen.add(id);
+    out.push(next ?? row);
+  });
+
+  // A patch that references rows we don't have was built against a different base.
+  for (const id of [...remove, ...update.keys()]) {
+    if (!seen.has(id)) throw new Error(`Dataset patch ${patch.from}→${patch.to} references unknown camera ${id}`);
+  }
+
+  for (const row of patch.add) out.push(row);
+  return out;
+}
+
+/**
+ * Build the patch that turns `prev` into `next`. Rows are matched by camera id; a row is an
+ * update when its id exists in both versions but its JSON differs.
+ */
+export function createDatasetPatch(
+  prev: readonly unknown[],
+  next: readonly unknown[],
+  from: number,
+  to: number
+): DatasetPatch {
+  const prevById = new Map<string, string>();
+  prev.forEach((row, index) => prevById.set(rowId(row, index), JSON.stringify(row)));
+
+  const nextIds = new Set<string>();
+  const patch: DatasetPatch = { from, to, add: [], remove: [], update: [] };
+
+  next.forEach((row, index) => {
+    const id = rowId(row, index);
+    nextIds.add(id);
+    const before = prevById.get(id);
+    if (before === undefined) patch.add.push(row as RawCameraRow);
+    else if (before !== JSON.stringify(row)) patch.update.push({ id, row: row as RawCameraRow });
+  });
+
+  for (const id of prevById.keys()) {
+    if (!nextIds.has(id)) patch.remove.push(id);
+  }
+
+  return patch;
+}
+
+/** Decode a payload, apply `patches` in order and re-encode it (same format) along with its hash. */
+export async function applyPatchesToPayload(
+  payload: DatasetPayload,
+  patches: DatasetPatch[]
+): Promise<{ payload: DatasetPayload; hash: string | null }> {
+  let rows = decodeDatasetPayload(payload);
+  for (const patch of patches) rows = applyDatasetPatch(rows, patch);
+  const next = encodeDatasetPayload(rows, payload.format);
+  return { payload: next, hash: await hashDatasetPayload(next) };
+}
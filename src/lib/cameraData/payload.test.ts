@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { isCameraDataBinary } from './binary';
+import { normalizeCameraRows } from './normalize';
+import { decodeDatasetPayload, encodeDatasetPayload } from './payload';
+
+const ROWS = [
+  {
+    latitude: 35.6895,
+    longitude: 139.6917,
+    country: 'Japan',
+    city: 'Tokyo',
+    region: 'Tokyo',
+    manufacturer: 'Panasonic',
+    image_url: 'http://203.0.113.7:80/cgi-bin/camera?resolution=640',
+    page_url: 'http://www.insecam.org/en/view/123456/',
+    source: 'insecam',
+  },
+  // Coordinates as numeric strings.
+  {
+    latitude: '48.8584',
+    longitude: '2.2945',
+    country: 'France',
+    city: 'Paris',
+    region: 'Île-de-France',
+    manufacturer: 'Axis',
+    image_url: 'http://198.51.100.4/axis-cgi/mjpg/video.cgi',
+    page_url: 'https://www.worldcam.eu/webcams/europe/france/1234-paris',
+    source: 'worldcam.eu',
+  },
+  // Only the required fields.
+  {
+    latitude: -33.8688,
+    longitude: 151.2093,
+    country: 'Australia',
+    image_url: 'http://192.0.2.10/snapshot.jpg',
+  },
+  // Non-ASCII titles and URLs.
+  {
+    latitude: 59.3293,
+    longitude: 18.0686,
+    country: 'Sweden',
+    city: 'Göteborg',
+    region: 'Västra Götaland',
+    manufacturer: 'Mobotix',
+    image_url: 'https://kamera.example.se/bilder/vy-över-älven.jpg',
+    page_url: 'https://example.se/webbkameror/göteborg/hamnen-☀',
+    source: 'example.se',
+  },
+  {
+    latitude: 37.5665,
+    longitude: 126.978,
+    country: 'South Korea',
+    city: '서울',
+    region: '서울특별시',
+    image_url: 'https://cctv.example.kr/영상/광화문.jpg',
+    page_url: 'https://cctv.example.kr/영상/',
+  },
+];
+
+describe('dataset payloads', () => {
+  it('normalize to identical cameras from JSON and binary', () => {
+    const json = encodeDatasetPayload(ROWS, 'json');
+    const binary = encodeDatasetPayload(ROWS, 'binary');
+    expect(binary.format === 'binary' && isCameraDataBinary(new Uint8Array(binary.bytes))).toBe(true);
+
+    const fromJson = normalizeCameraRows(decodeDatasetPayload(json)).cameras;
+    const fromBinary = normalizeCameraRows(decodeDatasetPayload(binary)).cameras;
+    expect(fromJson).toHaveLength(ROWS.length);
+    expect(fromBinary).toEqual(fromJson);
+  });
+
+  it('keep strings and coordinates intact through the binary encoding', () => {
+    const rows = decodeDatasetPayload(encodeDatasetPayload(ROWS, 'binary'));
+    expect(rows[1]).toMatchObject({ latitude: 48.8584, longitude: 2.2945, region: 'Île-de-France' });
+    expect(rows[2]).toMatchObject({ city: undefined, region: undefined, page_url: undefined, source: undefined });
+    expect(rows[3]).toMatchObject({ city: 'Göteborg', page_url: 'https://example.se/webbkameror/göteborg/hamnen-☀' });
+    expect(rows[4]).toMatchObject({ city: '서울', image_url: 'https://cctv.example.kr/영상/광화문.jpg' });
+  });
+
+  it('encode deterministically', () => {
+    const bytes = () => {
+      const payload = encodeDatasetPayload(ROWS, 'binary');
+      return payload.format === 'binary' ? new Uint8Array(payload.bytes) : null;
+    };
+    expect(bytes()).toEqual(bytes());
+  });
+});
@@ -0,0 +1,45 @@
+// Raw dataset payloads: the published file in either of its two encodings.
+// The format is negotiated by file extension (`.bin` -> columnar binary, anything else -> JSON).
+
+import { decodeCameraDataBinary, encodeCameraDataBinary } from './binary';
+
+export type DatasetFormat = 'json' | 'binary';
+
+export type DatasetPayload =
+  | { format: 'json'; text: string }
+  | { format: 'binary'; bytes: ArrayBuffer };
+
+export function datasetFormatForFile(file: string): DatasetFormat {
+  const path = file.split(/[?#]/)[0].toLowerCase();
+  return path.endsWith('.bin') ? 'binary' : 'json';
+}
+
+export async function readDatasetResponse(res: Response, file: string): Promise<DatasetPayload> {
+  if (datasetFormatForFile(file) === 'binary') return { format: 'binary', bytes: await res.arrayBuffer() };
+  return { format: 'json', text: await res.text() };
+}
+
+/** Decode a payload into raw rows (still unvalidated). */
+export function decodeDatasetPayload(payload: DatasetPayload): unknown[] {
+  if (payload.format === 'binary') return decodeCameraDataBinary(payload.bytes);
+  const json: unknown = JSON.parse(payload.text);
+  if (!Array.isArray(json)) throw new Error('Camera data JSON is not an array');
+  return json;
+}
+
+export function encodeDatasetPayload(rows: readonly unknown[], format: DatasetFormat): DatasetPayload {
+  if (format === 'binary') {
+    const bytes = encodeCameraDataBinary(rows);
+    return { format, bytes: bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer };
+  }
+  return { format, text: JSON.stringify(rows) };
+}
+
+/** SHA-256 hex digest of the payload as published, or null where WebCrypto is unavailable (insecure origins). */
+export async function hashDatasetPayload(payload: DatasetPayload): Promise<string | null> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) return null;
+  const data = payload.format === 'binary' ? payload.bytes : new TextEncoder().encode(payload.text);
+  const digest = await subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
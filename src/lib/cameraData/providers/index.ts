@@ -0,0 +1,28 @@
+// Provider adapter registry. Adding a source = one adapter file (with fixtures) + one entry here.
+
+import { insecam } from './insecam';
+import type { ProviderAdapter } from './types';
+import { worldcamEu } from './worldcamEu';
+import { worldcamPl } from './worldcamPl';
+import { worldviewstream } from './worldviewstream';
+
+export type { ProviderAccessPolicy, ProviderAdapter, ProviderFixture } from './types';
+
+/** Checked in order; the first adapter whose `matchHost` accepts the URL wins. */
+export const PROVIDER_ADAPTERS: readonly ProviderAdapter[] = [worldcamEu, worldcamPl, insecam, worldviewstream];
+
+export function getProviderAdapter(id: string | null | undefined): ProviderAdapter | null {
+  if (!id) return null;
+  return PROVIDER_ADAPTERS.find((a) => a.id === id) ?? null;
+}
+
+export function findProviderForUrl(url: URL): ProviderAdapter | null {
+  const host = url.hostname.toLowerCase();
+  return PROVIDER_ADAPTERS.find((a) => a.matchHost(host)) ?? null;
+}
+
+export function findProviderForSource(source: string | null | undefined): ProviderAdapter | null {
+  const s = source?.trim().toLowerCase();
+  if (!s) return null;
+  return PROVIDER_ADAPTERS.find((a) => a.id === s || a.sources.includes(s)) ?? null;
+}
@@ -0,0 +1,19 @@
+import type { ProviderAdapter } from './types';
+
+// Numeric camera ID as the last path segment (optionally with an extension).
+const NUMERIC_ID = /\/(\d{3,})(?:\.[a-zA-Z]+)?$/;
+
+export const insecam: ProviderAdapter = {
+  id: 'insecam',
+  keyNamespace: 'insecam',
+  sources: ['insecam'],
+  attribution: { name: 'Insecam', url: 'http://www.insecam.org' },
+  // Insecam lists unsecured private cameras; they're shown but flagged.
+  access: 'restricted',
+  matchHost: (host) => host.endsWith('insecam.org'),
+  extractId: (url) => url.pathname.match(NUMERIC_ID)?.[1] ?? null,
+  fixtures: [
+    { url: 'http://www.insecam.org/en/view/12345', networkKey: 'insecam:12345' },
+    { url: 'http://www.insecam.org/en/bycountry/US/', networkKey: 'insecam:www.insecam.org/en/bycountry/US' },
+  ],
+};
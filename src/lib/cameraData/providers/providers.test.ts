@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { computeNetworkKey } from '../ids';
+import { findProviderForSource, findProviderForUrl, PROVIDER_ADAPTERS } from './index';
+
+describe.each(PROVIDER_ADAPTERS.map((adapter) => [adapter.id, adapter] as const))('%s adapter', (_id, adapter) => {
+  it('has fixtures', () => {
+    expect(adapter.fixtures.length).toBeGreaterThan(0);
+  });
+
+  it('is found by its own id and sources', () => {
+    for (const source of [adapter.id, ...adapter.sources]) expect(findProviderForSource(source)).toBe(adapter);
+  });
+
+  it.each(adapter.fixtures.map((fixture) => [fixture.url, fixture] as const))('%s', (_url, fixture) => {
+    const url = new URL(fixture.url);
+    expect(findProviderForUrl(url)).toBe(adapter);
+    // Fixtures are page URLs; the source is deliberately unrelated so the key can't come from it.
+    expect(computeNetworkKey({ page_url: fixture.url, source: 'fixture' })).toBe(fixture.networkKey);
+    if (fixture.slug !== undefined) expect(adapter.extractSlug?.(url) ?? null).toBe(fixture.slug);
+  });
+});
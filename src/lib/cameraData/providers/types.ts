@@ -0,0 +1,34 @@
+// Provider adapters: per-source knowledge of camera URLs (how to recognise a provider's pages,
+// pull out its per-camera ID, and how its streams may be used). One adapter per provider,
+// registered in `./index.ts`.
+
+export type ProviderAccessPolicy = 'public' | 'restricted';
+
+/** A known URL and what the adapter must extract from it; checked by `providers.test.ts`. */
+export interface ProviderFixture {
+  url: string;
+  /** Expected `computeNetworkKey` result for the URL as a page URL. */
+  networkKey: string;
+  slug?: string | null;
+}
+
+export interface ProviderAdapter {
+  /** Stable adapter ID (also accepted as the row `source` value). */
+  id: string;
+  /**
+   * Prefix of canonical network keys. Providers that mirror each other's IDs share a
+   * namespace so their rows dedupe against each other.
+   */
+  keyNamespace: string;
+  /** Dataset `source` values that identify this provider even without a recognisable URL. */
+  sources: string[];
+  attribution: { name: string; url: string };
+  access: ProviderAccessPolicy;
+  /** `host` is lower-cased. */
+  matchHost: (host: string) => boolean;
+  /** Per-camera ID from a page/image URL, or null when the URL doesn't carry one. */
+  extractId: (url: URL) => string | null;
+  /** Human-readable slug/title from the URL, when the provider puts one there. */
+  extractSlug?: (url: URL) => string | null;
+  fixtures: ProviderFixture[];
+}
@@ -0,0 +1,23 @@
+import type { ProviderAdapter } from './types';
+
+// Pages end in `<id>-<slug>`, e.g. /webcams/north-america/united-states/35075-athens-i65-hwy72.
+const ID_SLUG = /\/(\d{3,})-([^/]+)$/;
+
+export const worldcamEu: ProviderAdapter = {
+  id: 'worldcam.eu',
+  keyNamespace: 'worldcam',
+  sources: ['worldcam.eu'],
+  attribution: { name: 'WorldCam', url: 'https://worldcam.eu' },
+  access: 'public',
+  matchHost: (host) => host.endsWith('worldcam.eu'),
+  extractId: (url) => url.pathname.match(ID_SLUG)?.[1] ?? null,
+  extractSlug: (url) => url.pathname.match(ID_SLUG)?.[2] ?? null,
+  fixtures: [
+    {
+      url: 'https://worldcam.eu/webcams/north-america/united-states/35075-athens-i65-hwy72',
+      networkKey: 'worldcam:35075',
+      slug: 'athens-i65-hwy72',
+    },
+    { url: 'https://worldcam.eu/webcams/europe/', networkKey: 'worldcam:worldcam.eu/webcams/europe', slug: null },
+  ],
+};
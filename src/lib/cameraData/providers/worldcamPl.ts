@@ -0,0 +1,18 @@
+import type { ProviderAdapter } from './types';
+
+const NUMERIC_ID = /\/(\d{3,})(?:\.[a-zA-Z]+)?$/;
+
+export const worldcamPl: ProviderAdapter = {
+  id: 'worldcam.pl',
+  // Mirrors insecam's camera IDs, so keys share its namespace and the rows dedupe together.
+  keyNamespace: 'insecam',
+  sources: ['worldcam.pl'],
+  attribution: { name: 'WorldCam.pl', url: 'https://worldcam.pl' },
+  access: 'public',
+  matchHost: (host) => host.endsWith('worldcam.pl'),
+  extractId: (url) => url.pathname.match(NUMERIC_ID)?.[1] ?? null,
+  fixtures: [
+    { url: 'https://worldcam.pl/webcams/12345', networkKey: 'insecam:12345' },
+    { url: 'https://www.worldcam.pl/kamery/12345.html', networkKey: 'insecam:12345' },
+  ],
+};
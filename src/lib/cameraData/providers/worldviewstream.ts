@@ -0,0 +1,19 @@
+import type { ProviderAdapter } from './types';
+
+const lastSegment = (url: URL) => url.pathname.split('/').filter(Boolean).pop() ?? null;
+
+export const worldviewstream: ProviderAdapter = {
+  id: 'worldviewstream',
+  keyNamespace: 'worldviewstream',
+  sources: ['worldviewstream'],
+  attribution: { name: 'WorldViewStream', url: 'https://worldviewstream.com' },
+  access: 'public',
+  matchHost: (host) => host.endsWith('worldviewstream.com'),
+  // Slug-based pages are per-camera, so the slug doubles as the ID.
+  extractId: lastSegment,
+  extractSlug: lastSegment,
+  fixtures: [
+    { url: 'https://worldviewstream.com/webcam/times-square-new-york', networkKey: 'worldviewstream:times-square-new-york', slug: 'times-square-new-york' },
+    { url: 'https://worldviewstream.com/', networkKey: 'worldviewstream:worldviewstream.com' },
+  ],
+};
@@ -0,0 +1,220 @@
+// Raw camera dataset schema + row validation.
+//
+// `camera_data.min.v2.json` is produced by scrapers we don't fully control, so every row
+// goes through `validateRawRow` before it becomes a `CameraData`. Rows are either accepted
+// as-is, accepted with repairs (recorded as issues), or rejected with a reason.
+
+import { resolveCountry, UNKNOWN_COUNTRY_CODE } from './countries';
+
+/** A row as it appears in `camera_data.min.v2.json`. */
+export interface RawCameraRow {
+  latitude: number | string;
+  longitude: number | string;
+  country: string;
+  city?: string;
+  region?: string;
+  manufacturer?: string;
+  image_url: string;
+  page_url?: string;
+  source?: string;
+}
+
+export type RowRejectReason =
+  | 'not_object'
+  | 'invalid_coordinates'
+  | 'coordinates_out_of_range'
+  | 'missing_urls'
+  | 'missing_image_url';
+
+export type RowRepairReason =
+  | 'coerced_coordinates'
+  | 'missing_page_url'
+  | 'missing_country'
+  | 'unknown_country'
+  | 'renamed_country'
+  | 'missing_text_field';
+
+export interface RejectedRow {
+  index: number;
+  reason: RowRejectReason;
+  detail?: string;
+}
+
+export interface RepairedRow {
+  index: number;
+  reasons: RowRepairReason[];
+}
+
+export interface CameraDataLoadReport {
+  total: number;
+  accepted: number;
+  rejected: RejectedRow[];
+  repaired: RepairedRow[];
+  rejectedByReason: Partial<Record<RowRejectReason, number>>;
+  repairedByReason: Partial<Record<RowRepairReason, number>>;
+}
+
+/** A row that passed validation; every field is present and well-typed. */
+export interface ValidRawCameraRow {
+  latitude: number;
+  longitude: number;
+  /** Registry display name when the country was recognized, the raw spelling otherwise. */
+  country: string;
+  /** ISO 3166-1 alpha-2, or `UNKNOWN_COUNTRY_CODE`. */
+  country_code: string;
+  city: string;
+  region: string;
+  manufacturer: string;
+  image_url: string;
+  page_url: string;
+  source?: string;
+}
+
+export type RowValidationResult =
+  | { ok: true; row: ValidRawCameraRow; repairs: RowRepairReason[] }
+  | { ok: false; reason: RowRejectReason; detail?: string };
+
+/** Stand-in for missing city/region/manufacturer text. */
+export const PLACEHOLDER_TEXT = 'N/A';
+const UNKNOWN_COUNTRY = 'Unknown';
+
+function readString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function readCoordinate(value: unknown): { value: number; coerced: boolean } | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? { value, coerced: false } : null;
+  if (typeof value === 'string' && value.trim()) {
+    const n = Number(value);
+    return Number.isFinite(n) ? { value: n, coerced: true } : null;
+  }
+  return null;
+}
+
+export function validateRawRow(input: unknown): RowValidationResult {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, reason: 'not_object' };
+  }
+  const cam = input as Record<string, unknown>;
+  const repairs: RowRepairReason[] = [];
+
+  const lat = readCoordinate(cam.latitude);
+  const lon = readCoordinate(cam.longitude);
+  if (!lat || !lon) {
+    return {
+      ok: false,
+      reason: 'invalid_coordinates',
+      detail: `latitude=${String(cam.latitude)} longitude=${String(cam.longitude)}`,
+    };
+  }
+  if (Math.abs(lat.value) > 90 || Math.abs(lon.value) > 180) {
+    return {
+      ok: false,
+      reason: 'coordinates_out_of_range',
+      detail: `latitude=${lat.value} longitude=${lon.value}`,
+    };
+  }
+  if (lat.coerced || lon.coerced) repairs.push('coerced_coordinates');
+
+  const imageUrl = readString(cam.image_url);
+  let pageUrl = readString(cam.page_url);
+  if (!imageUrl && !pageUrl) return { ok: false, reason: 'missing_urls' };
+  if (!imageUrl) return { ok: false, reason: 'missing_image_url', detail: pageUrl };
+  if (!pageUrl) {
+    // The detail modal links to page_url; the preview image is the next best thing.
+    pageUrl = imageUrl;
+    repairs.push('missing_page_url');
+  }
+
+  let country = readString(cam.country);
+  let countryCode = UNKNOWN_COUNTRY_CODE;
+  if (!country) {
+    country = UNKNOWN_COUNTRY;
+    repairs.push('missing_country');
+  } else {
+    const record = resolveCountry(country);
+    if (!record) {
+      repairs.push('unknown_country');
+    } else {
+      countryCode = record.alpha2;
+      if (record.name !== country) {
+        // Aliases and codes ("Czechia", "Korea, Republic of", "US") get one display spelling.
+        country = record.name;
+        repairs.push('renamed_country');
+      }
+    }
+  }
+
+  const text = (key: 'city' | 'region' | 'manufacturer') => {
+    const v = readString(cam[key]);
+    if (v) return v;
+    if (!repairs.includes('missing_text_field')) repairs.push('missing_text_field');
+    return PLACEHOLDER_TEXT;
+  };
+
+  const source = readString(cam.source);
+
+  return {
+    ok: true,
+    repairs,
+    row: {
+      latitude: lat.value,
+      longitude: lon.value,
+      country,
+      country_code: countryCode,
+      city: text('city'),
+      region: text('region'),
+      manufacturer: text('manufacturer'),
+      image_url: imageUrl,
+      page_url: pageUrl,
+      source: source || undefined,
+    },
+  };
+}
+
+export function createLoadReport(): CameraDataLoadReport {
+  return {
+    total: 0,
+    accepted: 0,
+    rejected: [],
+    repaired: [],
+    rejectedByReason: {},
+    repairedByReason: {},
+  };
+}
+
+/** Combine per-shard reports. Row indexes stay relative to their own shard. */
+export function mergeLoadReports(reports: readonly CameraDataLoadReport[]): CameraDataLoadReport {
+  const merged = createLoadReport();
+  for (const r of reports) {
+    merged.total += r.total;
+    merged.accepted += r.accepted;
+    merged.rejected.push(...r.rejected);
+    merged.repaired.push(...r.repaired);
+    for (const [reason, count] of Object.entries(r.rejectedByReason)) {
+      merged.rejectedByReason[reason as RowRejectReason] = (merged.rejectedByReason[reason as RowRejectReason] ?? 0) + count;
+    }
+    for (const [reason, count] of Object.entries(r.repairedByReason)) {
+      merged.repairedByReason[reason as RowRepairReason] = (merged.repairedByReason[reason as RowRepairReason] ?? 0) + count;
+    }
+  }
+  return merged;
+}
+
+/** One-line human summary, used for console diagnostics. */
+export function summarizeLoadReport(report: CameraDataLoadReport): string {
+  const parts = [`${report.accepted}/${report.total} rows accepted`];
+  if (report.rejected.length > 0) {
+    const reasons = Object.entries(report.rejectedByReason)
+      .map(([reason, count]) => `${reason}=${count}`)
+      .join(', ');
+    parts.push(`${report.rejected.length} rejected (${reasons})`);
+  }
+  if (report.repaired.length > 0) {
+    const reasons = Object.entries(report.repairedByReason)
+      .map(([reason, count]) => `${reason}=${count}`)
+      .join(', ');
+    parts.push(`${report.repaired.length} repaired (${reasons})`);
+  }
+  return parts.join('; ');
+}
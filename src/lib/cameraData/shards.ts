@@ -0,0 +1,81 @@
+// Per-continent dataset shards.
+//
+// A manifest may list `shards` alongside the full file. Shard-aware clients then load the
+// continents the user is looking at (selected regions, or the one under the view center)
+// first and fetch the rest in the background; each shard is cached and refreshed on its own,
+// so an update to one continent doesn't invalidate the others.
+
+import { getContinent } from './countries';
+import { resolveManifestUrl, type DatasetShardRef, type ShardBounds } from './manifest';
+import { hashDatasetPayload, readDatasetResponse, type DatasetPayload } from './payload';
+
+export interface DatasetShard {
+  key: string;
+  rows: unknown[];
+  bbox: ShardBounds | null;
+}
+
+export interface ShardPriority {
+  regions?: readonly string[];
+  /** [lon, lat] of the current view center. */
+  viewCenterLonLat?: readonly [number, number] | null;
+}
+
+function readShardCoordinate(value: unknown): number | null {
+  const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  return Number.isFinite(n) ? n : null;
+}
+
+/** Group raw rows by continent, keeping their relative order. Shards come out sorted by key. */
+export function createDatasetShards(rows: readonly unknown[]): DatasetShard[] {
+  const byKey = new Map<string, DatasetShard>();
+  for (const row of rows) {
+    const cam = row && typeof row === 'object' ? (row as Record<string, unknown>) : {};
+    const key = getContinent(typeof cam.country === 'string' ? cam.country.trim() : '');
+    let shard = byKey.get(key);
+    if (!shard) {
+      shard = { key, rows: [], bbox: null };
+      byKey.set(key, shard);
+    }
+    shard.rows.push(row);
+
+    const lat = readShardCoordinate(cam.latitude);
+    const lon = readShardCoordinate(cam.longitude);
+    if (lat === null || lon === null || Math.abs(lat) > 90 || Math.abs(lon) > 180) continue;
+    const b = shard.bbox;
+    shard.bbox = b
+      ? [Math.min(b[0], lon), Math.min(b[1], lat), Math.max(b[2], lon), Math.max(b[3], lat)]
+      : [lon, lat, lon, lat];
+  }
+  return Array.from(byKey.values()).sort((a, b) => a.key.localeCompare(b.key));
+}
+
+function boundsContain(bbox: ShardBounds | null, [lon, lat]: readonly [number, number]): boolean {
+  if (!bbox) return false;
+  return lon >= bbox[0] && lon <= bbox[2] && lat >= bbox[1] && lat <= bbox[3];
+}
+
+/**
+ * Order shards for loading: selected regions first, then shards whose bounds contain the view
+ * center, then everything else. Ties keep their manifest order.
+ */
+export function prioritizeShards<T extends Pick<DatasetShardRef, 'key' | 'bbox'>>(shards: readonly T[], priority: ShardPriority): T[] {
+  const regions = new Set(priority.regions ?? []);
+  const center = priority.viewCenterLonLat ?? null;
+  const rank = (s: T) => (regions.has(s.key) ? 0 : center && boundsContain(s.bbox, center) ? 1 : 2);
+  return shards
+    .map((s, i) => ({ s, i, r: rank(s) }))
+    .sort((a, b) => a.r - b.r || a.i - b.i)
+    .map(({ s }) => s);
+}
+
+export async function fetchDatasetShard(ref: DatasetShardRef, signal?: AbortSignal): Promise<DatasetPayload> {
+  const res = await fetch(resolveManifestUrl(ref.file), { cache: 'no-cache', signal });
+  if (!res.ok) throw new Error(`Failed to load camera data shard ${ref.key} (${res.status})`);
+  const payload = await readDatasetResponse(res, ref.file);
+  const hash = await hashDatasetPayload(payload);
+  if (hash && hash !== ref.hash) {
+    console.warn(`Camera data shard ${ref.key} hash does not match the manifest`);
+  }
+  return payload;
+}
@@ -0,0 +1,134 @@
+// Bring a cached dataset up to date with the published one.
+//
+// Order of preference:
+//   1. cached version == manifest version  -> nothing to do
+//   2. a complete patch chain from the cached version -> download + apply patches, verify hash
+//   3. otherwise (no cache, chain gap, failed/invalid patch) -> full download of `manifest.file`
+// Deployments without a manifest keep the legacy ETag-revalidated full download.
+// Sharded manifests are loaded shard by shard instead (see `shards.ts`); this module only
+// handles the single-file dataset.
+
+import { fetchCameraData } from './fetch';
+import {
+  CAMERA_DATA_MANIFEST_URL,
+  parseDatasetManifest,
+  parseDatasetPatch,
+  resolveManifestUrl,
+  resolvePatchChain,
+  type DatasetManifest,
+  type DatasetPatch,
+} from './manifest';
+import { datasetFormatForFile, hashDatasetPayload, readDatasetResponse, type DatasetPayload } from './payload';
+import { patchCameraDataset } from './workerClient';
+
+export interface CachedDatasetState {
+  payload: DatasetPayload;
+  etag: string | null;
+  version: number | null;
+  hash: string | null;
+}
+
+export type SyncCameraDatasetResult =
+  | { status: 'not_modified'; etag: string | null }
+  | {
+      status: 'ok';
+      payload: DatasetPayload;
+      etag: string | null;
+      version: number | null;
+      hash: string | null;
+      via: 'patch' | 'full' | 'legacy';
+    };
+
+/** The published manifest, or null when there is none (legacy deployment) or it can't be read. */
+export async function fetchDatasetManifest(signal?: AbortSignal): Promise<DatasetManifest | null> {
+  try {
+    const res = await fetch(CAMERA_DATA_MANIFEST_URL, {
+      cache: 'no-cache',
+      headers: { Accept: 'application/json' },
+      signal,
+    });
+    if (!res.ok) return null;
+    return parseDatasetManifest(await res.json());
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    return null;
+  }
+}
+
+async function fetchPatch(file: string, signal?: AbortSignal): Promise<DatasetPatch> {
+  const res = await fetch(resolveManifestUrl(file), { headers: { Accept: 'application/json' }, signal });
+  if (!res.ok) throw new Error(`Failed to load dataset patch ${file} (${res.status})`);
+  return parseDatasetPatch(await res.json());
+}
+
+async function tryPatch(
+  cached: CachedDatasetState,
+  manifest: DatasetManifest,
+  signal?: AbortSignal
+): Promise<{ payload: DatasetPayload; hash: string } | null> {
+  if (cached.version == null) return null;
+  // Patches are applied in the cached encoding; switching formats needs a full download.
+  if (cached.payload.format !== datasetFormatForFile(manifest.file)) return null;
+  const chain = resolvePatchChain(manifest, cached.version);
+  if (!chain) return null;
+
+  try {
+    const patches: DatasetPatch[] = [];
+    for (const ref of chain) patches.push(await fetchPatch(ref.file, signal));
+    const result = await patchCameraDataset(cached.payload, patches, signal);
+    if (result.hash !== manifest.hash) {
+      console.warn(`Patched camera data hash mismatch (v${cached.version}→v${manifest.version}), downloading full dataset`);
+      return null;
+    }
+    return { payload: result.payload, hash: result.hash };
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    console.warn('Failed to patch camera data, downloading full dataset', e);
+    return null;
+  }
+}
+
+async function fetchFull(manifest: DatasetManifest, signal?: AbortSignal): Promise<DatasetPayload> {
+  // Full files may keep their name across versions; always revalidate.
+  const res = await fetch(resolveManifestUrl(manifest.file), {
+    cache: 'no-cache',
+    headers: { Accept: 'application/json' },
+    signal,
+  });
+  if (!res.ok) throw new Error(`Failed to load camera data (${res.status})`);
+  return readDatasetResponse(res, manifest.file);
+}
+
+/** Pass `prefetchedManifest` when the caller already fetched it (null = no manifest); otherwise it is fetched here. */
+export async function syncCameraDataset(
+  cached: CachedDatasetState | null,
+  signal?: AbortSignal,
+  prefetchedManifest?: DatasetManifest | null
+): Promise<SyncCameraDatasetResult> {
+  const manifest = prefetchedManifest === undefined ? await fetchDatasetManifest(signal) : prefetchedManifest;
+
+  if (!manifest) {
+    const res = await fetchCameraData(cached?.etag ?? null);
+    if (res.status === 'not_modified') return res;
+    return { status: 'ok', payload: res.payload, etag: res.etag, version: null, hash: null, via: 'legacy' };
+  }
+
+  if (cached && cached.version === manifest.version && cached.hash === manifest.hash) {
+    return { status: 'not_modified', etag: cached.etag };
+  }
+
+  if (cached) {
+    const patched = await tryPatch(cached, manifest, signal);
+    if (patched) {
+      return { status: 'ok', payload: patched.payload, etag: null, version: manifest.version, hash: patched.hash, via: 'patch' };
+    }
+  }
+
+  const payload = await fetchFull(manifest, signal);
+  const hash = await hashDatasetPayload(payload);
+  if (hash && hash !== manifest.hash) {
+    // Still usable (it's what the server serves), but the manifest is out of sync with it.
+    console.warn(`Camera data hash does not match manifest v${manifest.version}`);
+  }
+  return { status: 'ok', payload, etag: null, version: manifest.version, hash: hash ?? manifest.hash, via: 'full' };
+}
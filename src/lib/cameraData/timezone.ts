@@ -0,0 +1,17 @@
+// Offline timezone lookup for cameras, run during normalization (see `localTime.ts` for
+// formatting). Kept apart from the formatting so the UI bundle doesn't carry the polygons.
+//
+// Zones come from `@photostructure/tz-lookup`, which bundles a compressed copy of the
+// timezone-boundary-builder polygons (~70 KB) and answers synchronously without any network.
+// Open ocean resolves to the nautical `Etc/GMT±N` zones.
+
+import tzlookup from '@photostructure/tz-lookup';
+
+/** IANA timezone at the given coordinates, or undefined when they're out of range. */
+export function lookupTimezone(latitude: number, longitude: number): string | undefined {
+  try {
+    return tzlookup(latitude, longitude);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,36 @@
+// Dataset worker: decodes the raw payload (JSON or binary) and normalizes rows off the main thread,
+// streaming `CameraData` batches back so the globe can render while the rest is processed.
+// Also applies dataset patches, which needs the same parse of the (large) cached payload.
+
+import { normalizeCameraRows } from './normalize';
+import { applyPatchesToPayload } from './patch';
+import { decodeDatasetPayload } from './payload';
+import type { CameraDataWorkerRequest, CameraDataWorkerResponse } from './workerClient';
+
+function post(message: CameraDataWorkerResponse) {
+  self.postMessage(message);
+}
+
+self.addEventListener('message', (event: MessageEvent<CameraDataWorkerRequest>) => {
+  const req = event.data;
+
+  if (req?.type === 'patch') {
+    applyPatchesToPayload(req.payload, req.patches)
+      .then((result) => post({ type: 'patched', ...result }))
+      .catch((e) => post({ type: 'error', message: e instanceof Error ? e.message : 'Failed to apply dataset patch' }));
+    return;
+  }
+
+  if (req?.type !== 'load') return;
+
+  try {
+    const rows = decodeDatasetPayload(req.payload);
+    const { report } = normalizeCameraRows(rows, {
+      batchSize: req.batchSize,
+      onBatch: (cameras) => post({ type: 'batch', cameras }),
+    });
+    post({ type: 'done', report });
+  } catch (e) {
+    post({ type: 'error', message: e instanceof Error ? e.message : 'Failed to parse camera data' });
+  }
+});
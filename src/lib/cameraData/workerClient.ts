@@ -0,0 +1,170 @@
+import type { CameraData } from '@/types/camera';
+import type { DatasetPatch } from './manifest';
+import { applyPatchesToPayload } from './patch';
+import { decodeDatasetPayload, type DatasetPayload } from './payload';
+import type { CameraDataLoadReport } from './schema';
+
+export type CameraDataWorkerRequest =
+  | { type: 'load'; payload: DatasetPayload; batchSize?: number }
+  | { type: 'patch'; payload: DatasetPayload; patches: DatasetPatch[] };
+
+export type CameraDataWorkerResponse =
+  | { type: 'batch'; cameras: CameraData[] }
+  | { type: 'done'; report: CameraDataLoadReport }
+  | { type: 'patched'; payload: DatasetPayload; hash: string | null }
+  | { type: 'error'; message: string };
+
+function createDatasetWorker(): Worker {
+  return new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+}
+
+export interface LoadCameraDatasetOptions {
+  signal?: AbortSignal;
+  /** Receives the cameras accepted so far; called at most every `progressIntervalMs` and once at the end. */
+  onProgress?: (cameras: CameraData[]) => void;
+  progressIntervalMs?: number;
+  batchSize?: number;
+}
+
+export interface LoadedCameraDataset {
+  cameras: CameraData[];
+  report: CameraDataLoadReport;
+}
+
+// Loaded on demand: normalization pulls in the gazetteer, timezone and border tables, which
+// belong in the worker chunk rather than the main bundle.
+async function loadOnMainThread(payload: DatasetPayload): Promise<LoadedCameraDataset> {
+  const { normalizeCameraRows } = await import('./normalize');
+  return normalizeCameraRows(decodeDatasetPayload(payload));
+}
+
+/**
+ * Decode + normalize a raw `camera_data` payload in a Web Worker.
+ * Falls back to the main thread where workers are unavailable (tests, very old browsers).
+ */
+export function loadCameraDataset(payload: DatasetPayload, options: LoadCameraDatasetOptions = {}): Promise<LoadedCameraDataset> {
+  const { signal, onProgress, progressIntervalMs = 250, batchSize } = options;
+
+  if (typeof Worker === 'undefined') {
+    return loadOnMainThread(payload).then((result) => {
+      onProgress?.(result.cameras);
+      return result;
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = createDatasetWorker();
+    const cameras: CameraData[] = [];
+    let lastProgressAt = 0;
+    let settled = false;
+
+    const finish = () => {
+      settled = true;
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    const onAbort = () => {
+      if (settled) return;
+      finish();
+      reject(new DOMException('Camera data load aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.addEventListener('message', (event: MessageEvent<CameraDataWorkerResponse>) => {
+      if (settled) return;
+      const msg = event.data;
+
+      if (msg.type === 'batch') {
+        for (const cam of msg.cameras) cameras.push(cam);
+        const now = performance.now();
+        if (onProgress && now - lastProgressAt >= progressIntervalMs) {
+          lastProgressAt = now;
+          onProgress(cameras.slice());
+        }
+        return;
+      }
+
+      finish();
+      if (msg.type === 'done') {
+        onProgress?.(cameras);
+        resolve({ cameras, report: msg.report });
+      } else if (msg.type === 'error') {
+        reject(new Error(msg.message));
+      }
+    });
+
+    worker.addEventListener('error', (event) => {
+      if (settled) return;
+      finish();
+      // A worker that fails to boot (e.g. CSP) shouldn't leave the app without data.
+      console.error('Camera data worker failed, normalizing on the main thread', event.message);
+      loadOnMainThread(payload).then((result) => {
+        onProgress?.(result.cameras);
+        resolve(result);
+      }, reject);
+    });
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+
+    const request: CameraDataWorkerRequest = { type: 'load', payload, batchSize };
+    worker.postMessage(request);
+  });
+}
+
+/** Apply a chain of dataset patches to a cached payload (in the dataset worker when available). */
+export function patchCameraDataset(
+  payload: DatasetPayload,
+  patches: DatasetPatch[],
+  signal?: AbortSignal
+): Promise<{ payload: DatasetPayload; hash: string | null }> {
+  if (typeof Worker === 'undefined') return applyPatchesToPayload(payload, patches);
+
+  return new Promise((resolve, reject) => {
+    const worker = createDatasetWorker();
+    let settled = false;
+
+    const finish = () => {
+      settled = true;
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    const onAbort = () => {
+      if (settled) return;
+      finish();
+      reject(new DOMException('Camera data patch aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.addEventListener('message', (event: MessageEvent<CameraDataWorkerResponse>) => {
+      if (settled) return;
+      const msg = event.data;
+      if (msg.type === 'patched') {
+        finish();
+        resolve({ payload: msg.payload, hash: msg.hash });
+      } else if (msg.type === 'error') {
+        finish();
+        reject(new Error(msg.message));
+      }
+    });
+
+    worker.addEventListener('error', (event) => {
+      if (settled) return;
+      finish();
+      console.error('Camera data worker failed, patching on the main thread', event.message);
+      applyPatchesToPayload(payload, patches).then(resolve, reject);
+    });
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+
+    const request: CameraDataWorkerRequest = { type: 'patch', payload, patches };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { parseCoordinates } from './coordinates';
+
+// The Eiffel Tower.
+const LAT = 48.8584;
+const LON = 2.2945;
+
+describe('parseCoordinates', () => {
+  it.each([
+    ['48.8584, 2.2945', 'decimal'],
+    ['48.8584 2.2945', 'decimal'],
+    ['48.8584°N 2.2945°E', 'decimal'],
+    ['2.2945E 48.8584N', 'decimal'],
+    [`48°51'30"N 2°17'40"E`, 'dms'],
+    [`48°51.5'N 2°17.67'E`, 'dms'],
+    ['48 51 30 N 2 17 40 E', 'dms'],
+    ['geo:48.8584,2.2945;u=10', 'geo_uri'],
+    ['geohash:u09tunqu', 'geohash'],
+    ['8FW4V75V+8Q', 'plus_code'],
+  ])('reads %s', (input, format) => {
+    const parsed = parseCoordinates(input);
+    expect(parsed?.format).toBe(format);
+    expect(parsed?.latitude).toBeCloseTo(LAT, 2);
+    expect(parsed?.longitude).toBeCloseTo(LON, 2);
+  });
+
+  it('reads southern and western hemispheres', () => {
+    expect(parseCoordinates(`22°54'30"S 43°11'47"W`)).toMatchObject({ format: 'dms' });
+    const parsed = parseCoordinates('-22.9083, -43.1964');
+    expect(parsed?.latitude).toBeCloseTo(-22.9083, 4);
+    expect(parsed?.longitude).toBeCloseTo(-43.1964, 4);
+  });
+
+  it('recovers a short plus code near the reference point', () => {
+    expect(parseCoordinates('V75V+8Q')).toBeNull();
+    const parsed = parseCoordinates('V75V+8Q', { lat: 48.85, lon: 2.35 });
+    expect(parsed?.format).toBe('plus_code');
+    expect(parsed?.latitude).toBeCloseTo(LAT, 2);
+    expect(parsed?.longitude).toBeCloseTo(LON, 2);
+  });
+
+  it.each(['tokyo', 'denver', 'dcs930', 'u09tunqu', '1234 56', '91.5, 10.5', 'country:jp', ''])('leaves %s as text', (input) => {
+    expect(parseCoordinates(input)).toBeNull();
+  });
+});
@@ -0,0 +1,288 @@
+// Locations typed into the search box instead of words, decoded offline:
+//
+//   48.8584, 2.2945            decimal degrees (latitude first)
+//   48.8584°N 2.2945°E         hemisphere letters, in either order ("2.29E 48.85N")
+//   48°51'30"N 2°17'40"E       degrees, minutes and seconds (also 48°51.5'N and 48 51 30 N)
+//   geo:48.8584,2.2945;u=10    RFC 5870 URI
+//   geohash:u09tunqu           geohash; only with the prefix, since model numbers like "dcs930"
+//                              are valid geohashes too
+//   8FW4V75V+8Q                Open Location Code (plus code)
+//   V75V+8Q                    short plus code, recovered near a reference point (the view)
+//
+// Bare numbers only count as coordinates when both have decimals, so ID searches like "1234 56"
+// stay text.
+
+import type { CameraData } from '@/types/camera';
+import { haversineKm } from '@/lib/geo';
+
+export type CoordinateFormat = 'decimal' | 'dms' | 'geo_uri' | 'geohash' | 'plus_code';
+
+export interface ParsedCoordinates {
+  latitude: number;
+  longitude: number;
+  format: CoordinateFormat;
+}
+
+export const COORDINATE_FORMAT_LABELS: Record<CoordinateFormat, string> = {
+  decimal: 'Decimal degrees',
+  dms: 'Degrees, minutes, seconds',
+  geo_uri: 'geo: URI',
+  geohash: 'Geohash',
+  plus_code: 'Plus code',
+};
+
+const ANGLE_UNITS = ['°', "'", '"'];
+
+const inRange = (lat: number, lon: number) =>
+  Number.isFinite(lat) && Number.isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+
+// geo:lat,lon[,alt][;crs=...;u=...][?query]
+const GEO_URI_RE = /^geo:\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)(?:,-?\d+(?:\.\d+)?)?(?:[;?].*)?$/i;
+
+function parseGeoUri(input: string): ParsedCoordinates | null {
+  const match = GEO_URI_RE.exec(input);
+  if (!match) return null;
+  const latitude = Number(match[1]);
+  const longitude = Number(match[2]);
+  return inRange(latitude, longitude) ? { latitude, longitude, format: 'geo_uri' } : null;
+}
+
+// Decimal and DMS: the input must be nothing but numbers (each with an optional unit mark),
+// hemisphere letters and at most one comma or semicolon.
+const ANGLE_TOKEN_RE = /\s*(?:(-?\d+(?:\.\d+)?)\s*([°'"])?|([NSEW])(?![A-Z])|([,;]))\s*/gy;
+
+type AngleToken = { kind: 'number'; value: number; text: string; unit?: string } | { kind: 'hemisphere'; value: string } | { kind: 'separator' };
+
+function tokenizeAngles(input: string): AngleToken[] | null {
+  const text = input
+    .toUpperCase()
+    .replace(/[′’‘`]/g, "'")
+    .replace(/[″”“]|''/g, '"')
+    .replace(/º/g, '°')
+    .trim();
+  const tokens: AngleToken[] = [];
+  ANGLE_TOKEN_RE.lastIndex = 0;
+  while (ANGLE_TOKEN_RE.lastIndex < text.length) {
+    const match = ANGLE_TOKEN_RE.exec(text);
+    if (!match) return null;
+    const [, number, unit, hemisphere] = match;
+    if (number !== undefined) tokens.push({ kind: 'number', value: Number(number), text: number, unit });
+    else if (hemisphere) tokens.push({ kind: 'hemisphere', value: hemisphere });
+    else tokens.push({ kind: 'separator' });
+  }
+  return tokens;
+}
+
+type AnglePart = { numbers: Extract<AngleToken, { kind: 'number' }>[]; hemisphere: string | null };
+
+/** Split the tokens into the two angles: at the separator, the hemisphere letters or the second `°`. */
+function splitAngles(tokens: AngleToken[]): [AnglePart, AnglePart] | null {
+  const separators = tokens.filter((t) => t.kind === 'separator').length;
+  if (separators > 1) return null;
+  const hemispheres = tokens.filter((t) => t.kind === 'hemisphere');
+  if (hemispheres.length !== 0 && hemispheres.length !== 2) return null;
+  const leadingHemispheres = hemispheres.length === 2 && tokens[0].kind === 'hemisphere';
+
+  const parts: AnglePart[] = [{ numbers: [], hemisphere: null }];
+  let current = parts[0];
+  const startNext = () => {
+    current = { numbers: [], hemisphere: null };
+    parts.push(current);
+  };
+  for (const token of tokens) {
+    if (token.kind === 'separator') {
+      if (current.numbers.length === 0) return null;
+      startNext();
+    } else if (token.kind === 'hemisphere') {
+      if (leadingHemispheres) {
+        if (current.numbers.length > 0 || current.hemisphere) startNext();
+        current.hemisphere = token.value;
+      } else {
+        if (current.numbers.length === 0 || current.hemisphere) return null;
+        current.hemisphere = token.value;
+      }
+    } else {
+      if (!leadingHemispheres && current.hemisphere && separators === 0) startNext();
+      else if (token.unit === '°' && current.numbers.length > 0 && separators === 0 && hemispheres.length === 0) startNext();
+      current.numbers.push(token);
+    }
+  }
+  const nonEmpty = parts.filter((p) => p.numbers.length > 0);
+  if (nonEmpty.length === 2 && parts.length === 2) return [parts[0], parts[1]];
+
+  // "48.85 2.29": two bare numbers.
+  if (parts.length === 1 && current.numbers.length === 2 && !current.numbers.some((n) => n.unit)) {
+    return [
+      { numbers: [current.numbers[0]], hemisphere: null },
+      { numbers: [current.numbers[1]], hemisphere: null },
+    ];
+  }
+  return null;
+}
+
+/** Signed degrees for one angle, or null when the minutes/seconds are malformed. */
+function angleDegrees(part: AnglePart): number | null {
+  const [deg, min, sec] = part.numbers;
+  if (part.numbers.length > 3) return null;
+  // Marks, where given, must be in order: 48°51'30" but not 51'48°.
+  if (part.numbers.some((n, i) => n.unit && n.unit !== ANGLE_UNITS[i])) return null;
+  // Only the degrees carry a sign, and only the last component may have decimals.
+  if (part.numbers.slice(1).some((n) => n.text.startsWith('-'))) return null;
+  if (part.numbers.slice(0, -1).some((n) => n.text.includes('.'))) return null;
+  if ((min && min.value >= 60) || (sec && sec.value >= 60)) return null;
+  const signed = deg.text.startsWith('-');
+  if (signed && part.hemisphere) return null;
+  const magnitude = Math.abs(deg.value) + (min?.value ?? 0) / 60 + (sec?.value ?? 0) / 3600;
+  const negative = signed || part.hemisphere === 'S' || part.hemisphere === 'W';
+  return negative ? -magnitude : magnitude;
+}
+
+function parseAngles(input: string): ParsedCoordinates | null {
+  const tokens = tokenizeAngles(input);
+  if (!tokens || tokens.length < 2) return null;
+  const parts = splitAngles(tokens);
+  if (!parts) return null;
+
+  const marked = parts.some((p) => p.hemisphere || p.numbers.some((n) => n.unit));
+  const decimal = parts.every((p) => p.numbers.length === 1);
+  if (!marked && !(decimal && parts.every((p) => p.numbers[0].text.includes('.')))) return null;
+
+  // Hemisphere letters say which is which; otherwise latitude comes first.
+  const [a, b] = parts;
+  const isLon = (p: AnglePart) => p.hemisphere === 'E' || p.hemisphere === 'W';
+  const isLat = (p: AnglePart) => p.hemisphere === 'N' || p.hemisphere === 'S';
+  if ((isLon(a) && isLon(b)) || (isLat(a) && isLat(b))) return null;
+  const [latPart, lonPart] = isLon(a) || isLat(b) ? [b, a] : [a, b];
+
+  const latitude = angleDegrees(latPart);
+  const longitude = angleDegrees(lonPart);
+  if (latitude === null || longitude === null || !inRange(latitude, longitude)) return null;
+  return { latitude, longitude, format: decimal ? 'decimal' : 'dms' };
+}
+
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+const GEOHASH_RE = /^geohash:\s*([0-9b-hjkmnp-z]{1,12})$/i;
+
+function parseGeohash(input: string): ParsedCoordinates | null {
+  const match = GEOHASH_RE.exec(input);
+  if (!match) return null;
+  const hash = match[1].toLowerCase();
+
+  const lat = [-90, 90];
+  const lon = [-180, 180];
+  let evenBit = true;
+  for (const ch of hash) {
+    const bits = GEOHASH_ALPHABET.indexOf(ch);
+    for (let i = 4; i >= 0; i--) {
+      const range = evenBit ? lon : lat;
+      const mid = (range[0] + range[1]) / 2;
+      if ((bits >> i) & 1) range[0] = mid;
+      else range[1] = mid;
+      evenBit = !evenBit;
+    }
+  }
+  return { latitude: (lat[0] + lat[1]) / 2, longitude: (lon[0] + lon[1]) / 2, format: 'geohash' };
+}
+
+// Open Location Code, per https://github.com/google/open-location-code/blob/main/docs/specification.md
+const OLC_ALPHABET = '23456789CFGHJMPQRVWX';
+const OLC_SEPARATOR_POSITION = 8;
+const OLC_PAIR_LENGTH = 10;
+const OLC_FULL_RE = /^[23456789C][23456789CFGHJMPQRV](?:[23456789CFGHJMPQRVWX]{6}\+[23456789CFGHJMPQRVWX]{0,7}|[23456789CFGHJMPQRVWX]{0,4}0+\+)$/;
+const OLC_SHORT_RE = /^(?:[23456789CFGHJMPQRVWX]{2}){1,3}\+[23456789CFGHJMPQRVWX]{2,7}$/;
+
+function decodeOlc(code: string): { latitude: number; longitude: number; latSize: number; lonSize: number } {
+  const digits = code.replace('+', '').replace(/0+$/, '');
+  let lat = -90;
+  let lon = -180;
+  let latPlace = 400;
+  let lonPlace = 400;
+  for (let i = 0; i < digits.length; i++) {
+    const value = OLC_ALPHABET.indexOf(digits[i]);
+    if (i < OLC_PAIR_LENGTH) {
+      if (i % 2 === 0) {
+        latPlace /= 20;
+        lat += value * latPlace;
+      } else {
+        lonPlace /= 20;
+        lon += value * lonPlace;
+      }
+    } else {
+      // Grid refinement: 4 columns by 5 rows per character.
+      latPlace /= 5;
+      lonPlace /= 4;
+      lat += Math.floor(value / 4) * latPlace;
+      lon += (value % 4) * lonPlace;
+    }
+  }
+  return { latitude: Math.min(90, lat + latPlace / 2), longitude: lon + lonPlace / 2, latSize: latPlace, lonSize: lonPlace };
+}
+
+/** The first `length` digits of the plus code for a point. */
+function encodeOlcPrefix(latitude: number, longitude: number, length: number): string {
+  let lat = Math.min(179.999999, Math.max(0, latitude + 90));
+  let lon = (((longitude + 180) % 360) + 360) % 360;
+  let place = 20;
+  let out = '';
+  for (let i = 0; i < length / 2; i++) {
+    const latDigit = Math.floor(lat / place);
+    const lonDigit = Math.floor(lon / place);
+    out += OLC_ALPHABET[latDigit] + OLC_ALPHABET[lonDigit];
+    lat -= latDigit * place;
+    lon -= lonDigit * place;
+    place /= 20;
+  }
+  return out;
+}
+
+const wrapLongitude = (lon: number) => ((((lon + 180) % 360) + 360) % 360) - 180;
+
+function parsePlusCode(input: string, reference?: { lat: number; lon: number } | null): ParsedCoordinates | null {
+  const code = input.toUpperCase();
+  if (OLC_FULL_RE.test(code) && code.indexOf('+') === OLC_SEPARATOR_POSITION) {
+    const { latitude, longitude } = decodeOlc(code);
+    return { latitude, longitude: wrapLongitude(longitude), format: 'plus_code' };
+  }
+  if (!reference || !OLC_SHORT_RE.test(code)) return null;
+
+  // Short code: borrow the missing leading digits from the reference, then pick whichever
+  // neighbouring cell puts the result closest to it.
+  const paddingLength = OLC_SEPARATOR_POSITION - code.indexOf('+');
+  const resolution = 20 ** (2 - paddingLength / 2);
+  const half = resolution / 2;
+  const area = decodeOlc(encodeOlcPrefix(reference.lat, reference.lon, paddingLength) + code);
+  let { latitude, longitude } = area;
+  if (reference.lat + half < latitude && latitude - resolution >= -90) latitude -= resolution;
+  else if (reference.lat - half > latitude && latitude + resolution <= 90) latitude += resolution;
+  if (reference.lon + half < longitude) longitude -= resolution;
+  else if (reference.lon - half > longitude) longitude += resolution;
+  return { latitude, longitude: wrapLongitude(longitude), format: 'plus_code' };
+}
+
+/**
+ * The point `input` denotes, or null when it isn't a location. `reference` (e.g. the centre of the
+ * view) completes short plus codes; without it they aren't recognized.
+ */
+export function parseCoordinates(input: string, reference?: { lat: number; lon: number } | null): ParsedCoordinates | null {
+  const text = input.trim();
+  if (!text || text.length > 80) return null;
+  return parseGeoUri(text) ?? parsePlusCode(text, reference) ?? parseGeohash(text) ?? parseAngles(text);
+}
+
+export function formatCoordinates(latitude: number, longitude: number): string {
+  const lat = `${Math.abs(latitude).toFixed(5)}°${latitude < 0 ? 'S' : 'N'}`;
+  const lon = `${Math.abs(longitude).toFixed(5)}°${longitude < 0 ? 'W' : 'E'}`;
+  return `${lat} ${lon}`;
+}
+
+export interface NearbyCamera {
+  camera: CameraData;
+  distanceKm: number;
+}
+
+/** Every camera with its distance from the point, nearest first. */
+export function findNearestCameras(cameras: readonly CameraData[], point: { lat: number; lon: number }): NearbyCamera[] {
+  return cameras
+    .map((camera) => ({ camera, distanceKm: haversineKm(point, { lat: camera.latitude, lon: camera.longitude }) }))
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { CameraData } from '@/types/camera';
+import { applyFacets } from './facets';
+
+function camera(country_code: string, country: string, manufacturer: string): CameraData {
+  return {
+    latitude: 0,
+    longitude: 0,
+    continent: 'Asia',
+    country,
+    country_code,
+    city: 'N/A',
+    region: 'N/A',
+    manufacturer,
+    image_url: 'http://192.0.2.1/snapshot.jpg',
+    page_url: 'http://192.0.2.1/',
+  };
+}
+
+const CAMERAS = [
+  camera('JP', 'Japan', 'Axis'),
+  camera('JP', 'Japan', 'Panasonic'),
+  camera('KR', 'South Korea', 'Axis'),
+  camera('US', 'United States', 'Axis'),
+  camera('ZZ', 'Atlantis', 'Axis'),
+  camera('ZZ', 'Lemuria', 'Panasonic'),
+];
+
+const counts = (values: { value: string; count: number }[]) => Object.fromEntries(values.map((v) => [v.value, v.count]));
+
+describe('applyFacets', () => {
+  it('counts every value when nothing is selected', () => {
+    const { matches, counts: all } = applyFacets(CAMERAS, {});
+    expect(matches).toHaveLength(CAMERAS.length);
+    expect(counts(all.country)).toEqual({ JP: 2, KR: 1, US: 1, ZZ: 2 });
+    expect(counts(all.mfr)).toEqual({ Axis: 4, Panasonic: 2 });
+  });
+
+  it("ignores a facet's own selection in its counts but applies the others'", () => {
+    const { matches, counts: result } = applyFacets(CAMERAS, { country: ['JP'], mfr: ['Axis'] });
+    expect(matches).toHaveLength(1);
+    // Countries counted among Axis cameras; manufacturers among Japanese ones.
+    expect(counts(result.country)).toEqual({ JP: 1, KR: 1, US: 1, ZZ: 1 });
+    expect(counts(result.mfr)).toEqual({ Axis: 1, Panasonic: 1 });
+  });
+
+  it('matches several values of one facet', () => {
+    expect(applyFacets(CAMERAS, { country: ['JP', 'KR'] }).matches).toHaveLength(3);
+  });
+
+  it('groups unrecognized countries under Unknown and selects them by code', () => {
+    const { matches, counts: result } = applyFacets(CAMERAS, { country: ['ZZ'] });
+    expect(result.country.find((v) => v.value === 'ZZ')).toMatchObject({ label: 'Unknown', count: 2 });
+    expect(matches.map((c) => c.country)).toEqual(['Atlantis', 'Lemuria']);
+  });
+
+  it('keeps selected values listed when nothing matches them', () => {
+    const { matches, counts: result } = applyFacets(CAMERAS, { country: ['KR'], mfr: ['Hanwha'] });
+    expect(matches).toEqual([]);
+    expect(result.mfr.find((v) => v.value === 'Hanwha')).toMatchObject({ count: 0 });
+  });
+});
@@ -0,0 +1,116 @@
+// Facets for the search window: per-field value counts over the current results, with several
+// values selectable per field.
+//
+// A facet's counts ignore its own selection (but honour every other facet's), so picking Japan
+// still shows how many cameras Korea would add. Selected values filter exactly as the equivalent
+// query terms do (`country:jp,kr mfr:axis`), which is also how a selection is applied to the globe
+// (see `facetSearchTerms` and `addSearchTerms`).
+
+import type { CameraData } from '@/types/camera';
+import { UNKNOWN_COUNTRY_CODE } from '@/lib/cameraData/countries';
+import { matchesSearchTerm, type SearchField, type SearchTerm } from './query';
+
+export type FacetField = Extract<SearchField, 'country' | 'mfr' | 'source' | 'access'>;
+
+export const FACET_FIELDS: readonly FacetField[] = ['country', 'mfr', 'source', 'access'];
+
+export const FACET_LABELS: Record<FacetField, string> = {
+  country: 'Country',
+  mfr: 'Manufacturer',
+  source: 'Source',
+  access: 'Access',
+};
+
+/** Selected values per field; a field without values doesn't filter. */
+export type FacetSelection = Partial<Record<FacetField, string[]>>;
+
+export interface FacetValue {
+  /** What goes into the query (`JP` for Japan). */
+  value: string;
+  label: string;
+  count: number;
+}
+
+export type FacetCounts = Record<FacetField, FacetValue[]>;
+
+const UNKNOWN_COUNTRY_LABEL = 'Unknown';
+
+function facetValueOf(cam: CameraData, field: FacetField): { value: string; label: string } | null {
+  switch (field) {
+    case 'country':
+      // Unrecognized spellings share one code, so they share one value rather than the label of
+      // whichever of them came first.
+      if (cam.country_code === UNKNOWN_COUNTRY_CODE) return { value: UNKNOWN_COUNTRY_CODE, label: UNKNOWN_COUNTRY_LABEL };
+      if (cam.country_code) return { value: cam.country_code, label: cam.country || cam.country_code };
+      return cam.country ? { value: cam.country, label: cam.country } : null;
+    case 'mfr':
+      return cam.manufacturer ? { value: cam.manufacturer, label: cam.manufacturer } : null;
+    case 'source':
+      return cam.source ? { value: cam.source, label: cam.source } : null;
+    case 'access': {
+      const level = cam.access_level ?? 'public';
+      return { value: level, label: level };
+    }
+  }
+}
+
+/** The query terms a selection stands for, one per field with values. */
+export function facetSearchTerms(selection: FacetSelection): SearchTerm[] {
+  return FACET_FIELDS.filter((field) => (selection[field]?.length ?? 0) > 0).map((field) => ({
+    field,
+    values: selection[field],
+    negated: false,
+  }));
+}
+
+export function isEmptyFacetSelection(selection: FacetSelection): boolean {
+  return facetSearchTerms(selection).length === 0;
+}
+
+/**
+ * The cameras matching every selected facet, and the value counts for each facet. Values stay
+ * listed while selected even when nothing matches them any more; otherwise most cameras first.
+ */
+export function applyFacets(
+  cameras: readonly CameraData[],
+  selection: FacetSelection
+): { matches: CameraData[]; counts: FacetCounts } {
+  const terms = facetSearchTerms(selection);
+  const tallies = new Map<FacetField, Map<string, FacetValue>>(FACET_FIELDS.map((field) => [field, new Map()]));
+  const tally = (cam: CameraData, field: FacetField) => {
+    const v = facetValueOf(cam, field);
+    if (!v) return;
+    const byValue = tallies.get(field);
+    const entry = byValue.get(v.value);
+    if (entry) entry.count++;
+    else byValue.set(v.value, { ...v, count: 1 });
+  };
+
+  const matches: CameraData[] = [];
+  for (const cam of cameras) {
+    // A camera failing exactly one facet still counts toward that facet's values.
+    let failed: FacetField | null = null;
+    let failures = 0;
+    for (const term of terms) {
+      if (matchesSearchTerm(cam, term)) continue;
+      failed = term.field as FacetField;
+      if (++failures > 1) break;
+    }
+    if (failures === 0) {
+      matches.push(cam);
+      for (const field of FACET_FIELDS) tally(cam, field);
+    } else if (failures === 1) {
+      tally(cam, failed);
+    }
+  }
+
+  const counts = {} as FacetCounts;
+  for (const field of FACET_FIELDS) {
+    const byValue = tallies.get(field);
+    for (const value of selection[field] ?? []) {
+      if (!byValue.has(value)) byValue.set(value, { value, label: value, count: 0 });
+    }
+    counts[field] = Array.from(byValue.values()).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+  }
+  return { matches, counts };
+}
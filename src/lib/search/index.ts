@@ -0,0 +1,44 @@
+export {
+  COORDINATE_FORMAT_LABELS,
+  findNearestCameras,
+  formatCoordinates,
+  parseCoordinates,
+  type CoordinateFormat,
+  type NearbyCamera,
+  type ParsedCoordinates,
+} from './coordinates';
+export {
+  applyFacets,
+  FACET_FIELDS,
+  FACET_LABELS,
+  facetSearchTerms,
+  isEmptyFacetSelection,
+  type FacetCounts,
+  type FacetField,
+  type FacetSelection,
+  type FacetValue,
+} from './facets';
+export {
+  addSearchTerms,
+  EMPTY_SEARCH_QUERY,
+  isEmptySearchQuery,
+  matchesSearchTerm,
+  parseSearchQuery,
+  quoteSearchValue,
+  resolveSearchField,
+  SEARCH_FIELDS,
+  serializeSearchQuery,
+  type SearchField,
+  type SearchQuery,
+  type SearchTerm,
+} from './query';
+export { searchCameras, type SearchResult } from './searchIndex';
+export {
+  applySearchSuggestion,
+  getSearchSuggestions,
+  SUGGESTION_FIELD_LABELS,
+  SUGGESTION_FIELDS,
+  type SearchSuggestion,
+  type SuggestionField,
+} from './suggest';
+export { foldText, tokenizeText } from './text';
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import type { CameraData } from '@/types/camera';
+import { addSearchTerms, matchesSearchTerm, parseSearchQuery, serializeSearchQuery } from './query';
+
+function camera(fields: Partial<CameraData>): CameraData {
+  return {
+    latitude: 0,
+    longitude: 0,
+    continent: 'Asia',
+    country: 'Japan',
+    country_code: 'JP',
+    city: 'Tokyo',
+    region: 'Tokyo',
+    manufacturer: 'Panasonic',
+    image_url: 'http://192.0.2.1/snapshot.jpg',
+    page_url: 'http://192.0.2.1/',
+    ...fields,
+  };
+}
+
+describe('parseSearchQuery', () => {
+  it('parses free text, phrases, fields, lists and negation', () => {
+    expect(parseSearchQuery('tokyo "new york" country:jp,kr mfr:axis,"bosch security" -source:insecam -webcam')).toEqual({
+      groups: [
+        [
+          { field: null, values: ['tokyo'], negated: false },
+          { field: null, values: ['new york'], negated: false },
+          { field: 'country', values: ['jp', 'kr'], negated: false },
+          { field: 'mfr', values: ['axis', 'bosch security'], negated: false },
+          { field: 'source', values: ['insecam'], negated: true },
+          { field: null, values: ['webcam'], negated: true },
+        ],
+      ],
+    });
+  });
+
+  it('splits alternatives on OR and |, with terms binding tighter', () => {
+    expect(parseSearchQuery('city:osaka OR country:kr seoul | paris')).toEqual({
+      groups: [
+        [{ field: 'city', values: ['osaka'], negated: false }],
+        [
+          { field: 'country', values: ['kr'], negated: false },
+          { field: null, values: ['seoul'], negated: false },
+        ],
+        [{ field: null, values: ['paris'], negated: false }],
+      ],
+    });
+  });
+
+  it('resolves field aliases and keeps unknown operators as text', () => {
+    expect(parseSearchQuery('manufacturer:axis state:bavaria worldcam:35075').groups[0]).toEqual([
+      { field: 'mfr', values: ['axis'], negated: false },
+      { field: 'region', values: ['bavaria'], negated: false },
+      { field: null, values: ['worldcam:35075'], negated: false },
+    ]);
+  });
+
+  it('matches an unterminated phrase while it is typed and skips a half-typed operator', () => {
+    expect(parseSearchQuery('"new yo').groups).toEqual([[{ field: null, values: ['new yo'], negated: false }]]);
+    expect(parseSearchQuery('country:').groups).toEqual([]);
+  });
+
+  it('round-trips through serializeSearchQuery', () => {
+    for (const input of [
+      'tokyo',
+      '"new york" -webcam',
+      'country:jp,kr mfr:axis,"bosch security"',
+      'city:osaka OR -country:us "rio de janeiro"',
+      'city:"a,b" paris,france',
+    ]) {
+      const query = parseSearchQuery(input);
+      expect(serializeSearchQuery(query)).toBe(input);
+      expect(parseSearchQuery(serializeSearchQuery(query))).toEqual(query);
+    }
+  });
+});
+
+describe('addSearchTerms', () => {
+  it('adds the terms to every alternative', () => {
+    const query = addSearchTerms(parseSearchQuery('tokyo OR osaka'), [{ field: 'mfr', values: ['axis'], negated: false }]);
+    expect(serializeSearchQuery(query)).toBe('tokyo mfr:axis OR osaka mfr:axis');
+  });
+});
+
+describe('matchesSearchTerm', () => {
+  const term = (input: string) => parseSearchQuery(input).groups[0][0];
+
+  it('matches countries by code, alias or name', () => {
+    const cam = camera({ country: 'United States', country_code: 'US' });
+    for (const input of ['country:us', 'country:usa', 'country:"united states"']) {
+      expect(matchesSearchTerm(cam, term(input))).toBe(true);
+    }
+    expect(matchesSearchTerm(cam, term('country:jp'))).toBe(false);
+    expect(matchesSearchTerm(camera({ country: 'Atlantis', country_code: 'ZZ' }), term('country:zz'))).toBe(true);
+  });
+
+  it('matches any value of a list, ignoring case and diacritics', () => {
+    const cam = camera({ city: 'São Paulo', country: 'Brazil', country_code: 'BR' });
+    expect(matchesSearchTerm(cam, term('city:SAO'))).toBe(true);
+    expect(matchesSearchTerm(cam, term('country:jp,br'))).toBe(true);
+    expect(matchesSearchTerm(cam, term('mfr:axis,bosch'))).toBe(false);
+  });
+});
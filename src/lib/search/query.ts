@@ -0,0 +1,194 @@
+// Camera search query language, shared by the globe filter (`?q=`) and the search window.
+//
+//   tokyo                     free text, matched against every searchable field
+//   "new york"                quoted phrase, matched as a whole
+//   country:jp city:osaka     field operators (country, city, region, mfr, source, access, continent)
+//   mfr:"axis communications" quoted field value
+//   country:jp,kr             any of several values (items may be quoted: mfr:axis,"bosch security")
+//   -country:us  -webcam      negation
+//   country:jp OR country:kr  alternatives; terms bind tighter than OR
+//
+// Country values go through the country registry, so `country:us`, `country:usa` and
+// `country:"united states"` all mean the same thing. Unknown `name:value` tokens (network keys
+// like `worldcam:35075`) are plain text. Matching ignores case and diacritics; free text is
+// also typo-tolerant and ranked (see `searchCameras`).
+
+import type { CameraData } from '@/types/camera';
+import { resolveCountry, UNKNOWN_COUNTRY_CODE } from '@/lib/cameraData/countries';
+import { foldText } from './text';
+
+export type SearchField = 'country' | 'city' | 'region' | 'mfr' | 'source' | 'access' | 'continent';
+
+export const SEARCH_FIELDS: readonly SearchField[] = ['country', 'city', 'region', 'mfr', 'source', 'access', 'continent'];
+
+const FIELD_ALIASES: Record<string, SearchField> = {
+  manufacturer: 'mfr',
+  state: 'region',
+  province: 'region',
+};
+
+export interface SearchTerm {
+  /** null for free text. */
+  field: SearchField | null;
+  /**
+   * As typed (unquoted); matching is case-insensitive. A field term matches when any of them does;
+   * free text always has exactly one.
+   */
+  values: string[];
+  negated: boolean;
+}
+
+/** Disjunctive normal form: a camera matches when every term of at least one group does. */
+export interface SearchQuery {
+  groups: SearchTerm[][];
+}
+
+export const EMPTY_SEARCH_QUERY: SearchQuery = { groups: [] };
+
+export function isEmptySearchQuery(query: SearchQuery): boolean {
+  return query.groups.length === 0;
+}
+
+/** The field an operator name stands for (`manufacturer` -> `mfr`), or null when it isn't one. */
+export function resolveSearchField(name: string): SearchField | null {
+  const key = name.toLowerCase();
+  if ((SEARCH_FIELDS as readonly string[]).includes(key)) return key as SearchField;
+  return FIELD_ALIASES[key] ?? null;
+}
+
+// A token is an optional `-`, an optional `field:`, then a comma-separated list of quoted or bare
+// items. An unterminated quote runs to the end of the input, so a phrase still matches while it's
+// being typed.
+const TOKEN_RE = /(-?)(?:([A-Za-z]+):)?((?:"[^"]*"|[^\s",]+)(?:,(?:"[^"]*"|[^\s",]*))*|"[^"]*$)/g;
+const LIST_ITEM_RE = /"([^"]*)"?|([^\s",]+)/g;
+
+export function parseSearchQuery(input: string): SearchQuery {
+  const groups: SearchTerm[][] = [];
+  let current: SearchTerm[] = [];
+
+  for (const match of input.matchAll(TOKEN_RE)) {
+    const [, minus, name, raw] = match;
+    if ((raw === 'OR' || raw === '|') && !minus && !name) {
+      if (current.length > 0) groups.push(current);
+      current = [];
+      continue;
+    }
+
+    // A field operator still being typed (`country:`) doesn't filter anything yet.
+    if (!name && raw.endsWith(':') && resolveSearchField(raw.slice(0, -1))) continue;
+
+    const field = name ? resolveSearchField(name) : null;
+    if (field) {
+      const values = Array.from(raw.matchAll(LIST_ITEM_RE), ([, quoted, bare]) => (quoted ?? bare).trim()).filter(Boolean);
+      if (values.length > 0) current.push({ field, values, negated: minus === '-' });
+      continue;
+    }
+    // Free text keeps its commas; `foo:bar` with an unknown `foo` is text, exactly as typed.
+    const text = raw.replace(/"/g, '').trim();
+    const value = name ? `${name}:${text}` : text;
+    if (!value || value === '-') continue;
+    current.push({ field: null, values: [value], negated: minus === '-' });
+  }
+  if (current.length > 0) groups.push(current);
+  return { groups };
+}
+
+/** `query` narrowed by `terms`: they're added to every alternative. */
+export function addSearchTerms(query: SearchQuery, terms: SearchTerm[]): SearchQuery {
+  if (terms.length === 0) return query;
+  if (query.groups.length === 0) return { groups: [terms] };
+  return { groups: query.groups.map((group) => [...group, ...terms]) };
+}
+
+// Commas only separate list items in field values; free text keeps them.
+const needsQuotes = (value: string, inList: boolean) =>
+  /[\s"]/.test(value) || (inList && value.includes(',')) || value === 'OR' || value === '|';
+/** `value` as written in a query, quoted when needed; `inList` for field values (commas separate items). */
+export const quoteSearchValue = (value: string, inList: boolean) =>
+  needsQuotes(value, inList) ? `"${value.replace(/"/g, '')}"` : value;
+
+/** Canonical text for a query (`parseSearchQuery(serializeSearchQuery(q))` is equivalent to `q`). */
+export function serializeSearchQuery(query: SearchQuery): string {
+  return query.groups
+    .map((group) =>
+      group
+        .map((term) => `${term.negated ? '-' : ''}${term.field ? `${term.field}:` : ''}${term.values.map((v) => quoteSearchValue(v, term.field !== null)).join(',')}`)
+        .join(' ')
+    )
+    .join(' OR ');
+}
+
+interface SearchableCamera {
+  /** Every free-text field, newline-separated. */
+  text: string;
+  city: string;
+  region: string;
+  country: string;
+  mfr: string;
+  source: string;
+  continent: string;
+}
+
+// Cameras are immutable once loaded, and one query is tested against tens of thousands of them
+// per keystroke.
+const searchableCache = new WeakMap<CameraData, SearchableCamera>();
+
+function searchable(cam: CameraData): SearchableCamera {
+  let entry = searchableCache.get(cam);
+  if (!entry) {
+    const fold = (v: string | undefined) => foldText(v ?? '');
+    entry = {
+      text: fold(
+        [cam.id, cam.city, cam.country, cam.country_code, cam.region, cam.continent, cam.manufacturer, cam.source, cam.network_key]
+          .filter(Boolean)
+          .join('\n')
+      ),
+      city: fold(cam.city),
+      region: fold(cam.region),
+      country: fold(cam.country),
+      mfr: fold(cam.manufacturer),
+      source: fold(cam.source),
+      continent: fold(cam.continent),
+    };
+    searchableCache.set(cam, entry);
+  }
+  return entry;
+}
+
+// Country terms resolve once per distinct value rather than once per camera.
+const countryCodeCache = new Map<string, string | null>();
+
+function countryCodeFor(value: string): string | null {
+  if (!countryCodeCache.has(value)) {
+    const key = value.length <= 3 ? value.toUpperCase() : value;
+    // `ZZ` isn't in the registry; it marks the cameras whose country wasn't recognized.
+    countryCodeCache.set(value, key === UNKNOWN_COUNTRY_CODE ? UNKNOWN_COUNTRY_CODE : (resolveCountry(key)?.alpha2 ?? null));
+  }
+  return countryCodeCache.get(value) ?? null;
+}
+
+function matchesValue(cam: CameraData, field: SearchField | null, raw: string): boolean {
+  const s = searchable(cam);
+  const value = foldText(raw);
+  switch (field) {
+    case null:
+      return s.text.includes(value);
+    case 'country': {
+      const code = countryCodeFor(raw);
+      return code ? cam.country_code === code : s.country.includes(value);
+    }
+    case 'access':
+      return (cam.access_level ?? 'public').startsWith(value);
+    default:
+      return s[field].includes(value);
+  }
+}
+
+/**
+ * Exact (case- and diacritic-insensitive substring) match of one term, ignoring `negated`. Free
+ * text is normally matched fuzzily through the search index (`searchCameras`); this is for field
+ * terms and exclusions, where typo tolerance would hide or drop the wrong cameras.
+ */
+export function matchesSearchTerm(cam: CameraData, term: SearchTerm): boolean {
+  return term.values.some((value) => matchesValue(cam, term.field, value));
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { CameraData } from '@/types/camera';
+import { parseSearchQuery } from './query';
+import { searchCameras } from './searchIndex';
+
+function camera(city: string, country: string, country_code: string, manufacturer = 'Axis'): CameraData {
+  return {
+    id: `cam-${city}`,
+    latitude: 0,
+    longitude: 0,
+    continent: 'Europe',
+    country,
+    country_code,
+    city,
+    region: 'N/A',
+    manufacturer,
+    image_url: `http://192.0.2.1/${encodeURIComponent(city)}.jpg`,
+    page_url: 'http://192.0.2.1/',
+  };
+}
+
+const CAMERAS = [
+  camera('Barcelona', 'Spain', 'ES'),
+  camera('São Paulo', 'Brazil', 'BR', 'Hikvision'),
+  camera('Rome', 'Italy', 'IT'),
+  camera('Home', 'United States', 'US'),
+  camera('Nome', 'United States', 'US'),
+  camera('Malmö', 'Sweden', 'SE'),
+  camera('New York', 'United States', 'US', 'Barcelona Systems'),
+];
+
+const cities = (input: string) => searchCameras(CAMERAS, parseSearchQuery(input)).map((r) => r.camera.city);
+
+describe('searchCameras', () => {
+  it('ignores case and diacritics', () => {
+    expect(cities('Sao Paulo')).toEqual(['São Paulo']);
+    expect(cities('MALMO')).toEqual(['Malmö']);
+  });
+
+  it('tolerates typos in longer words', () => {
+    expect(cities('Barcleona')[0]).toBe('Barcelona');
+  });
+
+  it('matches short words only exactly or by prefix', () => {
+    expect(cities('rome')).toEqual(['Rome']);
+    expect(cities('ork')).toEqual([]);
+  });
+
+  it('matches the word still being typed by prefix', () => {
+    expect(cities('new yo')).toEqual(['New York']);
+  });
+
+  it('ranks a city match above a manufacturer match', () => {
+    expect(cities('barcelona')).toEqual(['Barcelona', 'New York']);
+  });
+
+  it('applies field terms, exclusions and alternatives', () => {
+    expect(cities('country:us -city:nome')).toEqual(['Home', 'New York']);
+    expect(cities('rome OR malmo')).toEqual(['Rome', 'Malmö']);
+    expect(cities('mfr:hikvision')).toEqual(['São Paulo']);
+  });
+
+  it('ignores terms without letters or digits', () => {
+    expect(cities('rome #')).toEqual(['Rome']);
+  });
+});
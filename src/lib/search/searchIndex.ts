@@ -0,0 +1,241 @@
+// Ranked, typo-tolerant camera search.
+//
+// The index is built once per dataset (per `cameras` array) on first search: every field is
+// tokenized into folded words, each word points at the cameras having it (with the weight of the
+// best field it appears in), and a trigram table over the vocabulary finds near-misses.
+// A query word matches vocabulary words exactly, by prefix (the word still being typed) or within
+// one or two edits ("barcleona" -> "barcelona"); the camera's score is the sum, over query words,
+// of its best match quality times field weight. Free-text terms must all match; field terms and
+// exclusions then filter exactly (see `matchesSearchTerm`).
+
+import type { CameraData } from '@/types/camera';
+import { matchesSearchTerm, type SearchQuery, type SearchTerm } from './query';
+import { tokenizeText } from './text';
+
+export interface SearchResult {
+  camera: CameraData;
+  /** Higher is more relevant; 0 when the query has no free text. */
+  score: number;
+}
+
+// A city hit says more about what the user is looking for than a manufacturer hit.
+const FIELD_WEIGHTS = {
+  city: 4,
+  region: 2.5,
+  country: 2.5,
+  manufacturer: 2,
+  continent: 1,
+  source: 1,
+  id: 1,
+} as const;
+
+const EXACT_QUALITY = 1;
+const PREFIX_QUALITY = 0.7;
+const FUZZY_QUALITY = [1, 0.55, 0.4];
+/** Shorter words are only matched exactly or by prefix: one edit turns "rome" into "home". */
+const MIN_FUZZY_LENGTH = 5;
+const MIN_PREFIX_LENGTH = 2;
+
+interface SearchIndex {
+  cameras: readonly CameraData[];
+  /** Sorted, so a prefix is a contiguous range. */
+  vocabulary: string[];
+  /** Per vocabulary word: camera indexes and weights, interleaved. */
+  postings: number[][];
+  /** Trigram (of the word padded with `^`/`$`) -> vocabulary indexes. */
+  trigrams: Map<string, number[]>;
+}
+
+const indexCache = new WeakMap<readonly CameraData[], SearchIndex>();
+
+function trigramsOf(word: string): string[] {
+  const padded = `^${word}$`;
+  const out: string[] = [];
+  for (let i = 0; i + 3 <= padded.length; i++) out.push(padded.slice(i, i + 3));
+  return out;
+}
+
+function buildSearchIndex(cameras: readonly CameraData[]): SearchIndex {
+  const postingsByWord = new Map<string, Map<number, number>>();
+  cameras.forEach((cam, i) => {
+    const fields: [string | undefined, number][] = [
+      [cam.city, FIELD_WEIGHTS.city],
+      [cam.region, FIELD_WEIGHTS.region],
+      [`${cam.country} ${cam.country_code ?? ''}`, FIELD_WEIGHTS.country],
+      [cam.manufacturer, FIELD_WEIGHTS.manufacturer],
+      [cam.continent, FIELD_WEIGHTS.continent],
+      [cam.source, FIELD_WEIGHTS.source],
+      [`${cam.id ?? ''} ${cam.network_key ?? ''}`, FIELD_WEIGHTS.id],
+    ];
+    for (const [text, weight] of fields) {
+      if (!text) continue;
+      for (const word of tokenizeText(text)) {
+        let byCamera = postingsByWord.get(word);
+        if (!byCamera) postingsByWord.set(word, (byCamera = new Map()));
+        if ((byCamera.get(i) ?? 0) < weight) byCamera.set(i, weight);
+      }
+    }
+  });
+
+  const vocabulary = Array.from(postingsByWord.keys()).sort();
+  const postings = vocabulary.map((word) => Array.from(postingsByWord.get(word)).flat());
+  const trigrams = new Map<string, number[]>();
+  vocabulary.forEach((word, w) => {
+    if (word.length < MIN_FUZZY_LENGTH - 1) return;
+    for (const gram of new Set(trigramsOf(word))) {
+      const list = trigrams.get(gram);
+      if (list) list.push(w);
+      else trigrams.set(gram, [w]);
+    }
+  });
+  return { cameras, vocabulary, postings, trigrams };
+}
+
+function getSearchIndex(cameras: readonly CameraData[]): SearchIndex {
+  let index = indexCache.get(cameras);
+  if (!index) {
+    index = buildSearchIndex(cameras);
+    indexCache.set(cameras, index);
+  }
+  return index;
+}
+
+/** Optimal string alignment distance (Levenshtein plus adjacent transpositions), capped at `max + 1`. */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev2: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d = Math.min(d, prev2[j - 2] + 1);
+      row.push(d);
+      rowMin = Math.min(rowMin, d);
+    }
+    if (rowMin > max) return max + 1;
+    prev2 = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+const maxEditsFor = (word: string) => (word.length < MIN_FUZZY_LENGTH ? 0 : word.length < 8 ? 1 : 2);
+
+/** Vocabulary indexes matching `word`, with the match quality of each. */
+function matchWord(index: SearchIndex, word: string): Map<number, number> {
+  const matches = new Map<number, number>();
+  const { vocabulary } = index;
+
+  // Exact and prefix matches: one contiguous run of the sorted vocabulary.
+  let lo = 0;
+  let hi = vocabulary.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (vocabulary[mid] < word) lo = mid + 1;
+    else hi = mid;
+  }
+  if (vocabulary[lo] === word) matches.set(lo, EXACT_QUALITY);
+  if (word.length >= MIN_PREFIX_LENGTH) {
+    for (let w = lo; w < vocabulary.length && vocabulary[w].startsWith(word); w++) {
+      if (!matches.has(w)) matches.set(w, PREFIX_QUALITY);
+    }
+  }
+
+  const maxEdits = maxEditsFor(word);
+  if (maxEdits === 0) return matches;
+  // Each edit breaks at most four of the word's trigrams (a transposition spans two characters).
+  const grams = trigramsOf(word);
+  const minShared = Math.max(1, grams.length - 4 * maxEdits);
+  const shared = new Map<number, number>();
+  for (const gram of new Set(grams)) {
+    for (const w of index.trigrams.get(gram) ?? []) shared.set(w, (shared.get(w) ?? 0) + 1);
+  }
+  for (const [w, count] of shared) {
+    if (count < minShared || matches.has(w)) continue;
+    const distance = editDistance(word, vocabulary[w], maxEdits);
+    if (distance <= maxEdits) matches.set(w, FUZZY_QUALITY[distance]);
+  }
+  return matches;
+}
+
+/** Camera index -> score for a free-text term: every word of it must match. */
+function scoreTextTerm(index: SearchIndex, term: SearchTerm): Map<number, number> {
+  const [text] = term.values;
+  let scores: Map<number, number> | null = null;
+  for (const word of tokenizeText(text)) {
+    const wordScores = new Map<number, number>();
+    for (const [w, quality] of matchWord(index, word)) {
+      const list = index.postings[w];
+      for (let k = 0; k < list.length; k += 2) {
+        const score = quality * list[k + 1];
+        if ((wordScores.get(list[k]) ?? 0) < score) wordScores.set(list[k], score);
+      }
+    }
+    if (scores) {
+      const next = new Map<number, number>();
+      for (const [i, score] of wordScores) {
+        const sofar = scores.get(i);
+        if (sofar !== undefined) next.set(i, sofar + score);
+      }
+      scores = next;
+    } else {
+      scores = wordScores;
+    }
+    if (scores.size === 0) break;
+  }
+  scores ??= new Map();
+
+  // A quoted phrase also has to appear as written (modulo case and diacritics).
+  if (/\s/.test(text.trim())) {
+    for (const i of scores.keys()) {
+      if (!matchesSearchTerm(index.cameras[i], term)) scores.delete(i);
+    }
+  }
+  return scores;
+}
+
+/**
+ * Cameras matching `query`, most relevant first (dataset order among equal scores). An empty
+ * query matches nothing; callers show the unfiltered list instead.
+ */
+export function searchCameras(cameras: readonly CameraData[], query: SearchQuery): SearchResult[] {
+  if (query.groups.length === 0 || cameras.length === 0) return [];
+  const index = getSearchIndex(cameras);
+  const best = new Map<number, number>();
+
+  for (const group of query.groups) {
+    // Text without letters or digits (`#`, a lone `-`) has no words to match; it's ignored, not a miss.
+    const text = group.filter((t) => t.field === null && !t.negated && tokenizeText(t.values[0]).length > 0);
+    const filters = group.filter((t) => t.field !== null || t.negated);
+
+    let scores: Map<number, number> | null = null;
+    for (const term of text) {
+      const termScores = scoreTextTerm(index, term);
+      if (scores) {
+        const next = new Map<number, number>();
+        for (const [i, score] of termScores) {
+          const sofar = scores.get(i);
+          if (sofar !== undefined) next.set(i, sofar + score);
+        }
+        scores = next;
+      } else {
+        scores = termScores;
+      }
+      if (scores.size === 0) break;
+    }
+
+    const accept = (i: number, score: number) => {
+      if (!filters.every((t) => matchesSearchTerm(cameras[i], t) !== t.negated)) return;
+      if ((best.get(i) ?? -1) < score) best.set(i, score);
+    };
+    if (scores) for (const [i, score] of scores) accept(i, score);
+    else for (let i = 0; i < cameras.length; i++) accept(i, 0);
+  }
+
+  return Array.from(best)
+    .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+    .map(([i, score]) => ({ camera: cameras[i], score }));
+}
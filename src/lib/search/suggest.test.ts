@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { CameraData } from '@/types/camera';
+import { applySearchSuggestion, getSearchSuggestions } from './suggest';
+
+function camera(country: string, city: string, manufacturer: string): CameraData {
+  return {
+    latitude: 0,
+    longitude: 0,
+    continent: 'Asia',
+    country,
+    city,
+    region: 'N/A',
+    manufacturer,
+    image_url: 'http://192.0.2.1/snapshot.jpg',
+    page_url: 'http://192.0.2.1/',
+  };
+}
+
+const CAMERAS = [
+  camera('Japan', 'Tokyo', 'Axis'),
+  camera('Japan', 'Osaka', 'Panasonic'),
+  camera('South Korea', 'Seoul', 'Axis'),
+  camera('South Korea', 'Busan', 'Hanwha'),
+  camera('United States', 'New York', 'Axis'),
+  camera('Kenya', 'Nairobi', 'N/A'),
+];
+
+/** Suggestions for `input` with the caret at `|`. */
+const suggest = (input: string) => getSearchSuggestions(CAMERAS, input.replace('|', ''), input.indexOf('|'));
+
+/** `input` after accepting the first suggestion, with the caret shown as `|`. */
+function accept(input: string): string {
+  const [first] = suggest(input);
+  const { text, caret } = applySearchSuggestion(input.replace('|', ''), first);
+  return `${text.slice(0, caret)}|${text.slice(caret)}`;
+}
+
+describe('getSearchSuggestions', () => {
+  it('turns a bare word into a field operator, most cameras first', () => {
+    expect(suggest('jap|').map((s) => s.text)).toEqual(['country:Japan']);
+    expect(suggest('ax|')[0]).toMatchObject({ field: 'mfr', value: 'Axis', count: 3 });
+  });
+
+  it('matches later words of a value and skips placeholders', () => {
+    expect(suggest('kor|').map((s) => s.value)).toEqual(['South Korea']);
+    expect(suggest('mfr:n|')).toEqual([]);
+  });
+
+  it('needs two letters for a bare word but any prefix after an operator', () => {
+    expect(suggest('j|')).toEqual([]);
+    expect(suggest('city:|').length).toBe(6);
+  });
+
+  it('does not suggest for OR or unknown operators', () => {
+    expect(suggest('OR|')).toEqual([]);
+    expect(suggest('worldcam:1|')).toEqual([]);
+  });
+});
+
+describe('applySearchSuggestion', () => {
+  it('replaces only the word at the caret', () => {
+    expect(accept('tokyo jap| axis')).toBe('tokyo country:Japan |axis');
+    expect(accept('-mfr:ax|')).toBe('-mfr:Axis |');
+  });
+
+  it('quotes values with spaces', () => {
+    expect(accept('city:new|')).toBe('city:"New York" |');
+  });
+
+  it('completes the last item of a list', () => {
+    const [first] = suggest('country:jp,ko|');
+    expect(first).toMatchObject({ from: 11, to: 13, text: '"South Korea"' });
+    expect(accept('country:jp,ko|')).toBe('country:jp,"South Korea" |');
+  });
+});
@@ -0,0 +1,164 @@
+// Autocomplete for the search box: the countries, cities, regions and manufacturers in the
+// dataset that complete the word at the caret, with how many cameras each has.
+//
+//   jap|           -> country:Japan               (a bare word becomes a field operator)
+//   -mfr:ax|       -> -mfr:Axis
+//   city:new|      -> city:"New York"             (quoted when needed)
+//   country:jp,ko| -> country:jp,"South Korea"    (completes the last item of a list)
+
+import type { CameraData } from '@/types/camera';
+import { PLACEHOLDER_TEXT } from '@/lib/cameraData/schema';
+import { quoteSearchValue, resolveSearchField, type SearchField } from './query';
+import { foldText, tokenizeText } from './text';
+
+export type SuggestionField = Extract<SearchField, 'country' | 'city' | 'region' | 'mfr'>;
+
+export const SUGGESTION_FIELDS: readonly SuggestionField[] = ['country', 'city', 'region', 'mfr'];
+
+export const SUGGESTION_FIELD_LABELS: Record<SuggestionField, string> = {
+  country: 'Country',
+  city: 'City',
+  region: 'Region',
+  mfr: 'Manufacturer',
+};
+
+export interface SearchSuggestion {
+  field: SuggestionField;
+  value: string;
+  count: number;
+  /** The part of the input the suggestion replaces, `[from, to)`. */
+  from: number;
+  to: number;
+  /** What replaces it. */
+  text: string;
+}
+
+/** Bare words shorter than this don't get suggestions; after `field:` any prefix does. */
+const MIN_BARE_PREFIX_LENGTH = 2;
+const DEFAULT_SUGGESTION_LIMIT = 8;
+
+interface SuggestionEntry {
+  field: SuggestionField;
+  value: string;
+  folded: string;
+  words: string[];
+  count: number;
+}
+
+const entriesCache = new WeakMap<readonly CameraData[], SuggestionEntry[]>();
+
+const FIELD_VALUE: Record<SuggestionField, (cam: CameraData) => string | undefined> = {
+  country: (cam) => cam.country,
+  city: (cam) => cam.city,
+  region: (cam) => cam.region,
+  mfr: (cam) => cam.manufacturer,
+};
+
+/** Distinct values per field with camera counts, built once per dataset. */
+function getSuggestionEntries(cameras: readonly CameraData[]): SuggestionEntry[] {
+  let entries = entriesCache.get(cameras);
+  if (entries) return entries;
+  const byKey = new Map<string, SuggestionEntry>();
+  for (const cam of cameras) {
+    for (const field of SUGGESTION_FIELDS) {
+      const value = FIELD_VALUE[field](cam)?.trim();
+      if (!value || value === PLACEHOLDER_TEXT) continue;
+      const folded = foldText(value);
+      const key = `${field}\t${folded}`;
+      const entry = byKey.get(key);
+      if (entry) entry.count++;
+      else byKey.set(key, { field, value, folded, words: tokenizeText(value), count: 1 });
+    }
+  }
+  entries = Array.from(byKey.values());
+  entriesCache.set(cameras, entries);
+  return entries;
+}
+
+/** Where the token at `caret` starts and ends: whitespace outside quotes separates tokens. */
+function tokenBounds(input: string, caret: number): [number, number] {
+  let start = 0;
+  let inQuotes = false;
+  for (let i = 0; i < caret; i++) {
+    if (input[i] === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && /\s/.test(input[i])) start = i + 1;
+  }
+  let end = caret;
+  while (end < input.length && (inQuotes || !/\s/.test(input[end]))) {
+    if (input[end] === '"') inQuotes = !inQuotes;
+    end++;
+  }
+  return [start, end];
+}
+
+/** Start of the last comma-separated item in a field value, outside quotes. */
+function lastItemStart(value: string): number {
+  let start = 0;
+  let inQuotes = false;
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && value[i] === ',') start = i + 1;
+  }
+  return start;
+}
+
+/**
+ * Completions for the word at `caret` in `input`, best first: values starting with what's typed
+ * before values with a later word starting with it, then by camera count.
+ */
+export function getSearchSuggestions(
+  cameras: readonly CameraData[],
+  input: string,
+  caret: number,
+  limit = DEFAULT_SUGGESTION_LIMIT
+): SearchSuggestion[] {
+  if (cameras.length === 0) return [];
+  const [from, to] = tokenBounds(input, caret);
+  const typed = input.slice(from, caret);
+  const match = /^(-?)(?:([A-Za-z]+):)?(.*)$/s.exec(typed);
+  if (!match) return [];
+  const [, minus, name, rest] = match;
+  if (!name && (rest === 'OR' || rest === '|')) return [];
+
+  let field: SuggestionField | null = null;
+  let itemFrom = from;
+  let prefixText = rest;
+  if (name) {
+    const resolved = resolveSearchField(name);
+    if (!resolved || !(SUGGESTION_FIELDS as readonly string[]).includes(resolved)) return [];
+    field = resolved as SuggestionField;
+    const itemStart = lastItemStart(rest);
+    itemFrom = caret - (rest.length - itemStart);
+    prefixText = rest.slice(itemStart);
+  }
+  const prefix = foldText(prefixText.replace(/"/g, '')).trim();
+  if (!field && prefix.length < MIN_BARE_PREFIX_LENGTH) return [];
+
+  const ranked: { entry: SuggestionEntry; rank: number }[] = [];
+  for (const entry of getSuggestionEntries(cameras)) {
+    if (field && entry.field !== field) continue;
+    if (entry.folded.startsWith(prefix)) ranked.push({ entry, rank: 0 });
+    else if (prefix && entry.words.some((w) => w.startsWith(prefix))) ranked.push({ entry, rank: 1 });
+  }
+  ranked.sort((a, b) => a.rank - b.rank || b.entry.count - a.entry.count || a.entry.value.localeCompare(b.entry.value));
+
+  return ranked.slice(0, limit).map(({ entry }) => ({
+    field: entry.field,
+    value: entry.value,
+    count: entry.count,
+    // With `field:` typed, only the value (the list item) is replaced; a bare word becomes an operator.
+    from: field ? itemFrom : from,
+    to,
+    text: field
+      ? quoteSearchValue(entry.value, true)
+      : `${minus}${entry.field}:${quoteSearchValue(entry.value, true)}`,
+  }));
+}
+
+/** `input` with the suggestion inserted, and where the caret goes (after it, past a space). */
+export function applySearchSuggestion(input: string, suggestion: SearchSuggestion): { text: string; caret: number } {
+  const before = input.slice(0, suggestion.from) + suggestion.text;
+  const after = input.slice(suggestion.to);
+  const spaced = after.startsWith(' ') ? after : ` ${after}`;
+  return { text: before + spaced, caret: before.length + 1 };
+}
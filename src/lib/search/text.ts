@@ -0,0 +1,31 @@
+// Text normalization for search: case- and diacritic-insensitive, so "Sao Paulo" finds
+// "São Paulo" and "Malmo" finds "Malmö".
+
+// Letters NFD doesn't decompose into a base letter plus a combining mark.
+const SPECIAL_LETTERS: Record<string, string> = {
+  ß: 'ss',
+  æ: 'ae',
+  œ: 'oe',
+  ø: 'o',
+  đ: 'd',
+  ð: 'd',
+  ł: 'l',
+  ı: 'i',
+  þ: 'th',
+};
+
+const SPECIAL_LETTER_RE = new RegExp(`[${Object.keys(SPECIAL_LETTERS).join('')}]`, 'g');
+
+/** Lower case without diacritics. */
+export function foldText(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(SPECIAL_LETTER_RE, (ch) => SPECIAL_LETTERS[ch]);
+}
+
+/** Folded words (letters and digits), e.g. "Saint-Étienne (FR)" -> ["saint", "etienne", "fr"]. */
+export function tokenizeText(text: string): string[] {
+  return foldText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
@@ -0,0 +1,14 @@
+// Registers `public/sw.js` (offline shell + dataset). Production builds only: in dev the
+// precache list is empty and a cache-first worker would serve stale modules.
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD) return;
+  if (typeof window === 'undefined' || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(SERVICE_WORKER_URL).catch((e) => {
+      console.warn('Service worker registration failed', e);
+    });
+  });
+}
@@ -0,0 +1,64 @@
+// Sun position from the current time: the subsolar point (where the sun is at the zenith) and the
+// sun's elevation anywhere on Earth. Uses the low-precision almanac formulas (good to ~0.01°),
+// which is plenty for shading the night side and sorting cameras into day and night.
+
+export interface SubsolarPoint {
+  lat: number;
+  lon: number;
+}
+
+/** Where daylight ends and phases begin, in degrees of solar elevation. */
+export const SUNRISE_ELEVATION = -0.833; // upper limb on the horizon, with refraction
+export const CIVIL_TWILIGHT_ELEVATION = -6;
+export const GOLDEN_HOUR_MIN_ELEVATION = -4;
+export const GOLDEN_HOUR_MAX_ELEVATION = 6;
+
+export type DaylightFilter = 'all' | 'daylight' | 'twilight' | 'golden_hour';
+
+export const DAYLIGHT_FILTERS: { value: DaylightFilter; label: string; description: string }[] = [
+  { value: 'all', label: 'Any time', description: 'Day and night' },
+  { value: 'daylight', label: 'Daylight', description: 'Sun above the horizon' },
+  { value: 'twilight', label: 'Daylight + twilight', description: 'Including civil twilight' },
+  { value: 'golden_hour', label: 'Golden hour', description: 'Sun low, within 6° of the horizon' },
+];
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+const wrap360 = (deg: number) => ((deg % 360) + 360) % 360;
+
+export function getSubsolarPoint(date: Date): SubsolarPoint {
+  // Days since J2000.0 (2000-01-01 12:00 TT; the TT/UTC difference is negligible here).
+  const n = date.getTime() / 86_400_000 + 2440587.5 - 2451545.0;
+  const meanLongitude = wrap360(280.46 + 0.9856474 * n);
+  const meanAnomaly = toRad(wrap360(357.528 + 0.9856003 * n));
+  const eclipticLongitude = toRad(meanLongitude + 1.915 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly));
+  const obliquity = toRad(23.439 - 0.0000004 * n);
+
+  const declination = Math.asin(Math.sin(obliquity) * Math.sin(eclipticLongitude));
+  const rightAscension = toDeg(Math.atan2(Math.cos(obliquity) * Math.sin(eclipticLongitude), Math.cos(eclipticLongitude)));
+  const siderealTime = wrap360(280.46061837 + 360.98564736629 * n);
+
+  const lon = wrap360(rightAscension - siderealTime + 180) - 180;
+  return { lat: toDeg(declination), lon };
+}
+
+/** Sun elevation above the horizon (degrees, negative below) at the given place. */
+export function getSolarElevation(lat: number, lon: number, subsolar: SubsolarPoint): number {
+  const phi = toRad(lat);
+  const delta = toRad(subsolar.lat);
+  const cosZenith = Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.cos(toRad(lon - subsolar.lon));
+  return 90 - toDeg(Math.acos(Math.max(-1, Math.min(1, cosZenith))));
+}
+
+export function matchesDaylightFilter(elevation: number, filter: DaylightFilter): boolean {
+  switch (filter) {
+    case 'daylight':
+      return elevation > SUNRISE_ELEVATION;
+    case 'twilight':
+      return elevation > CIVIL_TWILIGHT_ELEVATION;
+    case 'golden_hour':
+      return elevation >= GOLDEN_HOUR_MIN_ELEVATION && elevation <= GOLDEN_HOUR_MAX_ELEVATION;
+    default:
+      return true;
+  }
+}
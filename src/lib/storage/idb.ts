@@ -0,0 +1,137 @@
+// IndexedDB tier. One connection per page, opened lazily and closed when another tab needs to
+// upgrade the schema (the next access reopens it).
+
+import { LRU_INDEX, STORAGE_DB_NAME, STORAGE_DB_VERSION, runStorageMigrations, type StorageStoreName, type StoredEntry } from './schema';
+import type { StorageBackend, StoredEntryInfo } from './types';
+
+// Private-mode Safari (and some embedded webviews) leave `open` pending forever.
+const OPEN_TIMEOUT_MS = 5000;
+// Bumping last-access on every read would turn reads into writes; a coarse timestamp is enough for LRU.
+const TOUCH_INTERVAL_MS = 1000 * 60 * 60;
+
+function requestResult<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const timer = setTimeout(() => reject(new Error('Opening IndexedDB timed out')), OPEN_TIMEOUT_MS);
+    try {
+      const req = indexedDB.open(STORAGE_DB_NAME, STORAGE_DB_VERSION);
+      req.onupgradeneeded = (event) => {
+        runStorageMigrations(req.result, req.transaction, event.oldVersion);
+      };
+      req.onsuccess = () => {
+        clearTimeout(timer);
+        resolve(req.result);
+      };
+      req.onerror = () => {
+        clearTimeout(timer);
+        reject(req.error ?? new Error('Failed to open IndexedDB'));
+      };
+      req.onblocked = () => {
+        console.warn('IndexedDB upgrade is waiting for other tabs to close the database');
+      };
+    } catch (e) {
+      clearTimeout(timer);
+      reject(e);
+    }
+  });
+}
+
+/** Open the database (running migrations); rejects when IndexedDB is unusable. */
+export async function createIndexedDbBackend(): Promise<StorageBackend> {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const connect = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase().then((db) => {
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        db.onclose = () => {
+          dbPromise = null;
+        };
+        return db;
+      });
+      dbPromise.catch(() => {
+        dbPromise = null;
+      });
+    }
+    return dbPromise;
+  };
+
+  // Fail here, not on first use, so the caller can pick the fallback tier up front.
+  await connect();
+
+  return {
+    kind: 'indexeddb',
+    async get<T>(store: StorageStoreName, key: string) {
+      const db = await connect();
+      const read = db.transaction(store, 'readonly');
+      const entry = (await requestResult(read.objectStore(store).get(key))) as StoredEntry<T> | undefined;
+      if (!entry || typeof entry !== 'object' || !('value' in entry)) return null;
+      // Reads share readonly transactions; the occasional touch is a write of its own, not awaited.
+      const now = Date.now();
+      if (now - entry.ts > TOUCH_INTERVAL_MS) {
+        try {
+          const write = db.transaction(store, 'readwrite');
+          write.objectStore(store).put({ ...entry, ts: now }, key);
+          transactionDone(write).catch(() => {
+            // A missed touch only makes the entry look older to eviction.
+          });
+        } catch {
+          // ignore: the connection is closing
+        }
+      }
+      return entry;
+    },
+    async put<T>(store: StorageStoreName, key: string, entry: StoredEntry<T>) {
+      const db = await connect();
+      const tx = db.transaction(store, 'readwrite');
+      tx.objectStore(store).put(entry, key);
+      await transactionDone(tx);
+    },
+    async delete(store: StorageStoreName, key: string) {
+      const db = await connect();
+      const tx = db.transaction(store, 'readwrite');
+      tx.objectStore(store).delete(key);
+      await transactionDone(tx);
+    },
+    async list(store: StorageStoreName) {
+      const db = await connect();
+      const tx = db.transaction(store, 'readonly');
+      const out: StoredEntryInfo[] = [];
+      await new Promise<void>((resolve, reject) => {
+        const req = tx.objectStore(store).index(LRU_INDEX).openKeyCursor();
+        req.onsuccess = () => {
+          const cursor = req.result;
+          if (!cursor) {
+            resolve();
+            return;
+          }
+          const [ts, size] = cursor.key as [number, number];
+          out.push({ key: String(cursor.primaryKey), size, ts });
+          cursor.continue();
+        };
+        req.onerror = () => reject(req.error);
+      });
+      return out;
+    },
+  };
+}
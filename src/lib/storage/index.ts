@@ -0,0 +1,166 @@
+// Client-side storage: IndexedDB when available, in memory otherwise.
+//
+// Every call resolves (reads to null on failure) so a broken or missing IndexedDB degrades to
+// re-downloading rather than breaking the app. Before a write would push the origin past
+// `QUOTA_BUDGET` of its quota, least recently used entries of the evictable stores are dropped;
+// a write that still fails is kept in memory for the rest of the session. `getStorageStatus`
+// reports which tier is in use and why.
+
+import { createIndexedDbBackend } from './idb';
+import { createMemoryBackend } from './memory';
+import { EVICTABLE_STORES, estimateSize, type StorageStoreName, type StoredEntry } from './schema';
+import type { StorageBackend, StorageStatus } from './types';
+
+export { STORAGE_STORES, type StorageStoreName } from './schema';
+export type { StorageBackendKind, StorageStatus } from './types';
+
+// Leave headroom: browsers may evict the whole origin when it runs at its quota.
+const QUOTA_BUDGET = 0.8;
+
+const memory = createMemoryBackend();
+let backendPromise: Promise<StorageBackend> | null = null;
+
+let status: StorageStatus = { backend: 'pending', reason: null, usage: null, quota: null, evicted: 0 };
+const listeners = new Set<() => void>();
+
+function setStatus(patch: Partial<StorageStatus>) {
+  status = { ...status, ...patch };
+  for (const listener of listeners) listener();
+}
+
+export function getStorageStatus(): StorageStatus {
+  return status;
+}
+
+export function subscribeStorageStatus(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function isQuotaError(e: unknown): boolean {
+  return e instanceof DOMException && (e.name === 'QuotaExceededError' || e.code === 22);
+}
+
+async function estimateStorage(): Promise<{ usage: number; quota: number } | null> {
+  try {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+    const { usage, quota } = await navigator.storage.estimate();
+    if (typeof usage !== 'number' || typeof quota !== 'number' || quota <= 0) return null;
+    return { usage, quota };
+  } catch {
+    return null;
+  }
+}
+
+/** Re-read origin usage/quota into the status. */
+export async function refreshStorageEstimate(): Promise<void> {
+  const estimate = await estimateStorage();
+  if (estimate) setStatus(estimate);
+}
+
+function getBackend(): Promise<StorageBackend> {
+  if (!backendPromise) {
+    backendPromise = createIndexedDbBackend().then(
+      (backend) => {
+        setStatus({ backend: 'indexeddb', reason: null });
+        void refreshStorageEstimate();
+        return backend;
+      },
+      (e) => {
+        console.warn('IndexedDB unavailable; caching in memory for this session', e);
+        setStatus({ backend: 'memory', reason: e instanceof Error ? e.message : 'IndexedDB is not available' });
+        return memory;
+      }
+    );
+  }
+  return backendPromise;
+}
+
+/** Drop least recently used evictable entries (never `keep`) until `bytes` are freed. */
+async function evict(backend: StorageBackend, bytes: number, keep: { store: StorageStoreName; key: string }) {
+  let freed = 0;
+  let evicted = 0;
+  for (const store of EVICTABLE_STORES) {
+    if (freed >= bytes) break;
+    const entries = await backend.list(store);
+    for (const entry of entries) {
+      if (freed >= bytes) break;
+      if (store === keep.store && entry.key === keep.key) continue;
+      await backend.delete(store, entry.key);
+      freed += entry.size;
+      evicted += 1;
+    }
+  }
+  if (evicted > 0) setStatus({ evicted: status.evicted + evicted });
+  return freed;
+}
+
+async function makeRoom(backend: StorageBackend, bytes: number, keep: { store: StorageStoreName; key: string }) {
+  const estimate = await estimateStorage();
+  if (!estimate) return;
+  const over = estimate.usage + bytes - estimate.quota * QUOTA_BUDGET;
+  if (over > 0) await evict(backend, over, keep);
+}
+
+export async function storageGet<T>(store: StorageStoreName, key: string): Promise<T | null> {
+  // Writes IndexedDB refused live in memory and are newer than anything on disk.
+  const overflow = await memory.get<T>(store, key);
+  if (overflow) return overflow.value;
+  const backend = await getBackend();
+  if (backend === memory) return null;
+  try {
+    return (await backend.get<T>(store, key))?.value ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export async function storagePut<T>(store: StorageStoreName, key: string, value: T): Promise<void> {
+  const entry: StoredEntry<T> = { value, size: estimateSize(value), ts: Date.now() };
+  const backend = await getBackend();
+  if (backend === memory) {
+    await memory.put(store, key, entry);
+    return;
+  }
+
+  const keep = { store, key };
+  try {
+    await makeRoom(backend, entry.size, keep);
+    await backend.put(store, key, entry);
+    await memory.delete(store, key);
+  } catch (e) {
+    let stored = false;
+    if (isQuotaError(e)) {
+      try {
+        await evict(backend, entry.size, keep);
+        await backend.put(store, key, entry);
+        await memory.delete(store, key);
+        stored = true;
+      } catch {
+        // fall through to memory
+      }
+    }
+    if (!stored) {
+      await memory.put(store, key, entry);
+      setStatus({
+        reason: isQuotaError(e)
+          ? 'Storage quota reached; new data is kept for this session only'
+          : 'Saving to IndexedDB failed; new data is kept for this session only',
+      });
+    }
+  }
+  void refreshStorageEstimate();
+}
+
+export async function storageDelete(store: StorageStoreName, key: string): Promise<void> {
+  await memory.delete(store, key);
+  const backend = await getBackend();
+  if (backend === memory) return;
+  try {
+    await backend.delete(store, key);
+  } catch {
+    // ignore
+  }
+}
@@ -0,0 +1,38 @@
+// In-memory tier: used when IndexedDB can't be opened (private mode, disabled storage) and for
+// writes IndexedDB refused. Lives as long as the page.
+
+import type { StorageStoreName, StoredEntry } from './schema';
+import type { StorageBackend, StoredEntryInfo } from './types';
+
+export function createMemoryBackend(): StorageBackend {
+  const stores = new Map<StorageStoreName, Map<string, StoredEntry>>();
+  const storeFor = (name: StorageStoreName) => {
+    let store = stores.get(name);
+    if (!store) {
+      store = new Map();
+      stores.set(name, store);
+    }
+    return store;
+  };
+
+  return {
+    kind: 'memory',
+    async get<T>(store: StorageStoreName, key: string) {
+      const entry = storeFor(store).get(key);
+      if (!entry) return null;
+      entry.ts = Date.now();
+      return entry as StoredEntry<T>;
+    },
+    async put<T>(store: StorageStoreName, key: string, entry: StoredEntry<T>) {
+      storeFor(store).set(key, entry);
+    },
+    async delete(store: StorageStoreName, key: string) {
+      storeFor(store).delete(key);
+    },
+    async list(store: StorageStoreName) {
+      const out: StoredEntryInfo[] = [];
+      for (const [key, entry] of storeFor(store)) out.push({ key, size: entry.size, ts: entry.ts });
+      return out.sort((a, b) => a.ts - b.ts);
+    },
+  };
+}
@@ -0,0 +1,97 @@
+// IndexedDB schema for the `globecam` database and the migrations that get old databases there.
+//
+// Migrations run in order inside the upgrade transaction, from the version on disk to
+// `STORAGE_DB_VERSION`. Never edit a shipped migration; append a new one instead.
+
+export const STORAGE_DB_NAME = 'globecam';
+
+export type StorageStoreName = 'dataset' | 'thumbnails' | 'user';
+
+export const STORAGE_STORES: readonly StorageStoreName[] = ['dataset', 'thumbnails', 'user'];
+
+/**
+ * Stores whose entries may be dropped to make room, cheapest to re-fetch first. `user` holds data
+ * that exists nowhere else and is never evicted.
+ */
+export const EVICTABLE_STORES: readonly StorageStoreName[] = ['thumbnails', 'dataset'];
+
+/**
+ * Index on `[ts, size]`: a key cursor over it lists entries least recently used first, with their
+ * sizes, without loading (possibly multi-megabyte) values.
+ */
+export const LRU_INDEX = 'lru';
+
+/** Every value is wrapped so eviction can order and size entries without reading them. */
+export interface StoredEntry<T = unknown> {
+  value: T;
+  /** Approximate size in bytes (see `estimateSize`). */
+  size: number;
+  /** Last read or write (ms since epoch). */
+  ts: number;
+}
+
+interface StorageMigration {
+  version: number;
+  migrate: (db: IDBDatabase, tx: IDBTransaction) => void;
+}
+
+const LEGACY_CACHE_STORE = 'cache';
+
+const MIGRATIONS: StorageMigration[] = [
+  {
+    // The original single key/value store, shared by every kind of cached data.
+    version: 1,
+    migrate: (db) => {
+      db.createObjectStore(LEGACY_CACHE_STORE);
+    },
+  },
+  {
+    // Separate stores per kind of data, with a last-access index for eviction. Everything in the
+    // old store was dataset cache; it moves over instead of being downloaded again.
+    version: 2,
+    migrate: (db, tx) => {
+      for (const name of STORAGE_STORES) {
+        const store = db.createObjectStore(name);
+        store.createIndex(LRU_INDEX, ['ts', 'size']);
+      }
+      const legacy = tx.objectStore(LEGACY_CACHE_STORE);
+      const dataset = tx.objectStore('dataset');
+      const cursorReq = legacy.openCursor();
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor) {
+          db.deleteObjectStore(LEGACY_CACHE_STORE);
+          return;
+        }
+        const entry: StoredEntry = { value: cursor.value, size: estimateSize(cursor.value), ts: Date.now() };
+        dataset.put(entry, cursor.key);
+        cursor.continue();
+      };
+    },
+  },
+];
+
+export const STORAGE_DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/** Bring a database at `oldVersion` up to `STORAGE_DB_VERSION`. Called from `onupgradeneeded`. */
+export function runStorageMigrations(db: IDBDatabase, tx: IDBTransaction, oldVersion: number) {
+  for (const migration of MIGRATIONS) {
+    if (migration.version > oldVersion) migration.migrate(db, tx);
+  }
+}
+
+/** Rough in-memory size of a structured-clonable value; good enough to budget eviction. */
+export function estimateSize(value: unknown, depth = 0): number {
+  if (value == null) return 0;
+  if (typeof value === 'string') return value.length * 2;
+  if (typeof value === 'number') return 8;
+  if (typeof value === 'boolean') return 4;
+  if (value instanceof ArrayBuffer) return value.byteLength;
+  if (ArrayBuffer.isView(value)) return value.byteLength;
+  if (typeof Blob !== 'undefined' && value instanceof Blob) return value.size;
+  if (depth > 4 || typeof value !== 'object') return 0;
+  if (Array.isArray(value)) return value.reduce<number>((n, v) => n + estimateSize(v, depth + 1), 0);
+  let size = 0;
+  for (const [k, v] of Object.entries(value)) size += k.length * 2 + estimateSize(v, depth + 1);
+  return size;
+}
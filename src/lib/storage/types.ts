@@ -0,0 +1,31 @@
+import type { StorageStoreName, StoredEntry } from './schema';
+
+export type StorageBackendKind = 'indexeddb' | 'memory';
+
+export interface StoredEntryInfo {
+  key: string;
+  size: number;
+  ts: number;
+}
+
+/** One storage tier. Reads resolve to null when missing; writes reject on failure (e.g. quota). */
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+  get<T>(store: StorageStoreName, key: string): Promise<StoredEntry<T> | null>;
+  put<T>(store: StorageStoreName, key: string, entry: StoredEntry<T>): Promise<void>;
+  delete(store: StorageStoreName, key: string): Promise<void>;
+  /** Keys, sizes and last access of every entry in `store`, least recently used first. */
+  list(store: StorageStoreName): Promise<StoredEntryInfo[]>;
+}
+
+export interface StorageStatus {
+  /** Where new writes go. `pending` until the first access has tried to open IndexedDB. */
+  backend: StorageBackendKind | 'pending';
+  /** Why data is (partly) kept in memory only, e.g. IndexedDB unavailable or the quota reached. */
+  reason: string | null;
+  /** Origin-wide figures from `navigator.storage.estimate()`, in bytes; null when unsupported. */
+  usage: number | null;
+  quota: number | null;
+  /** Entries dropped to make room since the page loaded. */
+  evicted: number;
+}
@@ -1,6 +1,9 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
+import { registerServiceWorker } from "./lib/serviceWorker";
 import "cesium/Build/Cesium/Widgets/widgets.css";
 import "./index.css";
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+registerServiceWorker();
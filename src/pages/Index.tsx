@@ -1,4 +1,4 @@
-import { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import { useState, useMemo, useCallback, useDeferredValue, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { ParallaxProvider } from '@/components/ParallaxProvider';
 import { CesiumGlobe, type CesiumGlobeRef } from '@/components/CesiumGlobe';
@@ -6,11 +6,14 @@ import { Header } from '@/components/Header';
 import { StatsDisplay } from '@/components/StatsDisplay';
 import { LiveActivityIndicator } from '@/components/LiveActivityIndicator';
 import { QuickFilters } from '@/components/QuickFilters';
+import { DaylightFilter } from '@/components/DaylightFilter';
+import { VerifiedLocationFilter } from '@/components/VerifiedLocationFilter';
 import { RegionFilters } from '@/components/RegionFilters';
 import { CommandSearch } from '@/components/CommandSearch';
 import { CameraDetailModal } from '@/components/CameraDetailModal';
 import { toast } from '@/components/ui/sonner';
 import { SettingsPanel } from '@/components/SettingsPanel';
+import { WhatsNewPanel } from '@/components/WhatsNewPanel';
 import { Cartesian2, Math as CesiumMath } from 'cesium';
 import {
   Drawer,
@@ -26,115 +29,18 @@ import {
   CornerDecorations
 } from '@/components/VisualOverlays';
 import { CameraData } from '@/types/camera';
-import { Layers, Search, Sliders, X, Star, Compass } from 'lucide-react';
+import { isVerifiedLocation, migrateCameraIds, summarizeLoadReport } from '@/lib/cameraData';
+import { haversineKm } from '@/lib/geo';
+import { isEmptySearchQuery, parseCoordinates, parseSearchQuery, searchCameras, serializeSearchQuery } from '@/lib/search';
+import { DAYLIGHT_FILTERS, getSolarElevation, getSubsolarPoint, matchesDaylightFilter, type DaylightFilter as DaylightFilterValue } from '@/lib/solar';
+import { useCameraDataset } from '@/hooks/use-camera-dataset';
+import { useOnlineStatus } from '@/hooks/use-online-status';
+import { useStorageStatus } from '@/hooks/use-storage-status';
+import { Layers, Search, Sliders, X, Star, Compass, WifiOff } from 'lucide-react';
 
 const FAVORITES_STORAGE_KEY = 'globecam:favorites';
 const RECENTS_STORAGE_KEY = 'globecam:recents';
 const SETTINGS_STORAGE_KEY = 'globecam:settings';
-const CAMERA_DATA_CACHE_TTL_MS = 1000 * 60 * 60 * 24;
-const CAMERA_DATA_CACHE_VERSION = 2;
-
-const CAMERA_DATA_IDB_DB = 'globecam';
-const CAMERA_DATA_IDB_STORE = 'cache';
-const CAMERA_DATA_IDB_KEY = 'camera_data';
-
-type CameraDataCacheRecord = {
-  v: number;
-  ts: number;
-  etag: string | null;
-  data: any[];
-};
-
-function openCameraCacheDb(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    try {
-      const req = indexedDB.open(CAMERA_DATA_IDB_DB, 1);
-      req.onupgradeneeded = () => {
-        const db = req.result;
-        if (!db.objectStoreNames.contains(CAMERA_DATA_IDB_STORE)) {
-          db.createObjectStore(CAMERA_DATA_IDB_STORE);
-        }
-      };
-      req.onsuccess = () => resolve(req.result);
-      req.onerror = () => reject(req.error);
-    } catch (e) {
-      reject(e);
-    }
-  });
-}
-
-async function readCameraDataCache(): Promise<CameraDataCacheRecord | null> {
-  try {
-    const db = await openCameraCacheDb();
-    return await new Promise((resolve) => {
-      const tx = db.transaction(CAMERA_DATA_IDB_STORE, 'readonly');
-      const store = tx.objectStore(CAMERA_DATA_IDB_STORE);
-      const req = store.get(CAMERA_DATA_IDB_KEY);
-      req.onsuccess = () => {
-        const val = req.result as CameraDataCacheRecord | undefined;
-        if (!val || typeof val !== 'object') return resolve(null);
-        if ((val as any).v !== CAMERA_DATA_CACHE_VERSION) return resolve(null);
-        if (typeof (val as any).ts !== 'number') return resolve(null);
-        if (Date.now() - (val as any).ts > CAMERA_DATA_CACHE_TTL_MS) return resolve(null);
-        if (!Array.isArray((val as any).data)) return resolve(null);
-        resolve(val);
-      };
-      req.onerror = () => resolve(null);
-      tx.oncomplete = () => db.close();
-      tx.onerror = () => db.close();
-      tx.onabort = () => db.close();
-    });
-  } catch {
-    return null;
-  }
-}
-
-async function writeCameraDataCache(next: CameraDataCacheRecord): Promise<void> {
-  try {
-    const db = await openCameraCacheDb();
-    await new Promise<void>((resolve) => {
-      const tx = db.transaction(CAMERA_DATA_IDB_STORE, 'readwrite');
-      const store = tx.objectStore(CAMERA_DATA_IDB_STORE);
-      store.put(next, CAMERA_DATA_IDB_KEY);
-      tx.oncomplete = () => {
-        db.close();
-        resolve();
-      };
-      tx.onerror = () => {
-        db.close();
-        resolve();
-      };
-      tx.onabort = () => {
-        db.close();
-        resolve();
-      };
-    });
-  } catch {
-    // ignore
-  }
-}
-
-async function fetchCameraData(etag: string | null): Promise<{ status: 'ok'; data: any[]; etag: string | null } | { status: 'not_modified'; etag: string | null }> {
-  const isDev = import.meta.env.DEV;
-  const res = await fetch('/camera_data.min.v2.json', {
-    cache: isDev ? 'no-store' : 'force-cache',
-    headers: {
-      Accept: 'application/json',
-      ...(etag ? { 'If-None-Match': etag } : {}),
-    },
-  });
-  if (res.status === 304) {
-    return { status: 'not_modified', etag: res.headers.get('ETag') ?? etag };
-  }
-  if (!res.ok) {
-    throw new Error(`Failed to load camera data (${res.status})`);
-  }
-  const json = await res.json();
-  if (!Array.isArray(json)) {
-    throw new Error('Camera data JSON is not an array');
-  }
-  return { status: 'ok', data: json, etag: res.headers.get('ETag') };
-}
 
 function readStringArrayStorage(key: string): string[] {
   try {
@@ -201,241 +107,6 @@ function parseNumberParam(value: string | null): number | null {
   return Number.isFinite(n) ? n : null;
 }
 
-function haversineKm(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
-  const toRad = (deg: number) => (deg * Math.PI) / 180;
-  const R = 6371;
-  const dLat = toRad(b.lat - a.lat);
-  const dLon = toRad(b.lon - a.lon);
-  const lat1 = toRad(a.lat);
-  const lat2 = toRad(b.lat);
-
-  const sinDLat = Math.sin(dLat / 2);
-  const sinDLon = Math.sin(dLon / 2);
-  const h = sinDLat * sinDLat + Math.cos(lat1) * Math.cos(lat2) * sinDLon * sinDLon;
-  const c = 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
-  return R * c;
-}
-
-// Helper function to determine continent from country
-function getContinent(country: string): string {
-  const continentMap: Record<string, string> = {
-    // North America
-    'United States': 'North America',
-    'Canada': 'North America',
-    'Mexico': 'North America',
-    'Guatemala': 'North America',
-    'Honduras': 'North America',
-    'El Salvador': 'North America',
-    'Nicaragua': 'North America',
-    'Costa Rica': 'North America',
-    'Panama': 'North America',
-    'Belize': 'North America',
-    'Cuba': 'North America',
-    'Jamaica': 'North America',
-    'Haiti': 'North America',
-    'Dominican Republic': 'North America',
-    'Bahamas': 'North America',
-    'Trinidad and Tobago': 'North America',
-    'Barbados': 'North America',
-    'Grenada': 'North America',
-    'Saint Lucia': 'North America',
-    'Saint Vincent and the Grenadines': 'North America',
-    'Antigua and Barbuda': 'North America',
-    'Dominica': 'North America',
-    'Saint Kitts and Nevis': 'North America',
-
-    // South America
-    'Brazil': 'South America',
-    'Argentina': 'South America',
-    'Chile': 'South America',
-    'Colombia': 'South America',
-    'Peru': 'South America',
-    'Venezuela': 'South America',
-    'Ecuador': 'South America',
-    'Bolivia': 'South America',
-    'Paraguay': 'South America',
-    'Uruguay': 'South America',
-    'Guyana': 'South America',
-    'Suriname': 'South America',
-    'French Guiana': 'South America',
-
-    // Europe
-    'United Kingdom': 'Europe',
-    'Germany': 'Europe',
-    'France': 'Europe',
-    'Italy': 'Europe',
-    'Spain': 'Europe',
-    'Netherlands': 'Europe',
-    'Belgium': 'Europe',
-    'Switzerland': 'Europe',
-    'Austria': 'Europe',
-    'Poland': 'Europe',
-    'Romania': 'Europe',
-    'Czech Republic': 'Europe',
-    'Hungary': 'Europe',
-    'Sweden': 'Europe',
-    'Norway': 'Europe',
-    'Denmark': 'Europe',
-    'Finland': 'Europe',
-    'Russia': 'Europe',
-    'Ukraine': 'Europe',
-    'Portugal': 'Europe',
-    'Greece': 'Europe',
-    'Ireland': 'Europe',
-    'Iceland': 'Europe',
-    'Croatia': 'Europe',
-    'Serbia': 'Europe',
-    'Bulgaria': 'Europe',
-    'Slovakia': 'Europe',
-    'Slovenia': 'Europe',
-    'Lithuania': 'Europe',
-    'Latvia': 'Europe',
-    'Estonia': 'Europe',
-    'Bosnia and Herzegovina': 'Europe',
-    'Albania': 'Europe',
-    'North Macedonia': 'Europe',
-    'Montenegro': 'Europe',
-    'Luxembourg': 'Europe',
-    'Malta': 'Europe',
-    'Cyprus': 'Europe',
-    'Belarus': 'Europe',
-    'Moldova': 'Europe',
-    'Monaco': 'Europe',
-    'Liechtenstein': 'Europe',
-    'San Marino': 'Europe',
-    'Vatican City': 'Europe',
-    'Andorra': 'Europe',
-    'Kosovo': 'Europe',
-
-    // Asia
-    'China': 'Asia',
-    'Japan': 'Asia',
-    'India': 'Asia',
-    'South Korea': 'Asia',
-    'Indonesia': 'Asia',
-    'Thailand': 'Asia',
-    'Vietnam': 'Asia',
-    'Malaysia': 'Asia',
-    'Singapore': 'Asia',
-    'Philippines': 'Asia',
-    'Taiwan': 'Asia',
-    'Pakistan': 'Asia',
-    'Bangladesh': 'Asia',
-    'Myanmar': 'Asia',
-    'Cambodia': 'Asia',
-    'Laos': 'Asia',
-    'Nepal': 'Asia',
-    'Sri Lanka': 'Asia',
-    'Afghanistan': 'Asia',
-    'Kazakhstan': 'Asia',
-    'Uzbekistan': 'Asia',
-    'Turkmenistan': 'Asia',
-    'Kyrgyzstan': 'Asia',
-    'Tajikistan': 'Asia',
-    'Mongolia': 'Asia',
-    'North Korea': 'Asia',
-    'Brunei': 'Asia',
-    'Bhutan': 'Asia',
-    'Maldives': 'Asia',
-    'Timor-Leste': 'Asia',
-    'Hong Kong': 'Asia',
-    'Macau': 'Asia',
-
-    // Middle East
-    'Saudi Arabia': 'Asia',
-    'United Arab Emirates': 'Asia',
-    'Israel': 'Asia',
-    'Jordan': 'Asia',
-    'Lebanon': 'Asia',
-    'Syria': 'Asia',
-    'Iraq': 'Asia',
-    'Iran': 'Asia',
-    'Turkey': 'Asia',
-    'Yemen': 'Asia',
-    'Oman': 'Asia',
-    'Kuwait': 'Asia',
-    'Qatar': 'Asia',
-    'Bahrain': 'Asia',
-    'Palestine': 'Asia',
-    'Armenia': 'Asia',
-    'Azerbaijan': 'Asia',
-    'Georgia': 'Asia',
-
-    // Africa
-    'South Africa': 'Africa',
-    'Egypt': 'Africa',
-    'Nigeria': 'Africa',
-    'Kenya': 'Africa',
-    'Ethiopia': 'Africa',
-    'Ghana': 'Africa',
-    'Tanzania': 'Africa',
-    'Uganda': 'Africa',
-    'Algeria': 'Africa',
-    'Morocco': 'Africa',
-    'Angola': 'Africa',
-    'Mozambique': 'Africa',
-    'Madagascar': 'Africa',
-    'Cameroon': 'Africa',
-    'Ivory Coast': 'Africa',
-    'Niger': 'Africa',
-    'Burkina Faso': 'Africa',
-    'Mali': 'Africa',
-    'Malawi': 'Africa',
-    'Zambia': 'Africa',
-    'Somalia': 'Africa',
-    'Senegal': 'Africa',
-    'Chad': 'Africa',
-    'Zimbabwe': 'Africa',
-    'Guinea': 'Africa',
-    'Rwanda': 'Africa',
-    'Benin': 'Africa',
-    'Tunisia': 'Africa',
-    'Burundi': 'Africa',
-    'South Sudan': 'Africa',
-    'Togo': 'Africa',
-    'Sierra Leone': 'Africa',
-    'Libya': 'Africa',
-    'Liberia': 'Africa',
-    'Mauritania': 'Africa',
-    'Eritrea': 'Africa',
-    'Gambia': 'Africa',
-    'Botswana': 'Africa',
-    'Namibia': 'Africa',
-    'Gabon': 'Africa',
-    'Lesotho': 'Africa',
-    'Guinea-Bissau': 'Africa',
-    'Equatorial Guinea': 'Africa',
-    'Mauritius': 'Africa',
-    'Eswatini': 'Africa',
-    'Djibouti': 'Africa',
-    'Comoros': 'Africa',
-    'Cape Verde': 'Africa',
-    'Sao Tome and Principe': 'Africa',
-    'Seychelles': 'Africa',
-    'Sudan': 'Africa',
-    'Congo': 'Africa',
-    'Democratic Republic of the Congo': 'Africa',
-    'Central African Republic': 'Africa',
-
-    // Oceania
-    'Australia': 'Oceania',
-    'New Zealand': 'Oceania',
-    'Papua New Guinea': 'Oceania',
-    'Fiji': 'Oceania',
-    'Solomon Islands': 'Oceania',
-    'Vanuatu': 'Oceania',
-    'Samoa': 'Oceania',
-    'Kiribati': 'Oceania',
-    'Micronesia': 'Oceania',
-    'Tonga': 'Oceania',
-    'Palau': 'Oceania',
-    'Marshall Islands': 'Oceania',
-    'Nauru': 'Oceania',
-    'Tuvalu': 'Oceania',
-  };
-  return continentMap[country] || 'Other';
-}
-
 // Get camera statistics
 function getCameraStats(cameras: CameraData[]) {
   const byContinent: Record<string, number> = {};
@@ -443,7 +114,8 @@ function getCameraStats(cameras: CameraData[]) {
 
   cameras.forEach(cam => {
     byContinent[cam.continent] = (byContinent[cam.continent] || 0) + 1;
-    byCountry[cam.country] = (byCountry[cam.country] || 0) + 1;
+    const countryKey = cam.country_code ?? cam.country;
+    byCountry[countryKey] = (byCountry[countryKey] || 0) + 1;
   });
 
   return {
@@ -454,175 +126,10 @@ function getCameraStats(cameras: CameraData[]) {
   };
 }
 
-function fnv1a32(input: string): string {
-  let hash = 0x811c9dc5;
-  for (let i = 0; i < input.length; i++) {
-    hash ^= input.charCodeAt(i);
-    hash = Math.imul(hash, 0x01000193);
-  }
-  return (hash >>> 0).toString(16).padStart(8, '0');
-}
-
-function computeCameraId(cam: any, index: number): string {
-  const page = typeof cam?.page_url === 'string' ? cam.page_url : '';
-  const image = typeof cam?.image_url === 'string' ? cam.image_url : '';
-  const key = `${page}|${image}`;
-  if (key !== '|') return `cam-${fnv1a32(key)}`;
-  return `cam-${String(index).padStart(5, '0')}`;
-}
-
-function computeNetworkKey(cam: any): string | null {
-  const page = typeof cam?.page_url === 'string' ? cam.page_url : '';
-  const image = typeof cam?.image_url === 'string' ? cam.image_url : '';
-  const source = typeof cam?.source === 'string' ? cam.source : '';
-
-  const url = page || image;
-  if (!url) return null;
-
-  const src = (source || 'unknown').toLowerCase();
-
-  const normalized = (v: string) => v.replace(/\/+$/, '');
-
-  // Try to extract a per-camera identifier from known providers.
-  // The returned key is *canonical* (based on URL host), so duplicates across sources can match.
-  // This intentionally avoids grouping by hostname alone.
-  const extractCanonicalKey = (u: URL): string | null => {
-    const host = u.hostname.toLowerCase();
-
-    // worldcam.eu: .../<id>-<slug>
-    // Example: https://worldcam.eu/webcams/.../35075-athens-i65-hwy72
-    if (host.endsWith('worldcam.eu')) {
-      const m = u.pathname.match(/\/(\d{3,})-[^/]+$/);
-      if (m?.[1]) return `worldcam:${m[1]}`;
-      return `worldcam:${host}${normalized(u.pathname)}`;
-    }
-
-    // insecam / worldcam.pl: numeric ID often present in path or filename
-    if (host.endsWith('worldcam.pl') || host.endsWith('insecam.org')) {
-      const m = u.pathname.match(/\/(\d{3,})(?:\.[a-zA-Z]+)?$/);
-      if (m?.[1]) return `insecam:${m[1]}`;
-      return `insecam:${host}${normalized(u.pathname)}`;
-    }
-
-    // worldviewstream.com: slug-based pages are typically per-camera.
-    if (host.endsWith('worldviewstream.com')) {
-      const slug = u.pathname.split('/').filter(Boolean).pop();
-      if (slug) return `worldviewstream:${slug}`;
-      return `worldviewstream:${host}${normalized(u.pathname)}`;
-    }
-
-    return null;
-  };
-
-  // Fallback: use full host+path (stricter than host-only), stripped of query/hash.
-  const hostPathKey = (u: URL) => `${u.hostname.toLowerCase()}${normalized(u.pathname)}`;
-
-  try {
-    const u = new URL(url);
-    const canonical = extractCanonicalKey(u);
-    if (canonical) return canonical;
-
-    // Unknown providers: namespace by source to avoid accidental cross-provider collisions.
-    return `${src}:${hostPathKey(u)}`;
-  } catch {
-    // If URL parsing fails, fallback to a normalized raw string.
-    return `${src}:${normalized(url)}`;
-  }
-}
-
 export default function Index() {
   const globeRef = useRef<CesiumGlobeRef | null>(null);
   const didInitialUrlSync = useRef(false);
   const [navState, setNavState] = useState<{ headingDegrees: number; pitchDegrees: number } | null>(null);
-  const [cameraDataRaw, setCameraDataRaw] = useState<any[] | null>(null);
-  const [cameraDataError, setCameraDataError] = useState<string | null>(null);
-
-  useEffect(() => {
-    let canceled = false;
-    if (typeof window === 'undefined') return;
-    readCameraDataCache().then((cached) => {
-      if (canceled) return;
-      if (!cached?.data) return;
-      setCameraDataRaw(cached.data);
-    });
-    return () => {
-      canceled = true;
-    };
-  }, []);
-
-  useEffect(() => {
-    const abort = new AbortController();
-    let cachedEtag: string | null = null;
-    if (typeof window !== 'undefined') {
-      readCameraDataCache().then((cached) => {
-        cachedEtag = cached?.etag ?? null;
-        fetchCameraData(cachedEtag)
-          .then((res) => {
-            if (abort.signal.aborted) return;
-            if (res.status === 'not_modified') {
-              if (cachedEtag !== (res.etag ?? null)) {
-                readCameraDataCache().then((existing) => {
-                  if (abort.signal.aborted) return;
-                  if (!existing) return;
-                  writeCameraDataCache({ ...existing, etag: res.etag ?? existing.etag });
-                });
-              }
-              return;
-            }
-            void writeCameraDataCache({
-              v: CAMERA_DATA_CACHE_VERSION,
-              ts: Date.now(),
-              etag: res.etag ?? null,
-              data: res.data,
-            });
-            setCameraDataRaw(res.data);
-          })
-          .catch((err) => {
-            if (abort.signal.aborted) return;
-            if (!cameraDataRaw) {
-              setCameraDataError(err instanceof Error ? err.message : 'Failed to load camera data');
-            }
-          });
-      });
-    }
-
-    if (typeof window === 'undefined') {
-      fetchCameraData(null)
-        .then((res) => {
-          if (abort.signal.aborted) return;
-          if (res.status === 'ok') setCameraDataRaw(res.data);
-        })
-        .catch((err) => {
-          if (abort.signal.aborted) return;
-          setCameraDataError(err instanceof Error ? err.message : 'Failed to load camera data');
-        });
-    }
-
-    return () => {
-      abort.abort();
-    };
-  }, [cameraDataRaw]);
-
-  // Load and process cameras from JSON
-  const allCameras = useMemo(() => {
-    if (!cameraDataRaw) return [] as CameraData[];
-    return (cameraDataRaw as any[]).map((cam: any, index: number) => ({
-      id: computeCameraId(cam, index),
-      latitude: cam.latitude,
-      longitude: cam.longitude,
-      continent: getContinent(cam.country),
-      country: cam.country,
-      city: cam.city,
-      region: cam.region,
-      manufacturer: cam.manufacturer,
-      image_url: cam.image_url,
-      page_url: cam.page_url
-      ,
-      source: typeof cam?.source === 'string' ? cam.source : undefined,
-      network_key: computeNetworkKey(cam) ?? undefined,
-      access_level: typeof cam?.source === 'string' && cam.source.toLowerCase() === 'insecam' ? 'restricted' : 'public'
-    })) as CameraData[];
-  }, [cameraDataRaw]);
 
   const initialQueryParams = useMemo(() => {
     if (typeof window === 'undefined') return null;
@@ -660,6 +167,43 @@ export default function Index() {
     return typeof v === 'number' ? Math.max(1, Math.min(20000, v)) : 250;
   }, [initialQueryParams]);
 
+  const [selectedRegions, setSelectedRegions] = useState<string[]>(initialSelectedRegions);
+  const [viewCenterLonLat, setViewCenterLonLat] = useState<[number, number] | null>(null);
+
+  // Sharded datasets load the selected regions (then the continent in view) first.
+  const shardPriority = useMemo(() => ({ regions: selectedRegions, viewCenterLonLat }), [selectedRegions, viewCenterLonLat]);
+  const {
+    cameras: allCameras,
+    report: cameraDataReport,
+    aliases: cameraIdAliases,
+    complete: cameraDataComplete,
+    changes: cameraDataChanges,
+    error: cameraDataError,
+  } = useCameraDataset(shardPriority);
+  // Retired IDs (changed provider URLs) and cross-source duplicates stay valid via the alias table.
+  const resolveCameraId = useCallback((id: string) => cameraIdAliases.get(id) ?? id, [cameraIdAliases]);
+
+  useEffect(() => {
+    if (!cameraDataReport) return;
+    if (cameraDataReport.rejected.length === 0 && cameraDataReport.repaired.length === 0) return;
+    console.warn(`Camera data: ${summarizeLoadReport(cameraDataReport)}`, cameraDataReport);
+  }, [cameraDataReport]);
+
+  const storageStatus = useStorageStatus();
+
+  // "What's new": shown until dismissed; a later refresh with new changes shows it again.
+  const [dismissedCameraDataChanges, setDismissedCameraDataChanges] = useState<typeof cameraDataChanges>(null);
+  const [showAddedCamerasOnly, setShowAddedCamerasOnly] = useState(false);
+  const visibleCameraDataChanges = cameraDataChanges !== dismissedCameraDataChanges ? cameraDataChanges : null;
+  const addedCameraIds = useMemo(
+    () => (cameraDataChanges ? new Set(cameraDataChanges.added.map((c) => c.id)) : null),
+    [cameraDataChanges]
+  );
+  const handleDismissCameraDataChanges = useCallback(() => {
+    setDismissedCameraDataChanges(cameraDataChanges);
+    setShowAddedCamerasOnly(false);
+  }, [cameraDataChanges]);
+
   const stats = useMemo(() => getCameraStats(allCameras), [allCameras]);
   const maxVisibleNodesMax = Math.max(500, Math.min(5000, allCameras.length));
 
@@ -668,18 +212,37 @@ export default function Index() {
     return readSettingsStorage<any>(SETTINGS_STORAGE_KEY, null);
   }, []);
 
-  const [selectedRegions, setSelectedRegions] = useState<string[]>(initialSelectedRegions);
   const [selectedCamera, setSelectedCamera] = useState<CameraData | null>(() => {
     if (!initialSelectedCameraId) return null;
-    return allCameras.find((c) => c.id === initialSelectedCameraId) ?? null;
+    const id = resolveCameraId(initialSelectedCameraId);
+    return allCameras.find((c) => c.id === id) ?? null;
   });
   const [selectedManufacturers, setSelectedManufacturers] = useState<string[]>(initialSelectedManufacturers);
   const [currentRotation, setCurrentRotation] = useState<[number, number] | null>(null);
-  const [viewCenterLonLat, setViewCenterLonLat] = useState<[number, number] | null>(null);
   const [currentProgress, setCurrentProgress] = useState(100);
   const [fps, setFps] = useState(60);
-  const [isConnected, setIsConnected] = useState(true);
+  const isConnected = useOnlineStatus();
   const [searchQuery, setSearchQuery] = useState(initialSearchQuery);
+  // The globe re-filters tens of thousands of markers; let typing in the search window stay ahead of it.
+  const deferredSearchQuery = useDeferredValue(searchQuery);
+  const parsedSearchQuery = useMemo(() => parseSearchQuery(deferredSearchQuery), [deferredSearchQuery]);
+  // Short plus codes ("CWC8+R9") are completed relative to the centre of the view.
+  const searchReferencePoint = useMemo(
+    () => (viewCenterLonLat ? { lat: viewCenterLonLat[1], lon: viewCenterLonLat[0] } : null),
+    [viewCenterLonLat]
+  );
+  // A pasted location is something to fly to, not text to filter the globe by.
+  const isCoordinateSearch = useMemo(
+    () => parseCoordinates(deferredSearchQuery, searchReferencePoint) !== null,
+    [deferredSearchQuery, searchReferencePoint]
+  );
+  const searchMatches = useMemo(
+    () =>
+      isEmptySearchQuery(parsedSearchQuery) || isCoordinateSearch
+        ? null
+        : new Set(searchCameras(allCameras, parsedSearchQuery).map((r) => r.camera)),
+    [allCameras, isCoordinateSearch, parsedSearchQuery]
+  );
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isHudOpen, setIsHudOpen] = useState(false);
@@ -701,6 +264,7 @@ export default function Index() {
     const raw = persistedSettings?.cloudsOpacity;
     return typeof raw === 'number' ? Math.max(0, Math.min(1, raw)) : 0.55;
   });
+  const [showDayNight, setShowDayNight] = useState(() => persistedSettings?.showDayNight ?? true);
   const [showCountryBorders, setShowCountryBorders] = useState(() => persistedSettings?.showCountryBorders ?? false);
   const [showNavigationControls, setShowNavigationControls] = useState(() => persistedSettings?.showNavigationControls ?? false);
   const [showHudLeftFilters, setShowHudLeftFilters] = useState(() => persistedSettings?.showHudLeftFilters ?? true);
@@ -711,6 +275,27 @@ export default function Index() {
   const [viewMode, setViewMode] = useState<'globe' | 'map'>(() => persistedSettings?.viewMode ?? 'globe');
   const [isSceneReady, setIsSceneReady] = useState(false);
   const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [daylightFilter, setDaylightFilter] = useState<DaylightFilterValue>('all');
+  const [verifiedLocationOnly, setVerifiedLocationOnly] = useState(false);
+  const verifiedLocationCount = useMemo(() => allCameras.filter(isVerifiedLocation).length, [allCameras]);
+
+  // Sun elevation at every camera, at minute resolution: fine enough for day/night, and it keeps
+  // `filteredCameras` (and the globe markers) to one recompute a minute while the filter is on.
+  const solarMinute = Math.floor(now.getTime() / 60_000);
+  const solarElevations = useMemo(() => {
+    const subsolar = getSubsolarPoint(new Date(solarMinute * 60_000));
+    return new Map(allCameras.map((cam) => [cam, getSolarElevation(cam.latitude, cam.longitude, subsolar)]));
+  }, [allCameras, solarMinute]);
+  const daylightCounts = useMemo(() => {
+    const counts = Object.fromEntries(DAYLIGHT_FILTERS.map((f) => [f.value, 0])) as Record<DaylightFilterValue, number>;
+    for (const elevation of solarElevations.values()) {
+      for (const f of DAYLIGHT_FILTERS) {
+        if (matchesDaylightFilter(elevation, f.value)) counts[f.value] += 1;
+      }
+    }
+    return counts;
+  }, [solarElevations]);
+  const activeSolarElevations = daylightFilter === 'all' ? null : solarElevations;
 
   const [sortMode, setSortMode] = useState<'none' | 'closest_me' | 'closest_view' | 'recent'>(
     initialSortMode as any
@@ -721,10 +306,11 @@ export default function Index() {
 
   useEffect(() => {
     if (!initialSelectedCameraId) return;
-    if (selectedCamera?.id === initialSelectedCameraId) return;
-    const cam = allCameras.find((c) => c.id === initialSelectedCameraId) ?? null;
+    const id = resolveCameraId(initialSelectedCameraId);
+    if (selectedCamera?.id === id) return;
+    const cam = allCameras.find((c) => c.id === id) ?? null;
     if (cam) setSelectedCamera(cam);
-  }, [allCameras, initialSelectedCameraId, selectedCamera?.id]);
+  }, [allCameras, initialSelectedCameraId, resolveCameraId, selectedCamera?.id]);
 
   useEffect(() => {
     if (!nearMeEnabled) return;
@@ -840,20 +426,71 @@ export default function Index() {
     return readStringArrayStorage(RECENTS_STORAGE_KEY);
   });
 
+  // Once the whole dataset is in, rewrite stored IDs (favorites, recents, the shared `?cam=`) to
+  // current ones and report those that no longer match any camera.
+  const didMigrateCameraIdsRef = useRef(false);
+  useEffect(() => {
+    if (!cameraDataComplete || allCameras.length === 0 || didMigrateCameraIdsRef.current) return;
+    didMigrateCameraIdsRef.current = true;
+    const currentIds = new Set(allCameras.map((c) => c.id));
+
+    const favorites = migrateCameraIds(favoriteIds, resolveCameraId, currentIds);
+    if (favorites.changed) {
+      setFavoriteIds(favorites.ids);
+      writeStringArrayStorage(FAVORITES_STORAGE_KEY, favorites.ids);
+    }
+    const recents = migrateCameraIds(recentIds, resolveCameraId, currentIds);
+    if (recents.changed) {
+      setRecentIds(recents.ids);
+      writeStringArrayStorage(RECENTS_STORAGE_KEY, recents.ids);
+    }
+
+    let sharedMissing = false;
+    if (initialSelectedCameraId && typeof window !== 'undefined') {
+      const id = resolveCameraId(initialSelectedCameraId);
+      const params = new URLSearchParams(window.location.search);
+      if (!currentIds.has(id)) {
+        sharedMissing = true;
+      } else if (id !== initialSelectedCameraId && params.get('cam') === initialSelectedCameraId) {
+        params.set('cam', id);
+        window.history.replaceState(null, '', `${window.location.pathname}?${params.toString()}${window.location.hash}`);
+      }
+    }
+
+    const missing: string[] = [];
+    if (favorites.unresolved.length > 0) {
+      missing.push(`${favorites.unresolved.length} favorite${favorites.unresolved.length === 1 ? '' : 's'}`);
+    }
+    if (recents.unresolved.length > 0) {
+      missing.push(`${recents.unresolved.length} recent camera${recents.unresolved.length === 1 ? '' : 's'}`);
+    }
+    if (sharedMissing) missing.push('the shared camera');
+    if (missing.length > 0) {
+      console.warn('Camera IDs no longer in the dataset', {
+        favorites: favorites.unresolved,
+        recents: recents.unresolved,
+        shared: sharedMissing ? initialSelectedCameraId : null,
+      });
+      const subject = missing.join(', ');
+      toast.warning(`${subject[0].toUpperCase()}${subject.slice(1)} could not be found in the current camera list`);
+    }
+  }, [allCameras, cameraDataComplete, favoriteIds, initialSelectedCameraId, recentIds, resolveCameraId]);
+
   const isSelectedFavorite = useMemo(() => {
     if (!selectedCamera?.id) return false;
-    return favoriteIds.includes(selectedCamera.id);
-  }, [favoriteIds, selectedCamera?.id]);
+    return favoriteIds.some((id) => resolveCameraId(id) === selectedCamera.id);
+  }, [favoriteIds, resolveCameraId, selectedCamera?.id]);
 
   const toggleFavoriteSelected = useCallback(() => {
     const id = selectedCamera?.id;
     if (!id) return;
     setFavoriteIds((prev) => {
-      const next = prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id];
+      const isFavorite = prev.some((x) => resolveCameraId(x) === id);
+      const next = isFavorite ? prev.filter((x) => resolveCameraId(x) !== id) : [...prev, id];
       writeStringArrayStorage(FAVORITES_STORAGE_KEY, next);
       return next;
     });
-  }, [selectedCamera?.id]);
+  }, [resolveCameraId, selectedCamera?.id]);
 
   // Sync selected camera + filters to URL for shareable links.
   // We do this in a minimal way (replaceState) to avoid full page reloads.
@@ -873,7 +510,8 @@ export default function Index() {
       if (next.camId) params.set('cam', next.camId);
       else params.delete('cam');
 
-      if (next.q.trim()) params.set('q', next.q.trim());
+      const q = serializeSearchQuery(parseSearchQuery(next.q));
+      if (q) params.set('q', q);
       else params.delete('q');
 
       if (next.regions.length > 0) params.set('regions', serializeCsvParam(next.regions));
@@ -908,8 +546,20 @@ export default function Index() {
   const filteredCameras = useMemo(() => {
     let filtered = allCameras;
 
+    if (showAddedCamerasOnly && addedCameraIds) {
+      filtered = filtered.filter((cam) => !!cam.id && addedCameraIds.has(cam.id));
+    }
+
+    if (activeSolarElevations) {
+      filtered = filtered.filter((cam) => matchesDaylightFilter(activeSolarElevations.get(cam) ?? 0, daylightFilter));
+    }
+
+    if (verifiedLocationOnly) {
+      filtered = filtered.filter(isVerifiedLocation);
+    }
+
     if (favoritesOnly) {
-      const favSet = new Set(favoriteIds);
+      const favSet = new Set(favoriteIds.map(resolveCameraId));
       filtered = filtered.filter((cam) => !!cam.id && favSet.has(cam.id));
     }
 
@@ -921,22 +571,8 @@ export default function Index() {
       filtered = filtered.filter(cam => selectedManufacturers.includes(cam.manufacturer));
     }
 
-    const normalizedQuery = searchQuery.trim().toLowerCase();
-    if (normalizedQuery.length > 0) {
-      filtered = filtered.filter(cam => {
-        const haystack = [
-          cam.id,
-          cam.city,
-          cam.country,
-          cam.region,
-          cam.continent,
-          cam.manufacturer,
-        ]
-          .filter(Boolean)
-          .join(' ')
-          .toLowerCase();
-        return haystack.includes(normalizedQuery);
-      });
+    if (searchMatches) {
+      filtered = filtered.filter((cam) => searchMatches.has(cam));
     }
 
     const viewCenter = viewCenterLonLat
@@ -952,7 +588,10 @@ export default function Index() {
 
     if (sortMode !== 'none') {
       const recentIndex = new Map<string, number>();
-      recentIds.forEach((id, idx) => recentIndex.set(id, idx));
+      recentIds.forEach((id, idx) => {
+        const resolved = resolveCameraId(id);
+        if (!recentIndex.has(resolved)) recentIndex.set(resolved, idx);
+      });
 
       filtered = [...filtered].sort((a, b) => {
         if (sortMode === 'closest_me') {
@@ -978,18 +617,24 @@ export default function Index() {
 
     return filtered;
   }, [
+    activeSolarElevations,
+    addedCameraIds,
     allCameras,
     currentRotation,
+    daylightFilter,
     favoriteIds,
     favoritesOnly,
     nearMeEnabled,
     nearRadiusKm,
     recentIds,
-    searchQuery,
+    resolveCameraId,
+    searchMatches,
     selectedManufacturers,
     selectedRegions,
+    showAddedCamerasOnly,
     sortMode,
     userLocation,
+    verifiedLocationOnly,
   ]);
 
   const handleCopyShareLink = useCallback(async () => {
@@ -1100,6 +745,12 @@ export default function Index() {
     setIsSearchOpen(false);
   }, []);
 
+  const handleFlyToLocation = useCallback((latitude: number, longitude: number) => {
+    // Auto-rotate would carry the view straight past the point.
+    setAutoRotateEnabled(false);
+    globeRef.current?.flyTo(latitude, longitude);
+  }, []);
+
   const handleSettingsOpen = useCallback(() => {
     setIsHudOpen(false);
     setIsSettingsOpen(true);
@@ -1184,6 +835,7 @@ export default function Index() {
       glowIntensity,
       cloudsEnabled,
       cloudsOpacity,
+      showDayNight,
       showCountryBorders,
       showNavigationControls,
       showHudLeftFilters,
@@ -1204,6 +856,7 @@ export default function Index() {
     glowIntensity,
     cloudsEnabled,
     cloudsOpacity,
+    showDayNight,
     showCountryBorders,
     showNavigationControls,
     showHudLeftFilters,
@@ -1265,6 +918,18 @@ export default function Index() {
               <div className="hidden md:block w-[320px]">
                 <LiveActivityIndicator online={stats.online} total={stats.total} />
               </div>
+
+              {visibleCameraDataChanges && (
+                <div className="hidden md:block w-[320px]">
+                  <WhatsNewPanel
+                    changes={visibleCameraDataChanges}
+                    showingAdded={showAddedCamerasOnly}
+                    onShowAddedChange={setShowAddedCamerasOnly}
+                    onSelectCamera={(cam) => handleCameraSelect(cam)}
+                    onDismiss={handleDismissCameraDataChanges}
+                  />
+                </div>
+              )}
             </div>
           }
         />
@@ -1287,6 +952,7 @@ export default function Index() {
               markerSize={markerSize}
               cloudsEnabled={cloudsEnabled}
               cloudsOpacity={cloudsOpacity}
+              showDayNight={showDayNight}
               showCountryBorders={showCountryBorders}
               showNavigationControls={showNavigationControls}
               viewMode={viewMode}
@@ -1316,6 +982,16 @@ export default function Index() {
 
         {/* HUD Panels */}
         <div className="absolute inset-0 pointer-events-none">
+          {!isConnected && (
+            <div className="pointer-events-auto absolute top-24 left-1/2 -translate-x-1/2 z-30" role="status">
+              <div className="hud-panel corner-accents flex items-center gap-2 px-3 py-2">
+                <WifiOff className="w-3 h-3 text-red-400" />
+                <span className="font-mono text-[10px] uppercase tracking-wider text-white/80">
+                  Offline · showing cached cameras
+                </span>
+              </div>
+            </div>
+          )}
           <div className="pointer-events-auto hidden md:block absolute top-24 left-6 bottom-28 z-20 w-[320px]">
             <div className="space-y-3 h-full overflow-y-auto">
               {showHudLeftFilters && (
@@ -1355,6 +1031,15 @@ export default function Index() {
                     selectedManufacturers={selectedManufacturers}
                     onManufacturerToggle={handleManufacturerToggleWithUrl}
                   />
+
+                  <DaylightFilter value={daylightFilter} counts={daylightCounts} onChange={setDaylightFilter} />
+
+                  <VerifiedLocationFilter
+                    enabled={verifiedLocationOnly}
+                    verifiedCount={verifiedLocationCount}
+                    totalCount={allCameras.length}
+                    onToggle={() => setVerifiedLocationOnly((v) => !v)}
+                  />
                 </>
               )}
 
@@ -1478,6 +1163,23 @@ export default function Index() {
                     total={stats.total}
                   />
 
+                  {visibleCameraDataChanges && (
+                    <WhatsNewPanel
+                      changes={visibleCameraDataChanges}
+                      showingAdded={showAddedCamerasOnly}
+                      onShowAddedChange={(show) => {
+                        setShowAddedCamerasOnly(show);
+                        // The drawer covers the globe the new cameras are shown on.
+                        if (show) setIsHudOpen(false);
+                      }}
+                      onSelectCamera={(cam) => {
+                        setIsHudOpen(false);
+                        handleCameraSelect(cam);
+                      }}
+                      onDismiss={handleDismissCameraDataChanges}
+                    />
+                  )}
+
                   <StatsDisplay
                     totalCameras={stats.total}
                     visibleCameras={filteredCameras.length}
@@ -1496,6 +1198,15 @@ export default function Index() {
                     selectedManufacturers={selectedManufacturers}
                     onManufacturerToggle={handleManufacturerToggleWithUrl}
                   />
+
+                  <DaylightFilter value={daylightFilter} counts={daylightCounts} onChange={setDaylightFilter} />
+
+                  <VerifiedLocationFilter
+                    enabled={verifiedLocationOnly}
+                    verifiedCount={verifiedLocationCount}
+                    totalCount={allCameras.length}
+                    onToggle={() => setVerifiedLocationOnly((v) => !v)}
+                  />
                 </div>
               </DrawerContent>
             </Drawer>
@@ -1504,6 +1215,8 @@ export default function Index() {
 
         <CommandSearch
           cameras={allCameras}
+          query={searchQuery}
+          onQueryChange={handleSearch}
           isOpen={isSearchOpen}
           onClose={handleSearchClose}
           onSelectCamera={(camera) => {
@@ -1511,6 +1224,9 @@ export default function Index() {
             handleSearch('');
           }}
           onSelectRegion={handleSearchRegion}
+          onFlyToLocation={handleFlyToLocation}
+          referencePoint={searchReferencePoint}
+          now={now}
         />
 
         <SettingsPanel
@@ -1521,6 +1237,7 @@ export default function Index() {
           markerSize={markerSize}
           cloudsEnabled={cloudsEnabled}
           cloudsOpacity={cloudsOpacity}
+          showDayNight={showDayNight}
           showCountryBorders={showCountryBorders}
           showNavigationControls={showNavigationControls}
           showHudLeftFilters={showHudLeftFilters}
@@ -1528,6 +1245,7 @@ export default function Index() {
           showHudRightViewToggle={showHudRightViewToggle}
           showHudRightNavControls={showHudRightNavControls}
           showHudFooter={showHudFooter}
+          storageStatus={storageStatus}
           onClose={handleSettingsClose}
           onAutoRotateEnabledChange={setAutoRotateEnabled}
           onAutoRotateSpeedChange={setAutoRotateSpeed}
@@ -1535,6 +1253,7 @@ export default function Index() {
           onMarkerSizeChange={setMarkerSize}
           onCloudsEnabledChange={setCloudsEnabled}
           onCloudsOpacityChange={setCloudsOpacity}
+          onShowDayNightChange={setShowDayNight}
           onShowCountryBordersChange={setShowCountryBorders}
           onShowNavigationControlsChange={setShowNavigationControls}
           onShowHudLeftFiltersChange={setShowHudLeftFilters}
@@ -1637,6 +1356,7 @@ export default function Index() {
           isFavorite={isSelectedFavorite}
           onCopyShareLink={handleCopyShareLink}
           onDidCopy={(label) => toast.success(`${label} copied`)}
+          now={now}
         />
       </div>
     </ParallaxProvider>
@@ -6,6 +6,8 @@ export interface CameraData {
   longitude: number;
   continent: string;
   country: string;
+  /** ISO 3166-1 alpha-2 (`ZZ` when unknown); group and filter on this rather than `country`. */
+  country_code?: string;
   city: string;
   region: string;
   manufacturer: string;
@@ -13,6 +15,48 @@ export interface CameraData {
   page_url: string;
   source?: string;
   network_key?: string;
+  /** ID of the matching provider adapter (`getProviderAdapter`), when the source is a known provider. */
+  provider?: string;
+  access_level?: 'public' | 'restricted';
+  /** IANA timezone at the camera's coordinates (offline lookup, see `lookupTimezone`). */
+  timezone?: string;
+  /** Fields the row didn't have, filled from the nearest gazetteer place (see `reverseGeocode`). */
+  inferred_fields?: InferredField[];
+  /** How far the coordinates can be trusted (see `assessCameraLocation`). */
+  location_quality?: LocationQuality;
+  /**
+   * Positions this camera was published at in earlier dataset versions, oldest first; set only
+   * when it has since moved (see `annotateRelocatedCameras`).
+   */
+  previous_locations?: LocationHistoryPoint[];
+  /** Every row merged into this camera (including itself), best row first. Set by `dedupeCameras`. */
+  sources?: CameraSourceRef[];
+}
+
+export type InferredField = 'city' | 'region';
+
+export type LocationFlag = 'null_island' | 'outside_country' | 'shared_coordinates' | 'unknown_country';
+
+export interface LocationQuality {
+  /** 1 when nothing is suspicious, lower the more (and the worse) the flags. */
+  score: number;
+  flags: LocationFlag[];
+}
+
+export interface LocationHistoryPoint {
+  lat: number;
+  lon: number;
+  /** When a dataset first had the camera here (ms since epoch). */
+  seen: number;
+}
+
+/** One raw row a (possibly merged) camera came from. */
+export interface CameraSourceRef {
+  /** The ID the row would have had on its own; resolves to the merged camera via the alias table. */
+  id: string;
+  source?: string;
+  image_url: string;
+  page_url: string;
   access_level?: 'public' | 'restricted';
 }
 
@@ -1,8 +1,58 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import crypto from "crypto";
+import fs from "fs";
 import path from "path";
 import { viteStaticCopy } from "vite-plugin-static-copy";
 
+// Generated dataset encodings (e.g. `pnpm data:encode`); copied only when they've been built.
+const optionalDataFiles = ["src/data/camera_data.v2.bin"].filter((file) => fs.existsSync(path.resolve(__dirname, file)));
+
+// Served by the service worker's own strategies (or not meant for offline use), so not precached.
+const PRECACHE_EXCLUDE = [/^sw\.js$/, /^camera_data\./, /^patches\//, /^shards\//, /\.map$/];
+
+// Fill the precache list in the built `sw.js` (see public/sw.js) with every emitted file and a
+// content hash, after the static copies have landed in the output directory.
+function precacheManifest(): Plugin {
+  let outDir = "dist";
+  return {
+    name: "globecam-precache-manifest",
+    apply: "build",
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    closeBundle() {
+      const swFile = path.join(outDir, "sw.js");
+      if (!fs.existsSync(swFile)) return;
+
+      const files: string[] = [];
+      const walk = (dir: string) => {
+        for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+          const full = path.join(dir, entry.name);
+          if (entry.isDirectory()) walk(full);
+          else files.push(path.relative(outDir, full).split(path.sep).join("/"));
+        }
+      };
+      walk(outDir);
+
+      const hash = crypto.createHash("sha256");
+      const urls = files
+        .filter((file) => !PRECACHE_EXCLUDE.some((re) => re.test(file)))
+        .sort()
+        .map((file) => {
+          hash.update(file).update(fs.readFileSync(path.join(outDir, file)));
+          return `/${file}`;
+        });
+      const manifest = { version: hash.digest("hex").slice(0, 16), urls };
+
+      const source = fs.readFileSync(swFile, "utf8");
+      const placeholder = "/* precache-manifest */ { version: 'dev', urls: [] }";
+      if (!source.includes(placeholder)) throw new Error("sw.js has no precache placeholder");
+      fs.writeFileSync(swFile, source.replace(placeholder, JSON.stringify(manifest)));
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   define: {
@@ -24,6 +74,7 @@ export default defineConfig(({ mode }) => ({
           src: "src/data/camera_data.min.v2.json",
           dest: "",
         },
+        ...optionalDataFiles.map((src) => ({ src, dest: "" })),
         {
           src: "node_modules/cesium/Build/Cesium/Workers/*",
           dest: "cesium/Workers",
@@ -42,6 +93,7 @@ export default defineConfig(({ mode }) => ({
         },
       ],
     }),
+    precacheManifest(),
   ].filter(Boolean),
   assetsInclude: [
     "**/*.glb",